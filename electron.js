@@ -19,6 +19,7 @@ import { app, BrowserWindow, ipcMain, dialog, Menu, protocol, shell, safeStorage
 import electronUpdaterPkg from 'electron-updater';
 const { autoUpdater } = electronUpdaterPkg;
 import path from 'path';
+import os from 'os';
 import { fileURLToPath, pathToFileURL } from 'url';
 import fs from 'fs/promises';
 import { createReadStream, watch } from 'fs';
@@ -259,6 +260,7 @@ async function run() {
         images: [],
         audios: [],
         settings: null,
+        translations: null,
         tree: { name: path.basename(rootPath), path: '', children: [] }
     };
 
@@ -331,6 +333,13 @@ async function run() {
         results.settings = {};
     }
 
+    try {
+        const translationsContent = await fs.readFile(path.join(rootPath, 'game', 'project.translations.json'), 'utf-8');
+        results.translations = JSON.parse(translationsContent);
+    } catch {
+        results.translations = null;
+    }
+
     parentPort.postMessage({ type: 'result', ok: true, data: results });
 }
 
@@ -509,6 +518,15 @@ async function updateApplicationMenu() {
                 enabled: false,
                 click: (item, focusedWindow) => { if (focusedWindow) focusedWindow.webContents.send('menu-command', { command: 'open-screenshots-folder' }); }
             },
+            {
+                label: 'Export Canvas...',
+                accelerator: 'CmdOrCtrl+Shift+E',
+                click: (item, focusedWindow) => { if (focusedWindow) focusedWindow.webContents.send('menu-command', { command: 'export-canvas' }); }
+            },
+            {
+                label: 'Import Story Outline...',
+                click: (item, focusedWindow) => { if (focusedWindow) focusedWindow.webContents.send('menu-command', { command: 'import-story-outline' }); }
+            },
             { type: 'separator' },
             {
                 id: 'explorer-new-file',
@@ -608,6 +626,18 @@ async function updateApplicationMenu() {
                 label: 'Translation Dashboard',
                 click: (item, focusedWindow) => { if (focusedWindow) focusedWindow.webContents.send('menu-command', { command: 'open-static-tab', type: 'translations' }); }
             },
+            {
+                label: 'Variable Impact',
+                click: (item, focusedWindow) => { if (focusedWindow) focusedWindow.webContents.send('menu-command', { command: 'open-static-tab', type: 'variable-impact' }); }
+            },
+            {
+                label: 'Storyboard',
+                click: (item, focusedWindow) => { if (focusedWindow) focusedWindow.webContents.send('menu-command', { command: 'open-static-tab', type: 'storyboard' }); }
+            },
+            {
+                label: 'Character Timeline',
+                click: (item, focusedWindow) => { if (focusedWindow) focusedWindow.webContents.send('menu-command', { command: 'open-static-tab', type: 'character-timeline' }); }
+            },
             { type: 'separator' },
             {
                 label: 'Toggle Left Sidebar',
@@ -1539,6 +1569,31 @@ app.whenReady().then(() => {
     }
   });
 
+  // Prints canvas export pages (see src/lib/canvasExport.ts) to PDF in a hidden window
+  ipcMain.handle('app:export-pdf', async (event, html, filePath) => {
+    const tempPath = path.join(os.tmpdir(), `renide-export-${Date.now()}.html`);
+    let printWindow = null;
+    try {
+      await fs.writeFile(tempPath, html, 'utf-8');
+      printWindow = new BrowserWindow({ show: false, webPreferences: { offscreen: true, javascript: false } });
+      await printWindow.loadFile(tempPath);
+      const pdf = await printWindow.webContents.printToPDF({
+        printBackground: true,
+        preferCSSPageSize: true,
+        margins: { marginType: 'none' },
+      });
+      await fs.writeFile(filePath, pdf);
+      logger.info(`Canvas exported to PDF: ${filePath}`);
+      return { success: true };
+    } catch (error) {
+      logger.error('Failed to export PDF', error);
+      return { success: false, error: error.message };
+    } finally {
+      if (printWindow && !printWindow.isDestroyed()) printWindow.destroy();
+      await fs.unlink(tempPath).catch(() => {});
+    }
+  });
+
   ipcMain.handle('app:get-screenshot-count', async () => {
     try {
       if (!currentProjectRoot) return 0;
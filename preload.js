@@ -125,6 +125,8 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.on('fs:file-changed-externally', subscription);
     return () => ipcRenderer.removeListener('fs:file-changed-externally', subscription);
   },
+  // --- Export ---
+  exportPdf: (html, filePath) => ipcRenderer.invoke('app:export-pdf', html, filePath),
   // --- Logging ---
   log: (level, ...args) => ipcRenderer.send('app:log', level, ...args),
   getLogPath: () => ipcRenderer.invoke('app:get-log-path'),
@@ -12,6 +12,7 @@ import ChoiceCanvas from '@/components/ChoiceCanvas';
 import SettingsModal from '@/components/SettingsModal';
 import ConfirmModal from '@/components/ConfirmModal';
 import CreateBlockModal, { BlockType } from '@/components/CreateBlockModal';
+import StoryOutlineImportModal from '@/components/StoryOutlineImportModal';
 import ConfigureRenpyModal from '@/components/ConfigureRenpyModal';
 import Toast from '@/components/Toast';
 import LoadingOverlay from '@/components/LoadingOverlay';
@@ -25,6 +26,8 @@ import ScreenLayoutComposer from '@/components/ScreenLayoutComposer';
 import MarkdownPreviewView from '@/components/MarkdownPreviewView';
 import DiagnosticsPanel from '@/components/DiagnosticsPanel';
 import WarpVariablesModal from '@/components/WarpVariablesModal';
+import RenameSymbolModal from '@/components/RenameSymbolModal';
+import ReferencesPanel from '@/components/ReferencesPanel';
 import { useDiagnostics, migratePunchlistToTasks } from '@/hooks/useDiagnostics';
 import { useDebounce } from '@/hooks/useDebounce';
 import TabContextMenu from '@/components/TabContextMenu';
@@ -39,6 +42,9 @@ import FirstRunTutorial from '@/components/FirstRunTutorial';
 import { SearchProvider } from '@/contexts/SearchContext';
 import StatsView from '@/components/StatsView';
 import TranslationDashboard from '@/components/TranslationDashboard';
+import VariableImpactView from '@/components/VariableImpactView';
+import StoryboardView from '@/components/StoryboardView';
+import CharacterTimelineView from '@/components/CharacterTimelineView';
 import GoToLabelModal, { GoToLabelItem } from '@/components/GoToLabelModal';
 import { useRenpyAnalysis, deriveSceneImageNames } from '@/hooks/useRenpyAnalysis';
 import { useHistory } from '@/hooks/useHistory';
@@ -66,9 +72,29 @@ import {
   getRouteCanvasLayoutVersion,
 } from '@/lib/routeCanvasLayout';
 import { resolveWarpTarget } from '@/lib/warpTarget';
+import type { RenameFileEdit, RenameSymbolTarget } from '@/lib/renpyRename';
+import { applyQuickFixEdits, getQuickFixes } from '@/lib/renpyQuickFixes';
+import { planStoryboardMove } from '@/lib/storyboardOutline';
+import { planCreateLabel, planEditChoiceText, planInsertLink, planRemoveLink } from '@/lib/flowCanvasEdits';
+import { getTranslationReviewKey, planTranslationSave } from '@/lib/translationWorkbench';
+import { planTranslationImport, type TranslationExchangeEntry, type TranslationImportPlan } from '@/lib/translationExchange';
+import { planMissingTranslationStubs } from '@/lib/translationStubs';
+import {
+  addTranslationMemoryEntry,
+  createEmptyTranslationResources,
+  getCurrentTranslation,
+  normalizeTranslationResources,
+  saveTranslationResources,
+} from '@/lib/translationMemory';
+import { computeChoiceLayoutFingerprint, pruneChoiceNodeLayouts } from '@/lib/choiceCanvasLayout';
+import type { QuickFix, QuickFixTextEdit } from '@/lib/renpyQuickFixes';
+import { findSymbolReferences } from '@/lib/renpyReferences';
+import type { ReferenceTarget } from '@/lib/renpyReferences';
+import { buildImageUrlLookup } from '@/lib/renpyHover';
 import { logger } from '@/lib/logger';
 import { UI_TIMING } from '@/lib/constants';
 import { isSerializedSceneComposition, isSerializedImageMapComposition } from '@/lib/typeGuards';
+import type { ScaffoldFile } from '@/lib/storyGraphFormats';
 import {
   buildAfterWarpScript,
   getWarpVariableDrafts,
@@ -79,8 +105,9 @@ import type {
   Block, BlockGroup, Position, FileSystemTreeNode, EditorTab,
   ToastMessage, Theme, ProjectImage, RenpyAudio, Variable,
   ClipboardState, ImageMetadata, AudioMetadata, Character,
-  AppSettings, ProjectSettings, StickyNote, SceneComposition, SceneSprite, ImageMapComposition, ScreenLayoutComposition, PunchlistMetadata, DiagnosticsTask, IgnoredDiagnosticRule,
-  SerializedSprite, SerializedSceneComposition, SerializedImageMapComposition, StoryCanvasGroupingMode, StoryCanvasLayoutMode, UserSnippet, MenuTemplate
+  AppSettings, ProjectSettings, StickyNote, SceneComposition, SceneSprite, ImageMapComposition, ScreenLayoutComposition, PunchlistMetadata, DiagnosticsTask, DiagnosticIssue, IgnoredDiagnosticRule,
+  SerializedSprite, SerializedSceneComposition, SerializedImageMapComposition, StoryCanvasGroupingMode, StoryCanvasLayoutMode, UserSnippet, MenuTemplate, SavedChoiceNodeLayout, RouteLink, TranslatableString,
+  ProjectTranslationResources, GlossaryEntry
 } from '@/types';
 import * as monaco from 'monaco-editor/esm/vs/editor/editor.api';
 
@@ -105,6 +132,10 @@ interface PendingRouteLayoutRefresh {
     savedWasUserAdjusted: boolean;
 }
 
+interface PendingChoiceLayoutRefresh {
+    savedFingerprint?: string;
+}
+
 
 const App: React.FC = () => {
   // --- State: Blocks & Groups (Undo/Redo) ---
@@ -298,6 +329,10 @@ const App: React.FC = () => {
   const [diagnosticsTasks, setDiagnosticsTasks] = useImmer<DiagnosticsTask[]>([]);
   const [ignoredDiagnostics, setIgnoredDiagnostics] = useImmer<IgnoredDiagnosticRule[]>([]);
   const [dismissedImplicitVarHint, setDismissedImplicitVarHint] = useState(false);
+  // Translation memory and glossary, saved next to project.ide.json
+  const [translationResources, setTranslationResources] = useImmer<ProjectTranslationResources>(createEmptyTranslationResources);
+  // Whether the open project has a `project.translations.json` to keep in sync
+  const hasTranslationsFileRef = useRef(false);
 
   const [dirtyBlockIds, setDirtyBlockIds] = useState<Set<string>>(new Set());
   const [dirtyEditors, setDirtyEditors] = useState<Set<string>>(new Set()); // Blocks modified in editor but not synced to block state yet
@@ -316,6 +351,10 @@ const App: React.FC = () => {
     createBlockModalFolderPath,
     openCreateBlockModal,
     closeCreateBlockModal,
+    outlineImportModalOpen,
+    outlineImportModalPosition,
+    openOutlineImportModal,
+    closeOutlineImportModal,
     deleteConfirmInfo,
     openDeleteConfirmModal,
     closeDeleteConfirmModal,
@@ -351,6 +390,9 @@ const App: React.FC = () => {
     isWarpVariablesOpen,
     openWarpVariablesModal,
     closeWarpVariablesModal,
+    renameSymbolTarget,
+    openRenameSymbolModal,
+    closeRenameSymbolModal,
     userSnippetModalOpen,
     editingSnippet,
     openUserSnippetModal,
@@ -429,14 +471,15 @@ const App: React.FC = () => {
   const [pendingWarpLabelName, setPendingWarpLabelName] = useState<string | null>(null);
   const [pendingWarpTarget, setPendingWarpTarget] = useState<string | null>(null);
   const [pendingWarpVariableDrafts, setPendingWarpVariableDrafts] = useState<WarpVariableDraft[]>([]);
-  const [_editorCursorPosition, setEditorCursorPosition] = useState<{ line: number; column: number } | null>(null);
+  const [editorCursorPosition, setEditorCursorPosition] = useState<{ line: number; column: number } | null>(null);
   const warpTempFilePathRef = useRef<string | null>(null);
 
   // --- State: Flow Canvas (label-level flow graph) ---
   const [routeNodeLayoutCache, setRouteNodeLayoutCache] = useState<Map<string, Position>>(new Map());
 
   // --- State: Search (panel toggle remains here; query/results live in SearchContext) ---
-  const [activeLeftPanel, setActiveLeftPanel] = useState<'explorer' | 'search'>('explorer');
+  const [activeLeftPanel, setActiveLeftPanel] = useState<'explorer' | 'search' | 'references'>('explorer');
+  const [referencesTarget, setReferencesTarget] = useState<ReferenceTarget | null>(null);
 
   // --- Analysis ---
   // Debounce block content changes before feeding them into expensive analysis passes.
@@ -455,7 +498,7 @@ const App: React.FC = () => {
   const [analysisResult, isWorkerPending, analysisProgress] = useRenpyAnalysis(analysisBlocks, 0, perfRecorders.recordAnalysis);
   // Pending covers both: the 500ms debounce window AND the worker's async computation
   const isAnalysisPending = blocks !== debouncedBlocks || isWorkerPending;
-  const diagnosticsResult = useDiagnostics(debouncedBlocks, analysisResult, images, imageMetadata, audios, audioMetadata, ignoredDiagnostics);
+  const diagnosticsResult = useDiagnostics(debouncedBlocks, analysisResult, images, imageMetadata, audios, audioMetadata, ignoredDiagnostics, projectSettings.translationMaxLengthPercent, translationResources.glossary);
 
   // Ref that latches to true once the analysis worker starts (isWorkerPending goes true)
   // after a project load. Prevents the overlay from closing during the one-render gap
@@ -502,6 +545,7 @@ const App: React.FC = () => {
   const secondaryTabBarRef = useRef<HTMLDivElement>(null);
   const pendingStoryLayoutRefreshRef = useRef<PendingStoryLayoutRefresh | null>(null);
   const pendingRouteLayoutRefreshRef = useRef<PendingRouteLayoutRefresh | null>(null);
+  const pendingChoiceLayoutRefreshRef = useRef<PendingChoiceLayoutRefresh | null>(null);
   const pendingTagRenameRef = useRef<{ oldTag: string; newTag: string } | null>(null);
   const pendingAutoCenterRef = useRef({ story: false, route: false, choice: false });
 
@@ -552,6 +596,12 @@ const App: React.FC = () => {
       return tags;
   }, [analysisResult.definedImages, imageMetadata, images]);
 
+  // Image name → URL lookup used for hover thumbnails in the code editor
+  const imageUrlLookup = useMemo(
+    () => buildImageUrlLookup(images.values(), imageMetadata),
+    [images, imageMetadata],
+  );
+
   const existingAudioPaths = useMemo(() => {
       const paths = new Set<string>();
       audios.forEach((audio) => {
@@ -584,6 +634,11 @@ const App: React.FC = () => {
     [analysisResult.labels]
   );
 
+  const blockFilePaths = useMemo(
+    () => blocks.flatMap(b => (b.filePath ? [b.filePath] : [])),
+    [blocks]
+  );
+
   const scenesArray = useMemo(
     () => Object.keys(sceneCompositions).map(id => ({ id, name: sceneNames[id] || 'Scene' })),
     [sceneCompositions, sceneNames]
@@ -638,8 +693,8 @@ const App: React.FC = () => {
   // Split into two memos so that dragging route nodes (which updates routeNodeLayoutCache)
   // only reruns the cheap position-override step, not the expensive analysis + layout pass.
   // Route graph data (labelNodes, routeLinks, identifiedRoutes) comes directly from the
-  // worker result — calling performRouteAnalysis again here would duplicate the expensive
-  // findPaths computation on the main thread and freeze the UI on large projects.
+  // worker result — calling performRouteAnalysis again here would duplicate the route
+  // graph and path analysis on the main thread and freeze the UI on large projects.
   const routeRaw = useMemo(() => {
       const layoutMode = projectSettings.routeCanvasLayoutMode ?? 'flow-lr';
       const groupingMode = projectSettings.routeCanvasGroupingMode ?? 'none';
@@ -649,7 +704,8 @@ const App: React.FC = () => {
           labelNodes: layoutedNodes,
           routeLinks: analysisResult.routeLinks,
           identifiedRoutes: analysisResult.identifiedRoutes,
-          routesTruncated: analysisResult.routesTruncated,
+          pathAnalysis: analysisResult.pathAnalysis,
+          routeSimulation: analysisResult.routeSimulation,
       };
   }, [analysisResult, blocks, projectSettings.routeCanvasGroupingMode, projectSettings.routeCanvasLayoutMode]);
 
@@ -1137,11 +1193,7 @@ const App: React.FC = () => {
     return id;
   }, [setBlocks, fileSystemTree, storyCanvasTransform, appSettings]);
 
-  const handleCreateBlockConfirm = async (name: string, type: BlockType, folderPath: string, initialPosition?: Position) => {
-    const safeName = name.replace(/\.rpy$/, '');
-    const fileName = `${safeName}.rpy`;
-    const content = buildNewBlockContent(safeName, type);
-
+  const createScriptFile = async (fileName: string, folderPath: string, content: string, initialPosition?: Position) => {
     if (window.electronAPI && projectRootPath) {
         try {
             const cleanFolderPath = folderPath.endsWith('/') ? folderPath.slice(0, -1) : folderPath;
@@ -1169,6 +1221,18 @@ const App: React.FC = () => {
     }
   };
 
+  const handleCreateBlockConfirm = async (name: string, type: BlockType, folderPath: string, initialPosition?: Position) => {
+    const safeName = name.replace(/\.rpy$/, '');
+    await createScriptFile(`${safeName}.rpy`, folderPath, buildNewBlockContent(safeName, type), initialPosition);
+  };
+
+  const handleImportOutlineConfirm = async (files: ScaffoldFile[], folderPath: string, initialPosition?: Position) => {
+    for (const [i, file] of files.entries()) {
+      const position = initialPosition && { x: initialPosition.x + i * 40, y: initialPosition.y + i * 40 };
+      await createScriptFile(file.fileName, folderPath, file.content, position);
+    }
+  };
+
   // Sticky note handlers now provided by useStickyNotes hook
 
 
@@ -1571,8 +1635,52 @@ const App: React.FC = () => {
     setCenterOnChoiceStartRequest({ key: Date.now() });
   }, [isInitialAnalysisPending, isAnalysisPending, routeAnalysisResult.labelNodes]);
 
+  // Drop saved Choices Canvas layouts for labels and choices that left the script while closed
+  useEffect(() => {
+    const pendingRefresh = pendingChoiceLayoutRefreshRef.current;
+    if (!pendingRefresh || isInitialAnalysisPending || isAnalysisPending) {
+      return;
+    }
+    pendingChoiceLayoutRefreshRef.current = null;
+
+    const currentFingerprint = computeChoiceLayoutFingerprint(routeAnalysisResult.labelNodes, routeAnalysisResult.routeLinks);
+    if (pendingRefresh.savedFingerprint === currentFingerprint) return;
+    const { layouts, removed } = pruneChoiceNodeLayouts(
+      projectSettings.choiceNodeLayouts ?? {},
+      routeAnalysisResult.labelNodes,
+      routeAnalysisResult.routeLinks,
+    );
+    updateProjectSettings(draft => {
+      draft.choiceNodeLayouts = layouts;
+      draft.choiceCanvasLayoutFingerprint = currentFingerprint;
+    });
+    setHasUnsavedSettings(true);
+    if (removed > 0) {
+      addToast(`Choices layout: ${removed} pinned, hidden or collapsed ${removed === 1 ? 'item no longer matches' : 'items no longer match'} the script`, 'info');
+    }
+  }, [
+    isInitialAnalysisPending,
+    isAnalysisPending,
+    routeAnalysisResult.labelNodes,
+    routeAnalysisResult.routeLinks,
+    projectSettings.choiceNodeLayouts,
+    addToast,
+    updateProjectSettings,
+  ]);
+
+  const handleChoiceLayoutChange = useCallback((label: string, layout: SavedChoiceNodeLayout | null) => {
+    updateProjectSettings(draft => {
+      const layouts = { ...draft.choiceNodeLayouts };
+      if (layout) layouts[label] = layout;
+      else delete layouts[label];
+      draft.choiceNodeLayouts = layouts;
+      draft.choiceCanvasLayoutFingerprint = computeChoiceLayoutFingerprint(routeAnalysisResult.labelNodes, routeAnalysisResult.routeLinks);
+    });
+    setHasUnsavedSettings(true);
+  }, [routeAnalysisResult.labelNodes, routeAnalysisResult.routeLinks, updateProjectSettings]);
+
   // --- Tab Management Helpers ---
-  const handleOpenStaticTab = useCallback((type: 'canvas' | 'route-canvas' | 'choice-canvas' | 'diagnostics' | 'stats' | 'translations') => {
+  const handleOpenStaticTab = useCallback((type: 'canvas' | 'route-canvas' | 'choice-canvas' | 'diagnostics' | 'stats' | 'translations' | 'variable-impact' | 'storyboard' | 'character-timeline') => {
         const id = type;
         // If already open in primary, activate it there
         if (openTabs.find(t => t.id === id)) {
@@ -1692,6 +1800,9 @@ const App: React.FC = () => {
               savedVersion: projectData.settings?.routeCanvasLayoutVersion,
               savedWasUserAdjusted: projectData.settings?.routeCanvasLayoutWasUserAdjusted ?? false,
           };
+          pendingChoiceLayoutRefreshRef.current = Object.keys(projectData.settings?.choiceNodeLayouts ?? {}).length > 0
+              ? { savedFingerprint: projectData.settings?.choiceCanvasLayoutFingerprint }
+              : null;
           pendingAutoCenterRef.current = { story: true, route: true, choice: true };
           setRouteNodeLayoutCache(new Map(
             Object.entries(savedRouteNodeLayouts).map(([id, layout]) => [id, layout.position]),
@@ -1741,6 +1852,10 @@ const App: React.FC = () => {
                   draft.routeCanvasLayoutWasUserAdjusted = projectData.settings.routeCanvasLayoutWasUserAdjusted ?? false;
                   draft.routeCanvasHasAutocentered = false;
                   draft.choiceCanvasHasAutocentered = false;
+                  draft.choiceCanvasLayoutFingerprint = projectData.settings.choiceCanvasLayoutFingerprint;
+                  draft.choiceNodeLayouts = projectData.settings.choiceNodeLayouts ?? {};
+                  draft.translationReviewFlags = projectData.settings.translationReviewFlags ?? {};
+                  draft.translationMaxLengthPercent = projectData.settings.translationMaxLengthPercent;
               });
               setStickyNotes(projectData.settings.stickyNotes || []);
               setRouteStickyNotes(projectData.settings.routeStickyNotes || []);
@@ -1756,6 +1871,8 @@ const App: React.FC = () => {
                 setDiagnosticsTasks([]);
               }
               setIgnoredDiagnostics(projectData.settings.ignoredDiagnostics || []);
+              setTranslationResources(normalizeTranslationResources(projectData.translations));
+              hasTranslationsFileRef.current = projectData.translations != null;
               setDismissedImplicitVarHint(projectData.settings.dismissedImplicitVariableHint || false);
 
               // Load Scene Compositions
@@ -1939,7 +2056,7 @@ const App: React.FC = () => {
                   if (tab.type === 'markdown' && tab.filePath) {
                       return true; // File existence checked on tab render
                   }
-                  return tab.type === 'canvas' || tab.type === 'route-canvas' || tab.type === 'choice-canvas' || tab.type === 'punchlist' || tab.type === 'diagnostics' || tab.type === 'stats' || tab.type === 'translations';
+                  return tab.type === 'canvas' || tab.type === 'route-canvas' || tab.type === 'choice-canvas' || tab.type === 'punchlist' || tab.type === 'diagnostics' || tab.type === 'stats' || tab.type === 'translations' || tab.type === 'variable-impact' || tab.type === 'storyboard' || tab.type === 'character-timeline';
               });
 
               const rehydratedTabs = validTabs.map(tab => {
@@ -1972,7 +2089,7 @@ const App: React.FC = () => {
                   if (tab.type === 'audio' && tab.filePath) return audioMap.has(tab.filePath);
                   if (tab.type === 'character' && tab.characterTag) return true;
                   if (tab.type === 'markdown' && tab.filePath) return true;
-                  return tab.type === 'canvas' || tab.type === 'route-canvas' || tab.type === 'choice-canvas' || tab.type === 'punchlist' || tab.type === 'diagnostics' || tab.type === 'stats' || tab.type === 'translations' || tab.type === 'scene-composer';
+                  return tab.type === 'canvas' || tab.type === 'route-canvas' || tab.type === 'choice-canvas' || tab.type === 'punchlist' || tab.type === 'diagnostics' || tab.type === 'stats' || tab.type === 'translations' || tab.type === 'variable-impact' || tab.type === 'storyboard' || tab.type === 'character-timeline' || tab.type === 'scene-composer';
               });
               setSplitLayout(validSecondary.length > 0 ? savedSplitLayout : 'none');
               setSplitPrimarySize(projectData.settings.splitPrimarySize ?? 600);
@@ -1993,6 +2110,10 @@ const App: React.FC = () => {
                   draft.routeCanvasLayoutFingerprint = undefined;
                   draft.routeCanvasLayoutVersion = getRouteCanvasLayoutVersion();
                   draft.routeCanvasLayoutWasUserAdjusted = false;
+                  draft.choiceCanvasLayoutFingerprint = undefined;
+                  draft.choiceNodeLayouts = {};
+                  draft.translationReviewFlags = {};
+                  draft.translationMaxLengthPercent = undefined;
               });
               setRouteNodeLayoutCache(new Map());
               setOpenTabs([{ id: 'canvas', type: 'canvas' }]);
@@ -2007,6 +2128,8 @@ const App: React.FC = () => {
               setPunchlistMetadata({});
               setDiagnosticsTasks([]);
               setIgnoredDiagnostics([]);
+              setTranslationResources(normalizeTranslationResources(projectData.translations));
+              hasTranslationsFileRef.current = projectData.translations != null;
               setSceneCompositions({});
               setSceneNames({});
           }
@@ -2553,12 +2676,16 @@ const App: React.FC = () => {
       };
       const settingsPath = await window.electronAPI.path.join(projectRootPath as string, 'game/project.ide.json') as string;
       await window.electronAPI.writeFile(settingsPath, JSON.stringify(settingsToSave, null, 2));
+      hasTranslationsFileRef.current = await saveTranslationResources(translationResources, hasTranslationsFileRef.current, async (relativePath, content) => {
+        const translationsPath = await window.electronAPI!.path.join(projectRootPath as string, relativePath) as string;
+        await window.electronAPI!.writeFile(translationsPath, content);
+      });
       setHasUnsavedSettings(false);
     } catch (e) {
       logger.error("Failed to save IDE settings:", e);
       addToast('Failed to save workspace settings', 'error');
     }
-  }, [projectRootPath, projectSettings, blocks, routeNodeLayoutCache, openTabs, activeTabId, splitLayout, splitPrimarySize, secondaryOpenTabs, secondaryActiveTabId, stickyNotes, routeStickyNotes, choiceStickyNotes, characterProfiles, addToast, sceneCompositions, sceneNames, imagemapCompositions, screenLayoutCompositions, imageScanDirectories, audioScanDirectories, punchlistMetadata, diagnosticsTasks, ignoredDiagnostics, dismissedImplicitVarHint]);
+  }, [projectRootPath, projectSettings, blocks, routeNodeLayoutCache, openTabs, activeTabId, splitLayout, splitPrimarySize, secondaryOpenTabs, secondaryActiveTabId, stickyNotes, routeStickyNotes, choiceStickyNotes, characterProfiles, addToast, sceneCompositions, sceneNames, imagemapCompositions, screenLayoutCompositions, imageScanDirectories, audioScanDirectories, punchlistMetadata, diagnosticsTasks, ignoredDiagnostics, dismissedImplicitVarHint, translationResources]);
 
 
   const handleSaveAll = useCallback(async () => {
@@ -2891,6 +3018,19 @@ const App: React.FC = () => {
     }
   }, [blocks, openTabs, secondaryOpenTabs, activePaneId, splitLayout]);
 
+  // Fold state is stored on the editor tab so it is saved with ProjectSettings.openTabs
+  const handleEditorFoldStateChange = useCallback((blockId: string, foldedLines: number[]) => {
+    const update = (tabs: EditorTab[]) => {
+      const tab = tabs.find(t => t.id === blockId);
+      if (!tab) return tabs;
+      const current = tab.foldedLines ?? [];
+      if (current.length === foldedLines.length && current.every((line, i) => line === foldedLines[i])) return tabs;
+      return tabs.map(t => t.id === blockId ? { ...t, foldedLines: foldedLines.length > 0 ? foldedLines : undefined } : t);
+    };
+    setOpenTabs(update);
+    setSecondaryOpenTabs(update);
+  }, [setOpenTabs, setSecondaryOpenTabs]);
+
   const handleOpenImageEditorTab = useCallback((filePath: string) => {
     const tabId = `img-${filePath}`;
     if (openTabs.find(t => t.id === tabId)) { setActiveTabId(tabId); setActivePaneId('primary'); return; }
@@ -3239,6 +3379,18 @@ const App: React.FC = () => {
     return [];
   }, [activeCanvasTabId, analysisResult.labelNodes, routeAnalysisResult.labelNodes]);
 
+  // ── Canvas export (File → Export Canvas) ─────────────────────────────────────
+
+  const [exportCanvasRequest, setExportCanvasRequest] = useState<{ canvas: 'canvas' | 'route-canvas' | 'choice-canvas'; key: number } | null>(null);
+
+  const handleExportCanvas = useCallback(() => {
+    if (!activeCanvasTabId) {
+      addToast('Open the Project, Flow or Choices canvas to export it', 'info');
+      return;
+    }
+    setExportCanvasRequest({ canvas: activeCanvasTabId, key: Date.now() });
+  }, [activeCanvasTabId, addToast]);
+
   const goToLabelCanvasName = activeCanvasTabId === 'canvas' ? 'Story'
     : activeCanvasTabId === 'route-canvas' ? 'Route'
     : activeCanvasTabId === 'choice-canvas' ? 'Choice'
@@ -3669,6 +3821,30 @@ const App: React.FC = () => {
     }
   }, [appSettings.isLeftSidebarOpen, updateAppSettings]);
 
+  // --- References ---
+  const handleFindReferences = useCallback((target: ReferenceTarget) => {
+    setReferencesTarget(target);
+    setActiveLeftPanel('references');
+    if (!appSettings.isLeftSidebarOpen) {
+      updateAppSettings(draft => { draft.isLeftSidebarOpen = true; });
+    }
+  }, [appSettings.isLeftSidebarOpen, updateAppSettings]);
+
+  // Recomputed as the analysis updates so the panel stays current while editing.
+  const symbolReferences = useMemo(
+    () => (referencesTarget ? findSymbolReferences(blocks, analysisResult, referencesTarget) : []),
+    [referencesTarget, blocks, analysisResult],
+  );
+
+  // The Outline sub-tab follows the editor tab in the focused pane.
+  const outlineBlock = useMemo(() => {
+    const useSecondary = activePaneId === 'secondary' && splitLayout !== 'none';
+    const tabs = useSecondary ? secondaryOpenTabs : openTabs;
+    const tabId = useSecondary ? secondaryActiveTabId : activeTabId;
+    const tab = tabs.find(t => t.id === tabId && t.type === 'editor');
+    return tab?.blockId ? blocks.find(b => b.id === tab.blockId) ?? null : null;
+  }, [activePaneId, splitLayout, openTabs, secondaryOpenTabs, activeTabId, secondaryActiveTabId, blocks]);
+
   // --- Screenshot Handlers ---
   const refreshScreenshotCount = useCallback(async () => {
     if (!window.electronAPI?.getScreenshotCount) return;
@@ -3979,7 +4155,7 @@ const App: React.FC = () => {
             if (data.command === 'save-all') handleSaveAll();
             if (data.command === 'run-project' && projectRootPath) window.electronAPI?.runGame(appSettings.renpyPath, projectRootPath);
             if (data.command === 'stop-project') window.electronAPI?.stopGame();
-            if (data.command === 'open-static-tab' && data.type) handleOpenStaticTab(data.type as 'canvas' | 'route-canvas' | 'diagnostics' | 'translations');
+            if (data.command === 'open-static-tab' && data.type) handleOpenStaticTab(data.type as 'canvas' | 'route-canvas' | 'diagnostics' | 'translations' | 'variable-impact' | 'storyboard' | 'character-timeline');
             if (data.command === 'toggle-search') handleToggleSearch();
             if (data.command === 'open-settings') openSettingsModal();
             if (data.command === 'open-shortcuts') openShortcutsModal();
@@ -3995,6 +4171,8 @@ const App: React.FC = () => {
             // Note: 'capture-screenshot' command removed - screenshots are now captured
             // entirely in main process via global shortcut for reliability during crashes
             if (data.command === 'open-screenshots-folder') handleOpenScreenshotsFolder();
+            if (data.command === 'export-canvas') handleExportCanvas();
+            if (data.command === 'import-story-outline') openOutlineImportModal();
             if (data.command === 'close-tab') {
                 // Close the currently active tab
                 const currentPaneId = activePaneId;
@@ -4005,7 +4183,7 @@ const App: React.FC = () => {
             }
         });
         return removeListener;
-  }, [handleNewProjectRequest, handleOpenProjectFolder, handleOpenWithRenpyCheck, loadProject, handleSaveAll, projectRootPath, appSettings.renpyPath, handleOpenStaticTab, handleToggleSearch, updateAppSettings, handleDeleteNode, explorerSelectedPaths, handleRefreshProject, handleOpenScreenshotsFolder, handleCloseTab, activePaneId, activeTabId, secondaryActiveTabId]);
+  }, [handleNewProjectRequest, handleOpenProjectFolder, handleOpenWithRenpyCheck, loadProject, handleSaveAll, projectRootPath, appSettings.renpyPath, handleOpenStaticTab, handleToggleSearch, updateAppSettings, handleDeleteNode, explorerSelectedPaths, handleRefreshProject, handleOpenScreenshotsFolder, handleExportCanvas, openOutlineImportModal, handleCloseTab, activePaneId, activeTabId, secondaryActiveTabId]);
 
   // --- Screenshot Count ---
   useEffect(() => {
@@ -4271,11 +4449,238 @@ const App: React.FC = () => {
     }
   }, [analysisResult.variables, blocks, updateBlock, addToast]);
 
+  // Open editors may hold edits that have not been synced to block state yet,
+  // so the rename preview is computed against the live editor contents.
+  const renameSourceBlocks = useMemo(() => {
+    if (!renameSymbolTarget) return [];
+    return blocks.map(block => {
+      const editor = editorInstances.current.get(block.id);
+      return editor ? { ...block, content: editor.getValue() } : block;
+    });
+  }, [renameSymbolTarget, blocks]);
+
+  const handleApplyRenameSymbol = useCallback((target: RenameSymbolTarget, newName: string, edits: RenameFileEdit[]) => {
+    const contentById = new Map(edits.map(edit => [edit.blockId, edit.newContent]));
+    // A single setBlocks call keeps the whole rename as one undo step.
+    setBlocks(prev => prev.map(b => contentById.has(b.id) ? { ...b, content: contentById.get(b.id)! } : b));
+    setDirtyBlockIds(prev => {
+      const next = new Set(prev);
+      contentById.forEach((_, id) => next.add(id));
+      return next;
+    });
+    contentById.forEach((content, id) => {
+      const editor = editorInstances.current.get(id);
+      const model = editor?.getModel();
+      if (editor && model && model.getValue() !== content) {
+        editor.executeEdits('rename-symbol', [{ range: model.getFullModelRange(), text: content }]);
+      }
+    });
+    closeRenameSymbolModal();
+    addToast(`Renamed "${target.name}" to "${newName}" in ${edits.length} file(s).`, 'success');
+  }, [setBlocks, closeRenameSymbolModal, addToast]);
+
+  // Quick fixes are computed against live editor content, like rename.
+  const getQuickFixesForIssue = useCallback((issue: DiagnosticIssue) => {
+    const liveBlocks = blocks.map(block => {
+      const editor = editorInstances.current.get(block.id);
+      return editor ? { ...block, content: editor.getValue() } : block;
+    });
+    return getQuickFixes(issue, liveBlocks, analysisResult);
+  }, [blocks, analysisResult]);
+
+  /** Applies text edits to open editors (undoable there) and to the stored content of closed blocks. */
+  const applyTextEdits = (textEdits: QuickFixTextEdit[], source: string) => {
+    const editsByBlock = new Map<string, QuickFixTextEdit[]>();
+    for (const edit of textEdits) {
+      editsByBlock.set(edit.blockId, [...(editsByBlock.get(edit.blockId) ?? []), edit]);
+    }
+    const closedUpdates = new Map<string, string>();
+    editsByBlock.forEach((edits, blockId) => {
+      const editor = editorInstances.current.get(blockId);
+      if (editor) {
+        // Open editors take the edit directly so it lands on their undo stack.
+        editor.pushUndoStop();
+        editor.executeEdits(source, edits.map(edit => ({
+          range: { startLineNumber: edit.startLine, startColumn: edit.startColumn, endLineNumber: edit.endLine, endColumn: edit.endColumn },
+          text: edit.text,
+        })));
+        editor.pushUndoStop();
+        return;
+      }
+      const block = blocks.find(b => b.id === blockId);
+      if (block) closedUpdates.set(blockId, applyQuickFixEdits(block.content, edits));
+    });
+    if (closedUpdates.size > 0) {
+      setBlocks(prev => prev.map(b => closedUpdates.has(b.id) ? { ...b, content: closedUpdates.get(b.id)! } : b));
+      setDirtyBlockIds(prev => {
+        const next = new Set(prev);
+        closedUpdates.forEach((_, id) => next.add(id));
+        return next;
+      });
+    }
+  };
+
+  const handleApplyQuickFix = async (fix: QuickFix, sourceBlockId?: string) => {
+    applyTextEdits(fix.edits, 'quick-fix');
+    if (fix.newFile) {
+      const sourcePath = blocks.find(b => b.id === sourceBlockId)?.filePath;
+      const folderPath = sourcePath?.includes('/') ? sourcePath.slice(0, sourcePath.lastIndexOf('/') + 1) : 'game/';
+      await createScriptFile(`${fix.newFile.name}.rpy`, folderPath, fix.newFile.content);
+    }
+  };
+
+  /** Block contents as currently typed, so canvas edits line up with open editors. */
+  const getLiveBlocks = () => blocks.map(b => ({ id: b.id, filePath: b.filePath, content: editorInstances.current.get(b.id)?.getValue() ?? b.content }));
+
+  const handleStoryboardMove = (nodeId: string, afterId: string) => {
+    const { labelNodes, routeLinks } = routeAnalysisResult;
+    const plan = planStoryboardMove(nodeId, afterId, labelNodes, routeLinks, getLiveBlocks());
+    if ('error' in plan) {
+      addToast(plan.error, 'warning');
+      return;
+    }
+    applyTextEdits(plan.edits, 'storyboard-move');
+    const name = (id: string) => labelNodes.find(node => node.id === id)?.label ?? id;
+    addToast(`Moved "${name(nodeId)}" after "${name(afterId)}" (${plan.edits.length} ${plan.edits.length === 1 ? 'jump' : 'jumps'} updated)`, 'success');
+  };
+
+  const handleFlowCreateLink = (sourceId: string, targetId: string, kind: 'jump' | 'call') => {
+    const { labelNodes } = routeAnalysisResult;
+    const plan = planInsertLink(sourceId, targetId, kind, labelNodes, getLiveBlocks());
+    if ('error' in plan) {
+      addToast(plan.error, 'warning');
+      return;
+    }
+    applyTextEdits(plan.edits, 'flow-canvas');
+    const name = (id: string) => labelNodes.find(node => node.id === id)?.label ?? id;
+    addToast(`Added "${kind} ${name(targetId)}" to "${name(sourceId)}"`, 'success');
+  };
+
+  const handleFlowDeleteLink = (link: RouteLink) => {
+    const { labelNodes } = routeAnalysisResult;
+    const plan = planRemoveLink(link, labelNodes, getLiveBlocks());
+    if ('error' in plan) {
+      addToast(plan.error, 'warning');
+      return;
+    }
+    applyTextEdits(plan.edits, 'flow-canvas');
+    const name = (id: string) => labelNodes.find(node => node.id === id)?.label ?? id;
+    addToast(`Removed "${link.type} ${name(link.targetId)}" from "${name(link.sourceId)}"`, 'success');
+  };
+
+  const handleFlowCreateLabel = (blockId: string, name: string, position: Position) => {
+    const plan = planCreateLabel(blockId, name, routeAnalysisResult.labelNodes, getLiveBlocks());
+    if ('error' in plan) {
+      addToast(plan.error, 'warning');
+      return false;
+    }
+    applyTextEdits(plan.edits, 'flow-canvas');
+    // Node IDs are `${blockId}:${label}`, so the position is waiting when the analysis adds it
+    handleUpdateRouteNodePositions([{ id: `${blockId}:${name.trim()}`, position }]);
+    addToast(`Created label "${name.trim()}"`, 'success');
+    return true;
+  };
+
+  const handleFlowEditChoiceText = (blockId: string, sourceLine: number, text: string) => {
+    const plan = planEditChoiceText(blockId, sourceLine, text, getLiveBlocks());
+    if ('error' in plan) {
+      addToast(plan.error, 'warning');
+      return false;
+    }
+    applyTextEdits(plan.edits, 'flow-canvas');
+    return true;
+  };
+
+  const handleSaveTranslation = (source: TranslatableString, language: string, text: string) => {
+    const plan = planTranslationSave(source, language, text, analysisResult.translationData, getLiveBlocks());
+    if ('error' in plan) {
+      addToast(plan.error, 'warning');
+      return false;
+    }
+    applyTextEdits(plan.edits, 'translation-workbench');
+    // Only confirmed translations go into the translation memory
+    if (!projectSettings.translationReviewFlags?.[language]?.includes(getTranslationReviewKey(source))) {
+      setTranslationResources(draft => {
+        draft.memory[language] = addTranslationMemoryEntry(draft.memory[language], source.sourceText, text);
+      });
+      setHasUnsavedSettings(true);
+    }
+    return true;
+  };
+
+  const handleUpdateGlossary = (language: string, entries: GlossaryEntry[]) => {
+    setTranslationResources(draft => {
+      draft.glossary[language] = entries;
+    });
+    setHasUnsavedSettings(true);
+  };
+
+  const handlePlanTranslationImport = (entries: TranslationExchangeEntry[], language: string, overwrite: boolean) => (
+    planTranslationImport(entries, language, analysisResult.translationData, getLiveBlocks(), { overwrite })
+  );
+
+  const handleApplyTranslationImport = (plan: TranslationImportPlan, language: string) => {
+    applyTextEdits(plan.edits, 'translation-import');
+    const reviewKeys = new Set(projectSettings.translationReviewFlags?.[language]);
+    const confirmed = plan.written.filter(({ source }) => !reviewKeys.has(getTranslationReviewKey(source)));
+    if (confirmed.length > 0) {
+      setTranslationResources(draft => {
+        for (const { source, text } of confirmed) {
+          draft.memory[language] = addTranslationMemoryEntry(draft.memory[language], source.sourceText, text);
+        }
+      });
+      setHasUnsavedSettings(true);
+    }
+    addToast(`Imported ${plan.updatedCount} ${language} ${plan.updatedCount === 1 ? 'translation' : 'translations'}`, 'success');
+  };
+
+  const handleAddMissingTranslationStubs = async (language: string) => {
+    const plan = planMissingTranslationStubs(language, analysisResult.translationData, getLiveBlocks());
+    if (plan.stubCount === 0) {
+      addToast(`No missing ${language} translations to add`, 'warning');
+      return;
+    }
+    applyTextEdits(plan.edits, 'translation-stubs');
+    for (const file of plan.newFiles) {
+      const slash = file.filePath.lastIndexOf('/');
+      await createScriptFile(file.filePath.slice(slash + 1), file.filePath.slice(0, Math.max(slash, 0)), file.content);
+    }
+    addToast(`Added ${plan.stubCount} ${language} translation ${plan.stubCount === 1 ? 'stub' : 'stubs'}`, 'success');
+  };
+
+  const handleToggleTranslationReview = useCallback((language: string, key: string, needsReview: boolean) => {
+    updateProjectSettings(draft => {
+      const flags = new Set(draft.translationReviewFlags?.[language] ?? []);
+      if (needsReview) flags.add(key); else flags.delete(key);
+      draft.translationReviewFlags = { ...draft.translationReviewFlags, [language]: [...flags] };
+    });
+    // Clearing the flag confirms the current translation
+    const translationData = analysisResult.translationData;
+    const source = needsReview ? undefined : translationData.translatableStrings.find(s => getTranslationReviewKey(s) === key);
+    const confirmed = source && getCurrentTranslation(source, language, translationData);
+    if (confirmed) {
+      setTranslationResources(draft => {
+        draft.memory[language] = addTranslationMemoryEntry(draft.memory[language], confirmed.source, confirmed.target);
+      });
+    }
+    setHasUnsavedSettings(true);
+  }, [updateProjectSettings, analysisResult.translationData, setTranslationResources]);
+
+  const routeCanvasScriptFiles = useMemo(() => blocks
+    .filter(b => !b.filePath || b.filePath.endsWith('.rpy'))
+    .map(b => ({ blockId: b.id, name: b.title || b.filePath?.split('/').pop() || 'Untitled' })),
+  [blocks]);
+
   const handleFindScreenDefinition = useCallback((name: string) => {
     const def = analysisResult.screens.get(name);
     if (def) handleOpenEditor(def.definedInBlockId, def.line);
   }, [analysisResult.screens, handleOpenEditor]);
 
+  const handleFindTransformDefinition = useCallback((name: string) => {
+    const def = analysisResult.transforms.get(name);
+    if (def) handleOpenEditor(def.definedInBlockId, def.line);
+  }, [analysisResult.transforms, handleOpenEditor]);
+
   const handleAddImageScanDirectory = useCallback(async () => {
     if (window.electronAPI) {
       try {
@@ -4507,6 +4912,9 @@ const App: React.FC = () => {
     if (tab.id === 'diagnostics' || tab.id === 'punchlist') return 'Diagnostics';
     if (tab.id === 'stats') return 'Stats';
     if (tab.id === 'translations') return 'Translations';
+    if (tab.id === 'variable-impact') return 'Variable Impact';
+    if (tab.id === 'storyboard') return 'Storyboard';
+    if (tab.id === 'character-timeline') return 'Character Timeline';
     if (tab.type === 'scene-composer') return sceneNames[tab.sceneId!] || 'Scene';
     if (tab.type === 'imagemap-composer') return imagemapCompositions[tab.imagemapId!]?.screenName || 'ImageMap';
     if (tab.type === 'screen-layout-composer') return screenLayoutCompositions[tab.layoutId!]?.screenName || 'Screen Layout';
@@ -4529,19 +4937,22 @@ const App: React.FC = () => {
         dirtyBlockIds={dirtyBlockIds} canvasFilters={canvasFilters} setCanvasFilters={setCanvasFilters}
         centerOnBlockRequest={centerOnBlockRequest} flashBlockRequest={flashBlockRequest}
         hoverHighlightIds={hoverHighlightIds} transform={storyCanvasTransform} onTransformChange={setStoryCanvasTransform}
-        onCreateBlock={handleCreateBlockFromCanvas} onAddStickyNote={addStickyNote} mouseGestures={appSettings.mouseGestures}
+        onCreateBlock={handleCreateBlockFromCanvas} onImportOutline={openOutlineImportModal}
+        onAddStickyNote={addStickyNote} mouseGestures={appSettings.mouseGestures}
         onOpenRouteCanvas={handleOpenRouteCanvasTab}
         layoutMode={projectSettings.storyCanvasLayoutMode ?? 'flow-lr'}
         groupingMode={projectSettings.storyCanvasGroupingMode ?? 'none'}
         onChangeLayoutMode={handleChangeStoryCanvasLayoutMode}
         onChangeGroupingMode={handleChangeStoryCanvasGroupingMode}
         diagnosticsResult={diagnosticsResult}
+        exportRequest={exportCanvasRequest?.canvas === 'canvas' ? exportCanvasRequest : null}
+        addToast={addToast}
       />;
     }
     if (tab.type === 'route-canvas') {
       return <RouteCanvas
         labelNodes={routeAnalysisResult.labelNodes} routeLinks={routeAnalysisResult.routeLinks}
-        identifiedRoutes={routeAnalysisResult.identifiedRoutes} routesTruncated={routeAnalysisResult.routesTruncated}
+        identifiedRoutes={routeAnalysisResult.identifiedRoutes} totalPathCount={routeAnalysisResult.pathAnalysis.totalPathCount} routeSimulation={routeAnalysisResult.routeSimulation}
         updateLabelNodePositions={handleUpdateRouteNodePositions}
         stickyNotes={routeStickyNotes} onAddStickyNote={addRouteStickyNote}
         updateStickyNote={updateRouteStickyNote} deleteStickyNote={deleteRouteStickyNote}
@@ -4555,6 +4966,13 @@ const App: React.FC = () => {
         centerOnStartRequest={centerOnRouteStartRequest}
         centerOnNodeRequest={centerOnRouteNodeRequest}
         projectImages={images}
+        exportRequest={exportCanvasRequest?.canvas === 'route-canvas' ? exportCanvasRequest : null}
+        addToast={addToast}
+        onCreateLink={handleFlowCreateLink}
+        onDeleteLink={handleFlowDeleteLink}
+        onCreateLabel={handleFlowCreateLabel}
+        onEditChoiceText={handleFlowEditChoiceText}
+        scriptFiles={routeCanvasScriptFiles}
       />;
     }
     if (tab.type === 'choice-canvas') {
@@ -4572,6 +4990,10 @@ const App: React.FC = () => {
         onWarpToLabel={handleWarpToLabel}
         centerOnStartRequest={centerOnChoiceStartRequest}
         centerOnNodeRequest={centerOnChoiceNodeRequest}
+        exportRequest={exportCanvasRequest?.canvas === 'choice-canvas' ? exportCanvasRequest : null}
+        addToast={addToast}
+        savedLayouts={projectSettings.choiceNodeLayouts}
+        onLayoutChange={handleChoiceLayoutChange}
       />;
     }
     if (tab.type === 'diagnostics' || tab.type === 'punchlist') {
@@ -4583,6 +5005,8 @@ const App: React.FC = () => {
         onUpdateTasks={(updated) => { setDiagnosticsTasks(updated); setHasUnsavedSettings(true); }}
         onUpdateIgnoredDiagnostics={(updated) => { setIgnoredDiagnostics(updated); setHasUnsavedSettings(true); }}
         onOpenBlock={handleOpenEditor} onHighlightBlock={(id) => handleCenterOnBlock(id)}
+        getQuickFixes={getQuickFixesForIssue}
+        onApplyQuickFix={(fix, issue) => handleApplyQuickFix(fix, issue.blockId)}
       />;
     }
     if (tab.id === 'stats') {
@@ -4606,6 +5030,49 @@ const App: React.FC = () => {
         onGenerateTranslations={handleGenerateTranslations}
         isGenerating={isGeneratingTranslations}
         isRenpyPathValid={isRenpyPathValid}
+        onSaveTranslation={handleSaveTranslation}
+        reviewFlags={projectSettings.translationReviewFlags}
+        onToggleReview={handleToggleTranslationReview}
+        onPlanTranslationImport={handlePlanTranslationImport}
+        onApplyTranslationImport={handleApplyTranslationImport}
+        onAddMissingStubs={handleAddMissingTranslationStubs}
+        translationMemory={translationResources.memory}
+        glossary={translationResources.glossary}
+        onUpdateGlossary={handleUpdateGlossary}
+      />;
+    }
+    if (tab.id === 'variable-impact') {
+      return <VariableImpactView
+        choiceEffects={analysisResult.choiceEffects}
+        blocks={blocks}
+        labelNodes={routeAnalysisResult.labelNodes}
+        identifiedRoutes={routeAnalysisResult.identifiedRoutes}
+        routeSimulation={routeAnalysisResult.routeSimulation}
+        onOpenLocation={handleOpenEditor}
+      />;
+    }
+    if (tab.id === 'storyboard') {
+      return <StoryboardView
+        labelNodes={routeAnalysisResult.labelNodes}
+        routeLinks={routeAnalysisResult.routeLinks}
+        blocks={blocks}
+        dialogueLines={analysisResult.dialogueLines}
+        characters={analysisResult.characters}
+        projectImages={images}
+        onOpenLocation={handleOpenEditor}
+        onMoveLabel={handleStoryboardMove}
+      />;
+    }
+    if (tab.id === 'character-timeline') {
+      return <CharacterTimelineView
+        identifiedRoutes={routeAnalysisResult.identifiedRoutes}
+        labelNodes={routeAnalysisResult.labelNodes}
+        pathAnalysis={routeAnalysisResult.pathAnalysis}
+        blocks={blocks}
+        dialogueLines={analysisResult.dialogueLines}
+        characters={analysisResult.characters}
+        characterUsage={analysisResult.characterUsage}
+        onOpenLocation={handleOpenEditor}
       />;
     }
     if (tab.type === 'editor' && tab.blockId) {
@@ -4626,6 +5093,13 @@ const App: React.FC = () => {
         userSnippets={appSettings.userSnippets}
         menuTemplates={appSettings.menuTemplates}
         onSaveMenuTemplate={handleSaveMenuTemplate}
+        onRenameSymbol={openRenameSymbolModal}
+        onFindReferences={handleFindReferences}
+        initialFoldedLines={tab.foldedLines}
+        onFoldStateChange={handleEditorFoldStateChange}
+        diagnosticIssues={diagnosticsResult.issues}
+        onApplyQuickFix={handleApplyQuickFix}
+        imageUrlLookup={imageUrlLookup}
       />;
     }
     if (tab.type === 'image' && tab.filePath) {
@@ -4858,7 +5332,7 @@ const App: React.FC = () => {
         handleTidyUp={handleActiveCanvasTidyUp}
         handleSave={handleSaveAll}
         onOpenSettings={() => openSettingsModal()}
-        onOpenStaticTab={handleOpenStaticTab as (type: 'canvas' | 'route-canvas' | 'choice-canvas' | 'stats' | 'diagnostics' | 'translations') => void}
+        onOpenStaticTab={handleOpenStaticTab as (type: 'canvas' | 'route-canvas' | 'choice-canvas' | 'stats' | 'diagnostics' | 'translations' | 'variable-impact' | 'storyboard' | 'character-timeline') => void}
         diagnosticsErrorCount={diagnosticsResult.errorCount}
         onAddStickyNote={activeCanvasOnAddStickyNote}
         isGameRunning={isGameRunning}
@@ -4899,6 +5373,12 @@ const App: React.FC = () => {
                 >
                   Search
                 </button>
+                <button
+                  onClick={() => setActiveLeftPanel('references')}
+                  className={`px-3 py-1 rounded-md text-sm font-medium ${activeLeftPanel === 'references' ? 'bg-white dark:bg-gray-900 shadow' : 'text-gray-600 dark:text-gray-300'}`}
+                >
+                  References
+                </button>
               </div>
               <button
                 onClick={() => updateAppSettings(draft => { draft.isLeftSidebarOpen = false })}
@@ -4932,8 +5412,15 @@ const App: React.FC = () => {
                     onToggleExpand={handleToggleExpandExplorer}
                     externalAction={explorerExternalAction}
                 />
-             ) : (
+             ) : activeLeftPanel === 'search' ? (
                 <SearchPanel />
+             ) : (
+                <ReferencesPanel
+                    target={referencesTarget}
+                    references={symbolReferences}
+                    onResultClick={handleOpenEditor}
+                    onClear={() => setReferencesTarget(null)}
+                />
              )}
             </div>
           </div>
@@ -5117,6 +5604,8 @@ const App: React.FC = () => {
                 onEditVariable={handleEditVariable}
                 onFindVariableUsages={(name) => handleFindUsages(name, 'variable')}
                 onFindScreenDefinition={handleFindScreenDefinition}
+                onFindTransformDefinition={handleFindTransformDefinition}
+                onOpenStyleLocation={handleOpenEditor}
                 // Image Props
                 projectImages={images}
                 imageMetadata={imageMetadata}
@@ -5183,6 +5672,10 @@ const App: React.FC = () => {
                 dismissedImplicitVarHint={dismissedImplicitVarHint}
                 onDismissImplicitVarHint={() => setDismissedImplicitVarHint(true)}
                 onOpenDiagnostics={() => handleOpenStaticTab('diagnostics')}
+                // Outline
+                outlineBlock={outlineBlock}
+                outlineCursorLine={editorCursorPosition?.line}
+                onOutlineNavigate={handleOpenEditor}
             />
           </div>
         )}
@@ -5238,6 +5731,16 @@ const App: React.FC = () => {
         initialType={createBlockModalType}
       />
 
+      {outlineImportModalOpen && (
+        <StoryOutlineImportModal
+          existingLabels={analysisLabelKeys}
+          existingFilePaths={blockFilePaths}
+          defaultFolder={getSelectedFolderForNewBlock()}
+          onConfirm={(files, folderPath) => handleImportOutlineConfirm(files, folderPath, outlineImportModalPosition)}
+          onClose={closeOutlineImportModal}
+        />
+      )}
+
       <ConfigureRenpyModal
         isOpen={showConfigureRenpyModal}
         onClose={() => closeConfigureRenpyModal()}
@@ -5399,6 +5902,14 @@ const App: React.FC = () => {
         onClose={resetWarpLaunchState}
         onConfirm={handleConfirmWarpVariables}
       />
+      <RenameSymbolModal
+        isOpen={renameSymbolTarget !== null}
+        target={renameSymbolTarget}
+        blocks={renameSourceBlocks}
+        analysisResult={analysisResult}
+        onClose={closeRenameSymbolModal}
+        onApply={handleApplyRenameSymbol}
+      />
 
       <FirstRunTutorial
         forceShow={showTutorial}
@@ -1,10 +1,10 @@
 /**
  * @file CanvasContextMenu.tsx
  * @description Right-click context menu for empty canvas space (~70 lines).
- * Key features: create new story/screen/config blocks, add sticky notes; uses `createPortal`
- * for correct z-ordering above canvas elements; dismisses on outside mousedown.
- * Integration: rendered by `StoryCanvas`; delegates block creation to `onCreateBlock` and note
- * creation to `onAddStickyNote`.
+ * Key features: create new story/screen/config blocks, import a story outline, add labels or sticky notes; uses
+ * `createPortal` for correct z-ordering above canvas elements; dismisses on outside mousedown.
+ * Integration: rendered by `StoryCanvas` and `RouteCanvas`; delegates block creation to `onCreateBlock`, label
+ * creation to `onCreateLabel` and note creation to `onAddStickyNote`.
  */
 
 import React, { useEffect, useRef } from 'react';
@@ -16,10 +16,12 @@ interface CanvasContextMenuProps {
   y: number;
   onClose: () => void;
   onCreateBlock?: (type: BlockType) => void;
+  onImportOutline?: () => void;
+  onCreateLabel?: () => void;
   onAddStickyNote: () => void;
 }
 
-const CanvasContextMenu: React.FC<CanvasContextMenuProps> = ({ x, y, onClose, onCreateBlock, onAddStickyNote }) => {
+const CanvasContextMenu: React.FC<CanvasContextMenuProps> = ({ x, y, onClose, onCreateBlock, onImportOutline, onCreateLabel, onAddStickyNote }) => {
   const menuRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -72,9 +74,27 @@ const CanvasContextMenu: React.FC<CanvasContextMenuProps> = ({ x, y, onClose, on
               <span className="w-2 h-2 rounded-full bg-red-500 mr-2"></span>
               Config Block
             </button>
+            {onImportOutline && (
+              <button
+                onClick={() => handleAction(onImportOutline)}
+                className="w-full text-left px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 hover:text-indigo-600 dark:hover:text-indigo-400 rounded transition-colors flex items-center"
+              >
+                <span className="w-2 h-2 rounded-full border border-indigo-500 mr-2"></span>
+                From Outline…
+              </button>
+            )}
             <div className="border-t border-gray-200 dark:border-gray-700 my-1"></div>
           </>
         )}
+        {onCreateLabel && (
+          <button
+            onClick={() => handleAction(onCreateLabel)}
+            className="w-full text-left px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 hover:text-indigo-600 dark:hover:text-indigo-400 rounded transition-colors flex items-center"
+          >
+            <span className="w-2 h-2 rounded-full bg-indigo-500 mr-2"></span>
+            New Label…
+          </button>
+        )}
         <button
           onClick={() => handleAction(onAddStickyNote)}
           className="w-full text-left px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-yellow-50 dark:hover:bg-yellow-900/30 hover:text-yellow-600 dark:hover:text-yellow-400 rounded transition-colors flex items-center"
@@ -0,0 +1,237 @@
+/**
+ * @file CanvasExportModal.tsx
+ * @description Options dialog for exporting a whole canvas graph to SVG, PNG or PDF (~240 lines).
+ * Key features: format choice; PNG pixel ratio with a note when the graph is too large for the
+ * requested size; PDF page size, orientation and pages across with the resulting page count;
+ * DOT, Mermaid and GraphML of the label or file graph when the canvas provides one.
+ * Integration: opened from the export button or File → Export Canvas on `StoryCanvas`,
+ * `RouteCanvas` and `ChoiceCanvas`, which pass a scene builder; writing goes through
+ * `exportCanvasScene` in `lib/canvasExport` and `serializeStoryGraph` in `lib/storyGraphFormats`.
+ */
+import React, { useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useModalAccessibility } from '@/hooks/useModalAccessibility';
+import {
+  clampPixelRatio,
+  computePdfTiles,
+  exportCanvasScene,
+  getSceneBounds,
+  saveTextExport,
+  type CanvasExportFormat,
+  type CanvasExportScene,
+  type PdfPageSize,
+} from '@/lib/canvasExport';
+import {
+  serializeStoryGraph,
+  STORY_GRAPH_FILE_TYPES,
+  type StoryGraph,
+  type StoryGraphFormat,
+  type StoryGraphScope,
+} from '@/lib/storyGraphFormats';
+
+interface CanvasExportModalProps {
+  /** Builds the scene to export; called once when the dialog opens */
+  buildScene: () => CanvasExportScene;
+  /** Suggested file name, without extension */
+  fileBaseName: string;
+  /** Builds the story structure for DOT, Mermaid and GraphML; those formats are offered only when set */
+  buildStoryGraph?: (scope: StoryGraphScope) => StoryGraph;
+  defaultGraphScope?: StoryGraphScope;
+  onClose: () => void;
+  addToast?: (message: string, type?: 'success' | 'error' | 'warning' | 'info') => void;
+}
+
+const FORMATS: { id: CanvasExportFormat; label: string; hint: string }[] = [
+  { id: 'svg', label: 'SVG', hint: 'Vector, scales to any size' },
+  { id: 'png', label: 'PNG', hint: 'High-resolution image' },
+  { id: 'pdf', label: 'PDF', hint: 'Printable pages' },
+];
+
+const GRAPH_FORMATS: { id: StoryGraphFormat; label: string; hint: string }[] = [
+  { id: 'dot', label: 'DOT', hint: 'Graphviz' },
+  { id: 'mermaid', label: 'Mermaid', hint: 'Flowchart for docs and wikis' },
+  { id: 'graphml', label: 'GraphML', hint: 'yEd, Gephi' },
+];
+
+const isGraphFormat = (format: CanvasExportFormat | StoryGraphFormat): format is StoryGraphFormat =>
+  GRAPH_FORMATS.some(f => f.id === format);
+
+const selectClass = 'w-full rounded-md border border-primary bg-primary px-2 py-1.5 text-sm text-primary focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500';
+
+const CanvasExportModal: React.FC<CanvasExportModalProps> = ({
+  buildScene,
+  fileBaseName,
+  buildStoryGraph,
+  defaultGraphScope = 'labels',
+  onClose,
+  addToast,
+}) => {
+  const { modalProps, contentRef } = useModalAccessibility({ isOpen: true, onClose, titleId: 'canvas-export-title' });
+  // Snapshot of the canvas as it was when the dialog opened
+  const [scene] = useState(buildScene);
+  const bounds = useMemo(() => getSceneBounds(scene), [scene]);
+
+  const [format, setFormat] = useState<CanvasExportFormat | StoryGraphFormat>('svg');
+  const [graphScope, setGraphScope] = useState<StoryGraphScope>(defaultGraphScope);
+  const [pixelRatio, setPixelRatio] = useState(2);
+  const [pageSize, setPageSize] = useState<PdfPageSize>('A4');
+  const [landscape, setLandscape] = useState(true);
+  const [pagesAcross, setPagesAcross] = useState(1);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const effectiveRatio = clampPixelRatio(bounds.width, bounds.height, pixelRatio);
+  const pageCount = useMemo(
+    () => computePdfTiles(bounds, { pageSize, landscape, pagesAcross }).tiles.length,
+    [bounds, pageSize, landscape, pagesAcross],
+  );
+  const storyGraph = useMemo(
+    () => (buildStoryGraph && isGraphFormat(format) ? buildStoryGraph(graphScope) : null),
+    [buildStoryGraph, format, graphScope],
+  );
+  const isEmpty = storyGraph ? storyGraph.nodes.length === 0 : scene.nodes.length === 0 && scene.notes.length === 0;
+  const formats = buildStoryGraph ? [...FORMATS, ...GRAPH_FORMATS] : FORMATS;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const saved = storyGraph && isGraphFormat(format)
+        ? await saveTextExport(
+          serializeStoryGraph(storyGraph, format),
+          `${graphScope === 'files' ? 'story-files' : 'story'}.${STORY_GRAPH_FILE_TYPES[format].extension}`,
+          STORY_GRAPH_FILE_TYPES[format].filter,
+          STORY_GRAPH_FILE_TYPES[format].mimeType,
+        )
+        : await exportCanvasScene(scene, { format: format as CanvasExportFormat, pixelRatio, pageSize, landscape, pagesAcross }, fileBaseName);
+      if (saved) {
+        addToast?.(`Exported ${saved.split(/[\\/]/).pop()}`, 'success');
+        onClose();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50" onClick={onClose} {...modalProps}>
+      <div
+        ref={contentRef}
+        className="bg-secondary rounded-lg shadow-2xl w-full max-w-md m-4 flex flex-col border border-primary text-primary"
+        onClick={e => e.stopPropagation()}
+      >
+        <header className="px-6 py-5 border-b border-primary">
+          <h2 id="canvas-export-title" className="text-xl font-bold">Export {scene.title}</h2>
+          <p className="mt-1 text-xs text-secondary">
+            {scene.nodes.length} nodes · {scene.edges.length} links · {Math.round(bounds.width)} × {Math.round(bounds.height)} px
+          </p>
+        </header>
+        <main className="px-6 py-5 space-y-5">
+          <div className="grid grid-cols-3 gap-2" role="radiogroup" aria-label="Format">
+            {formats.map(f => (
+              <button
+                key={f.id}
+                role="radio"
+                aria-checked={format === f.id}
+                onClick={() => setFormat(f.id)}
+                className={`rounded-md border px-3 py-2 text-left transition-colors ${format === f.id ? 'border-indigo-500 bg-indigo-500/10' : 'border-primary hover:bg-tertiary-hover'}`}
+              >
+                <span className="block text-sm font-bold">{f.label}</span>
+                <span className="block text-[11px] text-secondary">{f.hint}</span>
+              </button>
+            ))}
+          </div>
+
+          {format === 'png' && (
+            <label className="block text-sm">
+              <span className="block mb-1 text-secondary">Resolution</span>
+              <select value={pixelRatio} onChange={e => setPixelRatio(Number(e.target.value))} className={selectClass}>
+                {[1, 2, 4].map(r => <option key={r} value={r}>{r}× ({Math.round(bounds.width * r)} × {Math.round(bounds.height * r)} px)</option>)}
+              </select>
+              {effectiveRatio < pixelRatio && (
+                <span className="block mt-1 text-xs text-amber-600 dark:text-amber-400">
+                  The graph is too large for this size; it will be exported at {effectiveRatio.toFixed(2)}×
+                  ({Math.floor(bounds.width * effectiveRatio)} × {Math.floor(bounds.height * effectiveRatio)} px). Use SVG or PDF for full detail.
+                </span>
+              )}
+            </label>
+          )}
+
+          {format === 'pdf' && (
+            <div className="grid grid-cols-3 gap-3 text-sm">
+              <label className="block">
+                <span className="block mb-1 text-secondary">Page size</span>
+                <select value={pageSize} onChange={e => setPageSize(e.target.value as PdfPageSize)} className={selectClass}>
+                  <option value="A4">A4</option>
+                  <option value="Letter">Letter</option>
+                  <option value="A3">A3</option>
+                </select>
+              </label>
+              <label className="block">
+                <span className="block mb-1 text-secondary">Orientation</span>
+                <select value={landscape ? 'landscape' : 'portrait'} onChange={e => setLandscape(e.target.value === 'landscape')} className={selectClass}>
+                  <option value="landscape">Landscape</option>
+                  <option value="portrait">Portrait</option>
+                </select>
+              </label>
+              <label className="block">
+                <span className="block mb-1 text-secondary">Pages across</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={20}
+                  value={pagesAcross}
+                  onChange={e => setPagesAcross(Math.min(20, Math.max(1, Math.floor(Number(e.target.value) || 1))))}
+                  className={selectClass}
+                />
+              </label>
+              <p className="col-span-3 text-xs text-secondary">
+                {pageCount} {pageCount === 1 ? 'page' : 'pages'}
+              </p>
+            </div>
+          )}
+
+          {storyGraph && (
+            <label className="block text-sm">
+              <span className="block mb-1 text-secondary">Graph</span>
+              <select value={graphScope} onChange={e => setGraphScope(e.target.value as StoryGraphScope)} className={selectClass}>
+                <option value="labels">Labels, grouped by file</option>
+                <option value="files">Files</option>
+              </select>
+              <span className="block mt-1 text-xs text-secondary">
+                {storyGraph.nodes.length} nodes · {storyGraph.links.length} links · structure only, without filters or layout
+              </span>
+            </label>
+          )}
+
+          {isEmpty && (
+            <p className="text-xs text-amber-600 dark:text-amber-400">
+              {storyGraph ? 'The project has no labels yet.' : 'Nothing is visible on this canvas with the current filters.'}
+            </p>
+          )}
+          {error && <p className="text-xs text-red-600 dark:text-red-400">Export failed: {error}</p>}
+        </main>
+        <footer className="bg-header px-6 py-4 rounded-b-lg flex justify-end items-center space-x-4 border-t border-primary">
+          <button
+            onClick={onClose}
+            className="bg-tertiary hover:bg-tertiary-hover text-primary font-bold py-2 px-4 rounded transition duration-200 border border-primary"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting || isEmpty}
+            className="bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white font-bold py-2 px-4 rounded transition duration-200"
+          >
+            {isExporting ? 'Exporting…' : 'Export'}
+          </button>
+        </footer>
+      </div>
+    </div>,
+    document.body,
+  );
+};
+
+export default CanvasExportModal;
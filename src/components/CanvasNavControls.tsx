@@ -1,10 +1,10 @@
 /**
  * @file CanvasNavControls.tsx
- * @description Fit-to-screen and go-to-start navigation buttons for canvas views (~50 lines).
+ * @description Fit-to-screen and go-to-start navigation buttons for canvas views (~65 lines).
  * Key features: "Fit all to screen" button (F shortcut hint), conditional "Go to start label"
- * button; shared across `StoryCanvas`, `RouteCanvas`, and `ChoiceCanvas`.
+ * and "Export canvas" buttons; shared across `StoryCanvas`, `RouteCanvas`, and `ChoiceCanvas`.
  * Integration: rendered inside the bottom-right control cluster of each canvas component;
- * calls `onFit` and `onGoToStart` callbacks provided by the parent canvas.
+ * calls `onFit`, `onGoToStart` and `onExport` callbacks provided by the parent canvas.
  */
 import React from 'react';
 
@@ -13,6 +13,7 @@ interface CanvasNavControlsProps {
   fitTitle?: string;
   onGoToStart?: () => void;
   hasStart?: boolean;
+  onExport?: () => void;
 }
 
 /**
@@ -24,8 +25,21 @@ const CanvasNavControls: React.FC<CanvasNavControlsProps> = ({
   fitTitle = 'Fit all to screen (F)',
   onGoToStart,
   hasStart = false,
+  onExport,
 }) => (
   <div className="flex items-center gap-1.5">
+    {onExport && (
+      <button
+        onClick={onExport}
+        title="Export canvas (SVG, PNG, PDF)"
+        aria-label="Export canvas"
+        className="h-9 w-9 rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors flex items-center justify-center shadow"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+          <path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm3.293-7.707a1 1 0 011.414 0L9 10.586V3a1 1 0 112 0v7.586l1.293-1.293a1 1 0 111.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" />
+        </svg>
+      </button>
+    )}
     {hasStart && onGoToStart && (
       <button
         onClick={onGoToStart}
@@ -1,7 +1,8 @@
 /**
  * @file CanvasNodeContextMenu.tsx
  * @description Right-click context menu for label nodes on narrative canvases.
- * Key features: open the node in the editor or warp to the label directly.
+ * Key features: open the node in the editor or warp to the label directly; canvases can add
+ * their own actions (e.g. layout commands) below a separator.
  */
 import React, { useEffect, useRef } from 'react';
 import { createPortal } from 'react-dom';
@@ -15,6 +16,8 @@ interface CanvasNodeContextMenuProps {
   onOpenEditor: () => void;
   onWarpToHere: () => void;
   onSetAsRoot?: () => void;
+  /** Canvas-specific actions listed after the standard ones */
+  extraActions?: { label: string; onSelect: () => void }[];
 }
 
 const CanvasNodeContextMenu: React.FC<CanvasNodeContextMenuProps> = ({
@@ -25,6 +28,7 @@ const CanvasNodeContextMenu: React.FC<CanvasNodeContextMenuProps> = ({
   onOpenEditor,
   onWarpToHere,
   onSetAsRoot,
+  extraActions,
 }) => {
   const menuRef = useRef<HTMLDivElement>(null);
   const onCloseRef = useRef(onClose);
@@ -83,6 +87,20 @@ const CanvasNodeContextMenu: React.FC<CanvasNodeContextMenuProps> = ({
         >
           Warp to here
         </button>
+        {extraActions && extraActions.length > 0 && (
+          <>
+            <div className="h-px my-1 bg-gray-200 dark:bg-gray-700" />
+            {extraActions.map(action => (
+              <button
+                key={action.label}
+                onClick={() => handleAction(action.onSelect)}
+                className="w-full text-left px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 hover:text-indigo-600 dark:hover:text-indigo-400 rounded transition-colors flex items-center"
+              >
+                {action.label}
+              </button>
+            ))}
+          </>
+        )}
       </div>
     </div>,
     document.body,
@@ -0,0 +1,180 @@
+/**
+ * @file CharacterTimelineView.tsx
+ * @description Character presence timeline: one swimlane per character along a route (~180 lines).
+ * Key features: route picker grouped by ending, offering the representative paths to each
+ * ending; only the picked path's labels, left to right in play order; presence bars shaded
+ * by the number of dialogue lines, outlined where the character is only shown on screen; the
+ * longest absence of each character highlighted; characters who never speak on the route
+ * flagged; click a label to open it.
+ * Integration: opened as a static tab from `Toolbar`; routes come from the route analysis and
+ * the lanes from `lib/characterTimeline`.
+ */
+import React, { useMemo, useState } from 'react';
+import type { Block, Character, DialogueLine, IdentifiedRoute, LabelNode, RoutePathAnalysis } from '@/types';
+import { buildCharacterTimeline, computeCharacterPresence } from '@/lib/characterTimeline';
+
+interface CharacterTimelineViewProps {
+  identifiedRoutes: IdentifiedRoute[];
+  labelNodes: LabelNode[];
+  /** Exact number of paths to each ending, of which the routes are a few representatives */
+  pathAnalysis: RoutePathAnalysis;
+  blocks: Block[];
+  dialogueLines: Map<string, DialogueLine[]>;
+  characters: Map<string, Character>;
+  /** Project-wide dialogue line count per character tag */
+  characterUsage: Map<string, number>;
+  onOpenLocation: (blockId: string, line: number) => void;
+}
+
+const CELL_WIDTH = 'w-10 min-w-[2.5rem]';
+
+const CharacterTimelineView: React.FC<CharacterTimelineViewProps> = ({
+  identifiedRoutes,
+  labelNodes,
+  pathAnalysis,
+  blocks,
+  dialogueLines,
+  characters,
+  characterUsage,
+  onOpenLocation,
+}) => {
+  const [routeId, setRouteId] = useState<number | null>(null);
+  const nodes = useMemo(() => new Map(labelNodes.map(node => [node.id, node])), [labelNodes]);
+  const route = identifiedRoutes.find(r => r.id === routeId) ?? identifiedRoutes[0];
+
+  const routesByEnding = useMemo(() => {
+    const groups = new Map<string, IdentifiedRoute[]>();
+    identifiedRoutes.forEach(r => groups.set(r.endingNodeId, [...(groups.get(r.endingNodeId) ?? []), r]));
+    return groups;
+  }, [identifiedRoutes]);
+  const pathCounts = useMemo(
+    () => new Map(pathAnalysis.endings.map(ending => [ending.nodeId, ending.pathCount])),
+    [pathAnalysis],
+  );
+  const presence = useMemo(
+    () => computeCharacterPresence(labelNodes, blocks, dialogueLines, characters),
+    [labelNodes, blocks, dialogueLines, characters],
+  );
+  const timeline = useMemo(() => {
+    if (!route) return null;
+    const speakers = Array.from(characterUsage.entries()).filter(([, count]) => count > 0).map(([tag]) => tag);
+    return buildCharacterTimeline(route.nodeIds, presence, speakers);
+  }, [route, presence, characterUsage]);
+
+  const labelName = (id: string) => nodes.get(id)?.label ?? id;
+
+  if (!route || !timeline) {
+    return (
+      <div className="h-full flex items-center justify-center p-6 text-sm text-secondary">
+        No routes identified yet. Routes appear once labels lead to an ending.
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full overflow-y-auto p-6 text-primary space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h1 className="text-2xl font-bold">Character Timeline</h1>
+          <p className="text-xs text-secondary">
+            {timeline.nodeIds.length} labels on this path to {labelName(route.endingNodeId)}, one of {(pathCounts.get(route.endingNodeId) ?? 1n).toLocaleString()} · bars are shaded by lines spoken; outlined bars mean the character is shown but silent
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-sm">
+          <span className="w-3 h-3 shrink-0 rounded-sm" style={{ backgroundColor: route.color }} />
+          <select
+            value={route.id}
+            onChange={e => setRouteId(Number(e.target.value))}
+            aria-label="Route"
+            className="px-2 py-1 text-sm rounded bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            {Array.from(routesByEnding, ([endingId, routes]) => {
+              const pathCount = pathCounts.get(endingId) ?? BigInt(routes.length);
+              return (
+                <optgroup key={endingId} label={`Ending ${labelName(endingId)} (${pathCount.toLocaleString()} ${pathCount === 1n ? 'path' : 'paths'})`}>
+                  {routes.map(r => (
+                    <option key={r.id} value={r.id}>
+                      Route {r.id + 1}: {r.nodeIds.map(labelName).join(' → ')}
+                    </option>
+                  ))}
+                </optgroup>
+              );
+            })}
+          </select>
+        </label>
+      </div>
+
+      <div className="overflow-x-auto rounded-lg border border-primary">
+        <table className="text-sm border-collapse">
+          <thead>
+            <tr className="bg-tertiary border-b border-primary text-secondary text-xs">
+              <th className="px-3 py-2 text-left font-semibold sticky left-0 bg-tertiary align-bottom">Character</th>
+              {timeline.nodeIds.map(id => {
+                const node = nodes.get(id);
+                return (
+                  <th key={id} className={`${CELL_WIDTH} px-0 py-2 font-normal align-bottom`}>
+                    <button
+                      onClick={() => node && onOpenLocation(node.blockId, node.startLine)}
+                      title={labelName(id)}
+                      className="font-mono hover:underline max-h-32 truncate [writing-mode:vertical-rl] rotate-180"
+                    >
+                      {labelName(id)}
+                    </button>
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody>
+            {timeline.lanes.map(lane => {
+              const character = characters.get(lane.tag);
+              const color = character?.color ?? '#9ca3af';
+              const name = character?.name ?? lane.tag;
+              const gap = lane.longestGap;
+              return (
+                <tr key={lane.tag} className="border-b border-primary last:border-0">
+                  <td className="px-3 py-2 sticky left-0 bg-primary whitespace-nowrap">
+                    <span className="flex items-center gap-2">
+                      <span className="w-2.5 h-2.5 shrink-0 rounded-full" style={{ backgroundColor: color }} />
+                      <span className="font-medium">{name}</span>
+                      <span className="text-xs text-secondary tabular-nums">{lane.totalLines}</span>
+                    </span>
+                    {lane.totalLines === 0 && <span className="block text-xs text-amber-600 dark:text-amber-400">never speaks on this route</span>}
+                    {gap && (
+                      <span className="block text-xs text-secondary">
+                        absent {gap.endIndex - gap.startIndex + 1} labels ({labelName(timeline.nodeIds[gap.startIndex])}–{labelName(timeline.nodeIds[gap.endIndex])})
+                      </span>
+                    )}
+                  </td>
+                  {lane.cells.map((cell, i) => {
+                    const inGap = !!gap && i >= gap.startIndex && i <= gap.endIndex;
+                    const title = `${name} · ${labelName(timeline.nodeIds[i])}: ${cell
+                      ? `${cell.lines} ${cell.lines === 1 ? 'line' : 'lines'}${cell.shown ? ', on screen' : ''}`
+                      : 'absent'}`;
+                    return (
+                      <td key={timeline.nodeIds[i]} title={title} className={`${CELL_WIDTH} p-0 h-8 ${inGap ? 'bg-red-500/10' : ''}`}>
+                        {cell && (
+                          <div
+                            className="mx-px h-5 rounded-sm"
+                            style={cell.lines > 0
+                              ? { backgroundColor: color, opacity: 0.25 + 0.75 * (cell.lines / Math.max(timeline.maxLines, 1)) }
+                              : { border: `2px dashed ${color}` }}
+                          />
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      {timeline.lanes.length === 0 && (
+        <p className="text-xs text-secondary text-center p-2">No characters speak or appear on this route.</p>
+      )}
+    </div>
+  );
+};
+
+export default CharacterTimelineView;
@@ -3,10 +3,19 @@ import StickyNoteComponent from './StickyNote';
 import CanvasContextMenu from './CanvasContextMenu';
 import CanvasToolbox from './CanvasToolbox';
 import CanvasNavControls from './CanvasNavControls';
+import CanvasExportModal from './CanvasExportModal';
 import Minimap from './Minimap';
 import CanvasNodeContextMenu from './CanvasNodeContextMenu';
 import type { MinimapItem } from './Minimap';
-import type { LabelNode, RouteLink, MouseGestureSettings, RenpyAnalysisResult, StickyNote } from '@/types';
+import type { LabelNode, RouteLink, MouseGestureSettings, RenpyAnalysisResult, SavedChoiceNodeLayout, StickyNote } from '@/types';
+import type { CanvasExportScene, ExportEdge, ExportGroup, ExportNode } from '@/lib/canvasExport';
+import {
+  arrangeChoiceColumn,
+  getChoiceMenuKey,
+  getChoiceParentKey,
+  getChoiceSlotKeys,
+  groupOutgoingLinks,
+} from '@/lib/choiceCanvasLayout';
 
 // ── World-space layout constants ──────────────────────────────────────────────
 
@@ -22,6 +31,7 @@ const TARGET_W = 210, TARGET_H = 68;
 const SLOT_H  = 80;   // vertical slot per right-column item
 const COL_GAP = 12;   // gap between items in each column
 const BASE_Y  = 420;  // world-Y vertical anchor
+const TARGET_DX = TARGET_CX - TARGET_W / 2 - PILL_X; // target card left, relative to its slot
 
 // ── Panel overlay constants ────────────────────────────────────────────────────
 const PANEL_LEFT_X = 40;
@@ -163,14 +173,6 @@ function buildSnippetMap(
   return map;
 }
 
-/** Stacks `count` items of height `slotH` with `gap` between, centered on `anchorY`. */
-function stackYs(count: number, slotH: number, gap: number, anchorY: number): number[] {
-  if (count === 0) return [];
-  const total = count * slotH + (count - 1) * gap;
-  const top   = anchorY - total / 2;
-  return Array.from({ length: count }, (_, i) => top + i * (slotH + gap));
-}
-
 // ── Types ─────────────────────────────────────────────────────────────────────
 
 export interface ChoiceCanvasProps {
@@ -189,11 +191,22 @@ export interface ChoiceCanvasProps {
   onWarpToLabel: (labelName: string) => void;
   centerOnStartRequest?: { key: number } | null;
   centerOnNodeRequest?: { nodeId: string; key: number } | null;
+  /** Opens the export dialog whenever `key` changes (File → Export Canvas) */
+  exportRequest?: { key: number } | null;
+  addToast?: (message: string, type?: 'success' | 'error' | 'warning' | 'info') => void;
+  /** Manual layout per label name: pinned positions, hidden branches, collapsed menus */
+  savedLayouts?: Record<string, SavedChoiceNodeLayout>;
+  /** Replaces the saved layout of one label; null resets it to the automatic layout */
+  onLayoutChange?: (label: string, layout: SavedChoiceNodeLayout | null) => void;
 }
 
 interface RightSlot {
   key: string;
-  type: 'choice' | 'direct';
+  /** Key in the saved layout (see `lib/choiceCanvasLayout`) */
+  layoutKey: string;
+  /** Menu this slot belongs to, for choices and collapsed menus */
+  menuKey?: string;
+  type: 'choice' | 'direct' | 'collapsed';
   targetId: string;
   targetLabel: string;
   targetSnippet?: string;
@@ -201,15 +214,21 @@ interface RightSlot {
   condition?: string;
   isCall: boolean;
   colorIdx: number;
+  /** Number of choices folded into a collapsed menu */
+  count?: number;
+  /** Left edge of the slot (the pill, or where it would be) */
+  x: number;
   slotY: number;
+  pinned: boolean;
 }
 
 interface NeighborhoodLayout {
   centerNode: LabelNode | null;
   centerY: number;
   centerSnippet?: string;
-  parents: { nodeId: string; label: string; snippet?: string; y: number }[];
+  parents: { nodeId: string; layoutKey: string; label: string; snippet?: string; x: number; y: number; pinned: boolean }[];
   rightSlots: RightSlot[];
+  hiddenCount: number;
 }
 
 // ── Component ─────────────────────────────────────────────────────────────────
@@ -230,22 +249,34 @@ const ChoiceCanvas: React.FC<ChoiceCanvasProps> = ({
   onWarpToLabel,
   centerOnStartRequest,
   centerOnNodeRequest,
+  exportRequest,
+  addToast,
+  savedLayouts,
+  onLayoutChange,
 }) => {
   const [currentNodeId, setCurrentNodeId]       = useState<string | null>(null);
   const [breadcrumbTrail, setBreadcrumbTrail]   = useState<{ id: string; label: string }[]>([]);
   const [showSnippets, setShowSnippets]         = useState(true);
   const [showPanels, setShowPanels]             = useState(true);
   const [canvasContextMenu, setCanvasContextMenu] = useState<{ x: number; y: number; worldPos: { x: number; y: number } } | null>(null);
-  const [nodeContextMenu, setNodeContextMenu]   = useState<{ x: number; y: number; labelId: string; label: string } | null>(null);
+  const [nodeContextMenu, setNodeContextMenu]   = useState<{
+    x: number; y: number; labelId: string; label: string;
+    layoutKey?: string; menuKey?: string; pinned?: boolean; hideable?: boolean;
+  } | null>(null);
   const [labelSearchQuery, setLabelSearchQuery] = useState('');
   const [showLabelSearchResults, setShowLabelSearchResults] = useState(false);
   const [selectedNoteIds, setSelectedNoteIds]   = useState<string[]>([]);
   const [canvasDimensions, setCanvasDimensions] = useState({ width: 0, height: 0 });
   const [isTransitioning, setIsTransitioning]   = useState(false);
+  const [isExportOpen, setIsExportOpen]         = useState(false);
+  const [dragPreview, setDragPreview]           = useState<{ layoutKey: string; position: { x: number; y: number } } | null>(null);
 
   const svgRef        = useRef<SVGSVGElement>(null);
   const canvasAreaRef = useRef<HTMLDivElement>(null);
-  const istate        = useRef<{ type: 'idle' | 'panning' }>({ type: 'idle' });
+  const istate        = useRef<
+    | { type: 'idle' | 'panning' }
+    | { type: 'dragging'; layoutKey: string; navId: string | null; expandKey: string | null; origin: { x: number; y: number } }
+  >({ type: 'idle' });
   const startClient   = useRef({ x: 0, y: 0 });
   const didMove       = useRef(false);
   const hasCentered   = useRef(false);
@@ -332,76 +363,127 @@ const ChoiceCanvas: React.FC<ChoiceCanvasProps> = ({
   }, []);
 
   // ── 3-column neighborhood layout ──
+  const centerLabel = effectiveNodeId ? labelNodeMap.get(effectiveNodeId)?.label : undefined;
+  const savedLayout = centerLabel ? savedLayouts?.[centerLabel] : undefined;
+
   const layout = useMemo((): NeighborhoodLayout => {
     const centerNode = effectiveNodeId ? (labelNodeMap.get(effectiveNodeId) ?? null) : null;
-    if (!centerNode) return { centerNode: null, centerY: BASE_Y - CENTER_H / 2, parents: [], rightSlots: [] };
+    if (!centerNode) return { centerNode: null, centerY: BASE_Y - CENTER_H / 2, parents: [], rightSlots: [], hiddenCount: 0 };
 
     const id = centerNode.id;
     const centerSnippet = snippetMap.get(`${centerNode.blockId}:${centerNode.label}`);
+    const labelOf = (nodeId: string) => labelNodeMap.get(nodeId)?.label ?? nodeId;
+    const items = dragPreview
+      ? { ...savedLayout?.items, [dragPreview.layoutKey]: { ...savedLayout?.items?.[dragPreview.layoutKey], position: dragPreview.position } }
+      : savedLayout?.items;
+    const collapsedMenus = new Set(savedLayout?.collapsedMenus ?? []);
+    let hiddenCount = 0;
 
     // Parents: unique sources with a link to current node
     const parentIds = [...new Set(
       routeLinks.filter(l => l.targetId === id).map(l => l.sourceId),
     )].filter(pid => labelNodeMap.has(pid));
+    const parentKeys = parentIds.map(pid => getChoiceParentKey(labelOf(pid)));
 
-    // Outgoing: group by menuLine
-    const outgoing = routeLinks.filter(l => l.sourceId === id);
-    const menuMap  = new Map<number, RouteLink[]>();
-    const directs: RouteLink[] = [];
-    for (const link of outgoing) {
-      if (link.menuLine !== undefined) {
-        const arr = menuMap.get(link.menuLine) ?? [];
-        arr.push(link);
-        menuMap.set(link.menuLine, arr);
-      } else {
-        directs.push(link);
-      }
-    }
-
-    // Build right slots: menu choices first (sorted by menuLine), then direct jumps
-    const slots: Omit<RightSlot, 'slotY'>[] = [];
-    let colorCounter = 0;
-    const sortedMenuLines = [...menuMap.keys()].sort((a, b) => a - b);
-    for (const ml of sortedMenuLines) {
-      for (const link of menuMap.get(ml)!) {
-        const tgt = labelNodeMap.get(link.targetId);
-        slots.push({
-          key: link.id,
-          type: 'choice',
-          targetId: link.targetId,
-          targetLabel: tgt?.label ?? link.targetId,
-          targetSnippet: tgt ? snippetMap.get(`${tgt.blockId}:${tgt.label}`) : undefined,
-          choiceText: link.choiceText,
-          condition: link.choiceCondition,
-          isCall: link.type === 'call',
-          colorIdx: colorCounter++ % PILL_COLORS.length,
-        });
-      }
-    }
-    for (const link of directs) {
+    // Outgoing: menu choices first (sorted by menuLine), then direct jumps
+    const { menus, directs } = groupOutgoingLinks(routeLinks.filter(l => l.sourceId === id));
+    const slotKeys = getChoiceSlotKeys([...menus.flat(), ...directs], labelOf);
+    const slots: Omit<RightSlot, 'x' | 'slotY' | 'pinned'>[] = [];
+    const toSlot = (link: RouteLink, layoutKey: string, type: 'choice' | 'direct', colorIdx: number, menuKey?: string) => {
       const tgt = labelNodeMap.get(link.targetId);
-      slots.push({
+      return {
         key: link.id,
-        type: 'direct',
+        layoutKey,
+        menuKey,
+        type,
         targetId: link.targetId,
         targetLabel: tgt?.label ?? link.targetId,
         targetSnippet: tgt ? snippetMap.get(`${tgt.blockId}:${tgt.label}`) : undefined,
+        choiceText: link.choiceText,
+        condition: link.choiceCondition,
         isCall: link.type === 'call',
-        colorIdx: 0,
+        colorIdx,
+      };
+    };
+    let colorCounter = 0;
+    let keyIdx = 0;
+    menus.forEach((menuLinks, menuIdx) => {
+      const menuKey = getChoiceMenuKey(menuIdx);
+      const visible = menuLinks
+        .map(link => ({ link, layoutKey: slotKeys[keyIdx++], colorIdx: colorCounter++ % PILL_COLORS.length }))
+        .filter(({ layoutKey }) => !items?.[layoutKey]?.hidden);
+      hiddenCount += menuLinks.length - visible.length;
+      if (visible.length === 0) return;
+      if (collapsedMenus.has(menuKey)) {
+        slots.push({
+          ...toSlot(visible[0].link, menuKey, 'choice', visible[0].colorIdx, menuKey),
+          key: `${menuKey}-collapsed`,
+          type: 'collapsed',
+          count: visible.length,
+        });
+        return;
+      }
+      visible.forEach(({ link, layoutKey, colorIdx }) => {
+        slots.push(toSlot(link, layoutKey, 'choice', colorIdx, menuKey));
       });
+    });
+    for (const link of directs) {
+      const layoutKey = slotKeys[keyIdx++];
+      if (items?.[layoutKey]?.hidden) {
+        hiddenCount++;
+        continue;
+      }
+      slots.push(toSlot(link, layoutKey, 'direct', 0));
     }
 
-    const rightYs   = stackYs(slots.length, SLOT_H, COL_GAP, BASE_Y);
-    const rightSlots = slots.map((s, i) => ({ ...s, slotY: rightYs[i] }));
+    const rightPlaces = arrangeChoiceColumn(slots.map(s => s.layoutKey), items, PILL_X, SLOT_H, COL_GAP, BASE_Y);
+    const rightSlots = slots.map((s, i) => ({ ...s, x: rightPlaces[i].x, slotY: rightPlaces[i].y, pinned: rightPlaces[i].pinned }));
 
-    const parentYs = stackYs(parentIds.length, LEFT_H, COL_GAP, BASE_Y);
+    const parentPlaces = arrangeChoiceColumn(parentKeys, items, LEFT_CX - LEFT_W / 2, LEFT_H, COL_GAP, BASE_Y);
     const parents  = parentIds.map((pid, i) => {
       const pn = labelNodeMap.get(pid)!;
-      return { nodeId: pid, label: pn.label, snippet: snippetMap.get(`${pn.blockId}:${pn.label}`), y: parentYs[i] };
+      return {
+        nodeId: pid, layoutKey: parentKeys[i], label: pn.label, snippet: snippetMap.get(`${pn.blockId}:${pn.label}`),
+        x: parentPlaces[i].x, y: parentPlaces[i].y, pinned: parentPlaces[i].pinned,
+      };
     });
 
-    return { centerNode, centerY: BASE_Y - CENTER_H / 2, centerSnippet, parents, rightSlots };
-  }, [effectiveNodeId, labelNodeMap, routeLinks, snippetMap]);
+    return { centerNode, centerY: BASE_Y - CENTER_H / 2, centerSnippet, parents, rightSlots, hiddenCount };
+  }, [effectiveNodeId, labelNodeMap, routeLinks, snippetMap, savedLayout, dragPreview]);
+
+  // ── Manual layout edits ──
+  const updateSavedLayout = useCallback((update: (current: SavedChoiceNodeLayout) => SavedChoiceNodeLayout) => {
+    if (!centerLabel || !onLayoutChange) return;
+    const next = update(savedLayout ?? {});
+    const items = Object.fromEntries(Object.entries(next.items ?? {}).filter(([, item]) => item.position || item.hidden));
+    const collapsedMenus = next.collapsedMenus ?? [];
+    const isEmptyLayout = Object.keys(items).length === 0 && collapsedMenus.length === 0;
+    onLayoutChange(centerLabel, isEmptyLayout ? null : {
+      ...(Object.keys(items).length > 0 ? { items } : {}),
+      ...(collapsedMenus.length > 0 ? { collapsedMenus } : {}),
+    });
+  }, [centerLabel, savedLayout, onLayoutChange]);
+
+  const updateLayoutItem = useCallback((layoutKey: string, patch: { position?: { x: number; y: number } | undefined; hidden?: boolean }) => {
+    updateSavedLayout(current => ({
+      ...current,
+      items: { ...current.items, [layoutKey]: { ...current.items?.[layoutKey], ...patch } },
+    }));
+  }, [updateSavedLayout]);
+
+  const setMenuCollapsed = useCallback((menuKey: string, collapsed: boolean) => {
+    updateSavedLayout(current => {
+      const rest = (current.collapsedMenus ?? []).filter(key => key !== menuKey);
+      return { ...current, collapsedMenus: collapsed ? [...rest, menuKey] : rest };
+    });
+  }, [updateSavedLayout]);
+
+  const showHiddenBranches = useCallback(() => {
+    updateSavedLayout(current => ({
+      ...current,
+      items: Object.fromEntries(Object.entries(current.items ?? {}).map(([key, item]) => [key, { ...item, hidden: undefined }])),
+    }));
+  }, [updateSavedLayout]);
 
   // ── Auto-center on node change with smooth animation ──
   const centerOnCurrent = useCallback((smooth = true) => {
@@ -497,8 +579,13 @@ const ChoiceCanvas: React.FC<ChoiceCanvasProps> = ({
       ...rightSlots.flatMap(s => [s.slotY, s.slotY + SLOT_H]),
     ];
     if (allYs.length === 0) { centerOnCurrent(true); return; }
-    const minX = LEFT_CX - LEFT_W / 2 - 24;
-    const maxX = TARGET_CX + TARGET_W / 2 + 24;
+    const allXs = [
+      CENTER_CX - CENTER_W / 2, CENTER_CX + CENTER_W / 2,
+      ...parents.flatMap(p => [p.x, p.x + LEFT_W]),
+      ...rightSlots.flatMap(s => [s.x, s.x + TARGET_DX + TARGET_W]),
+    ];
+    const minX = Math.min(LEFT_CX - LEFT_W / 2, ...allXs) - 24;
+    const maxX = Math.max(TARGET_CX + TARGET_W / 2, ...allXs) + 24;
     const minY = Math.min(...allYs) - 24;
     const maxY = Math.max(...allYs) + 24;
     const cw   = maxX - minX;
@@ -584,10 +671,23 @@ const ChoiceCanvas: React.FC<ChoiceCanvasProps> = ({
     const isMid = (g.canvasPanGesture === 'middle-drag' || g.middleMouseAlwaysPans) && e.button === 1;
     if (e.button !== 0 && !isMid) return;
     if ((e.target as Element).closest('.cc-controls')) return;
-    // Don't capture if clicking a navigable element — let pointerUp handle it
-    if ((e.target as Element).closest('[data-nav]')) return;
     didMove.current = false;
     startClient.current = { x: e.clientX, y: e.clientY };
+    // Movable cards and pills: drag to pin, click to navigate (handled in pointerUp)
+    const movableEl = (e.target as Element).closest('[data-layoutkey]');
+    if (movableEl && e.button === 0 && !e.shiftKey && onLayoutChange) {
+      istate.current = {
+        type: 'dragging',
+        layoutKey: movableEl.getAttribute('data-layoutkey')!,
+        navId: movableEl.getAttribute('data-nav'),
+        expandKey: movableEl.getAttribute('data-expand'),
+        origin: { x: Number(movableEl.getAttribute('data-x')), y: Number(movableEl.getAttribute('data-y')) },
+      };
+      e.currentTarget.setPointerCapture(e.pointerId);
+      return;
+    }
+    // Don't capture if clicking a navigable element — let pointerUp handle it
+    if ((e.target as Element).closest('[data-nav], [data-expand]')) return;
     const isPan =
       (g.canvasPanGesture === 'shift-drag' && e.shiftKey && e.button === 0) ||
       (g.canvasPanGesture === 'drag'        && !e.shiftKey && e.button === 0) ||
@@ -595,25 +695,52 @@ const ChoiceCanvas: React.FC<ChoiceCanvasProps> = ({
     if (!isPan) return;
     istate.current = { type: 'panning' };
     e.currentTarget.setPointerCapture(e.pointerId);
-  }, [mouseGestures]);
+  }, [mouseGestures, onLayoutChange]);
 
   const handlePointerMove = useCallback((e: React.PointerEvent<SVGSVGElement>) => {
     if (istate.current.type === 'idle') return;
     if (Math.hypot(e.clientX - startClient.current.x, e.clientY - startClient.current.y) > 4) {
       didMove.current = true;
     }
-    if (istate.current.type === 'panning') {
+    const state = istate.current;
+    if (state.type === 'panning') {
       onTransformChange(t => ({ ...t, x: t.x + e.movementX, y: t.y + e.movementY }));
+    } else if (state.type === 'dragging' && didMove.current) {
+      setDragPreview({
+        layoutKey: state.layoutKey,
+        position: {
+          x: state.origin.x + (e.clientX - startClient.current.x) / transform.scale,
+          y: state.origin.y + (e.clientY - startClient.current.y) / transform.scale,
+        },
+      });
     }
-  }, [onTransformChange]);
+  }, [onTransformChange, transform.scale]);
 
   const handlePointerUp = useCallback((e: React.PointerEvent<SVGSVGElement>) => {
-    const wasPanning = istate.current.type === 'panning';
+    const state = istate.current;
+    const wasPanning = state.type === 'panning';
     istate.current = { type: 'idle' };
     if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId);
 
+    if (state.type === 'dragging') {
+      if (didMove.current && dragPreview) {
+        updateLayoutItem(state.layoutKey, { position: dragPreview.position });
+      } else if (!didMove.current && state.expandKey) {
+        setMenuCollapsed(state.expandKey, false);
+      } else if (!didMove.current && state.navId) {
+        navigateTo(state.navId);
+      }
+      setDragPreview(null);
+      return;
+    }
+
     // Only handle navigation on left-click (button 0), not right-click
     if (!wasPanning && !didMove.current && e.button === 0) {
+      const expandEl = (e.target as Element).closest('[data-expand]');
+      if (expandEl) {
+        setMenuCollapsed(expandEl.getAttribute('data-expand')!, false);
+        return;
+      }
       const navEl = (e.target as Element).closest('[data-nav]');
       if (navEl) {
         navigateTo(navEl.getAttribute('data-nav')!);
@@ -622,7 +749,7 @@ const ChoiceCanvas: React.FC<ChoiceCanvasProps> = ({
     }
 
     if (!didMove.current) setCanvasContextMenu(null);
-  }, [navigateTo]);
+  }, [navigateTo, dragPreview, updateLayoutItem, setMenuCollapsed]);
 
   const handleContextMenu = useCallback((e: React.MouseEvent<SVGSVGElement>) => {
     e.preventDefault();
@@ -631,7 +758,13 @@ const ChoiceCanvas: React.FC<ChoiceCanvasProps> = ({
     if (nodeEl) {
       const labelId = nodeEl.getAttribute('data-nodeid') ?? '';
       const label   = nodeEl.getAttribute('data-label') ?? labelId;
-      setNodeContextMenu({ x: e.clientX, y: e.clientY, labelId, label });
+      const layoutKey = nodeEl.getAttribute('data-layoutkey') ?? undefined;
+      setNodeContextMenu({
+        x: e.clientX, y: e.clientY, labelId, label, layoutKey,
+        menuKey: nodeEl.getAttribute('data-menu') ?? undefined,
+        pinned: nodeEl.hasAttribute('data-pinned'),
+        hideable: !!layoutKey?.startsWith('to:'),
+      });
       return;
     }
     setNodeContextMenu(null);
@@ -646,6 +779,18 @@ const ChoiceCanvas: React.FC<ChoiceCanvasProps> = ({
     });
   }, [transform]);
 
+  const nodeLayoutActions = (menu: NonNullable<typeof nodeContextMenu>) => {
+    const actions: { label: string; onSelect: () => void }[] = [];
+    const { layoutKey, menuKey } = menu;
+    if (layoutKey && menu.pinned) actions.push({ label: 'Unpin', onSelect: () => updateLayoutItem(layoutKey, { position: undefined }) });
+    if (layoutKey && menu.hideable) actions.push({ label: 'Hide branch', onSelect: () => updateLayoutItem(layoutKey, { hidden: true }) });
+    if (menuKey) {
+      const collapsed = savedLayout?.collapsedMenus?.includes(menuKey) ?? false;
+      actions.push({ label: collapsed ? 'Expand menu' : 'Collapse menu', onSelect: () => setMenuCollapsed(menuKey, !collapsed) });
+    }
+    return actions;
+  };
+
   // ── Open editor ──
   const openNodeEditor = useCallback((labelId: string) => {
     const n = labelNodeMap.get(labelId);
@@ -686,8 +831,10 @@ const ChoiceCanvas: React.FC<ChoiceCanvasProps> = ({
     if (centerNode) {
       items.push({ id: centerNode.id, position: { x: CENTER_CX - CENTER_W / 2, y: centerY }, width: CENTER_W, height: CENTER_H, type: 'label' as const });
     }
-    parents.forEach(p => items.push({ id: p.nodeId, position: { x: LEFT_CX - LEFT_W / 2, y: p.y }, width: LEFT_W, height: LEFT_H, type: 'label' as const }));
-    rightSlots.forEach(s => items.push({ id: `${s.key}-tgt`, position: { x: TARGET_CX - TARGET_W / 2, y: s.slotY }, width: TARGET_W, height: TARGET_H, type: 'label' as const }));
+    parents.forEach(p => items.push({ id: p.nodeId, position: { x: p.x, y: p.y }, width: LEFT_W, height: LEFT_H, type: 'label' as const }));
+    rightSlots.forEach(s => items.push(s.type === 'collapsed'
+      ? { id: `${s.key}-pill`, position: { x: s.x, y: s.slotY }, width: PILL_W, height: PILL_H, type: 'label' as const }
+      : { id: `${s.key}-tgt`, position: { x: s.x + TARGET_DX, y: s.slotY }, width: TARGET_W, height: TARGET_H, type: 'label' as const }));
     return items;
   }, [layout]);
 
@@ -737,13 +884,23 @@ const ChoiceCanvas: React.FC<ChoiceCanvasProps> = ({
       </g>,
     );
 
+    // Marks a card or pill as pinned by a manual drag
+    const pinBadge = (x: number, y: number) => (
+      <circle cx={x} cy={y} r={4} className="fill-amber-400 stroke-white dark:stroke-gray-900 pointer-events-none" strokeWidth={1.5} />
+    );
+    const layoutAttrs = (layoutKey: string, x: number, y: number, pinned: boolean) => ({
+      'data-layoutkey': layoutKey, 'data-x': x, 'data-y': y,
+      ...(pinned ? { 'data-pinned': '' } : {}),
+    });
+
     // ── Parent nodes (left column) ───────────────────────────────────────────
     parents.forEach((p, idx) => {
-      const px  = LEFT_CX - LEFT_W / 2;
+      const px  = p.x;
+      const pcx = p.x + LEFT_W / 2;
       const pMY = p.y + LEFT_H / 2;
 
       // Bezier: parent right edge → center left edge
-      const sx = LEFT_CX + LEFT_W / 2;
+      const sx = px + LEFT_W;
       const tx = cnLeft;
       const cp = (tx - sx) * 0.55;
       armEls.push(
@@ -760,6 +917,7 @@ const ChoiceCanvas: React.FC<ChoiceCanvasProps> = ({
           key={`parent-${p.nodeId}`}
           data-nodeid={p.nodeId} data-label={p.label}
           data-nav={p.nodeId}
+          {...layoutAttrs(p.layoutKey, p.x, p.y, p.pinned)}
           role="button" aria-label={`Navigate to parent: ${p.label}`}
           style={{ cursor: 'pointer', ...fadeInStyle(50 + idx * 30) }}
         >
@@ -769,7 +927,7 @@ const ChoiceCanvas: React.FC<ChoiceCanvasProps> = ({
             strokeWidth={1.5}
           />
           <text
-            x={LEFT_CX} y={p.y + (showSnippets && p.snippet ? 22 : LEFT_H / 2 + 1)}
+            x={pcx} y={p.y + (showSnippets && p.snippet ? 22 : LEFT_H / 2 + 1)}
             textAnchor="middle" dominantBaseline="middle"
             fontSize={10} fontWeight={600} fontFamily="ui-monospace, monospace"
             className="fill-gray-800 dark:fill-gray-200 pointer-events-none"
@@ -778,7 +936,7 @@ const ChoiceCanvas: React.FC<ChoiceCanvasProps> = ({
           </text>
           {showSnippets && p.snippet && (
             <text
-              x={LEFT_CX} y={p.y + LEFT_H - 14}
+              x={pcx} y={p.y + LEFT_H - 14}
               textAnchor="middle" dominantBaseline="middle"
               fontSize={8} fontStyle="italic"
               className="fill-gray-400 dark:fill-gray-500 pointer-events-none"
@@ -786,7 +944,8 @@ const ChoiceCanvas: React.FC<ChoiceCanvasProps> = ({
               "{trunc(p.snippet, 20)}"
             </text>
           )}
-          <title>{`${p.label} — click to navigate`}</title>
+          {p.pinned && pinBadge(px + LEFT_W - 8, p.y + 8)}
+          <title>{`${p.label} — click to navigate, drag to pin`}</title>
         </g>,
       );
     });
@@ -794,21 +953,60 @@ const ChoiceCanvas: React.FC<ChoiceCanvasProps> = ({
     // ── Right column (choice pills + target nodes) ───────────────────────────
     rightSlots.forEach((slot, idx) => {
       const color  = PILL_COLORS[slot.colorIdx % PILL_COLORS.length];
-      const tgtX   = TARGET_CX - TARGET_W / 2;
+      const pillX  = slot.x;
+      const tgtX   = slot.x + TARGET_DX;
+      const tgtCX  = tgtX + TARGET_W / 2;
       const rightDelay = 100 + idx * 40;
+      const slotAttrs = layoutAttrs(slot.layoutKey, slot.x, slot.slotY, slot.pinned);
 
-      if (slot.type === 'choice') {
+      if (slot.type === 'collapsed') {
+        // Collapsed menu: one summary pill, click to expand
+        const pillY  = slot.slotY + (SLOT_H - PILL_H) / 2;
+        const pillMY = pillY + PILL_H / 2;
+        const cp1 = (pillX - (CENTER_CX + CENTER_W / 2)) * 0.55;
+        armEls.push(
+          <path key={`arm-cpill-${slot.key}`}
+            d={`M ${CENTER_CX + CENTER_W / 2} ${cnMidY} C ${CENTER_CX + CENTER_W / 2 + cp1} ${cnMidY}, ${pillX - cp1} ${pillMY}, ${pillX} ${pillMY}`}
+            fill="none" stroke={color} strokeWidth={1.5} opacity={0.75} strokeDasharray="4,3"
+            markerEnd="url(#wdb-arr)"
+            style={fadeInStyle(rightDelay)}
+          />,
+        );
+        nodeEls.push(
+          <g key={`pill-${slot.key}`}
+            data-nodeid={centerNode.id} data-label={centerNode.label} data-menu={slot.menuKey} data-expand={slot.menuKey}
+            {...slotAttrs}
+            role="button" aria-label={`Expand menu with ${slot.count} choices`}
+            style={{ cursor: 'pointer', ...fadeInStyle(rightDelay) }}
+          >
+            <rect x={pillX} y={pillY} width={PILL_W} height={PILL_H} rx={PILL_H / 2}
+              className="fill-white dark:fill-gray-800" stroke={color} strokeWidth={1.5} strokeDasharray="4,3"
+            />
+            <text
+              x={pillX + PILL_W / 2} y={pillMY}
+              textAnchor="middle" dominantBaseline="middle"
+              fontSize={9} fontWeight={600} fill={color}
+              style={{ pointerEvents: 'none' }}
+            >
+              ▸ {slot.count} {slot.count === 1 ? 'choice' : 'choices'}
+            </text>
+            {slot.pinned && pinBadge(pillX + PILL_W - 6, pillY + 4)}
+            <title>Collapsed menu — click to expand</title>
+          </g>,
+        );
+
+      } else if (slot.type === 'choice') {
         const pillY   = slot.slotY + (SLOT_H - PILL_H) / 2;
         const pillMY  = pillY + PILL_H / 2;
-        const pillRX  = PILL_X + PILL_W;
+        const pillRX  = pillX + PILL_W;
         const tCardY  = slot.slotY + (SLOT_H - TARGET_H) / 2;
         const tCardMY = tCardY + TARGET_H / 2;
 
         // Center → pill
-        const cp1 = (PILL_X - (CENTER_CX + CENTER_W / 2)) * 0.55;
+        const cp1 = (pillX - (CENTER_CX + CENTER_W / 2)) * 0.55;
         armEls.push(
           <path key={`arm-cpill-${slot.key}`}
-            d={`M ${CENTER_CX + CENTER_W / 2} ${cnMidY} C ${CENTER_CX + CENTER_W / 2 + cp1} ${cnMidY}, ${PILL_X - cp1} ${pillMY}, ${PILL_X} ${pillMY}`}
+            d={`M ${CENTER_CX + CENTER_W / 2} ${cnMidY} C ${CENTER_CX + CENTER_W / 2 + cp1} ${cnMidY}, ${pillX - cp1} ${pillMY}, ${pillX} ${pillMY}`}
             fill="none" stroke={color} strokeWidth={1.5} opacity={0.75}
             markerEnd="url(#wdb-arr)"
             style={fadeInStyle(rightDelay)}
@@ -827,11 +1025,16 @@ const ChoiceCanvas: React.FC<ChoiceCanvasProps> = ({
 
         // Choice pill
         nodeEls.push(
-          <g key={`pill-${slot.key}`} data-nav={slot.targetId} role="button" aria-label={`Choice: ${slot.choiceText ?? slot.targetLabel}`} style={{ cursor: 'pointer', ...fadeInStyle(rightDelay) }}>
-            <rect x={PILL_X} y={pillY} width={PILL_W} height={PILL_H} rx={PILL_H / 2} fill={color} opacity={0.92} />
+          <g key={`pill-${slot.key}`}
+            data-nodeid={slot.targetId} data-label={slot.targetLabel} data-menu={slot.menuKey} data-nav={slot.targetId}
+            {...slotAttrs}
+            role="button" aria-label={`Choice: ${slot.choiceText ?? slot.targetLabel}`}
+            style={{ cursor: 'pointer', ...fadeInStyle(rightDelay) }}
+          >
+            <rect x={pillX} y={pillY} width={PILL_W} height={PILL_H} rx={PILL_H / 2} fill={color} opacity={0.92} />
             {/* Choice text */}
             <text
-              x={PILL_X + (slot.condition ? PILL_W * 0.44 : PILL_W / 2)} y={pillMY}
+              x={pillX + (slot.condition ? PILL_W * 0.44 : PILL_W / 2)} y={pillMY}
               textAnchor="middle" dominantBaseline="middle"
               fontSize={9} fontWeight={600} fill="#fff"
               style={{ pointerEvents: 'none' }}
@@ -841,26 +1044,32 @@ const ChoiceCanvas: React.FC<ChoiceCanvasProps> = ({
             {/* Condition warning badge */}
             {slot.condition && (
               <text
-                x={PILL_X + PILL_W - 11} y={pillMY}
+                x={pillX + PILL_W - 11} y={pillMY}
                 textAnchor="middle" dominantBaseline="middle"
                 fontSize={12} fill="#fcd34d"
                 style={{ pointerEvents: 'none' }}
               >⚠</text>
             )}
+            {slot.pinned && pinBadge(pillX + 6, pillY + 4)}
             <title>{slot.condition ? `if ${slot.condition}\n→ ${slot.targetLabel}` : (slot.choiceText ?? slot.targetLabel)}</title>
           </g>,
         );
 
         // Target mini-card
         nodeEls.push(
-          <g key={`tgt-${slot.key}`} data-nodeid={slot.targetId} data-label={slot.targetLabel} data-nav={slot.targetId} role="button" aria-label={`Navigate to: ${slot.targetLabel}`} style={{ cursor: 'pointer', ...fadeInStyle(rightDelay + 50) }}>
+          <g key={`tgt-${slot.key}`}
+            data-nodeid={slot.targetId} data-label={slot.targetLabel} data-menu={slot.menuKey} data-nav={slot.targetId}
+            {...slotAttrs}
+            role="button" aria-label={`Navigate to: ${slot.targetLabel}`}
+            style={{ cursor: 'pointer', ...fadeInStyle(rightDelay + 50) }}
+          >
             <rect x={tgtX + 2} y={tCardY + 2} width={TARGET_W} height={TARGET_H} rx={7} fill="rgba(0,0,0,0.05)" />
             <rect x={tgtX} y={tCardY} width={TARGET_W} height={TARGET_H} rx={7}
               className="fill-white dark:fill-gray-800"
               stroke={color} strokeWidth={1.5} opacity={0.85}
             />
             <text
-              x={TARGET_CX} y={tCardY + (showSnippets && slot.targetSnippet ? 22 : TARGET_H / 2 + 1)}
+              x={tgtCX} y={tCardY + (showSnippets && slot.targetSnippet ? 22 : TARGET_H / 2 + 1)}
               textAnchor="middle" dominantBaseline="middle"
               fontSize={10} fontWeight={600} fontFamily="ui-monospace, monospace"
               className="fill-gray-800 dark:fill-gray-200 pointer-events-none"
@@ -869,7 +1078,7 @@ const ChoiceCanvas: React.FC<ChoiceCanvasProps> = ({
             </text>
             {showSnippets && slot.targetSnippet && (
               <text
-                x={TARGET_CX} y={tCardY + TARGET_H - 16}
+                x={tgtCX} y={tCardY + TARGET_H - 16}
                 textAnchor="middle" dominantBaseline="middle"
                 fontSize={8} fontStyle="italic"
                 className="fill-gray-400 dark:fill-gray-500 pointer-events-none"
@@ -877,7 +1086,7 @@ const ChoiceCanvas: React.FC<ChoiceCanvasProps> = ({
                 "{trunc(slot.targetSnippet, 20)}"
               </text>
             )}
-            <title>{`${slot.targetLabel} — click to navigate`}</title>
+            <title>{`${slot.targetLabel} — click to navigate, drag to pin`}</title>
           </g>,
         );
 
@@ -896,14 +1105,19 @@ const ChoiceCanvas: React.FC<ChoiceCanvasProps> = ({
           />,
         );
         nodeEls.push(
-          <g key={`direct-${slot.key}`} data-nodeid={slot.targetId} data-label={slot.targetLabel} data-nav={slot.targetId} role="button" aria-label={`Navigate to: ${slot.targetLabel}`} style={{ cursor: 'pointer', ...fadeInStyle(rightDelay) }}>
+          <g key={`direct-${slot.key}`}
+            data-nodeid={slot.targetId} data-label={slot.targetLabel} data-nav={slot.targetId}
+            {...slotAttrs}
+            role="button" aria-label={`Navigate to: ${slot.targetLabel}`}
+            style={{ cursor: 'pointer', ...fadeInStyle(rightDelay) }}
+          >
             <rect x={tgtX + 2} y={tCardY + 2} width={TARGET_W} height={TARGET_H} rx={7} fill="rgba(0,0,0,0.05)" />
             <rect x={tgtX} y={tCardY} width={TARGET_W} height={TARGET_H} rx={7}
               className="fill-white dark:fill-gray-800 stroke-gray-300 dark:stroke-gray-600"
               strokeWidth={1.5}
             />
             <text
-              x={TARGET_CX} y={tCardY + (showSnippets && slot.targetSnippet ? 22 : TARGET_H / 2 + 1)}
+              x={tgtCX} y={tCardY + (showSnippets && slot.targetSnippet ? 22 : TARGET_H / 2 + 1)}
               textAnchor="middle" dominantBaseline="middle"
               fontSize={10} fontWeight={600} fontFamily="ui-monospace, monospace"
               className="fill-gray-800 dark:fill-gray-200 pointer-events-none"
@@ -912,7 +1126,7 @@ const ChoiceCanvas: React.FC<ChoiceCanvasProps> = ({
             </text>
             {showSnippets && slot.targetSnippet && (
               <text
-                x={TARGET_CX} y={tCardY + TARGET_H - 16}
+                x={tgtCX} y={tCardY + TARGET_H - 16}
                 textAnchor="middle" dominantBaseline="middle"
                 fontSize={8} fontStyle="italic"
                 className="fill-gray-400 dark:fill-gray-500 pointer-events-none"
@@ -921,9 +1135,10 @@ const ChoiceCanvas: React.FC<ChoiceCanvasProps> = ({
               </text>
             )}
             {slot.isCall && (
-              <text x={TARGET_CX} y={tCardY - 9} textAnchor="middle" fontSize={8} className="fill-gray-400 dark:fill-gray-500 pointer-events-none">call</text>
+              <text x={tgtCX} y={tCardY - 9} textAnchor="middle" fontSize={8} className="fill-gray-400 dark:fill-gray-500 pointer-events-none">call</text>
             )}
-            <title>{`${slot.targetLabel} — click to navigate`}</title>
+            {slot.pinned && pinBadge(tgtX + TARGET_W - 8, tCardY + 8)}
+            <title>{`${slot.targetLabel} — click to navigate, drag to pin`}</title>
           </g>,
         );
       }
@@ -934,6 +1149,85 @@ const ChoiceCanvas: React.FC<ChoiceCanvasProps> = ({
 
   const isEmpty = !layout.centerNode;
 
+  const lastExportKey = useRef<number | null>(null);
+  useEffect(() => {
+    if (!exportRequest || exportRequest.key === lastExportKey.current) return;
+    lastExportKey.current = exportRequest.key;
+    if (layout.centerNode) setIsExportOpen(true);
+  }, [exportRequest, layout.centerNode]);
+
+  // ── Export scene: the same geometry as armEls/nodeEls, in the light theme ──
+  const buildExportScene = useCallback((): CanvasExportScene => {
+    const { centerNode, centerY, centerSnippet, parents, rightSlots } = layout;
+    const edges: ExportEdge[] = [];
+    const nodes: ExportNode[] = [];
+    const groups: ExportGroup[] = showPanels ? [
+      { x: PANEL_LEFT_X, y: PANEL_Y, width: PANEL_LEFT_W, height: PANEL_H, title: 'Previous Nodes', fill: '#dbeafe', stroke: '#93c5fd', dashed: true },
+      { x: PANEL_CENTER_X, y: PANEL_Y, width: PANEL_CENTER_W, height: PANEL_H, title: 'Current', fill: '#e0e7ff', stroke: '#818cf8', dashed: true },
+      { x: PANEL_RIGHT_X, y: PANEL_Y, width: PANEL_RIGHT_W, height: PANEL_H, title: 'Choices & Targets', fill: '#f3e8ff', stroke: '#d8b4fe', dashed: true },
+    ] : [];
+    const notes = stickyNotes.map(note => ({ x: note.position.x, y: note.position.y, width: note.width, height: note.height, text: note.content, color: note.color }));
+    if (!centerNode) return { title: 'Choices Canvas', groups, edges, nodes, notes };
+
+    const cnLeft = CENTER_CX - CENTER_W / 2;
+    const cnRight = CENTER_CX + CENTER_W / 2;
+    const cnMidY = centerY + CENTER_H / 2;
+    const curve = (sx: number, sy: number, tx: number, ty: number) => {
+      const cp = (tx - sx) * 0.55;
+      return `M ${sx} ${sy} C ${sx + cp} ${sy}, ${tx - cp} ${ty}, ${tx} ${ty}`;
+    };
+    const card = (x: number, y: number, width: number, height: number, title: string, snippet: string | undefined, stroke: string): ExportNode => ({
+      x, y, width, height, title, stroke,
+      subtitle: showSnippets && snippet ? `"${snippet}"` : undefined,
+      fill: '#ffffff', textColor: '#1f2937', rx: 7, monospace: true,
+    });
+
+    nodes.push({
+      ...card(cnLeft, centerY, CENTER_W, CENTER_H, centerNode.label, centerSnippet, '#818cf8'),
+      fill: '#eef2ff', textColor: '#312e81', strokeWidth: 2.5, rx: 8,
+    });
+    parents.forEach(p => {
+      edges.push({ path: curve(p.x + LEFT_W, p.y + LEFT_H / 2, cnLeft, cnMidY), color: '#d1d5db', width: 1.5, arrow: true });
+      nodes.push(card(p.x, p.y, LEFT_W, LEFT_H, p.label, p.snippet, '#d1d5db'));
+    });
+    rightSlots.forEach(slot => {
+      const color = PILL_COLORS[slot.colorIdx % PILL_COLORS.length];
+      const tgtX = slot.x + TARGET_DX;
+      const tCardY = slot.slotY + (SLOT_H - TARGET_H) / 2;
+      const tCardMY = tCardY + TARGET_H / 2;
+      const pillY = slot.slotY + (SLOT_H - PILL_H) / 2;
+      const pillMY = pillY + PILL_H / 2;
+      if (slot.type === 'collapsed') {
+        edges.push({ path: curve(cnRight, cnMidY, slot.x, pillMY), color, width: 1.5, opacity: 0.75, arrow: true, dashed: true });
+        nodes.push({
+          x: slot.x, y: pillY, width: PILL_W, height: PILL_H, rx: PILL_H / 2,
+          title: `▸ ${slot.count} ${slot.count === 1 ? 'choice' : 'choices'}`,
+          fill: '#ffffff', stroke: color, textColor: color,
+        });
+      } else if (slot.type === 'choice') {
+        edges.push(
+          { path: curve(cnRight, cnMidY, slot.x, pillMY), color, width: 1.5, opacity: 0.75, arrow: true },
+          { path: curve(slot.x + PILL_W, pillMY, tgtX, tCardMY), color, width: 1, opacity: 0.4 },
+        );
+        nodes.push(
+          {
+            x: slot.x, y: pillY, width: PILL_W, height: PILL_H, rx: PILL_H / 2,
+            title: `${slot.choiceText ?? slot.targetLabel}${slot.condition ? ' ⚠' : ''}`,
+            fill: color, stroke: color, textColor: '#ffffff',
+          },
+          card(tgtX, tCardY, TARGET_W, TARGET_H, slot.targetLabel, slot.targetSnippet, color),
+        );
+      } else {
+        edges.push({ path: curve(cnRight, cnMidY, tgtX, tCardMY), color: '#9ca3af', width: 1.5, arrow: true });
+        nodes.push({
+          ...card(tgtX, tCardY, TARGET_W, TARGET_H, slot.targetLabel, slot.targetSnippet, '#d1d5db'),
+          badge: slot.isCall ? 'call' : undefined,
+        });
+      }
+    });
+    return { title: `Choices Canvas — ${centerNode.label}`, groups, edges, nodes, notes };
+  }, [layout, showPanels, showSnippets, stickyNotes]);
+
   // ── Render ─────────────────────────────────────────────────────────────────
   return (
     <div className="relative w-full h-full flex flex-col bg-gray-50 dark:bg-gray-900 overflow-hidden select-none">
@@ -952,6 +1246,26 @@ const ChoiceCanvas: React.FC<ChoiceCanvasProps> = ({
 
         <div className="flex-1" />
 
+        {/* Manual layout of the current label */}
+        {layout.hiddenCount > 0 && onLayoutChange && (
+          <button
+            onClick={showHiddenBranches}
+            className="px-2 py-0.5 rounded border border-gray-200 dark:border-gray-600 text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            title="Show the branches hidden on this label"
+          >
+            Show hidden ({layout.hiddenCount})
+          </button>
+        )}
+        {savedLayout && onLayoutChange && centerLabel && (
+          <button
+            onClick={() => onLayoutChange(centerLabel, null)}
+            className="px-2 py-0.5 rounded border border-gray-200 dark:border-gray-600 text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            title="Unpin, unhide and expand everything around this label"
+          >
+            Reset layout
+          </button>
+        )}
+
         {/* Panel overlay toggle */}
         <button
           onClick={() => setShowPanels(v => !v)}
@@ -1065,7 +1379,7 @@ const ChoiceCanvas: React.FC<ChoiceCanvasProps> = ({
               Conditional choice (if …)
             </div>
             <div className="mt-2 pt-2 border-t border-gray-100 dark:border-gray-700 text-gray-400 dark:text-gray-500">
-              Click any node or pill to navigate · shift-drag to pan · toggle "Panels" to show/hide regions
+              Click any node or pill to navigate · drag cards to pin them · right-click to hide branches or collapse menus · shift-drag to pan · toggle "Panels" to show/hide regions
             </div>
           </div>
         </CanvasToolbox>
@@ -1195,6 +1509,7 @@ const ChoiceCanvas: React.FC<ChoiceCanvasProps> = ({
             onOpenEditor={() => openNodeEditor(nodeContextMenu.labelId)}
             onSetAsRoot={() => navigateTo(nodeContextMenu.labelId)}
             onWarpToHere={() => onWarpToLabel(nodeContextMenu.label)}
+            extraActions={onLayoutChange ? nodeLayoutActions(nodeContextMenu) : undefined}
           />
         )}
 
@@ -1214,6 +1529,7 @@ const ChoiceCanvas: React.FC<ChoiceCanvasProps> = ({
                 }, 60);
               }}
               hasStart
+              onExport={() => setIsExportOpen(true)}
             />
             <Minimap
               items={minimapItems}
@@ -1223,6 +1539,14 @@ const ChoiceCanvas: React.FC<ChoiceCanvasProps> = ({
             />
           </div>
         )}
+        {isExportOpen && (
+          <CanvasExportModal
+            buildScene={buildExportScene}
+            fileBaseName={`choices-${layout.centerNode?.label ?? 'canvas'}`}
+            onClose={() => setIsExportOpen(false)}
+            addToast={addToast}
+          />
+        )}
       </div>
     </div>
   );
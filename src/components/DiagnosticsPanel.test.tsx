@@ -59,4 +59,43 @@ describe('DiagnosticsPanel', () => {
       } satisfies IgnoredDiagnosticRule,
     ]);
   });
+
+  it('lists quick fixes for an issue and applies the chosen one', async () => {
+    const user = userEvent.setup();
+    const fix = { title: "Create label 'missing_label' in current file", edits: [] };
+    const getQuickFixes = vi.fn(() => [fix]);
+    const onApplyQuickFix = vi.fn();
+    const issue = {
+      id: 'invalid-jump:b1:missing_label',
+      severity: 'error' as const,
+      category: 'invalid-jump',
+      message: 'Undefined label "missing_label"',
+      blockId: 'b1',
+      filePath: 'game/script.rpy',
+      line: 2,
+    };
+
+    render(
+      <DiagnosticsPanel
+        diagnostics={{ issues: [issue], errorCount: 1, warningCount: 0, infoCount: 0 }}
+        blocks={[createBlock({ id: 'b1' })]}
+        stickyNotes={[]}
+        tasks={[]}
+        ignoredDiagnostics={[]}
+        onUpdateTasks={vi.fn()}
+        onUpdateIgnoredDiagnostics={vi.fn()}
+        onOpenBlock={vi.fn()}
+        onHighlightBlock={vi.fn()}
+        getQuickFixes={getQuickFixes}
+        onApplyQuickFix={onApplyQuickFix}
+      />
+    );
+
+    expect(getQuickFixes).not.toHaveBeenCalled();
+    await user.click(screen.getByRole('button', { name: 'Quick fixes' }));
+    await user.click(screen.getByRole('button', { name: fix.title }));
+
+    expect(onApplyQuickFix).toHaveBeenCalledWith(fix, issue);
+    expect(screen.queryByRole('button', { name: fix.title })).toBeNull();
+  });
 });
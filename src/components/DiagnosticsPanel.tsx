@@ -2,7 +2,7 @@
  * @file DiagnosticsPanel.tsx
  * @description Split panel showing Issues and Tasks tabs for project health (~400 lines).
  * Key features: severity filter, per-rule ignore/unignore, click-to-navigate to source line,
- * manual punchlist tasks with completion toggling.
+ * quick fixes per issue, manual punchlist tasks with completion toggling.
  * Integration: receives `DiagnosticsResult` from `useDiagnostics`; navigates blocks via
  * `onOpenBlock`/`onHighlightBlock`; persists tasks and ignored rules back to `ProjectSettings`.
  */
@@ -17,6 +17,7 @@ import type {
   IgnoredDiagnosticRule,
 } from '@/types';
 import { createIgnoredDiagnosticRule } from '@/lib/diagnosticIgnores';
+import type { QuickFix } from '@/lib/renpyQuickFixes';
 
 interface DiagnosticsPanelProps {
   diagnostics: DiagnosticsResult;
@@ -28,6 +29,8 @@ interface DiagnosticsPanelProps {
   onUpdateIgnoredDiagnostics: (rules: IgnoredDiagnosticRule[]) => void;
   onOpenBlock: (blockId: string, line: number) => void;
   onHighlightBlock: (blockId: string) => void;
+  getQuickFixes?: (issue: DiagnosticIssue) => QuickFix[];
+  onApplyQuickFix?: (fix: QuickFix, issue: DiagnosticIssue) => void;
 }
 
 type ActiveView = 'issues' | 'tasks';
@@ -72,6 +75,21 @@ const CATEGORY_LABELS: Record<string, string> = {
   'unused-variable':       'Unused Variable',
   'pickle-unsafe-variable':'Pickle Unsafe',
   'define-mutated':        'Define Mutated',
+  'python-syntax':         'Python Syntax',
+  'undefined-name':        'Undefined Name',
+  'screen-property':       'Screen Property',
+  'screen-action':         'Screen Action',
+  'screen-use':            'Screen Use',
+  'atl-syntax':            'ATL Syntax',
+  'undefined-transform':   'Undefined Transform',
+  'undefined-style':       'Undefined Style',
+  'unreachable-ending':    'Unreachable Ending',
+  'translation-tags':          'Translation Tags',
+  'translation-interpolation': 'Translation Interpolation',
+  'translation-pause':         'Translation Pause',
+  'translation-whitespace':    'Translation Whitespace',
+  'translation-length':        'Translation Length',
+  'translation-glossary':      'Translation Glossary',
 };
 
 const CATEGORY_COLORS: Record<string, string> = {
@@ -87,17 +105,36 @@ const CATEGORY_COLORS: Record<string, string> = {
   'unused-variable':        'bg-gray-100  text-gray-600   dark:bg-gray-700      dark:text-gray-300',
   'pickle-unsafe-variable': 'bg-amber-50  text-amber-700  dark:bg-amber-900/30  dark:text-amber-300',
   'define-mutated':         'bg-orange-50 text-orange-700 dark:bg-orange-900/30 dark:text-orange-300',
+  'python-syntax':          'bg-red-50    text-red-700    dark:bg-red-900/30    dark:text-red-300',
+  'undefined-name':         'bg-yellow-50 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300',
+  'screen-property':        'bg-red-50    text-red-700    dark:bg-red-900/30    dark:text-red-300',
+  'screen-action':          'bg-yellow-50 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300',
+  'screen-use':             'bg-orange-50 text-orange-700 dark:bg-orange-900/30 dark:text-orange-300',
+  'atl-syntax':             'bg-red-50    text-red-700    dark:bg-red-900/30    dark:text-red-300',
+  'undefined-transform':    'bg-purple-50 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300',
+  'undefined-style':        'bg-purple-50 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300',
+  'unreachable-ending':     'bg-rose-50   text-rose-700   dark:bg-rose-900/30   dark:text-rose-300',
+  'translation-tags':          'bg-red-50    text-red-700    dark:bg-red-900/30    dark:text-red-300',
+  'translation-interpolation': 'bg-yellow-50 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300',
+  'translation-pause':         'bg-amber-50  text-amber-700  dark:bg-amber-900/30  dark:text-amber-300',
+  'translation-whitespace':    'bg-gray-100  text-gray-600   dark:bg-gray-700      dark:text-gray-300',
+  'translation-length':        'bg-sky-50    text-sky-700    dark:bg-sky-900/30    dark:text-sky-300',
+  'translation-glossary':      'bg-indigo-50 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-300',
 };
 
 // ---------------------------------------------------------------------------
 // Issue row
 // ---------------------------------------------------------------------------
-function IssueRow({ issue, blocks, onIgnoreIssue, onOpenBlock }: {
+function IssueRow({ issue, blocks, onIgnoreIssue, onOpenBlock, getQuickFixes, onApplyQuickFix }: {
   issue: DiagnosticIssue;
   blocks: Block[];
   onIgnoreIssue: (issue: DiagnosticIssue) => void;
   onOpenBlock: (blockId: string, line: number) => void;
+  getQuickFixes?: (issue: DiagnosticIssue) => QuickFix[];
+  onApplyQuickFix?: (fix: QuickFix, issue: DiagnosticIssue) => void;
 }) {
+  // Fixes are computed when the menu opens so they reflect the current content
+  const [quickFixes, setQuickFixes] = useState<QuickFix[] | null>(null);
   const block = blocks.find(b => b.id === issue.blockId);
   const fileName = block?.filePath
     ? block.filePath.split(/[\\/]/).pop()
@@ -127,7 +164,38 @@ function IssueRow({ issue, blocks, onIgnoreIssue, onOpenBlock }: {
             </span>
           )}
         </div>
+        {quickFixes && (
+          <div className="mt-1.5 flex flex-col items-start gap-0.5">
+            {quickFixes.length === 0 && (
+              <span className="text-[11px] text-gray-400 dark:text-gray-500 italic">No quick fixes available</span>
+            )}
+            {quickFixes.map(fix => (
+              <button
+                key={fix.title}
+                type="button"
+                className="text-xs text-indigo-600 dark:text-indigo-400 hover:underline text-left"
+                onClick={() => { onApplyQuickFix?.(fix, issue); setQuickFixes(null); }}
+              >
+                {fix.title}
+              </button>
+            ))}
+          </div>
+        )}
       </div>
+      {getQuickFixes && (
+        <button
+          type="button"
+          className={`flex-none p-1 rounded ${quickFixes ? 'text-yellow-500' : 'text-gray-400 hover:text-yellow-500'}`}
+          title="Quick fixes"
+          aria-label="Quick fixes"
+          aria-expanded={!!quickFixes}
+          onClick={() => setQuickFixes(prev => prev ? null : getQuickFixes(issue))}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" />
+          </svg>
+        </button>
+      )}
       {canNavigate && (
         <button
           type="button"
@@ -170,6 +238,8 @@ const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({
   onUpdateIgnoredDiagnostics,
   onOpenBlock,
   onHighlightBlock,
+  getQuickFixes,
+  onApplyQuickFix,
 }) => {
   const [activeView, setActiveView] = useState<ActiveView>('issues');
   const [severityFilter, setSeverityFilter] = useState<SeverityFilter>('all');
@@ -458,6 +528,8 @@ const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({
                       blocks={blocks}
                       onIgnoreIssue={ignoreIssue}
                       onOpenBlock={onOpenBlock}
+                      getQuickFixes={getQuickFixes}
+                      onApplyQuickFix={onApplyQuickFix}
                     />
                   ))}
                 </div>
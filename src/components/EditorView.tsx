@@ -9,9 +9,9 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
 import { logger } from '@/lib/logger';
 import Editor, { OnMount, BeforeMount } from '@monaco-editor/react';
-import type { Block, RenpyAnalysisResult, ToastMessage, UserSnippet, MenuTemplate, MenuChoice as MenuChoiceType } from '@/types';
+import type { Block, DiagnosticIssue, RenpyAnalysisResult, ToastMessage, UserSnippet, MenuTemplate, MenuChoice as MenuChoiceType } from '@/types';
 import * as monaco from 'monaco-editor/esm/vs/editor/editor.api';
-import { detectContext, getRenpyCompletions } from '@/lib/renpyCompletionProvider';
+import { detectContext, findEnclosingHeader, getRenpyCompletions } from '@/lib/renpyCompletionProvider';
 import type { RenpyCompletionData } from '@/lib/renpyCompletionProvider';
 import { validateRenpyCode } from '@/lib/renpyValidator';
 import { initTextMate, createTextMateTokensProvider } from '@/lib/textmateGrammar';
@@ -30,6 +30,17 @@ import type { DialoguePreviewData, MenuChoice } from './DialoguePreview';
 import { MenuConstructorModal } from './MenuConstructorModal';
 import { MenuTemplatePickerModal } from './MenuTemplatePickerModal';
 import { createId } from '@/lib/createId';
+import { findRenameTargetAt } from '@/lib/renpyRename';
+import type { RenameSymbolTarget } from '@/lib/renpyRename';
+import { findReferenceTargetAt, findSymbolReferences } from '@/lib/renpyReferences';
+import type { ReferenceTarget } from '@/lib/renpyReferences';
+import { buildHoverContents, findHoverTarget, findImageUrl } from '@/lib/renpyHover';
+import { buildDocumentSymbols, findSymbolPathAtLine } from '@/lib/renpyDocumentSymbols';
+import type { RenpyDocumentSymbol, RenpyDocumentSymbolKind } from '@/lib/renpyDocumentSymbols';
+import { computeFoldingRanges } from '@/lib/renpyFolding';
+import type { RenpyFoldingKind } from '@/lib/renpyFolding';
+import { getIssueSubject, getQuickFixes } from '@/lib/renpyQuickFixes';
+import type { QuickFix, QuickFixIssue } from '@/lib/renpyQuickFixes';
 
 interface EditorViewProps {
   block: Block;
@@ -55,6 +66,15 @@ interface EditorViewProps {
   userSnippets?: UserSnippet[];
   menuTemplates?: MenuTemplate[];
   onSaveMenuTemplate?: (template: MenuTemplate) => void;
+  onRenameSymbol?: (target: RenameSymbolTarget) => void;
+  onFindReferences?: (target: ReferenceTarget) => void;
+  imageUrlLookup?: Map<string, string>;
+  /** Header lines of folded regions to restore on mount (from the tab's saved state) */
+  initialFoldedLines?: number[];
+  onFoldStateChange?: (blockId: string, foldedLines: number[]) => void;
+  /** Project diagnostics, used to offer quick fixes for issues the editor does not mark itself */
+  diagnosticIssues?: DiagnosticIssue[];
+  onApplyQuickFix?: (fix: QuickFix, blockId: string) => void;
 }
 
 const LABEL_REGEX = /^\s*label\s+([a-zA-Z0-9_]+):/;
@@ -72,6 +92,66 @@ const RENPY_STATEMENT_KEYWORDS = new Set([
   'behind', 'onlayer', 'zorder', 'expression', 'extend', 'camera',
 ]);
 
+// Project diagnostics whose subject can appear on many lines but are reported once
+const SUBJECT_SCOPED_CATEGORIES = new Set(['undefined-character', 'undefined-screen', 'missing-image']);
+const APPLY_QUICK_FIX_COMMAND = 'renpy.applyQuickFix';
+
+// Monaco providers and commands are registered once, by the first editor to mount, and
+// outlive it. The project state they read is therefore kept here and updated by every
+// mounted editor, rather than in the refs of the editor that registered them.
+const sharedProviderState: {
+  blocks: Block[];
+  analysisResult: RenpyAnalysisResult | null;
+  diagnosticIssues?: DiagnosticIssue[];
+  onApplyQuickFix?: (fix: QuickFix, blockId: string) => void;
+} = { blocks: [], analysisResult: null };
+
+// Models created so Peek References can show files without an open editor, by URI
+const referencePeekModels = new Map<string, monaco.editor.ITextModel>();
+
+/** Disposes the models created for Peek References, or only the one at `uri`. */
+function disposeReferencePeekModels(uri?: string) {
+  for (const [key, model] of referencePeekModels) {
+    if (uri !== undefined && key !== uri) continue;
+    model.dispose();
+    referencePeekModels.delete(key);
+  }
+}
+
+const HOVER_THUMBNAIL_SIZE = 160;
+const hoverThumbnailCache = new Map<string, Promise<string | undefined>>();
+
+/**
+ * Monaco's markdown sanitizer only allows http(s)/data/file image sources, so
+ * project images served over `media:` are downscaled into a data URL first.
+ */
+function loadHoverThumbnail(url: string): Promise<string | undefined> {
+  if (url.startsWith('data:')) return Promise.resolve(url);
+  let pending = hoverThumbnailCache.get(url);
+  if (!pending) {
+    pending = new Promise(resolve => {
+      const img = new Image();
+      img.crossOrigin = 'anonymous';
+      img.onload = () => {
+        try {
+          const scale = Math.min(1, HOVER_THUMBNAIL_SIZE / Math.max(img.width, img.height));
+          const canvas = document.createElement('canvas');
+          canvas.width = Math.max(1, Math.round(img.width * scale));
+          canvas.height = Math.max(1, Math.round(img.height * scale));
+          canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+          resolve(canvas.toDataURL('image/png'));
+        } catch {
+          resolve(undefined);
+        }
+      };
+      img.onerror = () => resolve(undefined);
+      img.src = url;
+    });
+    hoverThumbnailCache.set(url, pending);
+  }
+  return pending;
+}
+
 function getIndent(line: string): number {
   return line.match(/^(\s*)/)?.[1].length ?? 0;
 }
@@ -205,7 +285,11 @@ function parseMenuBlock(
   return { kind: 'menu', prompt, choices };
 }
 
-const Breadcrumbs: React.FC<{ filePath?: string, context?: string }> = ({ filePath, context }) => {
+const BREADCRUMB_PREFIXES: Partial<Record<RenpyDocumentSymbolKind, string>> = {
+    label: 'label', menu: 'menu', screen: 'screen', transform: 'transform', image: 'image', character: 'define',
+};
+
+const Breadcrumbs: React.FC<{ filePath?: string, symbolPath?: RenpyDocumentSymbol[], onSelectSymbol?: (symbol: RenpyDocumentSymbol) => void }> = ({ filePath, symbolPath = [], onSelectSymbol }) => {
     if (!filePath) return null;
     
     const parts = filePath.split(/[/\\]/);
@@ -215,17 +299,25 @@ const Breadcrumbs: React.FC<{ filePath?: string, context?: string }> = ({ filePa
             {parts.map((part, i) => (
                 <React.Fragment key={i}>
                     {i > 0 && <span className="opacity-50">/</span>}
-                    <span className={i === parts.length - 1 && !context ? "font-semibold text-gray-700 dark:text-gray-200" : ""}>{part}</span>
+                    <span className={i === parts.length - 1 && symbolPath.length === 0 ? "font-semibold text-gray-700 dark:text-gray-200" : ""}>{part}</span>
                 </React.Fragment>
             ))}
-            {context && (
-                <>
-                    <span className="opacity-50">&gt;</span>
-                    <span className="font-semibold text-indigo-600 dark:text-indigo-400 flex items-center">
-                        {context}
-                    </span>
-                </>
-            )}
+            {symbolPath.map((symbol, i) => {
+                const prefix = BREADCRUMB_PREFIXES[symbol.kind];
+                const label = symbol.kind === 'choice' ? `"${symbol.name}"` : prefix && symbol.name !== prefix ? `${prefix} ${symbol.name}` : symbol.name;
+                return (
+                    <React.Fragment key={`${symbol.startLine}-${i}`}>
+                        <span className="opacity-50">&gt;</span>
+                        <button
+                            onClick={() => onSelectSymbol?.(symbol)}
+                            title={`Go to line ${symbol.startLine}`}
+                            className={`truncate max-w-[16rem] hover:underline ${i === symbolPath.length - 1 ? 'font-semibold text-indigo-600 dark:text-indigo-400' : ''}`}
+                        >
+                            {label}
+                        </button>
+                    </React.Fragment>
+                );
+            })}
         </div>
     );
 };
@@ -255,7 +347,8 @@ const EditorView: React.FC<EditorViewProps> = (props) => {
   const [isMounted, setIsMounted] = useState(false);
   const decorationIds = useRef<string[]>([]);
   const draftingDecorationIds = useRef<string[]>([]);
-  const [currentContext, setCurrentContext] = useState<string>('');
+  const [currentSymbolPath, setCurrentSymbolPath] = useState<RenpyDocumentSymbol[]>([]);
+  const documentSymbolsCacheRef = useRef<{ versionId: number; symbols: RenpyDocumentSymbol[] } | null>(null);
   const [dialoguePreview, setDialoguePreview] = useState<DialoguePreviewData | null>(null);
   const [isDialoguePreviewExpanded, setIsDialoguePreviewExpanded] = useState(true);
   const setDialoguePreviewRef = useRef(setDialoguePreview);
@@ -288,6 +381,11 @@ const EditorView: React.FC<EditorViewProps> = (props) => {
   const userSnippetsRef = useRef(props.userSnippets);
   const menuTemplatesRef = useRef(props.menuTemplates);
   const onSaveMenuTemplateRef = useRef(props.onSaveMenuTemplate);
+  const onRenameSymbolRef = useRef(props.onRenameSymbol);
+  const onFindReferencesRef = useRef(props.onFindReferences);
+  const imageUrlLookupRef = useRef(props.imageUrlLookup);
+  const onFoldStateChangeRef = useRef(props.onFoldStateChange);
+  const addToastRef = useRef(props.addToast);
   const warpLabelContextKeyRef = useRef<monaco.editor.IContextKey<boolean> | null>(null);
   const warpLabelNameRef = useRef<string | null>(null);
 
@@ -306,7 +404,16 @@ const EditorView: React.FC<EditorViewProps> = (props) => {
     userSnippetsRef.current = props.userSnippets;
     menuTemplatesRef.current = props.menuTemplates;
     onSaveMenuTemplateRef.current = props.onSaveMenuTemplate;
-  }, [onDirtyChange, onTriggerSave, block, onSwitchFocusBlock, analysisResult, onEditorUnmount, onCursorPositionChange, onWarpToLabel, onContentChange, props.userSnippets, props.menuTemplates, props.onSaveMenuTemplate]);
+    onRenameSymbolRef.current = props.onRenameSymbol;
+    onFindReferencesRef.current = props.onFindReferences;
+    sharedProviderState.blocks = props.blocks;
+    sharedProviderState.analysisResult = analysisResult;
+    imageUrlLookupRef.current = props.imageUrlLookup;
+    onFoldStateChangeRef.current = props.onFoldStateChange;
+    sharedProviderState.diagnosticIssues = props.diagnosticIssues;
+    sharedProviderState.onApplyQuickFix = props.onApplyQuickFix;
+    addToastRef.current = props.addToast;
+  }, [onDirtyChange, onTriggerSave, block, onSwitchFocusBlock, analysisResult, onEditorUnmount, onCursorPositionChange, onWarpToLabel, onContentChange, props.userSnippets, props.menuTemplates, props.onSaveMenuTemplate, props.onRenameSymbol, props.onFindReferences, props.blocks, props.imageUrlLookup, props.onFoldStateChange, props.diagnosticIssues, props.onApplyQuickFix, props.addToast]);
 
   const syncWarpContext = useCallback((lineNumber?: number | null) => {
     const line = lineNumber ?? editorRef.current?.getPosition()?.lineNumber ?? null;
@@ -348,6 +455,7 @@ const EditorView: React.FC<EditorViewProps> = (props) => {
         onCursorPositionChangeRef.current?.(null);
         // Clear any pending debounced content sync
         if (contentChangeTimerRef.current) clearTimeout(contentChangeTimerRef.current);
+        disposeReferencePeekModels();
     };
   }, []); // <-- Empty array ensures this runs ONLY on unmount
   
@@ -362,6 +470,9 @@ const EditorView: React.FC<EditorViewProps> = (props) => {
   }, [initialScrollRequest]);
 
   const handleEditorWillMount: BeforeMount = (monacoInstance) => {
+    // A model left over from Peek References may hold outdated content; let the editor create its own
+    disposeReferencePeekModels(monacoInstance.Uri.parse(block.filePath || block.id).toString());
+
     // Only register if not already registered
     if (!monacoInstance.languages.getLanguages().some(({ id }) => id === 'renpy')) {
       monacoInstance.languages.register({ id: 'renpy', extensions: ['.rpy'], aliases: ['RenPy', 'renpy'] });
@@ -575,7 +686,8 @@ const EditorView: React.FC<EditorViewProps> = (props) => {
             endLineNumber: position.lineNumber,
             endColumn: position.column,
           };
-          const context = detectContext(lineContent, position.column);
+          const enclosingHeader = findEnclosingHeader(model.getLinesContent(), position.lineNumber - 1);
+          const context = detectContext(lineContent, position.column, enclosingHeader);
           const analysis = analysisResultRef.current;
           const data: RenpyCompletionData = {
             labels: analysis.labels,
@@ -583,11 +695,164 @@ const EditorView: React.FC<EditorViewProps> = (props) => {
             variables: analysis.variables,
             screens: analysis.screens,
             definedImages: analysis.definedImages,
+            transforms: analysis.transforms,
+            styles: analysis.styles,
             userSnippets: userSnippetsRef.current,
           };
           return { suggestions: getRenpyCompletions(context, data, range) };
         },
       });
+
+      // Register hover provider — cards for characters, labels, variables,
+      // screens and images built from the live analysis result.
+      monacoInstance.languages.registerHoverProvider('renpy', {
+        provideHover: async (model, position) => {
+          if (getTripleQuotedLineMask(model.getValue())[position.lineNumber - 1]) return null;
+          const analysis = analysisResultRef.current;
+          const hover = findHoverTarget(model.getLineContent(position.lineNumber), position.column, analysis);
+          if (!hover) return null;
+
+          let imageUrl: string | undefined;
+          if (hover.target.kind === 'image' && imageUrlLookupRef.current) {
+            const url = findImageUrl(imageUrlLookupRef.current, hover.target.name);
+            if (url) imageUrl = await loadHoverThumbnail(url);
+          }
+          const contents = buildHoverContents(hover.target, analysis, sharedProviderState.blocks, imageUrl);
+          if (contents.length === 0) return null;
+          return {
+            range: new monacoInstance.Range(position.lineNumber, hover.startColumn, position.lineNumber, hover.endColumn),
+            contents: contents.map(value => ({ value, supportHtml: true })),
+          };
+        },
+      });
+
+      // Register reference provider (Shift+F12 / Peek References). Locations in
+      // files without an open editor need a model for the peek view to render,
+      // so one is created on demand at the same URI the editor would use, and
+      // disposed when that file is opened or the editor unmounts.
+      monacoInstance.languages.registerReferenceProvider('renpy', {
+        provideReferences: (model, position, context) => {
+          const { blocks, analysisResult: analysis } = sharedProviderState;
+          if (!analysis) return [];
+          const target = findReferenceTargetAt(model.getLineContent(position.lineNumber), position.column, analysis);
+          if (!target) return [];
+          const blockById = new Map(blocks.map(b => [b.id, b]));
+          return findSymbolReferences(blocks, analysis, target)
+            .filter(reference => context.includeDeclaration || !reference.isDefinition)
+            .map(reference => {
+              const refBlock = blockById.get(reference.blockId)!;
+              const uri = monacoInstance.Uri.parse(refBlock.filePath || refBlock.id);
+              if (!monacoInstance.editor.getModel(uri)) {
+                referencePeekModels.set(uri.toString(), monacoInstance.editor.createModel(refBlock.content, 'renpy', uri));
+              }
+              return {
+                uri,
+                range: {
+                  startLineNumber: reference.lineNumber,
+                  startColumn: reference.startColumn,
+                  endLineNumber: reference.lineNumber,
+                  endColumn: reference.endColumn,
+                },
+              };
+            });
+        },
+      });
+
+      // Register document symbol provider — drives Monaco's outline (Ctrl+Shift+O).
+      const { SymbolKind } = monacoInstance.languages;
+      const symbolKinds: Record<RenpyDocumentSymbolKind, monaco.languages.SymbolKind> = {
+        label: SymbolKind.Function,
+        menu: SymbolKind.Enum,
+        choice: SymbolKind.EnumMember,
+        screen: SymbolKind.Class,
+        transform: SymbolKind.Method,
+        python: SymbolKind.Module,
+        image: SymbolKind.File,
+        character: SymbolKind.Object,
+      };
+      const toDocumentSymbol = (symbol: RenpyDocumentSymbol, model: monaco.editor.ITextModel): monaco.languages.DocumentSymbol => ({
+        name: symbol.name,
+        detail: symbol.detail ?? '',
+        kind: symbolKinds[symbol.kind],
+        tags: [],
+        range: new monacoInstance.Range(symbol.startLine, 1, symbol.endLine, model.getLineMaxColumn(symbol.endLine)),
+        selectionRange: new monacoInstance.Range(symbol.startLine, symbol.selectionStartColumn, symbol.startLine, symbol.selectionEndColumn),
+        children: symbol.children.map(child => toDocumentSymbol(child, model)),
+      });
+      monacoInstance.languages.registerDocumentSymbolProvider('renpy', {
+        displayName: "Ren'Py",
+        provideDocumentSymbols: (model) =>
+          buildDocumentSymbols(model.getValue()).map(symbol => toDocumentSymbol(symbol, model)),
+      });
+
+      // Register code action provider — quick fixes for the editor's own markers
+      // (invalid jumps, syntax) and for project diagnostics on the requested lines.
+      // Fixes may touch other files, so they are applied by the app via a command.
+      monacoInstance.editor.registerCommand(APPLY_QUICK_FIX_COMMAND, (_accessor, fix: QuickFix, blockId: string) => {
+        sharedProviderState.onApplyQuickFix?.(fix, blockId);
+      });
+      monacoInstance.languages.registerCodeActionProvider('renpy', {
+        provideCodeActions: (model, range, context) => {
+          const { blocks, analysisResult: analysis, diagnosticIssues } = sharedProviderState;
+          const uri = model.uri.toString();
+          const modelBlock = blocks.find(b => monacoInstance.Uri.parse(b.filePath || b.id).toString() === uri);
+          if (!modelBlock || !analysis) return { actions: [], dispose: () => {} };
+          const liveBlocks = blocks.map(b => b.id === modelBlock.id ? { ...b, content: model.getValue() } : b);
+
+          const issues: { issue: QuickFixIssue; marker?: monaco.editor.IMarkerData }[] = context.markers.map(marker => ({
+            issue: {
+              category: marker.message.startsWith('Invalid jump') ? 'invalid-jump' : 'syntax',
+              message: marker.message,
+              blockId: modelBlock.id,
+              line: marker.startLineNumber,
+            },
+            marker,
+          }));
+          for (const issue of diagnosticIssues ?? []) {
+            if (issue.blockId === modelBlock.id && issue.line && issue.line >= range.startLineNumber && issue.line <= range.endLineNumber) {
+              issues.push({ issue });
+              continue;
+            }
+            const subject = SUBJECT_SCOPED_CATEGORIES.has(issue.category) ? getIssueSubject(issue) : null;
+            if (!subject) continue;
+            const subjectPattern = new RegExp(`(?<![\\w.])${subject.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![\\w])`);
+            for (let line = range.startLineNumber; line <= range.endLineNumber; line++) {
+              if (subjectPattern.test(model.getLineContent(line))) {
+                issues.push({ issue: { ...issue, blockId: modelBlock.id, line } });
+                break;
+              }
+            }
+          }
+
+          const seen = new Set<string>();
+          const actions: monaco.languages.CodeAction[] = [];
+          for (const { issue, marker } of issues) {
+            for (const fix of getQuickFixes(issue, liveBlocks, analysis)) {
+              if (seen.has(fix.title)) continue;
+              seen.add(fix.title);
+              actions.push({
+                title: fix.title,
+                kind: 'quickfix',
+                diagnostics: marker ? [marker] : undefined,
+                isPreferred: fix.isPreferred,
+                command: { id: APPLY_QUICK_FIX_COMMAND, title: fix.title, arguments: [fix, modelBlock.id] },
+              });
+            }
+          }
+          return { actions, dispose: () => {} };
+        },
+      }, { providedCodeActionKinds: ['quickfix'] });
+
+      // Register folding range provider — replaces Monaco's indentation folding,
+      // which splits logical lines and folds inside triple-quoted strings.
+      monacoInstance.languages.registerFoldingRangeProvider('renpy', {
+        provideFoldingRanges: (model) =>
+          computeFoldingRanges(model.getValue()).map(range => ({
+            start: range.start,
+            end: range.end,
+            kind: range.kind === 'string' ? monacoInstance.languages.FoldingRangeKind.Comment : undefined,
+          })),
+      });
     }
   };
 
@@ -669,26 +934,25 @@ const EditorView: React.FC<EditorViewProps> = (props) => {
       const position = editorRef.current.getPosition();
       if (!position) return;
 
-      const lineNumber = position.lineNumber;
       const model = editorRef.current.getModel();
       if (!model) return;
 
-      let bestContext = '';
-      for (let i = lineNumber; i >= 1; i--) {
-          const lineContent = model.getLineContent(i);
-          const labelMatch = lineContent.match(/^\s*label\s+([a-zA-Z0-9_]+):/);
-          const screenMatch = lineContent.match(/^\s*screen\s+([a-zA-Z0-9_]+)/);
-
-          if (labelMatch) {
-              bestContext = `label ${labelMatch[1]}`;
-              break;
-          }
-          if (screenMatch) {
-              bestContext = `screen ${screenMatch[1]}`;
-              break;
-          }
+      // Re-parse only when the text has changed since the last cursor move
+      const versionId = model.getAlternativeVersionId();
+      if (documentSymbolsCacheRef.current?.versionId !== versionId) {
+          documentSymbolsCacheRef.current = { versionId, symbols: buildDocumentSymbols(model.getValue()) };
       }
-      setCurrentContext(bestContext);
+      const path = findSymbolPathAtLine(documentSymbolsCacheRef.current.symbols, position.lineNumber);
+      setCurrentSymbolPath(prev =>
+          prev.length === path.length && prev.every((s, i) => s.startLine === path[i].startLine && s.name === path[i].name) ? prev : path);
+  };
+
+  const handleSelectBreadcrumbSymbol = (symbol: RenpyDocumentSymbol) => {
+      const editor = editorRef.current;
+      if (!editor) return;
+      editor.setPosition({ lineNumber: symbol.startLine, column: symbol.selectionStartColumn });
+      editor.revealLineInCenterIfOutsideViewport(symbol.startLine);
+      editor.focus();
   };
 
   const handleEditorDidMount: OnMount = (editor, monacoInstance) => {
@@ -700,6 +964,9 @@ const EditorView: React.FC<EditorViewProps> = (props) => {
     if (model) {
         monacoInstance.editor.setModelLanguage(model, 'renpy');
         model.updateOptions({ detectIndentation: true });
+        // The model may have been created earlier by the reference provider,
+        // in which case the editor reused it instead of applying defaultValue.
+        if (model.getValue() !== block.content) model.setValue(block.content);
     }
 
     onEditorMount(block.id, editor);
@@ -718,6 +985,21 @@ const EditorView: React.FC<EditorViewProps> = (props) => {
       }, 50);
     }
 
+    // Restore the tab's saved folds, then report fold changes so they persist
+    // with the tab. The folding view state only exposes its regions through
+    // saveViewState(), so that is read whenever the hidden areas change.
+    if (props.initialFoldedLines?.length) {
+      editor.trigger('restore-folds', 'editor.fold', { levels: 1, selectionLines: props.initialFoldedLines.map(line => line - 1) });
+    }
+    editor.onDidChangeHiddenAreas(() => {
+      const foldingState = editor.saveViewState()?.contributionsState['editor.contrib.folding'] as
+        { collapsedRegions?: { startLineNumber: number; isCollapsed?: boolean }[] } | undefined;
+      const foldedLines = (foldingState?.collapsedRegions ?? [])
+        .filter(region => region.isCollapsed !== false)
+        .map(region => region.startLineNumber);
+      onFoldStateChangeRef.current?.(blockRef.current.id, foldedLines);
+    });
+
     const editorNode = editor.getDomNode();
     if (editorNode) {
       editorNode.addEventListener('dragover', (e) => {
@@ -903,6 +1185,73 @@ const EditorView: React.FC<EditorViewProps> = (props) => {
         },
     });
 
+    editor.addAction({
+        id: 'rename-symbol',
+        label: 'Rename Symbol...',
+        keybindings: [monacoInstance.KeyCode.F2],
+        contextMenuGroupId: 'renpy',
+        contextMenuOrder: 5,
+        run: (ed) => {
+            const position = ed.getPosition();
+            const model = ed.getModel();
+            if (!position || !model || !onRenameSymbolRef.current) return;
+            if (getTripleQuotedLineMask(model.getValue())[position.lineNumber - 1]) return;
+
+            const target = findRenameTargetAt(model.getLineContent(position.lineNumber), position.column, analysisResultRef.current);
+            if (!target) {
+                addToastRef.current('Place the cursor on a label, character, screen or variable to rename it.', 'info');
+                return;
+            }
+            onRenameSymbolRef.current(target);
+        },
+    });
+
+    editor.addAction({
+        id: 'find-all-references',
+        label: 'Find All References',
+        keybindings: [monacoInstance.KeyMod.Alt | monacoInstance.KeyMod.Shift | monacoInstance.KeyCode.F12],
+        contextMenuGroupId: 'renpy',
+        contextMenuOrder: 6,
+        run: (ed) => {
+            const position = ed.getPosition();
+            const model = ed.getModel();
+            if (!position || !model || !onFindReferencesRef.current) return;
+            if (getTripleQuotedLineMask(model.getValue())[position.lineNumber - 1]) return;
+
+            const target = findReferenceTargetAt(model.getLineContent(position.lineNumber), position.column, analysisResultRef.current);
+            if (!target) {
+                addToastRef.current('Place the cursor on a label, character, variable, screen or image to find its references.', 'info');
+                return;
+            }
+            onFindReferencesRef.current(target);
+        },
+    });
+
+    const foldAllOfKind = (ed: monaco.editor.ICodeEditor, kind: RenpyFoldingKind) => {
+        const model = ed.getModel();
+        if (!model) return;
+        const selectionLines = computeFoldingRanges(model.getValue())
+            .filter(range => range.kind === kind)
+            .map(range => range.start - 1);
+        if (selectionLines.length > 0) ed.trigger('renpy-fold', 'editor.fold', { levels: 1, selectionLines });
+    };
+
+    editor.addAction({
+        id: 'fold-all-labels',
+        label: 'Fold All Labels',
+        contextMenuGroupId: 'renpy',
+        contextMenuOrder: 7,
+        run: (ed) => foldAllOfKind(ed, 'label'),
+    });
+
+    editor.addAction({
+        id: 'fold-all-menus',
+        label: 'Fold All Menus',
+        contextMenuGroupId: 'renpy',
+        contextMenuOrder: 8,
+        run: (ed) => foldAllOfKind(ed, 'menu'),
+    });
+
     editor.onMouseDown((e) => {
       if (e.target.type !== monacoInstance.editor.MouseTargetType.CONTENT_TEXT || !e.target.position) return;
       if (!e.event.ctrlKey && !e.event.metaKey) return;
@@ -996,6 +1345,77 @@ const EditorView: React.FC<EditorViewProps> = (props) => {
           }));
 
       monacoInstance.editor.setModelMarkers(model, 'renpy-jumps', markers);
+
+      // Python syntax errors and undefined names from the worker's Python pass.
+      const pythonMarkers: monaco.editor.IMarkerData[] = (analysisResult.pythonDiagnostics ?? [])
+          .filter(d => d.blockId === block.id)
+          .map(d => ({
+              startLineNumber: d.line,
+              startColumn: d.column,
+              endLineNumber: d.line,
+              endColumn: d.endColumn,
+              message: d.message,
+              severity: d.severity === 'error'
+                  ? monacoInstance.MarkerSeverity.Error
+                  : monacoInstance.MarkerSeverity.Warning,
+          }));
+      monacoInstance.editor.setModelMarkers(model, 'renpy-python', pythonMarkers);
+
+      // Screen language problems from the worker's screen pass.
+      const screenMarkers: monaco.editor.IMarkerData[] = (analysisResult.screenDiagnostics ?? [])
+          .filter(d => d.blockId === block.id)
+          .map(d => ({
+              startLineNumber: d.line,
+              startColumn: d.column,
+              endLineNumber: d.line,
+              endColumn: d.endColumn,
+              message: d.message,
+              severity: d.severity === 'error'
+                  ? monacoInstance.MarkerSeverity.Error
+                  : monacoInstance.MarkerSeverity.Warning,
+          }));
+      monacoInstance.editor.setModelMarkers(model, 'renpy-screen', screenMarkers);
+
+      // ATL syntax errors and undefined transforms from the worker's ATL pass.
+      const atlMarkers: monaco.editor.IMarkerData[] = (analysisResult.atlDiagnostics ?? [])
+          .filter(d => d.blockId === block.id)
+          .map(d => ({
+              startLineNumber: d.line,
+              startColumn: d.column,
+              endLineNumber: d.line,
+              endColumn: d.endColumn,
+              message: d.message,
+              severity: d.severity === 'error'
+                  ? monacoInstance.MarkerSeverity.Error
+                  : monacoInstance.MarkerSeverity.Warning,
+          }));
+      monacoInstance.editor.setModelMarkers(model, 'renpy-atl', atlMarkers);
+
+      // Style statements inheriting from or taking an undefined style.
+      const styleMarkers: monaco.editor.IMarkerData[] = (analysisResult.styleDiagnostics ?? [])
+          .filter(d => d.blockId === block.id)
+          .map(d => ({
+              startLineNumber: d.line,
+              startColumn: d.column,
+              endLineNumber: d.line,
+              endColumn: d.endColumn,
+              message: d.message,
+              severity: monacoInstance.MarkerSeverity.Warning,
+          }));
+      monacoInstance.editor.setModelMarkers(model, 'renpy-style', styleMarkers);
+
+      // Endings the route simulator found no path to with the conditions as written.
+      const routeMarkers: monaco.editor.IMarkerData[] = (analysisResult.routeDiagnostics ?? [])
+          .filter(d => d.blockId === block.id)
+          .map(d => ({
+              startLineNumber: d.line,
+              startColumn: d.column,
+              endLineNumber: d.line,
+              endColumn: d.endColumn,
+              message: d.message,
+              severity: monacoInstance.MarkerSeverity.Warning,
+          }));
+      monacoInstance.editor.setModelMarkers(model, 'renpy-route', routeMarkers);
   }, [analysisResult, block.id, isMounted]);
   
   useEffect(() => {
@@ -1349,7 +1769,7 @@ const EditorView: React.FC<EditorViewProps> = (props) => {
                 cursor: help;
             }
         `}</style>
-      <Breadcrumbs filePath={block.filePath} context={currentContext} />
+      <Breadcrumbs filePath={block.filePath} symbolPath={currentSymbolPath} onSelectSymbol={handleSelectBreadcrumbSymbol} />
       <div className="flex-1 min-h-0">
         <Editor
           height="100%"
@@ -65,6 +65,7 @@ const KeyboardShortcutsModal: React.FC<KeyboardShortcutsModalProps> = ({
         { keys: ['Ctrl', 'Shift', 'G'], description: 'Warp to Label' },
         { keys: ['Ctrl', 'Shift', 'F'], description: 'Search in Files' },
         { keys: ['Ctrl', 'S'], description: 'Save All' },
+        { keys: ['Ctrl', 'Shift', 'E'], description: 'Export Canvas' },
         { keys: ['Ctrl', 'W'], description: 'Close Active Tab' },
         { keys: ['Ctrl', 'Q'], description: 'Quit Application' },
         { keys: ['Ctrl', ','], description: 'Settings' },
@@ -76,6 +77,9 @@ const KeyboardShortcutsModal: React.FC<KeyboardShortcutsModalProps> = ({
     { category: 'Editor', items: [
         { keys: ['Ctrl', 'S'], description: 'Save File' },
         { keys: ['Ctrl', 'Click'], description: 'Go to Definition' },
+        { keys: ['F2'], description: 'Rename Symbol' },
+        { keys: ['Shift', 'F12'], description: 'Peek References' },
+        { keys: ['Alt', 'Shift', 'F12'], description: 'Find All References' },
     ]},
     { category: 'Explorer', items: [
         { keys: ['Double Click'], description: 'Open File' },
@@ -2,7 +2,9 @@
  * @file LabelBlock.tsx
  * @description Canvas node representing a single Ren'Py label in `RouteCanvas` (~120 lines).
  * Key features: entry/unreachable/dead-end status badges, structural role overlay highlights
- * (hub/branch/menu-heavy/call-heavy) with count badges, click-to-open editor, memoised.
+ * (hub/branch/menu-heavy/call-heavy) with count badges, route-condition feasibility highlights,
+ * click-to-open editor, title-only rendering for mid zoom, optional output port for dragging out
+ * new jumps, memoised.
  * Integration: rendered by `RouteCanvas` for each `LabelNode` from `useRenpyAnalysis`.
  */
 import React from 'react';
@@ -19,11 +21,17 @@ interface LabelBlockProps {
   isDeadEnd?: boolean;
   isDimmed?: boolean;
   /** Active overlay type — renders a colored badge at the bottom-left of the node */
-  overlayHighlight?: 'hub' | 'branch' | 'menu-heavy' | 'call-heavy' | null;
+  overlayHighlight?: 'hub' | 'branch' | 'menu-heavy' | 'call-heavy' | 'feasible' | 'infeasible' | 'condition-unknown' | null;
   /** Numeric count shown inside the overlay badge (e.g. number of incoming links for hubs) */
   overlayCount?: number;
+  /** Extra tooltip lines for the overlay (e.g. simulated variable values on entry) */
+  overlayDetail?: string;
   /** Resolved data URL for the scene image associated with this label (if any) */
   sceneImageUrl?: string;
+  /** 'title' draws only the label name, large enough to read at mid zoom */
+  detail?: 'title' | 'full';
+  /** Shows the output port `RouteCanvas` starts new links from (marked with `data-route-port`) */
+  showPort?: boolean;
 }
 
 const OVERLAY_STYLES: Record<NonNullable<LabelBlockProps['overlayHighlight']>, {
@@ -33,6 +41,9 @@ const OVERLAY_STYLES: Record<NonNullable<LabelBlockProps['overlayHighlight']>, {
   branch:      { bg: 'bg-violet-500', border: 'border-violet-500 dark:border-violet-400', title: 'Branch — many outgoing paths' },
   'menu-heavy':{ bg: 'bg-rose-500',   border: 'border-rose-500 dark:border-rose-400',  title: 'Menu-heavy — multiple choice menus' },
   'call-heavy':{ bg: 'bg-teal-500',   border: 'border-teal-500 dark:border-teal-400',  title: 'Call-heavy — many incoming calls' },
+  feasible:    { bg: 'bg-emerald-500', border: 'border-emerald-500 dark:border-emerald-400', title: 'Reachable — some path satisfies its conditions' },
+  infeasible:  { bg: 'bg-red-600',    border: 'border-red-600 dark:border-red-500 border-dashed', title: 'Unreachable by condition — every path fails a check' },
+  'condition-unknown': { bg: 'bg-amber-500', border: 'border-amber-500 dark:border-amber-400', title: 'Reachability depends on conditions that cannot be evaluated' },
 };
 
 const LabelBlock: React.FC<LabelBlockProps> = React.memo(({
@@ -47,7 +58,10 @@ const LabelBlock: React.FC<LabelBlockProps> = React.memo(({
   isDimmed,
   overlayHighlight,
   overlayCount,
+  overlayDetail,
   sceneImageUrl,
+  detail = 'full',
+  showPort,
 }) => {
 
   const overlayStyle = overlayHighlight ? OVERLAY_STYLES[overlayHighlight] : null;
@@ -93,6 +107,7 @@ const LabelBlock: React.FC<LabelBlockProps> = React.memo(({
     : overlayStyle
     ? `\n${overlayStyle.title}${overlayCount !== undefined ? ` (${overlayCount})` : ''}`
     : '';
+  const detailTitle = overlayDetail ? `\n${overlayDetail}` : '';
 
   const hasThumbnail = node.sceneImageName !== undefined;
 
@@ -113,7 +128,7 @@ const LabelBlock: React.FC<LabelBlockProps> = React.memo(({
       }}
       onContextMenu={onContextMenu}
       onDoubleClick={() => onOpenEditor(node.blockId, node.startLine)}
-      title={`Label: ${node.label}\nDouble-click to open in editor${roleTitle}`}
+      title={`Label: ${node.label}\nDouble-click to open in editor${roleTitle}${detailTitle}`}
     >
         {isEntry && !isSelected && (
           <span className="absolute -top-1.5 -left-1.5 w-3 h-3 rounded-full bg-green-500 border-2 border-white dark:border-gray-900 pointer-events-none z-10" />
@@ -136,16 +151,22 @@ const LabelBlock: React.FC<LabelBlockProps> = React.memo(({
           </span>
         )}
 
+        {detail === 'title' && (
+          <div className="flex-1 flex items-center px-3 min-w-0">
+            <span className="text-2xl font-semibold font-mono text-gray-800 dark:text-gray-200 truncate">{node.label}</span>
+          </div>
+        )}
+
         {/* Label row */}
-        <div className="flex items-center px-3 space-x-2 flex-shrink-0 border-b border-gray-200 dark:border-gray-700" style={{ height: 40 }}>
+        {detail === 'full' && <div className="flex items-center px-3 space-x-2 flex-shrink-0 border-b border-gray-200 dark:border-gray-700" style={{ height: 40 }}>
           <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-gray-500 flex-shrink-0" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M17.707 9.293a1 1 0 010 1.414l-7 7a1 1 0 01-1.414 0l-7-7A1 1 0 012 10V5a1 1 0 011-1h5a1 1 0 01.707.293l7 7zM5 6a1 1 0 100-2 1 1 0 000 2z" clipRule="evenodd" /></svg>
           <span className="text-sm font-semibold font-mono text-gray-800 dark:text-gray-200 truncate flex-1">
               {node.label}
           </span>
-        </div>
+        </div>}
 
         {/* Scene thumbnail — 16:9 aspect ratio, full image visible */}
-        {hasThumbnail && (
+        {detail === 'full' && hasThumbnail && (
           <div
             className="w-full flex-shrink-0 overflow-hidden"
             style={{ height: node.height - 40 }}
@@ -176,6 +197,14 @@ const LabelBlock: React.FC<LabelBlockProps> = React.memo(({
           </div>
         )}
 
+        {showPort && (
+          <span
+            data-route-port={node.id}
+            className="absolute top-1/2 right-0.5 -translate-y-1/2 w-3.5 h-3.5 rounded-full bg-indigo-500 border-2 border-white dark:border-gray-900 opacity-0 group-hover:opacity-100 transition-opacity cursor-crosshair z-10"
+            title="Drag to another label to add a jump (hold Alt for a call)"
+          />
+        )}
+
         <button
           className="absolute top-0.5 right-0.5 opacity-0 group-hover:opacity-100 transition-opacity p-0.5 rounded text-indigo-400 hover:text-indigo-600 dark:hover:text-indigo-300 z-10"
           onClick={(e) => { e.stopPropagation(); onOpenEditor(node.blockId, node.startLine); }}
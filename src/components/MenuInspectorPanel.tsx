@@ -2,11 +2,12 @@
  * @file MenuInspectorPanel.tsx
  * @description Collapsed/expanded inspector for the selected `menu` node on `RouteCanvas` (~130 lines).
  * Key features: shows all choices with their conditions, target labels, and route colour indicators;
- * click-to-navigate to source line in editor; `embedded` prop for borderless rendering in
+ * click-to-navigate to source line in editor; double-click a choice to rename it in the script;
+ * `embedded` prop for borderless rendering in
  * `CanvasToolbox`; exports `SelectedMenu` and `MenuPopoverChoice` interfaces.
  * Integration: rendered by `RouteCanvas`; selected menu set when the user clicks a menu edge group.
  */
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 
 export interface MenuPopoverChoice {
   choiceText: string;
@@ -35,6 +36,10 @@ interface MenuInspectorPanelProps {
    * Use when embedding inside CanvasToolbox which provides the container.
    */
   embedded?: boolean;
+  /** Rewrites a choice's caption in the script; returns false when the edit was refused */
+  onEditChoiceText?: (choice: MenuPopoverChoice, text: string) => boolean;
+  /** Starts editing the choice at `index` whenever `key` changes (double-click on a menu pill) */
+  editRequest?: { key: number; index: number } | null;
 }
 
 /**
@@ -48,8 +53,28 @@ const MenuInspectorPanel: React.FC<MenuInspectorPanelProps> = ({
   onToggle,
   onOpenEditor,
   embedded = false,
+  onEditChoiceText,
+  editRequest,
 }) => {
   const firstChoice = selectedMenu?.choices[0];
+  const [editing, setEditing] = useState<{ index: number; draft: string } | null>(null);
+
+  useEffect(() => {
+    setEditing(null);
+  }, [selectedMenu?.groupKey]);
+
+  useEffect(() => {
+    const choice = editRequest ? selectedMenu?.choices[editRequest.index] : undefined;
+    if (editRequest && choice && onEditChoiceText) setEditing({ index: editRequest.index, draft: choice.choiceText });
+    // Only a new request key starts editing; later menu updates must not reopen it
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [editRequest?.key]);
+
+  const commitEdit = () => {
+    const choice = editing ? selectedMenu?.choices[editing.index] : undefined;
+    if (!editing || !choice || !onEditChoiceText) return;
+    if (editing.draft === choice.choiceText || onEditChoiceText(choice, editing.draft)) setEditing(null);
+  };
   return (
     <div className={embedded ? 'overflow-hidden' : 'bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 w-64 overflow-hidden'}>
       <button
@@ -90,9 +115,28 @@ const MenuInspectorPanel: React.FC<MenuInspectorPanelProps> = ({
                       {i + 1}
                     </span>
                     <div className="min-w-0">
-                      <p className="text-xs text-gray-900 dark:text-gray-100 leading-snug break-words">
-                        &ldquo;{choice.choiceText}&rdquo;
-                      </p>
+                      {editing?.index === i ? (
+                        <input
+                          autoFocus
+                          value={editing.draft}
+                          onChange={event => setEditing({ index: i, draft: event.target.value })}
+                          onKeyDown={event => {
+                            if (event.key === 'Enter') commitEdit();
+                            if (event.key === 'Escape') setEditing(null);
+                          }}
+                          onBlur={() => setEditing(null)}
+                          aria-label={`Text of choice ${i + 1}`}
+                          className="w-full rounded border border-indigo-400 bg-white dark:bg-gray-900 px-1 py-0.5 text-xs text-gray-900 dark:text-gray-100"
+                        />
+                      ) : (
+                        <p
+                          className="text-xs text-gray-900 dark:text-gray-100 leading-snug break-words"
+                          onDoubleClick={onEditChoiceText && choice.sourceLine !== undefined ? () => setEditing({ index: i, draft: choice.choiceText }) : undefined}
+                          title={onEditChoiceText && choice.sourceLine !== undefined ? 'Double-click to edit the choice text' : undefined}
+                        >
+                          &ldquo;{choice.choiceText}&rdquo;
+                        </p>
+                      )}
                       {choice.choiceCondition && (
                         <span className="mt-1 text-xs font-mono text-amber-600 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/30 rounded px-1 py-px inline-block">
                           if {choice.choiceCondition}
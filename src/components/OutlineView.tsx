@@ -0,0 +1,95 @@
+/**
+ * @file OutlineView.tsx
+ * @description Collapsible symbol tree for the active .rpy file (~110 lines).
+ * Key features: labels, menus with their choices, screens, transforms, `init python`
+ * blocks, image and character definitions; highlights the innermost symbol containing
+ * the cursor; click navigates to the symbol's line.
+ * Integration: rendered by `StoryElementsPanel` in the Outline sub-tab; symbols come
+ * from `buildDocumentSymbols` in `lib/renpyDocumentSymbols`.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { findSymbolPathAtLine } from '@/lib/renpyDocumentSymbols';
+import type { RenpyDocumentSymbol, RenpyDocumentSymbolKind } from '@/lib/renpyDocumentSymbols';
+
+interface OutlineViewProps {
+    symbols: RenpyDocumentSymbol[];
+    /** 1-based cursor line in the active editor, used to highlight the enclosing symbol */
+    activeLine?: number;
+    onSelectSymbol: (symbol: RenpyDocumentSymbol) => void;
+}
+
+const KIND_BADGES: Record<RenpyDocumentSymbolKind, { letter: string; className: string }> = {
+    label: { letter: 'L', className: 'bg-indigo-500' },
+    menu: { letter: 'M', className: 'bg-amber-500' },
+    choice: { letter: 'C', className: 'bg-amber-400' },
+    screen: { letter: 'S', className: 'bg-teal-500' },
+    transform: { letter: 'T', className: 'bg-purple-500' },
+    python: { letter: 'P', className: 'bg-sky-600' },
+    image: { letter: 'I', className: 'bg-pink-500' },
+    character: { letter: 'D', className: 'bg-green-600' },
+};
+
+const symbolKey = (symbol: RenpyDocumentSymbol) => `${symbol.startLine}:${symbol.name}`;
+
+const OutlineView: React.FC<OutlineViewProps> = ({ symbols, activeLine, onSelectSymbol }) => {
+    const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+    const activeKey = useMemo(() => {
+        if (!activeLine) return null;
+        const path = findSymbolPathAtLine(symbols, activeLine);
+        return path.length > 0 ? symbolKey(path[path.length - 1]) : null;
+    }, [symbols, activeLine]);
+
+    const toggleCollapsed = (key: string) => {
+        setCollapsed(prev => {
+            const next = new Set(prev);
+            if (next.has(key)) {
+                next.delete(key);
+            } else {
+                next.add(key);
+            }
+            return next;
+        });
+    };
+
+    const renderSymbol = (symbol: RenpyDocumentSymbol, depth: number): React.ReactNode => {
+        const key = symbolKey(symbol);
+        const hasChildren = symbol.children.length > 0;
+        const isCollapsed = collapsed.has(key);
+        const badge = KIND_BADGES[symbol.kind];
+        return (
+            <div key={key}>
+                <div
+                    onClick={() => onSelectSymbol(symbol)}
+                    style={{ paddingLeft: depth * 12 + 4 }}
+                    className={`flex items-center py-0.5 pr-2 rounded cursor-pointer text-sm ${
+                        key === activeKey ? 'bg-accent/10 text-accent' : 'hover:bg-primary/5'
+                    }`}
+                    title={`${symbol.kind} · line ${symbol.startLine}`}
+                >
+                    <button
+                        onClick={(e) => { e.stopPropagation(); if (hasChildren) toggleCollapsed(key); }}
+                        className={`w-4 h-4 flex-shrink-0 flex items-center justify-center text-secondary ${hasChildren ? '' : 'invisible'}`}
+                        aria-label={isCollapsed ? 'Expand' : 'Collapse'}
+                    >
+                        <svg xmlns="http://www.w3.org/2000/svg" className={`h-3 w-3 transition-transform ${isCollapsed ? '' : 'rotate-90'}`} viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M7.293 14.707a1 1 0 010-1.414L10.586 10 7.293 6.707a1 1 0 011.414-1.414l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0z" clipRule="evenodd" /></svg>
+                    </button>
+                    <span className={`w-4 h-4 mx-1 flex-shrink-0 rounded text-[10px] font-bold text-white flex items-center justify-center ${badge.className}`}>{badge.letter}</span>
+                    <span className={`truncate ${symbol.kind === 'choice' ? 'italic' : 'font-mono text-xs'}`}>{symbol.name}</span>
+                    {symbol.detail && <span className="ml-2 text-xs text-secondary font-mono truncate">{symbol.detail}</span>}
+                    <span className="ml-auto pl-2 text-xs text-secondary flex-shrink-0">{symbol.startLine}</span>
+                </div>
+                {hasChildren && !isCollapsed && symbol.children.map(child => renderSymbol(child, depth + 1))}
+            </div>
+        );
+    };
+
+    if (symbols.length === 0) {
+        return <p className="text-sm text-secondary italic">No labels, menus, screens or definitions in this file.</p>;
+    }
+
+    return <div>{symbols.map(symbol => renderSymbol(symbol, 0))}</div>;
+};
+
+export default OutlineView;
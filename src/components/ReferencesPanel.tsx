@@ -0,0 +1,115 @@
+/**
+ * @file ReferencesPanel.tsx
+ * @description "Find All References" results view for the left sidebar.
+ * Lists the definition and every reference of a label, character, variable,
+ * screen or image, grouped by file with line previews. Clicking a row opens
+ * the file at that line, matching the behaviour of SearchPanel results.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { groupReferencesByFile } from '@/lib/renpyReferences';
+import type { ReferenceTarget, SymbolReference } from '@/lib/renpyReferences';
+
+interface ReferencesPanelProps {
+    target: ReferenceTarget | null;
+    references: SymbolReference[];
+    onResultClick: (blockId: string, lineNumber: number) => void;
+    onClear: () => void;
+}
+
+const HighlightedLine: React.FC<{ line: string, start: number, end: number }> = ({ line, start, end }) => {
+    const prefix = line.substring(0, start - 1);
+    const match = line.substring(start - 1, end - 1);
+    const suffix = line.substring(end - 1);
+    return (
+        <p className="truncate">
+            <span className="opacity-70">{prefix}</span>
+            <span className="bg-yellow-200 dark:bg-yellow-700/50 rounded-sm">{match}</span>
+            <span className="opacity-70">{suffix}</span>
+        </p>
+    );
+};
+
+const ReferencesPanel: React.FC<ReferencesPanelProps> = ({ target, references, onResultClick, onClear }) => {
+    const groups = useMemo(() => groupReferencesByFile(references), [references]);
+    const [expandedFiles, setExpandedFiles] = useState<Set<string>>(new Set());
+
+    // Auto-expand every file whenever the results change
+    useEffect(() => {
+        setExpandedFiles(new Set(groups.map(g => g.blockId)));
+    }, [groups]);
+
+    const toggleExpandFile = (blockId: string) => {
+        setExpandedFiles(prev => {
+            const next = new Set(prev);
+            if (next.has(blockId)) {
+                next.delete(blockId);
+            } else {
+                next.add(blockId);
+            }
+            return next;
+        });
+    };
+
+    return (
+        <aside className="w-full h-full bg-white dark:bg-gray-800 flex flex-col z-10">
+            <div className="flex-none p-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+                <h2 className="text-xl font-bold">References</h2>
+                {target && (
+                    <button
+                        onClick={onClear}
+                        title="Clear References"
+                        className="p-1 rounded text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                    >
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
+                    </button>
+                )}
+            </div>
+            <div className="flex-1 min-h-0 p-2 overflow-y-auto overscroll-contain">
+                {!target && (
+                    <p className="text-sm text-gray-500 dark:text-gray-400 px-2">
+                        Right-click a label, character, variable, screen or image in the editor and choose Find All References.
+                    </p>
+                )}
+                {target && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400 px-2 pb-2">
+                        {references.length} reference{references.length !== 1 ? 's' : ''} to {target.kind} <span className="font-mono text-gray-700 dark:text-gray-200">{target.name}</span> in {groups.length} file{groups.length !== 1 ? 's' : ''}
+                    </p>
+                )}
+                {groups.map(group => (
+                    <div key={group.blockId}>
+                        <button onClick={() => toggleExpandFile(group.blockId)} className="w-full flex items-center text-left py-1 px-2 rounded hover:bg-gray-100 dark:hover:bg-gray-700">
+                            <svg xmlns="http://www.w3.org/2000/svg" className={`h-4 w-4 mr-1 transition-transform ${expandedFiles.has(group.blockId) ? 'rotate-90' : ''}`} viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M7.293 14.707a1 1 0 010-1.414L10.586 10 7.293 6.707a1 1 0 011.414-1.414l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0z" clipRule="evenodd" /></svg>
+                            <span className="font-semibold text-sm truncate">{group.filePath}</span>
+                            <span className="ml-2 text-xs text-gray-400 bg-gray-200 dark:bg-gray-600 rounded-full px-1.5">{group.references.length}</span>
+                        </button>
+                        {expandedFiles.has(group.blockId) && (
+                            <div className="pl-4">
+                                {group.references.map(reference => (
+                                    <div
+                                        key={`${group.blockId}-${reference.lineNumber}`}
+                                        onClick={() => onResultClick(group.blockId, reference.lineNumber)}
+                                        className="flex items-start text-sm py-0.5 px-2 rounded cursor-pointer hover:bg-indigo-100 dark:hover:bg-indigo-900/50"
+                                    >
+                                        <span className="w-12 text-right text-gray-400 dark:text-gray-500 pr-2 flex-shrink-0">{reference.lineNumber}:</span>
+                                        <div className="font-mono text-xs flex-grow min-w-0">
+                                            <HighlightedLine line={reference.lineContent} start={reference.startColumn} end={reference.endColumn} />
+                                        </div>
+                                        {reference.isDefinition && (
+                                            <span className="ml-2 flex-shrink-0 text-[10px] uppercase tracking-wide text-indigo-500 dark:text-indigo-300">def</span>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                ))}
+                {target && references.length === 0 && (
+                    <p className="text-sm text-gray-500 dark:text-gray-400 px-2">No references found.</p>
+                )}
+            </div>
+        </aside>
+    );
+};
+
+export default ReferencesPanel;
@@ -0,0 +1,164 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useModalAccessibility } from '@/hooks/useModalAccessibility';
+import { useDebounce } from '@/hooks/useDebounce';
+import { computeRenameEdits, validateRenameName } from '@/lib/renpyRename';
+import type { RenameFileEdit, RenameSourceBlock, RenameSymbolIndex, RenameSymbolTarget } from '@/lib/renpyRename';
+
+interface RenameSymbolModalProps {
+  isOpen: boolean;
+  target: RenameSymbolTarget | null;
+  blocks: RenameSourceBlock[];
+  analysisResult: RenameSymbolIndex;
+  onClose: () => void;
+  onApply: (target: RenameSymbolTarget, newName: string, edits: RenameFileEdit[]) => void;
+}
+
+const KIND_LABELS: Record<RenameSymbolTarget['kind'], string> = {
+  label: 'label',
+  character: 'character',
+  screen: 'screen',
+  variable: 'variable',
+};
+
+const RenameSymbolModal: React.FC<RenameSymbolModalProps> = ({
+  isOpen,
+  target,
+  blocks,
+  analysisResult,
+  onClose,
+  onApply,
+}) => {
+  const [newName, setNewName] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { modalProps, contentRef } = useModalAccessibility({ isOpen, onClose, titleId: 'rename-symbol-title' });
+  const debouncedName = useDebounce(newName.trim(), 150);
+
+  useEffect(() => {
+    if (!isOpen || !target) return;
+    setNewName(target.name);
+    setTimeout(() => inputRef.current?.select(), 0);
+  }, [isOpen, target]);
+
+  const validationError = useMemo(
+    () => (target ? validateRenameName(target, newName.trim(), analysisResult) : null),
+    [target, newName, analysisResult],
+  );
+
+  const edits = useMemo(() => {
+    if (!target || !debouncedName || validateRenameName(target, debouncedName, analysisResult)) return [];
+    return computeRenameEdits(blocks, target, debouncedName);
+  }, [target, debouncedName, blocks, analysisResult]);
+
+  const changeCount = useMemo(() => edits.reduce((sum, edit) => sum + edit.changes.length, 0), [edits]);
+  const isPreviewCurrent = debouncedName === newName.trim();
+  const canApply = !validationError && isPreviewCurrent && edits.length > 0;
+
+  if (!isOpen || !target) return null;
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (canApply) onApply(target, debouncedName, edits);
+  };
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-[220] flex items-center justify-center bg-black/60 p-4"
+      onMouseDown={(event) => {
+        if (event.target === event.currentTarget) onClose();
+      }}
+      {...modalProps}
+    >
+      <div
+        ref={contentRef}
+        className="w-full max-w-3xl overflow-hidden rounded-xl border border-gray-700 bg-gray-900 text-gray-100 shadow-2xl"
+        onMouseDown={event => event.stopPropagation()}
+      >
+        <header className="border-b border-gray-800 px-5 py-4">
+          <h2 id="rename-symbol-title" className="text-lg font-semibold">Rename Symbol</h2>
+          <p className="mt-1 text-sm text-gray-400">
+            Rename the {KIND_LABELS[target.kind]} <code className="rounded bg-gray-800 px-1 py-0.5 font-mono text-xs">{target.name}</code> and update every definition and reference in the project.
+          </p>
+        </header>
+
+        <form onSubmit={handleSubmit}>
+          <main className="max-h-[68vh] overflow-y-auto px-5 py-4">
+            <label className="block text-sm font-semibold text-gray-200" htmlFor="rename-symbol-input">New name</label>
+            <input
+              id="rename-symbol-input"
+              ref={inputRef}
+              type="text"
+              value={newName}
+              onChange={event => setNewName(event.target.value)}
+              className="mt-2 w-full rounded-md border border-gray-700 bg-gray-900 px-3 py-2 font-mono text-sm text-gray-100 outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
+              spellCheck={false}
+              autoComplete="off"
+            />
+            {validationError && newName.trim() !== target.name && (
+              <p className="mt-2 text-xs text-red-400">{validationError}</p>
+            )}
+
+            {!validationError && isPreviewCurrent && (
+              <section className="mt-5 space-y-3">
+                <h3 className="text-sm font-semibold text-gray-200">Preview</h3>
+                {edits.length === 0 ? (
+                  <div className="rounded-lg border border-dashed border-gray-700 bg-gray-950/30 px-4 py-6 text-sm text-gray-400">
+                    No occurrences of {target.name} were found.
+                  </div>
+                ) : edits.map(edit => (
+                  <div key={edit.blockId} className="overflow-hidden rounded-lg border border-gray-800 bg-gray-950/40">
+                    <div className="flex items-center justify-between border-b border-gray-800 px-3 py-2">
+                      <span className="truncate font-mono text-xs text-gray-300">{edit.filePath || edit.title || edit.blockId}</span>
+                      <span className="ml-2 flex-none text-xs text-gray-500">{edit.changes.length} change{edit.changes.length === 1 ? '' : 's'}</span>
+                    </div>
+                    <div className="font-mono text-xs">
+                      {edit.changes.map(change => (
+                        <div key={change.line} className="border-b border-gray-800/60 last:border-b-0">
+                          <div className="flex bg-red-950/40 text-red-200">
+                            <span className="w-12 flex-none select-none pr-2 text-right text-gray-500">{change.line}</span>
+                            <span className="w-4 flex-none select-none">-</span>
+                            <span className="whitespace-pre">{change.before}</span>
+                          </div>
+                          <div className="flex bg-green-950/40 text-green-200">
+                            <span className="w-12 flex-none select-none pr-2 text-right text-gray-500">{change.line}</span>
+                            <span className="w-4 flex-none select-none">+</span>
+                            <span className="whitespace-pre">{change.after}</span>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </section>
+            )}
+          </main>
+
+          <footer className="flex items-center justify-between gap-3 border-t border-gray-800 bg-gray-950/70 px-5 py-4">
+            <span className="text-xs text-gray-500">
+              {canApply ? `${changeCount} change${changeCount === 1 ? '' : 's'} in ${edits.length} file${edits.length === 1 ? '' : 's'}` : ''}
+            </span>
+            <div className="flex items-center gap-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="rounded-md border border-gray-700 bg-gray-800 px-4 py-2 text-sm font-medium text-gray-100 hover:bg-gray-700"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!canApply}
+                className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-semibold text-white hover:bg-indigo-700 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                Rename
+              </button>
+            </div>
+          </footer>
+        </form>
+      </div>
+    </div>,
+    document.body,
+  );
+};
+
+export default RenameSymbolModal;
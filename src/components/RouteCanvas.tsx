@@ -3,8 +3,12 @@
  * @description Label-by-label narrative flow visualization (521 lines).
  * Shows each label as a node and traces execution paths through the story.
  * Displays different routes in different colors for visual analysis of story paths.
- * Supports pan, zoom, drag labels, and navigation to editor.
+ * Supports pan, zoom, drag labels, navigation to editor, and SVG/PNG/PDF export.
  * Uses graph layout algorithm to arrange nodes without overlap.
+ * Renders only what is in view, with less detail the further out it is zoomed; large views
+ * are drawn on a 2D canvas (`RouteCanvasRaster`) with links between files bundled.
+ * The story flow can be edited in place: drag from a node's port to add a jump (Alt for a
+ * call), delete links, add labels and rename menu choices; App patches the script.
  */
 
 import React, { useState, useRef, useCallback, useMemo, useEffect } from 'react';
@@ -15,20 +19,30 @@ import Minimap from './Minimap';
 import CanvasLayoutControls from './CanvasLayoutControls';
 import CanvasToolbox from './CanvasToolbox';
 import CanvasNavControls from './CanvasNavControls';
+import CanvasExportModal from './CanvasExportModal';
 import MenuInspectorPanel from './MenuInspectorPanel';
 import type { SelectedMenu, MenuPopoverChoice } from './MenuInspectorPanel';
 import StickyNoteComponent from './StickyNote';
 import CanvasContextMenu from './CanvasContextMenu';
 import CanvasNodeContextMenu from './CanvasNodeContextMenu';
+import RouteCanvasRaster from './RouteCanvasRaster';
+import type { RasterEdge, RasterNode } from './RouteCanvasRaster';
 import type { MinimapItem } from './Minimap';
-import type { LabelNode, RouteLink, Position, IdentifiedRoute, MouseGestureSettings, StoryCanvasGroupingMode, StoryCanvasLayoutMode, StickyNote, ProjectImage } from '@/types';
+import type { LabelNode, RouteLink, Position, IdentifiedRoute, RouteSimulation, MouseGestureSettings, StoryCanvasGroupingMode, StoryCanvasLayoutMode, StickyNote, ProjectImage } from '@/types';
 import { computeRouteCanvasLayout } from '@/lib/routeCanvasLayout';
+import { buildImageUrlLookup } from '@/lib/renpyHover';
+import type { CanvasExportScene, ExportNode } from '@/lib/canvasExport';
+import { buildFileGraph, buildFileStoryGraph, buildLabelStoryGraph, type StoryGraphScope } from '@/lib/storyGraphFormats';
+import { DOM_NODE_BUDGET, bundleLinks, cullLinks, cullNodes, getDetailLevel, getViewportWorldRect, hitTestNode } from '@/lib/canvasLod';
 
 interface RouteCanvasProps {
   labelNodes: LabelNode[];
   routeLinks: RouteLink[];
   identifiedRoutes: IdentifiedRoute[];
-  routesTruncated?: boolean;
+  /** Paths across all endings, from the path analysis */
+  totalPathCount?: bigint;
+  /** Variable-aware feasibility of nodes, links and routes; drives the Conditions overlay */
+  routeSimulation?: RouteSimulation;
   stickyNotes: StickyNote[];
   projectImages: Map<string, ProjectImage>;
   updateLabelNodePositions: (updates: { id: string, position: Position }[]) => void;
@@ -46,6 +60,19 @@ interface RouteCanvasProps {
   onWarpToLabel: (labelName: string) => void;
   centerOnStartRequest?: { key: number } | null;
   centerOnNodeRequest?: { nodeId: string; key: number } | null;
+  /** Opens the export dialog whenever `key` changes (File → Export Canvas) */
+  exportRequest?: { key: number } | null;
+  addToast?: (message: string, type?: 'success' | 'error' | 'warning' | 'info') => void;
+  /** Adds a `jump`/`call` to the target at the end of the source label; enables the node ports */
+  onCreateLink?: (sourceId: string, targetId: string, kind: 'jump' | 'call') => void;
+  /** Removes the statement behind a jump or call link */
+  onDeleteLink?: (link: RouteLink) => void;
+  /** Appends a stub label to a file and places its node at `position`; false keeps the form open */
+  onCreateLabel?: (blockId: string, name: string, position: Position) => boolean;
+  /** Rewrites the caption of the menu choice holding the jump on `sourceLine` */
+  onEditChoiceText?: (blockId: string, sourceLine: number, text: string) => boolean;
+  /** Files a new label can be created in */
+  scriptFiles?: { blockId: string; name: string }[];
 }
 
 interface Rect { x: number; y: number; width: number; height: number; }
@@ -61,12 +88,30 @@ interface EdgeContextMenuState {
   link: RouteLink;
 }
 
+interface NewLabelDraft {
+  x: number;
+  y: number;
+  worldPos: Position;
+  name: string;
+  blockId: string;
+}
+
+interface ConnectPreview {
+  sourceId: string;
+  to: Position;
+  targetId: string | null;
+  kind: 'jump' | 'call';
+}
+
 interface NodeContextMenuState {
   x: number;
   y: number;
   node: LabelNode;
 }
 
+/** Most selected nodes kept in the DOM while the 2D canvas renders the rest */
+const MAX_PINNED_NODES = 50;
+
 const getAttachmentPoint = (node: LabelNode, side: 'left' | 'right' | 'top' | 'bottom'): Position => {
     switch(side) {
         case 'left': return { x: node.position.x, y: node.position.y + node.height / 2 };
@@ -131,6 +176,34 @@ const getOptimalPath = (sourceNode: LabelNode, targetNode: LabelNode): [Position
     return bestPath;
 };
 
+/** Cubic curve between two attachment points, bending along the main direction of travel. */
+const getLinkPathData = (sourcePos: Position, targetPos: Position): string => {
+    const isVertical = Math.abs(targetPos.y - sourcePos.y) > Math.abs(targetPos.x - sourcePos.x);
+    if (isVertical) {
+        const midY = sourcePos.y + (targetPos.y - sourcePos.y) / 2;
+        return `M${sourcePos.x},${sourcePos.y} C${sourcePos.x},${midY} ${targetPos.x},${midY} ${targetPos.x},${targetPos.y}`;
+    }
+    const midX = sourcePos.x + (targetPos.x - sourcePos.x) / 2;
+    return `M${sourcePos.x},${sourcePos.y} C${midX},${sourcePos.y} ${midX},${targetPos.y} ${targetPos.x},${targetPos.y}`;
+};
+
+/** Border colours of the node overlays, matching `LabelBlock`'s light theme */
+const OVERLAY_EXPORT_COLORS: Record<NodeOverlay['highlight'], string> = {
+  hub: '#0ea5e9',
+  branch: '#8b5cf6',
+  'menu-heavy': '#f43f5e',
+  'call-heavy': '#14b8a6',
+  feasible: '#10b981',
+  infeasible: '#dc2626',
+  'condition-unknown': '#f59e0b',
+};
+
+interface NodeOverlay {
+  highlight: 'hub' | 'branch' | 'menu-heavy' | 'call-heavy' | 'feasible' | 'infeasible' | 'condition-unknown';
+  count?: number;
+  detail?: string;
+}
+
 const Arrow: React.FC<{
   link: RouteLink;
   sourcePos: Position;
@@ -144,19 +217,7 @@ const Arrow: React.FC<{
   onOpenContextMenu: (event: React.MouseEvent<SVGGElement>, link: RouteLink) => void;
 }> = ({ link, sourcePos, targetPos, sourceNode, targetNode, type, color, isDimmed, onFollow, onOpenContextMenu }) => {
     const [isHovered, setIsHovered] = useState(false);
-    const isVertical = Math.abs(targetPos.y - sourcePos.y) > Math.abs(targetPos.x - sourcePos.x);
-
-    let pathData: string;
-
-    if (isVertical) {
-        const dy = targetPos.y - sourcePos.y;
-        const midY = sourcePos.y + dy / 2;
-        pathData = `M${sourcePos.x},${sourcePos.y} C${sourcePos.x},${midY} ${targetPos.x},${midY} ${targetPos.x},${targetPos.y}`;
-    } else {
-        const dx = targetPos.x - sourcePos.x;
-        const midX = sourcePos.x + dx / 2;
-        pathData = `M${sourcePos.x},${sourcePos.y} C${midX},${sourcePos.y} ${midX},${targetPos.y} ${targetPos.x},${targetPos.y}`;
-    }
+    const pathData = getLinkPathData(sourcePos, targetPos);
 
     return (
         <g
@@ -205,13 +266,15 @@ const MenuPill: React.FC<{
   color: string;
   isActive: boolean;
   onClick: (e: React.MouseEvent<SVGGElement>) => void;
-}> = ({ cx, cy, count, color, isActive, onClick }) => {
+  onDoubleClick?: (e: React.MouseEvent<SVGGElement>) => void;
+}> = ({ cx, cy, count, color, isActive, onClick, onDoubleClick }) => {
   const R = 11;
   return (
     <g
       style={{ pointerEvents: 'auto', cursor: 'pointer' }}
       onPointerDown={e => e.stopPropagation()}
       onClick={onClick}
+      onDoubleClick={onDoubleClick}
     >
       <circle cx={cx} cy={cy} r={R + 4} fill="transparent" />
       {isActive && <circle cx={cx} cy={cy} r={R + 3} fill="none" stroke="white" strokeWidth={2.5} opacity={0.85} />}
@@ -232,6 +295,20 @@ const MenuPill: React.FC<{
   );
 };
 
+/** Link being dragged out of a node's port, snapped to the label under the pointer. */
+const ConnectionLine: React.FC<{ source: LabelNode; target: LabelNode | null; to: Position; kind: 'jump' | 'call' }> = ({ source, target, to, kind }) => {
+    const from = getAttachmentPoint(source, 'right');
+    const end = target ? getAttachmentPoint(target, 'left') : to;
+    const color = target ? '#4f46e5' : '#94a3b8';
+    return (
+        <svg className="absolute pointer-events-none" style={{ left: 0, top: 0, width: 1, height: 1, overflow: 'visible', zIndex: 25 }}>
+            <path d={getLinkPathData(from, end)} stroke={color} strokeWidth={3} strokeDasharray="8, 6" fill="none" />
+            {kind === 'call' && <circle cx={from.x} cy={from.y} r={5} fill="none" stroke={color} strokeWidth={2.5} />}
+            <circle cx={end.x} cy={end.y} r={4} fill={color} />
+        </svg>
+    );
+};
+
 const RubberBand: React.FC<{ rect: Rect }> = ({ rect }) => {
     if (!rect) return null;
     return (
@@ -295,6 +372,7 @@ type InteractionState =
   | { type: 'idle' }
   | { type: 'panning'; }
   | { type: 'rubber-band'; start: Position; }
+  | { type: 'connecting'; sourceId: string; }
   | { type: 'dragging-nodes';
       dragStartPositions: Map<string, Position>;
       nodeEls: Map<string, HTMLElement>;
@@ -305,7 +383,8 @@ const RouteCanvas: React.FC<RouteCanvasProps> = ({
   labelNodes: rawLabelNodes,
   routeLinks: rawRouteLinks,
   identifiedRoutes,
-  routesTruncated,
+  totalPathCount,
+  routeSimulation,
   stickyNotes,
   updateLabelNodePositions,
   onAddStickyNote,
@@ -323,6 +402,13 @@ const RouteCanvas: React.FC<RouteCanvasProps> = ({
   centerOnStartRequest,
   centerOnNodeRequest,
   projectImages,
+  exportRequest,
+  addToast,
+  onCreateLink,
+  onDeleteLink,
+  onCreateLabel,
+  onEditChoiceText,
+  scriptFiles = [],
 }) => {
   const [rubberBandRect, setRubberBandRect] = useState<Rect | null>(null);
   const [isDraggingSelection, setIsDraggingSelection] = useState(false);
@@ -331,6 +417,7 @@ const RouteCanvas: React.FC<RouteCanvasProps> = ({
   const [selectedMenu, setSelectedMenu] = useState<SelectedMenu | null>(null);
   const [isMenuPanelOpen, setIsMenuPanelOpen] = useState(false);
   const [showLegend, setShowLegend] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
   const [edgeContextMenu, setEdgeContextMenu] = useState<EdgeContextMenuState | null>(null);
   const [nodeContextMenu, setNodeContextMenu] = useState<NodeContextMenuState | null>(null);
   const [canvasContextMenu, setCanvasContextMenu] = useState<{ x: number; y: number; worldPos: Position } | null>(null);
@@ -347,9 +434,12 @@ const RouteCanvas: React.FC<RouteCanvasProps> = ({
   const [traceChooserLinks, setTraceChooserLinks] = useState<RouteLink[]>([]);
   const [selectedEdge, setSelectedEdge] = useState<RouteLink | null>(null);
   const [viewLevel, setViewLevel] = useState<'label' | 'file'>('label');
+  const [connectPreview, setConnectPreview] = useState<ConnectPreview | null>(null);
+  const [newLabelDraft, setNewLabelDraft] = useState<NewLabelDraft | null>(null);
+  const [menuEditRequest, setMenuEditRequest] = useState<{ key: number; index: number } | null>(null);
 
   // ── Phase 4: Narrative risk overlays + edge filters ──
-  const [overlayMode, setOverlayMode] = useState<'none' | 'hubs' | 'branch-points' | 'menu-heavy' | 'call-heavy'>('none');
+  const [overlayMode, setOverlayMode] = useState<'none' | 'hubs' | 'branch-points' | 'menu-heavy' | 'call-heavy' | 'conditions'>('none');
   const [hideImplicit, setHideImplicit] = useState(false);
   const [showOnlyCalls, setShowOnlyCalls] = useState(false);
 
@@ -373,56 +463,15 @@ const RouteCanvas: React.FC<RouteCanvasProps> = ({
 
   // Normalized scene-name → dataUrl lookup for thumbnail rendering.
   // Ren'Py derives image tags from subpath after images/: "bg/academy_gate.png" → "bg academy_gate"
-  const sceneImageLookup = useMemo(() => {
-    const map = new Map<string, string>();
-    projectImages.forEach((img) => {
-      if (!img.dataUrl) return;
-      const imagesIdx = img.filePath.toLowerCase().indexOf('/images/');
-      if (imagesIdx === -1) return;
-      const rel = img.filePath.slice(imagesIdx + '/images/'.length);
-      const renpyTag = rel.replace(/\.[^.]+$/, '').replace(/\//g, ' ').toLowerCase();
-      map.set(renpyTag, img.dataUrl);
-    });
-    return map;
-  }, [projectImages]);
+  const sceneImageLookup = useMemo(() => buildImageUrlLookup(projectImages.values()), [projectImages]);
   const [canvasDimensions, setCanvasDimensions] = useState({ width: 0, height: 0 });
 
   // File-view graph: one node per file, one edge per cross-file transition
   const fileGraph = useMemo(() => {
     if (viewLevel === 'label') return null;
-    const fileGroups = new Map<string, LabelNode[]>();
-    labelNodes.forEach(node => {
-      const group = fileGroups.get(node.blockId) ?? [];
-      group.push(node);
-      fileGroups.set(node.blockId, group);
-    });
-    const fileNodes: LabelNode[] = Array.from(fileGroups.entries()).map(([blockId, groupNodes]) => ({
-      id: blockId,
-      label: (groupNodes[0].containerName ?? blockId).replace(/\.[^.]+$/, ''),
-      blockId,
-      containerName: groupNodes[0].containerName,
-      startLine: 1,
-      position: { x: 0, y: 0 },
-      width: 240,
-      height: 80,
-    }));
-    const fileLinkMap = new Map<string, RouteLink>();
-    routeLinks.forEach(link => {
-      const src = labelNodeMap.get(link.sourceId);
-      const tgt = labelNodeMap.get(link.targetId);
-      if (!src || !tgt || src.blockId === tgt.blockId) return;
-      const key = `${src.blockId}->${tgt.blockId}`;
-      if (!fileLinkMap.has(key)) {
-        fileLinkMap.set(key, { id: key, sourceId: src.blockId, targetId: tgt.blockId, type: link.type });
-      }
-    });
-    const fileLinks = Array.from(fileLinkMap.values());
-    const layoutedNodes = computeRouteCanvasLayout(fileNodes, fileLinks, layoutMode, groupingMode);
-    const labelCountByFile = new Map<string, number>(
-      Array.from(fileGroups.entries()).map(([id, g]) => [id, g.length])
-    );
-    return { nodes: layoutedNodes, links: fileLinks, labelCountByFile };
-  }, [viewLevel, labelNodes, routeLinks, labelNodeMap, layoutMode, groupingMode]);
+    const { nodes, links, labelCountByFile } = buildFileGraph(labelNodes, routeLinks);
+    return { nodes: computeRouteCanvasLayout(nodes, links, layoutMode, groupingMode), links, labelCountByFile };
+  }, [viewLevel, labelNodes, routeLinks, layoutMode, groupingMode]);
 
   // View-aware node map: label IDs in label view, blockIds in file view
   const nodeMap = useMemo(() =>
@@ -435,6 +484,7 @@ const RouteCanvas: React.FC<RouteCanvasProps> = ({
   const closeTransientUi = useCallback(() => {
     setEdgeContextMenu(null);
     setCanvasContextMenu(null);
+    setNewLabelDraft(null);
     setShowRouteSearchResults(false);
     setChooserMode(null);
     setTraceChooserLinks([]);
@@ -450,23 +500,17 @@ const RouteCanvas: React.FC<RouteCanvasProps> = ({
     setCanvasContextMenu({ x: e.clientX, y: e.clientY, worldPos: { x: worldX, y: worldY } });
   }, [transform]);
 
-  // Derive start→end label names for each identified route
+  // Derive the label names along each identified route
   const routeLabels = useMemo(() => {
-    const map = new Map<number, { startLabel: string; endLabel: string }>();
+    const map = new Map<number, { startLabel: string; viaLabels: string[]; endLabel: string }>();
     const toLabel = (id: string) => nodeMap.get(id)?.label ?? id.split(':').slice(1).join(':');
     identifiedRoutes.forEach(route => {
-      const links = routeLinks.filter(l => route.linkIds.has(l.id));
-      if (links.length === 0) return;
-      const sourceIds = new Set(links.map(l => l.sourceId));
-      const targetIds = new Set(links.map(l => l.targetId));
-      const startCandidates = [...sourceIds].filter(id => !targetIds.has(id));
-      const endCandidates = [...targetIds].filter(id => !sourceIds.has(id));
-      const startLabel = startCandidates.length > 0 ? toLabel(startCandidates[0]) : toLabel(links[0].sourceId);
-      const endLabel = endCandidates.length > 0 ? toLabel(endCandidates[endCandidates.length - 1]) : toLabel(links[links.length - 1].targetId);
-      map.set(route.id, { startLabel, endLabel });
+      if (route.nodeIds.length === 0) return;
+      const labels = route.nodeIds.map(toLabel);
+      map.set(route.id, { startLabel: labels[0], viaLabels: labels.slice(1, -1), endLabel: labels[labels.length - 1] });
     });
     return map;
-  }, [identifiedRoutes, routeLinks, nodeMap]);
+  }, [identifiedRoutes, nodeMap]);
 
   // Entry node: the canonical 'start' label (Ren'Py convention)
   const entryNodeId = useMemo(() =>
@@ -747,14 +791,57 @@ const RouteCanvas: React.FC<RouteCanvasProps> = ({
     });
   }, []);
 
+  // ── Level of detail: cull to the viewport, then render in the DOM or on a 2D canvas ──
+  const detailLevel = getDetailLevel(transform.scale);
+  const displayNodes = useMemo(
+    () => (viewLevel === 'file' && fileGraph ? fileGraph.nodes : labelNodes),
+    [viewLevel, fileGraph, labelNodes],
+  );
+  const viewportRect = useMemo(() => getViewportWorldRect(transform, canvasDimensions), [transform, canvasDimensions]);
+  const visibleNodes = useMemo(() => cullNodes(displayNodes, viewportRect), [displayNodes, viewportRect]);
+  const visibleLinks = useMemo(() => cullLinks(renderedLinks, nodeMap, viewportRect), [renderedLinks, nodeMap, viewportRect]);
+  const useRaster = detailLevel === 'dot' || visibleNodes.length > DOM_NODE_BUDGET;
+  // Selected nodes stay in the DOM on the raster path so they keep focus and their aria-labels
+  const domNodes = useMemo(() => {
+    const pinned = new Set(selectedNodeIds.slice(0, MAX_PINNED_NODES));
+    if (useRaster) return displayNodes.filter(node => pinned.has(node.id));
+    const visibleIds = new Set(visibleNodes.map(node => node.id));
+    return displayNodes.filter(node => visibleIds.has(node.id) || pinned.has(node.id));
+  }, [useRaster, displayNodes, visibleNodes, selectedNodeIds]);
+  const domLinks = useRaster ? [] : visibleLinks;
+  const domNodeIds = useMemo(() => new Set(domNodes.map(node => node.id)), [domNodes]);
+
+  // Centres a node that is not fully in view, keeping the zoom
+  const revealNode = useCallback((node: LabelNode) => {
+    const { width, height } = canvasDimensions;
+    const left = node.position.x * transform.scale + transform.x;
+    const top = node.position.y * transform.scale + transform.y;
+    if (left >= 0 && top >= 0 && left + node.width * transform.scale <= width && top + node.height * transform.scale <= height) return;
+    onTransformChange(t => ({
+      ...t,
+      x: width / 2 - (node.position.x + node.width / 2) * t.scale,
+      y: height / 2 - (node.position.y + node.height / 2) * t.scale,
+    }));
+  }, [canvasDimensions, transform, onTransformChange]);
+
+  // Keyboard navigation may land on a node that is not in the DOM yet; focus it once rendered
+  const pendingFocusNodeIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    const nodeId = pendingFocusNodeIdRef.current;
+    if (!nodeId) return;
+    const el = canvasRef.current?.querySelector(`[data-label-node-id="${nodeId}"]`) as HTMLElement | null;
+    if (!el) return;
+    el.focus();
+    pendingFocusNodeIdRef.current = null;
+  });
+
   const handleCanvasKeyDown = useCallback((e: React.KeyboardEvent) => {
     const tag = (e.target as HTMLElement).tagName;
     if (tag === 'INPUT' || tag === 'TEXTAREA') return;
 
     const focusedEl = document.activeElement as HTMLElement | null;
     const nodeId = focusedEl?.closest('[data-label-node-id]')?.getAttribute('data-label-node-id') ?? null;
-    const activeNodes = viewLevel === 'file' && fileGraph ? fileGraph.nodes : labelNodes;
-    const node = nodeId ? activeNodes.find(n => n.id === nodeId) : null;
+    const node = nodeId ? displayNodes.find(n => n.id === nodeId) : null;
 
     if (e.key === 'Escape') {
       e.preventDefault();
@@ -763,6 +850,24 @@ const RouteCanvas: React.FC<RouteCanvasProps> = ({
       return;
     }
 
+    const focusNode = (target: LabelNode) => {
+      setSelectedNodeIds([target.id]);
+      revealNode(target);
+      pendingFocusNodeIdRef.current = target.id;
+      announce(`${target.label} focused`);
+    };
+
+    // Nothing focused (e.g. zoomed out past the DOM nodes): arrows start at the selection or the entry
+    if (!node && e.key.startsWith('Arrow')) {
+      const startId = selectedNodeIds[0] ?? entryNodeId ?? displayNodes[0]?.id;
+      const start = displayNodes.find(n => n.id === startId);
+      if (start) {
+        e.preventDefault();
+        focusNode(start);
+      }
+      return;
+    }
+
     if (!node) return;
 
     if (e.key === 'Enter') {
@@ -784,7 +889,7 @@ const RouteCanvas: React.FC<RouteCanvasProps> = ({
 
     let best: typeof node | null = null;
     let bestScore = Infinity;
-    for (const n of activeNodes) {
+    for (const n of displayNodes) {
       if (n.id === node.id) continue;
       const nx = n.position.x + n.width / 2;
       const ny = n.position.y + n.height / 2;
@@ -795,13 +900,8 @@ const RouteCanvas: React.FC<RouteCanvasProps> = ({
       if (dist + perp * 1.5 < bestScore) { bestScore = dist + perp * 1.5; best = n; }
     }
 
-    if (best) {
-      const el = canvasRef.current?.querySelector(`[data-label-node-id="${best.id}"]`) as HTMLElement | null;
-      el?.focus();
-      setSelectedNodeIds([best.id]);
-      announce(`${best.label} focused`);
-    }
-  }, [labelNodes, fileGraph, viewLevel, onOpenEditor, setSelectedNodeIds, announce]);
+    if (best) focusNode(best);
+  }, [displayNodes, selectedNodeIds, entryNodeId, onOpenEditor, setSelectedNodeIds, revealNode, announce]);
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -903,6 +1003,29 @@ const RouteCanvas: React.FC<RouteCanvasProps> = ({
     closeTransientUi();
   }, [menuGroups, nodeMap, routeLinks, checkedRoutes, identifiedRoutes, closeTransientUi]);
 
+  const handleEditChoiceText = useCallback((choice: MenuPopoverChoice, text: string) => {
+    if (!onEditChoiceText || choice.sourceLine === undefined) return false;
+    if (!onEditChoiceText(choice.blockId, choice.sourceLine, text)) return false;
+    // Show the new caption until the re-analysis replaces the menu's links
+    setSelectedMenu(prev => prev && { ...prev, choices: prev.choices.map(c => c === choice ? { ...c, choiceText: text } : c) });
+    return true;
+  }, [onEditChoiceText]);
+
+  const openNewLabelForm = useCallback((x: number, y: number, worldPos: Position) => {
+    const selectedBlockId = selectedNodeIds.length === 1 ? labelNodeMap.get(selectedNodeIds[0])?.blockId : undefined;
+    const blockId = scriptFiles.some(file => file.blockId === selectedBlockId) ? selectedBlockId! : scriptFiles[0]?.blockId;
+    if (!blockId) {
+      addToast?.('Create a script file first', 'warning');
+      return;
+    }
+    setNewLabelDraft({ x, y, worldPos, name: '', blockId });
+  }, [selectedNodeIds, labelNodeMap, scriptFiles, addToast]);
+
+  const submitNewLabel = () => {
+    if (!newLabelDraft || !onCreateLabel) return;
+    if (onCreateLabel(newLabelDraft.blockId, newLabelDraft.name, newLabelDraft.worldPos)) setNewLabelDraft(null);
+  };
+
   const handleFollowLink = useCallback((link: RouteLink, target: 'source' | 'target') => {
     setSelectedEdge(link);
     centerOnNode(target === 'source' ? link.sourceId : link.targetId);
@@ -1072,10 +1195,17 @@ const RouteCanvas: React.FC<RouteCanvasProps> = ({
     pointerStartPos.current = getPointInWorldSpace(e.clientX, e.clientY);
     
     const nodeWrapper = (e.target as HTMLElement).closest('.label-block-wrapper');
-    const nodeId = nodeWrapper?.getAttribute('data-label-node-id');
+    // On the raster path most nodes have no element; hit-test the drawn dots and boxes instead
+    const nodeId = nodeWrapper?.getAttribute('data-label-node-id')
+        ?? (useRaster ? hitTestNode(visibleNodes, pointerStartPos.current, 8 / transform.scale)?.id : undefined);
     const canvasEl = e.currentTarget;
+    // Ports are only rendered on label nodes, and only when links can be created
+    const portNodeId = onCreateLink ? targetEl.closest('[data-route-port]')?.getAttribute('data-route-port') : null;
 
-    if (nodeId && nodeMap.has(nodeId)) {
+    if (portNodeId && labelNodeMap.has(portNodeId)) {
+        interactionState.current = { type: 'connecting', sourceId: portNodeId };
+        setConnectPreview({ sourceId: portNodeId, to: pointerStartPos.current, targetId: null, kind: e.altKey ? 'call' : 'jump' });
+    } else if (nodeId && nodeMap.has(nodeId)) {
         const currentSelection = selectedNodeIds.includes(nodeId) ? selectedNodeIds : [nodeId];
         const dragStartPositions = new Map<string, Position>();
         currentSelection.forEach(id => {
@@ -1199,6 +1329,17 @@ const RouteCanvas: React.FC<RouteCanvasProps> = ({
                 onTransformChange(t => ({...t, x: t.x + moveEvent.movementX, y: t.y + moveEvent.movementY }));
                 break;
             }
+            case 'connecting': {
+                const sourceId = interactionState.current.sourceId;
+                const target = hitTestNode(labelNodes, currentPos);
+                setConnectPreview({
+                    sourceId,
+                    to: currentPos,
+                    targetId: target && target.id !== sourceId ? target.id : null,
+                    kind: moveEvent.altKey ? 'call' : 'jump',
+                });
+                break;
+            }
             case 'rubber-band': {
                 const start = interactionState.current.start;
                 const x = Math.min(start.x, currentPos.x);
@@ -1229,6 +1370,12 @@ const RouteCanvas: React.FC<RouteCanvasProps> = ({
             updateLabelNodePositions(updates);
         }
 
+        if (state.type === 'connecting') {
+            const target = hitTestNode(labelNodes, pointerEndPos);
+            if (target && target.id !== state.sourceId) onCreateLink?.(state.sourceId, target.id, upEvent.altKey ? 'call' : 'jump');
+            setConnectPreview(null);
+        }
+
         if (state.type === 'rubber-band') {
             if (distance > 5) {
                 const finalRect: Rect = {
@@ -1354,6 +1501,201 @@ const RouteCanvas: React.FC<RouteCanvasProps> = ({
     return activeNodes.map(n => ({ ...n, type: 'label' }));
   }, [viewLevel, fileGraph, labelNodes]);
 
+  // Colour and dimming of a link: trace and focus first, then route selection, then the Conditions overlay
+  const getLinkStyle = useCallback((link: RouteLink): { color: string; isDimmed: boolean } => {
+    let color = link.type === 'implicit' ? "#94a3b8" : link.type === 'call' ? "#7c3aed" : "#4f46e5";
+    let isDimmed = false;
+
+    if (viewLevel === 'file') {
+      // In file view: only apply focus/trace dimming, no route coloring
+      if (traceNodeIds && traceEdgeIds) {
+        isDimmed = !traceEdgeIds.has(link.id);
+      } else if (focusedNodeIds) {
+        isDimmed = !focusedNodeIds.has(link.sourceId) || !focusedNodeIds.has(link.targetId);
+      }
+    } else {
+      if (traceNodeIds && traceEdgeIds) {
+        isDimmed = !traceEdgeIds.has(link.id);
+        if (!isDimmed) color = linkColors?.get(link.id) ?? '#4f46e5';
+      } else if (focusedNodeIds) {
+        isDimmed = !focusedNodeIds.has(link.sourceId) || !focusedNodeIds.has(link.targetId);
+        if (!isDimmed && linkColors?.has(link.id)) color = linkColors.get(link.id)!;
+      } else if (linkColors) {
+        if (linkColors.has(link.id)) {
+          color = linkColors.get(link.id)!;
+        } else {
+          isDimmed = true;
+          color = '#9ca3af'; // gray
+        }
+      } else if (overlayMode === 'conditions') {
+        const feasibility = routeSimulation?.links.get(link.id);
+        if (feasibility === 'infeasible') color = '#dc2626';
+        else if (feasibility === 'unknown') color = '#f59e0b';
+      }
+    }
+    return { color, isDimmed };
+  }, [viewLevel, traceNodeIds, traceEdgeIds, focusedNodeIds, linkColors, overlayMode, routeSimulation]);
+
+  const isNodeDimmedById = useCallback((nodeId: string): boolean => {
+    if (traceNodeIds) return !traceNodeIds.has(nodeId);
+    if (focusedNodeIds) return !focusedNodeIds.has(nodeId);
+    return false;
+  }, [traceNodeIds, focusedNodeIds]);
+
+  // Overlay: only active when overlayMode is set and the node matches
+  const getNodeOverlay = useCallback((nodeId: string): NodeOverlay | null => {
+    if (overlayMode === 'hubs' && hubData.set.has(nodeId)) {
+      return { highlight: 'hub', count: hubData.counts.get(nodeId) };
+    } else if (overlayMode === 'branch-points' && branchData.set.has(nodeId)) {
+      return { highlight: 'branch', count: branchData.counts.get(nodeId) };
+    } else if (overlayMode === 'menu-heavy' && menuHeavyData.set.has(nodeId)) {
+      return { highlight: 'menu-heavy', count: menuHeavyData.counts.get(nodeId) };
+    } else if (overlayMode === 'call-heavy' && callHeavyData.set.has(nodeId)) {
+      return { highlight: 'call-heavy', count: callHeavyData.counts.get(nodeId) };
+    } else if (overlayMode === 'conditions' && routeSimulation?.nodes.has(nodeId)) {
+      const feasibility = routeSimulation.nodes.get(nodeId)!;
+      const entryState = routeSimulation.entryStates.get(nodeId);
+      return {
+        highlight: feasibility === 'unknown' ? 'condition-unknown' : feasibility,
+        detail: entryState && Object.keys(entryState).length > 0
+          ? 'On entry: ' + Object.entries(entryState).map(([name, value]) => `${name} = ${value}`).join(', ')
+          : undefined,
+      };
+    }
+    return null;
+  }, [overlayMode, hubData, branchData, menuHeavyData, callHeavyData, routeSimulation]);
+
+  const lastHandledExportKey = useRef<number | null>(null);
+  useEffect(() => {
+    if (!exportRequest || exportRequest.key === lastHandledExportKey.current) return;
+    lastHandledExportKey.current = exportRequest.key;
+    setIsExportOpen(true);
+  }, [exportRequest]);
+
+  // Structure only, for DOT/Mermaid/GraphML: every label and link regardless of filters
+  const buildStoryGraph = useCallback(
+    (scope: StoryGraphScope) => (scope === 'files' ? buildFileStoryGraph : buildLabelStoryGraph)(labelNodes, routeLinks),
+    [labelNodes, routeLinks],
+  );
+
+  // The whole graph as drawn now — current view level, filters, route colours and overlays
+  const buildExportScene = useCallback((): CanvasExportScene => {
+    const isFileView = viewLevel === 'file' && !!fileGraph;
+    const activeNodes = isFileView ? fileGraph.nodes : labelNodes;
+    const nodes = activeNodes.map((node): ExportNode => {
+      const isDimmed = isNodeDimmedById(node.id) && !selectedNodeIds.includes(node.id);
+      if (isFileView) {
+        const labelCount = fileGraph.labelCountByFile.get(node.id) ?? 0;
+        return {
+          x: node.position.x, y: node.position.y, width: node.width, height: node.height,
+          title: node.label,
+          subtitle: `${labelCount} ${labelCount === 1 ? 'label' : 'labels'}`,
+          fill: '#eef2ff', stroke: '#a5b4fc', textColor: '#312e81', rx: 12, strokeWidth: 2,
+          opacity: isDimmed ? 0.2 : 1,
+        };
+      }
+      const overlay = getNodeOverlay(node.id);
+      const isEntry = node.id === entryNodeId;
+      const isUnreachable = unreachableNodeIds.has(node.id);
+      const isDeadEnd = deadEndNodeIds.has(node.id);
+      return {
+        x: node.position.x, y: node.position.y, width: node.width, height: node.height,
+        title: node.label,
+        subtitle: node.containerName,
+        fill: isEntry ? '#f0fdf4' : isUnreachable ? '#fff7ed' : isDeadEnd ? '#fffbeb' : '#ffffff',
+        stroke: overlay ? OVERLAY_EXPORT_COLORS[overlay.highlight]
+          : isEntry ? '#22c55e' : isUnreachable ? '#fb923c' : isDeadEnd ? '#f59e0b' : '#d1d5db',
+        strokeWidth: 2,
+        dashed: overlay ? overlay.highlight === 'infeasible' : isDeadEnd && !isEntry && !isUnreachable,
+        textColor: '#1f2937',
+        rx: 6,
+        monospace: true,
+        badge: isEntry ? 'start' : isUnreachable ? 'unreachable' : isDeadEnd ? 'dead end' : undefined,
+        opacity: isDimmed ? 0.2 : 1,
+      };
+    });
+    const edges = renderedLinks.flatMap(link => {
+      const sourceNode = nodeMap.get(link.sourceId);
+      const targetNode = nodeMap.get(link.targetId);
+      if (!sourceNode || !targetNode) return [];
+      const [sourcePos, targetPos] = getOptimalPath(sourceNode, targetNode);
+      const { color, isDimmed } = getLinkStyle(link);
+      return [{
+        path: getLinkPathData(sourcePos, targetPos),
+        color,
+        width: 4,
+        dashed: link.type === 'implicit',
+        arrow: true,
+        opacity: isDimmed ? 0.2 : 1,
+        callCircle: link.type === 'call' ? sourcePos : undefined,
+      }];
+    });
+    return {
+      title: isFileView ? 'Flow Canvas (files)' : 'Flow Canvas',
+      // Same padding as BlockContainer, with room for the title
+      groups: blockGroups.map(group => ({
+        x: group.rect.x - 20,
+        y: group.rect.y - 50,
+        width: group.rect.width + 40,
+        height: group.rect.height + 70,
+        title: group.title,
+        fill: '#f9fafb',
+        stroke: '#9ca3af',
+        dashed: true,
+      })),
+      edges,
+      nodes,
+      notes: stickyNotes.map(note => ({ x: note.position.x, y: note.position.y, width: note.width, height: note.height, text: note.content, color: note.color })),
+    };
+  }, [viewLevel, fileGraph, labelNodes, renderedLinks, nodeMap, blockGroups, stickyNotes, selectedNodeIds, entryNodeId, unreachableNodeIds, deadEndNodeIds, isNodeDimmedById, getNodeOverlay, getLinkStyle]);
+
+  // What the 2D canvas draws: visible nodes not in the DOM, and visible links (bundled when zoomed out)
+  const rasterScene = useMemo((): { nodes: RasterNode[]; edges: RasterEdge[] } | null => {
+    if (!useRaster) return null;
+    const nodes = visibleNodes.filter(node => !domNodeIds.has(node.id)).map((node): RasterNode => {
+      const overlay = viewLevel === 'label' ? getNodeOverlay(node.id) : null;
+      const isSelected = selectedNodeIds.includes(node.id);
+      return {
+        id: node.id, x: node.position.x, y: node.position.y, width: node.width, height: node.height,
+        label: node.label,
+        color: isSelected ? '#4f46e5'
+          : overlay ? OVERLAY_EXPORT_COLORS[overlay.highlight]
+          : node.id === entryNodeId ? '#22c55e'
+          : unreachableNodeIds.has(node.id) ? '#fb923c'
+          : deadEndNodeIds.has(node.id) ? '#f59e0b'
+          : '#6b7280',
+        opacity: isNodeDimmedById(node.id) && !isSelected ? 0.2 : 1,
+      };
+    });
+    const centre = (id: string) => {
+      const node = nodeMap.get(id)!;
+      return { x: node.position.x + node.width / 2, y: node.position.y + node.height / 2 };
+    };
+    const toEdge = (link: RouteLink, width: number): RasterEdge => {
+      const { color, isDimmed } = getLinkStyle(link);
+      return { id: link.id, from: centre(link.sourceId), to: centre(link.targetId), color, width, opacity: isDimmed ? 0.2 : 0.8, dashed: link.type === 'implicit' };
+    };
+    if (detailLevel !== 'dot' || viewLevel !== 'label') {
+      return { nodes, edges: visibleLinks.map(link => toEdge(link, detailLevel === 'dot' ? 1.5 : 2)) };
+    }
+    const { bundles, singles } = bundleLinks(visibleLinks, nodeMap, id => nodeMap.get(id)?.blockId ?? id);
+    const linkById = new Map(visibleLinks.map(link => [link.id, link]));
+    const edges = singles.map(link => toEdge(link, 1.5));
+    for (const bundle of bundles) {
+      const styles = bundle.linkIds.map(id => getLinkStyle(linkById.get(id)!));
+      const shown = styles.find(style => !style.isDimmed);
+      edges.push({
+        id: bundle.key,
+        from: bundle.from,
+        to: bundle.to,
+        color: shown?.color ?? styles[0].color,
+        width: 1.5 + Math.log2(bundle.linkIds.length) * 1.5,
+        opacity: shown ? 0.6 : 0.2,
+      });
+    }
+    return { nodes, edges };
+  }, [useRaster, domNodeIds, visibleNodes, visibleLinks, detailLevel, viewLevel, nodeMap, selectedNodeIds, entryNodeId, unreachableNodeIds, deadEndNodeIds, isNodeDimmedById, getNodeOverlay, getLinkStyle]);
+
   return (
     <div
       ref={canvasRef}
@@ -1501,6 +1843,7 @@ const RouteCanvas: React.FC<RouteCanvasProps> = ({
                 ['branch-points', 'Branches ↗','violet', 'Nodes with ≥3 outgoing links — heavy branch points'],
                 ['menu-heavy',    'Menus ☰',  'rose',   'Nodes with multiple choice menus'],
                 ['call-heavy',    'Calls ⇝',  'teal',   'Nodes called from many places'],
+                ['conditions',    'Conditions ⊘', 'red', 'Simulate variable values — mark labels and links no path can satisfy'],
               ] as const).map(([mode, label, _color, title]) => {
                 const active = overlayMode === mode;
                 const activeClass: Record<string, string> = {
@@ -1508,6 +1851,7 @@ const RouteCanvas: React.FC<RouteCanvasProps> = ({
                   'branch-points': 'border-violet-500 bg-violet-600 text-white',
                   'menu-heavy':    'border-rose-500 bg-rose-600 text-white',
                   'call-heavy':    'border-teal-500 bg-teal-600 text-white',
+                  conditions:      'border-red-500 bg-red-600 text-white',
                 };
                 return (
                   <button
@@ -1768,7 +2112,8 @@ const RouteCanvas: React.FC<RouteCanvasProps> = ({
         </div>
         <ViewRoutesPanel
           routes={identifiedRoutes}
-          routesTruncated={routesTruncated}
+          totalPathCount={totalPathCount}
+          routeFeasibility={routeSimulation?.routes}
           checkedRoutes={checkedRoutes}
           onToggleRoute={handleToggleRoute}
           routeLabels={routeLabels}
@@ -1780,6 +2125,8 @@ const RouteCanvas: React.FC<RouteCanvasProps> = ({
           onToggle={() => setIsMenuPanelOpen(v => !v)}
           onOpenEditor={onOpenEditor}
           embedded
+          onEditChoiceText={onEditChoiceText ? handleEditChoiceText : undefined}
+          editRequest={menuEditRequest}
         />
       </CanvasToolbox>
 
@@ -1860,9 +2207,28 @@ const RouteCanvas: React.FC<RouteCanvasProps> = ({
               <span className="w-3 h-3 shrink-0 rounded-full bg-teal-500 border-2 border-white dark:border-gray-800 inline-block" />
               Call-heavy (≥2 calls in)
             </div>
+            <div className="flex items-center gap-2">
+              <span className="w-3 h-3 shrink-0 rounded-full bg-red-600 border-2 border-white dark:border-gray-800 inline-block" />
+              Unreachable by condition
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="w-3 h-3 shrink-0 rounded-full bg-amber-500 border-2 border-white dark:border-gray-800 inline-block" />
+              Condition unknown
+            </div>
           </div>
         )}
       </div>
+      {rasterScene && (
+        <RouteCanvasRaster
+          width={canvasDimensions.width}
+          height={canvasDimensions.height}
+          transform={transform}
+          detail={detailLevel}
+          nodes={rasterScene.nodes}
+          edges={rasterScene.edges}
+          ariaLabel={`Overview of ${visibleNodes.length} ${viewLevel === 'file' ? 'files' : 'labels'}; zoom in or use the arrow keys to move between them`}
+        />
+      )}
       <div
         className="absolute top-0 left-0"
         style={{
@@ -1896,6 +2262,12 @@ const RouteCanvas: React.FC<RouteCanvasProps> = ({
             <marker id="arrowhead-94a3b8" viewBox="0 0 10 10" markerWidth="12" markerHeight="12" refX="10" refY="5" orient="auto" markerUnits="userSpaceOnUse">
               <path d="M0,0 L10,5 L0,10 z" fill="#94a3b8" />
             </marker>
+            <marker id="arrowhead-dc2626" viewBox="0 0 10 10" markerWidth="12" markerHeight="12" refX="10" refY="5" orient="auto" markerUnits="userSpaceOnUse">
+                <path d="M0,0 L10,5 L0,10 z" fill="#dc2626" />
+            </marker>
+            <marker id="arrowhead-f59e0b" viewBox="0 0 10 10" markerWidth="12" markerHeight="12" refX="10" refY="5" orient="auto" markerUnits="userSpaceOnUse">
+                <path d="M0,0 L10,5 L0,10 z" fill="#f59e0b" />
+            </marker>
             {identifiedRoutes.map(route => (
                 <marker key={route.id} id={`arrowhead-${route.color.replace('#', '')}`} viewBox="0 0 10 10" markerWidth="12" markerHeight="12" refX="10" refY="5" orient="auto" markerUnits="userSpaceOnUse">
                     <path d="M0,0 L10,5 L0,10 z" fill={route.color} />
@@ -1903,39 +2275,13 @@ const RouteCanvas: React.FC<RouteCanvasProps> = ({
             ))}
           </defs>
           <g transform={`translate(${-svgBounds.left}, ${-svgBounds.top})`}>
-            {renderedLinks.map((link) => {
+            {domLinks.map((link) => {
               const sourceNode = nodeMap.get(link.sourceId);
               const targetNode = nodeMap.get(link.targetId);
               if (!sourceNode || !targetNode) return null;
 
               const [sourcePos, targetPos] = getOptimalPath(sourceNode, targetNode);
-
-              let color = link.type === 'implicit' ? "#94a3b8" : link.type === 'call' ? "#7c3aed" : "#4f46e5";
-              let isDimmed = false;
-
-              if (viewLevel === 'file') {
-                // In file view: only apply focus/trace dimming, no route coloring
-                if (traceNodeIds && traceEdgeIds) {
-                  isDimmed = !traceEdgeIds.has(link.id);
-                } else if (focusedNodeIds) {
-                  isDimmed = !focusedNodeIds.has(link.sourceId) || !focusedNodeIds.has(link.targetId);
-                }
-              } else {
-                if (traceNodeIds && traceEdgeIds) {
-                  isDimmed = !traceEdgeIds.has(link.id);
-                  if (!isDimmed) color = linkColors?.get(link.id) ?? '#4f46e5';
-                } else if (focusedNodeIds) {
-                  isDimmed = !focusedNodeIds.has(link.sourceId) || !focusedNodeIds.has(link.targetId);
-                  if (!isDimmed && linkColors?.has(link.id)) color = linkColors.get(link.id)!;
-                } else if (linkColors) {
-                  if (linkColors.has(link.id)) {
-                    color = linkColors.get(link.id)!;
-                  } else {
-                    isDimmed = true;
-                    color = '#9ca3af'; // gray
-                  }
-                }
-              }
+              const { color, isDimmed } = getLinkStyle(link);
 
               return (
                 <Arrow
@@ -1957,6 +2303,14 @@ const RouteCanvas: React.FC<RouteCanvasProps> = ({
         </svg>
 
         {rubberBandRect && <RubberBand rect={rubberBandRect} />}
+        {connectPreview && labelNodeMap.has(connectPreview.sourceId) && (
+          <ConnectionLine
+            source={labelNodeMap.get(connectPreview.sourceId)!}
+            target={connectPreview.targetId ? labelNodeMap.get(connectPreview.targetId) ?? null : null}
+            to={connectPreview.to}
+            kind={connectPreview.kind}
+          />
+        )}
 
         {/* Sticky notes */}
         {stickyNotes.map(note => (
@@ -1975,11 +2329,9 @@ const RouteCanvas: React.FC<RouteCanvasProps> = ({
         ))}
 
         {viewLevel === 'file' && fileGraph
-          ? fileGraph.nodes.map(node => {
+          ? domNodes.map(node => {
               const isSelected = selectedNodeIds.includes(node.id);
-              let isNodeDimmed = false;
-              if (traceNodeIds) isNodeDimmed = !traceNodeIds.has(node.id);
-              else if (focusedNodeIds) isNodeDimmed = !focusedNodeIds.has(node.id);
+              const isNodeDimmed = isNodeDimmedById(node.id);
               return (
                 <FileBlock
                   key={node.id}
@@ -1992,28 +2344,10 @@ const RouteCanvas: React.FC<RouteCanvasProps> = ({
                 />
               );
             })
-          : labelNodes.map((node) => {
+          : domNodes.map((node) => {
               const isSelected = selectedNodeIds.includes(node.id);
-              let isNodeDimmed = false;
-              if (traceNodeIds) isNodeDimmed = !traceNodeIds.has(node.id);
-              else if (focusedNodeIds) isNodeDimmed = !focusedNodeIds.has(node.id);
-
-              // Overlay: only active when overlayMode is set and the node matches
-              let overlayHighlight: 'hub' | 'branch' | 'menu-heavy' | 'call-heavy' | null = null;
-              let overlayCount: number | undefined;
-              if (overlayMode === 'hubs' && hubData.set.has(node.id)) {
-                overlayHighlight = 'hub';
-                overlayCount = hubData.counts.get(node.id);
-              } else if (overlayMode === 'branch-points' && branchData.set.has(node.id)) {
-                overlayHighlight = 'branch';
-                overlayCount = branchData.counts.get(node.id);
-              } else if (overlayMode === 'menu-heavy' && menuHeavyData.set.has(node.id)) {
-                overlayHighlight = 'menu-heavy';
-                overlayCount = menuHeavyData.counts.get(node.id);
-              } else if (overlayMode === 'call-heavy' && callHeavyData.set.has(node.id)) {
-                overlayHighlight = 'call-heavy';
-                overlayCount = callHeavyData.counts.get(node.id);
-              }
+              const isNodeDimmed = isNodeDimmedById(node.id);
+              const overlay = getNodeOverlay(node.id);
 
               const sceneImageUrl = node.sceneImageName
                 ? sceneImageLookup.get(node.sceneImageName.toLowerCase())
@@ -2031,16 +2365,19 @@ const RouteCanvas: React.FC<RouteCanvasProps> = ({
                   isUnreachable={unreachableNodeIds.has(node.id)}
                   isDeadEnd={deadEndNodeIds.has(node.id)}
                   isDimmed={isNodeDimmed && !isSelected}
-                  overlayHighlight={overlayHighlight}
-                  overlayCount={overlayCount}
+                  overlayHighlight={overlay?.highlight ?? null}
+                  overlayCount={overlay?.count}
+                  overlayDetail={overlay?.detail}
                   sceneImageUrl={sceneImageUrl}
+                  detail={detailLevel === 'full' ? 'full' : 'title'}
+                  showPort={!!onCreateLink}
                 />
               );
             })
         }
 
         {/* Menu pill overlay — rendered after node elements so pills are always on top */}
-        {viewLevel === 'label' && (
+        {viewLevel === 'label' && !useRaster && (
           <svg
             className="absolute pointer-events-none"
             style={{ left: svgBounds.left, top: svgBounds.top, width: svgBounds.width, height: svgBounds.height, zIndex: 20, overflow: 'visible' }}
@@ -2049,6 +2386,7 @@ const RouteCanvas: React.FC<RouteCanvasProps> = ({
               {Array.from(menuGroups.entries()).map(([key, group]) => {
                 const { links } = group[0];
                 const firstLink = links[0];
+                if (!domNodeIds.has(firstLink.sourceId)) return null;
                 const color = linkColors?.get(firstLink.id) ?? '#4f46e5';
 
                 // Place the pill on the node's primary exit face for the current layout.
@@ -2079,6 +2417,10 @@ const RouteCanvas: React.FC<RouteCanvasProps> = ({
                     color={color}
                     isActive={selectedMenu?.groupKey === key}
                     onClick={(e) => handleMenuPillClick(e, key)}
+                    onDoubleClick={onEditChoiceText ? (e) => {
+                      handleMenuPillClick(e, key);
+                      setMenuEditRequest(prev => ({ key: (prev?.key ?? 0) + 1, index: 0 }));
+                    } : undefined}
                   />
                 );
               })}
@@ -2112,8 +2454,57 @@ const RouteCanvas: React.FC<RouteCanvasProps> = ({
           }}>
             Open source in editor
           </button>
+          {onDeleteLink && viewLevel === 'label' && edgeContextMenu.link.type !== 'implicit' && (
+            <button className="block w-full border-t border-gray-200 dark:border-gray-700 px-3 py-2 text-left text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30" onClick={() => {
+              onDeleteLink(edgeContextMenu.link);
+              setSelectedEdge(null);
+              closeTransientUi();
+            }}>
+              Delete {edgeContextMenu.link.type}
+            </button>
+          )}
         </div>
       )}
+      {newLabelDraft && (
+        <form
+          className="route-edge-menu fixed z-30 w-64 space-y-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-3 shadow-xl"
+          style={{ left: newLabelDraft.x, top: newLabelDraft.y }}
+          onPointerDown={event => event.stopPropagation()}
+          onSubmit={event => {
+            event.preventDefault();
+            submitNewLabel();
+          }}
+          onKeyDown={event => {
+            if (event.key === 'Escape') setNewLabelDraft(null);
+          }}
+        >
+          <p className="text-xs font-semibold text-gray-700 dark:text-gray-200">New label</p>
+          <input
+            autoFocus
+            value={newLabelDraft.name}
+            onChange={event => setNewLabelDraft({ ...newLabelDraft, name: event.target.value })}
+            placeholder="label_name"
+            aria-label="Label name"
+            className="w-full rounded-md border border-gray-200 dark:border-gray-700 bg-transparent px-2 py-1.5 font-mono text-sm"
+          />
+          <select
+            value={newLabelDraft.blockId}
+            onChange={event => setNewLabelDraft({ ...newLabelDraft, blockId: event.target.value })}
+            aria-label="File"
+            className="w-full rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 px-2 py-1.5 text-sm"
+          >
+            {scriptFiles.map(file => <option key={file.blockId} value={file.blockId}>{file.name}</option>)}
+          </select>
+          <div className="flex justify-end gap-2">
+            <button type="button" className="rounded-md px-2 py-1 text-sm hover:bg-gray-50 dark:hover:bg-gray-700" onClick={() => setNewLabelDraft(null)}>
+              Cancel
+            </button>
+            <button type="submit" disabled={!newLabelDraft.name.trim()} className="rounded-md bg-indigo-600 px-2 py-1 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50">
+              Create
+            </button>
+          </div>
+        </form>
+      )}
       {nodeContextMenu && (
         <CanvasNodeContextMenu
           x={nodeContextMenu.x}
@@ -2136,6 +2527,7 @@ const RouteCanvas: React.FC<RouteCanvasProps> = ({
             if (startNode) centerOnNode(startNode.id, { recordHistory: true });
           }}
           hasStart={labelNodes.some(n => n.label === 'start')}
+          onExport={() => setIsExportOpen(true)}
         />
         <Minimap
           items={minimapItems}
@@ -2144,12 +2536,25 @@ const RouteCanvas: React.FC<RouteCanvasProps> = ({
           onTransformChange={onTransformChange}
         />
       </div>
+      {isExportOpen && (
+        <CanvasExportModal
+          buildScene={buildExportScene}
+          fileBaseName={viewLevel === 'file' ? 'flow-canvas-files' : 'flow-canvas'}
+          buildStoryGraph={buildStoryGraph}
+          defaultGraphScope={viewLevel === 'file' ? 'files' : 'labels'}
+          onClose={() => setIsExportOpen(false)}
+          addToast={addToast}
+        />
+      )}
       {canvasContextMenu && (
         <CanvasContextMenu
           x={canvasContextMenu.x}
           y={canvasContextMenu.y}
           onClose={() => setCanvasContextMenu(null)}
           onAddStickyNote={() => onAddStickyNote(canvasContextMenu.worldPos)}
+          onCreateLabel={onCreateLabel && viewLevel === 'label'
+            ? () => openNewLabelForm(canvasContextMenu.x, canvasContextMenu.y, canvasContextMenu.worldPos)
+            : undefined}
         />
       )}
     </div>
@@ -0,0 +1,130 @@
+/**
+ * @file RouteCanvasRaster.tsx
+ * @description 2D canvas renderer for the Flow Canvas when the DOM would be too heavy (~130 lines).
+ * Key features: draws nodes as status-coloured dots (zoomed far out) or as titled boxes,
+ * links as straight lines and link bundles as lines whose width grows with the number of
+ * links they carry; redraws on the next animation frame after any change; sharp on HiDPI
+ * screens.
+ * Integration: rendered by `RouteCanvas` underneath its DOM layer in screen space; the caller
+ * culls and styles the items (see `lib/canvasLod`) and keeps selected nodes in the DOM so
+ * they stay focusable.
+ */
+import React, { useEffect, useRef } from 'react';
+import type { Position } from '@/types';
+import type { CanvasDetailLevel } from '@/lib/canvasLod';
+
+export interface RasterNode {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  label: string;
+  color: string;
+  opacity: number;
+}
+
+export interface RasterEdge {
+  id: string;
+  from: Position;
+  to: Position;
+  color: string;
+  opacity: number;
+  /** Screen pixels */
+  width: number;
+  dashed?: boolean;
+}
+
+interface RouteCanvasRasterProps {
+  width: number;
+  height: number;
+  transform: { x: number; y: number; scale: number };
+  detail: CanvasDetailLevel;
+  nodes: RasterNode[];
+  edges: RasterEdge[];
+  /** Summary for screen readers, e.g. how many labels are drawn */
+  ariaLabel: string;
+}
+
+const RouteCanvasRaster: React.FC<RouteCanvasRasterProps> = ({ width, height, transform, detail, nodes, edges, ariaLabel }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const frame = requestAnimationFrame(() => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx) return;
+      const dpr = window.devicePixelRatio || 1;
+      canvas.width = Math.round(width * dpr);
+      canvas.height = Math.round(height * dpr);
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      ctx.clearRect(0, 0, width, height);
+      const { x: tx, y: ty, scale } = transform;
+      const sx = (x: number) => x * scale + tx;
+      const sy = (y: number) => y * scale + ty;
+
+      ctx.lineCap = 'round';
+      for (const edge of edges) {
+        ctx.globalAlpha = edge.opacity;
+        ctx.strokeStyle = edge.color;
+        ctx.lineWidth = edge.width;
+        ctx.setLineDash(edge.dashed ? [4, 4] : []);
+        ctx.beginPath();
+        ctx.moveTo(sx(edge.from.x), sy(edge.from.y));
+        ctx.lineTo(sx(edge.to.x), sy(edge.to.y));
+        ctx.stroke();
+      }
+      ctx.setLineDash([]);
+
+      if (detail === 'dot') {
+        for (const node of nodes) {
+          const radius = Math.min(8, Math.max(3, (Math.min(node.width, node.height) * scale) / 2));
+          ctx.globalAlpha = node.opacity;
+          ctx.fillStyle = node.color;
+          ctx.beginPath();
+          ctx.arc(sx(node.x + node.width / 2), sy(node.y + node.height / 2), radius, 0, Math.PI * 2);
+          ctx.fill();
+        }
+      } else {
+        const fontSize = Math.max(9, Math.min(16, 28 * scale));
+        ctx.font = `600 ${fontSize}px ui-monospace, SFMono-Regular, Menlo, monospace`;
+        ctx.textBaseline = 'middle';
+        for (const node of nodes) {
+          const left = sx(node.x);
+          const top = sy(node.y);
+          const w = node.width * scale;
+          const h = node.height * scale;
+          ctx.globalAlpha = node.opacity;
+          ctx.fillStyle = '#ffffff';
+          ctx.strokeStyle = node.color;
+          ctx.lineWidth = 2;
+          ctx.beginPath();
+          ctx.rect(left, top, w, h);
+          ctx.fill();
+          ctx.stroke();
+          ctx.save();
+          ctx.beginPath();
+          ctx.rect(left + 4, top, Math.max(0, w - 8), h);
+          ctx.clip();
+          ctx.fillStyle = '#1f2937';
+          ctx.fillText(node.label, left + 6, top + h / 2);
+          ctx.restore();
+        }
+      }
+      ctx.globalAlpha = 1;
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [width, height, transform, detail, nodes, edges]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      role="img"
+      aria-label={ariaLabel}
+      className="absolute top-0 left-0 pointer-events-none"
+      style={{ width, height }}
+    />
+  );
+};
+
+export default RouteCanvasRaster;
@@ -2,13 +2,14 @@
  * @file SettingsModal.tsx
  * @description Application and project settings dialog (188 lines).
  * Configures UI preferences (theme, sidebar widths, font), Ren'Py path,
- * project-specific options (draftingMode).
+ * project-specific options (draftingMode, translation QA length limit).
  * Persists settings to localStorage and project settings file.
  */
 
 import React from 'react';
 import { useModalAccessibility } from '@/hooks/useModalAccessibility';
 import type { Theme, IdeSettings, MouseGestureSettings, CanvasPanGesture } from '@/types';
+import { DEFAULT_TRANSLATION_MAX_LENGTH_PERCENT } from '@/lib/translationQa';
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -196,6 +197,25 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings
                 </div>
             </div>
 
+            <div className="border-t border-primary"></div>
+            <div>
+                <h3 className="text-sm font-medium text-primary mb-3">Translations</h3>
+                <label htmlFor="translation-max-length" className="block text-xs font-medium text-secondary mb-1">
+                    Maximum Translation Length (% of source)
+                </label>
+                <input
+                    id="translation-max-length"
+                    type="number"
+                    value={settings.translationMaxLengthPercent ?? DEFAULT_TRANSLATION_MAX_LENGTH_PERCENT}
+                    onChange={(e) => onSettingsChange('translationMaxLengthPercent', parseInt(e.target.value) || DEFAULT_TRANSLATION_MAX_LENGTH_PERCENT)}
+                    className="w-full p-2 rounded bg-tertiary border border-primary focus:ring-accent focus:border-accent text-sm text-primary"
+                    min={100}
+                    max={1000}
+                    step={10}
+                />
+                <p className="text-xs text-secondary mt-1">Longer translations are reported in Diagnostics, since they may not fit the text box.</p>
+            </div>
+
             {window.electronAPI && (
               <>
                 <div className="border-t border-primary"></div>
@@ -1,7 +1,8 @@
 /**
  * @file StatsView.tsx
  * @description Project-wide statistics dashboard with multiple analysis tabs (~600 lines).
- * Key features: Story tab (word count, label/menu counts, branching metrics), Asset Coverage tab
+ * Key features: Story tab (word count, label/menu counts, branching metrics, exact path counts and
+ * per-ending critical labels and unique content from the path analysis), Asset Coverage tab
  * (image/audio referenced/missing/orphaned table), Charts tab (label word-count bar chart).
  * Integration: opened as a static tab from `Toolbar`; reads `blocks`, `analysisResult`, route
  * analysis, image/audio metadata, and diagnostic counts from `App.tsx` props.
@@ -10,14 +11,14 @@ import React, { useEffect, useMemo, useState } from 'react';
 import {
   BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell, CartesianGrid,
 } from 'recharts';
-import type { Block, RenpyAnalysisResult, LabelNode, RouteLink, IdentifiedRoute, ProjectImage, ImageMetadata, RenpyAudio } from '@/types';
+import type { Block, RenpyAnalysisResult, LabelNode, RouteLink, IdentifiedRoute, RoutePathAnalysis, ProjectImage, ImageMetadata, RenpyAudio } from '@/types';
 import type { PerformanceSnapshot } from '@/hooks/usePerformanceMetrics';
 import { useCanvasFps } from '@/hooks/useCanvasFps';
 
 interface StatsViewProps {
   blocks: Block[];
   analysisResult: RenpyAnalysisResult;
-  routeAnalysisResult: { labelNodes: LabelNode[]; routeLinks: RouteLink[]; identifiedRoutes: IdentifiedRoute[]; routesTruncated: boolean };
+  routeAnalysisResult: { labelNodes: LabelNode[]; routeLinks: RouteLink[]; identifiedRoutes: IdentifiedRoute[]; pathAnalysis: RoutePathAnalysis };
   projectImages: Map<string, ProjectImage>;
   imageMetadata: Map<string, ImageMetadata>;
   projectAudios: Map<string, RenpyAudio>;
@@ -355,7 +356,8 @@ const StatsView: React.FC<StatsViewProps> = ({
   const [coverageSortDir, setCoverageSortDir] = useState<CoverageSortDir>('asc');
 
   const { branchingBlockIds, labels, characters, dialogueLines } = analysisResult;
-  const { identifiedRoutes, labelNodes, routeLinks, routesTruncated } = routeAnalysisResult;
+  const { labelNodes, routeLinks, pathAnalysis } = routeAnalysisResult;
+  const { totalPathCount } = pathAnalysis;
 
   const [totalWords, setTotalWords] = useState<number | null>(null);
   useEffect(() => {
@@ -403,11 +405,28 @@ const StatsView: React.FC<StatsViewProps> = ({
 
   const labelCount = useMemo(() => Object.keys(labels).length, [labels]);
 
+  // Path counts can exceed Number precision; anything past the top threshold reads the same
+  const routeCount = totalPathCount > 1000n ? 1000 : Number(totalPathCount);
   const complexity = useMemo(
-    () => getComplexityBucket(branchingBlockIds.size, blocks.length, identifiedRoutes.length),
-    [branchingBlockIds.size, blocks.length, identifiedRoutes.length],
+    () => getComplexityBucket(branchingBlockIds.size, blocks.length, routeCount),
+    [branchingBlockIds.size, blocks.length, routeCount],
   );
 
+  const endingRows = useMemo(() => {
+    const nodeLabels = new Map(labelNodes.map(n => [n.id, n.label]));
+    const toLabel = (id: string) => nodeLabels.get(id) ?? id;
+    return [...pathAnalysis.endings]
+      .sort((a, b) => (a.pathCount === b.pathCount ? 0 : a.pathCount > b.pathCount ? -1 : 1))
+      .map(ending => ({
+        id: ending.nodeId,
+        label: toLabel(ending.nodeId),
+        pathCount: ending.pathCount,
+        critical: ending.criticalNodeIds.map(toLabel),
+        uniqueLabels: ending.uniqueNodeIds.length,
+        uniqueLines: ending.uniqueLineCount,
+      }));
+  }, [labelNodes, pathAnalysis]);
+
   const [pathStats, setPathStats] = useState<PathStats | null>(null);
   useEffect(() => {
     setPathStats(null);
@@ -702,9 +721,9 @@ const StatsView: React.FC<StatsViewProps> = ({
           sub="files with choices"
         />
         <StatCard
-          label="Identified Routes"
-          value={`${identifiedRoutes.length.toLocaleString()}${routesTruncated ? '+' : ''}`}
-          sub={routesTruncated ? 'unique story paths (limit reached)' : 'unique story paths'}
+          label="Story Paths"
+          value={totalPathCount.toLocaleString()}
+          sub={`to ${pathAnalysis.endings.length.toLocaleString()} ending${pathAnalysis.endings.length !== 1 ? 's' : ''}, loops counted once`}
         />
       </div>
 
@@ -722,7 +741,7 @@ const StatsView: React.FC<StatsViewProps> = ({
         </div>
         <div className="ml-auto text-right text-xs text-secondary flex-shrink-0">
           <p>{branchRatioPercent}% of files branch</p>
-          <p>{identifiedRoutes.length}{routesTruncated ? '+' : ''} route{identifiedRoutes.length !== 1 ? 's' : ''} identified</p>
+          <p>{totalPathCount.toLocaleString()} path{totalPathCount !== 1n ? 's' : ''} identified</p>
         </div>
       </div>
 
@@ -746,6 +765,35 @@ const StatsView: React.FC<StatsViewProps> = ({
         />
       </div>
 
+      {endingRows.length > 0 && (
+        <div className="mb-8 rounded-lg border border-primary overflow-hidden">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-tertiary border-b border-primary text-secondary text-xs">
+                <th className="px-3 py-2 text-left font-semibold">Ending</th>
+                <th className="px-3 py-2 text-right font-semibold">Paths</th>
+                <th className="px-3 py-2 text-left font-semibold" title="Labels every path to this ending passes through">Critical Labels</th>
+                <th className="px-3 py-2 pr-4 text-right font-semibold" title="Labels and script lines that lead to this ending only">Unique Content</th>
+              </tr>
+            </thead>
+            <tbody>
+              {endingRows.map((row, i) => (
+                <tr key={row.id} className={`border-b border-primary last:border-0 ${i % 2 === 1 ? 'bg-secondary/20' : ''}`}>
+                  <td className="px-3 py-2 font-mono text-xs text-primary">{row.label}</td>
+                  <td className="px-3 py-2 text-right tabular-nums text-secondary">{row.pathCount.toLocaleString()}</td>
+                  <td className="px-3 py-2 font-mono text-xs text-secondary truncate max-w-xs" title={row.critical.join(' → ')}>
+                    {row.critical.length > 0 ? row.critical.join(' → ') : '—'}
+                  </td>
+                  <td className="px-3 py-2 pr-4 text-right tabular-nums text-secondary whitespace-nowrap">
+                    {row.uniqueLabels} label{row.uniqueLabels !== 1 ? 's' : ''} · {row.uniqueLines.toLocaleString()} lines
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
       {/* Assets & Health */}
       <SectionLabel>Assets &amp; Health</SectionLabel>
       <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-8">
@@ -2,7 +2,7 @@
  * @file StoryCanvas.tsx
  * @description Main visual canvas for editing Ren'Py projects.
  * Displays story blocks as draggable cards with connections between them (jumps/calls).
- * Supports pan, zoom, multi-select, grouping, sticky notes, minimap, and context menus.
+ * Supports pan, zoom, multi-select, grouping, sticky notes, minimap, context menus, and SVG/PNG/PDF export.
  * Handles keyboard shortcuts (N=new, G=group, Delete=remove, etc.) and canvas interactions.
  */
 
@@ -15,9 +15,11 @@ import CanvasContextMenu from './CanvasContextMenu';
 import CanvasLayoutControls from './CanvasLayoutControls';
 import CanvasToolbox from './CanvasToolbox';
 import CanvasNavControls from './CanvasNavControls';
+import CanvasExportModal from './CanvasExportModal';
 import type { MinimapItem } from './Minimap';
 import type { Block, Position, RenpyAnalysisResult, BlockGroup, StickyNote as StickyNoteType, MouseGestureSettings, StoryCanvasGroupingMode, StoryCanvasLayoutMode, DiagnosticsResult } from '@/types';
 import type { BlockType } from './CreateBlockModal';
+import type { CanvasExportScene } from '@/lib/canvasExport';
 
 interface StoryCanvasProps {
   blocks: Block[];
@@ -48,6 +50,8 @@ interface StoryCanvasProps {
   transform: { x: number, y: number, scale: number };
   onTransformChange: React.Dispatch<React.SetStateAction<{ x: number, y: number, scale: number }>>;
   onCreateBlock?: (type: BlockType, position: Position) => void;
+  /** Opens the outline import dialog, placing new blocks at `position` */
+  onImportOutline?: (position: Position) => void;
   onAddStickyNote?: (position: Position) => void;
   onOpenRouteCanvas?: () => void;
   mouseGestures?: MouseGestureSettings;
@@ -56,6 +60,9 @@ interface StoryCanvasProps {
   onChangeLayoutMode: (mode: StoryCanvasLayoutMode) => void;
   onChangeGroupingMode: (mode: StoryCanvasGroupingMode) => void;
   diagnosticsResult?: DiagnosticsResult;
+  /** Opens the export dialog whenever `key` changes (File → Export Canvas) */
+  exportRequest?: { key: number } | null;
+  addToast?: (message: string, type?: 'success' | 'error' | 'warning' | 'info') => void;
 }
 
 const getBlockById = (blocks: Block[], id: string) => blocks.find(b => b.id === id);
@@ -239,8 +246,9 @@ const StoryCanvas: React.FC<StoryCanvasProps> = ({
     selectedBlockIds, setSelectedBlockIds, selectedGroupIds, setSelectedGroupIds, 
     findUsagesHighlightIds, clearFindUsages, dirtyBlockIds, 
     canvasFilters, setCanvasFilters, centerOnBlockRequest, flashBlockRequest, hoverHighlightIds,
-    transform, onTransformChange, onCreateBlock, onAddStickyNote, onOpenRouteCanvas, mouseGestures,
+    transform, onTransformChange, onCreateBlock, onImportOutline, onAddStickyNote, onOpenRouteCanvas, mouseGestures,
     layoutMode, groupingMode, onChangeLayoutMode, onChangeGroupingMode, diagnosticsResult,
+    exportRequest, addToast,
 }) => {
   const [rubberBandRect, setRubberBandRect] = useState<Rect | null>(null);
   const [selectedNoteIds, setSelectedNoteIds] = useState<string[]>([]);
@@ -249,6 +257,7 @@ const StoryCanvas: React.FC<StoryCanvasProps> = ({
   const [showLegend, setShowLegend] = useState(false);
   const [labelSearchQuery, setLabelSearchQuery] = useState('');
   const [showLabelSearchResults, setShowLabelSearchResults] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
   
   // Refs for Imperative DOM updates
   const blockRefs = useRef<Map<string, HTMLDivElement>>(new Map());
@@ -1089,6 +1098,72 @@ const StoryCanvas: React.FC<StoryCanvasProps> = ({
     return [...blockItems, ...groupItems, ...noteItems];
   }, [visibleBlocks, groups, stickyNotes, canvasFilters.notes, analysisResult]);
 
+  const lastHandledExportKey = useRef<number | null>(null);
+  useEffect(() => {
+    if (!exportRequest || exportRequest.key === lastHandledExportKey.current) return;
+    lastHandledExportKey.current = exportRequest.key;
+    setIsExportOpen(true);
+  }, [exportRequest]);
+
+  // Everything currently shown, with the same filters and dimming, in world coordinates
+  const buildExportScene = useCallback((): CanvasExportScene => {
+    const blockById = new Map(blocks.map(b => [b.id, b]));
+    const getFilename = (path?: string) => path?.split('/').pop()?.replace(/\.rpy$/, '');
+    return {
+      title: 'Project Canvas',
+      groups: groups.map(group => ({
+        x: group.position.x,
+        y: group.position.y,
+        width: group.width,
+        height: group.height,
+        title: group.title,
+        fill: '#eef2ff',
+        stroke: '#818cf8',
+      })),
+      edges: visibleLinks.flatMap(link => {
+        const source = blockById.get(link.sourceId);
+        const target = blockById.get(link.targetId);
+        if (!source || !target) return [];
+        const path = getOptimalPath(source.position, source.width, source.height, target.position, target.width, target.height);
+        const start = path.match(/^M([-\d.]+),([-\d.]+)/);
+        const isDimmed = highlightedPath !== null && (!highlightedPath.has(link.sourceId) || !highlightedPath.has(link.targetId));
+        return [{
+          path,
+          color: '#4f46e5',
+          width: 3,
+          arrow: true,
+          opacity: isDimmed ? 0.2 : 1,
+          callCircle: link.type === 'call' && start ? { x: parseFloat(start[1]), y: parseFloat(start[2]) } : undefined,
+        }];
+      }),
+      nodes: visibleBlocks.map(block => {
+        const isDimmed = (highlightedPath !== null && !highlightedPath.has(block.id)) ||
+                        (findUsagesHighlightIds !== null && !findUsagesHighlightIds.has(block.id)) ||
+                        (characterFilterBlockIds !== null && !characterFilterBlockIds.has(block.id));
+        const isScreen = analysisResult.screenOnlyBlockIds.has(block.id);
+        const isConfig = analysisResult.configBlockIds.has(block.id);
+        const hasInvalidJumps = (analysisResult.invalidJumps[block.id]?.length ?? 0) > 0;
+        return {
+          x: block.position.x,
+          y: block.position.y,
+          width: block.width,
+          height: block.height,
+          title: block.title ?? getFilename(block.filePath) ?? analysisResult.firstLabels[block.id] ?? "Ren'Py Block",
+          subtitle: block.filePath,
+          fill: '#ffffff',
+          stroke: hasInvalidJumps ? '#ef4444' : isConfig ? '#f87171' : isScreen ? '#2dd4bf' : '#d1d5db',
+          strokeWidth: 2,
+          textColor: '#374151',
+          accent: analysisResult.rootBlockIds.has(block.id) ? '#22c55e' : undefined,
+          opacity: isDimmed ? 0.3 : 1,
+        };
+      }),
+      notes: canvasFilters.notes
+        ? stickyNotes.map(note => ({ x: note.position.x, y: note.position.y, width: note.width, height: note.height, text: note.content, color: note.color }))
+        : [],
+    };
+  }, [blocks, groups, stickyNotes, visibleBlocks, visibleLinks, highlightedPath, findUsagesHighlightIds, characterFilterBlockIds, analysisResult, canvasFilters.notes]);
+
   return (
     <div
       ref={canvasRef}
@@ -1453,6 +1528,7 @@ const StoryCanvas: React.FC<StoryCanvasProps> = ({
           fitTitle="Fit all blocks to screen (F)"
           onGoToStart={centerOnStartBlock}
           hasStart={!!startBlock}
+          onExport={() => setIsExportOpen(true)}
         />
         {canvasFilters.minimap && (
           <Minimap
@@ -1464,12 +1540,22 @@ const StoryCanvas: React.FC<StoryCanvasProps> = ({
         )}
       </div>
 
+      {isExportOpen && (
+        <CanvasExportModal
+          buildScene={buildExportScene}
+          fileBaseName="project-canvas"
+          onClose={() => setIsExportOpen(false)}
+          addToast={addToast}
+        />
+      )}
+
       {canvasContextMenu && onCreateBlock && onAddStickyNote && (
         <CanvasContextMenu
             x={canvasContextMenu.x}
             y={canvasContextMenu.y}
             onClose={() => setCanvasContextMenu(null)}
             onCreateBlock={(type) => onCreateBlock(type, canvasContextMenu.worldPos)}
+            onImportOutline={onImportOutline && (() => onImportOutline(canvasContextMenu.worldPos))}
             onAddStickyNote={() => onAddStickyNote(canvasContextMenu.worldPos)}
         />
       )}
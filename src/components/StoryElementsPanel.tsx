@@ -1,24 +1,28 @@
 /**
  * @file StoryElementsPanel.tsx
  * @description Tabbed sidebar panel aggregating all story element managers (~700 lines).
- * Key features: tabs for Characters, Variables, Images, Audio, Screens, Snippets, and Menu
- * Templates; each tab hosts the corresponding manager component with virtualised lists.
+ * Key features: tabs for Characters, Variables, Images, Audio, Screens, Transforms, Styles, Snippets, Menu
+ * Templates, and the Outline of the active script; each tab hosts the corresponding manager component with virtualised lists.
  * Integration: rendered in the right sidebar of `App.tsx`; receives all asset and analysis data
  * as props; actions (add/edit/delete/import) propagate back to `App.tsx` `useImmer` state.
  */
 import React, { useState, useMemo, useEffect } from 'react';
-import type { Character, Variable, ProjectImage, ImageMetadata, RenpyAudio, AudioMetadata, RenpyAnalysisResult, UserSnippet, MenuTemplate, ProjectSettings } from '@/types';
+import type { Block, Character, Variable, ProjectImage, ImageMetadata, RenpyAudio, AudioMetadata, RenpyAnalysisResult, UserSnippet, MenuTemplate, ProjectSettings } from '@/types';
 import type { PaletteColor } from '@/lib/colorPalettes';
 import VariableManager from './VariableManager';
 import ImageManager from './ImageManager';
 import AudioManager from './AudioManager';
 import SnippetManager from './SnippetManager';
 import ScreenManager from './ScreenManager';
+import TransformManager from './TransformManager';
+import StyleInspector from './StyleInspector';
 import { MenuTemplateManager } from './MenuTemplateManager';
 import ColorPickerPane from './ColorPickerPane';
+import OutlineView from './OutlineView';
+import { buildDocumentSymbols } from '@/lib/renpyDocumentSymbols';
 
 type SubTabId =
-    | 'characters' | 'variables' | 'screens'
+    | 'outline' | 'characters' | 'variables' | 'screens' | 'transforms' | 'styles'
     | 'images' | 'audio'
     | 'scenes' | 'imagemaps' | 'screenLayouts'
     | 'snippets' | 'menuTemplates' | 'colorPalette';
@@ -30,6 +34,11 @@ interface SubPane {
 }
 
 const SUB_PANES: SubPane[] = [
+    {
+        id: 'outline',
+        tooltip: 'Outline',
+        icon: <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}><path strokeLinecap="round" strokeLinejoin="round" d="M3.75 5.25h16.5M8.25 9.75h12M8.25 14.25h12M12.75 18.75h7.5M3.75 9.75v9h9" /></svg>,
+    },
     {
         id: 'characters',
         tooltip: 'Characters',
@@ -45,6 +54,16 @@ const SUB_PANES: SubPane[] = [
         tooltip: 'Screens',
         icon: <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}><path strokeLinecap="round" strokeLinejoin="round" d="M6.429 9.75L2.25 12l4.179 2.25m0-4.5l5.571 3 5.571-3m-11.142 0L2.25 7.5 12 2.25l9.75 5.25-4.179 2.25m0 0L21.75 12l-4.179 2.25m0 0l4.179 2.25L12 21.75 2.25 16.5l4.179-2.25m11.142 0l-5.571 3-5.571-3" /></svg>,
     },
+    {
+        id: 'transforms',
+        tooltip: 'Transforms',
+        icon: <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}><path strokeLinecap="round" strokeLinejoin="round" d="M7.5 21L3 16.5m0 0L7.5 12M3 16.5h13.5m0-13.5L21 7.5m0 0L16.5 12M21 7.5H7.5" /></svg>,
+    },
+    {
+        id: 'styles',
+        tooltip: 'Styles',
+        icon: <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}><path strokeLinecap="round" strokeLinejoin="round" d="M9.53 16.122a3 3 0 00-5.78 1.128 2.25 2.25 0 01-2.4 2.245 4.5 4.5 0 008.4-2.245c0-.399-.078-.78-.22-1.128zm0 0a15.998 15.998 0 003.388-1.62m-5.043-.025a15.994 15.994 0 011.622-3.395m3.42 3.42a15.995 15.995 0 004.764-4.648l3.876-5.814a1.151 1.151 0 00-1.597-1.597L14.146 6.32a15.996 15.996 0 00-4.649 4.763m3.42 3.42a6.776 6.776 0 00-3.42-3.42" /></svg>,
+    },
     {
         id: 'images',
         tooltip: 'Images',
@@ -98,6 +117,10 @@ interface StoryElementsPanelProps {
     onFindVariableUsages: (variableName: string) => void;
     // Screen callbacks
     onFindScreenDefinition: (screenName: string) => void;
+    // Transform callbacks
+    onFindTransformDefinition: (transformName: string) => void;
+    // Style callbacks
+    onOpenStyleLocation: (blockId: string, line: number) => void;
     // Image props & callbacks
     projectImages: Map<string, ProjectImage>;
     imageMetadata: Map<string, ImageMetadata>;
@@ -172,6 +195,11 @@ interface StoryElementsPanelProps {
     dismissedImplicitVarHint: boolean;
     onDismissImplicitVarHint: () => void;
     onOpenDiagnostics: () => void;
+
+    // Outline Props
+    outlineBlock: Block | null;
+    outlineCursorLine?: number;
+    onOutlineNavigate: (blockId: string, line: number) => void;
 }
 
 const StoryElementsPanel: React.FC<StoryElementsPanelProps> = ({
@@ -179,6 +207,8 @@ const StoryElementsPanel: React.FC<StoryElementsPanelProps> = ({
     onOpenCharacterEditor, onFindCharacterUsages,
     onAddVariable, onEditVariable, onFindVariableUsages,
     onFindScreenDefinition,
+    onFindTransformDefinition,
+    onOpenStyleLocation,
     projectImages, imageMetadata, onAddImageScanDirectory, onRemoveImageScanDirectory, imageScanDirectories, onCopyImagesToProject, onOpenImageEditor, imagesLastScanned, isRefreshingImages, onRefreshImages,
     projectAudios, audioMetadata, onAddAudioScanDirectory, onRemoveAudioScanDirectory, audioScanDirectories, onCopyAudiosToProject, onOpenAudioEditor, audiosLastScanned, isRefreshingAudios, onRefreshAudios,
     isFileSystemApiSupported,
@@ -194,6 +224,7 @@ const StoryElementsPanel: React.FC<StoryElementsPanelProps> = ({
     projectColors,
     projectSettings, onUpdateProjectSettings, hasProject,
     dismissedImplicitVarHint, onDismissImplicitVarHint, onOpenDiagnostics,
+    outlineBlock, outlineCursorLine, onOutlineNavigate,
 }) => {
     const [activeSubTab, setActiveSubTab] = useState<SubTabId>(
         projectSettings.storyElementsTabState?.activeSubTab ?? 'characters'
@@ -209,6 +240,11 @@ const StoryElementsPanel: React.FC<StoryElementsPanelProps> = ({
     const imagesArray = useMemo(() => Array.from(projectImages.values()), [projectImages]);
     const audiosArray = useMemo(() => Array.from(projectAudios.values()), [projectAudios]);
 
+    const outlineSymbols = useMemo(
+        () => (activeSubTab === 'outline' && outlineBlock ? buildDocumentSymbols(outlineBlock.content) : []),
+        [activeSubTab, outlineBlock],
+    );
+
     const { characters, characterUsage } = analysisResult;
     const characterList = useMemo(
         () => Array.from(characters.values()).sort((a: Character, b: Character) => a.name.localeCompare(b.name)),
@@ -251,6 +287,25 @@ const StoryElementsPanel: React.FC<StoryElementsPanelProps> = ({
 
             {/* Pane content — full remaining height. Colors pane manages its own scroll internally. */}
             <div className={`flex-1 min-h-0 ${activeSubTab === 'colorPalette' ? 'overflow-hidden' : 'overflow-y-auto overscroll-contain p-4'}`}>
+                {/* Outline */}
+                {activeSubTab === 'outline' && (
+                    <div>
+                        <h2 className="text-lg font-semibold mb-1">Outline</h2>
+                        {outlineBlock ? (
+                            <>
+                                <p className="text-xs text-secondary font-mono truncate mb-3" title={outlineBlock.filePath}>{outlineBlock.filePath || outlineBlock.title}</p>
+                                <OutlineView
+                                    symbols={outlineSymbols}
+                                    activeLine={outlineCursorLine}
+                                    onSelectSymbol={(symbol) => onOutlineNavigate(outlineBlock.id, symbol.startLine)}
+                                />
+                            </>
+                        ) : (
+                            <p className="text-sm text-secondary italic mt-3">Open a script in the editor to see its outline.</p>
+                        )}
+                    </div>
+                )}
+
                 {/* Characters */}
                 {activeSubTab === 'characters' && (
                     <div>
@@ -326,6 +381,29 @@ const StoryElementsPanel: React.FC<StoryElementsPanelProps> = ({
                     </div>
                 )}
 
+                {/* Transforms */}
+                {activeSubTab === 'transforms' && (
+                    <div>
+                        <h2 className="text-lg font-semibold mb-4">Transforms ({analysisResult.transforms.size})</h2>
+                        <TransformManager
+                            transforms={analysisResult.transforms}
+                            onFindDefinition={onFindTransformDefinition}
+                        />
+                    </div>
+                )}
+
+                {/* Styles */}
+                {activeSubTab === 'styles' && (
+                    <div>
+                        <h2 className="text-lg font-semibold mb-4">Styles ({analysisResult.styles.size})</h2>
+                        <StyleInspector
+                            styles={analysisResult.styles}
+                            guiDefines={analysisResult.guiDefines}
+                            onOpenLocation={onOpenStyleLocation}
+                        />
+                    </div>
+                )}
+
 
                 {/* Images */}
                 {activeSubTab === 'images' && (
@@ -0,0 +1,181 @@
+/**
+ * @file StoryOutlineImportModal.tsx
+ * @description Scaffolds stub labels from a Mermaid or Graphviz DOT outline (~180 lines).
+ * Key features: paste the outline or open a `.mmd`/`.dot` file; live preview of the files and
+ * labels that will be created, outline nodes that link to existing labels, and skipped lines;
+ * target folder input.
+ * Integration: opened from File → Import Story Outline or the Story Canvas context menu;
+ * parsing and scaffolding live in `lib/storyGraphFormats`; the files are created by App
+ * through the same path as `CreateBlockModal`.
+ */
+import React, { useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useModalAccessibility } from '@/hooks/useModalAccessibility';
+import { parseStoryOutline, scaffoldStoryOutline, type ScaffoldFile } from '@/lib/storyGraphFormats';
+
+interface StoryOutlineImportModalProps {
+  /** Labels already defined in the project */
+  existingLabels: string[];
+  /** Project-relative paths of the open script files, used to avoid file name clashes */
+  existingFilePaths: string[];
+  defaultFolder: string;
+  onConfirm: (files: ScaffoldFile[], folderPath: string) => void;
+  onClose: () => void;
+}
+
+const PLACEHOLDER = `flowchart LR
+  subgraph Chapter 1
+    intro[Wake up] --> door{Answer the door?}
+    door -->|Yes| alice[Meet Alice]
+    door -->|"Hide if scared"| hide[Hide]
+  end
+  alice --> ending
+  hide --> ending`;
+
+const inputClass = 'w-full rounded-md border border-primary bg-primary px-2 py-1.5 text-sm text-primary focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500';
+
+const StoryOutlineImportModal: React.FC<StoryOutlineImportModalProps> = ({
+  existingLabels,
+  existingFilePaths,
+  defaultFolder,
+  onConfirm,
+  onClose,
+}) => {
+  const { modalProps, contentRef } = useModalAccessibility({ isOpen: true, onClose, titleId: 'outline-import-title' });
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [text, setText] = useState('');
+  const [folder, setFolder] = useState(defaultFolder);
+  const [readError, setReadError] = useState<string | null>(null);
+
+  const folderPrefix = folder.trim().replace(/\/?$/, '/').replace(/^\/$/, '');
+
+  const preview = useMemo(() => {
+    if (!text.trim()) return null;
+    try {
+      const outline = parseStoryOutline(text);
+      const existingFileNames = existingFilePaths
+        .filter(path => path.startsWith(folderPrefix) && !path.slice(folderPrefix.length).includes('/'))
+        .map(path => path.slice(folderPrefix.length));
+      return {
+        outline,
+        scaffold: scaffoldStoryOutline(outline, { existingLabels, existingFileNames, defaultFileName: 'outline.rpy' }),
+        error: null,
+      };
+    } catch (err) {
+      return { outline: null, scaffold: null, error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [text, folderPrefix, existingLabels, existingFilePaths]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setText(await file.text());
+      setReadError(null);
+    } catch (err) {
+      setReadError(`Could not read ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const files = preview?.scaffold?.files ?? [];
+  const handleConfirm = () => {
+    if (files.length === 0) return;
+    onConfirm(files, folderPrefix);
+    onClose();
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50" onClick={onClose} {...modalProps}>
+      <div
+        ref={contentRef}
+        className="bg-secondary rounded-lg shadow-2xl w-full max-w-3xl m-4 flex flex-col border border-primary text-primary max-h-[90vh]"
+        onClick={e => e.stopPropagation()}
+      >
+        <header className="px-6 py-5 border-b border-primary">
+          <h2 id="outline-import-title" className="text-xl font-bold">Import Story Outline</h2>
+          <p className="mt-1 text-xs text-secondary">
+            Paste a Mermaid flowchart or Graphviz DOT graph. Each node becomes a stub label; labelled or branching
+            edges become menu choices, single edges become jumps, thick or bold edges become calls.
+          </p>
+        </header>
+        <main className="px-6 py-5 grid grid-cols-2 gap-4 overflow-hidden min-h-0">
+          <div className="flex flex-col gap-2 min-h-0">
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-secondary">Outline</span>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="text-xs px-2 py-1 rounded border border-primary hover:bg-tertiary-hover"
+              >
+                Open File…
+              </button>
+              <input ref={fileInputRef} type="file" accept=".mmd,.mermaid,.md,.dot,.gv,.txt" className="hidden" onChange={handleFile} />
+            </div>
+            <textarea
+              value={text}
+              onChange={e => setText(e.target.value)}
+              placeholder={PLACEHOLDER}
+              spellCheck={false}
+              aria-label="Outline"
+              className={`${inputClass} flex-1 min-h-[18rem] font-mono text-xs resize-none`}
+            />
+            <label className="block text-sm">
+              <span className="block mb-1 text-secondary">Create in folder</span>
+              <input type="text" value={folder} onChange={e => setFolder(e.target.value)} className={`${inputClass} font-mono`} />
+            </label>
+          </div>
+
+          <div className="flex flex-col gap-2 min-h-0">
+            <span className="text-sm text-secondary">Preview</span>
+            <div className="flex-1 overflow-y-auto rounded-md border border-primary bg-primary p-3 text-xs space-y-3">
+              {!preview && <p className="text-secondary">The files to create appear here.</p>}
+              {preview?.error && <p className="text-red-600 dark:text-red-400">{preview.error}</p>}
+              {files.map(file => (
+                <div key={file.fileName}>
+                  <p className="font-mono font-bold">{folderPrefix}{file.fileName}</p>
+                  <p className="text-secondary">{file.labels.length} {file.labels.length === 1 ? 'label' : 'labels'}: {file.labels.join(', ')}</p>
+                  <pre className="mt-1 max-h-40 overflow-auto rounded bg-secondary p-2 font-mono">{file.content}</pre>
+                </div>
+              ))}
+              {preview?.scaffold && files.length === 0 && (
+                <p className="text-amber-600 dark:text-amber-400">
+                  {preview.outline?.nodes.length === 0 ? 'No nodes found in the outline.' : 'Every node in the outline already exists as a label.'}
+                </p>
+              )}
+              {preview?.scaffold && preview.scaffold.existingLabels.length > 0 && (
+                <p className="text-secondary">
+                  Linked to existing labels: <span className="font-mono">{preview.scaffold.existingLabels.join(', ')}</span>.
+                  Their scripts are not changed.
+                </p>
+              )}
+              {preview?.outline && preview.outline.warnings.length > 0 && (
+                <ul className="text-amber-600 dark:text-amber-400 list-disc pl-4">
+                  {preview.outline.warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+                </ul>
+              )}
+            </div>
+            {readError && <p className="text-xs text-red-600 dark:text-red-400">{readError}</p>}
+          </div>
+        </main>
+        <footer className="bg-header px-6 py-4 rounded-b-lg flex justify-end items-center space-x-4 border-t border-primary">
+          <button
+            onClick={onClose}
+            className="bg-tertiary hover:bg-tertiary-hover text-primary font-bold py-2 px-4 rounded transition duration-200 border border-primary"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={files.length === 0}
+            className="bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white font-bold py-2 px-4 rounded transition duration-200"
+          >
+            {files.length > 1 ? `Create ${files.length} Files` : 'Create File'}
+          </button>
+        </footer>
+      </div>
+    </div>,
+    document.body,
+  );
+};
+
+export default StoryOutlineImportModal;
@@ -0,0 +1,277 @@
+/**
+ * @file StoryboardView.tsx
+ * @description Storyboard outline: every label in play order as one collapsible list (~280 lines).
+ * Key features: branches off a menu or conditional jump as indented sub-lists headed by the
+ * choice that leads there; per label a scene thumbnail, speaking characters, word count and
+ * menu choices; loop-back markers; filter; drag a label onto another to play it after that
+ * one, which rewrites the `jump` targets involved.
+ * Integration: opened as a static tab from `Toolbar`; the outline, stats and move checks come
+ * from `lib/storyboardOutline`, and App applies the move edits through the quick-fix path.
+ */
+import React, { useMemo, useState } from 'react';
+import type { Block, Character, DialogueLine, LabelNode, ProjectImage, RouteLink } from '@/types';
+import { buildImageUrlLookup } from '@/lib/renpyHover';
+import {
+  buildStoryboard,
+  checkStoryboardMovable,
+  checkStoryboardMove,
+  computeLabelStats,
+  type LabelStats,
+  type StoryboardEntry,
+} from '@/lib/storyboardOutline';
+
+interface StoryboardViewProps {
+  labelNodes: LabelNode[];
+  routeLinks: RouteLink[];
+  blocks: Block[];
+  dialogueLines: Map<string, DialogueLine[]>;
+  characters: Map<string, Character>;
+  projectImages: Map<string, ProjectImage>;
+  onOpenLocation: (blockId: string, line: number) => void;
+  /** Moves `nodeId` so it plays right after `afterId` */
+  onMoveLabel: (nodeId: string, afterId: string) => void;
+}
+
+interface DropTarget {
+  nodeId: string;
+  error: string | null;
+}
+
+const SectionLabel: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <h2 className="text-xs font-semibold text-secondary uppercase tracking-widest mb-3">{children}</h2>
+);
+
+/** Collects every entry id that has branches, for Expand/Collapse all */
+function collectBranchingIds(sequence: StoryboardEntry[], into: string[] = []): string[] {
+  for (const entry of sequence) {
+    if (entry.branches.length > 0) into.push(entry.nodeId);
+    entry.branches.forEach(branch => collectBranchingIds(branch, into));
+  }
+  return into;
+}
+
+const StoryboardView: React.FC<StoryboardViewProps> = ({
+  labelNodes,
+  routeLinks,
+  blocks,
+  dialogueLines,
+  characters,
+  projectImages,
+  onOpenLocation,
+  onMoveLabel,
+}) => {
+  const [filter, setFilter] = useState('');
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+
+  const sections = useMemo(() => buildStoryboard(labelNodes, routeLinks), [labelNodes, routeLinks]);
+  const stats = useMemo(() => computeLabelStats(labelNodes, blocks, dialogueLines), [labelNodes, blocks, dialogueLines]);
+  const nodes = useMemo(() => new Map(labelNodes.map(node => [node.id, node])), [labelNodes]);
+  const imageLookup = useMemo(() => buildImageUrlLookup(projectImages.values()), [projectImages]);
+  const fileNames = useMemo(
+    () => new Map(blocks.map(b => [b.id, b.filePath?.split('/').pop() ?? b.title ?? b.id])),
+    [blocks],
+  );
+  const branchingIds = useMemo(() => sections.flatMap(section => collectBranchingIds(section)), [sections]);
+  const totalWords = useMemo(() => Array.from(stats.values()).reduce((sum, s) => sum + s.wordCount, 0), [stats]);
+
+  const query = filter.trim().toLowerCase();
+  const matches = (nodeId: string, labelStats: LabelStats | undefined): boolean => {
+    if (!query) return true;
+    const node = nodes.get(nodeId);
+    if (node?.label.toLowerCase().includes(query)) return true;
+    return !!labelStats && (
+      labelStats.speakers.some(tag => (characters.get(tag)?.name ?? tag).toLowerCase().includes(query)) ||
+      labelStats.choices.some(choice => choice.text.toLowerCase().includes(query))
+    );
+  };
+
+  const toggle = (nodeId: string) => setCollapsed(prev => {
+    const next = new Set(prev);
+    if (next.has(nodeId)) next.delete(nodeId);
+    else next.add(nodeId);
+    return next;
+  });
+
+  /** The choice caption on the link from a branch point into one of its branches */
+  const branchCaption = (fromId: string, branch: StoryboardEntry[]): string => {
+    const link = routeLinks.find(l => l.sourceId === fromId && l.targetId === branch[0]?.nodeId);
+    if (link?.choiceText) return `"${link.choiceText}"${link.choiceCondition ? ` if ${link.choiceCondition}` : ''}`;
+    if (link?.choiceCondition) return `if ${link.choiceCondition}`;
+    if (link?.type === 'call') return 'call';
+    return link?.type === 'implicit' ? 'otherwise' : 'then';
+  };
+
+  const handleDragOver = (e: React.DragEvent, nodeId: string) => {
+    if (!draggingId) return;
+    const error = checkStoryboardMove(draggingId, nodeId, labelNodes, routeLinks);
+    if (!error) {
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+    }
+    if (dropTarget?.nodeId !== nodeId || dropTarget.error !== error) setDropTarget({ nodeId, error });
+  };
+
+  const handleDrop = (e: React.DragEvent, nodeId: string) => {
+    e.preventDefault();
+    if (draggingId && !checkStoryboardMove(draggingId, nodeId, labelNodes, routeLinks)) onMoveLabel(draggingId, nodeId);
+    setDraggingId(null);
+    setDropTarget(null);
+  };
+
+  const renderEntry = (entry: StoryboardEntry): React.ReactNode => {
+    const node = nodes.get(entry.nodeId);
+    if (!node) return null;
+    const labelStats = stats.get(entry.nodeId);
+    const imageUrl = node.sceneImageName ? imageLookup.get(node.sceneImageName.toLowerCase()) : undefined;
+    const isCollapsed = collapsed.has(entry.nodeId);
+    const movableError = checkStoryboardMovable(entry.nodeId, labelNodes, routeLinks);
+    const isDropTarget = dropTarget?.nodeId === entry.nodeId && draggingId !== entry.nodeId;
+
+    return (
+      <li key={entry.nodeId}>
+        <div
+          draggable={!movableError}
+          onDragStart={e => {
+            e.dataTransfer.effectAllowed = 'move';
+            e.dataTransfer.setData('text/plain', node.label);
+            setDraggingId(entry.nodeId);
+          }}
+          onDragEnd={() => { setDraggingId(null); setDropTarget(null); }}
+          onDragOver={e => handleDragOver(e, entry.nodeId)}
+          onDragLeave={() => setDropTarget(prev => (prev?.nodeId === entry.nodeId ? null : prev))}
+          onDrop={e => handleDrop(e, entry.nodeId)}
+          title={movableError ?? 'Drag onto another label to play this one after it'}
+          className={`flex items-start gap-3 p-2 rounded-md border-b-2 ${
+            isDropTarget ? (dropTarget.error ? 'border-red-500' : 'border-indigo-500') : 'border-transparent'
+          } ${draggingId === entry.nodeId ? 'opacity-40' : ''} ${matches(entry.nodeId, labelStats) ? '' : 'opacity-40'} ${
+            movableError ? '' : 'cursor-grab'
+          } hover:bg-gray-100 dark:hover:bg-gray-800`}
+        >
+          <button
+            onClick={() => toggle(entry.nodeId)}
+            disabled={entry.branches.length === 0}
+            aria-label={isCollapsed ? `Expand ${node.label}` : `Collapse ${node.label}`}
+            className="w-4 mt-1 shrink-0 text-xs text-secondary disabled:invisible"
+          >
+            {isCollapsed ? '▸' : '▾'}
+          </button>
+          <div className="w-24 h-14 shrink-0 rounded bg-tertiary border border-primary overflow-hidden flex items-center justify-center">
+            {imageUrl
+              ? <img src={imageUrl} alt={node.sceneImageName} className="w-full h-full object-cover" draggable={false} />
+              : <span className="text-[10px] text-secondary font-mono truncate px-1">{node.sceneImageName ?? 'no scene'}</span>}
+          </div>
+          <div className="min-w-0 flex-1">
+            <div className="flex items-baseline gap-2">
+              <button
+                onClick={() => onOpenLocation(node.blockId, node.startLine)}
+                className="font-mono font-semibold hover:underline truncate"
+              >
+                {node.label}
+              </button>
+              <span className="text-xs text-secondary font-mono truncate">{fileNames.get(node.blockId)}:{node.startLine}</span>
+              <span className="ml-auto shrink-0 text-xs text-secondary tabular-nums">
+                {(labelStats?.wordCount ?? 0).toLocaleString()} words
+              </span>
+            </div>
+            {labelStats && labelStats.speakers.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-1">
+                {labelStats.speakers.map(tag => {
+                  const character = characters.get(tag);
+                  return (
+                    <span key={tag} className="flex items-center gap-1 text-xs px-1.5 rounded-full bg-tertiary border border-primary">
+                      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: character?.color ?? '#9ca3af' }} />
+                      {character?.name ?? tag}
+                    </span>
+                  );
+                })}
+              </div>
+            )}
+            {labelStats && labelStats.choices.length > 0 && (
+              <ul className="mt-1 text-xs space-y-0.5">
+                {labelStats.choices.map(choice => (
+                  <li key={choice.line}>
+                    <button onClick={() => onOpenLocation(node.blockId, choice.line)} className="text-left hover:underline">
+                      <span className="text-secondary">›</span> "{choice.text}"
+                      {choice.condition && <span className="text-amber-600 dark:text-amber-400"> if {choice.condition}</span>}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {entry.loopsBackTo.length > 0 && (
+              <p className="mt-1 text-xs text-indigo-600 dark:text-indigo-400 font-mono">
+                ↩ {entry.loopsBackTo.map(id => nodes.get(id)?.label ?? id).join(', ')}
+              </p>
+            )}
+            {isDropTarget && dropTarget.error && <p className="mt-1 text-xs text-red-600 dark:text-red-400">{dropTarget.error}</p>}
+          </div>
+        </div>
+        {entry.branches.length > 0 && !isCollapsed && (
+          <div className="ml-6 pl-3 border-l border-primary space-y-2">
+            {entry.branches.map(branch => (
+              <div key={branch[0]?.nodeId}>
+                <p className="text-xs text-secondary italic px-2 pt-1">{branchCaption(entry.nodeId, branch)}</p>
+                <ol>{branch.map(child => renderEntry(child))}</ol>
+              </div>
+            ))}
+          </div>
+        )}
+      </li>
+    );
+  };
+
+  if (labelNodes.length === 0) {
+    return (
+      <div className="h-full flex items-center justify-center p-6 text-sm text-secondary">
+        No labels found in the project yet.
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full overflow-y-auto p-6 text-primary space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h1 className="text-2xl font-bold">Storyboard</h1>
+          <p className="text-xs text-secondary">
+            {labelNodes.length} labels · {totalWords.toLocaleString()} words · drag a label onto another to play it after that one
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={filter}
+            onChange={e => setFilter(e.target.value)}
+            placeholder="Filter labels, characters, choices..."
+            className="px-2 py-1 text-sm rounded bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 focus:ring-indigo-500 focus:border-indigo-500"
+          />
+          <button
+            onClick={() => setCollapsed(new Set())}
+            className="text-xs px-2 py-1 rounded border border-primary hover:bg-tertiary-hover"
+          >
+            Expand All
+          </button>
+          <button
+            onClick={() => setCollapsed(new Set(branchingIds))}
+            className="text-xs px-2 py-1 rounded border border-primary hover:bg-tertiary-hover"
+          >
+            Collapse All
+          </button>
+        </div>
+      </div>
+
+      {sections.map((section, i) => (
+        <section key={section[0]?.nodeId ?? i}>
+          <SectionLabel>
+            {i === 0 ? `From ${nodes.get(section[0]?.nodeId)?.label ?? 'start'}` : `Not reached from start: ${nodes.get(section[0]?.nodeId)?.label}`}
+          </SectionLabel>
+          <ol className="space-y-1">{section.map(entry => renderEntry(entry))}</ol>
+        </section>
+      ))}
+    </div>
+  );
+};
+
+export default StoryboardView;
@@ -0,0 +1,133 @@
+/**
+ * @file StyleInspector.tsx
+ * @description Style list and inspector for the project's Ren'Py styles (~150 lines).
+ * Key features: filterable list of styles defined with `style` statements or from Python;
+ * for the selected style, its `is` chain as clickable breadcrumbs and the resolved property
+ * set, each property linked to the line that set it. Values that are plain `gui.*` references
+ * show the value of the matching `define gui.*`.
+ * Integration: rendered in the Styles tab of `StoryElementsPanel`; styles and gui defines come
+ * from `useRenpyAnalysis`; resolution is done by `resolveStyle` in `lib/renpyStyles`.
+ */
+
+import React, { useMemo, useState } from 'react';
+import type { RenpyStyle, Variable } from '@/types';
+import { BUILTIN_STYLES, resolveStyle } from '@/lib/renpyStyles';
+
+const GUI_REFERENCE_RE = /^gui\.[a-zA-Z_][\w.]*$/;
+
+interface StyleInspectorProps {
+    styles: Map<string, RenpyStyle>;
+    guiDefines: Map<string, Variable>;
+    onOpenLocation: (blockId: string, line: number) => void;
+}
+
+const StyleInspector: React.FC<StyleInspectorProps> = ({ styles, guiDefines, onOpenLocation }) => {
+    const [filter, setFilter] = useState('');
+    const [selected, setSelected] = useState<string | null>(null);
+
+    const styleNames = useMemo(() => {
+        const query = filter.trim().toLowerCase();
+        return Array.from(styles.keys())
+            .filter(name => !query || name.toLowerCase().includes(query))
+            .sort((a, b) => a.localeCompare(b));
+    }, [styles, filter]);
+
+    const resolved = useMemo(
+        () => (selected ? resolveStyle(selected, styles) : null),
+        [selected, styles],
+    );
+    const selectedStyle = selected ? styles.get(selected) : undefined;
+
+    if (styles.size === 0) {
+        return <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">No styles defined yet.</p>;
+    }
+
+    return (
+        <div className="space-y-3">
+            <input
+                type="text"
+                value={filter}
+                onChange={e => setFilter(e.target.value)}
+                placeholder="Filter styles..."
+                className="w-full p-2 text-sm rounded bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+            <ul className="max-h-60 overflow-y-auto rounded-md border border-gray-200 dark:border-gray-700" role="listbox" aria-label="Styles">
+                {styleNames.map(name => (
+                    <li key={name}>
+                        <button
+                            role="option"
+                            aria-selected={selected === name}
+                            onClick={() => setSelected(name)}
+                            className={`w-full text-left px-2 py-1 font-mono text-sm truncate ${selected === name ? 'bg-indigo-100 dark:bg-indigo-900/50 text-indigo-700 dark:text-indigo-300' : 'hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+                        >
+                            {name}
+                        </button>
+                    </li>
+                ))}
+                {styleNames.length === 0 && (
+                    <li className="px-2 py-1 text-xs text-gray-500 dark:text-gray-400">No matching styles.</li>
+                )}
+            </ul>
+
+            {resolved && selected && (
+                <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                        <h3 className="font-semibold font-mono text-sm truncate" title={selected}>{selected}</h3>
+                        {selectedStyle && (
+                            <button onClick={() => onOpenLocation(selectedStyle.definedInBlockId, selectedStyle.line)} title="Go to definition" className="p-1 text-gray-500 hover:text-indigo-600 dark:hover:text-indigo-400 rounded">
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" /></svg>
+                            </button>
+                        )}
+                    </div>
+                    <nav className="flex flex-wrap items-center gap-1 text-xs font-mono" aria-label="Inheritance chain">
+                        {resolved.chain.map((name, index) => (
+                            <React.Fragment key={name}>
+                                {index > 0 && <span className="text-gray-400">›</span>}
+                                {styles.has(name) ? (
+                                    <button onClick={() => setSelected(name)} className="text-indigo-600 dark:text-indigo-400 hover:underline">{name}</button>
+                                ) : (
+                                    <span className="text-gray-500 dark:text-gray-400" title={BUILTIN_STYLES.has(name) ? 'Built-in style' : 'Not defined in the project'}>{name}</span>
+                                )}
+                            </React.Fragment>
+                        ))}
+                    </nav>
+                    {resolved.properties.length === 0 ? (
+                        <p className="text-xs text-gray-500 dark:text-gray-400">No properties set in the project for this chain.</p>
+                    ) : (
+                        <table className="w-full text-xs font-mono">
+                            <thead>
+                                <tr className="text-left text-gray-500 dark:text-gray-400">
+                                    <th className="font-normal pr-2">Property</th>
+                                    <th className="font-normal pr-2">Value</th>
+                                    <th className="font-normal">From</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {resolved.properties.map(property => {
+                                    const gui = GUI_REFERENCE_RE.test(property.value) ? guiDefines.get(property.value) : undefined;
+                                    return (
+                                        <tr
+                                            key={`${property.style}:${property.name}`}
+                                            onClick={() => onOpenLocation(property.blockId, property.line)}
+                                            title={`Go to line ${property.line}`}
+                                            className="cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700 align-top"
+                                        >
+                                            <td className="pr-2 py-0.5">{property.name}</td>
+                                            <td className="pr-2 py-0.5 break-all">
+                                                {property.value}
+                                                {gui && <span className="text-gray-500 dark:text-gray-400"> = {gui.initialValue}</span>}
+                                            </td>
+                                            <td className={`py-0.5 ${property.style === selected ? '' : 'text-gray-500 dark:text-gray-400'}`}>{property.style}</td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default StyleInspector;
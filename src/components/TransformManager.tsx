@@ -0,0 +1,69 @@
+/**
+ * @file TransformManager.tsx
+ * @description Virtualised list of all Ren'Py `transform` definitions parsed from project scripts (~70 lines).
+ * Key features: alphabetically sorted, shows transform name, parameter list and defining file, click
+ * navigates to the definition in the Monaco editor.
+ * Integration: rendered in the Transforms tab of `StoryElementsPanel`; transform data comes from
+ * `useRenpyAnalysis`; navigates via `onFindDefinition` which opens the file and scrolls to the line.
+ */
+
+import React, { useMemo } from 'react';
+import type { RenpyTransform } from '@/types';
+import { useVirtualList } from '@/hooks/useVirtualList';
+
+// p-2 (16px) + main text line (20px) + optional detail line (16px) + space-y-2 gap (8px)
+const TRANSFORM_ITEM_HEIGHT = 60;
+
+interface TransformManagerProps {
+    transforms: Map<string, RenpyTransform>;
+    onFindDefinition: (transformName: string) => void;
+}
+
+const TransformManager: React.FC<TransformManagerProps> = ({ transforms, onFindDefinition }) => {
+    const transformList = useMemo(
+        () => Array.from(transforms.values()).sort((a: RenpyTransform, b: RenpyTransform) => a.name.localeCompare(b.name)),
+        [transforms],
+    );
+
+    const { containerRef, handleScroll, virtualItems, totalHeight } = useVirtualList(transformList, TRANSFORM_ITEM_HEIGHT);
+
+    return (
+        <>
+            {transformList.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">No transforms defined yet.</p>
+            ) : (
+                <div
+                    ref={containerRef}
+                    className="relative"
+                    onScroll={handleScroll}
+                >
+                    <div style={{ height: totalHeight, position: 'relative' }}>
+                        {virtualItems.map(({ item: transform, offsetTop }) => {
+                            const location = transform.filePath ? `${transform.filePath.split('/').pop()}:${transform.line}` : '';
+                            const detail = [transform.parameters, location].filter(Boolean).join(' · ');
+                            return (
+                                <div
+                                    key={transform.name}
+                                    style={{ position: 'absolute', top: offsetTop, left: 0, right: 0, height: TRANSFORM_ITEM_HEIGHT - 8 }}
+                                    className="p-2 rounded-md bg-gray-50 dark:bg-gray-700/50 flex items-center justify-between"
+                                >
+                                    <div className="flex-grow min-w-0">
+                                        <p className="font-semibold font-mono text-sm truncate" title={transform.name}>{transform.name}</p>
+                                        {detail && <p className="text-xs text-gray-500 dark:text-gray-400 font-mono truncate" title={transform.filePath}>{detail}</p>}
+                                    </div>
+                                    <div className="flex items-center space-x-1 flex-shrink-0 pl-2">
+                                        <button onClick={() => onFindDefinition(transform.name)} title="Go to definition" className="p-1 text-gray-500 hover:text-indigo-600 dark:hover:text-indigo-400 rounded">
+                                           <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" /></svg>
+                                        </button>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            )}
+        </>
+    );
+};
+
+export default TransformManager;
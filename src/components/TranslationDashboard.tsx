@@ -1,14 +1,35 @@
 /**
  * @file TranslationDashboard.tsx
- * @description Read-only dashboard that displays translation coverage across
- * detected languages. Three sections: language overview cards, file breakdown
- * table, and a virtual string-level view.
+ * @description Dashboard that displays translation coverage across detected
+ * languages. Three sections: language overview cards, file breakdown table, and a
+ * virtual string-level view. Picking a string to translate swaps the file breakdown
+ * for `TranslationWorkbench`, which edits the translation and its review flag. Export and
+ * Import in the header open `TranslationExchangeModal` for XLIFF, PO and CSV round-trips.
+ * Translations whose block ID no longer matches any source line are listed as orphaned, and
+ * "Add Missing Stubs" writes `translate` blocks for every line the language is missing.
+ * The workbench suggests translations from the translation memory and the project's current
+ * translations; "Glossary…" edits the agreed translation of names and terms per language.
  */
 import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react';
 import { createPortal } from 'react-dom';
-import type { TranslationAnalysisResult, LanguageCoverage, TranslationFileBreakdown, Block } from '@/types';
+import type {
+  TranslationAnalysisResult,
+  LanguageCoverage,
+  TranslationFileBreakdown,
+  Block,
+  TranslatableString,
+  TranslationMemoryEntry,
+  GlossaryEntry,
+} from '@/types';
 import { useVirtualList } from '@/hooks/useVirtualList';
 import { useModalAccessibility } from '@/hooks/useModalAccessibility';
+import { findAdjacentUntranslated, findTranslationEntry, getTranslationReviewKey } from '@/lib/translationWorkbench';
+import type { TranslationExchangeEntry, TranslationImportPlan } from '@/lib/translationExchange';
+import { isTranslationStale } from '@/lib/renpyTranslationParser';
+import { collectProjectTranslations, findGlossaryTerms, findTranslationSuggestions } from '@/lib/translationMemory';
+import TranslationWorkbench from './TranslationWorkbench';
+import TranslationExchangeModal from './TranslationExchangeModal';
+import TranslationGlossaryModal from './TranslationGlossaryModal';
 
 // ---------------------------------------------------------------------------
 // Props
@@ -21,6 +42,20 @@ interface TranslationDashboardProps {
   onGenerateTranslations: (language: string) => Promise<void>;
   isGenerating: boolean;
   isRenpyPathValid: boolean;
+  /** Writes a translation into the `tl/` scripts; returns false when it was refused. Enables the workbench. */
+  onSaveTranslation?: (source: TranslatableString, language: string, text: string) => boolean;
+  /** "Needs review" flags per language, keyed by `getTranslationReviewKey` */
+  reviewFlags?: Record<string, string[]>;
+  onToggleReview?: (language: string, key: string, needsReview: boolean) => void;
+  /** Plans merging an imported XLIFF/PO/CSV file; together with `onApplyTranslationImport` enables Import */
+  onPlanTranslationImport?: (entries: TranslationExchangeEntry[], language: string, overwrite: boolean) => TranslationImportPlan;
+  onApplyTranslationImport?: (plan: TranslationImportPlan, language: string) => void;
+  /** Writes stubs for every line the language has no translation of */
+  onAddMissingStubs?: (language: string) => void;
+  /** Confirmed translations per language, suggested for similar strings */
+  translationMemory?: Record<string, TranslationMemoryEntry[]>;
+  glossary?: Record<string, GlossaryEntry[]>;
+  onUpdateGlossary?: (language: string, entries: GlossaryEntry[]) => void;
 }
 
 // ---------------------------------------------------------------------------
@@ -69,7 +104,7 @@ function sortFileBreakdown(rows: TranslationFileBreakdown[], key: FileSortKey, d
 // Status filter type
 // ---------------------------------------------------------------------------
 
-type StatusFilter = 'all' | 'translated' | 'untranslated' | 'stale';
+type StatusFilter = 'all' | 'translated' | 'untranslated' | 'stale' | 'review';
 
 // ---------------------------------------------------------------------------
 // Main component
@@ -77,7 +112,23 @@ type StatusFilter = 'all' | 'translated' | 'untranslated' | 'stale';
 
 const LANGUAGE_PATTERN = /^[a-z][a-z0-9_]*$/;
 
-const TranslationDashboard: React.FC<TranslationDashboardProps> = ({ translationData, blocks: _blocks, onOpenBlock, onGenerateTranslations, isGenerating, isRenpyPathValid }) => {
+const TranslationDashboard: React.FC<TranslationDashboardProps> = ({
+  translationData,
+  blocks: _blocks,
+  onOpenBlock,
+  onGenerateTranslations,
+  isGenerating,
+  isRenpyPathValid,
+  onSaveTranslation,
+  reviewFlags,
+  onToggleReview,
+  onPlanTranslationImport,
+  onApplyTranslationImport,
+  onAddMissingStubs,
+  translationMemory,
+  glossary,
+  onUpdateGlossary,
+}) => {
   // --- State ---
   const [selectedLanguage, setSelectedLanguage] = useState<string | null>(null);
   const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
@@ -86,6 +137,9 @@ const TranslationDashboard: React.FC<TranslationDashboardProps> = ({ translation
   const [fileSortDir, setFileSortDir] = useState<SortDir>('asc');
   const [showGenerateForm, setShowGenerateForm] = useState(false);
   const [languageInput, setLanguageInput] = useState('');
+  const [editingStringId, setEditingStringId] = useState<string | null>(null);
+  const [exchangeMode, setExchangeMode] = useState<'export' | 'import' | null>(null);
+  const [isGlossaryOpen, setIsGlossaryOpen] = useState(false);
   const generateModalRef = useRef<HTMLDivElement>(null);
 
   const isLanguageValid = LANGUAGE_PATTERN.test(languageInput);
@@ -220,7 +274,7 @@ const TranslationDashboard: React.FC<TranslationDashboardProps> = ({ translation
       )
     : null;
 
-  const { languageCoverages, detectedLanguages, translatableStrings, stringTranslations } = translationData;
+  const { languageCoverages, detectedLanguages, translatableStrings, stringTranslations, orphanedTranslations, missingTranslations } = translationData;
 
   // Auto-select first language if none selected
   const activeLang = selectedLanguage && detectedLanguages.includes(selectedLanguage) ? selectedLanguage : detectedLanguages[0] ?? null;
@@ -249,6 +303,19 @@ const TranslationDashboard: React.FC<TranslationDashboardProps> = ({ translation
     onOpenBlock(sourceBlockId, sourceLine);
   }, [detectedLanguages, getTranslationForLanguage, onOpenBlock]);
 
+  // Review flags of strings that still exist, per language
+  const reviewKeysByLanguage = useMemo(() => {
+    const keys = new Map(translatableStrings.map(s => [getTranslationReviewKey(s), s.filePath]));
+    const result = new Map<string, Map<string, string>>();
+    for (const [language, flagged] of Object.entries(reviewFlags ?? {})) {
+      result.set(language, new Map(flagged.filter(key => keys.has(key)).map(key => [key, keys.get(key)!])));
+    }
+    return result;
+  }, [translatableStrings, reviewFlags]);
+  const activeReviewKeys = activeLang ? reviewKeysByLanguage.get(activeLang) : undefined;
+  const activeOrphans = (activeLang && orphanedTranslations.get(activeLang)) || [];
+  const activeMissing = (activeLang && missingTranslations.get(activeLang)) || [];
+
   const activeCoverage: LanguageCoverage | null = useMemo(
     () => languageCoverages.find(c => c.language === activeLang) ?? null,
     [languageCoverages, activeLang],
@@ -264,6 +331,10 @@ const TranslationDashboard: React.FC<TranslationDashboardProps> = ({ translation
     if (statusFilter === 'translated') rows = rows.filter(r => getEffectiveTranslated(r) > 0);
     else if (statusFilter === 'untranslated') rows = rows.filter(r => getEffectiveTranslated(r) < r.totalStrings);
     else if (statusFilter === 'stale') rows = rows.filter(r => r.staleCount > 0);
+    else if (statusFilter === 'review') {
+      const flaggedFiles = new Set(activeReviewKeys?.values());
+      rows = rows.filter(r => flaggedFiles.has(r.sourceFilePath));
+    }
 
     // Text filter
     if (textFilter) {
@@ -272,7 +343,7 @@ const TranslationDashboard: React.FC<TranslationDashboardProps> = ({ translation
     }
 
     return sortFileBreakdown(rows, fileSortKey, fileSortDir);
-  }, [activeCoverage, statusFilter, textFilter, fileSortKey, fileSortDir]);
+  }, [activeCoverage, statusFilter, textFilter, fileSortKey, fileSortDir, activeReviewKeys]);
 
   // --- String-level items ---
   const stringItems = useMemo(() => {
@@ -283,16 +354,46 @@ const TranslationDashboard: React.FC<TranslationDashboardProps> = ({ translation
       if (statusFilter === 'all') return true;
       const translations = stringTranslations.get(s.id);
       const hasTranslation = translations?.has(activeLang);
-      const isStale = hasTranslation && translations!.get(activeLang)!.translatedText === s.sourceText;
+      const isStale = hasTranslation && isTranslationStale(s, translations!.get(activeLang)!);
       if (statusFilter === 'translated') return hasTranslation && !isStale;
       if (statusFilter === 'untranslated') return !hasTranslation;
       if (statusFilter === 'stale') return isStale;
+      if (statusFilter === 'review') return !!activeReviewKeys?.has(getTranslationReviewKey(s));
       return true;
     });
-  }, [translatableStrings, activeLang, textFilter, statusFilter, stringTranslations]);
+  }, [translatableStrings, activeLang, textFilter, statusFilter, stringTranslations, activeReviewKeys]);
 
   const { containerRef, handleScroll, virtualItems, totalHeight } = useVirtualList(stringItems, 56);
 
+  // --- Workbench ---
+  const editingIndex = editingStringId ? translatableStrings.findIndex(s => s.id === editingStringId) : -1;
+  const editingSource = editingIndex >= 0 && activeLang && onSaveTranslation ? translatableStrings[editingIndex] : null;
+
+  const editingSuggestions = useMemo(() => {
+    if (!editingSource || !activeLang) return [];
+    const candidates = [...(translationMemory?.[activeLang] ?? []), ...collectProjectTranslations(translationData, activeLang, editingSource.id)];
+    return findTranslationSuggestions(editingSource.sourceText, candidates);
+  }, [editingSource, activeLang, translationMemory, translationData]);
+
+  const navigateWorkbench = useCallback((direction: 1 | -1) => {
+    if (!activeLang) return false;
+    const next = findAdjacentUntranslated(translatableStrings, editingIndex, direction, activeLang, stringTranslations);
+    if (next === -1) return false;
+    setEditingStringId(translatableStrings[next].id);
+    return true;
+  }, [activeLang, translatableStrings, editingIndex, stringTranslations]);
+
+  // Keep the string being translated in view in the list below
+  useEffect(() => {
+    const container = containerRef.current;
+    const index = editingStringId ? stringItems.findIndex(s => s.id === editingStringId) : -1;
+    if (!container || index === -1) return;
+    const top = index * 56;
+    if (top < container.scrollTop || top + 56 > container.scrollTop + container.clientHeight) {
+      container.scrollTop = Math.max(0, top - container.clientHeight / 2);
+    }
+  }, [editingStringId, stringItems, containerRef]);
+
   const toggleSort = useCallback((key: FileSortKey) => {
     setFileSortKey(prev => {
       if (prev === key) {
@@ -335,7 +436,45 @@ const TranslationDashboard: React.FC<TranslationDashboardProps> = ({ translation
       <section className="flex-none px-6 pt-6 pb-4 border-b border-primary">
         <div className="flex items-center justify-between mb-3">
           <SectionLabel>Language Coverage</SectionLabel>
-          {!showGenerateForm && generateButton}
+          <div className="flex items-center gap-2">
+            {detectedLanguages.length > 0 && (
+              <button
+                onClick={() => setExchangeMode('export')}
+                className="px-3 py-1.5 text-xs font-medium rounded-md bg-secondary text-secondary hover:bg-tertiary border border-primary transition-colors"
+                title="Export strings to XLIFF, PO or CSV for translation tools"
+              >
+                Export…
+              </button>
+            )}
+            {detectedLanguages.length > 0 && onPlanTranslationImport && onApplyTranslationImport && (
+              <button
+                onClick={() => setExchangeMode('import')}
+                className="px-3 py-1.5 text-xs font-medium rounded-md bg-secondary text-secondary hover:bg-tertiary border border-primary transition-colors"
+                title="Merge a translated XLIFF, PO or CSV file into the tl/ scripts"
+              >
+                Import…
+              </button>
+            )}
+            {activeMissing.length > 0 && onAddMissingStubs && (
+              <button
+                onClick={() => onAddMissingStubs(activeLang!)}
+                className="px-3 py-1.5 text-xs font-medium rounded-md bg-secondary text-secondary hover:bg-tertiary border border-primary transition-colors"
+                title={`Write translate blocks for every line missing from ${activeLang}`}
+              >
+                Add {activeMissing.length} Missing {activeMissing.length === 1 ? 'Stub' : 'Stubs'}
+              </button>
+            )}
+            {activeLang && onUpdateGlossary && (
+              <button
+                onClick={() => setIsGlossaryOpen(true)}
+                className="px-3 py-1.5 text-xs font-medium rounded-md bg-secondary text-secondary hover:bg-tertiary border border-primary transition-colors"
+                title={`Agreed ${activeLang} translations of character names and key terms`}
+              >
+                Glossary…
+              </button>
+            )}
+            {!showGenerateForm && generateButton}
+          </div>
         </div>
         <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-3">
           {languageCoverages.map(cov => (
@@ -352,10 +491,38 @@ const TranslationDashboard: React.FC<TranslationDashboardProps> = ({ translation
               <div className="flex justify-between text-xs text-secondary">
                 <span>{cov.translatedCount - cov.staleCount}/{cov.totalStrings}</span>
                 {cov.staleCount > 0 && <span className="text-amber-500">{cov.staleCount} stale</span>}
+                {(orphanedTranslations.get(cov.language)?.length ?? 0) > 0 && (
+                  <span className="text-red-500">{orphanedTranslations.get(cov.language)!.length} orphaned</span>
+                )}
+                {(reviewKeysByLanguage.get(cov.language)?.size ?? 0) > 0 && (
+                  <span className="text-sky-500">{reviewKeysByLanguage.get(cov.language)!.size} to review</span>
+                )}
               </div>
             </button>
           ))}
         </div>
+        {activeOrphans.length > 0 && (
+          <details className="mt-3 text-xs">
+            <summary className="cursor-pointer text-red-600 dark:text-red-400">
+              {activeOrphans.length} orphaned {activeLang} {activeOrphans.length === 1 ? 'translation matches' : 'translations match'} no source line
+            </summary>
+            <ul className="mt-2 max-h-32 overflow-y-auto space-y-1">
+              {activeOrphans.map(t => (
+                <li key={`${t.blockId}:${t.line}`}>
+                  <button
+                    type="button"
+                    onClick={() => onOpenBlock(t.blockId, t.line)}
+                    className="flex gap-2 w-full text-left hover:text-indigo-500"
+                  >
+                    <span className="font-mono text-secondary flex-none">{t.id}</span>
+                    <span className="truncate text-primary">{t.translatedText}</span>
+                    <span className="ml-auto flex-none text-secondary">{t.filePath}:{t.line}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
       </section>
 
       {/* ── Filters (shared between both tables) ── */}
@@ -379,7 +546,7 @@ const TranslationDashboard: React.FC<TranslationDashboardProps> = ({ translation
 
             {/* Status pills */}
             <div className="flex rounded-md border border-primary overflow-hidden text-xs flex-none">
-              {(['all', 'translated', 'untranslated', 'stale'] as StatusFilter[]).map(s => (
+              {(['all', 'translated', 'untranslated', 'stale', ...(onToggleReview ? ['review'] : [])] as StatusFilter[]).map(s => (
                 <button
                   key={s}
                   onClick={() => setStatusFilter(s)}
@@ -387,7 +554,7 @@ const TranslationDashboard: React.FC<TranslationDashboardProps> = ({ translation
                     statusFilter === s ? 'bg-indigo-500 text-white' : 'bg-secondary text-secondary hover:bg-tertiary'
                   }`}
                 >
-                  {s === 'all' ? 'All Status' : s}
+                  {s === 'all' ? 'All Status' : s === 'review' ? 'needs review' : s}
                 </button>
               ))}
             </div>
@@ -412,8 +579,31 @@ const TranslationDashboard: React.FC<TranslationDashboardProps> = ({ translation
 
       {/* ── Bottom half: two tables split 50/50 ── */}
       <div className="flex-1 min-h-0 flex flex-col px-6 pb-6 gap-4">
-        {/* ── Section 2: File Breakdown Table ── */}
-        {activeCoverage && (
+        {/* ── Section 2: Workbench, or the File Breakdown Table ── */}
+        {editingSource && activeLang && (
+          <section className="flex-1 min-h-0 flex flex-col">
+            <TranslationWorkbench
+              key={`${editingSource.id}:${activeLang}`}
+              source={editingSource}
+              language={activeLang}
+              translation={findTranslationEntry(editingSource, activeLang, translationData)}
+              needsReview={!!activeReviewKeys?.has(getTranslationReviewKey(editingSource))}
+              suggestions={editingSuggestions}
+              glossaryTerms={findGlossaryTerms(editingSource.sourceText, glossary?.[activeLang])}
+              position={{ index: editingIndex + 1, total: translatableStrings.length }}
+              onSave={text => onSaveTranslation!(editingSource, activeLang, text)}
+              onToggleReview={needsReview => onToggleReview?.(activeLang, getTranslationReviewKey(editingSource), needsReview)}
+              onNavigate={navigateWorkbench}
+              onOpenSource={() => onOpenBlock(editingSource.blockId, editingSource.line)}
+              onOpenTranslation={() => {
+                const entry = findTranslationEntry(editingSource, activeLang, translationData);
+                if (entry) onOpenBlock(entry.blockId, entry.line);
+              }}
+              onClose={() => setEditingStringId(null)}
+            />
+          </section>
+        )}
+        {activeCoverage && !editingSource && (
           <section className="flex-1 min-h-0 flex flex-col">
             <SectionLabel>File Breakdown — {activeLang}</SectionLabel>
             <div className="flex-1 min-h-0 overflow-auto rounded-lg border border-primary">
@@ -479,11 +669,12 @@ const TranslationDashboard: React.FC<TranslationDashboardProps> = ({ translation
             <div style={{ height: totalHeight, position: 'relative' }}>
               {virtualItems.map(({ item: s, index, offsetTop }) => {
                 const translations = stringTranslations.get(s.id);
+                const needsReview = !!activeReviewKeys?.has(getTranslationReviewKey(s));
 
                 return (
                   <div
                     key={s.id}
-                    className="absolute left-0 right-0 flex items-center gap-3 px-3 border-b border-primary hover:bg-tertiary-hover cursor-pointer"
+                    className={`absolute left-0 right-0 flex items-center gap-3 px-3 border-b border-primary hover:bg-tertiary-hover cursor-pointer ${s.id === editingStringId ? 'bg-indigo-50 dark:bg-indigo-900/30' : ''}`}
                     style={{ top: offsetTop, height: 56 }}
                     onClick={() => openTranslationForString(s.id, s.blockId, s.line, activeLang)}
                     role="button"
@@ -509,11 +700,17 @@ const TranslationDashboard: React.FC<TranslationDashboardProps> = ({ translation
                       <div className="text-[10px] text-secondary truncate">{s.filePath}:{s.line}</div>
                     </div>
 
+                    {needsReview && (
+                      <span className="text-[9px] font-bold uppercase px-1 py-0.5 rounded flex-none bg-sky-100 text-sky-700 dark:bg-sky-900 dark:text-sky-300" title={`${activeLang}: needs review`}>
+                        review
+                      </span>
+                    )}
+
                     {/* Language status badges */}
                     <div className="flex gap-1 flex-none">
                       {detectedLanguages.map(lang => {
                         const t = translations?.get(lang);
-                        const isStale = t && t.translatedText === s.sourceText;
+                        const isStale = t && isTranslationStale(s, t);
                         const color = t
                           ? isStale
                             ? 'bg-amber-100 text-amber-700 dark:bg-amber-900 dark:text-amber-300'
@@ -525,7 +722,7 @@ const TranslationDashboard: React.FC<TranslationDashboardProps> = ({ translation
                             type="button"
                             disabled={!t}
                             className={`text-[9px] font-bold uppercase px-1 py-0.5 rounded transition-colors focus:outline-none focus:ring-1 focus:ring-indigo-400 ${color} ${t ? 'cursor-pointer hover:brightness-95' : 'cursor-not-allowed opacity-60'}`}
-                            title={t ? (isStale ? `${lang}: stale` : `${lang}: ${t.translatedText}`) : `${lang}: missing`}
+                            title={t ? (isStale ? `${lang}: stale${t.translatedText === s.sourceText ? '' : ', source changed'}` : `${lang}: ${t.translatedText}`) : `${lang}: missing`}
                             aria-label={t ? `Open ${lang} translation` : `${lang} translation missing`}
                             onClick={(e) => {
                               e.stopPropagation();
@@ -540,6 +737,21 @@ const TranslationDashboard: React.FC<TranslationDashboardProps> = ({ translation
                         );
                       })}
                     </div>
+
+                    {onSaveTranslation && activeLang && (
+                      <button
+                        type="button"
+                        className="flex-none px-2 py-0.5 text-[10px] font-medium rounded border border-primary bg-secondary text-secondary hover:text-indigo-500 hover:border-indigo-400"
+                        aria-label={`Translate to ${activeLang}`}
+                        onKeyDown={e => e.stopPropagation()}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setEditingStringId(s.id);
+                        }}
+                      >
+                        Translate
+                      </button>
+                    )}
                   </div>
                 );
               })}
@@ -548,6 +760,24 @@ const TranslationDashboard: React.FC<TranslationDashboardProps> = ({ translation
         </section>
       </div>
       {generateModal}
+      {exchangeMode && (
+        <TranslationExchangeModal
+          mode={exchangeMode}
+          translationData={translationData}
+          initialLanguage={activeLang}
+          onPlanImport={onPlanTranslationImport}
+          onApplyImport={onApplyTranslationImport}
+          onClose={() => setExchangeMode(null)}
+        />
+      )}
+      {isGlossaryOpen && activeLang && onUpdateGlossary && (
+        <TranslationGlossaryModal
+          language={activeLang}
+          entries={glossary?.[activeLang] ?? []}
+          onSave={entries => onUpdateGlossary(activeLang, entries)}
+          onClose={() => setIsGlossaryOpen(false)}
+        />
+      )}
     </div>
   );
 };
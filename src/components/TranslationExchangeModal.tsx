@@ -0,0 +1,228 @@
+/**
+ * @file TranslationExchangeModal.tsx
+ * @description Exports a language to XLIFF, PO or CSV for CAT tools and merges translated files back (~230 lines).
+ * Key features: export with format, language and source language pickers; import from a file
+ * with a preview of the translations to write, plus conflicts, unknown IDs and strings whose
+ * source changed since export; option to overwrite conflicting translations.
+ * Integration: opened from the Translation Dashboard header; formats and merge planning live
+ * in `lib/translationExchange`; App plans the import on the live editor contents and applies it.
+ */
+import React, { useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import type { TranslationAnalysisResult } from '@/types';
+import { useModalAccessibility } from '@/hooks/useModalAccessibility';
+import { saveTextExport } from '@/lib/canvasExport';
+import {
+  buildTranslationExchange,
+  parseTranslationExchange,
+  serializeTranslationExchange,
+  TRANSLATION_EXCHANGE_FILE_TYPES,
+  type ParsedTranslationExchange,
+  type TranslationExchangeEntry,
+  type TranslationExchangeFormat,
+  type TranslationImportIssue,
+  type TranslationImportPlan,
+} from '@/lib/translationExchange';
+
+interface TranslationExchangeModalProps {
+  mode: 'export' | 'import';
+  translationData: TranslationAnalysisResult;
+  initialLanguage: string | null;
+  /** Plans the merge on the current scripts; required for import */
+  onPlanImport?: (entries: TranslationExchangeEntry[], language: string, overwrite: boolean) => TranslationImportPlan;
+  onApplyImport?: (plan: TranslationImportPlan, language: string) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full rounded-md border border-primary bg-primary px-2 py-1.5 text-sm text-primary focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500';
+const FORMATS = Object.keys(TRANSLATION_EXCHANGE_FILE_TYPES) as TranslationExchangeFormat[];
+
+const IssueList: React.FC<{ title: string; issues: TranslationImportIssue[]; className: string }> = ({ title, issues, className }) => (
+  issues.length === 0 ? null : (
+    <div>
+      <p className={`font-semibold ${className}`}>{title} ({issues.length})</p>
+      <ul className="mt-1 space-y-1">
+        {issues.map((issue, i) => (
+          <li key={i}>
+            <span className="font-mono text-secondary">{issue.id}</span> <span className="text-primary">{issue.source}</span>
+            <span className="block text-secondary">{issue.message}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+);
+
+const TranslationExchangeModal: React.FC<TranslationExchangeModalProps> = ({
+  mode,
+  translationData,
+  initialLanguage,
+  onPlanImport,
+  onApplyImport,
+  onClose,
+}) => {
+  const { modalProps, contentRef } = useModalAccessibility({ isOpen: true, onClose, titleId: 'translation-exchange-title' });
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [language, setLanguage] = useState(initialLanguage ?? translationData.detectedLanguages[0] ?? '');
+  const [format, setFormat] = useState<TranslationExchangeFormat>('xliff12');
+  const [sourceLanguage, setSourceLanguage] = useState('en');
+  const [imported, setImported] = useState<{ fileName: string; parsed: ParsedTranslationExchange } | null>(null);
+  const [overwrite, setOverwrite] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const plan = useMemo(
+    () => (imported && language && onPlanImport ? onPlanImport(imported.parsed.entries, language, overwrite) : null),
+    [imported, language, overwrite, onPlanImport],
+  );
+
+  const handleExport = async () => {
+    const fileType = TRANSLATION_EXCHANGE_FILE_TYPES[format];
+    const text = serializeTranslationExchange(buildTranslationExchange(translationData, language), format, language, sourceLanguage.trim() || 'en');
+    setIsSaving(true);
+    try {
+      const saved = await saveTextExport(text, `${language}.${fileType.extension}`, fileType.filter, fileType.mimeType, 'Export Translations');
+      if (saved) onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const parsed = parseTranslationExchange(await file.text(), file.name);
+      setImported({ fileName: file.name, parsed });
+      if (parsed.language && translationData.detectedLanguages.includes(parsed.language)) setLanguage(parsed.language);
+      setError(null);
+    } catch (err) {
+      setImported(null);
+      setError(`Could not read ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleApply = () => {
+    if (!plan || plan.edits.length === 0) return;
+    onApplyImport?.(plan, language);
+    onClose();
+  };
+
+  const languagePicker = (
+    <label className="block text-sm">
+      <span className="block mb-1 text-secondary">Language</span>
+      <select value={language} onChange={e => setLanguage(e.target.value)} className={inputClass}>
+        {translationData.detectedLanguages.map(lang => <option key={lang} value={lang}>{lang}</option>)}
+      </select>
+    </label>
+  );
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50" onClick={onClose} {...modalProps}>
+      <div
+        ref={contentRef}
+        className="bg-secondary rounded-lg shadow-2xl w-full max-w-2xl m-4 flex flex-col border border-primary text-primary max-h-[90vh]"
+        onClick={e => e.stopPropagation()}
+      >
+        <header className="px-6 py-5 border-b border-primary">
+          <h2 id="translation-exchange-title" className="text-xl font-bold">{mode === 'export' ? 'Export Translations' : 'Import Translations'}</h2>
+          <p className="mt-1 text-xs text-secondary">
+            {mode === 'export'
+              ? 'Writes every translatable string with its current translation, label, speaker and file location for translation tools.'
+              : <>Merges an XLIFF, PO or CSV file exported here back into the <code className="px-1 py-0.5 bg-tertiary rounded">game/tl/</code> scripts.</>}
+          </p>
+        </header>
+
+        {mode === 'export' ? (
+          <main className="px-6 py-5 grid grid-cols-3 gap-4">
+            {languagePicker}
+            <label className="block text-sm">
+              <span className="block mb-1 text-secondary">Format</span>
+              <select value={format} onChange={e => setFormat(e.target.value as TranslationExchangeFormat)} className={inputClass}>
+                {FORMATS.map(f => <option key={f} value={f}>{TRANSLATION_EXCHANGE_FILE_TYPES[f].label}</option>)}
+              </select>
+            </label>
+            <label className="block text-sm">
+              <span className="block mb-1 text-secondary">Source language</span>
+              <input type="text" value={sourceLanguage} onChange={e => setSourceLanguage(e.target.value)} className={`${inputClass} font-mono`} />
+            </label>
+            {error && <p className="col-span-3 text-xs text-red-600 dark:text-red-400">{error}</p>}
+          </main>
+        ) : (
+          <main className="px-6 py-5 flex flex-col gap-3 min-h-0">
+            <div className="flex items-end gap-3">
+              <div className="flex-1">{languagePicker}</div>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="text-sm px-3 py-1.5 rounded border border-primary hover:bg-tertiary-hover"
+              >
+                Open File…
+              </button>
+              <input ref={fileInputRef} type="file" accept=".xlf,.xliff,.po,.csv" className="hidden" onChange={handleFile} aria-label="Translation file" />
+            </div>
+            {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+            <div className="flex-1 min-h-[10rem] overflow-y-auto rounded-md border border-primary bg-primary p-3 text-xs space-y-3" data-testid="translation-import-preview">
+              {!plan && <p className="text-secondary">Open an exported file to preview the merge.</p>}
+              {plan && imported && (
+                <>
+                  <p>
+                    <span className="font-mono font-bold">{imported.fileName}</span>: {imported.parsed.entries.length} units,{' '}
+                    <span className="text-green-600 dark:text-green-400">{plan.updatedCount} to write</span>, {plan.unchangedCount} unchanged.
+                  </p>
+                  {imported.parsed.language && imported.parsed.language !== language && (
+                    <p className="text-amber-600 dark:text-amber-400">The file is for "{imported.parsed.language}", not "{language}".</p>
+                  )}
+                  <IssueList title={overwrite ? 'Conflicts, overwritten' : 'Conflicts, kept as they are'} issues={plan.conflicts} className="text-amber-600 dark:text-amber-400" />
+                  <IssueList title="Source changed since export" issues={plan.sourceChanged} className="text-amber-600 dark:text-amber-400" />
+                  <IssueList title="Could not be written" issues={plan.failed} className="text-red-600 dark:text-red-400" />
+                  {plan.missingIds.length > 0 && (
+                    <div>
+                      <p className="font-semibold text-red-600 dark:text-red-400">Unknown IDs ({plan.missingIds.length})</p>
+                      <p className="mt-1 font-mono text-secondary break-words">{plan.missingIds.join(', ')}</p>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+            <label className="flex items-center gap-2 text-sm text-secondary">
+              <input type="checkbox" checked={overwrite} onChange={e => setOverwrite(e.target.checked)} />
+              Overwrite translations changed in the project since the export
+            </label>
+          </main>
+        )}
+
+        <footer className="bg-header px-6 py-4 rounded-b-lg flex justify-end items-center space-x-4 border-t border-primary">
+          <button
+            onClick={onClose}
+            className="bg-tertiary hover:bg-tertiary-hover text-primary font-bold py-2 px-4 rounded transition duration-200 border border-primary"
+          >
+            Cancel
+          </button>
+          {mode === 'export' ? (
+            <button
+              onClick={handleExport}
+              disabled={!language || isSaving}
+              className="bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white font-bold py-2 px-4 rounded transition duration-200"
+            >
+              Export
+            </button>
+          ) : (
+            <button
+              onClick={handleApply}
+              disabled={!plan || plan.edits.length === 0}
+              className="bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white font-bold py-2 px-4 rounded transition duration-200"
+            >
+              {plan && plan.updatedCount > 0 ? `Import ${plan.updatedCount} ${plan.updatedCount === 1 ? 'Translation' : 'Translations'}` : 'Import'}
+            </button>
+          )}
+        </footer>
+      </div>
+    </div>,
+    document.body,
+  );
+};
+
+export default TranslationExchangeModal;
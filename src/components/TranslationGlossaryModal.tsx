@@ -0,0 +1,101 @@
+/**
+ * @file TranslationGlossaryModal.tsx
+ * @description Edits the glossary of character names and key terms for one language (~100 lines).
+ * Each row pairs a source term with its agreed translation and an optional note for
+ * translators. Rows without a term are dropped on save.
+ * Integration: opened from the Translation Dashboard header; App stores the glossary in
+ * `game/project.translations.json` and the `translation-glossary` QA check enforces it.
+ */
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import type { GlossaryEntry } from '@/types';
+import { useModalAccessibility } from '@/hooks/useModalAccessibility';
+
+interface TranslationGlossaryModalProps {
+  language: string;
+  entries: GlossaryEntry[];
+  onSave: (entries: GlossaryEntry[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full rounded-md border border-primary bg-primary px-2 py-1 text-sm text-primary focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500';
+
+const TranslationGlossaryModal: React.FC<TranslationGlossaryModalProps> = ({ language, entries, onSave, onClose }) => {
+  const { modalProps, contentRef } = useModalAccessibility({ isOpen: true, onClose, titleId: 'translation-glossary-title' });
+  const [rows, setRows] = useState<GlossaryEntry[]>(() => (entries.length > 0 ? entries : [{ term: '', translation: '' }]));
+
+  const updateRow = (index: number, patch: Partial<GlossaryEntry>) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+  };
+
+  const handleSave = () => {
+    onSave(rows
+      .filter(row => row.term.trim() !== '')
+      .map(row => ({ term: row.term.trim(), translation: row.translation.trim(), ...(row.note?.trim() ? { note: row.note.trim() } : {}) })));
+    onClose();
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50" onClick={onClose} {...modalProps}>
+      <div
+        ref={contentRef}
+        className="bg-secondary rounded-lg shadow-2xl w-full max-w-2xl m-4 flex flex-col border border-primary text-primary max-h-[90vh]"
+        onClick={e => e.stopPropagation()}
+      >
+        <header className="px-6 py-5 border-b border-primary">
+          <h2 id="translation-glossary-title" className="text-xl font-bold">Glossary: <span className="capitalize">{language}</span></h2>
+          <p className="mt-1 text-xs text-secondary">
+            Diagnostics warn when a {language} translation does not use the agreed translation of a term in its source.
+          </p>
+        </header>
+
+        <main className="px-6 py-5 flex flex-col gap-2 min-h-0 overflow-y-auto">
+          <div className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 text-xs font-semibold text-secondary">
+            <span>Term</span>
+            <span>Translation</span>
+            <span>Note</span>
+            <span className="w-6" />
+          </div>
+          {rows.map((row, index) => (
+            <div key={index} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 items-center">
+              <input type="text" value={row.term} onChange={e => updateRow(index, { term: e.target.value })} className={inputClass} aria-label={`Term ${index + 1}`} />
+              <input type="text" value={row.translation} onChange={e => updateRow(index, { translation: e.target.value })} className={inputClass} aria-label={`Translation ${index + 1}`} />
+              <input type="text" value={row.note ?? ''} onChange={e => updateRow(index, { note: e.target.value })} className={inputClass} aria-label={`Note ${index + 1}`} />
+              <button
+                onClick={() => setRows(prev => prev.filter((_, i) => i !== index))}
+                className="w-6 text-secondary hover:text-red-500 text-lg leading-none"
+                aria-label={`Remove term ${index + 1}`}
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => setRows(prev => [...prev, { term: '', translation: '' }])}
+            className="self-start mt-1 text-sm px-3 py-1.5 rounded border border-primary hover:bg-tertiary-hover"
+          >
+            Add Term
+          </button>
+        </main>
+
+        <footer className="bg-header px-6 py-4 rounded-b-lg flex justify-end items-center space-x-4 border-t border-primary">
+          <button
+            onClick={onClose}
+            className="bg-tertiary hover:bg-tertiary-hover text-primary font-bold py-2 px-4 rounded transition duration-200 border border-primary"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded transition duration-200"
+          >
+            Save Glossary
+          </button>
+        </footer>
+      </div>
+    </div>,
+    document.body,
+  );
+};
+
+export default TranslationGlossaryModal;
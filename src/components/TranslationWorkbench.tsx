@@ -0,0 +1,198 @@
+/**
+ * @file TranslationWorkbench.tsx
+ * @description Side-by-side editor for one translatable string in one language (~200 lines).
+ * Key features: source text with speaker, label and file context on the left; editable
+ * translation on the right; "needs review" toggle; Ctrl+Enter saves and moves to the next
+ * untranslated string, Alt+↓/Alt+↑ step between untranslated strings (saving a changed draft
+ * first), Escape closes. Under the source: glossary terms it contains with their agreed
+ * translation, and translation memory suggestions (exact and fuzzy) to copy into the draft.
+ * Integration: rendered by `TranslationDashboard`, which keys it by string and language so
+ * the draft resets on navigation; saving goes through App, which patches the `tl/` script.
+ */
+import React, { useEffect, useRef, useState } from 'react';
+import type { GlossaryEntry, TranslatableString, TranslatedString } from '@/types';
+import type { TranslationSuggestion } from '@/lib/translationMemory';
+
+interface TranslationWorkbenchProps {
+  source: TranslatableString;
+  language: string;
+  translation: TranslatedString | null;
+  needsReview: boolean;
+  /** Translation memory matches for the source, best first */
+  suggestions?: TranslationSuggestion[];
+  /** Glossary terms that appear in the source */
+  glossaryTerms?: GlossaryEntry[];
+  /** 1-based position of the string in the project, for the header */
+  position: { index: number; total: number };
+  /** Writes the translation; returns false when the save was refused */
+  onSave: (text: string) => boolean;
+  onToggleReview: (needsReview: boolean) => void;
+  /** Moves to the next/previous untranslated string; returns false when there is none */
+  onNavigate: (direction: 1 | -1) => boolean;
+  onOpenSource: () => void;
+  onOpenTranslation: () => void;
+  onClose: () => void;
+}
+
+const TYPE_LABELS: Record<TranslatableString['type'], string> = {
+  dialogue: 'Dialogue',
+  narration: 'Narration',
+  'menu-choice': 'Menu choice',
+};
+
+const TranslationWorkbench: React.FC<TranslationWorkbenchProps> = ({
+  source,
+  language,
+  translation,
+  needsReview,
+  suggestions = [],
+  glossaryTerms = [],
+  position,
+  onSave,
+  onToggleReview,
+  onNavigate,
+  onOpenSource,
+  onOpenTranslation,
+  onClose,
+}) => {
+  const initialText = translation?.translatedText ?? '';
+  const [draft, setDraft] = useState(initialText);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const isDirty = draft !== initialText;
+
+  useEffect(() => {
+    textareaRef.current?.focus();
+  }, []);
+
+  // A save re-runs the analysis; take the text as written to the file (with its escapes)
+  useEffect(() => {
+    setDraft(initialText);
+  }, [initialText]);
+
+  const save = () => !isDirty || onSave(draft);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      if (save()) onNavigate(1);
+    } else if (e.altKey && (e.key === 'ArrowDown' || e.key === 'ArrowUp')) {
+      e.preventDefault();
+      if (save()) onNavigate(e.key === 'ArrowDown' ? 1 : -1);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="h-full flex flex-col rounded-lg border border-primary overflow-hidden" data-testid="translation-workbench">
+      <div className="flex-none flex items-center gap-2 px-3 py-2 bg-tertiary border-b border-primary text-xs">
+        <span className="font-semibold text-primary">Translate to <span className="capitalize">{language}</span></span>
+        <span className="text-secondary">{position.index} of {position.total}</span>
+        <div className="flex-1" />
+        <button
+          onClick={() => { if (save()) onNavigate(-1); }}
+          className="px-2 py-1 rounded border border-primary bg-secondary text-secondary hover:bg-tertiary-hover"
+          title="Previous untranslated (Alt+↑)"
+        >
+          ↑ Prev
+        </button>
+        <button
+          onClick={() => { if (save()) onNavigate(1); }}
+          className="px-2 py-1 rounded border border-primary bg-secondary text-secondary hover:bg-tertiary-hover"
+          title="Next untranslated (Alt+↓)"
+        >
+          Next ↓
+        </button>
+        <button onClick={onClose} className="text-secondary hover:text-primary text-lg leading-none px-1" aria-label="Close workbench">×</button>
+      </div>
+
+      <div className="flex-1 min-h-0 grid grid-cols-2 divide-x divide-primary">
+        {/* Source */}
+        <div className="min-h-0 overflow-y-auto p-3 flex flex-col gap-2">
+          <div className="flex flex-wrap items-center gap-2 text-[11px] text-secondary">
+            <span className="font-semibold uppercase tracking-wide">{TYPE_LABELS[source.type]}</span>
+            {source.characterTag && <span>Speaker <span className="font-mono font-semibold text-indigo-500">{source.characterTag}</span></span>}
+            {source.labelScope && <span>Label <span className="font-mono text-primary">{source.labelScope}</span></span>}
+          </div>
+          <p className="text-sm text-primary whitespace-pre-wrap break-words" data-testid="workbench-source">{source.sourceText}</p>
+          <button onClick={onOpenSource} className="self-start text-[11px] font-mono text-secondary hover:text-indigo-500 hover:underline">
+            {source.filePath}:{source.line}
+          </button>
+          {glossaryTerms.length > 0 && (
+            <div className="text-[11px]" data-testid="workbench-glossary">
+              <p className="font-semibold uppercase tracking-wide text-secondary">Glossary</p>
+              <ul className="mt-1 space-y-0.5">
+                {glossaryTerms.map(entry => (
+                  <li key={entry.term} title={entry.note}>
+                    <span className="text-primary">{entry.term}</span> → <span className="font-semibold text-indigo-500">{entry.translation}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {suggestions.length > 0 && (
+            <div className="text-[11px]" data-testid="workbench-suggestions">
+              <p className="font-semibold uppercase tracking-wide text-secondary">Translation memory</p>
+              <ul className="mt-1 space-y-1">
+                {suggestions.map(suggestion => (
+                  <li key={suggestion.target} className="flex items-start gap-2">
+                    <span className={`flex-none font-mono ${suggestion.score === 1 ? 'text-green-600 dark:text-green-400' : 'text-amber-600 dark:text-amber-400'}`}>
+                      {Math.floor(suggestion.score * 100)}%
+                    </span>
+                    <span className="flex-1 min-w-0">
+                      <span className="block text-primary break-words">{suggestion.target}</span>
+                      {suggestion.score < 1 && <span className="block text-secondary break-words">{suggestion.source}</span>}
+                    </span>
+                    <button
+                      onClick={() => { setDraft(suggestion.target); textareaRef.current?.focus(); }}
+                      className="flex-none px-1.5 py-0.5 rounded border border-primary bg-secondary text-secondary hover:text-indigo-500 hover:border-indigo-400"
+                      aria-label={`Use suggestion: ${suggestion.target}`}
+                    >
+                      Use
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        {/* Translation */}
+        <div className="min-h-0 p-3 flex flex-col gap-2">
+          <textarea
+            ref={textareaRef}
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder={`${language} translation…`}
+            aria-label={`${language} translation`}
+            className="flex-1 min-h-[3rem] resize-none px-2 py-1.5 text-sm bg-primary border border-primary rounded focus:outline-none focus:ring-1 focus:ring-indigo-400 text-primary placeholder:text-secondary"
+          />
+          <div className="flex items-center gap-3 text-xs">
+            <label className="flex items-center gap-1.5 text-secondary cursor-pointer">
+              <input type="checkbox" checked={needsReview} onChange={e => onToggleReview(e.target.checked)} />
+              Needs review
+            </label>
+            {translation && (
+              <button onClick={onOpenTranslation} className="font-mono text-[11px] text-secondary hover:text-indigo-500 hover:underline truncate">
+                {translation.filePath}:{translation.line}
+              </button>
+            )}
+            <div className="flex-1" />
+            <button
+              onClick={save}
+              disabled={!isDirty}
+              className="px-3 py-1 font-medium rounded-md bg-indigo-500 text-white hover:bg-indigo-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              title="Save (Ctrl+Enter saves and moves to the next untranslated string)"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TranslationWorkbench;
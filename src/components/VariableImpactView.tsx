@@ -0,0 +1,254 @@
+/**
+ * @file VariableImpactView.tsx
+ * @description Variable Impact matrix: which menu choices change which story variables (~250 lines).
+ * Key features: choices (rows) by variables (columns) with the assignment delta in each cell,
+ * click-to-open the assignment line, filters for choices and variables; per-route table with
+ * the lowest and highest value each variable reaches along every identified route.
+ * Integration: opened as a static tab from `Toolbar`; choice effects come from
+ * `performRenpyAnalysis` and route ranges from the route simulation in `lib/renpyRouteSimulation`.
+ */
+import React, { useMemo, useState } from 'react';
+import type { Block, ChoiceVariableEffect, IdentifiedRoute, LabelNode, RouteSimulation } from '@/types';
+
+interface VariableImpactViewProps {
+  choiceEffects: ChoiceVariableEffect[];
+  blocks: Block[];
+  labelNodes: LabelNode[];
+  identifiedRoutes: IdentifiedRoute[];
+  routeSimulation?: RouteSimulation;
+  onOpenLocation: (blockId: string, line: number) => void;
+}
+
+interface ChoiceRow {
+  key: string;
+  blockId: string;
+  menuLine: number;
+  choiceText: string;
+  choiceCondition?: string;
+  /** Label the menu belongs to, when it sits inside one */
+  labelName: string | null;
+  /** Effects of this choice by variable name */
+  effects: Map<string, ChoiceVariableEffect[]>;
+}
+
+const SectionLabel: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <h2 className="text-xs font-semibold text-secondary uppercase tracking-widest mb-3">{children}</h2>
+);
+
+function formatRange(range: { min: number; max: number }): string {
+  if (range.min === range.max) return String(range.min);
+  if (range.min === -Infinity) return range.max === Infinity ? '?' : `≤ ${range.max}`;
+  if (range.max === Infinity) return `≥ ${range.min}`;
+  return `${range.min}–${range.max}`;
+}
+
+function deltaClass(delta: string): string {
+  if (delta.startsWith('+')) return 'text-green-600 dark:text-green-400';
+  if (delta.startsWith('-')) return 'text-red-600 dark:text-red-400';
+  return 'text-indigo-600 dark:text-indigo-400';
+}
+
+const VariableImpactView: React.FC<VariableImpactViewProps> = ({
+  choiceEffects,
+  blocks,
+  labelNodes,
+  identifiedRoutes,
+  routeSimulation,
+  onOpenLocation,
+}) => {
+  const [choiceFilter, setChoiceFilter] = useState('');
+  const [variableFilter, setVariableFilter] = useState('');
+
+  const fileNames = useMemo(
+    () => new Map(blocks.map(b => [b.id, b.filePath?.split('/').pop() ?? b.title ?? b.id])),
+    [blocks],
+  );
+
+  const rows = useMemo(() => {
+    const labelsByBlock = new Map<string, LabelNode[]>();
+    for (const node of labelNodes) labelsByBlock.set(node.blockId, [...(labelsByBlock.get(node.blockId) ?? []), node]);
+    const byKey = new Map<string, ChoiceRow>();
+    for (const effect of choiceEffects) {
+      const key = `${effect.blockId}:${effect.menuLine}:${effect.choiceText}`;
+      let row = byKey.get(key);
+      if (!row) {
+        const enclosing = (labelsByBlock.get(effect.blockId) ?? [])
+          .filter(node => node.startLine <= effect.menuLine)
+          .sort((a, b) => b.startLine - a.startLine)[0];
+        row = {
+          key,
+          blockId: effect.blockId,
+          menuLine: effect.menuLine,
+          choiceText: effect.choiceText,
+          choiceCondition: effect.choiceCondition,
+          labelName: enclosing?.label ?? null,
+          effects: new Map(),
+        };
+        byKey.set(key, row);
+      }
+      row.effects.set(effect.variable, [...(row.effects.get(effect.variable) ?? []), effect]);
+    }
+    return Array.from(byKey.values());
+  }, [choiceEffects, labelNodes]);
+
+  const variables = useMemo(() => {
+    const query = variableFilter.trim().toLowerCase();
+    return Array.from(new Set(choiceEffects.map(e => e.variable)))
+      .filter(name => !query || name.toLowerCase().includes(query))
+      .sort((a, b) => a.localeCompare(b));
+  }, [choiceEffects, variableFilter]);
+
+  const visibleRows = useMemo(() => {
+    const query = choiceFilter.trim().toLowerCase();
+    return rows.filter(row =>
+      variables.some(name => row.effects.has(name)) &&
+      (!query || row.choiceText.toLowerCase().includes(query) || (row.labelName ?? '').toLowerCase().includes(query)),
+    );
+  }, [rows, variables, choiceFilter]);
+
+  const routeRows = useMemo(() => {
+    const nodeLabels = new Map(labelNodes.map(node => [node.id, node.label]));
+    return identifiedRoutes.map(route => ({
+      route,
+      labels: route.nodeIds.map(id => nodeLabels.get(id) ?? id),
+      feasibility: routeSimulation?.routes.get(route.id),
+      ranges: routeSimulation?.routeRanges.get(route.id),
+    }));
+  }, [identifiedRoutes, labelNodes, routeSimulation]);
+
+  if (choiceEffects.length === 0) {
+    return (
+      <div className="h-full flex items-center justify-center p-6 text-sm text-secondary">
+        No menu choices assign story variables yet.
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full overflow-y-auto p-6 text-primary space-y-8">
+      <h1 className="text-2xl font-bold">Variable Impact</h1>
+
+      <section>
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+          <SectionLabel>Choices × Variables</SectionLabel>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={choiceFilter}
+              onChange={e => setChoiceFilter(e.target.value)}
+              placeholder="Filter choices..."
+              className="px-2 py-1 text-sm rounded bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+            <input
+              type="text"
+              value={variableFilter}
+              onChange={e => setVariableFilter(e.target.value)}
+              placeholder="Filter variables..."
+              className="px-2 py-1 text-sm rounded bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+          </div>
+        </div>
+        <div className="overflow-x-auto rounded-lg border border-primary">
+          <table className="text-sm">
+            <thead>
+              <tr className="bg-tertiary border-b border-primary text-secondary text-xs">
+                <th className="px-3 py-2 text-left font-semibold sticky left-0 bg-tertiary">Choice</th>
+                {variables.map(name => (
+                  <th key={name} className="px-3 py-2 text-center font-semibold font-mono whitespace-nowrap">{name}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {visibleRows.map((row, i) => (
+                <tr key={row.key} className={`border-b border-primary last:border-0 ${i % 2 === 1 ? 'bg-secondary/20' : ''}`}>
+                  <td className="px-3 py-2 sticky left-0 bg-primary max-w-xs">
+                    <button
+                      onClick={() => onOpenLocation(row.blockId, row.menuLine)}
+                      className="block text-left w-full hover:underline"
+                      title={row.choiceCondition ? `Shown if ${row.choiceCondition}` : 'Go to menu'}
+                    >
+                      <span className="block truncate font-medium">"{row.choiceText}"</span>
+                      <span className="block truncate text-xs text-secondary font-mono">
+                        {row.labelName ?? fileNames.get(row.blockId)}:{row.menuLine}
+                        {row.choiceCondition && <span className="text-amber-600 dark:text-amber-400"> if {row.choiceCondition}</span>}
+                      </span>
+                    </button>
+                  </td>
+                  {variables.map(name => {
+                    const effects = row.effects.get(name);
+                    return (
+                      <td key={name} className="px-3 py-2 text-center font-mono tabular-nums whitespace-nowrap">
+                        {effects && (
+                          <button
+                            onClick={() => onOpenLocation(effects[0].blockId, effects[0].line)}
+                            title={`${fileNames.get(effects[0].blockId)}:${effects[0].line}`}
+                            className={`px-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 ${deltaClass(effects[0].delta)}`}
+                          >
+                            {effects.map(e => e.delta).join(', ')}
+                          </button>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {visibleRows.length === 0 && (
+          <p className="text-xs text-secondary text-center p-2">No matching choices.</p>
+        )}
+      </section>
+
+      <section>
+        <SectionLabel>Range per Route</SectionLabel>
+        {routeRows.length === 0 ? (
+          <p className="text-sm text-secondary">No routes identified.</p>
+        ) : (
+          <div className="overflow-x-auto rounded-lg border border-primary">
+            <table className="text-sm">
+              <thead>
+                <tr className="bg-tertiary border-b border-primary text-secondary text-xs">
+                  <th className="px-3 py-2 text-left font-semibold sticky left-0 bg-tertiary">Route</th>
+                  {variables.map(name => (
+                    <th key={name} className="px-3 py-2 text-center font-semibold font-mono whitespace-nowrap">{name}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {routeRows.map(({ route, labels, feasibility, ranges }, i) => (
+                  <tr
+                    key={route.id}
+                    className={`border-b border-primary last:border-0 ${i % 2 === 1 ? 'bg-secondary/20' : ''} ${feasibility === 'infeasible' ? 'opacity-50' : ''}`}
+                  >
+                    <td className="px-3 py-2 sticky left-0 bg-primary max-w-xs">
+                      <span className="flex items-center gap-2 font-mono text-xs" title={labels.join(' → ')}>
+                        <span className="w-3 h-3 shrink-0 rounded-sm" style={{ backgroundColor: route.color }} />
+                        <span className="truncate">
+                          {labels.length > 0 ? labels.join(' → ') : `Route ${route.id + 1}`}
+                        </span>
+                        {feasibility === 'infeasible' && (
+                          <span className="shrink-0 text-red-600 dark:text-red-400" title="Infeasible — a condition along this route always fails">⊘</span>
+                        )}
+                      </span>
+                    </td>
+                    {variables.map(name => {
+                      const range = ranges?.[name];
+                      return (
+                        <td key={name} className="px-3 py-2 text-center font-mono tabular-nums whitespace-nowrap text-secondary">
+                          {range ? formatRange(range) : '—'}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default VariableImpactView;
@@ -1,23 +1,29 @@
 /**
  * @file ViewRoutesPanel.tsx
  * @description Route-highlighting toggle list for `RouteCanvas` (~120 lines).
- * Key features: colour-coded route rows (start → end label), per-route checkbox toggle,
- * truncation warning when route count exceeds the analysis limit, `embedded` prop for
- * borderless rendering inside `CanvasToolbox`.
+ * Key features: colour-coded route rows (start → … → ending label), a few representative paths
+ * per ending with the exact number of paths across all endings in the header, per-route checkbox
+ * toggle, condition-feasibility badges from route simulation, `embedded` prop for borderless
+ * rendering inside `CanvasToolbox`.
  * Integration: rendered by `RouteCanvas` (or via `CanvasToolbox`); receives `IdentifiedRoute[]`
  * from `useRenpyAnalysis` route analysis.
  */
 import React, { useState } from 'react';
-import type { IdentifiedRoute } from '@/types';
+import type { IdentifiedRoute, RouteFeasibility } from '@/types';
 
 interface RouteLabel {
   startLabel: string;
+  /** Labels between the entry and the ending, in play order */
+  viaLabels: string[];
   endLabel: string;
 }
 
 interface ViewRoutesPanelProps {
   routes: IdentifiedRoute[];
-  routesTruncated?: boolean;
+  /** Paths across all endings, from the path analysis */
+  totalPathCount?: bigint;
+  /** Simulated feasibility per route ID; infeasible and unknown routes get a badge */
+  routeFeasibility?: Map<number, RouteFeasibility>;
   checkedRoutes: Set<number>;
   onToggleRoute: (routeId: number) => void;
   routeLabels: Map<number, RouteLabel>;
@@ -31,7 +37,8 @@ interface ViewRoutesPanelProps {
 
 const ViewRoutesPanel: React.FC<ViewRoutesPanelProps> = ({
   routes,
-  routesTruncated,
+  totalPathCount,
+  routeFeasibility,
   checkedRoutes,
   onToggleRoute,
   routeLabels,
@@ -47,9 +54,14 @@ const ViewRoutesPanel: React.FC<ViewRoutesPanelProps> = ({
           embedded ? '' : 'border-b border-gray-200 dark:border-gray-600'
         }`}
         onClick={() => setIsCollapsed(v => !v)}
-        title="Auto-detected distinct execution paths through the story"
+        title="Representative paths to each auto-detected ending, and the number of distinct paths in all"
       >
-        <span>Routes ({routes.length}{routesTruncated ? '+' : ''})</span>
+        <span>
+          Routes ({routes.length})
+          {totalPathCount !== undefined && (
+            <span className="ml-1 font-normal text-gray-500 dark:text-gray-400">· {totalPathCount.toLocaleString()} paths</span>
+          )}
+        </span>
         <svg
           xmlns="http://www.w3.org/2000/svg"
           className={`h-4 w-4 text-gray-400 transition-transform ${isCollapsed ? '-rotate-90' : ''}`}
@@ -64,6 +76,7 @@ const ViewRoutesPanel: React.FC<ViewRoutesPanelProps> = ({
         <div className="p-2 space-y-1 max-h-60 overflow-y-auto">
           {routes.map(route => {
             const labels = routeLabels.get(route.id);
+            const feasibility = routeFeasibility?.get(route.id);
             return (
               <label key={route.id} className="flex items-center gap-2 cursor-pointer text-xs p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700">
                 <input
@@ -75,22 +88,29 @@ const ViewRoutesPanel: React.FC<ViewRoutesPanelProps> = ({
                 />
                 <div className="w-3 h-3 shrink-0 rounded-sm" style={{ backgroundColor: route.color }} />
                 {labels ? (
-                  <span className="font-mono truncate" title={`${labels.startLabel} → ${labels.endLabel}`}>
+                  <span className="font-mono truncate" title={[labels.startLabel, ...labels.viaLabels, labels.endLabel].join(' → ')}>
                     <span className="text-green-600 dark:text-green-400">{labels.startLabel}</span>
+                    {labels.viaLabels.map((label, i) => (
+                      <React.Fragment key={i}>
+                        <span className="text-gray-400 mx-0.5">→</span>
+                        <span>{label}</span>
+                      </React.Fragment>
+                    ))}
                     <span className="text-gray-400 mx-0.5">→</span>
                     <span className="text-amber-600 dark:text-amber-400">{labels.endLabel}</span>
                   </span>
                 ) : (
                   <span>Route {route.id + 1}</span>
                 )}
+                {feasibility === 'infeasible' && (
+                  <span className="ml-auto shrink-0 text-red-600 dark:text-red-400" title="Infeasible — a condition along this route always fails">⊘</span>
+                )}
+                {feasibility === 'unknown' && (
+                  <span className="ml-auto shrink-0 text-amber-500 dark:text-amber-400" title="Depends on conditions that cannot be evaluated">?</span>
+                )}
               </label>
             );
           })}
-          {routesTruncated && (
-            <p className="text-xs text-amber-500 dark:text-amber-400 text-center p-2">
-              Showing first {routes.length} routes. Large project route limit reached.
-            </p>
-          )}
           {routes.length === 0 && (
             <p className="text-xs text-gray-400 dark:text-gray-500 text-center p-2">No distinct routes found.</p>
           )}
@@ -1,6 +1,7 @@
 import { renderHook } from '@testing-library/react';
 import { useDiagnostics } from './useDiagnostics';
 import { createBlock, createEmptyAnalysisResult } from '@/test/mocks/sampleData';
+import { performTranslationAnalysis } from '@/lib/renpyTranslationParser';
 import type { IgnoredDiagnosticRule } from '@/types';
 
 describe('useDiagnostics', () => {
@@ -36,4 +37,127 @@ describe('useDiagnostics', () => {
     expect(result.current.warningCount).toBe(0);
     expect(result.current.infoCount).toBe(0);
   });
+
+  it('reports Python diagnostics from the analysis worker', () => {
+    const blocks = [createBlock({ id: 'b1', content: 'label start:\n    $ x = (1 +\n    $ y = bonus\n' })];
+    const analysis = createEmptyAnalysisResult({
+      pythonDiagnostics: [
+        { blockId: 'b1', kind: 'syntax', severity: 'error', line: 2, column: 11, endColumn: 12, message: "Python syntax error: '(' was never closed" },
+        { blockId: 'b1', kind: 'undefined-name', severity: 'warning', line: 3, column: 11, endColumn: 16, message: 'Name "bonus" is not defined' },
+      ],
+    });
+
+    const { result } = renderHook(() =>
+      useDiagnostics(blocks, analysis, new Map(), new Map(), new Map(), new Map())
+    );
+
+    expect(result.current.issues.map(i => [i.category, i.severity, i.line, i.filePath])).toEqual([
+      ['python-syntax', 'error', 2, 'game/script.rpy'],
+      ['undefined-name', 'warning', 3, 'game/script.rpy'],
+    ]);
+  });
+
+  it('reports screen language diagnostics as screen-* categories', () => {
+    const blocks = [createBlock({ id: 'b1', content: 'screen hud():\n    vbox xalgn 0.5\n    use missing\n' })];
+    const analysis = createEmptyAnalysisResult({
+      screenDiagnostics: [
+        { blockId: 'b1', kind: 'property', severity: 'error', line: 2, column: 10, endColumn: 15, message: '"xalgn" is not a valid property of vbox' },
+        { blockId: 'b1', kind: 'use', severity: 'warning', line: 3, column: 9, endColumn: 16, message: 'Screen "missing" is used but never defined' },
+      ],
+    });
+
+    const { result } = renderHook(() =>
+      useDiagnostics(blocks, analysis, new Map(), new Map(), new Map(), new Map())
+    );
+
+    expect(result.current.issues.map(i => [i.id, i.category, i.severity, i.line])).toEqual([
+      ['screen-property:b1:2:10', 'screen-property', 'error', 2],
+      ['screen-use:b1:3:9', 'screen-use', 'warning', 3],
+    ]);
+  });
+
+  it('reports ATL diagnostics as atl-syntax and undefined-transform', () => {
+    const blocks = [createBlock({ id: 'b1', content: 'transform t:\n    lnear 1.0 xalign 1.0\nlabel start:\n    show e at spin\n' })];
+    const analysis = createEmptyAnalysisResult({
+      atlDiagnostics: [
+        { blockId: 'b1', kind: 'syntax', severity: 'error', line: 2, column: 5, endColumn: 10, message: 'Unknown ATL warper "lnear"' },
+        { blockId: 'b1', kind: 'undefined-transform', severity: 'warning', line: 4, column: 15, endColumn: 19, message: 'Transform "spin" is not defined' },
+      ],
+    });
+
+    const { result } = renderHook(() =>
+      useDiagnostics(blocks, analysis, new Map(), new Map(), new Map(), new Map())
+    );
+
+    const atlIssues = result.current.issues.filter(i => i.category === 'atl-syntax' || i.category === 'undefined-transform');
+    expect(atlIssues.map(i => [i.id, i.category, i.severity, i.line])).toEqual([
+      ['atl-syntax:b1:2:5', 'atl-syntax', 'error', 2],
+      ['undefined-transform:b1:4:15', 'undefined-transform', 'warning', 4],
+    ]);
+  });
+
+  it('reports undefined styles from style statements and screens as undefined-style', () => {
+    const blocks = [createBlock({ id: 'b1', content: 'style a is nothing\nscreen s():\n    text "x" style "gone"\n' })];
+    const analysis = createEmptyAnalysisResult({
+      styleDiagnostics: [
+        { blockId: 'b1', severity: 'warning', line: 1, column: 12, endColumn: 19, message: 'Style "nothing" is not defined' },
+      ],
+      screenDiagnostics: [
+        { blockId: 'b1', kind: 'style', severity: 'warning', line: 3, column: 21, endColumn: 25, message: 'Style "gone" is not defined' },
+      ],
+    });
+
+    const { result } = renderHook(() =>
+      useDiagnostics(blocks, analysis, new Map(), new Map(), new Map(), new Map())
+    );
+
+    const styleIssues = result.current.issues.filter(i => i.category === 'undefined-style');
+    expect(styleIssues.map(i => [i.id, i.severity, i.line])).toEqual([
+      ['undefined-style:b1:3:21', 'warning', 3],
+      ['undefined-style:b1:1:12', 'warning', 1],
+    ]);
+  });
+
+  it('reports endings the route simulation rules out as unreachable-ending', () => {
+    const blocks = [createBlock({ id: 'b1', content: 'label start:\n    if False:\n        jump secret\n    return\nlabel secret:\n    return\n' })];
+    const analysis = createEmptyAnalysisResult({
+      routeDiagnostics: [
+        { blockId: 'b1', severity: 'warning', line: 5, column: 7, endColumn: 13, message: 'Ending "secret" is unreachable: every path to it fails a condition' },
+      ],
+    });
+
+    const { result } = renderHook(() =>
+      useDiagnostics(blocks, analysis, new Map(), new Map(), new Map(), new Map())
+    );
+
+    const endingIssues = result.current.issues.filter(i => i.category === 'unreachable-ending');
+    expect(endingIssues.map(i => [i.id, i.severity, i.line, i.filePath])).toEqual([
+      ['unreachable-ending:b1:5:7', 'warning', 5, 'game/script.rpy'],
+    ]);
+  });
+
+  it('reports translation QA findings as translation-* categories at the translated line', () => {
+    const files = [
+      { id: 'src', content: 'label start:\n    e "{b}Hi{/b} [player]."\n', filePath: 'game/script.rpy' },
+      { id: 'fr', content: 'translate french start_0:\n    e "{b}Salut tout le monde."\n', filePath: 'game/tl/french/script.rpy' },
+    ];
+    const blocks = files.map(file => createBlock(file));
+    const analysis = createEmptyAnalysisResult({
+      translationData: performTranslationAnalysis(files, new Map(), { start: { blockId: 'src' } }),
+    });
+
+    const { result, rerender } = renderHook(({ ignored, maxLength }: { ignored: IgnoredDiagnosticRule[]; maxLength?: number }) =>
+      useDiagnostics(blocks, analysis, new Map(), new Map(), new Map(), new Map(), ignored, maxLength),
+    { initialProps: { ignored: [] as IgnoredDiagnosticRule[] } });
+
+    const translationIssues = () => result.current.issues.filter(i => i.category.startsWith('translation-'));
+    expect(translationIssues().map(i => [i.id, i.severity, i.filePath, i.line])).toEqual([
+      ['translation-tags:fr:2', 'error', 'game/tl/french/script.rpy', 2],
+      ['translation-interpolation:fr:2', 'warning', 'game/tl/french/script.rpy', 2],
+      ['translation-length:fr:2', 'info', 'game/tl/french/script.rpy', 2],
+    ]);
+
+    rerender({ ignored: [{ category: 'translation-tags', filePath: 'game/tl/french/script.rpy', line: 2, message: translationIssues()[0].message }], maxLength: 300 });
+    expect(translationIssues().map(i => i.category)).toEqual(['translation-interpolation']);
+  });
 });
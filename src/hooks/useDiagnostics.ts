@@ -11,9 +11,11 @@ import type {
   DiagnosticsTask,
   IgnoredDiagnosticRule,
   PunchlistMetadata,
+  GlossaryEntry,
 } from '@/types';
 import { validateRenpyCode } from '@/lib/renpyValidator';
 import { matchesIgnoredDiagnostic } from '@/lib/diagnosticIgnores';
+import { findTranslationQaIssues } from '@/lib/translationQa';
 
 // ---------------------------------------------------------------------------
 // Ren'Py statement keywords — these should not be treated as character names
@@ -43,6 +45,8 @@ export function useDiagnostics(
   projectAudios: Map<string, RenpyAudio>,
   _audioMetadata: Map<string, AudioMetadata>,
   ignoredDiagnostics: IgnoredDiagnosticRule[] = [],
+  translationMaxLengthPercent?: number,
+  translationGlossary?: Record<string, GlossaryEntry[]>,
 ): DiagnosticsResult {
   // Build image and audio lookup sets (same logic as PunchlistManager)
   const existingImageTags = useMemo(() => {
@@ -114,6 +118,114 @@ export function useDiagnostics(
       }
     }
 
+    // -----------------------------------------------------------------------
+    // Source 14: Embedded Python — syntax errors and undefined names found by
+    // the analysis worker's Python pass
+    // -----------------------------------------------------------------------
+    for (const d of analysisResult.pythonDiagnostics ?? []) {
+      const block = blocks.find(b => b.id === d.blockId);
+      const category = d.kind === 'syntax' ? 'python-syntax' : 'undefined-name';
+      issues.push({
+        id: `${category}:${d.blockId}:${d.line}:${d.column}`,
+        severity: d.severity,
+        category,
+        message: d.message,
+        blockId: d.blockId,
+        filePath: block?.filePath,
+        line: d.line,
+        column: d.column,
+      });
+    }
+
+    // -----------------------------------------------------------------------
+    // Source 15: Screen language — invalid properties, unknown actions, bad
+    // `use` statements and undefined styles found by the analysis worker
+    // -----------------------------------------------------------------------
+    for (const d of analysisResult.screenDiagnostics ?? []) {
+      const block = blocks.find(b => b.id === d.blockId);
+      const category = d.kind === 'style' ? 'undefined-style' : `screen-${d.kind}`;
+      issues.push({
+        id: `${category}:${d.blockId}:${d.line}:${d.column}`,
+        severity: d.severity,
+        category,
+        message: d.message,
+        blockId: d.blockId,
+        filePath: block?.filePath,
+        line: d.line,
+        column: d.column,
+      });
+    }
+
+    // -----------------------------------------------------------------------
+    // Source 16: ATL — malformed ATL statements and `at` clauses naming
+    // transforms that are not defined, found by the analysis worker
+    // -----------------------------------------------------------------------
+    for (const d of analysisResult.atlDiagnostics ?? []) {
+      const block = blocks.find(b => b.id === d.blockId);
+      const category = d.kind === 'syntax' ? 'atl-syntax' : 'undefined-transform';
+      issues.push({
+        id: `${category}:${d.blockId}:${d.line}:${d.column}`,
+        severity: d.severity,
+        category,
+        message: d.message,
+        blockId: d.blockId,
+        filePath: block?.filePath,
+        line: d.line,
+        column: d.column,
+      });
+    }
+
+    // -----------------------------------------------------------------------
+    // Source 17: Styles — `is` / `take` clauses naming an undefined style
+    // -----------------------------------------------------------------------
+    for (const d of analysisResult.styleDiagnostics ?? []) {
+      const block = blocks.find(b => b.id === d.blockId);
+      issues.push({
+        id: `undefined-style:${d.blockId}:${d.line}:${d.column}`,
+        severity: d.severity,
+        category: 'undefined-style',
+        message: d.message,
+        blockId: d.blockId,
+        filePath: block?.filePath,
+        line: d.line,
+        column: d.column,
+      });
+    }
+
+    // -----------------------------------------------------------------------
+    // Source 18: Route conditions — endings no path can reach
+    // -----------------------------------------------------------------------
+    for (const d of analysisResult.routeDiagnostics ?? []) {
+      const block = blocks.find(b => b.id === d.blockId);
+      issues.push({
+        id: `unreachable-ending:${d.blockId}:${d.line}:${d.column}`,
+        severity: d.severity,
+        category: 'unreachable-ending',
+        message: d.message,
+        blockId: d.blockId,
+        filePath: block?.filePath,
+        line: d.line,
+        column: d.column,
+      });
+    }
+
+    // -----------------------------------------------------------------------
+    // Source 19: Translation QA — tags, interpolations, pauses, whitespace,
+    // length and glossary terms of each translation compared with its source
+    // -----------------------------------------------------------------------
+    for (const d of findTranslationQaIssues(analysisResult.translationData, translationMaxLengthPercent, translationGlossary)) {
+      const block = blocks.find(b => b.id === d.blockId);
+      issues.push({
+        id: `translation-${d.kind}:${d.blockId}:${d.line}`,
+        severity: d.severity,
+        category: `translation-${d.kind}`,
+        message: d.message,
+        blockId: d.blockId,
+        filePath: block?.filePath,
+        line: d.line,
+      });
+    }
+
     // -----------------------------------------------------------------------
     // Source 3 & 4: Missing images and audio (ported from PunchlistManager)
     // We track by asset name so each unique missing asset appears once
@@ -463,6 +575,8 @@ export function useDiagnostics(
     existingImageTags,
     existingAudioPaths,
     ignoredDiagnostics,
+    translationMaxLengthPercent,
+    translationGlossary,
   ]);
 }
 
@@ -9,6 +9,7 @@
 
 import { useState, useCallback } from 'react';
 import type { BlockType, Position, MenuTemplate, UserSnippet } from '@/types';
+import type { RenameSymbolTarget } from '@/lib/renpyRename';
 
 /** Info for unsaved changes confirmation modal */
 export interface UnsavedChangesModalInfo {
@@ -46,6 +47,13 @@ export interface UseModalStateReturn {
   setCreateBlockModalType: (type: BlockType) => void;
   setCreateBlockModalFolderPath: (path: string) => void;
 
+  // --- Story Outline Import Modal ---
+  outlineImportModalOpen: boolean;
+  /** Story Canvas position the first imported block is placed at */
+  outlineImportModalPosition: Position | undefined;
+  openOutlineImportModal: (position?: Position) => void;
+  closeOutlineImportModal: () => void;
+
   // --- Confirmation Modals ---
   deleteConfirmInfo: DeleteConfirmInfo | null;
   openDeleteConfirmModal: (paths: string[], onConfirm: () => void) => void;
@@ -98,6 +106,11 @@ export interface UseModalStateReturn {
   openWarpVariablesModal: () => void;
   closeWarpVariablesModal: () => void;
 
+  // --- Rename Symbol Modal ---
+  renameSymbolTarget: RenameSymbolTarget | null;
+  openRenameSymbolModal: (target: RenameSymbolTarget) => void;
+  closeRenameSymbolModal: () => void;
+
   // --- User Snippet Modal ---
   userSnippetModalOpen: boolean;
   editingSnippet: UserSnippet | null;
@@ -155,6 +168,20 @@ export function useModalState(): UseModalStateReturn {
     setCreateBlockModalFolderPath('');
   }, []);
 
+  // --- Story Outline Import Modal ---
+  const [outlineImportModalOpen, setOutlineImportModalOpen] = useState(false);
+  const [outlineImportModalPosition, setOutlineImportModalPosition] = useState<Position | undefined>(undefined);
+
+  const openOutlineImportModal = useCallback((position?: Position) => {
+    setOutlineImportModalPosition(position);
+    setOutlineImportModalOpen(true);
+  }, []);
+
+  const closeOutlineImportModal = useCallback(() => {
+    setOutlineImportModalOpen(false);
+    setOutlineImportModalPosition(undefined);
+  }, []);
+
   // --- Confirmation Modals ---
   const [deleteConfirmInfo, setDeleteConfirmInfo] = useState<DeleteConfirmInfo | null>(null);
 
@@ -225,6 +252,11 @@ export function useModalState(): UseModalStateReturn {
   const openWarpVariablesModal = useCallback(() => setIsWarpVariablesOpen(true), []);
   const closeWarpVariablesModal = useCallback(() => setIsWarpVariablesOpen(false), []);
 
+  // --- Rename Symbol Modal ---
+  const [renameSymbolTarget, setRenameSymbolTarget] = useState<RenameSymbolTarget | null>(null);
+  const openRenameSymbolModal = useCallback((target: RenameSymbolTarget) => setRenameSymbolTarget(target), []);
+  const closeRenameSymbolModal = useCallback(() => setRenameSymbolTarget(null), []);
+
   // --- User Snippet Modal ---
   const [userSnippetModalOpen, setUserSnippetModalOpen] = useState(false);
   const [editingSnippet, setEditingSnippet] = useState<UserSnippet | null>(null);
@@ -264,6 +296,12 @@ export function useModalState(): UseModalStateReturn {
     setCreateBlockModalType,
     setCreateBlockModalFolderPath,
 
+    // Story Outline Import Modal
+    outlineImportModalOpen,
+    outlineImportModalPosition,
+    openOutlineImportModal,
+    closeOutlineImportModal,
+
     // Confirmation Modals
     deleteConfirmInfo,
     openDeleteConfirmModal,
@@ -308,6 +346,11 @@ export function useModalState(): UseModalStateReturn {
     openWarpVariablesModal,
     closeWarpVariablesModal,
 
+    // Rename Symbol Modal
+    renameSymbolTarget,
+    openRenameSymbolModal,
+    closeRenameSymbolModal,
+
     // User Snippet Modal
     userSnippetModalOpen,
     editingSnippet,
@@ -411,6 +411,31 @@ describe('performRenpyAnalysis — Variables', () => {
     const usages = result.variableUsages.get('score') || [];
     expect(usages.some(u => u.blockId === 'b1' && u.line === 1)).toBe(false);
   });
+
+  it('records assignments made by menu choices as choice effects', () => {
+    const result = performRenpyAnalysis([
+      block([
+        'default affection = 0',
+        'default met_lucy = False',
+        'label start:',
+        '    $ affection += 1',
+        '    menu:',
+        '        "Compliment her" if affection > 0:',
+        '            $ affection += 3  # big bonus',
+        '            $ met_lucy = True',
+        '        "Walk away":',
+        '            $ store.affection -= 2',
+        '            $ walked_away = True',
+        '    "No menu here."',
+      ].join('\n'), { id: 'b1' }),
+    ]);
+    expect(result.choiceEffects.map(e => [e.choiceText, e.choiceCondition, e.variable, e.delta, e.line, e.menuLine])).toEqual([
+      ['Compliment her', 'affection > 0', 'affection', '+3', 7, 5],
+      ['Compliment her', 'affection > 0', 'met_lucy', '= True', 8, 5],
+      ['Walk away', undefined, 'affection', '-2', 10, 5],
+      ['Walk away', undefined, 'walked_away', '= True', 11, 5],
+    ]);
+  });
 });
 
 // ===========================================================================
@@ -690,6 +715,36 @@ describe('performRouteAnalysis', () => {
     expect(firstRoute.linkIds.size).toBeGreaterThan(0);
   });
 
+  it('identifies a representative path per branch alongside the exact path count', () => {
+    const blocks = [
+      block([
+        'label start:',
+        '    menu:',
+        '        "Left":',
+        '            jump left',
+        '        "Right":',
+        '            jump right',
+        'label left:',
+        '    jump finale',
+        'label right:',
+        '    jump finale',
+        'label finale:',
+        '    return',
+      ].join('\n'), { id: 'b1' }),
+    ];
+    const analysis = performRenpyAnalysis(blocks);
+    const route = performRouteAnalysis(blocks, analysis.labels, analysis.jumps);
+
+    expect(route.identifiedRoutes.map(r => r.nodeIds)).toEqual([
+      ['b1:start', 'b1:left', 'b1:finale'],
+      ['b1:start', 'b1:right', 'b1:finale'],
+    ]);
+    expect(route.identifiedRoutes.every(r => r.endingNodeId === 'b1:finale')).toBe(true);
+    // The jump to left, the fall-through from start into left and the jump into finale
+    expect(route.identifiedRoutes[0].linkIds.size).toBe(3);
+    expect(route.pathAnalysis.endings[0]).toMatchObject({ pathCount: 2n, criticalNodeIds: ['b1:start'] });
+  });
+
   it('handles empty blocks', () => {
     const route = performRouteAnalysis([], {}, {});
     expect(route.labelNodes).toHaveLength(0);
@@ -7,12 +7,19 @@
  */
 
 import { useState, useEffect, useRef } from 'react';
-import type { RenpyAnalysisResult, LabelLocation, JumpLocation, Character, Variable, RenpyScreen, LabelNode, RouteLink, IdentifiedRoute } from '@/types';
+import type { RenpyAnalysisResult, LabelLocation, JumpLocation, Character, Variable, RenpyScreen, RenpyTransform, LabelNode, RouteLink, IdentifiedRoute, RoutePathAnalysis } from '@/types';
 import { getTripleQuotedLineMask } from '@/lib/renpyTripleQuotes';
+import { stripTrailingComment } from '@/lib/renpyLogicalLines';
 import { isReservedRenpyName } from '@/lib/renpyNames';
 import { collectRenpyHasLabelGuards, isJumpGuardedByHasLabel } from '@/lib/renpyLabelGuards';
 import { buildRouteGraph, computeLayeredLayoutGeneric, type LayoutConfig } from '@/lib/graphLayout';
 import { logger } from '@/lib/logger';
+import { performPythonAnalysis } from '@/lib/renpyPythonAnalysis';
+import { performScreenAnalysis } from '@/lib/renpyScreenAnalysis';
+import { performAtlAnalysis } from '@/lib/renpyAtl';
+import { indexStyles, performStyleAnalysis } from '@/lib/renpyStyles';
+import { performRouteSimulation } from '@/lib/renpyRouteSimulation';
+import { analyzeRoutePaths } from '@/lib/routePathAnalysis';
 
 /**
  * Minimal block shape used by the analysis engine — only the fields it actually reads.
@@ -34,9 +41,11 @@ const MENU_LABEL_REGEX = /^\s*menu\s+([a-zA-Z0-9_]+):/;
 const DIALOGUE_REGEX = /^\s*([a-zA-Z0-9_]+)\s+"/;
 const NARRATION_REGEX = /^\s*"(?!:)/; 
 const SCREEN_REGEX = /^\s*screen\s+([a-zA-Z0-9_]+)\s*(\(.*\))?:/;
+const TRANSFORM_REGEX = /^\s*transform\s+([a-zA-Z_][a-zA-Z0-9_.]*)\s*(\(.*\))?\s*:/;
 const DEFINE_DEFAULT_REGEX = /^\s*(define|default)\s+([a-zA-Z0-9_.]+)\s*=\s*(?!\s*Character\s*\()(.+)/;
 const IMAGE_DEF_REGEX = /^\s*image\s+([a-zA-Z0-9_ ]+?)\s*=/;
 const SCENE_STATEMENT_REGEX = /^\s*scene\s+((?!expression\b)[a-zA-Z0-9_][a-zA-Z0-9_ ]*?)(?:\s+with\b|\s*(?:#|$))/;
+const CHOICE_ASSIGN_REGEX = /^\s*\$\s*((?:store\.)?[a-zA-Z_][a-zA-Z0-9_.]*)\s*([-+*/]?=)(?!=)\s*(.+)$/;
 
 const PALETTE = [
   '#E57373', '#F06292', '#BA68C8', '#9575CD', '#7986CB', '#64B5F6',
@@ -190,20 +199,32 @@ export const performRenpyAnalysis = (blocks: AnalysisBlock[]): RenpyAnalysisResu
     characterUsage: new Map(),
     variables: new Map(),
     variableUsages: new Map(),
+    choiceEffects: [],
     screens: new Map(),
+    transforms: new Map(),
+    styles: new Map(),
+    guiDefines: new Map(),
     definedImages: new Set(),
     blockTypes: new Map(),
     labelNodes: [],
     routeLinks: [],
     identifiedRoutes: [],
-    routesTruncated: false,
+    pathAnalysis: { totalPathCount: 0n, endings: [], loops: [], signature: '' },
+    routeSimulation: { nodes: new Map(), links: new Map(), routes: new Map(), entryStates: new Map(), routeRanges: new Map(), routeSignatures: new Map() },
     translationData: {
       translatableStrings: [],
       translatedStrings: new Map(),
       languageCoverages: [],
       detectedLanguages: [],
       stringTranslations: new Map(),
+      orphanedTranslations: new Map(),
+      missingTranslations: new Map(),
     },
+    pythonDiagnostics: [],
+    screenDiagnostics: [],
+    atlDiagnostics: [],
+    styleDiagnostics: [],
+    routeDiagnostics: [],
   };
 
   blocks.forEach(block => {
@@ -285,6 +306,14 @@ export const performRenpyAnalysis = (blocks: AnalysisBlock[]): RenpyAnalysisResu
           };
           result.screens.set(screen.name, screen);
       }
+
+      const transformMatch = line.match(TRANSFORM_REGEX);
+      if (transformMatch) {
+          const transform: RenpyTransform = {
+              name: transformMatch[1], parameters: transformMatch[2] ? transformMatch[2].trim() : '', definedInBlockId: block.id, filePath: block.filePath, line: index + 1,
+          };
+          result.transforms.set(transform.name, transform);
+      }
       
       const varMatch = line.match(DEFINE_DEFAULT_REGEX);
       if (varMatch) {
@@ -292,6 +321,7 @@ export const performRenpyAnalysis = (blocks: AnalysisBlock[]): RenpyAnalysisResu
           type: varMatch[1] as 'define' | 'default', name: varMatch[2], initialValue: varMatch[3].trim(), definedInBlockId: block.id, line: index + 1,
         };
         result.variables.set(variable.name, variable);
+        if (variable.type === 'define' && variable.name.startsWith('gui.')) result.guiDefines.set(variable.name, variable);
       }
 
       const imageMatch = line.match(IMAGE_DEF_REGEX);
@@ -461,6 +491,23 @@ export const performRenpyAnalysis = (blocks: AnalysisBlock[]): RenpyAnalysisResu
               }
           }
         }
+
+        // Assignments inside a menu choice feed the Variable Impact matrix
+        const choiceCtx = choiceCtxMap.get(index + 1);
+        const assignMatch = choiceCtx ? stripTrailingComment(line).match(CHOICE_ASSIGN_REGEX) : null;
+        const assigned = assignMatch?.[1].replace(/^store\./, '');
+        if (choiceCtx && assignMatch && assigned && result.variables.has(assigned)) {
+          const [, , op, value] = assignMatch;
+          result.choiceEffects.push({
+            blockId: block.id,
+            menuLine: choiceCtx.menuLine,
+            choiceText: choiceCtx.text,
+            choiceCondition: choiceCtx.condition,
+            variable: assigned,
+            delta: op === '+=' ? `+${value.trim()}` : op === '-=' ? `-${value.trim()}` : `${op} ${value.trim()}`,
+            line: index + 1,
+          });
+        }
       }
     });
 
@@ -475,6 +522,8 @@ export const performRenpyAnalysis = (blocks: AnalysisBlock[]): RenpyAnalysisResu
     });
   });
 
+  result.styles = indexStyles(blocks);
+
   const allTargetIds = new Set(result.links.map(link => link.targetId));
   blocks.forEach(block => {
     const blockJumps = result.jumps[block.id] || [];
@@ -569,20 +618,14 @@ export function deriveSceneImageNames(nodes: LabelNode[], blocks: AnalysisBlock[
   });
 }
 
-/** Hard cap on the number of routes enumerated to prevent exponential blowup. */
-const MAX_ROUTES = 500;
-/** Maximum recursion depth for path enumeration. */
-const MAX_ROUTE_DEPTH = 100;
-
 export const performRouteAnalysis = (
     blocks: AnalysisBlock[],
     labels: RenpyAnalysisResult['labels'],
-    jumps: RenpyAnalysisResult['jumps']
-): { labelNodes: LabelNode[], routeLinks: RouteLink[], identifiedRoutes: IdentifiedRoute[], routesTruncated: boolean } => {
+    jumps: RenpyAnalysisResult['jumps'],
+    previousPathAnalysis?: RoutePathAnalysis,
+): { labelNodes: LabelNode[], routeLinks: RouteLink[], identifiedRoutes: IdentifiedRoute[], pathAnalysis: RoutePathAnalysis } => {
   const labelNodes = new Map<string, LabelNode>();
   const routeLinks: RouteLink[] = [];
-  const identifiedRoutes: IdentifiedRoute[] = [];
-  let routesTruncated = false;
   const blockLabelInfo = new Map<string, { label: string; startLine: number; endLine: number; hasTerminal: boolean; hasReturn: boolean; }[]>();
 
   blocks.forEach(block => {
@@ -687,60 +730,41 @@ export const performRouteAnalysis = (
   // Build route graph using graphology for degree queries (start/end node detection)
   const { startNodes, endNodes } = buildRouteGraph(labelNodes, routeLinks, labels, blockLabelInfo);
 
-  // Keep a link-level adjacency map for findPaths (needs per-link linkId granularity)
-  const adj = new Map<string, { targetId: string; linkId: string }[]>();
-  labelNodes.forEach(node => adj.set(node.id, []));
-  routeLinks.forEach(link => {
-    adj.get(link.sourceId)?.push({ targetId: link.targetId, linkId: link.id });
+  const lineCounts = new Map<string, number>();
+  blockLabelInfo.forEach((infos, blockId) => {
+    infos.forEach(info => lineCounts.set(`${blockId}:${info.label}`, info.endLine - info.startLine + 1));
   });
-  
-  const uniqueLabelPaths = new Map<string, string[]>();
 
-  function findPaths(currentNodeId: string, currentLinks: string[], currentNodes: string[], visited: Set<string>, depth: number) {
-    if (uniqueLabelPaths.size >= MAX_ROUTES || depth > MAX_ROUTE_DEPTH) {
-      routesTruncated = true;
-      return;
-    }
-    currentNodes.push(currentNodeId);
-    if (visited.has(currentNodeId)) { currentNodes.pop(); return; }
-    visited.add(currentNodeId);
-
-    const isEndpoint = endNodes.has(currentNodeId);
-    const neighbors = adj.get(currentNodeId) || [];
-
-    if (isEndpoint || neighbors.length === 0) {
-        if (currentLinks.length > 0) {
-            const pathKey = currentNodes.join('->');
-            if (!uniqueLabelPaths.has(pathKey)) uniqueLabelPaths.set(pathKey, [...currentLinks]);
-        }
-    } else {
-      for (const { targetId, linkId } of neighbors) {
-          if (uniqueLabelPaths.size >= MAX_ROUTES) { routesTruncated = true; break; }
-          currentLinks.push(linkId);
-          findPaths(targetId, currentLinks, currentNodes, visited, depth + 1);
-          currentLinks.pop();
-      }
-    }
-    visited.delete(currentNodeId);
-    currentNodes.pop();
-  }
-
-  startNodes.forEach(startNode => {
-    if (uniqueLabelPaths.size >= MAX_ROUTES) { routesTruncated = true; return; }
-    findPaths(startNode, [], [], new Set(), 0);
+  // Count routes over the component DAG instead of enumerating them; only the
+  // representative paths of each ending become identified routes
+  const pathAnalysis = analyzeRoutePaths({
+    nodeIds: Array.from(labelNodes.keys()),
+    links: routeLinks,
+    startNodes,
+    endNodes,
+    lineCounts,
+  }, previousPathAnalysis);
+  const identifiedRoutes: IdentifiedRoute[] = [];
+  pathAnalysis.endings.forEach(ending => {
+    ending.paths.forEach(nodeIds => {
+      const steps = new Set(nodeIds.slice(1).map((id, i) => `${nodeIds[i]}>${id}`));
+      const index = identifiedRoutes.length;
+      identifiedRoutes.push({
+        id: index,
+        color: PALETTE[index % PALETTE.length],
+        linkIds: new Set(routeLinks.filter(l => steps.has(`${l.sourceId}>${l.targetId}`)).map(l => l.id)),
+        nodeIds,
+        endingNodeId: ending.nodeId,
+      });
+    });
   });
-  
-  const allPaths = Array.from(uniqueLabelPaths.values());
-  identifiedRoutes.push(...allPaths.filter(path => path.length > 0).map((path, index) => ({
-      id: index, color: PALETTE[index % PALETTE.length], linkIds: new Set(path),
-  })));
 
   const nodesArray = Array.from(labelNodes.values());
   const laidOut = computeLayeredLayoutGeneric(nodesArray, routeLinks, 'lr', ROUTE_INITIAL_CONFIG);
   const posMap = new Map(laidOut.map(n => [n.id, n.position]));
   nodesArray.forEach(n => { const pos = posMap.get(n.id); if (pos) n.position = pos; });
 
-  return { labelNodes: nodesArray, routeLinks, identifiedRoutes, routesTruncated };
+  return { labelNodes: nodesArray, routeLinks, identifiedRoutes, pathAnalysis };
 }
 
 /** Empty result returned on first render before the worker responds. */
@@ -761,20 +785,32 @@ export const EMPTY_ANALYSIS_RESULT: RenpyAnalysisResult = {
   characterUsage: new Map(),
   variables: new Map(),
   variableUsages: new Map(),
+  choiceEffects: [],
   screens: new Map(),
+  transforms: new Map(),
+  styles: new Map(),
+  guiDefines: new Map(),
   definedImages: new Set(),
   blockTypes: new Map(),
   labelNodes: [],
   routeLinks: [],
   identifiedRoutes: [],
-  routesTruncated: false,
+  pathAnalysis: { totalPathCount: 0n, endings: [], loops: [], signature: '' },
+  routeSimulation: { nodes: new Map(), links: new Map(), routes: new Map(), entryStates: new Map(), routeRanges: new Map(), routeSignatures: new Map() },
   translationData: {
     translatableStrings: [],
     translatedStrings: new Map(),
     languageCoverages: [],
     detectedLanguages: [],
     stringTranslations: new Map(),
+    orphanedTranslations: new Map(),
+    missingTranslations: new Map(),
   },
+  pythonDiagnostics: [],
+  screenDiagnostics: [],
+  atlDiagnostics: [],
+  styleDiagnostics: [],
+  routeDiagnostics: [],
 };
 
 /** Module-level worker singleton — created once, reused across re-renders. */
@@ -826,11 +862,18 @@ export const useRenpyAnalysis = (blocks: AnalysisBlock[], trigger: number, onCom
     if (!worker) {
       // Synchronous fallback — test environment or Worker unavailable
       const r = performRenpyAnalysis(blocks);
+      r.pythonDiagnostics = performPythonAnalysis(blocks, r);
+      r.screenDiagnostics = performScreenAnalysis(blocks, r);
+      r.atlDiagnostics = performAtlAnalysis(blocks, r);
+      r.styleDiagnostics = performStyleAnalysis(blocks, r);
       const routeData = performRouteAnalysis(blocks, r.labels, r.jumps);
       r.labelNodes = routeData.labelNodes;
       r.routeLinks = routeData.routeLinks;
       r.identifiedRoutes = routeData.identifiedRoutes;
-      r.routesTruncated = routeData.routesTruncated;
+      r.pathAnalysis = routeData.pathAnalysis;
+      const simulation = performRouteSimulation(blocks, r);
+      r.routeSimulation = simulation.routeSimulation;
+      r.routeDiagnostics = simulation.routeDiagnostics;
       setResult(r);
       setIsPending(false);
       return;
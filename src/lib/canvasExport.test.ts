@@ -0,0 +1,88 @@
+import { installElectronAPI } from '@/test/mocks/electronAPI';
+import {
+  buildPdfHtml,
+  clampPixelRatio,
+  computePdfTiles,
+  exportCanvasScene,
+  fitText,
+  getSceneBounds,
+  renderSceneSvg,
+  type CanvasExportScene,
+} from './canvasExport';
+
+const scene = (): CanvasExportScene => ({
+  title: 'Flow <Canvas>',
+  groups: [{ x: -50, y: -80, width: 700, height: 300, title: 'script.rpy', fill: '#f9fafb', stroke: '#9ca3af', dashed: true }],
+  edges: [
+    { path: 'M200,40 C250,40 250,40 300,40', color: '#4f46e5', width: 4, arrow: true },
+    { path: 'M200,60 C250,60 250,140 300,140', color: '#dc2626', width: 4, arrow: true, callCircle: { x: 200, y: 60 } },
+    { path: 'M500,40 C550,40 550,40 600,40', color: '#4f46e5', width: 4, arrow: true, opacity: 0.2 },
+  ],
+  nodes: [
+    { x: 0, y: 0, width: 200, height: 80, title: 'start', fill: '#fff', stroke: '#22c55e', textColor: '#111', badge: 'start' },
+    { x: 300, y: 0, width: 200, height: 80, title: 'a_very_long_label_name_that_does_not_fit', fill: '#fff', stroke: '#ddd', textColor: '#111' },
+    { x: 300, y: 100, width: 200, height: 80, title: 'Tom & "Jerry"', fill: '#fff', stroke: '#ddd', textColor: '#111', opacity: 0.3 },
+  ],
+  notes: [{ x: 0, y: 400, width: 200, height: 120, text: '# TODO\n**Rewrite** the ending', color: 'yellow' }],
+});
+
+describe('canvasExport', () => {
+  it('renders the whole scene as standalone SVG', () => {
+    const { svg, bounds } = renderSceneSvg(scene());
+    expect(bounds).toEqual({ x: -90, y: -120, width: 780, height: 680 });
+    expect(svg).toContain('viewBox="-90 -120 780 680"');
+    expect(svg).toContain('<title>Flow &lt;Canvas&gt;</title>');
+    expect(svg).toContain('Tom &amp; &quot;Jerry&quot;');
+    // One arrowhead per colour, shared by the edges that use it
+    expect(svg.match(/<marker /g)).toHaveLength(2);
+    expect(svg).toContain('<circle cx="200" cy="60"');
+    expect(svg).toContain('<g opacity="0.3">');
+    // Markdown markers are dropped from sticky notes
+    expect(svg).toContain('>TODO</tspan>');
+    expect(svg).toContain('>Rewrite the ending</tspan>');
+    expect(svg.indexOf('script.rpy'.toUpperCase())).toBeLessThan(svg.indexOf('<path d="M200,40'));
+    expect(new DOMParser().parseFromString(svg, 'image/svg+xml').querySelector('parsererror')).toBeNull();
+  });
+
+  it('fits labels into their nodes', () => {
+    expect(fitText('start', 184, 13)).toBe('start');
+    expect(fitText('a_very_long_label_name_that_does_not_fit', 184, 13, true)).toBe('a_very_long_label_name…');
+  });
+
+  it('splits large graphs over pages', () => {
+    const bounds = { x: 0, y: 0, width: 6000, height: 2000 };
+    const { page, tiles } = computePdfTiles(bounds, { pageSize: 'A4', landscape: true, pagesAcross: 3 });
+    expect(page).toEqual({ width: 1123, height: 794 });
+    expect(tiles.map(t => [t.row, t.column])).toEqual([[0, 0], [0, 1], [0, 2], [1, 0], [1, 1], [1, 2]]);
+    expect(tiles[4].viewBox.x).toBe(2000);
+
+    const html = buildPdfHtml(scene(), { pageSize: 'Letter', landscape: false, pagesAcross: 2 });
+    expect(html.match(/<section class="page">/g)).toHaveLength(4);
+    expect(html.match(/id="scene"/g)).toHaveLength(1);
+    expect(html).toContain('row 2 of 2, column 2 of 2');
+    expect(html).toContain('@page { size: 816px 1056px; margin: 0; }');
+  });
+
+  it('keeps PNG sizes within canvas limits', () => {
+    expect(clampPixelRatio(2000, 1000, 4)).toBe(4);
+    expect(clampPixelRatio(10000, 1000, 4)).toBeCloseTo(1.6384);
+    expect(clampPixelRatio(16000, 16000, 2)).toBeCloseTo(1.024);
+  });
+
+  it('writes SVG and PDF files through the save dialog', async () => {
+    const api = installElectronAPI();
+    api.showSaveDialog.mockResolvedValue('/out/flow.svg');
+    const options = { format: 'svg' as const, pixelRatio: 2, pageSize: 'A4' as const, landscape: true, pagesAcross: 1 };
+    await expect(exportCanvasScene(scene(), options, 'flow')).resolves.toBe('/out/flow.svg');
+    expect(api.showSaveDialog).toHaveBeenCalledWith(expect.objectContaining({ defaultPath: 'flow.svg' }));
+    expect(api.writeFile.mock.calls[0][1]).toBe(renderSceneSvg(scene()).svg);
+
+    api.showSaveDialog.mockResolvedValue('/out/flow.pdf');
+    api.exportPdf.mockResolvedValue({ success: false, error: 'disk full' });
+    await expect(exportCanvasScene(scene(), { ...options, format: 'pdf' }, 'flow')).rejects.toThrow('disk full');
+
+    api.showSaveDialog.mockResolvedValue(null);
+    await expect(exportCanvasScene(scene(), options, 'flow')).resolves.toBeNull();
+    expect(getSceneBounds({ title: '', groups: [], edges: [], nodes: [], notes: [] }).width).toBe(80);
+  });
+});
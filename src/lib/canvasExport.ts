@@ -0,0 +1,433 @@
+/**
+ * @file canvasExport.ts
+ * @description Renders a whole canvas graph to SVG, PNG or a tiled multi-page PDF (~430 lines).
+ * Each canvas describes what it shows — nodes, edges with their route colours, groups and
+ * sticky notes, after its current filters — as a `CanvasExportScene` in world coordinates.
+ * This module turns the scene into standalone SVG markup, rasterizes it for PNG at a chosen
+ * pixel ratio (clamped to what a browser canvas can hold), and lays it out over printed pages
+ * for PDF. Files are written through `electronAPI`; in browser mode they are downloaded, and
+ * PDFs go through the print dialog.
+ * Integration: scenes are built by `StoryCanvas`, `RouteCanvas` and `ChoiceCanvas`; the
+ * options dialog is `CanvasExportModal`; PDF pages are printed by `app:export-pdf` in `electron.js`.
+ */
+
+import type { NoteColor, Position } from '@/types';
+
+export interface ExportNode {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  title: string;
+  subtitle?: string;
+  fill: string;
+  stroke: string;
+  textColor: string;
+  /** Colour of a strip along the top edge (block colour, route overlay) */
+  accent?: string;
+  /** Short tag drawn above the top-right corner, e.g. "start" */
+  badge?: string;
+  rx?: number;
+  strokeWidth?: number;
+  dashed?: boolean;
+  opacity?: number;
+  monospace?: boolean;
+}
+
+export interface ExportEdge {
+  /** SVG path data in world coordinates */
+  path: string;
+  color: string;
+  width: number;
+  dashed?: boolean;
+  opacity?: number;
+  arrow?: boolean;
+  /** Open circle drawn at the source end, used for `call` links */
+  callCircle?: Position;
+}
+
+export interface ExportGroup {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  title: string;
+  fill: string;
+  stroke: string;
+  dashed?: boolean;
+}
+
+export interface ExportNote {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  text: string;
+  color: NoteColor;
+}
+
+export interface CanvasExportScene {
+  title: string;
+  groups: ExportGroup[];
+  edges: ExportEdge[];
+  nodes: ExportNode[];
+  notes: ExportNote[];
+}
+
+export type CanvasExportFormat = 'svg' | 'png' | 'pdf';
+export type PdfPageSize = 'A4' | 'Letter' | 'A3';
+
+export interface CanvasExportOptions {
+  format: CanvasExportFormat;
+  /** PNG pixels per world unit */
+  pixelRatio: number;
+  pageSize: PdfPageSize;
+  landscape: boolean;
+  /** Number of pages the graph's width is spread across */
+  pagesAcross: number;
+}
+
+export interface SceneBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const NOTE_FILLS: Record<NoteColor, string> = {
+  yellow: '#fef08a',
+  blue: '#bfdbfe',
+  green: '#bbf7d0',
+  pink: '#fbcfe8',
+  purple: '#e9d5ff',
+  red: '#fecaca',
+};
+
+/** Page sizes in CSS pixels (96 per inch), portrait */
+const PAGE_SIZES: Record<PdfPageSize, { width: number; height: number }> = {
+  A4: { width: 794, height: 1123 },
+  Letter: { width: 816, height: 1056 },
+  A3: { width: 1123, height: 1587 },
+};
+const PAGE_MARGIN = 32;
+/** Largest canvas side and area Chromium will allocate */
+const MAX_CANVAS_SIDE = 16384;
+const MAX_CANVAS_AREA = 16384 * 16384;
+const SCENE_PADDING = 40;
+const SANS = 'system-ui, -apple-system, Segoe UI, sans-serif';
+const MONO = 'ui-monospace, SFMono-Regular, Menlo, monospace';
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** Cuts `text` to fit `maxWidth` at `fontSize`, estimating glyph widths. */
+export function fitText(text: string, maxWidth: number, fontSize: number, monospace = false): string {
+  const maxChars = Math.floor(maxWidth / (fontSize * (monospace ? 0.6 : 0.55)));
+  if (text.length <= maxChars) return text;
+  return maxChars <= 1 ? '…' : text.slice(0, maxChars - 1) + '…';
+}
+
+/** Word-wraps plain text into lines of at most `maxChars` characters. */
+function wrapText(text: string, maxChars: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      if (line && line.length + 1 + word.length > maxChars) {
+        lines.push(line);
+        line = '';
+      }
+      line = line ? `${line} ${word}` : word.slice(0, Math.max(maxChars, 1));
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/** Drops the Markdown markers sticky notes are written in, keeping the text. */
+const stripMarkdown = (text: string) =>
+  text.replace(/^#{1,6}\s+/gm, '').replace(/^\s*[-*]\s+/gm, '• ').replace(/(\*\*|__|\*|_|`)/g, '');
+
+/** Smallest rectangle holding every element of the scene, plus padding. */
+export function getSceneBounds(scene: CanvasExportScene, padding = SCENE_PADDING): SceneBounds {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  const add = (x: number, y: number, width: number, height: number) => {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x + width);
+    maxY = Math.max(maxY, y + height);
+  };
+  scene.groups.forEach(g => add(g.x, g.y, g.width, g.height));
+  scene.nodes.forEach(n => add(n.x, n.y - (n.badge ? 16 : 0), n.width, n.height + (n.badge ? 16 : 0)));
+  scene.notes.forEach(n => add(n.x, n.y, n.width, n.height));
+  for (const edge of scene.edges) {
+    const numbers = edge.path.match(/-?\d+(?:\.\d+)?(?:e-?\d+)?/g)?.map(Number) ?? [];
+    for (let i = 0; i + 1 < numbers.length; i += 2) add(numbers[i], numbers[i + 1], 0, 0);
+  }
+  if (minX === Infinity) return { x: 0, y: 0, width: 2 * padding, height: 2 * padding };
+  return { x: minX - padding, y: minY - padding, width: maxX - minX + 2 * padding, height: maxY - minY + 2 * padding };
+}
+
+/**
+ * Builds the scene as SVG markup: marker definitions and the drawing itself, in world
+ * coordinates. Layers go groups, edges, nodes, notes — the order the canvases stack them.
+ */
+function renderSceneMarkup(scene: CanvasExportScene): { defs: string; body: string } {
+  const markerIds = new Map<string, string>();
+  const markerFor = (color: string) => {
+    let id = markerIds.get(color);
+    if (!id) {
+      id = `arrow-${markerIds.size}`;
+      markerIds.set(color, id);
+    }
+    return id;
+  };
+  const parts: string[] = [];
+
+  for (const g of scene.groups) {
+    parts.push(
+      `<rect x="${g.x}" y="${g.y}" width="${g.width}" height="${g.height}" rx="12" fill="${g.fill}" stroke="${g.stroke}" stroke-width="2"${g.dashed ? ' stroke-dasharray="8 6"' : ''}/>`,
+      `<text x="${g.x + 16}" y="${g.y + 22}" font-family="${SANS}" font-size="12" font-weight="700" fill="${g.stroke}">${escapeXml(fitText(g.title.toUpperCase(), g.width - 32, 12))}</text>`,
+    );
+  }
+
+  for (const e of scene.edges) {
+    const opacity = e.opacity !== undefined && e.opacity < 1 ? ` opacity="${e.opacity}"` : '';
+    parts.push(
+      `<path d="${e.path}" fill="none" stroke="${e.color}" stroke-width="${e.width}"${e.dashed ? ' stroke-dasharray="10 6"' : ''}${e.arrow ? ` marker-end="url(#${markerFor(e.color)})"` : ''}${opacity}/>`,
+    );
+    if (e.callCircle) {
+      parts.push(`<circle cx="${e.callCircle.x}" cy="${e.callCircle.y}" r="5" fill="none" stroke="${e.color}" stroke-width="2.5"${opacity}/>`);
+    }
+  }
+
+  for (const n of scene.nodes) {
+    const rx = n.rx ?? 8;
+    const font = n.monospace ? MONO : SANS;
+    const node: string[] = [
+      `<rect x="${n.x}" y="${n.y}" width="${n.width}" height="${n.height}" rx="${rx}" fill="${n.fill}" stroke="${n.stroke}" stroke-width="${n.strokeWidth ?? 1.5}"${n.dashed ? ' stroke-dasharray="6 4"' : ''}/>`,
+    ];
+    if (n.accent) {
+      node.push(`<rect x="${n.x}" y="${n.y}" width="${n.width}" height="6" rx="${Math.min(rx, 3)}" fill="${n.accent}"/>`);
+    }
+    const cx = n.x + n.width / 2;
+    const titleY = n.subtitle ? n.y + n.height / 2 - 6 : n.y + n.height / 2;
+    node.push(`<text x="${cx}" y="${titleY}" text-anchor="middle" dominant-baseline="middle" font-family="${font}" font-size="13" font-weight="600" fill="${n.textColor}">${escapeXml(fitText(n.title, n.width - 16, 13, n.monospace))}</text>`);
+    if (n.subtitle) {
+      node.push(`<text x="${cx}" y="${titleY + 18}" text-anchor="middle" dominant-baseline="middle" font-family="${SANS}" font-size="10" fill="${n.textColor}" fill-opacity="0.65">${escapeXml(fitText(n.subtitle, n.width - 16, 10))}</text>`);
+    }
+    if (n.badge) {
+      node.push(`<text x="${n.x + n.width}" y="${n.y - 5}" text-anchor="end" font-family="${SANS}" font-size="10" font-weight="700" fill="${n.stroke}">${escapeXml(n.badge)}</text>`);
+    }
+    parts.push(n.opacity !== undefined && n.opacity < 1 ? `<g opacity="${n.opacity}">${node.join('')}</g>` : node.join(''));
+  }
+
+  for (const note of scene.notes) {
+    const lineHeight = 17;
+    const maxLines = Math.max(Math.floor((note.height - 24) / lineHeight), 1);
+    const lines = wrapText(stripMarkdown(note.text), Math.floor((note.width - 24) / (13 * 0.55))).slice(0, maxLines);
+    parts.push(
+      `<rect x="${note.x}" y="${note.y}" width="${note.width}" height="${note.height}" rx="4" fill="${NOTE_FILLS[note.color]}" stroke="#00000022"/>`,
+      `<text font-family="${SANS}" font-size="13" fill="#1f2937">${lines
+        .map((line, i) => `<tspan x="${note.x + 12}" y="${note.y + 24 + i * lineHeight}">${escapeXml(line)}</tspan>`)
+        .join('')}</text>`,
+    );
+  }
+
+  const defs = [...markerIds]
+    .map(([color, id]) => `<marker id="${id}" viewBox="0 0 10 10" markerWidth="12" markerHeight="12" refX="10" refY="5" orient="auto" markerUnits="userSpaceOnUse"><path d="M0,0 L10,5 L0,10 z" fill="${color}"/></marker>`)
+    .join('');
+  return { defs, body: parts.join('\n') };
+}
+
+/** The whole scene as a standalone SVG document. */
+export function renderSceneSvg(scene: CanvasExportScene, background = '#ffffff'): { svg: string; bounds: SceneBounds } {
+  const bounds = getSceneBounds(scene);
+  const { defs, body } = renderSceneMarkup(scene);
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${bounds.width}" height="${bounds.height}" viewBox="${bounds.x} ${bounds.y} ${bounds.width} ${bounds.height}">`,
+    `<title>${escapeXml(scene.title)}</title>`,
+    `<defs>${defs}</defs>`,
+    `<rect x="${bounds.x}" y="${bounds.y}" width="${bounds.width}" height="${bounds.height}" fill="${background}"/>`,
+    body,
+    '</svg>',
+  ].join('\n');
+  return { svg, bounds };
+}
+
+export interface PdfTile {
+  row: number;
+  column: number;
+  /** World-space rectangle shown on this page */
+  viewBox: SceneBounds;
+}
+
+/**
+ * Splits the scene over pages: its width is spread across `pagesAcross` pages and
+ * as many rows are added as the height then needs, at one shared scale.
+ */
+export function computePdfTiles(bounds: SceneBounds, options: Pick<CanvasExportOptions, 'pageSize' | 'landscape' | 'pagesAcross'>): { page: { width: number; height: number }; scale: number; tiles: PdfTile[] } {
+  const portrait = PAGE_SIZES[options.pageSize];
+  const page = options.landscape ? { width: portrait.height, height: portrait.width } : portrait;
+  const across = Math.max(1, Math.floor(options.pagesAcross));
+  const tileWidth = bounds.width / across;
+  const scale = (page.width - 2 * PAGE_MARGIN) / tileWidth;
+  const tileHeight = (page.height - 2 * PAGE_MARGIN) / scale;
+  const down = Math.max(1, Math.ceil(bounds.height / tileHeight - 1e-9));
+  const tiles: PdfTile[] = [];
+  for (let row = 0; row < down; row++) {
+    for (let column = 0; column < across; column++) {
+      tiles.push({ row, column, viewBox: { x: bounds.x + column * tileWidth, y: bounds.y + row * tileHeight, width: tileWidth, height: tileHeight } });
+    }
+  }
+  return { page, scale, tiles };
+}
+
+/** Printable HTML with one page per tile; the scene is defined once and referenced by each page. */
+export function buildPdfHtml(scene: CanvasExportScene, options: Pick<CanvasExportOptions, 'pageSize' | 'landscape' | 'pagesAcross'>): string {
+  const bounds = getSceneBounds(scene);
+  const { page, tiles } = computePdfTiles(bounds, options);
+  const { defs, body } = renderSceneMarkup(scene);
+  const across = Math.max(...tiles.map(t => t.column)) + 1;
+  const down = Math.max(...tiles.map(t => t.row)) + 1;
+  const innerWidth = page.width - 2 * PAGE_MARGIN;
+  const innerHeight = page.height - 2 * PAGE_MARGIN;
+  const pages = tiles.map(({ row, column, viewBox }) => [
+    '<section class="page">',
+    `<header>${escapeXml(scene.title)}${tiles.length > 1 ? ` — row ${row + 1} of ${down}, column ${column + 1} of ${across}` : ''}</header>`,
+    `<svg width="${innerWidth}" height="${innerHeight}" viewBox="${viewBox.x} ${viewBox.y} ${viewBox.width} ${viewBox.height}"><use href="#scene"/></svg>`,
+    '</section>',
+  ].join(''));
+  return [
+    '<!DOCTYPE html><html><head><meta charset="utf-8">',
+    `<title>${escapeXml(scene.title)}</title>`,
+    '<style>',
+    `@page { size: ${page.width}px ${page.height}px; margin: 0; }`,
+    'html, body { margin: 0; padding: 0; background: #fff; }',
+    `.page { position: relative; width: ${page.width}px; height: ${page.height}px; padding: ${PAGE_MARGIN}px; box-sizing: border-box; page-break-after: always; break-after: page; overflow: hidden; }`,
+    '.page:last-child { page-break-after: auto; break-after: auto; }',
+    `header { position: absolute; top: 10px; left: ${PAGE_MARGIN}px; font: 10px ${SANS}; color: #6b7280; }`,
+    '</style></head><body>',
+    `<svg width="0" height="0" style="position:absolute"><defs>${defs}<g id="scene">${body}</g></defs></svg>`,
+    ...pages,
+    '</body></html>',
+  ].join('\n');
+}
+
+/**
+ * Largest pixel ratio not above `requested` at which a canvas of the given world size
+ * still fits the browser's canvas limits.
+ */
+export function clampPixelRatio(width: number, height: number, requested: number): number {
+  const bySide = MAX_CANVAS_SIDE / Math.max(width, height, 1);
+  const byArea = Math.sqrt(MAX_CANVAS_AREA / Math.max(width * height, 1));
+  return Math.min(requested, bySide, byArea);
+}
+
+/** Rasterizes SVG markup to a PNG data URL. Browser only. */
+async function rasterizeSvg(svg: string, width: number, height: number, pixelRatio: number): Promise<string> {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  try {
+    const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error('The exported SVG could not be rendered'));
+      img.src = url;
+    });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * pixelRatio);
+    canvas.height = Math.round(height * pixelRatio);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not create a drawing context for the PNG');
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/png');
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+const FILE_FILTERS: Record<CanvasExportFormat, { name: string; extensions: string[] }> = {
+  svg: { name: 'SVG Image', extensions: ['svg'] },
+  png: { name: 'PNG Image', extensions: ['png'] },
+  pdf: { name: 'PDF Document', extensions: ['pdf'] },
+};
+
+function downloadDataUrl(dataUrl: string, fileName: string) {
+  const link = document.createElement('a');
+  link.download = fileName;
+  link.href = dataUrl;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
+
+/**
+ * Asks where to save a text export and writes it; in browser mode the file is downloaded.
+ *
+ * @returns The saved path (or file name in browser mode), or null when the user cancelled
+ * @throws When writing the file fails
+ */
+export async function saveTextExport(
+  text: string,
+  fileName: string,
+  filter: { name: string; extensions: string[] },
+  mimeType = 'text/plain',
+  dialogTitle = 'Export Canvas',
+): Promise<string | null> {
+  const api = window.electronAPI;
+  if (!api) {
+    downloadDataUrl(`data:${mimeType};charset=utf-8,${encodeURIComponent(text)}`, fileName);
+    return fileName;
+  }
+  const filePath = await api.showSaveDialog({ title: dialogTitle, defaultPath: fileName, filters: [filter] });
+  if (!filePath) return null;
+  const res = await api.writeFile(filePath, text);
+  if (!res.success) throw new Error(res.error ?? `Could not write ${fileName}`);
+  return filePath;
+}
+
+/**
+ * Exports the scene in the chosen format, asking where to save it.
+ *
+ * @returns The saved path (or file name in browser mode), or null when the user cancelled
+ * @throws When rendering or writing the file fails
+ */
+export async function exportCanvasScene(scene: CanvasExportScene, options: CanvasExportOptions, fileBaseName: string): Promise<string | null> {
+  const fileName = `${fileBaseName}.${options.format}`;
+  if (options.format === 'svg') {
+    return saveTextExport(renderSceneSvg(scene).svg, fileName, FILE_FILTERS.svg, 'image/svg+xml');
+  }
+  const api = window.electronAPI;
+  let filePath: string | null = fileName;
+  if (api) {
+    filePath = await api.showSaveDialog({ title: 'Export Canvas', defaultPath: fileName, filters: [FILE_FILTERS[options.format]] });
+    if (!filePath) return null;
+  }
+
+  if (options.format === 'pdf') {
+    const html = buildPdfHtml(scene, options);
+    if (api?.exportPdf) {
+      const res = await api.exportPdf(html, filePath);
+      if (!res.success) throw new Error(res.error ?? 'PDF export failed');
+      return filePath;
+    }
+    // Browser mode: hand the pages to the print dialog, which can save as PDF
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) throw new Error('The print window was blocked');
+    printWindow.document.write(html);
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+    return fileName;
+  }
+
+  const { svg, bounds } = renderSceneSvg(scene);
+  const dataUrl = await rasterizeSvg(svg, bounds.width, bounds.height, clampPixelRatio(bounds.width, bounds.height, options.pixelRatio));
+  if (api) {
+    const res = await api.writeFile(filePath, dataUrl.split(',')[1], 'base64');
+    if (!res.success) throw new Error(res.error ?? 'Could not write the PNG file');
+  } else {
+    downloadDataUrl(dataUrl, fileName);
+  }
+  return filePath;
+}
@@ -0,0 +1,77 @@
+import {
+  bundleLinks,
+  cullLinks,
+  cullNodes,
+  getDetailLevel,
+  getViewportWorldRect,
+  hitTestNode,
+  type CanvasBox,
+} from './canvasLod';
+
+const box = (id: string, x: number, y: number): CanvasBox => ({ id, position: { x, y }, width: 100, height: 50 });
+
+describe('canvas level of detail', () => {
+  it('picks dots, titles or full cards by zoom', () => {
+    expect(getDetailLevel(0.2)).toBe('dot');
+    expect(getDetailLevel(0.5)).toBe('title');
+    expect(getDetailLevel(1)).toBe('full');
+  });
+
+  it('culls nodes and links to the viewport in world space', () => {
+    const viewport = getViewportWorldRect({ x: -1000, y: -200, scale: 2 }, { width: 800, height: 600 }, 0);
+    expect(viewport).toEqual({ x: 500, y: 100, width: 400, height: 300 });
+    expect(getViewportWorldRect({ x: 0, y: 0, scale: 1 }, { width: 0, height: 0 })).toBeNull();
+
+    const nodes = [box('left', 0, 0), box('inside', 600, 200), box('right', 2000, 100)];
+    expect(cullNodes(nodes, viewport).map(n => n.id)).toEqual(['inside']);
+    expect(cullNodes(nodes, null)).toHaveLength(3);
+
+    const nodeMap = new Map(nodes.map(n => [n.id, n]));
+    const links = [
+      { id: 'across', sourceId: 'left', targetId: 'right' },
+      { id: 'offscreen', sourceId: 'left', targetId: 'left' },
+      { id: 'touching', sourceId: 'inside', targetId: 'right' },
+    ];
+    expect(cullLinks(links, nodeMap, viewport).map(l => l.id)).toEqual(['across', 'touching']);
+  });
+
+  it('bundles links between the same two groups', () => {
+    const nodes = [box('a1', 0, 0), box('a2', 0, 100), box('b1', 500, 0), box('c1', 1000, 0)];
+    const nodeMap = new Map(nodes.map(n => [n.id, n]));
+    const links = [
+      { id: 'l1', sourceId: 'a1', targetId: 'b1' },
+      { id: 'l2', sourceId: 'a2', targetId: 'b1' },
+      { id: 'l3', sourceId: 'a1', targetId: 'a2' },
+      { id: 'l4', sourceId: 'b1', targetId: 'c1' },
+    ];
+    const { bundles, singles } = bundleLinks(links, nodeMap, id => id[0]);
+    expect(singles.map(l => l.id)).toEqual(['l3', 'l4']);
+    expect(bundles).toEqual([{
+      key: 'a\u0000b', sourceGroup: 'a', targetGroup: 'b',
+      from: { x: 50, y: 75 }, to: { x: 550, y: 25 }, linkIds: ['l1', 'l2'],
+    }]);
+  });
+
+  it('hit-tests boxes and nearby dots', () => {
+    const nodes = [box('a', 0, 0), box('b', 300, 0)];
+    expect(hitTestNode(nodes, { x: 320, y: 10 })?.id).toBe('b');
+    expect(hitTestNode(nodes, { x: 200, y: 25 })).toBeNull();
+    expect(hitTestNode(nodes, { x: 200, y: 25 }, 160)?.id).toBe('a');
+  });
+
+  it('culls and bundles 5k nodes quickly', () => {
+    const nodes = Array.from({ length: 5000 }, (_, i) => box(`f${i % 50}:n${i}`, (i % 100) * 150, Math.floor(i / 100) * 80));
+    const nodeMap = new Map(nodes.map(n => [n.id, n]));
+    const links = nodes.slice(1).map((n, i) => ({ id: `l${i}`, sourceId: nodes[i].id, targetId: n.id }));
+    const viewport = getViewportWorldRect({ x: 0, y: 0, scale: 0.5 }, { width: 1200, height: 800 });
+    const started = performance.now();
+    const visible = cullNodes(nodes, viewport);
+    const visibleLinks = cullLinks(links, nodeMap, viewport);
+    const { bundles, singles } = bundleLinks(links, nodeMap, id => id.split(':')[0]);
+    expect(performance.now() - started).toBeLessThan(1000);
+    expect(visible.length).toBeGreaterThan(0);
+    expect(visible.length).toBeLessThan(nodes.length / 5);
+    expect(visibleLinks.length).toBeLessThan(links.length);
+    expect(bundles.reduce((sum, b) => sum + b.linkIds.length, 0) + singles.length).toBe(links.length);
+  });
+});
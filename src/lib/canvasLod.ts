@@ -0,0 +1,172 @@
+/**
+ * @file canvasLod.ts
+ * @description Viewport culling, level of detail and edge bundling for the Flow Canvas (~170 lines).
+ * The zoom level picks how much of each node is drawn: dots when zoomed far out, titles in
+ * between, full cards up close. Only nodes and links that touch the visible area (plus a
+ * margin) are rendered, and when too many are still visible the DOM layer hands over to a
+ * 2D canvas renderer. Zoomed out, links between the same two files are drawn as one bundle.
+ * Integration: used by `RouteCanvas` to pick what to render and by `RouteCanvasRaster` to
+ * draw the overview.
+ */
+
+import type { Position } from '@/types';
+
+export type CanvasDetailLevel = 'dot' | 'title' | 'full';
+
+/** Below this zoom nodes are drawn as dots */
+export const DOT_DETAIL_MAX_SCALE = 0.35;
+/** Below this zoom (and above the dot level) nodes show their title only */
+export const TITLE_DETAIL_MAX_SCALE = 0.7;
+/** Above this many visible nodes the 2D canvas renderer takes over from the DOM */
+export const DOM_NODE_BUDGET = 400;
+
+export interface WorldRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CanvasBox {
+  id: string;
+  position: Position;
+  width: number;
+  height: number;
+}
+
+export interface CanvasEdge {
+  id: string;
+  sourceId: string;
+  targetId: string;
+}
+
+export interface LinkBundle {
+  key: string;
+  sourceGroup: string;
+  targetGroup: string;
+  /** Centre of the source group's nodes */
+  from: Position;
+  /** Centre of the target group's nodes */
+  to: Position;
+  linkIds: string[];
+}
+
+export function getDetailLevel(scale: number): CanvasDetailLevel {
+  if (scale < DOT_DETAIL_MAX_SCALE) return 'dot';
+  if (scale < TITLE_DETAIL_MAX_SCALE) return 'title';
+  return 'full';
+}
+
+/**
+ * The part of the world visible in a viewport of `size` screen pixels, grown by `margin`
+ * pixels on each side so nodes do not pop in at the edges while panning. Returns null
+ * before the viewport has been measured, meaning nothing can be culled.
+ */
+export function getViewportWorldRect(
+  transform: { x: number; y: number; scale: number },
+  size: { width: number; height: number },
+  margin = 200,
+): WorldRect | null {
+  if (size.width <= 0 || size.height <= 0 || transform.scale <= 0) return null;
+  return {
+    x: (-transform.x - margin) / transform.scale,
+    y: (-transform.y - margin) / transform.scale,
+    width: (size.width + margin * 2) / transform.scale,
+    height: (size.height + margin * 2) / transform.scale,
+  };
+}
+
+const overlaps = (box: { position: Position; width: number; height: number }, rect: WorldRect) =>
+  box.position.x < rect.x + rect.width &&
+  box.position.x + box.width > rect.x &&
+  box.position.y < rect.y + rect.height &&
+  box.position.y + box.height > rect.y;
+
+export function cullNodes<T extends CanvasBox>(nodes: T[], viewport: WorldRect | null): T[] {
+  if (!viewport) return nodes;
+  return nodes.filter(node => overlaps(node, viewport));
+}
+
+/** Keeps links whose bounding box (spanning both end nodes) touches the viewport. */
+export function cullLinks<L extends CanvasEdge>(links: L[], nodeMap: Map<string, CanvasBox>, viewport: WorldRect | null): L[] {
+  if (!viewport) return links;
+  return links.filter(link => {
+    const source = nodeMap.get(link.sourceId);
+    const target = nodeMap.get(link.targetId);
+    if (!source || !target) return false;
+    const x = Math.min(source.position.x, target.position.x);
+    const y = Math.min(source.position.y, target.position.y);
+    return overlaps({
+      position: { x, y },
+      width: Math.max(source.position.x + source.width, target.position.x + target.width) - x,
+      height: Math.max(source.position.y + source.height, target.position.y + target.height) - y,
+    }, viewport);
+  });
+}
+
+/**
+ * Merges links that run between the same two groups into bundles drawn from group centre to
+ * group centre. Links inside one group, and the only link between two groups, stay single.
+ */
+export function bundleLinks<L extends CanvasEdge>(
+  links: L[],
+  nodeMap: Map<string, CanvasBox>,
+  groupOf: (nodeId: string) => string,
+): { bundles: LinkBundle[]; singles: L[] } {
+  const byPair = new Map<string, L[]>();
+  const singles: L[] = [];
+  for (const link of links) {
+    const sourceGroup = groupOf(link.sourceId);
+    const targetGroup = groupOf(link.targetId);
+    if (sourceGroup === targetGroup) {
+      singles.push(link);
+      continue;
+    }
+    const key = `${sourceGroup}\u0000${targetGroup}`;
+    byPair.set(key, [...(byPair.get(key) ?? []), link]);
+  }
+
+  const sums = new Map<string, { x: number; y: number; count: number }>();
+  nodeMap.forEach(node => {
+    const group = groupOf(node.id);
+    const sum = sums.get(group) ?? { x: 0, y: 0, count: 0 };
+    sum.x += node.position.x + node.width / 2;
+    sum.y += node.position.y + node.height / 2;
+    sum.count++;
+    sums.set(group, sum);
+  });
+  const centre = (group: string): Position => {
+    const sum = sums.get(group);
+    return sum ? { x: sum.x / sum.count, y: sum.y / sum.count } : { x: 0, y: 0 };
+  };
+
+  const bundles: LinkBundle[] = [];
+  byPair.forEach((pairLinks, key) => {
+    if (pairLinks.length === 1) {
+      singles.push(pairLinks[0]);
+      return;
+    }
+    const sourceGroup = groupOf(pairLinks[0].sourceId);
+    const targetGroup = groupOf(pairLinks[0].targetId);
+    bundles.push({ key, sourceGroup, targetGroup, from: centre(sourceGroup), to: centre(targetGroup), linkIds: pairLinks.map(l => l.id) });
+  });
+  return { bundles, singles };
+}
+
+/**
+ * The node under a world point, or else the nearest one within `tolerance` world units
+ * of its centre, so small dots can still be hit.
+ */
+export function hitTestNode<T extends CanvasBox>(nodes: T[], point: Position, tolerance = 0): T | null {
+  let best: T | null = null;
+  let bestDistance = Infinity;
+  for (const node of nodes) {
+    if (overlaps(node, { x: point.x, y: point.y, width: 0.001, height: 0.001 })) return node;
+    const distance = Math.hypot(point.x - (node.position.x + node.width / 2), point.y - (node.position.y + node.height / 2));
+    if (distance <= tolerance && distance < bestDistance) {
+      best = node;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,79 @@
+import { buildCharacterTimeline, computeCharacterPresence } from './characterTimeline';
+import { performRenpyAnalysis, performRouteAnalysis } from '@/hooks/useRenpyAnalysis';
+
+const SCRIPT = [
+  'define e = Character("Eileen", image="eileen")',
+  'define l = Character("Lucy")',
+  'define m = Character("Mira")',
+  'label start:',
+  '    show eileen happy',
+  '    e "Morning."',
+  '    e "Ready?"',
+  '    l "Yes."',
+  '    menu:',
+  '        "Go to the park":',
+  '            jump park',
+  '        "Stay in":',
+  '            jump home',
+  'label park:',
+  '    "Birds sing."',
+  '    jump walk',
+  'label walk:',
+  '    "The path is long."',
+  '    jump finale',
+  'label home:',
+  '    show l',
+  '    jump finale',
+  'label finale:',
+  '    e "What a day."',
+  '    return',
+].join('\n');
+
+const analyze = () => {
+  const blocks = [{ id: 'b1', content: SCRIPT }];
+  const result = performRenpyAnalysis(blocks);
+  Object.assign(result, performRouteAnalysis(blocks, result.labels, result.jumps));
+  return { blocks, result };
+};
+
+describe('character timeline', () => {
+  it('lays out each path to a branched ending on its own', () => {
+    const { blocks, result } = analyze();
+    expect(result.identifiedRoutes.map(route => route.nodeIds.map(id => id.replace('b1:', '')))).toEqual([
+      ['start', 'park', 'walk', 'finale'],
+      ['start', 'home', 'finale'],
+    ]);
+    const presence = computeCharacterPresence(result.labelNodes, blocks, result.dialogueLines, result.characters);
+    const home = buildCharacterTimeline(result.identifiedRoutes[1].nodeIds, presence);
+    // Only home separates Eileen's lines on this path; the labels of the park branch are not in it
+    expect(home.lanes.map(lane => [lane.tag, lane.longestGap])).toEqual([
+      ['e', { startIndex: 1, endIndex: 1 }],
+      ['l', null],
+    ]);
+  });
+
+  it('counts dialogue lines and show statements per label', () => {
+    const { blocks, result } = analyze();
+    const presence = computeCharacterPresence(result.labelNodes, blocks, result.dialogueLines, result.characters);
+    expect(Object.fromEntries(presence.get('b1:start')!)).toEqual({
+      e: { lines: 2, shown: true },
+      l: { lines: 1, shown: false },
+    });
+    expect(Object.fromEntries(presence.get('b1:home')!)).toEqual({ l: { lines: 0, shown: true } });
+    expect(presence.get('b1:park')!.size).toBe(0);
+  });
+
+  it('builds lanes with absences and silent characters', () => {
+    const { blocks, result } = analyze();
+    const presence = computeCharacterPresence(result.labelNodes, blocks, result.dialogueLines, result.characters);
+    const nodeIds = ['b1:start', 'b1:park', 'b1:walk', 'b1:finale'];
+    const timeline = buildCharacterTimeline(nodeIds, presence, ['m']);
+    expect(timeline.maxLines).toBe(2);
+    expect(timeline.lanes.map(lane => [lane.tag, lane.totalLines, lane.longestGap])).toEqual([
+      ['e', 3, { startIndex: 1, endIndex: 2 }],
+      ['l', 1, null],
+      ['m', 0, null],
+    ]);
+    expect(timeline.lanes[2].cells).toEqual([null, null, null, null]);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * @file characterTimeline.ts
+ * @description Character presence along one identified route, label by label (~110 lines).
+ * A route is one concrete path to an ending, its labels already in play order, so gaps are
+ * measured along labels that are actually played in sequence. Each character gets a lane with
+ * the number of dialogue lines they speak in every label, plus whether a `show` statement puts
+ * their sprite on screen there. Lanes also report the longest run of labels a character is
+ * absent for between two appearances.
+ * Integration: `CharacterTimelineView` renders the lanes for the route picked from
+ * `identifiedRoutes`; label bodies are delimited as in `lib/storyboardOutline`.
+ */
+
+import type { Block, Character, DialogueLine, LabelNode } from '@/types';
+import { computeLabelStats } from '@/lib/storyboardOutline';
+
+export interface PresenceCell {
+  /** Dialogue lines spoken in the label */
+  lines: number;
+  /** Whether a `show` statement in the label names the character's image */
+  shown: boolean;
+}
+
+export interface TimelineLane {
+  tag: string;
+  /** One entry per route label, null where the character is absent */
+  cells: (PresenceCell | null)[];
+  totalLines: number;
+  /** Longest run of labels without the character between two appearances, as inclusive indices */
+  longestGap: { startIndex: number; endIndex: number } | null;
+}
+
+export interface CharacterTimeline {
+  /** Route labels in play order */
+  nodeIds: string[];
+  lanes: TimelineLane[];
+  /** Highest line count of any cell, for shading */
+  maxLines: number;
+}
+
+const SHOW_REGEX = /^\s*show\s+(?!screen\b|expression\b|layer\b|text\b)([A-Za-z_]\w*)/;
+
+/**
+ * Dialogue line counts and `show` statements per label and character. A `show` counts for a
+ * character when its image tag matches the character's `image` parameter or its tag.
+ */
+export function computeCharacterPresence(
+  labelNodes: LabelNode[],
+  blocks: Pick<Block, 'id' | 'content'>[],
+  dialogueLines: Map<string, DialogueLine[]>,
+  characters: Map<string, Character>,
+): Map<string, Map<string, PresenceCell>> {
+  const imageTags = new Map<string, string>();
+  characters.forEach(character => {
+    imageTags.set(character.tag, character.tag);
+    if (character.image) imageTags.set(character.image, character.tag);
+  });
+  const contentById = new Map(blocks.map(block => [block.id, block.content.split('\n')]));
+  const stats = computeLabelStats(labelNodes, blocks, dialogueLines);
+  const presence = new Map<string, Map<string, PresenceCell>>();
+
+  for (const node of labelNodes) {
+    const endLine = stats.get(node.id)?.endLine ?? node.startLine;
+    const cells = new Map<string, PresenceCell>();
+    const cell = (tag: string) => {
+      if (!cells.has(tag)) cells.set(tag, { lines: 0, shown: false });
+      return cells.get(tag)!;
+    };
+    for (const dialogue of dialogueLines.get(node.blockId) ?? []) {
+      if (dialogue.line > node.startLine && dialogue.line <= endLine) cell(dialogue.tag).lines++;
+    }
+    const lines = contentById.get(node.blockId) ?? [];
+    for (let line = node.startLine + 1; line <= endLine; line++) {
+      const tag = imageTags.get(lines[line - 1]?.match(SHOW_REGEX)?.[1] ?? '');
+      if (tag) cell(tag).shown = true;
+    }
+    presence.set(node.id, cells);
+  }
+  return presence;
+}
+
+/**
+ * Builds the lanes for one route. Characters appear in order of first appearance on the
+ * route; characters in `alwaysInclude` that never appear on it get an empty lane at the end.
+ */
+export function buildCharacterTimeline(
+  nodeIds: string[],
+  presence: Map<string, Map<string, PresenceCell>>,
+  alwaysInclude: string[] = [],
+): CharacterTimeline {
+  const tags: string[] = [];
+  let maxLines = 0;
+  for (const id of nodeIds) {
+    presence.get(id)?.forEach((cell, tag) => {
+      if (!tags.includes(tag)) tags.push(tag);
+      maxLines = Math.max(maxLines, cell.lines);
+    });
+  }
+  for (const tag of alwaysInclude) if (!tags.includes(tag)) tags.push(tag);
+
+  const lanes = tags.map(tag => {
+    const cells = nodeIds.map(id => presence.get(id)?.get(tag) ?? null);
+    let longestGap: TimelineLane['longestGap'] = null;
+    let lastSeen = -1;
+    cells.forEach((cell, i) => {
+      if (!cell) return;
+      if (lastSeen >= 0 && i - lastSeen - 1 > (longestGap ? longestGap.endIndex - longestGap.startIndex + 1 : 0)) {
+        longestGap = { startIndex: lastSeen + 1, endIndex: i - 1 };
+      }
+      lastSeen = i;
+    });
+    return { tag, cells, totalLines: cells.reduce((sum, cell) => sum + (cell?.lines ?? 0), 0), longestGap };
+  });
+  return { nodeIds, lanes, maxLines };
+}
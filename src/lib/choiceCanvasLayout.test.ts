@@ -0,0 +1,74 @@
+import {
+  arrangeChoiceColumn,
+  computeChoiceLayoutFingerprint,
+  getChoiceSlotKeys,
+  groupOutgoingLinks,
+  pruneChoiceNodeLayouts,
+} from './choiceCanvasLayout';
+import { performRenpyAnalysis, performRouteAnalysis } from '@/hooks/useRenpyAnalysis';
+
+const SCRIPT = [
+  'label start:',
+  '    menu:',
+  '        "Go to the park":',
+  '            jump park',
+  '        "Stay in":',
+  '            jump home',
+  '    jump home',
+  'label park:',
+  '    jump home',
+  'label home:',
+  '    return',
+].join('\n');
+
+const analyze = (blockId: string, content = SCRIPT) => {
+  const blocks = [{ id: blockId, content }];
+  const result = performRenpyAnalysis(blocks);
+  return performRouteAnalysis(blocks, result.labels, result.jumps);
+};
+
+describe('choice canvas layout', () => {
+  it('keys slots by target label and choice text', () => {
+    const { labelNodes, routeLinks } = analyze('b1');
+    const labelOf = (id: string) => labelNodes.find(n => n.id === id)?.label ?? id;
+    const { menus, directs } = groupOutgoingLinks(routeLinks.filter(l => l.sourceId === 'b1:start'));
+    expect(menus).toHaveLength(1);
+    expect(getChoiceSlotKeys([...menus.flat(), ...directs], labelOf)).toEqual([
+      'to:park|Go to the park',
+      'to:home|Stay in',
+      'to:home|',
+    ]);
+    expect(getChoiceSlotKeys([...directs, ...directs], labelOf)).toEqual(['to:home|', 'to:home|#2']);
+  });
+
+  it('stacks unpinned items around pinned ones', () => {
+    const arranged = arrangeChoiceColumn(['a', 'b', 'c'], { b: { position: { x: 900, y: 40 } } }, 100, 50, 10, 200);
+    expect(arranged).toEqual([
+      { x: 100, y: 145, pinned: false },
+      { x: 900, y: 40, pinned: true },
+      { x: 100, y: 205, pinned: false },
+    ]);
+  });
+
+  it('keeps layouts across re-analysis and prunes keys that disappeared', () => {
+    const first = analyze('b1');
+    const second = analyze('block-reloaded');
+    expect(computeChoiceLayoutFingerprint(second.labelNodes, second.routeLinks))
+      .toBe(computeChoiceLayoutFingerprint(first.labelNodes, first.routeLinks));
+
+    const layouts = {
+      start: { items: { 'to:park|Go to the park': { hidden: true }, 'to:mall|Shop': { position: { x: 1, y: 2 } } }, collapsedMenus: ['menu:0', 'menu:3'] },
+      home: { items: { 'from:park': { position: { x: 5, y: 6 } } } },
+      gone: { items: { 'from:start': { hidden: true } } },
+    };
+    const edited = analyze('b1', SCRIPT.replace('label park:\n    jump home', 'label park:\n    return'));
+    expect(computeChoiceLayoutFingerprint(edited.labelNodes, edited.routeLinks))
+      .not.toBe(computeChoiceLayoutFingerprint(first.labelNodes, first.routeLinks));
+    expect(pruneChoiceNodeLayouts(layouts, edited.labelNodes, edited.routeLinks)).toEqual({
+      layouts: {
+        start: { items: { 'to:park|Go to the park': { hidden: true } }, collapsedMenus: ['menu:0'] },
+      },
+      removed: 4,
+    });
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * @file choiceCanvasLayout.ts
+ * @description Manual layout for the Choices Canvas: pinned positions, hidden branches and
+ * collapsed menus around each label (~150 lines).
+ * The canvas shows one label at a time with its parents on the left and its choices on the
+ * right. Items are keyed by label names and choice text rather than analysis IDs (node IDs
+ * embed per-session block IDs and link IDs are counters), so a saved layout survives
+ * re-analysis and reopening the project as long as the labels and choices still exist.
+ * Integration: `ChoiceCanvas` arranges its columns with these helpers; `App` stores the
+ * result in `ProjectSettings.choiceNodeLayouts` and prunes stale entries on project load
+ * when `choiceCanvasLayoutFingerprint` no longer matches.
+ */
+
+import type { LabelNode, Position, RouteLink, SavedChoiceItemLayout, SavedChoiceNodeLayout } from '@/types';
+
+export interface ArrangedChoiceItem extends Position {
+  pinned: boolean;
+}
+
+export const getChoiceParentKey = (parentLabel: string) => `from:${parentLabel}`;
+export const getChoiceMenuKey = (menuIndex: number) => `menu:${menuIndex}`;
+
+/** Splits a label's outgoing links into its menus (in source order) and its direct jumps. */
+export function groupOutgoingLinks(links: RouteLink[]): { menus: RouteLink[][]; directs: RouteLink[] } {
+  const byMenuLine = new Map<number, RouteLink[]>();
+  const directs: RouteLink[] = [];
+  for (const link of links) {
+    if (link.menuLine !== undefined) {
+      byMenuLine.set(link.menuLine, [...(byMenuLine.get(link.menuLine) ?? []), link]);
+    } else {
+      directs.push(link);
+    }
+  }
+  const menus = [...byMenuLine.keys()].sort((a, b) => a - b).map(line => byMenuLine.get(line)!);
+  return { menus, directs };
+}
+
+/**
+ * Stable keys for the right-hand slots, one per link: target label plus choice text, with a
+ * counter for exact repeats (e.g. two jumps to the same label).
+ */
+export function getChoiceSlotKeys(links: RouteLink[], labelOf: (nodeId: string) => string): string[] {
+  const seen = new Map<string, number>();
+  return links.map(link => {
+    const base = `to:${labelOf(link.targetId)}|${link.choiceText ?? ''}`;
+    const count = seen.get(base) ?? 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base}#${count + 1}`;
+  });
+}
+
+/** Stacks `count` items of height `slotH` with `gap` between, centered on `anchorY`. */
+export function stackYs(count: number, slotH: number, gap: number, anchorY: number): number[] {
+  if (count === 0) return [];
+  const total = count * slotH + (count - 1) * gap;
+  const top = anchorY - total / 2;
+  return Array.from({ length: count }, (_, i) => top + i * (slotH + gap));
+}
+
+/**
+ * Places one column: pinned items keep their saved position and the rest are stacked
+ * around `anchorY` in their original order, closing the gaps the pinned items left.
+ */
+export function arrangeChoiceColumn(
+  keys: string[],
+  items: Record<string, SavedChoiceItemLayout> | undefined,
+  defaultX: number,
+  slotH: number,
+  gap: number,
+  anchorY: number,
+): ArrangedChoiceItem[] {
+  const unpinned = keys.filter(key => !items?.[key]?.position);
+  const ys = stackYs(unpinned.length, slotH, gap, anchorY);
+  let next = 0;
+  return keys.map(key => {
+    const position = items?.[key]?.position;
+    if (position) return { x: position.x, y: position.y, pinned: true };
+    return { x: defaultX, y: ys[next++], pinned: false };
+  });
+}
+
+/** Every item and menu key the canvas can show for each label, keyed by label name. */
+function collectNeighborhoodKeys(labelNodes: LabelNode[], routeLinks: RouteLink[]): Map<string, { items: Set<string>; menus: Set<string> }> {
+  const labelOf = new Map(labelNodes.map(node => [node.id, node.label]));
+  const label = (id: string) => labelOf.get(id) ?? id;
+  const result = new Map<string, { items: Set<string>; menus: Set<string> }>();
+  labelNodes.forEach(node => result.set(node.label, { items: new Set(), menus: new Set() }));
+  const outgoing = new Map<string, RouteLink[]>();
+  for (const link of routeLinks) {
+    if (!labelOf.has(link.sourceId) || !labelOf.has(link.targetId)) continue;
+    outgoing.set(link.sourceId, [...(outgoing.get(link.sourceId) ?? []), link]);
+    result.get(label(link.targetId))?.items.add(getChoiceParentKey(label(link.sourceId)));
+  }
+  outgoing.forEach((links, sourceId) => {
+    const entry = result.get(label(sourceId));
+    if (!entry) return;
+    const { menus, directs } = groupOutgoingLinks(links);
+    menus.forEach((_, i) => entry.menus.add(getChoiceMenuKey(i)));
+    getChoiceSlotKeys([...menus.flat(), ...directs], label).forEach(key => entry.items.add(key));
+  });
+  return result;
+}
+
+/**
+ * Summarises the label graph as the Choices Canvas sees it. A changed fingerprint means some
+ * saved keys may no longer exist and the layouts should be pruned.
+ */
+export function computeChoiceLayoutFingerprint(labelNodes: LabelNode[], routeLinks: RouteLink[]): string {
+  const keys = collectNeighborhoodKeys(labelNodes, routeLinks);
+  return [...keys.entries()]
+    .map(([label, { items, menus }]) => `${label}:${[...items, ...menus].sort().join(',')}`)
+    .sort()
+    .join('|');
+}
+
+/**
+ * Drops saved entries for labels, choices and menus that no longer exist. Everything that
+ * can still be matched by key is kept as is.
+ */
+export function pruneChoiceNodeLayouts(
+  layouts: Record<string, SavedChoiceNodeLayout>,
+  labelNodes: LabelNode[],
+  routeLinks: RouteLink[],
+): { layouts: Record<string, SavedChoiceNodeLayout>; removed: number } {
+  const keys = collectNeighborhoodKeys(labelNodes, routeLinks);
+  const pruned: Record<string, SavedChoiceNodeLayout> = {};
+  let removed = 0;
+  Object.entries(layouts).forEach(([label, layout]) => {
+    const valid = keys.get(label);
+    // A collapsed menu's summary pill is stored under its menu key
+    const items = Object.entries(layout.items ?? {}).filter(([key]) => valid?.items.has(key) || valid?.menus.has(key));
+    const collapsedMenus = (layout.collapsedMenus ?? []).filter(key => valid?.menus.has(key));
+    removed += Object.keys(layout.items ?? {}).length - items.length;
+    removed += (layout.collapsedMenus ?? []).length - collapsedMenus.length;
+    if (items.length === 0 && collapsedMenus.length === 0) return;
+    pruned[label] = {
+      ...(items.length > 0 ? { items: Object.fromEntries(items) } : {}),
+      ...(collapsedMenus.length > 0 ? { collapsedMenus } : {}),
+    };
+  });
+  return { layouts: pruned, removed };
+}
@@ -0,0 +1,69 @@
+import { planCreateLabel, planEditChoiceText, planInsertLink, planRemoveLink } from './flowCanvasEdits';
+import { applyQuickFixEdits } from './renpyQuickFixes';
+import { performRenpyAnalysis, performRouteAnalysis } from '@/hooks/useRenpyAnalysis';
+
+const SCRIPT = [
+  'label start:',
+  '    "Morning."',
+  '    menu:',
+  '        "Go to the park" if energy > 0:',
+  '            jump park',
+  '        "Stay in":',
+  '            "You stay in."',
+  '            jump home',
+  'label park:',
+  '    "Birds sing."',
+  '    return',
+  'label home:',
+  '    jump park',
+].join('\n');
+
+const analyze = (content = SCRIPT) => {
+  const blocks = [{ id: 'b1', content }];
+  const result = performRenpyAnalysis(blocks);
+  return { blocks, ...performRouteAnalysis(blocks, result.labels, result.jumps) };
+};
+
+const apply = (blocks: { id: string; content: string }[], plan: ReturnType<typeof planInsertLink>) => {
+  if ('error' in plan) throw new Error(plan.error);
+  return applyQuickFixEdits(blocks[0].content, plan.edits).split('\n');
+};
+
+describe('flow canvas edits', () => {
+  it('inserts jumps and calls at the end of a label, before a trailing return', () => {
+    const { blocks, labelNodes } = analyze();
+    expect(apply(blocks, planInsertLink('b1:park', 'b1:home', 'call', labelNodes, blocks)).slice(8, 12))
+      .toEqual(['label park:', '    "Birds sing."', '    call home', '    return']);
+    expect(apply(blocks, planInsertLink('b1:start', 'b1:home', 'jump', labelNodes, blocks)).slice(6, 9))
+      .toEqual(['            "You stay in."', '            jump home', '    jump home']);
+    expect(planInsertLink('b1:home', 'b1:start', 'jump', labelNodes, blocks))
+      .toEqual({ error: '"home" already ends in "jump park"; delete that link first' });
+  });
+
+  it('removes a link statement, leaving pass in an otherwise empty block', () => {
+    const { blocks, labelNodes, routeLinks } = analyze();
+    const link = (targetLabel: string) => routeLinks.find(l => l.sourceId === 'b1:start' && l.targetId === `b1:${targetLabel}`)!;
+    expect(apply(blocks, planRemoveLink(link('park'), labelNodes, blocks)).slice(3, 5))
+      .toEqual(['        "Go to the park" if energy > 0:', '            pass']);
+    expect(apply(blocks, planRemoveLink(link('home'), labelNodes, blocks)).slice(5, 8))
+      .toEqual(['        "Stay in":', '            "You stay in."', 'label park:']);
+    const fallThrough = analyze('label a:\n    "Hi."\nlabel b:\n    return');
+    const implicit = fallThrough.routeLinks.find(l => l.type === 'implicit')!;
+    expect('error' in planRemoveLink(implicit, fallThrough.labelNodes, fallThrough.blocks)).toBe(true);
+  });
+
+  it('creates stub labels and rejects duplicates', () => {
+    const { blocks, labelNodes } = analyze();
+    expect(apply(blocks, planCreateLabel('b1', 'epilogue', labelNodes, blocks)).slice(-4))
+      .toEqual(['', 'label epilogue:', '    return', '']);
+    expect(planCreateLabel('b1', 'park', labelNodes, blocks)).toEqual({ error: 'Label "park" already exists' });
+    expect('error' in planCreateLabel('b1', '2nd', labelNodes, blocks)).toBe(true);
+  });
+
+  it('edits choice captions and keeps their conditions', () => {
+    const { blocks } = analyze();
+    expect(apply(blocks, planEditChoiceText('b1', 5, 'Say "hi" to the birds', blocks))[3])
+      .toBe('        "Say \\"hi\\" to the birds" if energy > 0:');
+    expect(apply(blocks, planEditChoiceText('b1', 8, 'Nap', blocks))[5]).toBe('        "Nap":');
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * @file flowCanvasEdits.ts
+ * @description Script edits behind editing the story flow from the Flow Canvas (~145 lines).
+ * Connecting two labels appends a `jump` or `call` to the end of the source label (before a
+ * trailing `return`), deleting a link removes its statement (leaving `pass` where a block
+ * would otherwise be empty), a new node becomes a stub `label` at the end of a file, and
+ * editing a choice rewrites the caption of the menu choice that holds the jump.
+ * Integration: `RouteCanvas` raises the requests; App plans them here on the live editor
+ * contents and applies the edits through the same path as quick fixes, so they can be
+ * undone and the analysis re-runs.
+ */
+
+import type { Block, LabelNode, RouteLink } from '@/types';
+import type { QuickFixTextEdit } from '@/lib/renpyQuickFixes';
+import { computeLabelStats } from '@/lib/storyboardOutline';
+
+type PlannedEdits = { edits: QuickFixTextEdit[] } | { error: string };
+type SourceBlock = Pick<Block, 'id' | 'content'>;
+
+const LABEL_NAME_REGEX = /^[A-Za-z_]\w*$/;
+const CHOICE_LINE_REGEX = /^(\s*")((?:\\.|[^"\\])*)("(?:\s+if\s+.+?)?\s*:\s*(?:#.*)?)$/;
+
+const indentOf = (line: string) => line.length - line.trimStart().length;
+const isCode = (line: string | undefined) => !!line && line.trim() !== '' && !line.trim().startsWith('#');
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Adds `jump`/`call` to `targetId` at the end of the source label. A trailing `return` stays
+ * last; a label that already ends in a `jump` has to lose that link first.
+ */
+export function planInsertLink(
+  sourceId: string,
+  targetId: string,
+  kind: 'jump' | 'call',
+  labelNodes: LabelNode[],
+  blocks: SourceBlock[],
+): PlannedEdits {
+  const nodes = new Map(labelNodes.map(node => [node.id, node]));
+  const source = nodes.get(sourceId);
+  const target = nodes.get(targetId);
+  if (!source || !target) return { error: 'The route graph is out of date; try again after the analysis finishes' };
+  const lines = blocks.find(block => block.id === source.blockId)?.content.split('\n');
+  const endLine = computeLabelStats(labelNodes, blocks, new Map()).get(sourceId)?.endLine;
+  if (!lines || endLine === undefined) return { error: `Could not find label "${source.label}"` };
+
+  const bodyLines: number[] = [];
+  for (let line = source.startLine + 1; line <= endLine; line++) {
+    if (isCode(lines[line - 1])) bodyLines.push(line);
+  }
+  const labelIndent = indentOf(lines[source.startLine - 1] ?? '');
+  const bodyIndent = bodyLines.length > 0 ? indentOf(lines[bodyLines[0] - 1]) : labelIndent + 4;
+  const statement = `${' '.repeat(bodyIndent)}${kind} ${target.label}`;
+
+  // The last statement at the label's own indentation decides where the new one can go
+  const lastLine = [...bodyLines].reverse().find(line => indentOf(lines[line - 1]) === bodyIndent);
+  const last = lastLine !== undefined ? lines[lastLine - 1].trim() : '';
+  if (lastLine !== undefined && /^return\b/.test(last)) {
+    return { edits: [{ blockId: source.blockId, startLine: lastLine, startColumn: 1, endLine: lastLine, endColumn: 1, text: `${statement}\n` }] };
+  }
+  if (/^jump\b/.test(last)) {
+    return { error: `"${source.label}" already ends in "${last}"; delete that link first` };
+  }
+  const anchor = bodyLines.length > 0 ? bodyLines[bodyLines.length - 1] : source.startLine;
+  const column = lines[anchor - 1].length + 1;
+  return { edits: [{ blockId: source.blockId, startLine: anchor, startColumn: column, endLine: anchor, endColumn: column, text: `\n${statement}` }] };
+}
+
+/**
+ * Removes the `jump`/`call` statement behind a link. When it is the only statement of a
+ * block (a menu choice, an `if` branch) it becomes `pass` so the script still parses.
+ */
+export function planRemoveLink(link: RouteLink, labelNodes: LabelNode[], blocks: SourceBlock[]): PlannedEdits {
+  if (link.type === 'implicit' || link.sourceLine === undefined) {
+    return { error: 'This link is the script falling through to the next label; add a jump or return instead' };
+  }
+  const nodes = new Map(labelNodes.map(node => [node.id, node]));
+  const source = nodes.get(link.sourceId);
+  const targetName = nodes.get(link.targetId)?.label;
+  const lines = source ? blocks.find(block => block.id === source.blockId)?.content.split('\n') : undefined;
+  if (!source || !targetName || !lines) return { error: 'The route graph is out of date; try again after the analysis finishes' };
+
+  const lineNo = link.sourceLine;
+  const text = lines[lineNo - 1] ?? '';
+  if (!new RegExp(`^\\s*${link.type}\\s+${escapeRegExp(targetName)}(?![\\w.])`).test(text)) {
+    return { error: `Could not find "${link.type} ${targetName}" on line ${lineNo} of "${source.containerName ?? source.blockId}"` };
+  }
+
+  const indent = indentOf(text);
+  const hasSibling = (step: 1 | -1) => {
+    for (let line = lineNo + step; line >= 1 && line <= lines.length; line += step) {
+      if (!isCode(lines[line - 1])) continue;
+      return indentOf(lines[line - 1]) >= indent;
+    }
+    return false;
+  };
+  const opensBlock = [...lines.slice(0, lineNo - 1)].reverse().find(isCode)?.trimEnd().endsWith(':') ?? false;
+  if (opensBlock && !hasSibling(1) && !hasSibling(-1)) {
+    return { edits: [{ blockId: source.blockId, startLine: lineNo, startColumn: indent + 1, endLine: lineNo, endColumn: text.length + 1, text: 'pass' }] };
+  }
+  if (lineNo === lines.length) {
+    // Last line of the file: take the newline before it instead
+    const previous = lines[lineNo - 2] ?? '';
+    return { edits: [{ blockId: source.blockId, startLine: lineNo - 1, startColumn: previous.length + 1, endLine: lineNo, endColumn: text.length + 1, text: '' }] };
+  }
+  return { edits: [{ blockId: source.blockId, startLine: lineNo, startColumn: 1, endLine: lineNo + 1, endColumn: 1, text: '' }] };
+}
+
+/** Appends `label <name>:` with a `return` stub to the end of a file. */
+export function planCreateLabel(blockId: string, name: string, labelNodes: LabelNode[], blocks: SourceBlock[]): PlannedEdits {
+  const label = name.trim();
+  if (!LABEL_NAME_REGEX.test(label)) {
+    return { error: `"${label}" is not a valid label name; use letters, digits and underscores, not starting with a digit` };
+  }
+  if (labelNodes.some(node => node.label === label)) return { error: `Label "${label}" already exists` };
+  const content = blocks.find(block => block.id === blockId)?.content;
+  if (content === undefined) return { error: 'The file is no longer open in the project' };
+
+  const lines = content.split('\n');
+  const lastLine = lines.length;
+  const column = lines[lastLine - 1].length + 1;
+  const separator = content.trim() === '' ? '' : content.endsWith('\n') ? '\n' : '\n\n';
+  return { edits: [{ blockId, startLine: lastLine, startColumn: column, endLine: lastLine, endColumn: column, text: `${separator}label ${label}:\n    return\n` }] };
+}
+
+/**
+ * Replaces the caption of the menu choice whose body holds the jump on `jumpLine`, keeping
+ * its `if` condition.
+ */
+export function planEditChoiceText(blockId: string, jumpLine: number, text: string, blocks: SourceBlock[]): PlannedEdits {
+  if (!text.trim()) return { error: 'Choice text cannot be empty' };
+  const lines = blocks.find(block => block.id === blockId)?.content.split('\n');
+  if (!lines) return { error: 'The file is no longer open in the project' };
+  const jumpIndent = indentOf(lines[jumpLine - 1] ?? '');
+  for (let line = jumpLine - 1; line >= 1; line--) {
+    const current = lines[line - 1];
+    if (!isCode(current) || indentOf(current) >= jumpIndent) continue;
+    const match = current.match(CHOICE_LINE_REGEX);
+    if (!match) break;
+    const startColumn = match[1].length + 1;
+    const escaped = text.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+    return { edits: [{ blockId, startLine: line, startColumn, endLine: line, endColumn: startColumn + match[2].length, text: escaped }] };
+  }
+  return { error: `Could not find the menu choice above line ${jumpLine}` };
+}
@@ -0,0 +1,90 @@
+import { performAtlAnalysis } from './renpyAtl';
+import { performRenpyAnalysis } from '@/hooks/useRenpyAnalysis';
+
+const analyse = (content: string) => {
+  const blocks = [{ id: 'b1', content }];
+  return performAtlAnalysis(blocks, performRenpyAnalysis(blocks))
+    .map(d => [d.kind, d.severity, d.line, d.column, d.message]);
+};
+
+describe('performAtlAnalysis', () => {
+  it('accepts valid ATL in transforms, images, show statements and screens', () => {
+    expect(analyse([
+      'init python:',
+      '    @renpy.atl_warper',
+      '    def wobble(t):',
+      '        return t',
+      'transform slide(delay=1.0, target=0.8):',
+      '    xalign 0.0 alpha 0.0',
+      '    parallel:',
+      '        linear delay xalign target',
+      '    parallel:',
+      '        easein_quad .5 alpha 1.0',
+      '    wobble 0.3 yoffset -10',
+      '    around (.5, .5) alignaround (.5, .3) angle 0',
+      '    linear 2.0 angle 360 clockwise circles 1',
+      '    on hide:',
+      '        pause 0.5',
+      '    repeat 2',
+      'image blinking:',
+      '    "eye open.png"',
+      '    0.5',
+      '    "eye closed.png" with dissolve',
+      '    choice 2.0:',
+      '        slide(0.5)',
+      '    repeat',
+      'label start:',
+      '    show eileen at slide(0.5), left:',
+      '        ease 1.0 zoom 1.2 matrixcolor TintMatrix("#f00") * SaturationMatrix(0.5)',
+      '    camera:',
+      '        perspective True',
+      'screen hud(trans):',
+      '    default fx = slide',
+      '    add "logo.png" at trans',
+      '    text "x" at fx, truecenter',
+      '    transform:',
+      '        linear 0.5 alpha 1.0',
+    ].join('\n'))).toEqual([]);
+  });
+
+  it('reports bad warpers, missing durations and unknown properties', () => {
+    expect(analyse([
+      'transform broken:',
+      '    lnear 1.0 xalign 1.0',
+      '    linear',
+      '    linear xalign 1.0',
+      '    ease 0.5 xalgn 1.0',
+      '    zooom 2.0',
+      'label start:',
+      '    show eileen:',
+      '        linear 0.5 alpha 1.0 bogus 3',
+    ].join('\n'))).toEqual([
+      ['syntax', 'error', 2, 5, 'Unknown ATL warper "lnear"'],
+      ['syntax', 'error', 3, 5, '"linear" requires a duration'],
+      ['syntax', 'error', 4, 5, '"linear" requires a duration'],
+      ['syntax', 'error', 5, 14, 'Unknown ATL property "xalgn"'],
+      ['syntax', 'error', 6, 5, 'Unknown ATL property "zooom"'],
+      ['syntax', 'error', 9, 30, 'Unknown ATL property "bogus"'],
+    ]);
+  });
+
+  it('reports at clauses naming undefined transforms', () => {
+    expect(analyse([
+      'define flip = Transform(xzoom=-1)',
+      'transform bounce:',
+      '    yoffset 0',
+      'label start:',
+      '    show eileen at bounce, flip, left',
+      '    show lucy at my_transform',
+      '    scene bg park at Transform(zoom=2), wobble',
+      '    show expression "x.png" as x at renpy.store.flip',
+      '    "I looked at everything."',
+      'screen hud():',
+      '    add "logo.png" at spin',
+    ].join('\n'))).toEqual([
+      ['undefined-transform', 'warning', 6, 18, 'Transform "my_transform" is not defined'],
+      ['undefined-transform', 'warning', 7, 41, 'Transform "wobble" is not defined'],
+      ['undefined-transform', 'warning', 11, 23, 'Transform "spin" is not defined'],
+    ]);
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * @file renpyAtl.ts
+ * @description Checks for ATL (Ren'Py's Animation and Transformation Language)
+ * and references to transforms:
+ *  - statements in ATL blocks (`transform name:`, `image name:`, `show ...:`,
+ *    `scene ...:`, `camera:`, and `transform:` / `at transform:` in screens)
+ *    use a known warper followed by a duration, and valid transform properties
+ *  - `at` clauses of `show` / `scene` / `camera` statements and of screen
+ *    displayables name a transform the project defines or Ren'Py provides
+ * Runs inside `renpyAnalysis.worker.ts`, after `performScreenAnalysis`.
+ */
+
+import type { AtlDiagnostic, RenpyAnalysisResult } from '@/types';
+import { getLogicalLines, stripTrailingComment } from './renpyLogicalLines';
+import { getTripleQuotedLineMask } from './renpyTripleQuotes';
+import { skipSimpleExpression, splitOnCommas, tokenizeRenpyLine } from './renpySimpleExpressions';
+import type { RenpyToken } from './renpySimpleExpressions';
+import { POSITION_PROPERTIES, TRANSFORM_PROPERTIES } from './renpyScreenAnalysis';
+import { findClosestNames } from './renpyQuickFixes';
+
+const EASING_CURVES = ['back', 'bounce', 'circ', 'cubic', 'elastic', 'expo', 'quad', 'quart', 'quint'];
+
+/** Warpers Ren'Py provides for interpolation statements (`linear 1.0 xalign 1.0`). */
+export const ATL_WARPERS = new Set([
+  'pause', 'linear', 'ease', 'easein', 'easeout',
+  ...EASING_CURVES.flatMap(curve => [`ease_${curve}`, `easein_${curve}`, `easeout_${curve}`]),
+]);
+
+/** Transforms defined by Ren'Py itself, usable in `at` clauses. */
+export const BUILTIN_TRANSFORMS = [
+  'center', 'default', 'left', 'offscreenleft', 'offscreenright', 'reset', 'right', 'top',
+  'topleft', 'topright', 'truecenter',
+];
+
+/** Ren'Py classes and functions that build a transform (`at Transform(zoom=0.5)`). */
+const TRANSFORM_CALLABLES = [
+  'Transform', 'At', 'Position', 'Move', 'Pan', 'Zoom', 'FactorZoom', 'SizeZoom', 'Revolve',
+  'Motion', 'Alpha', 'RotoZoom', 'Flatten', 'AlphaMask',
+];
+
+const ATL_PROPERTIES = new Set([
+  ...POSITION_PROPERTIES,
+  ...TRANSFORM_PROPERTIES,
+  'orientation', 'point_to', 'xrotate', 'yrotate', 'zrotate',
+]);
+
+/** ATL statements other than interpolations and displayable expressions. */
+const ATL_KEYWORDS = new Set([
+  'animation', 'block', 'choice', 'contains', 'event', 'function', 'on', 'parallel', 'pass',
+  'repeat', 'time', 'warp',
+]);
+
+const SCREEN_HEADER_RE = /^(\s*)screen\s+(\w+)/;
+const CALLABLE_DEF_RE = /^\s*(?:class|def)\s+([a-zA-Z_]\w*)/gm;
+const ATL_WARPER_DEF_RE = /@renpy\.atl_warper\s*\n\s*def\s+([a-zA-Z_]\w*)/g;
+
+function isAtlProperty(name: string): boolean {
+  return ATL_PROPERTIES.has(name) || /^(?:u|gl)_/.test(name);
+}
+
+/** Whether a statement (tokens without its trailing colon) is followed by an ATL block. */
+function opensAtlBlock(body: RenpyToken[], inScreen: boolean): boolean {
+  const [first, second] = body;
+  if (first?.type !== 'name') return false;
+  if (inScreen) {
+    return (first.value === 'transform' && body.length === 1)
+      || (first.value === 'at' && body.length === 2 && second.value === 'transform');
+  }
+  switch (first.value) {
+    case 'transform':
+      return second?.type === 'name';
+    case 'image':
+      return !body.some(token => token.type === 'op' && token.value === '=');
+    case 'show':
+    case 'scene':
+      return second?.value !== 'screen';
+    case 'camera':
+      return true;
+    default:
+      return false;
+  }
+}
+
+/** Names bound by a screen-language line: parameters, `default`, `for` targets and `$` assignments. */
+function collectScreenLocals(text: string, body: RenpyToken[], locals: Set<string>): void {
+  const [first, second] = body;
+  if (first?.value === 'screen' && body[2]?.type === 'group') {
+    const params = tokenizeRenpyLine(text, body[2].start + 1, body[2].end - 1);
+    for (const param of splitOnCommas(params)) {
+      const name = param.find(token => token.type === 'name');
+      if (name) locals.add(name.value);
+    }
+  } else if ((first?.value === 'default' || first?.value === '$') && second?.type === 'name') {
+    locals.add(second.value);
+  } else if (first?.value === 'for') {
+    const end = body.findIndex(token => token.value === 'in');
+    for (const token of body.slice(1, end === -1 ? body.length : end)) {
+      if (token.type === 'name') locals.add(token.value);
+      if (token.type === 'group') {
+        tokenizeRenpyLine(text, token.start + 1, token.end - 1)
+          .filter(inner => inner.type === 'name')
+          .forEach(inner => locals.add(inner.value));
+      }
+    }
+  }
+}
+
+interface AtlSymbols {
+  /** Built-in and custom (`@renpy.atl_warper`) warpers */
+  warpers: Set<string>;
+  /** Names an `at` clause can refer to */
+  transforms: Set<string>;
+}
+
+/** Validates ATL blocks and `at` clauses in one file and appends its diagnostics. */
+function validateAtl(
+  blockId: string,
+  content: string,
+  symbols: AtlSymbols,
+  diagnostics: AtlDiagnostic[],
+): void {
+  const physicalLines = content.split('\n');
+  const tripleQuotedLineMask = getTripleQuotedLineMask(content);
+  let atlIndent = -1;
+  let screen: { indent: number; locals: Set<string> } | null = null;
+
+  for (const logical of getLogicalLines(content)) {
+    const first = physicalLines[logical.startLine - 1];
+    const trimmed = first.trim();
+    if (!trimmed || trimmed.startsWith('#') || tripleQuotedLineMask[logical.startLine - 1]) continue;
+    const indent = first.match(/^\s*/)![0].length;
+    if (atlIndent !== -1 && indent <= atlIndent) atlIndent = -1;
+    if (screen && indent <= screen.indent) screen = null;
+
+    const text = physicalLines.slice(logical.startLine - 1, logical.endLine).map(stripTrailingComment).join('\n');
+    const tokens = tokenizeRenpyLine(text);
+    if (tokens.length === 0) continue;
+    const hasBlock = tokens[tokens.length - 1].type === 'colon';
+    const body = hasBlock ? tokens.slice(0, -1) : tokens;
+
+    const report = (kind: AtlDiagnostic['kind'], severity: AtlDiagnostic['severity'], token: RenpyToken, message: string) => {
+      const before = text.slice(0, token.start);
+      const column = token.start - before.lastIndexOf('\n');
+      const lineEnd = text.indexOf('\n', token.start);
+      const end = lineEnd === -1 ? token.end : Math.min(token.end, lineEnd);
+      diagnostics.push({
+        blockId, kind, severity, message,
+        line: logical.startLine + before.split('\n').length - 1,
+        column,
+        endColumn: column + Math.max(1, end - token.start),
+      });
+    };
+
+    const checkProperties = (start: number) => {
+      let i = start;
+      while (i < body.length) {
+        const token = body[i];
+        if (token.type !== 'name') return;
+        if (token.value === 'clockwise' || token.value === 'counterclockwise') {
+          i++;
+          continue;
+        }
+        if (token.value !== 'knot' && token.value !== 'circles' && !isAtlProperty(token.value)) {
+          report('syntax', 'error', token, `Unknown ATL property "${token.value}"`);
+        }
+        const end = skipSimpleExpression(body, i + 1);
+        if (end === i + 1) return;
+        i = end;
+      }
+    };
+
+    const checkStatement = () => {
+      const [keyword, next] = body;
+      if (keyword.type !== 'name' || ATL_KEYWORDS.has(keyword.value)) return;
+      if (symbols.warpers.has(keyword.value)) {
+        const duration = skipSimpleExpression(body, 1);
+        // `linear xalign 1.0`: the property was taken for the duration
+        const propertyAsDuration = next?.type === 'name' && isAtlProperty(next.value) && body.length > 2
+          && !(body[2].type === 'name' && isAtlProperty(body[2].value));
+        if (duration === 1 || propertyAsDuration) {
+          report('syntax', 'error', keyword, `"${keyword.value}" requires a duration`);
+          return;
+        }
+        checkProperties(duration);
+        return;
+      }
+      if (isAtlProperty(keyword.value)) {
+        checkProperties(0);
+        return;
+      }
+      // A displayable or transform expression, optionally with a transition
+      const end = skipSimpleExpression(body, 0);
+      if (end === body.length || body[end].value === 'with') return;
+      const afterValue = body[skipSimpleExpression(body, end)];
+      const isWarper = findClosestNames(keyword.value, symbols.warpers).length > 0 || (
+        findClosestNames(keyword.value, ATL_PROPERTIES).length === 0
+        && afterValue?.type === 'name' && isAtlProperty(afterValue.value)
+      );
+      report('syntax', 'error', keyword, `Unknown ATL ${isWarper ? 'warper' : 'property'} "${keyword.value}"`);
+    };
+
+    const checkAtClauses = () => {
+      body.forEach((token, index) => {
+        if (token.type !== 'name' || token.value !== 'at') return;
+        let i = index + 1;
+        for (;;) {
+          const end = skipSimpleExpression(body, i);
+          if (end === i) return;
+          const callee = body[i];
+          const isDotted = body[i + 1]?.type === 'op' && body[i + 1].value === '.';
+          if (callee.type === 'name' && !isDotted && !callee.value.startsWith('_')
+            && !symbols.transforms.has(callee.value) && !screen?.locals.has(callee.value)) {
+            report('undefined-transform', 'warning', callee, `Transform "${callee.value}" is not defined`);
+          }
+          if (body[end]?.type !== 'op' || body[end].value !== ',') return;
+          i = end + 1;
+        }
+      });
+    };
+
+    if (atlIndent !== -1) {
+      checkStatement();
+      continue;
+    }
+    if (!screen && SCREEN_HEADER_RE.test(first)) {
+      screen = { indent, locals: new Set() };
+      collectScreenLocals(text, body, screen.locals);
+      continue;
+    }
+    if (screen) collectScreenLocals(text, body, screen.locals);
+    const isAtlBlockHeader = hasBlock && opensAtlBlock(body, !!screen);
+    if (screen ? !trimmed.startsWith('$') && !isAtlBlockHeader : /^(?:show|scene|camera)\b/.test(trimmed)) {
+      checkAtClauses();
+    }
+    if (isAtlBlockHeader) atlIndent = indent;
+  }
+}
+
+function isDebugPlaceholderFile(filePath?: string): boolean {
+  return !!filePath && filePath.endsWith('debug_placeholders.rpy');
+}
+
+/**
+ * Collects the warpers and transform names available to the project: Ren'Py's
+ * own, `transform` statements, variables (`define flip = Transform(...)`),
+ * Python functions and classes, and `@renpy.atl_warper` functions.
+ */
+function collectAtlSymbols(
+  blocks: { id: string; content: string; filePath?: string }[],
+  result: Pick<RenpyAnalysisResult, 'transforms' | 'variables'>,
+): AtlSymbols {
+  const symbols: AtlSymbols = {
+    warpers: new Set(ATL_WARPERS),
+    transforms: new Set([...BUILTIN_TRANSFORMS, ...TRANSFORM_CALLABLES, ...result.transforms.keys()]),
+  };
+  result.variables.forEach((_variable, name) => symbols.transforms.add(name.split('.')[0]));
+  for (const block of blocks) {
+    if (isDebugPlaceholderFile(block.filePath) || !block.content) continue;
+    for (const match of block.content.matchAll(CALLABLE_DEF_RE)) symbols.transforms.add(match[1]);
+    for (const match of block.content.matchAll(ATL_WARPER_DEF_RE)) symbols.warpers.add(match[1]);
+  }
+  return symbols;
+}
+
+/**
+ * Runs the ATL pass over every block.
+ *
+ * @param blocks - Blocks to analyse
+ * @param result - Analysis result from `performRenpyAnalysis` (transforms and variables)
+ * @returns ATL syntax errors and `at` clauses naming undefined transforms
+ */
+export function performAtlAnalysis(
+  blocks: { id: string; content: string; filePath?: string }[],
+  result: Pick<RenpyAnalysisResult, 'transforms' | 'variables'>,
+): AtlDiagnostic[] {
+  const diagnostics: AtlDiagnostic[] = [];
+  const symbols = collectAtlSymbols(blocks, result);
+  for (const block of blocks) {
+    if (isDebugPlaceholderFile(block.filePath) || !block.content) continue;
+    validateAtl(block.id, block.content, symbols, diagnostics);
+  }
+  return diagnostics.sort((a, b) => a.blockId.localeCompare(b.blockId) || a.line - b.line || a.column - b.column);
+}
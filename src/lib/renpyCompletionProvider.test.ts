@@ -1,4 +1,4 @@
-import { detectContext, getRenpyCompletions, CompletionItemKind, InsertTextRule } from './renpyCompletionProvider';
+import { detectContext, findEnclosingHeader, getRenpyCompletions, CompletionItemKind, InsertTextRule } from './renpyCompletionProvider';
 import type { RenpyCompletionData, CompletionRange } from './renpyCompletionProvider';
 
 const range: CompletionRange = {
@@ -56,6 +56,29 @@ describe('detectContext', () => {
     expect(detectContext('    scene ', 11)).toBe('scene');
   });
 
+  it('detects at-clause context in show statements and screens', () => {
+    expect(detectContext('    show eileen happy at ', 26)).toBe('at');
+    expect(detectContext('    show eileen at left, bou', 29)).toBe('at');
+    expect(detectContext('    add "logo.png" at ', 23)).toBe('at');
+    expect(detectContext('    e "Look at ', 16)).toBe('general');
+  });
+
+  it('detects style names and style properties', () => {
+    expect(detectContext('    text "Hi" style "my_', 24)).toBe('style-name');
+    expect(detectContext('    textbutton "Go" text_style "', 33)).toBe('style-name');
+    expect(detectContext('style my_button is butt', 24)).toBe('style-name');
+    expect(detectContext('    is ', 8, 'style my_button:')).toBe('style-name');
+    expect(detectContext('    xal', 8, 'style my_button:')).toBe('style-property');
+    expect(detectContext('    xal', 8, 'screen main():')).toBe('general');
+    expect(detectContext('    xalign 0.5 ', 16, 'style my_button:')).toBe('general');
+  });
+
+  it('finds the header of the enclosing block', () => {
+    const lines = ['style a is b:', '    xalign 0.5', '', '    size 10', 'label x:'];
+    expect(findEnclosingHeader(lines, 3)).toBe('style a is b:');
+    expect(findEnclosingHeader(lines, 4)).toBeUndefined();
+  });
+
   it('detects variable context after $', () => {
     expect(detectContext('    $ ', 7)).toBe('variable');
   });
@@ -103,6 +126,27 @@ describe('getRenpyCompletions', () => {
     expect(getRenpyCompletions('scene', sampleData, range).length).toBe(3);
   });
 
+  it('returns project and built-in transforms for at context', () => {
+    const data = { ...sampleData, transforms: new Map([['bounce', { name: 'bounce', parameters: '(height=10)' }]]) };
+    const items = getRenpyCompletions('at', data, range);
+    expect(items[0]).toMatchObject({ label: 'bounce', detail: 'Transform(height=10)', kind: CompletionItemKind.Function });
+    expect(items.map(i => i.label)).toContain('truecenter');
+    expect(getRenpyCompletions('at', sampleData, range).every(i => i.detail === 'Built-in transform')).toBe(true);
+  });
+
+  it('returns project and built-in styles for style-name context', () => {
+    const data = { ...sampleData, styles: new Map([['my_button', { name: 'my_button', parent: 'button' }]]) };
+    const items = getRenpyCompletions('style-name', data, range);
+    expect(items[0]).toMatchObject({ label: 'my_button', detail: 'Style (is button)', kind: CompletionItemKind.Class });
+    expect(items.find(i => i.label === 'button_text')?.detail).toBe('Built-in style');
+  });
+
+  it('returns style properties and clauses for style-property context', () => {
+    const items = getRenpyCompletions('style-property', sampleData, range);
+    expect(items.find(i => i.label === 'xalign')).toMatchObject({ kind: CompletionItemKind.Property, insertText: 'xalign ' });
+    expect(items.find(i => i.label === 'take')?.kind).toBe(CompletionItemKind.Keyword);
+  });
+
   it('returns variables for variable context', () => {
     const items = getRenpyCompletions('variable', sampleData, range);
     const labels = items.map(i => i.label);
@@ -2,15 +2,19 @@
  * @file renpyCompletionProvider.ts
  * @description Context-aware completion provider for Ren'Py language in Monaco editor.
  * Analyzes cursor position to suggest labels, characters, variables, screens,
- * images, keywords, and user snippets.
+ * images, transforms, styles, style properties, keywords, and user snippets.
  */
 
+import { BUILTIN_TRANSFORMS } from './renpyAtl';
+import { BUILTIN_STYLES, STYLE_PROPERTIES } from './renpyStyles';
+
 // Monaco CompletionItemKind values (avoid importing monaco in this pure module)
 export const CompletionItemKind = {
   Function: 1,
   Variable: 4,
   Class: 5,
   Module: 8,
+  Property: 9,
   File: 16,
   Keyword: 17,
   Snippet: 27,
@@ -27,6 +31,9 @@ export type CompletionContext =
   | 'show'
   | 'hide'
   | 'scene'
+  | 'at'
+  | 'style-name'
+  | 'style-property'
   | 'character'
   | 'variable'
   | 'general';
@@ -55,16 +62,57 @@ export interface RenpyCompletionData {
   variables: Map<string, { name: string; type?: string; initialValue?: string }>;
   screens: Map<string, { name: string; parameters?: string | string[] }>;
   definedImages: Set<string>;
+  transforms?: Map<string, { name: string; parameters?: string }>;
+  styles?: Map<string, { name: string; parent?: string | null }>;
   userSnippets?: { id: string; title: string; prefix: string; description: string; code: string; monacoBody?: string }[];
 }
 
+const AT_CLAUSE_RE = /(?:^|\s)at\s+(?:[\w.]+(?:\([^()]*\))?\s*,\s*)*[\w.]*$/;
+
+const STYLE_REFERENCE_RE = /(?:^|\s)(?:\w+_)?style\s+"\w*$/;
+const STYLE_PARENT_RE = /^style\s+\w+\s+(?:.*\s)?(?:is|take)\s+\w*$/;
+const STYLE_HEADER_RE = /^\s*style\s+\w+/;
+
+/**
+ * Finds the header line of the block enclosing a line: the nearest line above
+ * it with less indentation.
+ *
+ * @param lines - Lines of the document
+ * @param lineIndex - 0-based index of the line
+ * @returns The header line, or undefined at top level
+ */
+export function findEnclosingHeader(lines: string[], lineIndex: number): string | undefined {
+  const indent = lines[lineIndex].match(/^\s*/)![0].length;
+  for (let i = lineIndex - 1; i >= 0; i--) {
+    if (!lines[i].trim() || lines[i].trim().startsWith('#')) continue;
+    if (lines[i].match(/^\s*/)![0].length < indent) return lines[i];
+  }
+  return undefined;
+}
+
 /**
  * Detects the completion context based on the current line content and cursor position.
  * Strips leading whitespace and checks for Ren'Py keyword prefixes.
+ *
+ * @param lineContent - Current line
+ * @param column - 1-based cursor column
+ * @param enclosingHeader - Header of the enclosing block (see `findEnclosingHeader`),
+ *   used to recognise lines inside `style` statements
  */
-export function detectContext(lineContent: string, column: number): CompletionContext {
+export function detectContext(lineContent: string, column: number, enclosingHeader?: string): CompletionContext {
   const textBefore = lineContent.substring(0, column - 1).trimStart();
 
+  // Style names: `style "name"` in screens, `is` / `take` in style statements
+  if (STYLE_REFERENCE_RE.test(textBefore) || STYLE_PARENT_RE.test(textBefore)) return 'style-name';
+  if (enclosingHeader && STYLE_HEADER_RE.test(enclosingHeader)) {
+    if (/^(?:is|take)\s+\w*$/.test(textBefore)) return 'style-name';
+    if (/^\w*$/.test(textBefore)) return 'style-property';
+  }
+
+  // Transform list of an `at` clause (show/scene statements and screen displayables),
+  // unless the cursor is inside a string
+  if (AT_CLAUSE_RE.test(textBefore) && (textBefore.match(/"/g)?.length ?? 0) % 2 === 0) return 'at';
+
   // Check for specific keyword prefixes (order matters: call screen before call)
   if (/^call\s+screen\s+/i.test(textBefore)) return 'call-screen';
   if (/^call\s+/i.test(textBefore)) return 'call';
@@ -178,6 +226,80 @@ export function getRenpyCompletions(
       }
       break;
 
+    case 'at':
+      // Suggest project transforms, then Ren'Py's own
+      for (const [name, info] of data.transforms ?? []) {
+        items.push({
+          label: name,
+          kind: CompletionItemKind.Function,
+          detail: `Transform${info.parameters || ''}`,
+          insertText: name,
+          range,
+          sortText: `0_${name}`,
+        });
+      }
+      for (const name of BUILTIN_TRANSFORMS) {
+        if (data.transforms?.has(name)) continue;
+        items.push({
+          label: name,
+          kind: CompletionItemKind.Function,
+          detail: 'Built-in transform',
+          insertText: name,
+          range,
+          sortText: `1_${name}`,
+        });
+      }
+      break;
+
+    case 'style-name': {
+      // Suggest project styles, then Ren'Py's own
+      for (const [name, info] of data.styles ?? []) {
+        items.push({
+          label: name,
+          kind: CompletionItemKind.Class,
+          detail: info.parent ? `Style (is ${info.parent})` : 'Style',
+          insertText: name,
+          range,
+          sortText: `0_${name}`,
+        });
+      }
+      for (const name of BUILTIN_STYLES) {
+        if (data.styles?.has(name)) continue;
+        items.push({
+          label: name,
+          kind: CompletionItemKind.Class,
+          detail: 'Built-in style',
+          insertText: name,
+          range,
+          sortText: `1_${name}`,
+        });
+      }
+      break;
+    }
+
+    case 'style-property':
+      for (const name of STYLE_PROPERTIES) {
+        items.push({
+          label: name,
+          kind: CompletionItemKind.Property,
+          detail: 'Style property',
+          insertText: `${name} `,
+          range,
+          sortText: `0_${name}`,
+        });
+      }
+      for (const clause of ['is', 'take', 'clear', 'variant']) {
+        items.push({
+          label: clause,
+          kind: CompletionItemKind.Keyword,
+          detail: 'Style clause',
+          insertText: clause === 'clear' ? clause : `${clause} `,
+          range,
+          sortText: `1_${clause}`,
+        });
+      }
+      break;
+
     case 'variable':
       // Suggest variables
       for (const [name, info] of data.variables) {
@@ -0,0 +1,84 @@
+import { buildDocumentSymbols, findSymbolPathAtLine } from './renpyDocumentSymbols';
+import type { RenpyDocumentSymbol } from './renpyDocumentSymbols';
+
+const content = [
+  'define e = Character("Eileen", color="#c8ffc8")',
+  'image bg park = "park.png"',
+  'init python:',
+  '    label_count = 0',
+  '    def helper():',
+  '        pass',
+  '',
+  'transform slide_in(delay=0.5):',
+  '    xalign 0.0',
+  '    linear delay xalign 0.5',
+  'label start:',
+  '    e "Hello."',
+  '    menu choose_path:',
+  '        "Where to?"',
+  '        "Go left" if score > 0:',
+  '            jump left',
+  '        "Go right":',
+  '            menu:',
+  '                "Really?":',
+  '                    pass',
+  '    "Done."',
+  '',
+  '# trailing comment',
+  'screen inventory(items):',
+  '    text "Bag"',
+].join('\n');
+
+const outline = (symbols: RenpyDocumentSymbol[]): unknown[] =>
+  symbols.map(s => (s.children.length ? [s.kind, s.name, outline(s.children)] : [s.kind, s.name]));
+
+describe('buildDocumentSymbols', () => {
+  const symbols = buildDocumentSymbols(content);
+
+  it('nests menus and choices under their label', () => {
+    expect(outline(symbols)).toEqual([
+      ['character', 'e'],
+      ['image', 'bg park'],
+      ['python', 'init python'],
+      ['transform', 'slide_in'],
+      ['label', 'start', [
+        ['menu', 'choose_path', [
+          ['choice', 'Go left'],
+          ['choice', 'Go right', [['menu', 'menu', [['choice', 'Really?']]]]],
+        ]],
+      ]],
+      ['screen', 'inventory'],
+    ]);
+  });
+
+  it('records block ranges ending at the last line of the body', () => {
+    const label = symbols[4];
+    expect([label.startLine, label.endLine]).toEqual([11, 21]);
+    expect([symbols[2].startLine, symbols[2].endLine]).toEqual([3, 6]);
+    expect([symbols[5].startLine, symbols[5].endLine]).toEqual([24, 25]);
+    const menu = label.children[0];
+    expect([menu.startLine, menu.endLine]).toEqual([13, 20]);
+  });
+
+  it('captures details and the name span', () => {
+    expect(symbols[0]).toMatchObject({ detail: 'Eileen', selectionStartColumn: 8, selectionEndColumn: 9 });
+    expect(symbols[3].detail).toBe('(delay=0.5)');
+    expect(symbols[4].children[0].children[0]).toMatchObject({
+      detail: 'if score > 0', startLine: 15, selectionStartColumn: 9, selectionEndColumn: 18,
+    });
+  });
+
+  it('ignores statements inside triple-quoted strings', () => {
+    const symbolsInString = buildDocumentSymbols(['label a:', '    """', 'label b:', '    """', 'label c:'].join('\n'));
+    expect(outline(symbolsInString)).toEqual([['label', 'a'], ['label', 'c']]);
+  });
+});
+
+describe('findSymbolPathAtLine', () => {
+  it('returns the enclosing symbols outermost first', () => {
+    const symbols = buildDocumentSymbols(content);
+    expect(findSymbolPathAtLine(symbols, 18).map(s => s.name)).toEqual(['start', 'choose_path', 'Go right', 'menu']);
+    expect(findSymbolPathAtLine(symbols, 21).map(s => s.name)).toEqual(['start']);
+    expect(findSymbolPathAtLine(symbols, 7)).toEqual([]);
+  });
+});
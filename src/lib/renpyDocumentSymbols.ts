@@ -0,0 +1,197 @@
+/**
+ * @file renpyDocumentSymbols.ts
+ * @description Document outline for a single .rpy file.
+ * Builds a symbol tree of labels, menus (with their choices), screens,
+ * transforms, `init python` blocks, image and character definitions from the
+ * file's logical lines, nesting symbols by indentation. Pure module — the
+ * Monaco document symbol provider, the editor breadcrumbs and the Outline tab
+ * in StoryElementsPanel all consume the same tree.
+ */
+
+import { getLogicalLines } from './renpyLogicalLines';
+import { getTripleQuotedLineMask } from './renpyTripleQuotes';
+
+export type RenpyDocumentSymbolKind =
+  | 'label'
+  | 'menu'
+  | 'choice'
+  | 'screen'
+  | 'transform'
+  | 'python'
+  | 'image'
+  | 'character';
+
+export interface RenpyDocumentSymbol {
+  name: string;
+  /** Secondary text: parameters, choice condition, character display name */
+  detail?: string;
+  kind: RenpyDocumentSymbolKind;
+  /** 1-based first line of the symbol's statement */
+  startLine: number;
+  /** 1-based last line of the symbol's block (inclusive) */
+  endLine: number;
+  /** 1-based start column of the symbol's name on `startLine` */
+  selectionStartColumn: number;
+  /** 1-based end column (exclusive) of the symbol's name on `startLine` */
+  selectionEndColumn: number;
+  children: RenpyDocumentSymbol[];
+}
+
+const LABEL_RE = /^(\s*label\s+)([A-Za-z0-9_.]+)\s*(\(.*\))?\s*(?:hide\s*)?:/;
+const MENU_RE = /^(\s*)menu(?:\s+([A-Za-z_]\w*))?\s*(\(.*\))?\s*:/;
+const CHOICE_RE = /^(\s*)("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')\s*(\(.*?\))?\s*(?:if\s+(.+?))?\s*:\s*$/;
+const SCREEN_RE = /^(\s*screen\s+)([A-Za-z0-9_]+)\s*(\(.*\))?\s*:/;
+const TRANSFORM_RE = /^(\s*transform\s+)([A-Za-z0-9_.]+)\s*(\(.*\))?\s*:/;
+const INIT_PYTHON_RE = /^(\s*)(init(?:\s+(-?\d+))?\s+python\b[^:]*|python\s+early\b[^:]*):/;
+const IMAGE_RE = /^(\s*image\s+)([A-Za-z0-9_][A-Za-z0-9_ ]*?)\s*([=:])/;
+const CHARACTER_RE = /^(\s*define\s+)([A-Za-z0-9_.]+)\s*=\s*Character\s*\(\s*(?:_\(\s*)?(?:(?:r|u)?("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'))?/;
+
+interface StackEntry {
+  symbol: RenpyDocumentSymbol;
+  indent: number;
+}
+
+function getIndent(line: string): number {
+  return line.match(/^(\s*)/)?.[1].length ?? 0;
+}
+
+function makeSymbol(
+  kind: RenpyDocumentSymbolKind,
+  name: string,
+  line: number,
+  nameStart: number,
+  nameLength: number,
+  detail?: string,
+): RenpyDocumentSymbol {
+  return {
+    name,
+    ...(detail ? { detail } : {}),
+    kind,
+    startLine: line,
+    endLine: line,
+    selectionStartColumn: nameStart + 1,
+    selectionEndColumn: nameStart + 1 + nameLength,
+    children: [],
+  };
+}
+
+/**
+ * Matches a logical line against the symbol patterns.
+ *
+ * @returns The symbol and whether it opens an indented block, or null
+ */
+function matchSymbol(
+  firstLine: string,
+  fullText: string,
+  lineNumber: number,
+  parent: StackEntry | undefined,
+  indent: number,
+): { symbol: RenpyDocumentSymbol; opensBlock: boolean } | null {
+  let m: RegExpMatchArray | null;
+
+  if (parent?.symbol.kind === 'menu' && indent > parent.indent && (m = firstLine.match(CHOICE_RE))) {
+    const text = m[2].slice(1, -1);
+    return {
+      symbol: makeSymbol('choice', text, lineNumber, m[1].length, m[2].length, m[4] ? `if ${m[4]}` : undefined),
+      opensBlock: true,
+    };
+  }
+  if ((m = firstLine.match(LABEL_RE))) {
+    return { symbol: makeSymbol('label', m[2], lineNumber, m[1].length, m[2].length, m[3]), opensBlock: true };
+  }
+  if ((m = firstLine.match(MENU_RE))) {
+    const nameStart = m[2] ? firstLine.indexOf(m[2], m[1].length + 4) : m[1].length;
+    return {
+      symbol: makeSymbol('menu', m[2] ?? 'menu', lineNumber, nameStart, m[2]?.length ?? 4, m[3]),
+      opensBlock: true,
+    };
+  }
+  if ((m = firstLine.match(SCREEN_RE))) {
+    return { symbol: makeSymbol('screen', m[2], lineNumber, m[1].length, m[2].length, m[3]), opensBlock: true };
+  }
+  if ((m = firstLine.match(TRANSFORM_RE))) {
+    return { symbol: makeSymbol('transform', m[2], lineNumber, m[1].length, m[2].length, m[3]), opensBlock: true };
+  }
+  if ((m = firstLine.match(INIT_PYTHON_RE))) {
+    const name = m[2].trim().replace(/\s+/g, ' ');
+    return { symbol: makeSymbol('python', name, lineNumber, m[1].length, m[2].trimEnd().length), opensBlock: true };
+  }
+  if ((m = firstLine.match(IMAGE_RE))) {
+    const name = m[2].split(/\s+/).join(' ');
+    return { symbol: makeSymbol('image', name, lineNumber, m[1].length, m[2].length), opensBlock: m[3] === ':' };
+  }
+  if ((m = fullText.match(CHARACTER_RE))) {
+    const displayName = m[3]?.slice(1, -1);
+    return { symbol: makeSymbol('character', m[2], lineNumber, m[1].length, m[2].length, displayName), opensBlock: false };
+  }
+  return null;
+}
+
+/**
+ * Builds the outline of a Ren'Py file.
+ *
+ * Symbols are nested by indentation: choices under their menu, menus under
+ * the label that contains them, and so on. Bodies of `init python` blocks
+ * and triple-quoted strings are not scanned.
+ *
+ * @param content - Full text of the file
+ * @returns Top-level symbols in document order
+ */
+export function buildDocumentSymbols(content: string): RenpyDocumentSymbol[] {
+  const roots: RenpyDocumentSymbol[] = [];
+  const stack: StackEntry[] = [];
+  const tripleQuotedLineMask = getTripleQuotedLineMask(content);
+  let lastContentLine = 0;
+
+  const closeTo = (indent: number) => {
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+      const { symbol } = stack.pop()!;
+      symbol.endLine = Math.max(symbol.endLine, lastContentLine);
+    }
+  };
+
+  for (const logical of getLogicalLines(content)) {
+    if (tripleQuotedLineMask[logical.startLine - 1]) {
+      lastContentLine = logical.endLine;
+      continue;
+    }
+    const firstLine = logical.text.split('\n')[0];
+    const trimmed = firstLine.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+
+    const indent = getIndent(firstLine);
+    closeTo(indent);
+    lastContentLine = logical.endLine;
+
+    const parent = stack[stack.length - 1];
+    if (parent?.symbol.kind === 'python') continue;
+
+    const match = matchSymbol(firstLine, logical.text, logical.startLine, parent, indent);
+    if (!match) continue;
+
+    match.symbol.endLine = logical.endLine;
+    (parent ? parent.symbol.children : roots).push(match.symbol);
+    if (match.opensBlock) stack.push({ symbol: match.symbol, indent });
+  }
+  closeTo(0);
+
+  return roots;
+}
+
+/**
+ * Finds the chain of symbols enclosing a line, outermost first.
+ *
+ * @param symbols - Tree from {@link buildDocumentSymbols}
+ * @param line - 1-based line number
+ * @returns Enclosing symbols from the top level down; empty if none
+ */
+export function findSymbolPathAtLine(symbols: RenpyDocumentSymbol[], line: number): RenpyDocumentSymbol[] {
+  const path: RenpyDocumentSymbol[] = [];
+  let level = symbols;
+  for (;;) {
+    const enclosing = level.find(s => line >= s.startLine && line <= s.endLine);
+    if (!enclosing) return path;
+    path.push(enclosing);
+    level = enclosing.children;
+  }
+}
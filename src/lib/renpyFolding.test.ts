@@ -0,0 +1,88 @@
+import { computeFoldingRanges } from './renpyFolding';
+
+const ranges = (lines: string[]) =>
+  computeFoldingRanges(lines.join('\n')).map(r => [r.kind, r.start, r.end]);
+
+describe('computeFoldingRanges', () => {
+  it('folds labels, menus and individual choices', () => {
+    expect(ranges([
+      'label start:',
+      '    menu:',
+      '        "Left":',
+      '            jump left',
+      '',
+      '        "Right" if brave:  # comment',
+      '            jump right',
+      '    return',
+      '',
+      'label left:',
+      '    return',
+    ])).toEqual([
+      ['label', 1, 8],
+      ['menu', 2, 7],
+      ['choice', 3, 4],
+      ['choice', 6, 7],
+      ['label', 10, 11],
+    ]);
+  });
+
+  it('classifies screens, python and ATL blocks', () => {
+    expect(ranges([
+      'screen hud():',
+      '    vbox:',
+      '        text "HP"',
+      'init python:',
+      '    def f():',
+      '        if True:',
+      '            pass',
+      'transform bounce:',
+      '    parallel:',
+      '        ease 1.0 yoffset 10',
+      '    repeat',
+      'label start:',
+      '    show eileen:',
+      '        xalign 0.5',
+    ])).toEqual([
+      ['screen', 1, 3],
+      ['block', 2, 3],
+      ['python', 4, 7],
+      ['block', 5, 7],
+      ['block', 6, 7],
+      ['atl', 8, 11],
+      ['atl', 9, 10],
+      ['label', 12, 14],
+      ['atl', 13, 14],
+    ]);
+  });
+
+  it('folds multi-line statements and headers spanning several lines', () => {
+    expect(ranges([
+      'define e = Character(',
+      '    "Eileen",',
+      '    color="#c8ffc8")',
+      'screen options(a,',
+      '               b):',
+      '    text "x"',
+    ])).toEqual([
+      ['statement', 1, 3],
+      ['screen', 4, 6],
+    ]);
+  });
+
+  it('folds triple-quoted strings without treating their contents as code', () => {
+    expect(ranges([
+      'label start:',
+      '    """',
+      'label fake:',
+      '    """',
+      '    return',
+    ])).toEqual([
+      ['label', 1, 5],
+      ['string', 2, 4],
+    ]);
+  });
+
+  it('skips blocks with an empty body', () => {
+    expect(ranges(['label empty:', '', 'label next:', '    return'])).toEqual([['label', 3, 4]]);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * @file renpyFolding.ts
+ * @description Indentation-aware folding ranges for Ren'Py code.
+ * Folds every block opened by a `:`-terminated logical line (labels, menus,
+ * individual choices, screens, ATL blocks, `python:` blocks and plain
+ * `if`/`while`/screen-language containers), multi-line statements joined by
+ * bracket or backslash continuation, and triple-quoted strings. Headers that
+ * span several physical lines are handled via `getLogicalLines`, and lines
+ * inside triple-quoted strings never open or close a block.
+ */
+
+import { getLogicalLines, stripTrailingComment } from './renpyLogicalLines';
+import { getTripleQuotedLineMask } from './renpyTripleQuotes';
+
+export type RenpyFoldingKind =
+  | 'label'
+  | 'menu'
+  | 'choice'
+  | 'screen'
+  | 'atl'
+  | 'python'
+  | 'block'
+  | 'statement'
+  | 'string';
+
+export interface RenpyFoldingRange {
+  /** 1-based line that stays visible when the range is folded */
+  start: number;
+  /** 1-based last line hidden by the fold (inclusive) */
+  end: number;
+  kind: RenpyFoldingKind;
+}
+
+const LABEL_HEADER_RE = /^\s*label\s/;
+const MENU_HEADER_RE = /^\s*menu\b/;
+const CHOICE_HEADER_RE = /^\s*(?:"|')/;
+const SCREEN_HEADER_RE = /^\s*screen\s/;
+const PYTHON_HEADER_RE = /^\s*(?:init(?:\s+-?\d+)?\s+)?python\b/;
+const ATL_HEADER_RE = /^\s*(?:transform|image|show|scene)\s|^\s*camera\b|^\s*at\s+transform\b/;
+
+interface OpenBlock {
+  start: number;
+  /** Last physical line of the header's logical line */
+  headerEnd: number;
+  indent: number;
+  kind: RenpyFoldingKind;
+}
+
+function getIndent(line: string): number {
+  return line.match(/^(\s*)/)?.[1].length ?? 0;
+}
+
+function isBlockHeader(text: string): boolean {
+  return text.split('\n').map(stripTrailingComment).join('\n').trimEnd().endsWith(':');
+}
+
+function classifyHeader(firstLine: string, parent: OpenBlock | undefined): RenpyFoldingKind {
+  if (parent?.kind === 'python') return 'block';
+  if (parent?.kind === 'atl') return 'atl';
+  if (parent?.kind === 'menu' && CHOICE_HEADER_RE.test(firstLine)) return 'choice';
+  if (LABEL_HEADER_RE.test(firstLine)) return 'label';
+  if (MENU_HEADER_RE.test(firstLine)) return 'menu';
+  if (SCREEN_HEADER_RE.test(firstLine)) return 'screen';
+  if (PYTHON_HEADER_RE.test(firstLine)) return 'python';
+  if (ATL_HEADER_RE.test(firstLine)) return 'atl';
+  return 'block';
+}
+
+/**
+ * Computes folding ranges for a Ren'Py file.
+ *
+ * @param content - Full text of the file
+ * @returns Folding ranges sorted by start line
+ */
+export function computeFoldingRanges(content: string): RenpyFoldingRange[] {
+  const ranges: RenpyFoldingRange[] = [];
+  const tripleQuotedLineMask = getTripleQuotedLineMask(content);
+  const stack: OpenBlock[] = [];
+  let lastContentLine = 0;
+
+  const closeTo = (indent: number) => {
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+      const block = stack.pop()!;
+      if (lastContentLine > block.headerEnd) {
+        ranges.push({ start: block.start, end: lastContentLine, kind: block.kind });
+      }
+    }
+  };
+
+  // Triple-quoted strings: one range per contiguous run of masked lines
+  for (let i = 0; i < tripleQuotedLineMask.length; i++) {
+    if (!tripleQuotedLineMask[i]) continue;
+    let j = i;
+    while (j + 1 < tripleQuotedLineMask.length && tripleQuotedLineMask[j + 1]) j++;
+    if (j > i) ranges.push({ start: i + 1, end: j + 1, kind: 'string' });
+    i = j;
+  }
+
+  for (const logical of getLogicalLines(content)) {
+    if (tripleQuotedLineMask[logical.startLine - 1]) {
+      lastContentLine = logical.endLine;
+      continue;
+    }
+    const firstLine = logical.text.split('\n')[0];
+    const trimmed = firstLine.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+
+    const indent = getIndent(firstLine);
+    closeTo(indent);
+    lastContentLine = logical.endLine;
+
+    if (isBlockHeader(logical.text)) {
+      stack.push({
+        start: logical.startLine,
+        headerEnd: logical.endLine,
+        indent,
+        kind: classifyHeader(firstLine, stack[stack.length - 1]),
+      });
+    } else if (logical.endLine > logical.startLine) {
+      ranges.push({ start: logical.startLine, end: logical.endLine, kind: 'statement' });
+    }
+  }
+  closeTo(0);
+
+  return ranges.sort((a, b) => a.start - b.start || b.end - a.end);
+}
@@ -0,0 +1,104 @@
+import { buildHoverContents, buildImageUrlLookup, findHoverTarget, findImageUrl } from './renpyHover';
+import { performRenpyAnalysis } from '@/hooks/useRenpyAnalysis';
+import type { ProjectImage } from '@/types';
+
+const blocks = [
+  {
+    id: 'b1',
+    filePath: 'game/script.rpy',
+    content: [
+      'define e = Character("Eileen", color="#c8ffc8")',
+      'default score = 0',
+      'label start:',
+      '    scene bg park',
+      '    e "Welcome to the park!"',
+      '    $ score += 1',
+      '    jump chapter2',
+      'label chapter2:',
+      '    "It was quiet."',
+      '    call screen inventory',
+      '    jump chapter2',
+      'screen inventory(items):',
+      '    text "Bag"',
+    ].join('\n'),
+  },
+];
+
+const analysis = performRenpyAnalysis(blocks);
+
+const image = (filePath: string, dataUrl?: string): ProjectImage => ({
+  filePath, fileName: filePath.split('/').pop()!, dataUrl, fileHandle: null, isInProject: true,
+});
+
+describe('findHoverTarget', () => {
+  it('returns the symbol and its column span', () => {
+    expect(findHoverTarget('    jump chapter2', 12, analysis)).toEqual({
+      target: { kind: 'label', name: 'chapter2' }, startColumn: 10, endColumn: 18,
+    });
+  });
+
+  it('spans multi-word image names', () => {
+    expect(findHoverTarget('    scene bg park', 12, analysis)).toEqual({
+      target: { kind: 'image', name: 'bg park' }, startColumn: 11, endColumn: 18,
+    });
+  });
+
+  it('returns null for plain words', () => {
+    expect(findHoverTarget('    "It was quiet."', 10, analysis)).toBeNull();
+  });
+});
+
+describe('buildHoverContents', () => {
+  it('renders a character card with swatch and dialogue count', () => {
+    const contents = buildHoverContents({ kind: 'character', name: 'e' }, analysis, blocks);
+    expect(contents[0]).toContain('**Eileen** `e`');
+    expect(contents[0]).toContain('<span style="color:#c8ffc8;">');
+    expect(contents[1]).toContain('1 dialogue line');
+    expect(contents[1]).toContain('`game/script.rpy`');
+  });
+
+  it('renders a label card with location, incoming jumps and first line', () => {
+    const contents = buildHoverContents({ kind: 'label', name: 'chapter2' }, analysis, blocks);
+    expect(contents[0]).toBe('**label chapter2**');
+    expect(contents[1]).toBe('`game/script.rpy:8` · 2 incoming jumps');
+    expect(contents[2]).toBe('> It was quiet\\.');
+  });
+
+  it('includes the speaker name in the first dialogue preview', () => {
+    const contents = buildHoverContents({ kind: 'label', name: 'start' }, analysis, blocks);
+    expect(contents[2]).toBe('> **Eileen:** Welcome to the park\\!');
+  });
+
+  it('renders a variable card with initial value and usage count', () => {
+    const contents = buildHoverContents({ kind: 'variable', name: 'score' }, analysis, blocks);
+    expect(contents[0]).toBe('**default score** = `0`');
+    expect(contents[1]).toBe('1 usage · `game/script.rpy:2`');
+  });
+
+  it('renders a screen card with parameters and usage count', () => {
+    const contents = buildHoverContents({ kind: 'screen', name: 'inventory' }, analysis, blocks);
+    expect(contents[0]).toBe('**screen inventory**`(items)`');
+    expect(contents[1]).toBe('`game/script.rpy:12` · 1 usage');
+  });
+
+  it('renders an image thumbnail when a URL is available', () => {
+    const contents = buildHoverContents({ kind: 'image', name: 'bg park' }, analysis, blocks, 'data:image/png;base64,AAA');
+    expect(contents[1]).toBe('![bg park](data:image/png;base64,AAA|width=160)');
+    expect(buildHoverContents({ kind: 'image', name: 'bg park' }, analysis, blocks)[1]).toBe('No matching image file found');
+  });
+});
+
+describe('image URL lookup', () => {
+  it('derives Ren\'Py names from paths below images/', () => {
+    const lookup = buildImageUrlLookup([
+      image('/proj/game/images/bg/Park.png', 'media:///park'),
+      image('/proj/game/images/eileen happy.png', 'media:///eh'),
+      image('/elsewhere/unused.png', 'media:///unused'),
+      image('/proj/game/images/nourl.png'),
+    ]);
+    expect([...lookup.keys()]).toEqual(['bg park', 'eileen happy']);
+    expect(findImageUrl(lookup, 'bg park')).toBe('media:///park');
+    expect(findImageUrl(lookup, 'eileen')).toBe('media:///eh');
+    expect(findImageUrl(lookup, 'missing')).toBeUndefined();
+  });
+});
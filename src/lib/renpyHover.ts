@@ -0,0 +1,240 @@
+/**
+ * @file renpyHover.ts
+ * @description Hover card content for Ren'Py symbols in the code editor.
+ * Resolves the character, label, variable, screen or image under the cursor
+ * and renders a short markdown card from the analysis result: colour and
+ * dialogue count for characters, location/incoming jumps/first line for labels,
+ * initial value and usage count for variables, and a thumbnail for images.
+ * Pure module — the Monaco hover provider in EditorView wraps the output.
+ */
+
+import type { ImageMetadata, ProjectImage, RenpyAnalysisResult } from '@/types';
+import { findReferenceTargetAt } from './renpyReferences';
+import type { ReferenceTarget } from './renpyReferences';
+import { findSymbolOccurrences } from './renpyRename';
+import type { RenameSourceBlock } from './renpyRename';
+
+/** Subset of the analysis result used to build hover cards. */
+export type HoverIndex = Pick<
+  RenpyAnalysisResult,
+  'labels' | 'jumps' | 'characters' | 'characterUsage' | 'dialogueLines' | 'variables' | 'variableUsages' | 'screens' | 'definedImages'
+>;
+
+export interface RenpyHoverTarget {
+  target: ReferenceTarget;
+  /** 1-based start column of the hovered symbol */
+  startColumn: number;
+  /** 1-based end column (exclusive) of the hovered symbol */
+  endColumn: number;
+}
+
+const HEX_COLOR_RE = /^#[0-9a-fA-F]{3,8}$/;
+const DIALOGUE_LINE_RE = /^\s*(?:([A-Za-z_][A-Za-z0-9_]*)(?:\s+-?[A-Za-z_][A-Za-z0-9_]*)*\s+)?"((?:[^"\\]|\\.)*)"\s*(?:#.*)?$/;
+const LABEL_LINE_RE = /^(\s*)label\s+[A-Za-z0-9_.]+/;
+const NON_SPEAKER_WORDS = new Set(['extend', 'nvl', 'window', 'voice', 'centered']);
+const MAX_PREVIEW_LENGTH = 80;
+
+/**
+ * Escapes text for inclusion in a Monaco markdown hover. HTML is enabled for
+ * the colour swatch, so angle brackets and ampersands are escaped too.
+ */
+function escapeMarkdown(text: string): string {
+  return text
+    .replace(/[\\`*_{}[\]()#+\-.!|~]/g, '\\$&')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function formatLocation(blocks: RenameSourceBlock[], blockId: string, line?: number): string {
+  const block = blocks.find(b => b.id === blockId);
+  const file = block?.filePath || block?.title || blockId;
+  return line ? `\`${file}:${line}\`` : `\`${file}\``;
+}
+
+/**
+ * Builds a map from Ren'Py image name to a displayable URL. Ren'Py derives
+ * image names from the path below `images/` ("bg/park.png" → "bg park");
+ * names assigned in the image manager's metadata are included as well.
+ * Keys are lower-cased.
+ *
+ * @param images - Project and scanned images
+ * @param imageMetadata - Optional per-image metadata keyed by file path
+ * @returns Map of lower-cased image name to data/media URL
+ */
+export function buildImageUrlLookup(
+  images: Iterable<ProjectImage>,
+  imageMetadata?: Map<string, ImageMetadata>,
+): Map<string, string> {
+  const lookup = new Map<string, string>();
+  for (const img of images) {
+    if (!img.dataUrl) continue;
+    const meta = imageMetadata?.get(img.projectFilePath || img.filePath);
+    if (meta) {
+      lookup.set(`${meta.renpyName} ${meta.tags.join(' ')}`.trim().toLowerCase(), img.dataUrl);
+    }
+    const imagesIdx = img.filePath.toLowerCase().indexOf('/images/');
+    if (imagesIdx === -1) continue;
+    const rel = img.filePath.slice(imagesIdx + '/images/'.length);
+    const renpyTag = rel.replace(/\.[^.]+$/, '').replace(/\//g, ' ').toLowerCase();
+    lookup.set(renpyTag, img.dataUrl);
+  }
+  return lookup;
+}
+
+/**
+ * Finds the URL for an image name. A bare tag (`eileen`) falls back to the
+ * first image carrying that tag.
+ *
+ * @param lookup - Map from {@link buildImageUrlLookup}
+ * @param imageName - Image name as written in the script
+ * @returns The image URL, or undefined if no file matches
+ */
+export function findImageUrl(lookup: Map<string, string>, imageName: string): string | undefined {
+  const key = imageName.toLowerCase();
+  const exact = lookup.get(key);
+  if (exact) return exact;
+  for (const [name, url] of lookup) {
+    if (name.startsWith(`${key} `)) return url;
+  }
+  return undefined;
+}
+
+/**
+ * Resolves the symbol under the cursor and its column span on the line.
+ *
+ * @param lineText - Full text of the hovered line
+ * @param column - 1-based hovered column
+ * @param index - Analysis data used to check the symbol exists
+ * @returns The hover target, or null if the cursor is not on a known symbol
+ */
+export function findHoverTarget(lineText: string, column: number, index: HoverIndex): RenpyHoverTarget | null {
+  const target = findReferenceTargetAt(lineText, column, index);
+  if (!target) return null;
+
+  const offset = column - 1;
+  const escaped = target.name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/ /g, '\\s+');
+  const pattern = new RegExp(`(?<![\\w.])${escaped}(?!\\w)`, 'g');
+  for (const match of lineText.matchAll(pattern)) {
+    const start = match.index!;
+    const end = start + match[0].length;
+    if (offset >= start && offset <= end) {
+      return { target, startColumn: start + 1, endColumn: end + 1 };
+    }
+  }
+  return null;
+}
+
+/**
+ * Finds the first dialogue or narration line in a label's body.
+ *
+ * @returns The speaker (if any) and text, or null if the label has no dialogue
+ */
+function findFirstDialogue(content: string, labelLine: number): { speaker?: string; text: string } | null {
+  const lines = content.split('\n');
+  const labelIndent = lines[labelLine - 1]?.match(/^(\s*)/)?.[1].length ?? 0;
+  for (let i = labelLine; i < lines.length; i++) {
+    const line = lines[i];
+    const nextLabel = line.match(LABEL_LINE_RE);
+    if (nextLabel && nextLabel[1].length <= labelIndent) break;
+    const match = line.match(DIALOGUE_LINE_RE);
+    if (match && !NON_SPEAKER_WORDS.has(match[1] ?? '')) {
+      return { speaker: match[1], text: match[2] };
+    }
+  }
+  return null;
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_PREVIEW_LENGTH ? `${text.slice(0, MAX_PREVIEW_LENGTH - 1)}…` : text;
+}
+
+/**
+ * Renders the markdown sections of a hover card.
+ *
+ * @param target - The hovered symbol
+ * @param index - Analysis result
+ * @param blocks - Blocks with their current content (for file names and previews)
+ * @param imageUrl - Thumbnail URL for image targets, already resolved by the caller
+ * @returns Markdown strings, one per hover section
+ */
+export function buildHoverContents(
+  target: ReferenceTarget,
+  index: HoverIndex,
+  blocks: RenameSourceBlock[],
+  imageUrl?: string,
+): string[] {
+  switch (target.kind) {
+    case 'character': {
+      const character = index.characters.get(target.name);
+      if (!character) return [];
+      const swatch = character.color && HEX_COLOR_RE.test(character.color)
+        ? ` <span style="color:${character.color};">■■■</span>`
+        : '';
+      const dialogueCount = index.characterUsage.get(target.name) ?? 0;
+      return [
+        `**${escapeMarkdown(character.name)}** \`${target.name}\`${swatch}`,
+        `Character · ${plural(dialogueCount, 'dialogue line')}\n\nDefined in ${formatLocation(blocks, character.definedInBlockId)}`,
+      ];
+    }
+    case 'label': {
+      const label = index.labels[target.name];
+      if (!label) return [];
+      let incoming = 0;
+      for (const jumps of Object.values(index.jumps)) {
+        for (const jump of jumps) {
+          if (jump.target === target.name) incoming++;
+        }
+      }
+      const sections = [
+        `**label ${target.name}**`,
+        `${formatLocation(blocks, label.blockId, label.line)} · ${plural(incoming, 'incoming jump')}`,
+      ];
+      const block = blocks.find(b => b.id === label.blockId);
+      const dialogue = block ? findFirstDialogue(block.content, label.line) : null;
+      if (dialogue) {
+        const speaker = dialogue.speaker ? index.characters.get(dialogue.speaker)?.name ?? dialogue.speaker : null;
+        const text = escapeMarkdown(truncate(dialogue.text));
+        sections.push(speaker ? `> **${escapeMarkdown(speaker)}:** ${text}` : `> ${text}`);
+      }
+      return sections;
+    }
+    case 'variable': {
+      const variable = index.variables.get(target.name);
+      if (!variable) return [];
+      const usageCount = index.variableUsages.get(target.name)?.length ?? 0;
+      return [
+        `**${variable.type} ${target.name}** = \`${truncate(variable.initialValue).replace(/`/g, "'")}\``,
+        `${plural(usageCount, 'usage')} · ${formatLocation(blocks, variable.definedInBlockId, variable.line)}`,
+      ];
+    }
+    case 'screen': {
+      const screen = index.screens.get(target.name);
+      if (!screen) return [];
+      let usageCount = 0;
+      for (const block of blocks) {
+        usageCount += findSymbolOccurrences(block.content, { kind: 'screen', name: target.name })
+          .filter(o => !(block.id === screen.definedInBlockId && o.line === screen.line)).length;
+      }
+      return [
+        `**screen ${target.name}**${screen.parameters ? `\`${screen.parameters}\`` : ''}`,
+        `${formatLocation(blocks, screen.definedInBlockId, screen.line)} · ${plural(usageCount, 'usage')}`,
+      ];
+    }
+    case 'image': {
+      const sections = [`**image ${escapeMarkdown(target.name)}**`];
+      if (imageUrl) {
+        sections.push(`![${escapeMarkdown(target.name)}](${imageUrl}|width=160)`);
+      } else if (index.definedImages.has(target.name)) {
+        sections.push('Defined in script');
+      } else {
+        sections.push('No matching image file found');
+      }
+      return sections;
+    }
+  }
+}
@@ -55,7 +55,7 @@ function isEscaped(text: string, index: number): boolean {
  *
  * @complexity O(n) time where n = line length, O(1) space
  */
-function stripTrailingComment(line: string): string {
+export function stripTrailingComment(line: string): string {
   let inString: false | '"' | "'" = false;
 
   for (let i = 0; i < line.length; i++) {
@@ -0,0 +1,142 @@
+import { analyzePythonSource, extractPythonRegions, performPythonAnalysis } from './renpyPythonAnalysis';
+import { performRenpyAnalysis } from '@/hooks/useRenpyAnalysis';
+
+const analyse = (blocks: { id: string; content: string }[]) => {
+  const result = performRenpyAnalysis(blocks);
+  const diagnostics = performPythonAnalysis(blocks, result);
+  return { result, diagnostics };
+};
+
+const syntaxError = (source: string) =>
+  analyzePythonSource(source.split('\n'), 1).syntaxError;
+
+describe('extractPythonRegions', () => {
+  it('finds inline statements and python blocks with their scope', () => {
+    const regions = extractPythonRegions([
+      'init python:',
+      '    x = 1',
+      '',
+      'init -1 python hide:',
+      '    y = 2',
+      'label start:',
+      '    $ z = (1 +',
+      '           2)',
+      'screen hud():',
+      '    $ local = 3',
+      'init python in mystore:',
+      '    w = 4',
+    ].join('\n'));
+    expect(regions.map(r => [r.kind, r.scope, r.startLine, r.lines.length])).toEqual([
+      ['block', 'store', 2, 1],
+      ['block', 'hide', 5, 1],
+      ['inline', 'store', 7, 2],
+      ['inline', 'screen', 10, 1],
+      ['block', 'namespace', 12, 1],
+    ]);
+    expect(regions[2].lines[0]).toBe('      z = (1 +');
+  });
+});
+
+describe('analyzePythonSource', () => {
+  it('accepts a wide range of valid Python', () => {
+    const source = [
+      'import random, os.path as osp',
+      'from collections import (defaultdict,',
+      '    OrderedDict)',
+      '@renpy.pure',
+      'def roll(sides=6, *args, bonus: int = 0, **kwargs) -> int:',
+      '    """Docstring"""',
+      '    total = sum(random.randint(1, sides) for _ in range(2))',
+      '    squares = {n: n ** 2 for n in range(3) if n}',
+      '    pick = lambda seq, i=0: seq[i:][::-1]',
+      '    try:',
+      '        return total + bonus if total else -1',
+      '    except (KeyError, ValueError) as err:',
+      '        raise RuntimeError(f"bad {err}") from err',
+      '    finally:',
+      '        pass',
+      'class Inventory(object):',
+      '    slots = [*range(3)]',
+      '    def add(self, item):',
+      '        if (n := len(self.items)) < 10: self.items.append(item)',
+      '        with open(osp.join("a", "b")) as fh, open("c"): pass',
+      'a, *rest = [1, 2, 3]',
+    ].join('\n');
+    const analysis = analyzePythonSource(source.split('\n'), 1);
+    expect(analysis.syntaxError).toBeNull();
+    expect([...analysis.storeNames].sort()).toEqual(
+      ['Inventory', 'OrderedDict', 'a', 'defaultdict', 'osp', 'random', 'rest', 'roll'],
+    );
+    expect(analysis.freeNames.map(n => n.name).filter(n => !['sum', 'range', 'len', 'open', 'object', 'int', 'renpy', 'KeyError', 'ValueError', 'RuntimeError'].includes(n))).toEqual([]);
+  });
+
+  it('reports the first syntax error with its position', () => {
+    expect(syntaxError('x = (1 +\n  2')).toMatchObject({ message: "'(' was never closed", line: 1, column: 5 });
+    expect(syntaxError('def f()\n    pass')).toMatchObject({ message: "expected ':'", line: 1, column: 8 });
+    expect(syntaxError('if x:\npass')).toMatchObject({ message: "expected an indented block after 'if' statement on line 1", line: 2 });
+    expect(syntaxError('f() = 3')).toMatchObject({ message: 'cannot assign to function call' });
+    expect(syntaxError('name = "open')).toMatchObject({ message: 'unterminated string literal', column: 8 });
+    expect(syntaxError('print "hi"')?.message).toBe("missing parentheses in call to 'print'. Did you mean print(...)?");
+    expect(syntaxError('x = [1, 2)')?.message).toBe("closing parenthesis ')' does not match opening parenthesis '['");
+    expect(syntaxError('if True:\n        a = 1\n    b = 2')?.message).toBe('unindent does not match any outer indentation level');
+  });
+});
+
+describe('performPythonAnalysis', () => {
+  it('reports syntax errors in $ lines and python blocks at their file position', () => {
+    const { diagnostics } = analyse([{
+      id: 'b1',
+      content: 'label start:\n    $ score = = 1\n    return\ninit python:\n    for i in:\n        pass\n',
+    }]);
+    expect(diagnostics.map(d => [d.kind, d.line, d.column, d.message])).toEqual([
+      ['syntax', 2, 15, "Python syntax error: invalid syntax: unexpected '='"],
+      ['syntax', 5, 13, "Python syntax error: invalid syntax: unexpected ':'"],
+    ]);
+  });
+
+  it('adds names assigned in Python as implicit variables with their usages', () => {
+    const { result } = analyse([
+      { id: 'b1', content: 'init python:\n    money = 10\n    def spend(n):\n        global debt\n        debt = n\n' },
+      { id: 'b2', content: 'label start:\n    $ a, b = 1, 2\n    $ money += 5\n    if money > debt:\n        "Rich."\n' },
+    ]);
+    expect(result.variables.get('money')).toMatchObject({ type: 'implicit', definedInBlockId: 'b1', line: 2, initialValue: '10' });
+    expect(result.variables.get('debt')).toMatchObject({ type: 'implicit', line: 5 });
+    expect(result.variables.has('a')).toBe(true);
+    expect(result.variables.has('n')).toBe(false);
+    expect(result.variableUsages.get('money')).toEqual([{ blockId: 'b2', line: 3 }, { blockId: 'b2', line: 4 }]);
+  });
+
+  it('flags undefined names but not store variables, builtins or locals', () => {
+    const { diagnostics } = analyse([
+      { id: 'b1', content: 'define e = Character("Eileen")\ndefault points = 0\ntransform bounce:\n    yoffset 0\n' },
+      {
+        id: 'b2',
+        content: [
+          'label start:',
+          '    $ points += bonus',
+          '    $ renpy.notify(str(len([e, points])))',
+          '    $ show_it = renpy.showing("eileen") and bounce',
+          '    $ total = sum(x * y for x, y in pairs)',
+          'init python:',
+          '    def helper(value):',
+          '        return value + points + _internal',
+          'screen hud(who):',
+          '    $ label_text = who',
+        ].join('\n'),
+      },
+    ]);
+    expect(diagnostics.map(d => [d.kind, d.severity, d.line, d.column, d.message])).toEqual([
+      ['undefined-name', 'warning', 2, 17, 'Name "bonus" is not defined'],
+      ['undefined-name', 'warning', 5, 37, 'Name "pairs" is not defined'],
+    ]);
+  });
+
+  it('keeps python hide locals out of the store', () => {
+    const { result, diagnostics } = analyse([{
+      id: 'b1',
+      content: 'init python hide:\n    secret = 1\nlabel start:\n    $ x = secret\n',
+    }]);
+    expect(result.variables.has('secret')).toBe(false);
+    expect(diagnostics.map(d => d.message)).toEqual(['Name "secret" is not defined']);
+  });
+});
@@ -0,0 +1,1643 @@
+/**
+ * @file renpyPythonAnalysis.ts
+ * @description Semantic analysis of the Python embedded in Ren'Py scripts:
+ * `$` one-liners, `python:` blocks and `init python` blocks.
+ * Each region is tokenized and parsed with a small recursive-descent Python 3
+ * parser that reports the first syntax error (like CPython does), records the
+ * names a region binds at store level, and resolves every name it reads through
+ * Python's function/class/comprehension scoping rules. Names still unresolved
+ * are checked project-wide against the Ren'Py store: `define`/`default`
+ * variables, characters, transforms, names bound by other Python regions, and
+ * Python and Ren'Py builtins.
+ * Runs inside `renpyAnalysis.worker.ts`, after `performRenpyAnalysis`.
+ */
+
+import type { RenpyAnalysisResult, PythonDiagnostic, Variable } from '@/types';
+import { getLogicalLines, stripTrailingComment } from './renpyLogicalLines';
+import { getTripleQuotedLineMask } from './renpyTripleQuotes';
+
+// ── Builtins ─────────────────────────────────────────────────────────────────
+
+const PYTHON_KEYWORDS = new Set([
+  'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break',
+  'class', 'continue', 'def', 'del', 'elif', 'else', 'except', 'finally', 'for',
+  'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'nonlocal', 'not', 'or',
+  'pass', 'raise', 'return', 'try', 'while', 'with', 'yield',
+]);
+
+const PYTHON_BUILTINS = [
+  'abs', 'all', 'any', 'ascii', 'bin', 'bool', 'breakpoint', 'bytearray', 'bytes',
+  'callable', 'chr', 'classmethod', 'compile', 'complex', 'delattr', 'dict', 'dir',
+  'divmod', 'enumerate', 'eval', 'exec', 'filter', 'float', 'format', 'frozenset',
+  'getattr', 'globals', 'hasattr', 'hash', 'help', 'hex', 'id', 'input', 'int',
+  'isinstance', 'issubclass', 'iter', 'len', 'list', 'locals', 'map', 'max',
+  'memoryview', 'min', 'next', 'object', 'oct', 'open', 'ord', 'pow', 'print',
+  'property', 'range', 'repr', 'reversed', 'round', 'set', 'setattr', 'slice',
+  'sorted', 'staticmethod', 'str', 'sum', 'super', 'tuple', 'type', 'vars', 'zip',
+  'NotImplemented', 'Ellipsis', 'unicode', 'basestring', 'long', 'xrange',
+  'BaseException', 'Exception', 'ArithmeticError', 'AssertionError', 'AttributeError',
+  'EOFError', 'FileNotFoundError', 'ImportError', 'IndexError', 'IOError', 'KeyError',
+  'KeyboardInterrupt', 'LookupError', 'MemoryError', 'ModuleNotFoundError', 'NameError',
+  'NotImplementedError', 'OSError', 'OverflowError', 'PermissionError', 'RecursionError',
+  'RuntimeError', 'StopIteration', 'SyntaxError', 'SystemExit', 'TimeoutError',
+  'TypeError', 'UnboundLocalError', 'UnicodeDecodeError', 'UnicodeEncodeError',
+  'UnicodeError', 'ValueError', 'ZeroDivisionError', 'Warning', 'DeprecationWarning',
+  'UserWarning',
+];
+
+/** Names the Ren'Py store provides without any definition in the project. */
+const RENPY_STORE_BUILTINS = [
+  // Namespaces and objects
+  'renpy', 'config', 'gui', 'persistent', 'store', 'preferences', 'style', 'build',
+  'achievement', 'updater', 'iap', 'ui', 'im', 'anim', 'theme', 'audio', 'layeredimage',
+  'director', 'bubble', 'narrator', 'nvl_narrator', 'name_only', 'adv', 'nvl', 'centered',
+  'vcentered', 'extend', 'menu', 'nvl_menu', 'mouse_visible', 'suppress_overlay',
+  'main_menu', 'save_name', 'nvl_list', 'default_mouse', 'NoRollback', 'MultiPersistent',
+  'RevertableList', 'RevertableDict', 'RevertableSet', 'RevertableObject',
+  // Characters and displayables
+  'Character', 'ADVCharacter', 'NVLCharacter', 'DynamicCharacter', 'Text', 'Image', 'Solid',
+  'Frame', 'Null', 'Fixed', 'HBox', 'VBox', 'Grid', 'Window', 'Transform', 'Composite',
+  'LiveComposite', 'Crop', 'LiveCrop', 'Tile', 'LiveTile', 'Flatten', 'AlphaMask', 'AlphaBlend',
+  'Animation', 'ConditionSwitch', 'ShowingSwitch', 'DynamicDisplayable', 'DynamicImage',
+  'Movie', 'ParameterizedText', 'Placeholder', 'At', 'Color', 'Drag', 'DragGroup',
+  'SpriteManager', 'SnowBlossom', 'Particles', 'Live2D', 'Model', 'ImageReference', 'Layer',
+  'Borders', 'Style', 'Gallery', 'MusicRoom', 'Tooltip', 'Position', 'Motion', 'Pan', 'Zoom',
+  'FactorZoom', 'SizeZoom', 'Revolve', 'Matrix', 'TintMatrix', 'SaturationMatrix',
+  'BrightnessMatrix', 'ContrastMatrix', 'HueMatrix', 'InvertMatrix', 'OpacityMatrix',
+  'ColorMatrix', 'IdentityMatrix', 'SepiaMatrix',
+  // Transitions and transforms
+  'Dissolve', 'Fade', 'Pixellate', 'Move', 'MoveTransition', 'MoveIn', 'MoveOut',
+  'ZoomInOut', 'RevolveInOut', 'CropMove', 'PushMove', 'ImageDissolve', 'AlphaDissolve',
+  'ComposeTransition', 'MultipleTransition', 'Pause', 'SwingTransition',
+  'dissolve', 'fade', 'pixellate', 'move', 'ease', 'vpunch', 'hpunch', 'blinds', 'squares',
+  'irisin', 'irisout', 'zoomin', 'zoomout', 'zoominout', 'left', 'right', 'center',
+  'truecenter', 'topleft', 'topright', 'top', 'offscreenleft', 'offscreenright', 'default',
+  'reset',
+  // Screen actions, values and functions
+  'Jump', 'Call', 'Return', 'Show', 'Hide', 'ShowMenu', 'Start', 'MainMenu', 'Quit',
+  'SetVariable', 'SetField', 'SetDict', 'SetScreenVariable', 'SetLocalVariable',
+  'ToggleVariable', 'ToggleField', 'ToggleDict', 'ToggleScreenVariable',
+  'ToggleLocalVariable', 'ToggleScreen', 'ToggleSetMembership', 'AddToSet', 'RemoveFromSet',
+  'IncrementVariable', 'IncrementField', 'IncrementDict', 'IncrementScreenVariable',
+  'Function', 'NullAction', 'Notify', 'OpenURL', 'Play', 'Queue', 'Stop', 'PauseAudio',
+  'SetMixer', 'SetMute', 'ToggleMute', 'Preference', 'Rollback', 'RollForward',
+  'RestartStatement', 'Skip', 'Help', 'FileSave', 'FileLoad', 'FileDelete', 'FileAction',
+  'FilePage', 'FilePageNext', 'FilePagePrevious', 'FileSlotName', 'FileTime',
+  'FileScreenshot', 'FileJson', 'FileLoadable', 'FileUsedSlots', 'FileCurrentPage',
+  'QuickSave', 'QuickLoad', 'Confirm', 'Language', 'Replay', 'EndReplay', 'MouseMove',
+  'Scroll', 'With', 'If', 'SelectedIf', 'SensitiveIf', 'Screenshot', 'HideInterface',
+  'ShowTransient', 'CaptureFocus', 'ClearFocus', 'GetFocusRect', 'GetTooltip',
+  'GamepadCalibrate', 'GamepadExists', 'InvertSelected', 'AnimatedValue',
+  'AudioPositionValue', 'DictValue', 'FieldValue', 'MixerValue', 'ScreenVariableValue',
+  'LocalVariableValue', 'VariableValue', 'XScrollValue', 'YScrollValue', 'StaticValue',
+  'DictInputValue', 'FieldInputValue', 'FilePageNameInputValue', 'ScreenVariableInputValue',
+  'LocalVariableInputValue', 'VariableInputValue', 'DisableAllInputValues',
+];
+
+const KNOWN_BUILTINS = new Set([...PYTHON_BUILTINS, ...RENPY_STORE_BUILTINS]);
+
+// ── Region extraction ────────────────────────────────────────────────────────
+
+/**
+ * Where the names a region binds end up: the shared store, a named store
+ * (`init python in ns:`), function locals (`python hide:`), or screen scope.
+ */
+export type PythonRegionScope = 'store' | 'namespace' | 'hide' | 'screen';
+
+export interface PythonRegion {
+  kind: 'inline' | 'block';
+  scope: PythonRegionScope;
+  /** 1-based line of the first source line */
+  startLine: number;
+  /** Source lines with original columns; the `$` prefix of inline lines is blanked out */
+  lines: string[];
+}
+
+const PYTHON_BLOCK_HEADER_RE =
+  /^(\s*)(?:init(?:\s+[-+]?\d+)?\s+|translate\s+\w+\s+)?python((?:\s+(?:early|hide|in\s+[\w.]+))*)\s*:\s*$/;
+const SCREEN_HEADER_RE = /^(\s*)screen\s+\w+/;
+
+function indentOf(line: string): number {
+  return line.match(/^(\s*)/)?.[1].length ?? 0;
+}
+
+/**
+ * Finds the Python regions of a Ren'Py file.
+ *
+ * @param content - Full text of the file
+ * @returns `$` statements and `python:` block bodies in file order
+ */
+export function extractPythonRegions(content: string): PythonRegion[] {
+  const lines = content.split('\n');
+  const tripleQuotedLineMask = getTripleQuotedLineMask(content);
+  const logicalEnds = new Map(getLogicalLines(content).map(l => [l.startLine, l.endLine]));
+  const regions: PythonRegion[] = [];
+  let screenIndent = -1;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+    if (tripleQuotedLineMask[i] && !trimmed.startsWith('$')) continue;
+
+    const indent = indentOf(line);
+    if (screenIndent !== -1 && indent <= screenIndent) screenIndent = -1;
+    if (screenIndent === -1 && SCREEN_HEADER_RE.test(line)) {
+      screenIndent = indent;
+      continue;
+    }
+    const inScreen = screenIndent !== -1;
+
+    if (trimmed.startsWith('$')) {
+      const endLine = logicalEnds.get(i + 1) ?? i + 1;
+      const dollar = line.indexOf('$');
+      regions.push({
+        kind: 'inline',
+        scope: inScreen ? 'screen' : 'store',
+        startLine: i + 1,
+        lines: [' '.repeat(dollar + 1) + line.slice(dollar + 1), ...lines.slice(i + 1, endLine)],
+      });
+      i = endLine - 1;
+      continue;
+    }
+
+    const header = stripTrailingComment(line).match(PYTHON_BLOCK_HEADER_RE);
+    if (!header) continue;
+    const modifiers = header[2];
+    let end = i + 1;
+    while (end < lines.length) {
+      const body = lines[end];
+      if (body.trim() && !tripleQuotedLineMask[end] && !body.trim().startsWith('#') && indentOf(body) <= indent) break;
+      end++;
+    }
+    while (end > i + 1 && !lines[end - 1].trim()) end--;
+    regions.push({
+      kind: 'block',
+      scope: inScreen ? 'screen' : /\bin\s/.test(modifiers) ? 'namespace' : /\bhide\b/.test(modifiers) ? 'hide' : 'store',
+      startLine: i + 2,
+      lines: lines.slice(i + 1, end),
+    });
+    i = end - 1;
+  }
+  return regions;
+}
+
+// ── Tokenizer ────────────────────────────────────────────────────────────────
+
+type TokenType = 'name' | 'number' | 'string' | 'op' | 'newline' | 'indent' | 'dedent' | 'end';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  line: number;
+  /** 1-based */
+  column: number;
+  endColumn: number;
+}
+
+interface PythonSyntaxError {
+  message: string;
+  line: number;
+  column: number;
+  endColumn: number;
+}
+
+const OPERATORS = [
+  '**=', '//=', '>>=', '<<=', '...', '->', ':=', '**', '//', '<<', '>>', '<=', '>=', '==', '!=',
+  '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '@=',
+  '+', '-', '*', '/', '%', '@', '&', '|', '^', '~', '<', '>', '(', ')', '[', ']', '{', '}',
+  ',', ':', ';', '.', '=',
+];
+const CLOSING_BRACKETS: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+const NAME_RE = /^[\p{L}_][\p{L}\p{N}_]*/u;
+const NUMBER_RE = /^(?:0[xX](?:_?[0-9a-fA-F])+|0[oO](?:_?[0-7])+|0[bB](?:_?[01])+|(?:\d(?:_?\d)*(?:\.(?:\d(?:_?\d)*)?)?|\.\d(?:_?\d)*)(?:[eE][+-]?\d(?:_?\d)*)?[jJ]?)/;
+const STRING_START_RE = /^(?:[rR][bBfF]?|[bBfF][rR]?|[uU])?('''|"""|'|")/;
+
+function indentWidth(line: string): number {
+  let width = 0;
+  for (const char of line) {
+    if (char === ' ') width++;
+    else if (char === '\t') width = (Math.floor(width / 8) + 1) * 8;
+    else break;
+  }
+  return width;
+}
+
+class TokenizeError extends Error {
+  constructor(readonly error: PythonSyntaxError) {
+    super(error.message);
+  }
+}
+
+function tokenize(lines: string[], firstLine: number): Token[] {
+  const tokens: Token[] = [];
+  const indents: number[] = [];
+  const brackets: { char: string; line: number; column: number }[] = [];
+  let continuation = false;
+  let lineHasTokens = false;
+  let lastLine = firstLine;
+  let lastColumn = 1;
+
+  const fail = (message: string, line: number, column: number, length = 1): never => {
+    throw new TokenizeError({ message, line, column, endColumn: column + length });
+  };
+  const push = (type: TokenType, value: string, line: number, column: number, endColumn: number) => {
+    tokens.push({ type, value, line, column, endColumn });
+    lineHasTokens = true;
+    lastLine = line;
+    lastColumn = endColumn;
+  };
+
+  let row = 0;
+  let pos = 0;
+  while (row < lines.length) {
+    const text = lines[row];
+    const lineNumber = firstLine + row;
+
+    if (pos === 0 && brackets.length === 0 && !continuation) {
+      const first = text.search(/\S/);
+      if (first === -1 || text[first] === '#') {
+        row++;
+        continue;
+      }
+      const width = indentWidth(text);
+      if (indents.length === 0) {
+        indents.push(width);
+      } else if (width > indents[indents.length - 1]) {
+        indents.push(width);
+        tokens.push({ type: 'indent', value: '', line: lineNumber, column: 1, endColumn: first + 1 });
+      } else {
+        while (width < indents[indents.length - 1]) {
+          indents.pop();
+          tokens.push({ type: 'dedent', value: '', line: lineNumber, column: 1, endColumn: first + 1 });
+        }
+        if (indents.length === 0 || width !== indents[indents.length - 1]) {
+          fail('unindent does not match any outer indentation level', lineNumber, 1, first);
+        }
+      }
+      pos = first;
+    }
+    continuation = false;
+
+    let nextRow = row + 1;
+    let nextPos = 0;
+    while (pos < text.length) {
+      const char = text[pos];
+      const rest = text.slice(pos);
+      if (char === ' ' || char === '\t' || char === '\f') {
+        pos++;
+        continue;
+      }
+      if (char === '#') break;
+      if (char === '\\') {
+        if (rest.slice(1).trim() !== '') fail('unexpected character after line continuation character', lineNumber, pos + 1);
+        continuation = true;
+        break;
+      }
+
+      const stringStart = rest.match(STRING_START_RE);
+      if (stringStart) {
+        const quote = stringStart[1];
+        let r = row;
+        let p = pos + stringStart[0].length;
+        let closed = false;
+        while (r < lines.length) {
+          const current = lines[r];
+          while (p < current.length) {
+            if (current[p] === '\\') {
+              p += 2;
+              continue;
+            }
+            if (current.startsWith(quote, p)) {
+              p += quote.length;
+              closed = true;
+              break;
+            }
+            p++;
+          }
+          if (closed) break;
+          // Single-quoted strings only continue across a backslash-newline
+          if (quote.length === 1 && p <= current.length) break;
+          r++;
+          p = 0;
+        }
+        if (!closed) {
+          fail(quote.length === 3 ? 'unterminated triple-quoted string literal' : 'unterminated string literal', lineNumber, pos + 1, text.length - pos);
+        }
+        if (r === row) {
+          push('string', text.slice(pos, p), lineNumber, pos + 1, p + 1);
+          pos = p;
+          continue;
+        }
+        push('string', text.slice(pos), lineNumber, pos + 1, text.length + 1);
+        lastLine = firstLine + r;
+        lastColumn = p + 1;
+        nextRow = r;
+        nextPos = p;
+        break;
+      }
+
+      const number = rest.match(NUMBER_RE);
+      if (number && number[0] !== '') {
+        if (NAME_RE.test(rest.slice(number[0].length))) fail('invalid decimal literal', lineNumber, pos + 1, number[0].length + 1);
+        push('number', number[0], lineNumber, pos + 1, pos + 1 + number[0].length);
+        pos += number[0].length;
+        continue;
+      }
+
+      const name = rest.match(NAME_RE);
+      if (name) {
+        push('name', name[0], lineNumber, pos + 1, pos + 1 + name[0].length);
+        pos += name[0].length;
+        continue;
+      }
+
+      const op = OPERATORS.find(o => rest.startsWith(o));
+      if (!op) fail(`invalid character '${char}'`, lineNumber, pos + 1);
+      if (op === '(' || op === '[' || op === '{') {
+        brackets.push({ char: op, line: lineNumber, column: pos + 1 });
+      } else if (op === ')' || op === ']' || op === '}') {
+        const open = brackets.pop();
+        if (!open) fail(`unmatched '${op}'`, lineNumber, pos + 1);
+        else if (open.char !== CLOSING_BRACKETS[op]) {
+          fail(`closing parenthesis '${op}' does not match opening parenthesis '${open.char}'`, lineNumber, pos + 1);
+        }
+      }
+      push('op', op!, lineNumber, pos + 1, pos + 1 + op!.length);
+      pos += op!.length;
+    }
+
+    if (nextRow !== row + 1 || nextPos !== 0) {
+      row = nextRow;
+      pos = nextPos;
+      continue;
+    }
+    if (brackets.length === 0 && !continuation && lineHasTokens) {
+      tokens.push({ type: 'newline', value: '', line: lastLine, column: lastColumn, endColumn: lastColumn + 1 });
+      lineHasTokens = false;
+    }
+    row++;
+    pos = 0;
+  }
+
+  if (brackets.length > 0) {
+    const open = brackets[brackets.length - 1];
+    fail(`'${open.char}' was never closed`, open.line, open.column);
+  }
+  if (continuation) fail('unexpected end of input after line continuation', lastLine, lastColumn);
+  if (lineHasTokens) tokens.push({ type: 'newline', value: '', line: lastLine, column: lastColumn, endColumn: lastColumn + 1 });
+  for (let i = 1; i < indents.length; i++) {
+    tokens.push({ type: 'dedent', value: '', line: lastLine, column: lastColumn, endColumn: lastColumn + 1 });
+  }
+  tokens.push({ type: 'end', value: '', line: lastLine, column: lastColumn, endColumn: lastColumn + 1 });
+  return tokens;
+}
+
+// ── Expression nodes and scopes ──────────────────────────────────────────────
+
+interface NodeBase {
+  line: number;
+  column: number;
+}
+
+interface Parameter {
+  name: string;
+  annotation?: PyNode;
+  defaultValue?: PyNode;
+}
+
+interface Generator {
+  target: PyNode;
+  iter: PyNode;
+  conditions: PyNode[];
+}
+
+type PyNode = NodeBase & (
+  | { kind: 'name'; name: string }
+  | { kind: 'tuple' | 'list'; items: PyNode[] }
+  | { kind: 'starred'; value: PyNode }
+  | { kind: 'attribute'; value: PyNode; attr: string }
+  | { kind: 'subscript'; value: PyNode; index: PyNode[] }
+  | { kind: 'call'; func: PyNode; args: PyNode[] }
+  | { kind: 'literal' }
+  | { kind: 'lambda'; params: Parameter[]; body: PyNode }
+  | { kind: 'comprehension'; elements: PyNode[]; generators: Generator[] }
+  | { kind: 'named'; target: PyNode; value: PyNode }
+  | { kind: 'operation'; description: string; operands: PyNode[] }
+);
+
+interface Scope {
+  kind: 'module' | 'function' | 'class' | 'comprehension';
+  parent: Scope | null;
+  bindings: Set<string>;
+  globals: Set<string>;
+  loads: { name: string; line: number; column: number }[];
+  /** Assignments (not imports or definitions) keyed by name, for store variables */
+  assignments: Map<string, { line: number; value: string }>;
+}
+
+function createScope(kind: Scope['kind'], parent: Scope | null): Scope {
+  return { kind, parent, bindings: new Set(), globals: new Set(), loads: [], assignments: new Map() };
+}
+
+/** Result of analysing one Python region in isolation. */
+export interface PythonSourceAnalysis {
+  syntaxError: PythonSyntaxError | null;
+  /** Names bound at store level (assignments, imports, `def`, `class`) */
+  storeNames: Set<string>;
+  /** Store-level assignments with the line and source text of the assigned value */
+  assignments: Map<string, { line: number; value: string }>;
+  /** Names read but not bound by any enclosing local scope of the region */
+  freeNames: { name: string; line: number; column: number }[];
+}
+
+class ParseError extends Error {
+  constructor(readonly token: Token, message: string) {
+    super(message);
+  }
+}
+
+const STATEMENT_END = new Set(['newline', 'end']);
+const AUGMENTED_ASSIGNMENT = new Set(['+=', '-=', '*=', '/=', '//=', '%=', '**=', '>>=', '<<=', '&=', '|=', '^=', '@=']);
+const COMPARISON_OPERATORS = new Set(['==', '!=', '<', '<=', '>', '>=']);
+const BINARY_LEVELS = [['|'], ['^'], ['&'], ['<<', '>>'], ['+', '-'], ['*', '/', '//', '%', '@']];
+const EXPRESSION_START_OPS = new Set(['(', '[', '{', '-', '+', '~', '...', '*']);
+const EXPRESSION_START_KEYWORDS = new Set(['True', 'False', 'None', 'lambda', 'not', 'await', 'yield']);
+
+class PythonParser {
+  private pos = 0;
+  private scope: Scope;
+  readonly module: Scope;
+  readonly scopes: Scope[] = [];
+
+  constructor(private readonly tokens: Token[], private readonly lines: string[], private readonly firstLine: number, hide: boolean) {
+    this.module = createScope('module', null);
+    this.scopes.push(this.module);
+    this.scope = hide ? this.pushScope('function', this.module) : this.module;
+  }
+
+  // ── Token helpers ──
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (this.pos < this.tokens.length - 1) this.pos++;
+    return token;
+  }
+
+  private isOp(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === 'op' && token.value === value;
+  }
+
+  private isKeyword(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === 'name' && token.value === value;
+  }
+
+  private atStatementEnd(): boolean {
+    return STATEMENT_END.has(this.peek().type) || this.isOp(';');
+  }
+
+  private error(token: Token = this.peek(), message?: string): ParseError {
+    if (message) return new ParseError(token, message);
+    if (token.type === 'newline' || token.type === 'end') return new ParseError(token, 'invalid syntax: unexpected end of statement');
+    if (token.type === 'indent') return new ParseError(token, 'unexpected indent');
+    if (token.type === 'dedent') return new ParseError(token, 'invalid syntax');
+    return new ParseError(token, `invalid syntax: unexpected '${token.value}'`);
+  }
+
+  private expectOp(value: string, message = `expected '${value}'`): Token {
+    if (!this.isOp(value)) throw this.error(this.peek(), message);
+    return this.next();
+  }
+
+  private expectKeyword(value: string): Token {
+    if (!this.isKeyword(value)) throw this.error(this.peek(), `expected '${value}'`);
+    return this.next();
+  }
+
+  private expectName(): Token {
+    const token = this.peek();
+    if (token.type !== 'name' || PYTHON_KEYWORDS.has(token.value)) throw this.error(token, token.type === 'name' ? `invalid syntax: '${token.value}' is a keyword` : 'expected a name');
+    return this.next();
+  }
+
+  private startsExpression(token: Token = this.peek()): boolean {
+    if (token.type === 'number' || token.type === 'string') return true;
+    if (token.type === 'name') return !PYTHON_KEYWORDS.has(token.value) || EXPRESSION_START_KEYWORDS.has(token.value);
+    return token.type === 'op' && EXPRESSION_START_OPS.has(token.value);
+  }
+
+  // ── Scopes ──
+
+  private pushScope(kind: Scope['kind'], parent: Scope = this.scope): Scope {
+    const scope = createScope(kind, parent);
+    this.scopes.push(scope);
+    return scope;
+  }
+
+  private withScope(scope: Scope, body: () => void): void {
+    const previous = this.scope;
+    this.scope = scope;
+    try {
+      body();
+    } finally {
+      this.scope = previous;
+    }
+  }
+
+  private valueText(token: Token): string {
+    const line = this.lines[token.line - this.firstLine] ?? '';
+    return stripTrailingComment(line.slice(token.column - 1)).trim();
+  }
+
+  private bindName(name: string, scope: Scope, assignment?: { line: number; value: string }): void {
+    scope.bindings.add(name);
+    if (assignment && !scope.assignments.has(name)) scope.assignments.set(name, assignment);
+  }
+
+  private visitLoad(node: PyNode, scope: Scope = this.scope): void {
+    switch (node.kind) {
+      case 'name':
+        scope.loads.push({ name: node.name, line: node.line, column: node.column });
+        break;
+      case 'tuple':
+      case 'list':
+        node.items.forEach(item => this.visitLoad(item, scope));
+        break;
+      case 'starred':
+        this.visitLoad(node.value, scope);
+        break;
+      case 'attribute':
+        this.visitLoad(node.value, scope);
+        break;
+      case 'subscript':
+        this.visitLoad(node.value, scope);
+        node.index.forEach(item => this.visitLoad(item, scope));
+        break;
+      case 'call':
+        this.visitLoad(node.func, scope);
+        node.args.forEach(arg => this.visitLoad(arg, scope));
+        break;
+      case 'operation':
+        node.operands.forEach(operand => this.visitLoad(operand, scope));
+        break;
+      case 'named': {
+        this.visitLoad(node.value, scope);
+        let target = scope;
+        while (target.kind === 'comprehension' && target.parent) target = target.parent;
+        if (node.target.kind === 'name') this.bindName(node.target.name, target, { line: node.line, value: '' });
+        break;
+      }
+      case 'lambda': {
+        node.params.forEach(param => { if (param.defaultValue) this.visitLoad(param.defaultValue, scope); });
+        const lambdaScope = this.pushScope('function', scope);
+        node.params.forEach(param => lambdaScope.bindings.add(param.name));
+        this.visitLoad(node.body, lambdaScope);
+        break;
+      }
+      case 'comprehension': {
+        const comprehensionScope = this.pushScope('comprehension', scope);
+        node.generators.forEach((generator, index) => {
+          this.visitLoad(generator.iter, index === 0 ? scope : comprehensionScope);
+          this.bindTarget(generator.target, comprehensionScope);
+          generator.conditions.forEach(condition => this.visitLoad(condition, comprehensionScope));
+        });
+        node.elements.forEach(element => this.visitLoad(element, comprehensionScope));
+        break;
+      }
+      case 'literal':
+        break;
+    }
+  }
+
+  private bindTarget(node: PyNode, scope: Scope = this.scope, value?: string): void {
+    switch (node.kind) {
+      case 'name':
+        this.bindName(node.name, scope, value === undefined ? undefined : { line: node.line, value });
+        break;
+      case 'tuple':
+      case 'list':
+        node.items.forEach(item => this.bindTarget(item, scope, value === undefined ? undefined : ''));
+        break;
+      case 'starred':
+        this.bindTarget(node.value, scope, value === undefined ? undefined : '');
+        break;
+      case 'attribute':
+        // `store.x = ...` binds a store variable from anywhere
+        if (node.value.kind === 'name' && node.value.name === 'store') {
+          this.bindName(node.attr, this.module, value === undefined ? undefined : { line: node.line, value });
+        }
+        this.visitLoad(node.value, scope);
+        break;
+      case 'subscript':
+        this.visitLoad(node, scope);
+        break;
+      default:
+        break;
+    }
+  }
+
+  private checkTarget(node: PyNode, augmented = false): void {
+    const description = (() => {
+      switch (node.kind) {
+        case 'name':
+        case 'attribute':
+        case 'subscript':
+          return null;
+        case 'tuple':
+        case 'list':
+        case 'starred':
+          if (augmented) return `illegal expression for augmented assignment`;
+          if (node.kind === 'starred') {
+            this.checkTarget(node.value);
+          } else {
+            node.items.forEach(item => this.checkTarget(item));
+          }
+          return null;
+        case 'call': return 'cannot assign to function call';
+        case 'literal': return 'cannot assign to literal';
+        case 'lambda': return 'cannot assign to lambda';
+        case 'comprehension': return 'cannot assign to comprehension';
+        case 'named': return 'cannot assign to named expression';
+        case 'operation': return `cannot assign to ${node.description}`;
+      }
+    })();
+    if (description) {
+      const token = this.tokens.find(t => t.line === node.line && t.column === node.column) ?? this.peek();
+      throw this.error(token, description);
+    }
+  }
+
+  // ── Statements ──
+
+  parseModule(): void {
+    while (this.peek().type !== 'end') {
+      if (this.peek().type === 'newline') {
+        this.next();
+        continue;
+      }
+      if (this.peek().type === 'indent' || this.peek().type === 'dedent') throw this.error();
+      this.parseStatement();
+    }
+  }
+
+  private parseStatement(): void {
+    const token = this.peek();
+    if (this.isOp('@')) {
+      while (this.isOp('@')) {
+        this.next();
+        this.visitLoad(this.parseNamedExpression());
+        if (this.peek().type !== 'newline') throw this.error();
+        this.next();
+      }
+      if (this.isKeyword('async')) this.next();
+      if (this.isKeyword('def')) return this.parseDef();
+      if (this.isKeyword('class')) return this.parseClass();
+      throw this.error(this.peek(), 'expected a function or class definition after decorator');
+    }
+    if (token.type === 'name') {
+      switch (token.value) {
+        case 'if': return this.parseIf();
+        case 'while': {
+          this.next();
+          this.visitLoad(this.parseNamedExpression());
+          this.parseSuite("'while' statement", token);
+          return this.parseElse();
+        }
+        case 'for': return this.parseFor();
+        case 'try': return this.parseTry();
+        case 'with': return this.parseWith();
+        case 'def': return this.parseDef();
+        case 'class': return this.parseClass();
+        case 'async': {
+          this.next();
+          if (this.isKeyword('def')) return this.parseDef();
+          if (this.isKeyword('for')) return this.parseFor();
+          if (this.isKeyword('with')) return this.parseWith();
+          throw this.error();
+        }
+      }
+    }
+    this.parseSimpleStatements();
+  }
+
+  private parseSuite(context: string, header: Token): void {
+    this.expectOp(':');
+    if (this.peek().type !== 'newline') {
+      this.parseSimpleStatements();
+      return;
+    }
+    this.next();
+    if (this.peek().type !== 'indent') {
+      throw this.error(this.peek(), `expected an indented block after ${context} on line ${header.line}`);
+    }
+    this.next();
+    while (this.peek().type !== 'dedent' && this.peek().type !== 'end') {
+      if (this.peek().type === 'newline') {
+        this.next();
+        continue;
+      }
+      if (this.peek().type === 'indent') throw this.error();
+      this.parseStatement();
+    }
+    if (this.peek().type === 'dedent') this.next();
+  }
+
+  private parseElse(): void {
+    if (this.isKeyword('else')) {
+      const token = this.next();
+      this.parseSuite("'else' statement", token);
+    }
+  }
+
+  private parseIf(): void {
+    const token = this.next();
+    this.visitLoad(this.parseNamedExpression());
+    this.parseSuite("'if' statement", token);
+    while (this.isKeyword('elif')) {
+      const elif = this.next();
+      this.visitLoad(this.parseNamedExpression());
+      this.parseSuite("'elif' statement", elif);
+    }
+    this.parseElse();
+  }
+
+  private parseFor(): void {
+    const token = this.next();
+    const target = this.parseTargetList();
+    this.checkTarget(target);
+    this.expectKeyword('in');
+    this.visitLoad(this.parseStarExpressions());
+    this.bindTarget(target);
+    this.parseSuite("'for' statement", token);
+    this.parseElse();
+  }
+
+  private parseTry(): void {
+    const token = this.next();
+    this.parseSuite("'try' statement", token);
+    let handlers = 0;
+    while (this.isKeyword('except')) {
+      const except = this.next();
+      handlers++;
+      if (this.isOp('*')) this.next();
+      if (!this.isOp(':')) {
+        this.visitLoad(this.parseExpression());
+        if (this.isOp(',')) {
+          // `except A, B:` is Python 2 syntax
+          throw this.error(this.peek(), 'multiple exception types must be parenthesized');
+        }
+        if (this.isKeyword('as')) {
+          this.next();
+          this.bindName(this.expectName().value, this.scope);
+        }
+      }
+      this.parseSuite("'except' statement", except);
+    }
+    if (handlers > 0) this.parseElse();
+    if (this.isKeyword('finally')) {
+      const finallyToken = this.next();
+      this.parseSuite("'finally' statement", finallyToken);
+    } else if (handlers === 0) {
+      throw this.error(this.peek(), "expected 'except' or 'finally' block");
+    }
+  }
+
+  private parseWith(): void {
+    const token = this.next();
+    const parseItem = () => {
+      this.visitLoad(this.parseExpression());
+      if (this.isKeyword('as')) {
+        this.next();
+        const target = this.parseTarget();
+        this.checkTarget(target);
+        this.bindTarget(target);
+      }
+    };
+    // Parenthesized with-items: `with (a as b, c as d):`
+    const start = this.pos;
+    if (this.isOp('(')) {
+      try {
+        this.next();
+        parseItem();
+        while (this.isOp(',') && !this.isOp(')', 1)) {
+          this.next();
+          parseItem();
+        }
+        if (this.isOp(',')) this.next();
+        this.expectOp(')');
+        if (!this.isOp(':')) throw this.error();
+      } catch (err) {
+        if (!(err instanceof ParseError)) throw err;
+        this.pos = start;
+        parseItem();
+        while (this.isOp(',')) {
+          this.next();
+          parseItem();
+        }
+      }
+    } else {
+      parseItem();
+      while (this.isOp(',')) {
+        this.next();
+        parseItem();
+      }
+    }
+    this.parseSuite("'with' statement", token);
+  }
+
+  private parseDef(): void {
+    const token = this.next();
+    const name = this.expectName();
+    this.bindName(name.value, this.scope);
+    this.expectOp('(');
+    const params = this.parseParameters(')', true);
+    this.expectOp(')');
+    const functionScope = this.pushScope('function');
+    params.forEach(param => {
+      if (param.annotation) this.visitLoad(param.annotation);
+      if (param.defaultValue) this.visitLoad(param.defaultValue);
+      functionScope.bindings.add(param.name);
+    });
+    if (this.isOp('->')) {
+      this.next();
+      this.visitLoad(this.parseExpression());
+    }
+    this.withScope(functionScope, () => this.parseSuite('function definition', token));
+  }
+
+  private parseClass(): void {
+    const token = this.next();
+    const name = this.expectName();
+    this.bindName(name.value, this.scope);
+    if (this.isOp('(')) {
+      this.next();
+      this.parseArguments().forEach(arg => this.visitLoad(arg));
+      this.expectOp(')');
+    }
+    const classScope = this.pushScope('class');
+    this.withScope(classScope, () => this.parseSuite('class definition', token));
+  }
+
+  private parseParameters(closing: string, allowAnnotations: boolean): Parameter[] {
+    const params: Parameter[] = [];
+    while (!this.isOp(closing)) {
+      if (this.isOp('/')) {
+        this.next();
+      } else if (this.isOp('*') || this.isOp('**')) {
+        this.next();
+        if (this.peek().type === 'name') {
+          const param: Parameter = { name: this.expectName().value };
+          if (allowAnnotations && this.isOp(':')) {
+            this.next();
+            param.annotation = this.parseExpression();
+          }
+          params.push(param);
+        }
+      } else {
+        const param: Parameter = { name: this.expectName().value };
+        if (allowAnnotations && this.isOp(':')) {
+          this.next();
+          param.annotation = this.parseExpression();
+        }
+        if (this.isOp('=')) {
+          this.next();
+          param.defaultValue = this.parseExpression();
+        }
+        params.push(param);
+      }
+      if (!this.isOp(',')) break;
+      this.next();
+    }
+    return params;
+  }
+
+  private parseSimpleStatements(): void {
+    this.parseSmallStatement();
+    while (this.isOp(';')) {
+      this.next();
+      if (STATEMENT_END.has(this.peek().type)) break;
+      this.parseSmallStatement();
+    }
+    if (this.peek().type === 'newline') {
+      this.next();
+    } else if (this.peek().type !== 'end') {
+      throw this.error();
+    }
+  }
+
+  private parseSmallStatement(): void {
+    const token = this.peek();
+    if (token.type === 'name') {
+      switch (token.value) {
+        case 'pass':
+        case 'break':
+        case 'continue':
+          this.next();
+          return;
+        case 'return':
+          this.next();
+          if (!this.atStatementEnd()) this.visitLoad(this.parseStarExpressions());
+          return;
+        case 'raise':
+          this.next();
+          if (!this.atStatementEnd()) {
+            this.visitLoad(this.parseExpression());
+            if (this.isKeyword('from')) {
+              this.next();
+              this.visitLoad(this.parseExpression());
+            }
+          }
+          return;
+        case 'global':
+        case 'nonlocal': {
+          this.next();
+          do {
+            if (this.isOp(',')) this.next();
+            const name = this.expectName().value;
+            if (token.value === 'global') this.scope.globals.add(name);
+          } while (this.isOp(','));
+          return;
+        }
+        case 'del': {
+          this.next();
+          const targets = this.parseTargetList();
+          this.checkTarget(targets);
+          this.visitLoad(targets);
+          return;
+        }
+        case 'assert':
+          this.next();
+          this.visitLoad(this.parseExpression());
+          if (this.isOp(',')) {
+            this.next();
+            this.visitLoad(this.parseExpression());
+          }
+          return;
+        case 'import':
+          this.next();
+          do {
+            if (this.isOp(',')) this.next();
+            const first = this.expectName().value;
+            while (this.isOp('.')) {
+              this.next();
+              this.expectName();
+            }
+            if (this.isKeyword('as')) {
+              this.next();
+              this.bindName(this.expectName().value, this.scope);
+            } else {
+              this.bindName(first, this.scope);
+            }
+          } while (this.isOp(','));
+          return;
+        case 'from':
+          return this.parseFromImport();
+        case 'yield':
+          this.visitLoad(this.parseYield());
+          return;
+      }
+    }
+
+    const first = this.parseStarExpressions();
+    if (this.isOp(':')) {
+      this.checkTarget(first);
+      if (first.kind === 'tuple') throw this.error(this.peek(), 'only single target (not tuple) can be annotated');
+      this.next();
+      this.visitLoad(this.parseExpression());
+      if (this.isOp('=')) {
+        this.next();
+        const valueToken = this.peek();
+        this.visitLoad(this.parseYieldOrStarExpressions());
+        this.bindTarget(first, this.scope, this.valueText(valueToken));
+      }
+      return;
+    }
+    if (this.peek().type === 'op' && AUGMENTED_ASSIGNMENT.has(this.peek().value)) {
+      this.checkTarget(first, true);
+      this.next();
+      this.visitLoad(this.parseYieldOrStarExpressions());
+      // `x += 1` reads `x` first, so it never defines a store variable by itself
+      this.visitLoad(first);
+      if (first.kind === 'name' && this.scope !== this.module) this.bindName(first.name, this.scope);
+      return;
+    }
+    if (this.isOp('=')) {
+      const targets = [first];
+      let value: PyNode = first;
+      let valueToken = this.peek();
+      while (this.isOp('=')) {
+        this.next();
+        valueToken = this.peek();
+        value = this.parseYieldOrStarExpressions();
+        targets.push(value);
+      }
+      targets.pop();
+      targets.forEach(target => this.checkTarget(target));
+      this.visitLoad(value);
+      targets.forEach(target => this.bindTarget(target, this.scope, this.valueText(valueToken)));
+      return;
+    }
+    if (first.kind === 'name' && (first.name === 'print' || first.name === 'exec') && ['string', 'name', 'number'].includes(this.peek().type)) {
+      throw this.error(this.peek(), `missing parentheses in call to '${first.name}'. Did you mean ${first.name}(...)?`);
+    }
+    this.visitLoad(first);
+  }
+
+  private parseFromImport(): void {
+    this.next();
+    let relative = false;
+    while (this.isOp('.') || this.isOp('...')) {
+      relative = true;
+      this.next();
+    }
+    if (!this.isKeyword('import')) {
+      this.expectName();
+      while (this.isOp('.')) {
+        this.next();
+        this.expectName();
+      }
+    } else if (!relative) {
+      throw this.error();
+    }
+    this.expectKeyword('import');
+    if (this.isOp('*')) {
+      this.next();
+      return;
+    }
+    const parenthesized = this.isOp('(');
+    if (parenthesized) this.next();
+    do {
+      if (this.isOp(',')) this.next();
+      if (parenthesized && this.isOp(')')) break;
+      const name = this.expectName().value;
+      if (this.isKeyword('as')) {
+        this.next();
+        this.bindName(this.expectName().value, this.scope);
+      } else {
+        this.bindName(name, this.scope);
+      }
+    } while (this.isOp(','));
+    if (parenthesized) this.expectOp(')');
+  }
+
+  // ── Expressions ──
+
+  private operation(description: string, token: Token, operands: PyNode[]): PyNode {
+    return { kind: 'operation', description, operands, line: token.line, column: token.column };
+  }
+
+  private parseYield(): PyNode {
+    const token = this.next();
+    if (this.isKeyword('from')) {
+      this.next();
+      return this.operation('yield expression', token, [this.parseExpression()]);
+    }
+    const operands = this.startsExpression() ? [this.parseStarExpressions()] : [];
+    return this.operation('yield expression', token, operands);
+  }
+
+  private parseYieldOrStarExpressions(): PyNode {
+    return this.isKeyword('yield') ? this.parseYield() : this.parseStarExpressions();
+  }
+
+  private parseStarExpressions(): PyNode {
+    const token = this.peek();
+    const first = this.parseStarExpression();
+    if (!this.isOp(',')) return first;
+    const items = [first];
+    while (this.isOp(',')) {
+      this.next();
+      if (!this.startsExpression()) break;
+      items.push(this.parseStarExpression());
+    }
+    return { kind: 'tuple', items, line: token.line, column: token.column };
+  }
+
+  private parseStarExpression(): PyNode {
+    if (this.isOp('*')) {
+      const token = this.next();
+      return { kind: 'starred', value: this.parseBinary(0), line: token.line, column: token.column };
+    }
+    return this.parseNamedExpression();
+  }
+
+  private parseNamedExpression(): PyNode {
+    const token = this.peek();
+    if (token.type === 'name' && !PYTHON_KEYWORDS.has(token.value) && this.isOp(':=', 1)) {
+      this.next();
+      this.next();
+      const target: PyNode = { kind: 'name', name: token.value, line: token.line, column: token.column };
+      return { kind: 'named', target, value: this.parseExpression(), line: token.line, column: token.column };
+    }
+    return this.parseExpression();
+  }
+
+  private parseExpression(): PyNode {
+    const token = this.peek();
+    if (this.isKeyword('lambda')) {
+      this.next();
+      const params = this.parseParameters(':', false);
+      this.expectOp(':');
+      return { kind: 'lambda', params, body: this.parseExpression(), line: token.line, column: token.column };
+    }
+    const body = this.parseDisjunction();
+    if (!this.isKeyword('if')) return body;
+    this.next();
+    const condition = this.parseDisjunction();
+    this.expectKeyword('else');
+    return this.operation('conditional expression', token, [body, condition, this.parseExpression()]);
+  }
+
+  private parseDisjunction(): PyNode {
+    const token = this.peek();
+    const operands = [this.parseConjunction()];
+    while (this.isKeyword('or')) {
+      this.next();
+      operands.push(this.parseConjunction());
+    }
+    return operands.length === 1 ? operands[0] : this.operation('expression', token, operands);
+  }
+
+  private parseConjunction(): PyNode {
+    const token = this.peek();
+    const operands = [this.parseInversion()];
+    while (this.isKeyword('and')) {
+      this.next();
+      operands.push(this.parseInversion());
+    }
+    return operands.length === 1 ? operands[0] : this.operation('expression', token, operands);
+  }
+
+  private parseInversion(): PyNode {
+    if (this.isKeyword('not')) {
+      const token = this.next();
+      return this.operation('expression', token, [this.parseInversion()]);
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): PyNode {
+    const token = this.peek();
+    const operands = [this.parseBinary(0)];
+    for (;;) {
+      const current = this.peek();
+      if (current.type === 'op' && COMPARISON_OPERATORS.has(current.value)) {
+        this.next();
+      } else if (this.isKeyword('in')) {
+        this.next();
+      } else if (this.isKeyword('not') && this.isKeyword('in', 1)) {
+        this.next();
+        this.next();
+      } else if (this.isKeyword('is')) {
+        this.next();
+        if (this.isKeyword('not')) this.next();
+      } else {
+        break;
+      }
+      operands.push(this.parseBinary(0));
+    }
+    return operands.length === 1 ? operands[0] : this.operation('comparison', token, operands);
+  }
+
+  private parseBinary(level: number): PyNode {
+    if (level >= BINARY_LEVELS.length) return this.parseFactor();
+    const token = this.peek();
+    const operands = [this.parseBinary(level + 1)];
+    while (this.peek().type === 'op' && BINARY_LEVELS[level].includes(this.peek().value)) {
+      this.next();
+      operands.push(this.parseBinary(level + 1));
+    }
+    return operands.length === 1 ? operands[0] : this.operation('expression', token, operands);
+  }
+
+  private parseFactor(): PyNode {
+    if (this.isOp('+') || this.isOp('-') || this.isOp('~')) {
+      const token = this.next();
+      return this.operation('expression', token, [this.parseFactor()]);
+    }
+    const token = this.peek();
+    const base = this.isKeyword('await')
+      ? this.operation('await expression', this.next(), [this.parsePrimary()])
+      : this.parsePrimary();
+    if (!this.isOp('**')) return base;
+    this.next();
+    return this.operation('expression', token, [base, this.parseFactor()]);
+  }
+
+  private parsePrimary(): PyNode {
+    let node = this.parseAtom();
+    for (;;) {
+      if (this.isOp('.')) {
+        this.next();
+        const attr = this.expectName();
+        node = { kind: 'attribute', value: node, attr: attr.value, line: node.line, column: node.column };
+      } else if (this.isOp('(')) {
+        this.next();
+        const args = this.parseArguments();
+        this.expectOp(')');
+        node = { kind: 'call', func: node, args, line: node.line, column: node.column };
+      } else if (this.isOp('[')) {
+        this.next();
+        const index = this.parseSlices();
+        this.expectOp(']');
+        node = { kind: 'subscript', value: node, index, line: node.line, column: node.column };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parseArguments(): PyNode[] {
+    const args: PyNode[] = [];
+    while (!this.isOp(')')) {
+      if (this.isOp('*') || this.isOp('**')) {
+        this.next();
+        args.push(this.parseExpression());
+      } else if (this.peek().type === 'name' && this.isOp('=', 1)) {
+        this.expectName();
+        this.next();
+        args.push(this.parseExpression());
+      } else {
+        const token = this.peek();
+        const arg = this.parseNamedExpression();
+        args.push(this.isComprehensionStart() ? this.parseComprehension([arg], token) : arg);
+      }
+      if (!this.isOp(',')) break;
+      this.next();
+    }
+    return args;
+  }
+
+  private parseSlices(): PyNode[] {
+    const items: PyNode[] = [];
+    do {
+      if (this.isOp(',')) this.next();
+      if (this.isOp(']')) break;
+      if (!this.isOp(':')) items.push(this.parseStarExpression());
+      while (this.isOp(':')) {
+        this.next();
+        if (!this.isOp(':') && !this.isOp(',') && !this.isOp(']')) items.push(this.parseExpression());
+      }
+    } while (this.isOp(','));
+    return items;
+  }
+
+  private isComprehensionStart(): boolean {
+    return this.isKeyword('for') || (this.isKeyword('async') && this.isKeyword('for', 1));
+  }
+
+  private parseComprehension(elements: PyNode[], token: Token): PyNode {
+    const generators: Generator[] = [];
+    while (this.isComprehensionStart()) {
+      if (this.isKeyword('async')) this.next();
+      this.next();
+      const target = this.parseTargetList();
+      this.checkTarget(target);
+      this.expectKeyword('in');
+      const iter = this.parseDisjunction();
+      const conditions: PyNode[] = [];
+      while (this.isKeyword('if')) {
+        this.next();
+        conditions.push(this.parseDisjunction());
+      }
+      generators.push({ target, iter, conditions });
+    }
+    return { kind: 'comprehension', elements, generators, line: token.line, column: token.column };
+  }
+
+  private parseTarget(): PyNode {
+    if (this.isOp('*')) {
+      const token = this.next();
+      return { kind: 'starred', value: this.parseBinary(0), line: token.line, column: token.column };
+    }
+    return this.parseBinary(0);
+  }
+
+  private parseTargetList(): PyNode {
+    const token = this.peek();
+    const first = this.parseTarget();
+    if (!this.isOp(',')) return first;
+    const items = [first];
+    while (this.isOp(',')) {
+      this.next();
+      if (!this.startsExpression()) break;
+      items.push(this.parseTarget());
+    }
+    return { kind: 'tuple', items, line: token.line, column: token.column };
+  }
+
+  private parseAtom(): PyNode {
+    const token = this.peek();
+    const at = { line: token.line, column: token.column };
+    if (token.type === 'name') {
+      if (token.value === 'True' || token.value === 'False' || token.value === 'None') {
+        this.next();
+        return { kind: 'literal', ...at };
+      }
+      if (PYTHON_KEYWORDS.has(token.value)) throw this.error(token);
+      this.next();
+      return { kind: 'name', name: token.value, ...at };
+    }
+    if (token.type === 'number') {
+      this.next();
+      return { kind: 'literal', ...at };
+    }
+    if (token.type === 'string') {
+      while (this.peek().type === 'string') this.next();
+      return { kind: 'literal', ...at };
+    }
+    if (this.isOp('...')) {
+      this.next();
+      return { kind: 'literal', ...at };
+    }
+    if (this.isOp('(')) {
+      this.next();
+      if (this.isOp(')')) {
+        this.next();
+        return { kind: 'tuple', items: [], ...at };
+      }
+      if (this.isKeyword('yield')) {
+        const node = this.parseYield();
+        this.expectOp(')');
+        return node;
+      }
+      const first = this.parseStarExpression();
+      if (this.isComprehensionStart()) {
+        const node = this.parseComprehension([first], token);
+        this.expectOp(')');
+        return node;
+      }
+      if (!this.isOp(',')) {
+        this.expectOp(')');
+        return first;
+      }
+      const items = [first];
+      while (this.isOp(',')) {
+        this.next();
+        if (this.isOp(')')) break;
+        items.push(this.parseStarExpression());
+      }
+      this.expectOp(')');
+      return { kind: 'tuple', items, ...at };
+    }
+    if (this.isOp('[')) {
+      this.next();
+      const items: PyNode[] = [];
+      if (!this.isOp(']')) {
+        const first = this.parseStarExpression();
+        if (this.isComprehensionStart()) {
+          const node = this.parseComprehension([first], token);
+          this.expectOp(']');
+          return node;
+        }
+        items.push(first);
+        while (this.isOp(',')) {
+          this.next();
+          if (this.isOp(']')) break;
+          items.push(this.parseStarExpression());
+        }
+      }
+      this.expectOp(']');
+      return { kind: 'list', items, ...at };
+    }
+    if (this.isOp('{')) {
+      this.next();
+      const items: PyNode[] = [];
+      let isDict = false;
+      while (!this.isOp('}')) {
+        if (this.isOp('**')) {
+          this.next();
+          isDict = true;
+          items.push(this.parseBinary(0));
+        } else {
+          const key = this.parseStarExpression();
+          if (this.isOp(':')) {
+            isDict = true;
+            this.next();
+            const value = this.parseExpression();
+            if (this.isComprehensionStart() && items.length === 0) {
+              const node = this.parseComprehension([key, value], token);
+              this.expectOp('}');
+              return node;
+            }
+            items.push(key, value);
+          } else if (this.isComprehensionStart() && items.length === 0 && !isDict) {
+            const node = this.parseComprehension([key], token);
+            this.expectOp('}');
+            return node;
+          } else {
+            items.push(key);
+          }
+        }
+        if (!this.isOp(',')) break;
+        this.next();
+      }
+      this.expectOp('}');
+      return this.operation(isDict ? 'dict literal' : 'set display', token, items);
+    }
+    if (token.type === 'newline' || token.type === 'end') throw this.error(token, 'expected an expression');
+    throw this.error(token);
+  }
+}
+
+/**
+ * Resolves a name read in `scope` through Python's local scoping rules.
+ * Class bodies are only visible to code directly inside them.
+ */
+function isLocallyBound(name: string, scope: Scope): boolean {
+  if (scope.globals.has(name)) return false;
+  let current: Scope | null = scope;
+  let first = true;
+  while (current) {
+    if (current.kind === 'module') return current.bindings.has(name);
+    if ((first || current.kind !== 'class') && current.bindings.has(name)) return true;
+    if (current.globals.has(name)) return false;
+    first = false;
+    current = current.parent;
+  }
+  return false;
+}
+
+/**
+ * Tokenizes, parses and resolves one Python region.
+ *
+ * @param lines - Source lines of the region, with original columns
+ * @param firstLine - 1-based line number of `lines[0]` in its file
+ * @param hide - True for `python hide:` blocks, whose names are function locals
+ * @returns Syntax error (if any), store-level names and names left unresolved
+ */
+export function analyzePythonSource(lines: string[], firstLine: number, hide = false): PythonSourceAnalysis {
+  const analysis: PythonSourceAnalysis = { syntaxError: null, storeNames: new Set(), assignments: new Map(), freeNames: [] };
+  let tokens: Token[];
+  try {
+    tokens = tokenize(lines, firstLine);
+  } catch (err) {
+    if (!(err instanceof TokenizeError)) throw err;
+    analysis.syntaxError = err.error;
+    return analysis;
+  }
+
+  const parser = new PythonParser(tokens, lines, firstLine, hide);
+  try {
+    parser.parseModule();
+  } catch (err) {
+    if (!(err instanceof ParseError)) throw err;
+    analysis.syntaxError = { message: err.message, line: err.token.line, column: err.token.column, endColumn: err.token.endColumn };
+  }
+
+  const addStoreName = (name: string, assignment?: { line: number; value: string }) => {
+    analysis.storeNames.add(name);
+    if (assignment && !analysis.assignments.has(name)) analysis.assignments.set(name, assignment);
+  };
+  parser.module.bindings.forEach(name => addStoreName(name, parser.module.assignments.get(name)));
+  for (const scope of parser.scopes) {
+    if (scope.kind !== 'function') continue;
+    scope.globals.forEach(name => {
+      if (scope.bindings.has(name)) addStoreName(name, scope.assignments.get(name));
+    });
+  }
+
+  if (!analysis.syntaxError) {
+    for (const scope of parser.scopes) {
+      for (const load of scope.loads) {
+        if (!isLocallyBound(load.name, scope)) analysis.freeNames.push(load);
+      }
+    }
+  }
+  return analysis;
+}
+
+// ── Project-wide pass ────────────────────────────────────────────────────────
+
+const TRANSFORM_DEF_RE = /^\s*transform\s+([A-Za-z_]\w*)/;
+const LABEL_PARAMS_RE = /^\s*label\s+\w+\s*\(([^)]*)\)/;
+const DEFINE_DEFAULT_NAME_RE = /^\s*(?:define|default)\s+(?:-?\d+\s+)?([A-Za-z_]\w*)/;
+
+function isDebugPlaceholderFile(filePath?: string): boolean {
+  return !!filePath && filePath.endsWith('debug_placeholders.rpy');
+}
+
+/**
+ * Runs the Python pass over every block.
+ * Names assigned at store level that the regex pass did not find are added to
+ * `result.variables` as implicit variables (with their usages), so they show up
+ * in the Variables panel and stop being reported as undefined elsewhere.
+ *
+ * @param blocks - Blocks to analyse
+ * @param result - Analysis result from `performRenpyAnalysis`; `variables` and
+ *   `variableUsages` are updated in place
+ * @returns Python syntax errors and undefined-name warnings
+ */
+export function performPythonAnalysis(
+  blocks: { id: string; content: string; filePath?: string }[],
+  result: Pick<RenpyAnalysisResult, 'variables' | 'variableUsages' | 'characters'>,
+): PythonDiagnostic[] {
+  const diagnostics: PythonDiagnostic[] = [];
+  const knownNames = new Set<string>(KNOWN_BUILTINS);
+  const analysed: { blockId: string; region: PythonRegion; analysis: PythonSourceAnalysis }[] = [];
+
+  for (const block of blocks) {
+    if (isDebugPlaceholderFile(block.filePath) || !block.content) continue;
+    for (const region of extractPythonRegions(block.content)) {
+      const analysis = analyzePythonSource(region.lines, region.startLine, region.scope === 'hide');
+      analysed.push({ blockId: block.id, region, analysis });
+      if (region.scope !== 'screen') analysis.storeNames.forEach(name => knownNames.add(name));
+      if (analysis.syntaxError) {
+        diagnostics.push({
+          blockId: block.id,
+          kind: 'syntax',
+          severity: 'error',
+          line: analysis.syntaxError.line,
+          column: analysis.syntaxError.column,
+          endColumn: analysis.syntaxError.endColumn,
+          message: `Python syntax error: ${analysis.syntaxError.message}`,
+        });
+      }
+    }
+    for (const line of block.content.split('\n')) {
+      const defined = line.match(TRANSFORM_DEF_RE) ?? line.match(DEFINE_DEFAULT_NAME_RE);
+      if (defined) knownNames.add(defined[1]);
+      const params = line.match(LABEL_PARAMS_RE);
+      if (params) {
+        params[1].split(',').forEach(param => {
+          const name = param.split('=')[0].replace(/\*/g, '').trim();
+          if (name) knownNames.add(name);
+        });
+      }
+    }
+  }
+  result.variables.forEach((_variable, name) => knownNames.add(name.split('.')[0]));
+  result.characters.forEach((_character, tag) => knownNames.add(tag));
+
+  // New store variables
+  const newVariables: Variable[] = [];
+  for (const { blockId, region, analysis } of analysed) {
+    if (region.scope !== 'store') continue;
+    analysis.assignments.forEach((assignment, name) => {
+      if (result.variables.has(name) || result.characters.has(name)) return;
+      const variable: Variable = { name, type: 'implicit', initialValue: assignment.value, definedInBlockId: blockId, line: assignment.line };
+      result.variables.set(name, variable);
+      newVariables.push(variable);
+    });
+  }
+  if (newVariables.length > 0) collectVariableUsages(blocks, newVariables, result.variableUsages);
+
+  // Undefined names
+  for (const { blockId, region, analysis } of analysed) {
+    if (region.scope === 'screen') continue;
+    const reported = new Set<string>();
+    for (const free of analysis.freeNames) {
+      if (knownNames.has(free.name) || free.name.startsWith('_')) continue;
+      const key = `${free.line}:${free.name}`;
+      if (reported.has(key)) continue;
+      reported.add(key);
+      diagnostics.push({
+        blockId,
+        kind: 'undefined-name',
+        severity: 'warning',
+        line: free.line,
+        column: free.column,
+        endColumn: free.column + free.name.length,
+        message: `Name "${free.name}" is not defined`,
+      });
+    }
+  }
+
+  return diagnostics.sort((a, b) => a.blockId.localeCompare(b.blockId) || a.line - b.line || a.column - b.column);
+}
+
+/** Records every line (other than the defining one) that mentions one of `variables`. */
+function collectVariableUsages(
+  blocks: { id: string; content: string; filePath?: string }[],
+  variables: Variable[],
+  usages: RenpyAnalysisResult['variableUsages'],
+): void {
+  const byName = new Map(variables.map(v => [v.name, v]));
+  const pattern = new RegExp(`\\b(${variables.map(v => v.name).join('|')})\\b`, 'g');
+  for (const block of blocks) {
+    if (isDebugPlaceholderFile(block.filePath)) continue;
+    const tripleQuotedLineMask = getTripleQuotedLineMask(block.content);
+    block.content.split('\n').forEach((line, index) => {
+      if (tripleQuotedLineMask[index]) return;
+      let sanitized = line.replace(/"[^"\\]*(?:\\.[^"\\]*)*"/g, '""').replace(/'[^'\\]*(?:\\.[^'\\]*)*'/g, "''");
+      const commentIndex = sanitized.indexOf('#');
+      if (commentIndex !== -1) sanitized = sanitized.substring(0, commentIndex);
+      pattern.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(sanitized)) !== null) {
+        if (match.index > 0 && sanitized[match.index - 1] === '.') continue;
+        const variable = byName.get(match[1])!;
+        if (variable.definedInBlockId === block.id && variable.line === index + 1) continue;
+        if (!usages.has(variable.name)) usages.set(variable.name, []);
+        const list = usages.get(variable.name)!;
+        if (!list.some(u => u.blockId === block.id && u.line === index + 1)) list.push({ blockId: block.id, line: index + 1 });
+      }
+    });
+  }
+}
@@ -0,0 +1,118 @@
+import { applyQuickFixEdits, findClosestNames, getIssueSubject, getQuickFixes } from './renpyQuickFixes';
+import type { QuickFix } from './renpyQuickFixes';
+import { performRenpyAnalysis } from '@/hooks/useRenpyAnalysis';
+
+const blocks = [
+  {
+    id: 'b1',
+    filePath: 'game/script.rpy',
+    content: [
+      'define e = Character("Eileen")',
+      'default score = 0',
+      'label start:',
+      '    e "Hi."',
+      '    jump chaptr2',
+      '    show expression "images/eileen happy.png" at left',
+      '    menu',
+      '        "Go":  # go',
+      '            call screen inventori',
+      '            scene bg park',
+      '    m "Who?"',
+      'label chapter2:',
+      '    return',
+    ].join('\n'),
+  },
+  {
+    id: 'b2',
+    filePath: 'game/screens.rpy',
+    content: 'screen inventory():\n    text "Bag"\n',
+  },
+];
+
+const analysis = performRenpyAnalysis(blocks);
+
+const apply = (fix: QuickFix, blockId = 'b1') =>
+  applyQuickFixEdits(blocks.find(b => b.id === blockId)!.content, fix.edits.filter(e => e.blockId === blockId));
+
+describe('getIssueSubject', () => {
+  it('reads the quoted name from diagnostics and editor markers', () => {
+    expect(getIssueSubject({ category: 'invalid-jump', message: 'Undefined label "chaptr2"' })).toBe('chaptr2');
+    expect(getIssueSubject({ category: 'invalid-jump', message: "Invalid jump: Label 'chaptr2' not found in project." })).toBe('chaptr2');
+  });
+});
+
+describe('findClosestNames', () => {
+  it('returns near matches closest first', () => {
+    expect(findClosestNames('chaptr2', ['chapter2', 'chapter3', 'start'])).toEqual(['chapter2', 'chapter3']);
+    expect(findClosestNames('xyz', ['start'])).toEqual([]);
+  });
+});
+
+describe('getQuickFixes', () => {
+  it('suggests a close label and offers to create the missing one', () => {
+    const fixes = getQuickFixes({ category: 'invalid-jump', message: 'Undefined label "chaptr2"', blockId: 'b1', line: 5 }, blocks, analysis);
+    expect(fixes.map(f => f.title)).toEqual([
+      "Did you mean 'chapter2'?",
+      "Create label 'chaptr2' in current file",
+      "Create label 'chaptr2' in new file",
+    ]);
+    expect(fixes[0].isPreferred).toBe(true);
+    expect(apply(fixes[0]).split('\n')[4]).toBe('    jump chapter2');
+    expect(apply(fixes[1]).endsWith('    return\n\nlabel chaptr2:\n    return\n')).toBe(true);
+    expect(fixes[2].newFile).toEqual({ name: 'chaptr2', content: 'label chaptr2:\n    return\n' });
+  });
+
+  it('defines a missing character after the existing definitions', () => {
+    const fixes = getQuickFixes({ category: 'undefined-character', message: 'Character "m" used in dialogue but never defined', blockId: 'b1', line: 11 }, blocks, analysis);
+    const define = fixes.find(f => f.title === "Define character 'm'")!;
+    expect(apply(define).split('\n').slice(0, 2)).toEqual(['define e = Character("Eileen")', 'define m = Character("m")']);
+  });
+
+  it('suggests a close screen name', () => {
+    const fixes = getQuickFixes({ category: 'undefined-screen', message: 'Screen "inventori" referenced but never defined', blockId: 'b1', line: 9 }, blocks, analysis);
+    expect(fixes.map(f => f.title)).toEqual(["Did you mean 'inventory'?"]);
+    expect(apply(fixes[0]).split('\n')[8]).toBe('            call screen inventory');
+  });
+
+  it('suggests a close transform name', () => {
+    const transforms = [{ id: 't', content: 'transform bounce:\n    yoffset 0\nlabel x:\n    show e at bonce, left' }];
+    const fixes = getQuickFixes({ category: 'undefined-transform', message: 'Transform "bonce" is not defined', blockId: 't', line: 4 }, transforms, performRenpyAnalysis(transforms));
+    expect(fixes.map(f => f.title)).toEqual(["Did you mean 'bounce'?"]);
+    expect(applyQuickFixEdits(transforms[0].content, fixes[0].edits).split('\n')[3]).toBe('    show e at bounce, left');
+  });
+
+  it('suggests a close variable for an undefined Python name', () => {
+    const fixes = getQuickFixes({ category: 'undefined-name', message: 'Name "scor" is not defined', blockId: 'c', line: 1 }, [{ id: 'c', content: '    $ total = scor + 1' }], analysis);
+    expect(fixes.map(f => f.title)).toEqual(["Did you mean 'score'?"]);
+    expect(applyQuickFixEdits('    $ total = scor + 1', fixes[0].edits)).toBe('    $ total = score + 1');
+  });
+
+  it('creates a placeholder image definition', () => {
+    const fixes = getQuickFixes({ category: 'missing-image', message: 'Image "bg park" not found in assets or definitions', blockId: 'b1', line: 10 }, blocks, analysis);
+    expect(apply(fixes[0]).split('\n')[0]).toBe('image bg park = Placeholder("bg")');
+  });
+
+  it('removes an unused default', () => {
+    const fixes = getQuickFixes({ category: 'unused-variable', message: 'Variable "score" is defined but never referenced', blockId: 'b1', line: 2 }, blocks, analysis);
+    expect(fixes.map(f => f.title)).toEqual(["Remove unused default 'score'"]);
+    expect(apply(fixes[0]).split('\n').slice(0, 2)).toEqual(['define e = Character("Eileen")', 'label start:']);
+  });
+
+  it('adds a missing colon before a trailing comment', () => {
+    const fixes = getQuickFixes({ category: 'syntax', message: '`menu` is missing its colon. Did you mean `menu:`?', blockId: 'b1', line: 7 }, blocks, analysis);
+    expect(apply(fixes[0]).split('\n')[6]).toBe('    menu:');
+    const withComment = [{ id: 'c', content: 'label a  # note' }];
+    const commentFix = getQuickFixes({ category: 'syntax', message: 'Label `a` is missing its colon.', blockId: 'c', line: 1 }, withComment, analysis)[0];
+    expect(applyQuickFixEdits(withComment[0].content, commentFix.edits)).toBe('label a:  # note');
+  });
+
+  it('adds an as clause before the at clause of show expression', () => {
+    const fixes = getQuickFixes({ category: 'syntax', message: '`show expression` may need an `as <tag>` clause', blockId: 'b1', line: 6 }, blocks, analysis);
+    expect(fixes[0].title).toBe('Add `as eileen` clause');
+    expect(apply(fixes[0]).split('\n')[5]).toBe('    show expression "images/eileen happy.png" as eileen at left');
+  });
+
+  it('offers nothing for categories without fixes', () => {
+    expect(getQuickFixes({ category: 'unreachable-label', message: 'Label "x" is never reached', blockId: 'b1', line: 1 }, blocks, analysis)).toEqual([]);
+  });
+});
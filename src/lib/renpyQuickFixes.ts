@@ -0,0 +1,298 @@
+/**
+ * @file renpyQuickFixes.ts
+ * @description Quick fixes for diagnostics reported by `useDiagnostics` and
+ * `renpyValidator`: creating or correcting undefined labels, defining
+ * characters, correcting misspelled Python names and transforms, adding
+ * placeholder images, removing unused variables, adding a missing colon and
+ * adding an `as` clause to `show expression`.
+ * Fixes are plain text edits against block content so the same fix can be
+ * offered by the Monaco code action provider and by Diagnostics panel rows.
+ */
+
+import type { RenpyAnalysisResult } from '@/types';
+import { stripTrailingComment } from './renpyLogicalLines';
+import type { RenameSourceBlock } from './renpyRename';
+
+/** Subset of the analysis result used to build quick fixes. */
+export type QuickFixIndex = Pick<RenpyAnalysisResult, 'labels' | 'characters' | 'screens' | 'variables' | 'transforms'>;
+
+/** The parts of a diagnostic a fix needs (a `DiagnosticIssue` or an editor marker). */
+export interface QuickFixIssue {
+  category: string;
+  message: string;
+  blockId?: string;
+  line?: number;
+}
+
+export interface QuickFixTextEdit {
+  blockId: string;
+  /** 1-based, inclusive start position */
+  startLine: number;
+  startColumn: number;
+  /** 1-based, exclusive end position */
+  endLine: number;
+  endColumn: number;
+  text: string;
+}
+
+export interface QuickFix {
+  title: string;
+  edits: QuickFixTextEdit[];
+  /** A new script file to create, named `<name>.rpy` */
+  newFile?: { name: string; content: string };
+  isPreferred?: boolean;
+}
+
+const SUBJECT_RE = /["'`]([^"'`]+)["'`]/;
+const MISSING_COLON_RE = /is missing its (?:trailing )?colon/;
+const SHOW_EXPRESSION_RE = /^`show expression` may need an `as/;
+const CHARACTER_DEFINE_RE = /^\s*define\s+[\w.]+\s*=\s*Character\s*\(/;
+const IMAGE_DEFINE_RE = /^\s*image\s+[\w ]+=/;
+const SHOW_CLAUSE_RE = /\s(?:at|with|onlayer|zorder|behind)\b/;
+const MAX_SUGGESTIONS = 3;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Extracts the symbol a diagnostic is about — the first quoted name in its message.
+ *
+ * @param issue - Diagnostic issue or marker
+ * @returns The quoted name, or null if the message has none
+ */
+export function getIssueSubject(issue: QuickFixIssue): string | null {
+  return issue.message.match(SUBJECT_RE)?.[1] ?? null;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Finds the names closest to a misspelled one.
+ *
+ * @param name - The unknown name
+ * @param candidates - Known names
+ * @returns Up to three candidates within a third of the name's length, closest first
+ */
+export function findClosestNames(name: string, candidates: Iterable<string>): string[] {
+  const maxDistance = Math.max(1, Math.floor(name.length / 3));
+  const scored: { candidate: string; distance: number }[] = [];
+  for (const candidate of candidates) {
+    if (candidate === name) continue;
+    const distance = editDistance(name.toLowerCase(), candidate.toLowerCase());
+    if (distance <= maxDistance) scored.push({ candidate, distance });
+  }
+  return scored
+    .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(s => s.candidate);
+}
+
+/** Edit that inserts whole lines after `afterLine` (0 inserts at the top of the file). */
+function insertLinesEdit(block: RenameSourceBlock, afterLine: number, text: string): QuickFixTextEdit {
+  const lines = block.content.split('\n');
+  if (afterLine >= lines.length) {
+    const lastLine = lines.length;
+    const column = lines[lastLine - 1].length + 1;
+    const prefix = lines[lastLine - 1] === '' ? '' : '\n';
+    return { blockId: block.id, startLine: lastLine, startColumn: column, endLine: lastLine, endColumn: column, text: `${prefix}${text}\n` };
+  }
+  return { blockId: block.id, startLine: afterLine + 1, startColumn: 1, endLine: afterLine + 1, endColumn: 1, text: `${text}\n` };
+}
+
+/** Edit that appends a new top-level block at the end of a file, separated by a blank line. */
+function appendBlockEdit(block: RenameSourceBlock, text: string): QuickFixTextEdit {
+  const lines = block.content.split('\n');
+  const lastLine = lines.length;
+  const column = lines[lastLine - 1].length + 1;
+  const trimmed = block.content.replace(/\s+$/, '');
+  const separator = trimmed === '' ? '' : block.content.endsWith('\n\n') ? '' : block.content.endsWith('\n') ? '\n' : '\n\n';
+  return { blockId: block.id, startLine: lastLine, startColumn: column, endLine: lastLine, endColumn: column, text: `${separator}${text}\n` };
+}
+
+/** Edit that replaces the word `name` on a line, matched by `pattern` whose last group is the name. */
+function replaceOnLine(block: RenameSourceBlock, line: number, pattern: RegExp, replacement: string): QuickFixTextEdit | null {
+  const lineText = block.content.split('\n')[line - 1];
+  const match = lineText?.match(pattern);
+  if (!match || match.index === undefined) return null;
+  const name = match[match.length - 1];
+  const start = match.index + match[0].length - name.length;
+  return { blockId: block.id, startLine: line, startColumn: start + 1, endLine: line, endColumn: start + 1 + name.length, text: replacement };
+}
+
+function lastLineMatching(block: RenameSourceBlock, pattern: RegExp): number {
+  const lines = block.content.split('\n');
+  for (let i = lines.length - 1; i >= 0; i--) {
+    if (pattern.test(lines[i])) return i + 1;
+  }
+  return 0;
+}
+
+function suggestionFixes(
+  block: RenameSourceBlock,
+  line: number,
+  name: string,
+  candidates: Iterable<string>,
+  buildPattern: (name: string) => RegExp,
+): QuickFix[] {
+  const fixes: QuickFix[] = [];
+  for (const suggestion of findClosestNames(name, candidates)) {
+    const edit = replaceOnLine(block, line, buildPattern(name), suggestion);
+    if (edit) fixes.push({ title: `Did you mean '${suggestion}'?`, edits: [edit], isPreferred: fixes.length === 0 });
+  }
+  return fixes;
+}
+
+/** Derives an image tag for `show expression ... as <tag>` from the first string literal. */
+function deriveExpressionTag(lineText: string): string {
+  const literal = lineText.match(/"([^"]*)"|'([^']*)'/);
+  const path = literal ? (literal[1] ?? literal[2]) : '';
+  const base = path.split('/').pop()?.replace(/\.[^.]+$/, '').split(/\s+/)[0] ?? '';
+  const tag = base.replace(/\W/g, '_').replace(/^(\d)/, '_$1');
+  return tag || 'shown_image';
+}
+
+/**
+ * Builds the quick fixes available for a diagnostic.
+ *
+ * @param issue - Diagnostic issue or editor marker
+ * @param blocks - Blocks with their current (live editor) content
+ * @param index - Analysis result for the same blocks
+ * @returns Fixes in display order; empty if none apply
+ */
+export function getQuickFixes(issue: QuickFixIssue, blocks: RenameSourceBlock[], index: QuickFixIndex): QuickFix[] {
+  const block = blocks.find(b => b.id === issue.blockId);
+  const subject = getIssueSubject(issue);
+  const line = issue.line;
+  const lineText = block && line ? block.content.split('\n')[line - 1] : undefined;
+
+  switch (issue.category) {
+    case 'invalid-jump': {
+      if (!block || !subject) return [];
+      const labelBody = `label ${subject}:\n    return`;
+      const fixes = line
+        ? suggestionFixes(block, line, subject, Object.keys(index.labels), name => new RegExp(`\\b(?:jump|call)\\s+(${escapeRegExp(name)})\\b`))
+        : [];
+      fixes.push(
+        { title: `Create label '${subject}' in current file`, edits: [appendBlockEdit(block, labelBody)] },
+        { title: `Create label '${subject}' in new file`, edits: [], newFile: { name: subject, content: `${labelBody}\n` } },
+      );
+      return fixes;
+    }
+    case 'undefined-character': {
+      if (!block || !subject) return [];
+      const fixes = line
+        ? suggestionFixes(block, line, subject, index.characters.keys(), name => new RegExp(`^\\s*(${escapeRegExp(name)})\\b`))
+        : [];
+      // Keep character definitions together: after the last one in the file that already has some.
+      const home = blocks.find(b => b.id === index.characters.values().next().value?.definedInBlockId) ?? block;
+      const definition = `define ${subject} = Character("${subject}")`;
+      fixes.push({ title: `Define character '${subject}'`, edits: [insertLinesEdit(home, lastLineMatching(home, CHARACTER_DEFINE_RE), definition)] });
+      return fixes;
+    }
+    case 'undefined-screen': {
+      if (!block || !subject || !line) return [];
+      return suggestionFixes(block, line, subject, index.screens.keys(), name => new RegExp(`\\bscreen\\s+(${escapeRegExp(name)})\\b`));
+    }
+    case 'undefined-name': {
+      if (!block || !subject || !line) return [];
+      const names = [...index.variables.keys(), ...index.characters.keys()].filter(name => !name.includes('.'));
+      return suggestionFixes(block, line, subject, names, name => new RegExp(`(?<![\\w.])(${escapeRegExp(name)})\\b`));
+    }
+    case 'undefined-transform': {
+      if (!block || !subject || !line) return [];
+      return suggestionFixes(block, line, subject, index.transforms.keys(), name => new RegExp(`(?<![\\w.])(${escapeRegExp(name)})\\b`));
+    }
+    case 'missing-image': {
+      if (!block || !subject) return [];
+      const placeholder = subject.startsWith('bg ') ? 'Placeholder("bg")' : `Placeholder(text="${subject}")`;
+      return [{
+        title: `Create placeholder image definition for '${subject}'`,
+        edits: [insertLinesEdit(block, lastLineMatching(block, IMAGE_DEFINE_RE), `image ${subject} = ${placeholder}`)],
+      }];
+    }
+    case 'unused-variable': {
+      const variable = subject ? index.variables.get(subject) : undefined;
+      const home = blocks.find(b => b.id === variable?.definedInBlockId);
+      if (!variable || !home || (variable.type !== 'default' && variable.type !== 'define')) return [];
+      const lines = home.content.split('\n');
+      const edit: QuickFixTextEdit = variable.line < lines.length
+        ? { blockId: home.id, startLine: variable.line, startColumn: 1, endLine: variable.line + 1, endColumn: 1, text: '' }
+        : {
+            blockId: home.id,
+            startLine: Math.max(1, variable.line - 1),
+            startColumn: variable.line > 1 ? lines[variable.line - 2].length + 1 : 1,
+            endLine: variable.line,
+            endColumn: lines[variable.line - 1].length + 1,
+            text: '',
+          };
+      return [{ title: `Remove unused ${variable.type} '${variable.name}'`, edits: [edit] }];
+    }
+    case 'syntax': {
+      if (!block || !line || lineText === undefined) return [];
+      if (MISSING_COLON_RE.test(issue.message)) {
+        const column = stripTrailingComment(lineText).trimEnd().length + 1;
+        return [{
+          title: 'Add missing colon',
+          edits: [{ blockId: block.id, startLine: line, startColumn: column, endLine: line, endColumn: column, text: ':' }],
+          isPreferred: true,
+        }];
+      }
+      if (SHOW_EXPRESSION_RE.test(issue.message)) {
+        const code = stripTrailingComment(lineText).trimEnd();
+        const sanitized = code
+          .replace(/"[^"\\]*(?:\\.[^"\\]*)*"/g, m => ' '.repeat(m.length))
+          .replace(/'[^'\\]*(?:\\.[^'\\]*)*'/g, m => ' '.repeat(m.length));
+        const clause = sanitized.slice(sanitized.indexOf('expression')).search(SHOW_CLAUSE_RE);
+        const column = (clause === -1 ? code.length : sanitized.indexOf('expression') + clause) + 1;
+        const tag = deriveExpressionTag(code);
+        return [{
+          title: `Add \`as ${tag}\` clause`,
+          edits: [{ blockId: block.id, startLine: line, startColumn: column, endLine: line, endColumn: column, text: ` as ${tag}` }],
+        }];
+      }
+      return [];
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Applies text edits to a block's content.
+ *
+ * @param content - Original content
+ * @param edits - Non-overlapping edits for this content
+ * @returns The edited content
+ */
+export function applyQuickFixEdits(content: string, edits: QuickFixTextEdit[]): string {
+  const lines = content.split('\n');
+  const lineStarts: number[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    lineStarts.push(offset);
+    offset += line.length + 1;
+  }
+  const toOffset = (line: number, column: number) => Math.min(content.length, (lineStarts[line - 1] ?? content.length) + column - 1);
+
+  let result = content;
+  const sorted = [...edits].sort((a, b) => b.startLine - a.startLine || b.startColumn - a.startColumn);
+  for (const edit of sorted) {
+    result = result.slice(0, toOffset(edit.startLine, edit.startColumn)) + edit.text + result.slice(toOffset(edit.endLine, edit.endColumn));
+  }
+  return result;
+}
@@ -0,0 +1,103 @@
+import { findReferenceTargetAt, findSymbolReferences, groupReferencesByFile } from './renpyReferences';
+import { performRenpyAnalysis } from '@/hooks/useRenpyAnalysis';
+
+const blocks = [
+  {
+    id: 'b1',
+    filePath: 'game/script.rpy',
+    content: [
+      'define e = Character("Eileen")',
+      'default score = 0',
+      'image eileen happy = "eileen_happy.png"',
+      'label start:',
+      '    scene bg park',
+      '    show eileen happy at left',
+      '    e "Hello!"',
+      '    $ score += 1',
+      '    call screen inventory',
+      '    jump chapter2',
+    ].join('\n'),
+  },
+  {
+    id: 'b2',
+    filePath: 'game/chapter2.rpy',
+    content: [
+      'label chapter2:',
+      '    e "You scored [score]."',
+      '    hide eileen',
+      '    if score > 0:',
+      '        jump chapter2',
+      'screen inventory():',
+      '    text "Bag"',
+    ].join('\n'),
+  },
+];
+
+const analysis = performRenpyAnalysis(blocks);
+
+describe('findReferenceTargetAt', () => {
+  it('resolves image specifiers in show statements', () => {
+    expect(findReferenceTargetAt('    show eileen happy at left', 12, analysis)).toEqual({ kind: 'image', name: 'eileen happy' });
+  });
+
+  it('defers to symbol lookup outside image statements', () => {
+    expect(findReferenceTargetAt('    jump chapter2', 12, analysis)).toEqual({ kind: 'label', name: 'chapter2' });
+    expect(findReferenceTargetAt('    show eileen happy at left', 28, analysis)).toBeNull();
+  });
+});
+
+describe('findSymbolReferences', () => {
+  it('lists the label definition and every jump', () => {
+    const refs = findSymbolReferences(blocks, analysis, { kind: 'label', name: 'chapter2' });
+    expect(refs.map(r => [r.blockId, r.lineNumber, r.isDefinition])).toEqual([
+      ['b1', 10, false],
+      ['b2', 1, true],
+      ['b2', 5, false],
+    ]);
+    expect(refs[0]).toMatchObject({ startColumn: 10, endColumn: 18, lineContent: '    jump chapter2' });
+  });
+
+  it('lists character definition and dialogue lines', () => {
+    const refs = findSymbolReferences(blocks, analysis, { kind: 'character', name: 'e' });
+    expect(refs.map(r => [r.blockId, r.lineNumber, r.isDefinition])).toEqual([
+      ['b1', 1, true],
+      ['b1', 7, false],
+      ['b2', 2, false],
+    ]);
+  });
+
+  it('lists variable definition and usages', () => {
+    const refs = findSymbolReferences(blocks, analysis, { kind: 'variable', name: 'score' });
+    expect(refs.map(r => [r.blockId, r.lineNumber])).toEqual([['b1', 2], ['b1', 8], ['b2', 4]]);
+    expect(refs[0].isDefinition).toBe(true);
+  });
+
+  it('lists screen definition and call screen statements', () => {
+    const refs = findSymbolReferences(blocks, analysis, { kind: 'screen', name: 'inventory' });
+    expect(refs.map(r => [r.blockId, r.lineNumber, r.isDefinition])).toEqual([
+      ['b1', 9, false],
+      ['b2', 6, true],
+    ]);
+    expect(refs[0]).toMatchObject({ startColumn: 17, endColumn: 26 });
+  });
+
+  it('lists image definition, show statements and tag-only hides', () => {
+    const refs = findSymbolReferences(blocks, analysis, { kind: 'image', name: 'eileen happy' });
+    expect(refs.map(r => [r.blockId, r.lineNumber, r.isDefinition])).toEqual([
+      ['b1', 3, true],
+      ['b1', 6, false],
+      ['b2', 3, false],
+    ]);
+  });
+});
+
+describe('groupReferencesByFile', () => {
+  it('groups references by block in order', () => {
+    const refs = findSymbolReferences(blocks, analysis, { kind: 'label', name: 'chapter2' });
+    const groups = groupReferencesByFile(refs);
+    expect(groups.map(g => [g.filePath, g.references.length])).toEqual([
+      ['game/script.rpy', 1],
+      ['game/chapter2.rpy', 2],
+    ]);
+  });
+});
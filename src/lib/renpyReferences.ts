@@ -0,0 +1,244 @@
+/**
+ * @file renpyReferences.ts
+ * @description "Find All References" support for Ren'Py code.
+ * Resolves the symbol under the cursor (label, character, variable, screen or
+ * image) and collects its definition and every reference across the project.
+ * Labels, characters and variables are read from the analysis result
+ * (`jumps`, `dialogueLines`, `variableUsages`); screens and images are located
+ * by scanning `call/show screen`, `use` and `scene`/`show` statements.
+ */
+
+import type { RenpyAnalysisResult, SearchMatch } from '@/types';
+import { getTripleQuotedLineMask } from './renpyTripleQuotes';
+import { findRenameTargetAt, findSymbolOccurrences } from './renpyRename';
+import type { RenameSymbolKind, RenameSourceBlock } from './renpyRename';
+
+export type ReferenceSymbolKind = RenameSymbolKind | 'image';
+
+export interface ReferenceTarget {
+  kind: ReferenceSymbolKind;
+  name: string;
+}
+
+/** Subset of the analysis result used to resolve references. */
+export type ReferenceIndex = Pick<
+  RenpyAnalysisResult,
+  'labels' | 'jumps' | 'characters' | 'dialogueLines' | 'variables' | 'variableUsages' | 'screens'
+>;
+
+export interface SymbolReference extends SearchMatch {
+  blockId: string;
+  filePath?: string;
+  isDefinition: boolean;
+}
+
+export interface SymbolReferenceGroup {
+  blockId: string;
+  filePath: string;
+  references: SymbolReference[];
+}
+
+const IMAGE_STATEMENT_RE = /^(\s*(?:show|hide|scene)\s+)(?!screen\b|expression\b)([A-Za-z0-9_][A-Za-z0-9_ ]*?)(?=\s+(?:at|with|as|behind|onlayer|zorder)\b|\s*[:#]|\s*$)/;
+const IMAGE_DEFINITION_RE = /^(\s*image\s+)([A-Za-z0-9_][A-Za-z0-9_ ]*?)\s*[=:]/;
+
+function normalizeImageName(name: string): string {
+  return name.trim().split(/\s+/).join(' ');
+}
+
+/**
+ * Checks whether an image specifier in a `show`/`scene`/`hide` statement
+ * refers to the target image. A bare tag (`hide eileen`) matches every image
+ * with that tag, and a full name matches statements using just its tag.
+ */
+function imageSpecifierMatches(specifier: string, imageName: string): boolean {
+  if (specifier === imageName) return true;
+  const specifierTag = specifier.split(' ')[0];
+  const imageTag = imageName.split(' ')[0];
+  if (!imageName.includes(' ')) return specifierTag === imageName;
+  return specifier === imageTag;
+}
+
+/**
+ * Finds the 1-based column span of a word on a line, searching from `fromIndex`.
+ * Falls back to the first occurrence anywhere on the line.
+ */
+function locateWord(lineText: string, name: string, fromIndex = 0): { startColumn: number; endColumn: number } {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(`(?<![\\w.])${escaped}(?!\\w)`, 'g');
+  pattern.lastIndex = fromIndex;
+  let match = pattern.exec(lineText);
+  if (!match && fromIndex > 0) {
+    pattern.lastIndex = 0;
+    match = pattern.exec(lineText);
+  }
+  const start = match ? match.index : Math.max(0, lineText.indexOf(name));
+  return { startColumn: start + 1, endColumn: start + 1 + name.length };
+}
+
+/**
+ * Resolves the symbol at a cursor position for a reference search.
+ * Image specifiers in `show`/`scene`/`hide`/`image` statements resolve to
+ * images; everything else defers to {@link findRenameTargetAt}.
+ *
+ * @param lineText - Full text of the line under the cursor
+ * @param column - 1-based cursor column (Monaco convention)
+ * @param index - Analysis data used to check the symbol exists
+ * @returns The symbol to search for, or null if the cursor is not on a known symbol
+ */
+export function findReferenceTargetAt(
+  lineText: string,
+  column: number,
+  index: ReferenceIndex,
+): ReferenceTarget | null {
+  const imageMatch = lineText.match(IMAGE_STATEMENT_RE) ?? lineText.match(IMAGE_DEFINITION_RE);
+  if (imageMatch) {
+    const start = imageMatch[1].length + 1;
+    const end = start + imageMatch[2].length;
+    if (column >= start && column <= end) {
+      return { kind: 'image', name: normalizeImageName(imageMatch[2]) };
+    }
+  }
+  return findRenameTargetAt(lineText, column, index);
+}
+
+/**
+ * Collects the definition and all references of a symbol.
+ *
+ * @param blocks - Blocks with their current content
+ * @param index - Analysis result for the same blocks
+ * @param target - The symbol to look up
+ * @returns References sorted by block order, then line and column
+ */
+export function findSymbolReferences(
+  blocks: RenameSourceBlock[],
+  index: ReferenceIndex,
+  target: ReferenceTarget,
+): SymbolReference[] {
+  const blockById = new Map(blocks.map(block => [block.id, block]));
+  const linesCache = new Map<string, string[]>();
+  const getLines = (blockId: string) => {
+    let lines = linesCache.get(blockId);
+    if (!lines) {
+      lines = blockById.get(blockId)?.content.split('\n') ?? [];
+      linesCache.set(blockId, lines);
+    }
+    return lines;
+  };
+
+  const references: SymbolReference[] = [];
+  const seen = new Set<string>();
+  const push = (
+    blockId: string,
+    line: number,
+    isDefinition: boolean,
+    fromIndex = 0,
+    span?: { startColumn: number; endColumn: number },
+  ) => {
+    const block = blockById.get(blockId);
+    const lineContent = getLines(blockId)[line - 1];
+    if (!block || lineContent === undefined) return;
+    const key = `${blockId}:${line}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    references.push({
+      blockId,
+      filePath: block.filePath,
+      lineNumber: line,
+      lineContent,
+      ...(span ?? locateWord(lineContent, target.name, fromIndex)),
+      isDefinition,
+    });
+  };
+
+  switch (target.kind) {
+    case 'label': {
+      const definition = index.labels[target.name];
+      if (definition) push(definition.blockId, definition.line, true);
+      for (const [blockId, jumps] of Object.entries(index.jumps)) {
+        for (const jump of jumps) {
+          if (jump.target === target.name) push(blockId, jump.line, false, jump.columnStart);
+        }
+      }
+      break;
+    }
+    case 'character': {
+      const character = index.characters.get(target.name);
+      if (character) {
+        const definePattern = new RegExp(`^\\s*(?:define|default)\\s+${target.name}\\s*=`);
+        const lineIndex = getLines(character.definedInBlockId).findIndex(line => definePattern.test(line));
+        if (lineIndex !== -1) push(character.definedInBlockId, lineIndex + 1, true);
+      }
+      index.dialogueLines.forEach((dialogues, blockId) => {
+        for (const dialogue of dialogues) {
+          if (dialogue.tag === target.name) push(blockId, dialogue.line, false);
+        }
+      });
+      break;
+    }
+    case 'variable': {
+      const variable = index.variables.get(target.name);
+      if (variable) push(variable.definedInBlockId, variable.line, true);
+      for (const usage of index.variableUsages.get(target.name) ?? []) {
+        push(usage.blockId, usage.line, false);
+      }
+      break;
+    }
+    case 'screen': {
+      const screen = index.screens.get(target.name);
+      if (screen) push(screen.definedInBlockId, screen.line, true);
+      for (const block of blocks) {
+        for (const occurrence of findSymbolOccurrences(block.content, { kind: 'screen', name: target.name })) {
+          const { startColumn, endColumn } = occurrence;
+          push(block.id, occurrence.line, false, 0, { startColumn, endColumn });
+        }
+      }
+      break;
+    }
+    case 'image': {
+      for (const block of blocks) {
+        const lines = getLines(block.id);
+        const tripleQuotedLineMask = getTripleQuotedLineMask(block.content);
+        lines.forEach((line, i) => {
+          if (tripleQuotedLineMask[i]) return;
+          const definition = line.match(IMAGE_DEFINITION_RE);
+          if (definition && normalizeImageName(definition[2]) === target.name) {
+            const startColumn = definition[1].length + 1;
+            push(block.id, i + 1, true, 0, { startColumn, endColumn: startColumn + definition[2].length });
+            return;
+          }
+          const statement = line.match(IMAGE_STATEMENT_RE);
+          if (statement && imageSpecifierMatches(normalizeImageName(statement[2]), target.name)) {
+            const startColumn = statement[1].length + 1;
+            push(block.id, i + 1, false, 0, { startColumn, endColumn: startColumn + statement[2].length });
+          }
+        });
+      }
+      break;
+    }
+  }
+
+  const blockOrder = new Map(blocks.map((block, i) => [block.id, i]));
+  return references.sort((a, b) =>
+    (blockOrder.get(a.blockId)! - blockOrder.get(b.blockId)!)
+    || (a.lineNumber - b.lineNumber)
+    || (a.startColumn - b.startColumn));
+}
+
+/**
+ * Groups references by file for display, preserving reference order.
+ *
+ * @param references - References from {@link findSymbolReferences}
+ * @returns One group per file
+ */
+export function groupReferencesByFile(references: SymbolReference[]): SymbolReferenceGroup[] {
+  const groups = new Map<string, SymbolReferenceGroup>();
+  for (const reference of references) {
+    let group = groups.get(reference.blockId);
+    if (!group) {
+      group = { blockId: reference.blockId, filePath: reference.filePath ?? reference.blockId, references: [] };
+      groups.set(reference.blockId, group);
+    }
+    group.references.push(reference);
+  }
+  return [...groups.values()];
+}
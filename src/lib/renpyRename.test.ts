@@ -0,0 +1,153 @@
+import { findRenameTargetAt, validateRenameName, computeRenameEdits } from './renpyRename';
+import type { RenameSymbolIndex, RenameSourceBlock } from './renpyRename';
+import type { Character, RenpyScreen, Variable } from '@/types';
+
+const index: RenameSymbolIndex = {
+  labels: {
+    start: { blockId: 'b1', label: 'start', line: 1, column: 1, type: 'label' },
+    chapter2: { blockId: 'b2', label: 'chapter2', line: 1, column: 1, type: 'label' },
+  },
+  characters: new Map<string, Character>([
+    ['e', { name: 'Eileen', tag: 'e', color: '#ff0000', definedInBlockId: 'b0' }],
+  ]),
+  variables: new Map<string, Variable>([
+    ['score', { name: 'score', type: 'default', initialValue: '0', definedInBlockId: 'b0', line: 2 }],
+    ['persistent.seen', { name: 'persistent.seen', type: 'default', initialValue: 'False', definedInBlockId: 'b0', line: 3 }],
+  ]),
+  screens: new Map<string, RenpyScreen>([
+    ['inventory', { name: 'inventory', parameters: '', definedInBlockId: 'b3', line: 1 }],
+  ]),
+};
+
+function renameAll(blocks: RenameSourceBlock[], kind: 'label' | 'character' | 'screen' | 'variable', name: string, newName: string) {
+  return computeRenameEdits(blocks, { kind, name }, newName);
+}
+
+// ── findRenameTargetAt ────────────────────────────────────────────────────
+
+describe('findRenameTargetAt', () => {
+  it('resolves a jump target as a label', () => {
+    expect(findRenameTargetAt('    jump chapter2', 12, index)).toEqual({ kind: 'label', name: 'chapter2' });
+  });
+
+  it('resolves the cursor at the end of a word', () => {
+    expect(findRenameTargetAt('    jump chapter2', 18, index)).toEqual({ kind: 'label', name: 'chapter2' });
+  });
+
+  it('resolves a dialogue speaker as a character', () => {
+    expect(findRenameTargetAt('    e "Hello"', 5, index)).toEqual({ kind: 'character', name: 'e' });
+  });
+
+  it('resolves screen statements as screens', () => {
+    expect(findRenameTargetAt('    call screen inventory', 20, index)).toEqual({ kind: 'screen', name: 'inventory' });
+    expect(findRenameTargetAt('screen inventory():', 10, index)).toEqual({ kind: 'screen', name: 'inventory' });
+  });
+
+  it('prefers a dotted variable name', () => {
+    expect(findRenameTargetAt('    $ persistent.seen = True', 19, index)).toEqual({ kind: 'variable', name: 'persistent.seen' });
+  });
+
+  it('returns null for unknown words and jump targets that do not exist', () => {
+    expect(findRenameTargetAt('    $ unknown = 1', 8, index)).toBeNull();
+    expect(findRenameTargetAt('    jump missing', 12, index)).toBeNull();
+  });
+});
+
+// ── validateRenameName ────────────────────────────────────────────────────
+
+describe('validateRenameName', () => {
+  it('accepts a fresh identifier', () => {
+    expect(validateRenameName({ kind: 'label', name: 'start' }, 'prologue', index)).toBeNull();
+  });
+
+  it('rejects invalid identifiers and reserved words', () => {
+    expect(validateRenameName({ kind: 'label', name: 'start' }, '2start', index)).toContain('must start');
+    expect(validateRenameName({ kind: 'label', name: 'start' }, 'my.label', index)).toContain('must start');
+    expect(validateRenameName({ kind: 'variable', name: 'score' }, 'return', index)).toContain('reserved');
+  });
+
+  it('allows dotted names for variables only', () => {
+    expect(validateRenameName({ kind: 'variable', name: 'score' }, 'persistent.score', index)).toBeNull();
+  });
+
+  it('rejects collisions in the same namespace', () => {
+    expect(validateRenameName({ kind: 'label', name: 'start' }, 'chapter2', index)).toContain('already exists');
+    expect(validateRenameName({ kind: 'variable', name: 'score' }, 'e', index)).toContain('character');
+    expect(validateRenameName({ kind: 'screen', name: 'inventory' }, 'chapter2', index)).toBeNull();
+  });
+
+  it('rejects reserved underscore label names', () => {
+    expect(validateRenameName({ kind: 'label', name: 'start' }, '_secret', index)).toContain('reserved');
+  });
+});
+
+// ── computeRenameEdits ────────────────────────────────────────────────────
+
+describe('computeRenameEdits', () => {
+  it('renames label definitions and every jump/call form', () => {
+    const blocks = [
+      { id: 'b1', content: 'label start:\n    jump chapter2\n    call chapter2 from _c1\n    jump expression "chapter2"' },
+      { id: 'b2', content: 'label chapter2:\n    if renpy.has_label("chapter2"):\n        textbutton "Go" action Jump(\'chapter2\')' },
+    ];
+    const edits = renameAll(blocks, 'label', 'chapter2', 'act2');
+    expect(edits).toHaveLength(2);
+    expect(edits[0].newContent).toBe('label start:\n    jump act2\n    call act2 from _c1\n    jump expression "act2"');
+    expect(edits[1].newContent).toBe('label act2:\n    if renpy.has_label("act2"):\n        textbutton "Go" action Jump(\'act2\')');
+    expect(edits[0].changes.map(c => c.line)).toEqual([2, 3, 4]);
+  });
+
+  it('leaves dialogue text and comments untouched', () => {
+    const blocks = [{ id: 'b1', content: 'label start:\n    e "Let\'s jump chapter2 now."  # jump chapter2\n    jump chapter2' }];
+    const edits = renameAll(blocks, 'label', 'chapter2', 'act2');
+    expect(edits[0].changes).toEqual([{ line: 3, before: '    jump chapter2', after: '    jump act2' }]);
+  });
+
+  it('skips triple-quoted strings', () => {
+    const blocks = [{ id: 'b1', content: '"""\njump chapter2\n"""\njump chapter2' }];
+    expect(renameAll(blocks, 'label', 'chapter2', 'act2')[0].newContent).toBe('"""\njump chapter2\n"""\njump act2');
+  });
+
+  it('renames character definitions and dialogue speakers but not image tags', () => {
+    const blocks = [{
+      id: 'b1',
+      content: 'define e = Character("Eileen")\nlabel start:\n    show e happy\n    e happy "Hi, e."\n    $ renpy.say(e, "Bye")',
+    }];
+    const edits = renameAll(blocks, 'character', 'e', 'eileen');
+    expect(edits[0].newContent).toBe(
+      'define eileen = Character("Eileen")\nlabel start:\n    show e happy\n    eileen happy "Hi, e."\n    $ renpy.say(eileen, "Bye")',
+    );
+  });
+
+  it('renames variables in code, interpolation and screen actions', () => {
+    const blocks = [{
+      id: 'b1',
+      content: 'default score = 0\nlabel start:\n    $ score += 1\n    "You have [score] points, score fans."\n    if score > 2:\n        $ x.score = 1\n    textbutton "Reset" action SetVariable("score", 0)',
+    }];
+    const edits = renameAll(blocks, 'variable', 'score', 'points');
+    expect(edits[0].newContent).toBe(
+      'default points = 0\nlabel start:\n    $ points += 1\n    "You have [points] points, score fans."\n    if points > 2:\n        $ x.score = 1\n    textbutton "Reset" action SetVariable("points", 0)',
+    );
+  });
+
+  it('does not treat labels or screens named like a variable as references', () => {
+    const blocks = [{ id: 'b1', content: 'label score:\n    jump score\n    call screen score\n    $ score = 1' }];
+    const edits = renameAll(blocks, 'variable', 'score', 'points');
+    expect(edits[0].changes).toEqual([{ line: 4, before: '    $ score = 1', after: '    $ points = 1' }]);
+  });
+
+  it('renames screen definitions, statements and screen actions', () => {
+    const blocks = [{
+      id: 'b1',
+      content: 'screen inventory():\n    text "inventory"\nscreen hud():\n    use inventory\nlabel start:\n    call screen inventory\n    $ renpy.show_screen("inventory")\n    textbutton "Bag" action Show("inventory")',
+    }];
+    const edits = renameAll(blocks, 'screen', 'inventory', 'bag');
+    expect(edits[0].newContent).toBe(
+      'screen bag():\n    text "inventory"\nscreen hud():\n    use bag\nlabel start:\n    call screen bag\n    $ renpy.show_screen("bag")\n    textbutton "Bag" action Show("bag")',
+    );
+  });
+
+  it('omits blocks without occurrences', () => {
+    const blocks = [{ id: 'b1', content: 'label start:\n    return' }];
+    expect(renameAll(blocks, 'label', 'chapter2', 'act2')).toEqual([]);
+  });
+});
@@ -0,0 +1,444 @@
+/**
+ * @file renpyRename.ts
+ * @description Project-wide "Rename Symbol" support for Ren'Py code.
+ * Resolves the symbol under the cursor against the analysis result (labels,
+ * characters, screens, variables), validates a proposed new name and computes
+ * the per-file rewrites for every definition and reference. Only code positions
+ * and the specific string contexts that name a symbol (e.g. `Jump("x")`,
+ * `[x]` interpolation) are rewritten, so dialogue text is left alone.
+ */
+
+import type { RenpyAnalysisResult } from '@/types';
+import { getTripleQuotedLineMask } from './renpyTripleQuotes';
+import { isReservedRenpyName } from './renpyNames';
+
+export type RenameSymbolKind = 'label' | 'character' | 'screen' | 'variable';
+
+export interface RenameSymbolTarget {
+  kind: RenameSymbolKind;
+  name: string;
+}
+
+/** Subset of the analysis result used to resolve and validate symbols. */
+export type RenameSymbolIndex = Pick<RenpyAnalysisResult, 'labels' | 'characters' | 'variables' | 'screens'>;
+
+export interface RenameSourceBlock {
+  id: string;
+  content: string;
+  filePath?: string;
+  title?: string;
+}
+
+export interface RenameLineChange {
+  /** 1-based line number */
+  line: number;
+  before: string;
+  after: string;
+}
+
+export interface SymbolOccurrence {
+  /** 1-based line number */
+  line: number;
+  /** 1-based start column */
+  startColumn: number;
+  /** 1-based end column (exclusive) */
+  endColumn: number;
+}
+
+export interface RenameFileEdit {
+  blockId: string;
+  filePath?: string;
+  title?: string;
+  newContent: string;
+  changes: RenameLineChange[];
+}
+
+// Python keywords plus the Ren'Py statement words that cannot name a symbol.
+const RESERVED_WORDS = new Set([
+  'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class',
+  'continue', 'def', 'del', 'elif', 'else', 'except', 'finally', 'for', 'from', 'global',
+  'if', 'import', 'in', 'is', 'lambda', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return',
+  'try', 'while', 'with', 'yield',
+  'at', 'behind', 'call', 'camera', 'default', 'define', 'expression', 'extend', 'hide',
+  'image', 'init', 'jump', 'label', 'menu', 'onlayer', 'pause', 'play', 'python', 'queue',
+  'scene', 'screen', 'show', 'stop', 'style', 'transform', 'translate', 'use', 'voice',
+  'window', 'zorder',
+]);
+
+const IDENTIFIER_RE = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const DOTTED_IDENTIFIER_RE = /^[A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z_][A-Za-z0-9_]*)*$/;
+
+const LABEL_STRING_CALLS = 'Jump|Call|Replay|renpy\\.jump|renpy\\.call|renpy\\.has_label|renpy\\.seen_label|renpy\\.call_in_new_context';
+const SCREEN_STRING_CALLS = 'Show|Hide|ShowMenu|ToggleScreen|ShowTransient|renpy\\.show_screen|renpy\\.hide_screen|renpy\\.call_screen|renpy\\.get_screen';
+const VARIABLE_STRING_CALLS = 'SetVariable|ToggleVariable';
+
+// Statements whose first operand names a label/screen rather than a Python value.
+const NAMED_STATEMENT_RE = /^(\s*)(label|menu|jump|call|screen|use)\s+(?!expression\b)([A-Za-z_][A-Za-z0-9_.]*)/;
+const SCREEN_STATEMENT_RE = /\b(?:call|show|hide)\s+screen\s+([A-Za-z_][A-Za-z0-9_]*)/g;
+// `show`/`hide`/`scene` take an image specifier up to the first clause keyword.
+const IMAGE_STATEMENT_RE = /^(\s*)(show|hide|scene)\s+(?!screen\b|expression\b)/;
+const IMAGE_CLAUSE_RE = /\s(?:at|with|as|behind|onlayer|zorder)\b|:/;
+const IMAGE_DEFINITION_RE = /^(\s*)image\s+[^=:]*/;
+// `e happy "Hello"` — attribute words between the speaker and the dialogue string.
+const DIALOGUE_ATTRIBUTES_RE = /^(\s*)([A-Za-z_][A-Za-z0-9_]*)((?:\s+-?[A-Za-z_][A-Za-z0-9_]*)+)\s*["']/;
+
+type CharClass = 0 | 1 | 2; // 0 = code, 1 = string, 2 = comment
+
+/**
+ * Classifies every character of a line as code, string literal or comment.
+ * Quote characters themselves count as part of the string.
+ *
+ * @param line - A single line of Ren'Py code
+ * @returns Array of character classes, one per character of `line`
+ *
+ * @complexity O(n) time and space where n = line length
+ */
+function classifyLine(line: string): CharClass[] {
+  const classes = new Array<CharClass>(line.length).fill(0);
+  let quote: '"' | "'" | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quote) {
+      classes[i] = 1;
+      if (ch === '\\') {
+        if (i + 1 < line.length) classes[++i] = 1;
+        continue;
+      }
+      if (ch === quote) quote = null;
+      continue;
+    }
+    if (ch === '#') {
+      classes.fill(2, i);
+      break;
+    }
+    if (ch === '"' || ch === "'") {
+      quote = ch;
+      classes[i] = 1;
+    }
+  }
+  return classes;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+interface RenameRule {
+  pattern: RegExp;
+  /**
+   * `code` — the name must sit in code.
+   * `string-literal` — the name must be the entire start of a string literal
+   * whose opening quote sits in code.
+   * `interpolation` — the name may sit anywhere inside a string.
+   */
+  where: 'code' | 'string-literal' | 'interpolation';
+  /** Skip matches inside the line's excluded ranges (label/image operands). */
+  respectExclusions?: boolean;
+}
+
+/**
+ * Builds the match rules for a symbol. Every pattern matches exactly the
+ * symbol name (context is expressed with lookarounds), so a match's index and
+ * length identify the span to replace.
+ */
+function buildRules(target: RenameSymbolTarget): RenameRule[] {
+  const name = escapeRegExp(target.name);
+  switch (target.kind) {
+    case 'label':
+      return [
+        { pattern: new RegExp(`(?<=^\\s*(?:label|menu)\\s+)${name}(?![\\w.])`, 'g'), where: 'code' },
+        { pattern: new RegExp(`(?<=\\b(?:jump|call)\\s+)${name}(?![\\w.])`, 'g'), where: 'code' },
+        { pattern: new RegExp(`(?<=\\b(?:jump|call)\\s+expression\\s+["'])${name}(?=["'])`, 'g'), where: 'string-literal' },
+        { pattern: new RegExp(`(?<=\\b(?:${LABEL_STRING_CALLS})\\(\\s*["'])${name}(?=["'])`, 'g'), where: 'string-literal' },
+      ];
+    case 'screen':
+      return [
+        { pattern: new RegExp(`(?<=^\\s*(?:screen|use)\\s+)${name}(?!\\w)`, 'g'), where: 'code' },
+        { pattern: new RegExp(`(?<=\\b(?:call|show|hide)\\s+screen\\s+)${name}(?!\\w)`, 'g'), where: 'code' },
+        { pattern: new RegExp(`(?<=\\b(?:${SCREEN_STRING_CALLS})\\(\\s*["'])${name}(?=["'])`, 'g'), where: 'string-literal' },
+      ];
+    case 'character':
+    case 'variable':
+      return [
+        { pattern: new RegExp(`(?<![\\w.])${name}(?!\\w)`, 'g'), where: 'code', respectExclusions: true },
+        { pattern: new RegExp(`(?<=\\[)${name}(?=[\\].!:\\[])`, 'g'), where: 'interpolation' },
+        { pattern: new RegExp(`(?<=\\b(?:${VARIABLE_STRING_CALLS})\\(\\s*["'])${name}(?=["'])`, 'g'), where: 'string-literal' },
+      ];
+  }
+}
+
+/**
+ * Computes the character ranges of a line that hold label, screen or image
+ * names rather than Python expressions. Value-like symbols (characters and
+ * variables) are never renamed inside these ranges.
+ *
+ * @param line - A single line of Ren'Py code
+ * @param classes - Character classes from {@link classifyLine}
+ * @returns Array of `[start, end)` ranges
+ */
+function getExcludedRanges(line: string, classes: CharClass[]): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+
+  const named = line.match(NAMED_STATEMENT_RE);
+  if (named) {
+    const start = named[0].length - named[3].length;
+    ranges.push([start, named[0].length]);
+  }
+
+  for (const match of line.matchAll(SCREEN_STATEMENT_RE)) {
+    const end = match.index! + match[0].length;
+    ranges.push([end - match[1].length, end]);
+  }
+
+  const image = line.match(IMAGE_STATEMENT_RE);
+  if (image) {
+    const start = image[0].length;
+    const clause = line.slice(start).search(IMAGE_CLAUSE_RE);
+    let end = clause === -1 ? line.length : start + clause;
+    const commentStart = classes.indexOf(2);
+    if (commentStart !== -1) end = Math.min(end, commentStart);
+    ranges.push([start, end]);
+  }
+
+  const imageDef = line.match(IMAGE_DEFINITION_RE);
+  if (imageDef) ranges.push([0, imageDef[0].length]);
+
+  const dialogue = line.match(DIALOGUE_ATTRIBUTES_RE);
+  if (dialogue && !RESERVED_WORDS.has(dialogue[2])) {
+    const start = dialogue[1].length + dialogue[2].length;
+    ranges.push([start, start + dialogue[3].length]);
+  }
+
+  return ranges;
+}
+
+/**
+ * Finds the spans of every occurrence of the target symbol on a single line.
+ *
+ * @returns Non-overlapping `[start, end)` character ranges, in no particular order
+ */
+function findSpansInLine(line: string, rules: RenameRule[]): Array<[number, number]> {
+  const classes = classifyLine(line);
+  let exclusions: Array<[number, number]> | null = null;
+  const spans: Array<[number, number]> = [];
+
+  for (const rule of rules) {
+    rule.pattern.lastIndex = 0;
+    for (const match of line.matchAll(rule.pattern)) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      if (rule.where === 'code') {
+        if (classes[start] !== 0) continue;
+        if (rule.respectExclusions) {
+          exclusions ??= getExcludedRanges(line, classes);
+          if (exclusions.some(([s, e]) => start >= s && start < e)) continue;
+        }
+      } else if (rule.where === 'string-literal') {
+        if (classes[start] !== 1 || start < 2 || classes[start - 2] !== 0) continue;
+      } else if (classes[start] !== 1) {
+        continue;
+      }
+      if (!spans.some(([s, e]) => start < e && end > s)) spans.push([start, end]);
+    }
+  }
+
+  return spans;
+}
+
+/**
+ * Rewrites every occurrence of the target symbol on a single line.
+ *
+ * @returns The rewritten line (identical to the input when nothing matched)
+ */
+function renameInLine(line: string, rules: RenameRule[], newName: string): string {
+  const spans = findSpansInLine(line, rules);
+  if (spans.length === 0) return line;
+  spans.sort((a, b) => b[0] - a[0]);
+  let result = line;
+  for (const [start, end] of spans) {
+    result = result.slice(0, start) + newName + result.slice(end);
+  }
+  return result;
+}
+
+/**
+ * Resolves the renameable symbol at a cursor position.
+ *
+ * Statement context wins over name lookup: the word after `jump`/`call`/`label`
+ * is always a label and the word after `screen`/`use` is always a screen, even
+ * when a variable of the same name exists. Otherwise the word is looked up as a
+ * character, variable, label and finally screen.
+ *
+ * @param lineText - Full text of the line under the cursor
+ * @param column - 1-based cursor column (Monaco convention)
+ * @param index - Analysis data used to check the symbol exists
+ * @returns The symbol to rename, or null if the cursor is not on a known symbol
+ *
+ * @example
+ * ```typescript
+ * findRenameTargetAt('    jump chapter2', 12, analysis)
+ * // → { kind: 'label', name: 'chapter2' }
+ * ```
+ */
+export function findRenameTargetAt(
+  lineText: string,
+  column: number,
+  index: RenameSymbolIndex,
+): RenameSymbolTarget | null {
+  const offset = column - 1;
+  const isWordChar = (ch: string | undefined) => !!ch && /[A-Za-z0-9_]/.test(ch);
+  const isDottedChar = (ch: string | undefined) => !!ch && /[A-Za-z0-9_.]/.test(ch);
+
+  let start = offset;
+  let end = offset;
+  if (!isWordChar(lineText[start]) && isWordChar(lineText[start - 1])) {
+    start--;
+    end--;
+  }
+  if (!isWordChar(lineText[start])) return null;
+  while (isWordChar(lineText[start - 1])) start--;
+  while (isWordChar(lineText[end])) end++;
+  const word = lineText.slice(start, end);
+  if (/^\d/.test(word)) return null;
+
+  let dottedStart = start;
+  let dottedEnd = end;
+  while (isDottedChar(lineText[dottedStart - 1])) dottedStart--;
+  while (isDottedChar(lineText[dottedEnd])) dottedEnd++;
+  const dotted = lineText.slice(dottedStart, dottedEnd).replace(/^\.+|\.+$/g, '');
+
+  const before = lineText.slice(0, start);
+  if (/(?:^\s*(?:label|menu)|\b(?:jump|call))\s+$/.test(before)
+    || /\b(?:jump|call)\s+expression\s+["']$/.test(before)
+    || new RegExp(`\\b(?:${LABEL_STRING_CALLS})\\(\\s*["']$`).test(before)) {
+    return index.labels[word] ? { kind: 'label', name: word } : null;
+  }
+  if (/(?:^\s*(?:screen|use)|\bscreen)\s+$/.test(before)
+    || new RegExp(`\\b(?:${SCREEN_STRING_CALLS})\\(\\s*["']$`).test(before)) {
+    return index.screens.has(word) ? { kind: 'screen', name: word } : null;
+  }
+
+  if (dotted !== word && index.variables.has(dotted)) return { kind: 'variable', name: dotted };
+  if (index.characters.has(word)) return { kind: 'character', name: word };
+  if (index.variables.has(word)) return { kind: 'variable', name: word };
+  if (index.labels[word]) return { kind: 'label', name: word };
+  if (index.screens.has(word)) return { kind: 'screen', name: word };
+  return null;
+}
+
+/**
+ * Validates a proposed new name for a symbol.
+ *
+ * @param target - The symbol being renamed
+ * @param newName - The proposed name
+ * @param index - Analysis data used to detect collisions
+ * @returns An error message, or null if the name is acceptable
+ */
+export function validateRenameName(
+  target: RenameSymbolTarget,
+  newName: string,
+  index: RenameSymbolIndex,
+): string | null {
+  if (!newName) return 'Enter a new name.';
+  if (newName === target.name) return 'The new name is the same as the current name.';
+
+  const pattern = target.kind === 'variable' ? DOTTED_IDENTIFIER_RE : IDENTIFIER_RE;
+  if (!pattern.test(newName)) {
+    return target.kind === 'variable'
+      ? 'Names must start with a letter or underscore and contain only letters, digits, underscores and dots.'
+      : 'Names must start with a letter or underscore and contain only letters, digits and underscores.';
+  }
+  if (newName.split('.').some(part => RESERVED_WORDS.has(part))) {
+    return `"${newName}" is a reserved word.`;
+  }
+
+  switch (target.kind) {
+    case 'label':
+      if (isReservedRenpyName(newName)) return 'Label names starting with an underscore are reserved by Ren\'Py.';
+      if (index.labels[newName]) return `A label named "${newName}" already exists.`;
+      break;
+    case 'screen':
+      if (index.screens.has(newName)) return `A screen named "${newName}" already exists.`;
+      break;
+    case 'character':
+    case 'variable':
+      if (index.characters.has(newName)) return `A character named "${newName}" already exists.`;
+      if (index.variables.has(newName)) return `A variable named "${newName}" already exists.`;
+      break;
+  }
+  return null;
+}
+
+/**
+ * Computes the edits needed to rename a symbol across every block.
+ *
+ * Lines inside triple-quoted strings and comments are never touched. Blocks
+ * without any occurrence are omitted from the result.
+ *
+ * @param blocks - Blocks with their current content
+ * @param target - The symbol being renamed
+ * @param newName - The validated new name
+ * @returns One entry per changed block, in input order
+ *
+ * @complexity O(B × L × R) where B = blocks, L = lines per block, R = rules per kind
+ */
+export function computeRenameEdits(
+  blocks: RenameSourceBlock[],
+  target: RenameSymbolTarget,
+  newName: string,
+): RenameFileEdit[] {
+  const rules = buildRules(target);
+  const edits: RenameFileEdit[] = [];
+
+  for (const block of blocks) {
+    if (!block.content.includes(target.name)) continue;
+    const lines = block.content.split('\n');
+    const tripleQuotedLineMask = getTripleQuotedLineMask(block.content);
+    const changes: RenameLineChange[] = [];
+
+    lines.forEach((line, i) => {
+      if (tripleQuotedLineMask[i] || !line.includes(target.name)) return;
+      const after = renameInLine(line, rules, newName);
+      if (after !== line) {
+        changes.push({ line: i + 1, before: line, after });
+        lines[i] = after;
+      }
+    });
+
+    if (changes.length > 0) {
+      edits.push({
+        blockId: block.id,
+        filePath: block.filePath,
+        title: block.title,
+        newContent: lines.join('\n'),
+        changes,
+      });
+    }
+  }
+
+  return edits;
+}
+
+/**
+ * Lists every occurrence of a symbol in a single file, using the same
+ * matching rules as {@link computeRenameEdits}.
+ *
+ * @param content - File content
+ * @param target - The symbol to look for
+ * @returns Occurrences sorted by line and column
+ */
+export function findSymbolOccurrences(content: string, target: RenameSymbolTarget): SymbolOccurrence[] {
+  if (!content.includes(target.name)) return [];
+  const rules = buildRules(target);
+  const tripleQuotedLineMask = getTripleQuotedLineMask(content);
+  const occurrences: SymbolOccurrence[] = [];
+
+  content.split('\n').forEach((line, i) => {
+    if (tripleQuotedLineMask[i] || !line.includes(target.name)) return;
+    findSpansInLine(line, rules)
+      .sort((a, b) => a[0] - b[0])
+      .forEach(([start, end]) => occurrences.push({ line: i + 1, startColumn: start + 1, endColumn: end + 1 }));
+  });
+
+  return occurrences;
+}
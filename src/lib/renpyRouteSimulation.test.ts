@@ -0,0 +1,170 @@
+import { performRouteSimulation } from './renpyRouteSimulation';
+import type { RouteSimulation } from '@/types';
+import { performRenpyAnalysis, performRouteAnalysis } from '@/hooks/useRenpyAnalysis';
+
+const simulate = (content: string) => {
+  const blocks = [{ id: 'b1', content }];
+  const result = performRenpyAnalysis(blocks);
+  Object.assign(result, performRouteAnalysis(blocks, result.labels, result.jumps));
+  const { routeSimulation, routeDiagnostics } = performRouteSimulation(blocks, result);
+  const label = (id: string) => result.labelNodes.find(n => n.id === id)!.label;
+  const linkFeasibility = (source: string, target: string) => result.routeLinks
+    .filter(l => label(l.sourceId) === source && label(l.targetId) === target)
+    .map(l => routeSimulation.links.get(l.id))
+    .join(', ');
+  const routeKeys = Object.fromEntries(result.identifiedRoutes.map(route => [route.nodeIds.map(label).join('>'), route.id]));
+  const routeFeasibility = Object.fromEntries(Object.entries(routeKeys).map(([key, id]) => [key, routeSimulation.routes.get(id)]));
+  const routeRanges = Object.fromEntries(Object.entries(routeKeys).map(([key, id]) => [key, routeSimulation.routeRanges.get(id)!]));
+  return { routeSimulation, routeDiagnostics, label, linkFeasibility, routeFeasibility, routeRanges, nodeId: (name: string) => `b1:${name}` };
+};
+
+describe('performRouteSimulation', () => {
+  it('cuts branches whose conditions the tracked values rule out', () => {
+    const { routeSimulation, routeDiagnostics, linkFeasibility, nodeId } = simulate([
+      'default affection = 0',
+      'default route = None',
+      'label start:',
+      '    menu:',
+      '        "Be nice":',
+      '            $ affection += 3',
+      '        "Be rude":',
+      '            $ affection -= 1',
+      '    $ route = "alice"',
+      '    if affection >= 5:',
+      '        jump true_end',
+      '    jump normal_end',
+      'label true_end:',
+      '    "The end."',
+      '    return',
+      'label normal_end:',
+      '    if route == "bob":',
+      '        jump secret_end',
+      '    return',
+      'label secret_end:',
+      '    return',
+    ].join('\n'));
+
+    expect(linkFeasibility('start', 'true_end')).toBe('infeasible');
+    expect(linkFeasibility('start', 'normal_end')).toBe('feasible');
+    expect(linkFeasibility('normal_end', 'secret_end')).toBe('infeasible');
+    expect(routeSimulation.nodes.get(nodeId('true_end'))).toBe('infeasible');
+    expect(routeSimulation.entryStates.get(nodeId('normal_end'))).toEqual({ affection: '-1–3', route: '"alice"' });
+    expect(routeDiagnostics.map(d => [d.line, d.column, d.message])).toEqual([
+      [13, 7, 'Ending "true_end" is unreachable: every path to it fails a condition'],
+      [20, 7, 'Ending "secret_end" is unreachable: every path to it fails a condition'],
+    ]);
+  });
+
+  it('marks links behind conditions it cannot evaluate as unknown', () => {
+    const { linkFeasibility, routeDiagnostics } = simulate([
+      'default met_lucy = False',
+      'label start:',
+      '    if renpy.random.random() < 0.5:',
+      '        jump lucky',
+      '    elif met_lucy:',
+      '        jump lucy',
+      '    else:',
+      '        "Nothing happens."',
+      '    if persistent.cleared:',
+      '        $ met_lucy = True',
+      '    menu:',
+      '        "Go home":',
+      '            jump home',
+      '        "Meet Lucy" if met_lucy:',
+      '            jump lucy',
+      'label lucky:',
+      '    return',
+      'label lucy:',
+      '    return',
+      'label home:',
+      '    return',
+    ].join('\n'));
+
+    // The second link is the fall-through after the menu, whose choices all jump away
+    expect(linkFeasibility('start', 'lucky')).toBe('unknown, infeasible');
+    expect(linkFeasibility('start', 'home')).toBe('unknown');
+    // `met_lucy` is still False at the `elif`; the menu guard follows the unknown `persistent.cleared`
+    expect(linkFeasibility('start', 'lucy')).toBe('infeasible, unknown');
+    expect(routeDiagnostics).toEqual([]);
+  });
+
+  it('follows loops, calls and whole routes', () => {
+    const { linkFeasibility, routeFeasibility, routeRanges } = simulate([
+      'default count = 0',
+      'default points = 0',
+      'label start:',
+      '    while count < 10:',
+      '        $ count += 1',
+      '    if count < 10:',
+      '        jump never',
+      '    menu:',
+      '        "A":',
+      '            jump path_a',
+      '        "B":',
+      '            jump path_b',
+      'label path_a:',
+      '    $ points = 5',
+      '    jump middle',
+      'label path_b:',
+      '    jump middle',
+      'label middle:',
+      '    call bonus',
+      '    if points > 3:',
+      '        jump good',
+      '    jump bad',
+      'label bonus:',
+      '    $ count = 0',
+      '    return',
+      'label never:',
+      '    return',
+      'label good:',
+      '    return',
+      'label bad:',
+      '    return',
+    ].join('\n'));
+
+    expect(linkFeasibility('start', 'never')).toBe('infeasible');
+    expect(linkFeasibility('middle', 'good')).toBe('feasible');
+    expect(linkFeasibility('middle', 'bad')).toBe('feasible');
+    // Each route carries only the values set along its own labels
+    expect(routeFeasibility['start>never']).toBe('infeasible');
+    expect(routeFeasibility['start>path_a>middle>good']).toBe('feasible');
+    expect(routeFeasibility['start>path_a>middle>bad']).toBe('infeasible');
+    expect(routeFeasibility['start>path_b>middle>good']).toBe('infeasible');
+    expect(routeFeasibility['start>path_b>middle>bad']).toBe('feasible');
+    // `count` has no range: the call to `bonus` may change it to anything
+    expect(routeRanges['start>path_a>middle>good']).toEqual({ points: { min: 0, max: 5 } });
+    expect(routeRanges['start>path_b>middle>bad'].points).toEqual({ min: 0, max: 0 });
+  });
+
+  it('reuses the results of routes whose links and labels did not change', () => {
+    const script = (goodLine: string) => [
+      'default points = 0',
+      'label start:',
+      '    menu:',
+      '        "A":',
+      '            $ points = 5',
+      '            jump good',
+      '        "B":',
+      '            jump bad',
+      'label good:',
+      `    ${goodLine}`,
+      '    return',
+      'label bad:',
+      '    return',
+    ].join('\n');
+    const run = (content: string, previous?: RouteSimulation) => {
+      const blocks = [{ id: 'b1', content }];
+      const result = performRenpyAnalysis(blocks);
+      Object.assign(result, performRouteAnalysis(blocks, result.labels, result.jumps));
+      const routeId = (ending: string) => result.identifiedRoutes.find(route => route.endingNodeId === `b1:${ending}`)!.id;
+      return { simulation: performRouteSimulation(blocks, result, previous).routeSimulation, routeId };
+    };
+
+    const first = run(script('"Well done."'));
+    const edited = run(script('$ points += 1'), first.simulation);
+    expect(edited.simulation.routeRanges.get(edited.routeId('bad'))).toBe(first.simulation.routeRanges.get(first.routeId('bad')));
+    expect(edited.simulation.routeRanges.get(edited.routeId('good'))).not.toBe(first.simulation.routeRanges.get(first.routeId('good')));
+    expect(edited.simulation.routeRanges.get(edited.routeId('good'))).toEqual({ points: { min: 0, max: 6 } });
+  });
+});
@@ -0,0 +1,953 @@
+/**
+ * @file renpyRouteSimulation.ts
+ * @description Simulates story variables along the route graph to decide which
+ * labels, links and routes the conditions in the script actually allow.
+ * Variables are tracked as numeric intervals or sets of string/None constants,
+ * starting from their `define` / `default` values and updated by `$` and
+ * `python:` assignments. `if` / `elif` / `while` conditions and menu choice
+ * guards narrow the values, and a branch whose condition cannot hold is cut.
+ * Values flow between labels along route links until they stop changing.
+ * Each identified route (one path to an ending) is also simulated on its own
+ * links, for its feasibility and the range each numeric variable covers along it
+ * (the Variable Impact view). Those results are taken from the previous run when the
+ * route's links, the bodies of its labels and the starting values are unchanged.
+ * Runs inside `renpyAnalysis.worker.ts` after `performRouteAnalysis`.
+ */
+
+import type {
+  LabelNode, RenpyAnalysisResult, RouteDiagnostic, RouteFeasibility, RouteLink, RouteSimulation,
+} from '@/types';
+import { getLogicalLines, stripTrailingComment } from './renpyLogicalLines';
+import { getTripleQuotedLineMask } from './renpyTripleQuotes';
+import { tokenizeRenpyLine } from './renpySimpleExpressions';
+import type { RenpyToken } from './renpySimpleExpressions';
+import { md5 } from './md5';
+
+// ── Abstract values ──────────────────────────────────────────────────────────
+
+type AbstractValue =
+  | { kind: 'number'; min: number; max: number; integer: boolean }
+  | { kind: 'constants'; values: (string | null)[] }
+  | { kind: 'top' };
+
+const TOP: AbstractValue = { kind: 'top' };
+/** Larger constant sets are widened to unknown */
+const MAX_CONSTANTS = 16;
+
+interface SimState {
+  /** Tracked variables; a variable that is absent may hold any value */
+  vars: Map<string, AbstractValue>;
+  /** No path to this point is known to be taken: it depends on a condition the simulator cannot evaluate */
+  uncertain: boolean;
+}
+
+/** `null` when no execution reaches the point */
+type MaybeState = SimState | null;
+
+type Truth = 'true' | 'false' | 'unknown';
+
+const numberValue = (min: number, max: number, integer: boolean): AbstractValue => ({ kind: 'number', min, max, integer });
+const boolValue = (truth: Truth): AbstractValue =>
+  truth === 'unknown' ? numberValue(0, 1, true) : numberValue(truth === 'true' ? 1 : 0, truth === 'true' ? 1 : 0, true);
+
+function joinValues(a: AbstractValue, b: AbstractValue): AbstractValue {
+  if (a.kind === 'number' && b.kind === 'number') {
+    return numberValue(Math.min(a.min, b.min), Math.max(a.max, b.max), a.integer && b.integer);
+  }
+  if (a.kind === 'constants' && b.kind === 'constants') {
+    const values = [...new Set([...a.values, ...b.values])];
+    return values.length > MAX_CONSTANTS ? TOP : { kind: 'constants', values };
+  }
+  return TOP;
+}
+
+/** Joins `next` into `previous`, pushing bounds that keep moving to infinity. */
+function widenValue(previous: AbstractValue, next: AbstractValue): AbstractValue {
+  const joined = joinValues(previous, next);
+  if (previous.kind !== 'number' || joined.kind !== 'number') return joined;
+  return numberValue(
+    joined.min < previous.min ? -Infinity : joined.min,
+    joined.max > previous.max ? Infinity : joined.max,
+    joined.integer,
+  );
+}
+
+function formatValue(value: AbstractValue): string {
+  if (value.kind === 'constants') return value.values.map(v => (v === null ? 'None' : JSON.stringify(v))).join(' | ');
+  if (value.kind === 'top') return '?';
+  if (value.min === value.max) return String(value.min);
+  if (value.min === -Infinity) return value.max === Infinity ? '?' : `≤ ${value.max}`;
+  if (value.max === Infinity) return `≥ ${value.min}`;
+  return `${value.min}–${value.max}`;
+}
+
+function truthiness(value: AbstractValue): Truth {
+  if (value.kind === 'number') {
+    if (value.min > 0 || value.max < 0) return 'true';
+    return value.min === 0 && value.max === 0 ? 'false' : 'unknown';
+  }
+  if (value.kind === 'constants') {
+    const truths = new Set(value.values.map(v => (v ? 'true' : 'false')));
+    return truths.size === 1 ? (truths.has('true') ? 'true' : 'false') : 'unknown';
+  }
+  return 'unknown';
+}
+
+// ── States ───────────────────────────────────────────────────────────────────
+
+function joinStates(a: MaybeState, b: MaybeState): MaybeState {
+  if (!a) return b;
+  if (!b) return a;
+  const vars = new Map<string, AbstractValue>();
+  for (const [name, value] of a.vars) {
+    const other = b.vars.get(name);
+    if (!other) continue;
+    const joined = joinValues(value, other);
+    if (joined.kind !== 'top') vars.set(name, joined);
+  }
+  return { vars, uncertain: a.uncertain && b.uncertain };
+}
+
+function widenStates(previous: SimState, next: SimState): SimState {
+  const vars = new Map<string, AbstractValue>();
+  for (const [name, value] of previous.vars) {
+    const other = next.vars.get(name);
+    if (!other) continue;
+    const widened = widenValue(value, other);
+    if (widened.kind !== 'top') vars.set(name, widened);
+  }
+  return { vars, uncertain: previous.uncertain && next.uncertain };
+}
+
+function stateKey(state: MaybeState): string {
+  if (!state) return '-';
+  const entries = [...state.vars].sort(([a], [b]) => a.localeCompare(b)).map(([name, value]) => `${name}=${JSON.stringify(value)}`);
+  return `${state.uncertain ? '?' : ''}${entries.join(';')}`;
+}
+
+function setVariable(state: SimState, name: string, value: AbstractValue): SimState {
+  const vars = new Map(state.vars);
+  if (value.kind === 'top') vars.delete(name);
+  else vars.set(name, value);
+  return { vars, uncertain: state.uncertain };
+}
+
+const markUncertain = (state: MaybeState): MaybeState => (state && !state.uncertain ? { ...state, uncertain: true } : state);
+
+// ── Expressions ──────────────────────────────────────────────────────────────
+
+type CompareOp = '<' | '<=' | '>' | '>=' | '==' | '!=';
+
+type Expr =
+  | { type: 'value'; value: AbstractValue }
+  | { type: 'name'; name: string }
+  | { type: 'not'; operand: Expr }
+  | { type: 'logic'; op: 'and' | 'or'; left: Expr; right: Expr }
+  | { type: 'compare'; op: CompareOp; left: Expr; right: Expr }
+  | { type: 'arith'; op: '+' | '-' | '*'; left: Expr; right: Expr }
+  | { type: 'opaque' };
+
+const OPAQUE: Expr = { type: 'opaque' };
+const COMPARE_OPS = new Set(['<', '<=', '>', '>=', '==', '!=']);
+
+interface Parser {
+  text: string;
+  tokens: RenpyToken[];
+  pos: number;
+}
+
+/** Strips `store.` so `store.x` and `x` are the same variable. */
+const normalizeName = (name: string) => (name.startsWith('store.') ? name.slice(6) : name);
+
+/**
+ * Parses a Python expression into the subset the simulator understands:
+ * literals, (dotted) names, arithmetic, comparisons and boolean operators.
+ * Anything else (calls, subscripts, `in`, ...) becomes an opaque node.
+ */
+function parseExpression(text: string): Expr {
+  const parser: Parser = { text, tokens: tokenizeRenpyLine(text), pos: 0 };
+  if (parser.tokens.length === 0) return OPAQUE;
+  const expr = parseOr(parser);
+  return parser.pos === parser.tokens.length ? expr : OPAQUE;
+}
+
+const peek = (p: Parser): RenpyToken | undefined => p.tokens[p.pos];
+const isWord = (token: RenpyToken | undefined, word: string) => token?.type === 'name' && token.value === word;
+
+function parseOr(p: Parser): Expr {
+  let left = parseAnd(p);
+  while (isWord(peek(p), 'or')) {
+    p.pos++;
+    left = { type: 'logic', op: 'or', left, right: parseAnd(p) };
+  }
+  return left;
+}
+
+function parseAnd(p: Parser): Expr {
+  let left = parseNot(p);
+  while (isWord(peek(p), 'and')) {
+    p.pos++;
+    left = { type: 'logic', op: 'and', left, right: parseNot(p) };
+  }
+  return left;
+}
+
+function parseNot(p: Parser): Expr {
+  if (isWord(peek(p), 'not')) {
+    p.pos++;
+    return { type: 'not', operand: parseNot(p) };
+  }
+  return parseComparison(p);
+}
+
+/** Reads a comparison operator, including `is`, `is not`, `in` and `not in`. */
+function readCompareOp(p: Parser): CompareOp | 'in' | null {
+  const token = peek(p);
+  if (!token) return null;
+  if (token.type === 'op' && COMPARE_OPS.has(token.value)) { p.pos++; return token.value as CompareOp; }
+  if (isWord(token, 'is')) {
+    p.pos++;
+    if (isWord(peek(p), 'not')) { p.pos++; return '!='; }
+    return '==';
+  }
+  if (isWord(token, 'in')) { p.pos++; return 'in'; }
+  if (isWord(token, 'not') && isWord(p.tokens[p.pos + 1], 'in')) { p.pos += 2; return 'in'; }
+  return null;
+}
+
+function parseComparison(p: Parser): Expr {
+  let left = parseAdditive(p);
+  let result: Expr | null = null;
+  for (let op = readCompareOp(p); op; op = readCompareOp(p)) {
+    const right = parseAdditive(p);
+    // `a < b < c` means `a < b and b < c`
+    const comparison: Expr = op === 'in' ? OPAQUE : { type: 'compare', op, left, right };
+    result = result ? { type: 'logic', op: 'and', left: result, right: comparison } : comparison;
+    left = right;
+  }
+  return result ?? left;
+}
+
+function parseAdditive(p: Parser): Expr {
+  let left = parseMultiplicative(p);
+  for (let token = peek(p); token?.type === 'op' && (token.value === '+' || token.value === '-'); token = peek(p)) {
+    p.pos++;
+    left = { type: 'arith', op: token.value, left, right: parseMultiplicative(p) };
+  }
+  return left;
+}
+
+function parseMultiplicative(p: Parser): Expr {
+  let left = parseUnary(p);
+  for (let token = peek(p); token?.type === 'op' && ['*', '/', '//', '%'].includes(token.value); token = peek(p)) {
+    p.pos++;
+    const right = parseUnary(p);
+    left = token.value === '*' ? { type: 'arith', op: '*', left, right } : OPAQUE;
+  }
+  return left;
+}
+
+function parseUnary(p: Parser): Expr {
+  const token = peek(p);
+  if (token?.type === 'op' && (token.value === '-' || token.value === '+')) {
+    p.pos++;
+    const operand = parseUnary(p);
+    return token.value === '-' ? { type: 'arith', op: '-', left: { type: 'value', value: numberValue(0, 0, true) }, right: operand } : operand;
+  }
+  return parseAtom(p);
+}
+
+function parseAtom(p: Parser): Expr {
+  const token = peek(p);
+  if (!token) return OPAQUE;
+  p.pos++;
+  switch (token.type) {
+    case 'number': {
+      const value = Number(token.value.replace(/_/g, ''));
+      if (Number.isNaN(value)) return OPAQUE;
+      return { type: 'value', value: numberValue(value, value, /^[\d_]+$/.test(token.value)) };
+    }
+    case 'string': {
+      const match = token.value.match(/^([rRuU]?)("""|'''|"|')([\s\S]*)\2$/);
+      if (!match || match[3].includes('\\')) return OPAQUE;
+      return { type: 'value', value: { kind: 'constants', values: [match[3]] } };
+    }
+    case 'group':
+      if (!token.value.startsWith('(') || !token.value.endsWith(')')) return skipTrailers(p);
+      return withTrailers(p, parseExpression(token.value.slice(1, -1)));
+    case 'name': {
+      if (token.value === 'True' || token.value === 'False') return { type: 'value', value: boolValue(token.value === 'True' ? 'true' : 'false') };
+      if (token.value === 'None') return { type: 'value', value: { kind: 'constants', values: [null] } };
+      let name = token.value;
+      while (peek(p)?.value === '.' && p.tokens[p.pos + 1]?.type === 'name') {
+        name += `.${p.tokens[p.pos + 1].value}`;
+        p.pos += 2;
+      }
+      return withTrailers(p, { type: 'name', name: normalizeName(name) });
+    }
+    default:
+      return OPAQUE;
+  }
+}
+
+/** Calls and subscripts make the value opaque. */
+function withTrailers(p: Parser, expr: Expr): Expr {
+  return peek(p)?.type === 'group' || peek(p)?.value === '.' ? skipTrailers(p) : expr;
+}
+
+function skipTrailers(p: Parser): Expr {
+  for (;;) {
+    const token = peek(p);
+    if (token?.type === 'group') p.pos++;
+    else if (token?.value === '.' && p.tokens[p.pos + 1]?.type === 'name') p.pos += 2;
+    else return OPAQUE;
+  }
+}
+
+function evaluate(expr: Expr, state: SimState): AbstractValue {
+  switch (expr.type) {
+    case 'value': return expr.value;
+    case 'name': return state.vars.get(expr.name) ?? TOP;
+    case 'not': {
+      const truth = truthiness(evaluate(expr.operand, state));
+      return boolValue(truth === 'unknown' ? truth : truth === 'true' ? 'false' : 'true');
+    }
+    case 'compare': return boolValue(compareValues(expr.op, evaluate(expr.left, state), evaluate(expr.right, state)));
+    case 'arith': {
+      const a = evaluate(expr.left, state);
+      const b = evaluate(expr.right, state);
+      if (a.kind !== 'number' || b.kind !== 'number') return TOP;
+      const integer = a.integer && b.integer;
+      if (expr.op === '+') return numberValue(a.min + b.min, a.max + b.max, integer);
+      if (expr.op === '-') return numberValue(a.min - b.max, a.max - b.min, integer);
+      const products = [a.min * b.min, a.min * b.max, a.max * b.min, a.max * b.max].map(v => (Number.isNaN(v) ? 0 : v));
+      return numberValue(Math.min(...products), Math.max(...products), integer);
+    }
+    default:
+      // `and` / `or` return one of their operands, which is rarely a tracked value
+      return TOP;
+  }
+}
+
+function compareValues(op: CompareOp, a: AbstractValue, b: AbstractValue): Truth {
+  if (a.kind === 'top' || b.kind === 'top') return 'unknown';
+  if (op === '!=') {
+    const equal = compareValues('==', a, b);
+    return equal === 'unknown' ? equal : equal === 'true' ? 'false' : 'true';
+  }
+  if (a.kind === 'number' && b.kind === 'number') {
+    switch (op) {
+      case '<': return a.max < b.min ? 'true' : a.min >= b.max ? 'false' : 'unknown';
+      case '<=': return a.max <= b.min ? 'true' : a.min > b.max ? 'false' : 'unknown';
+      case '>': return compareValues('<', b, a);
+      case '>=': return compareValues('<=', b, a);
+      case '==':
+        if (a.min === a.max && b.min === b.max && a.min === b.min) return 'true';
+        return a.max < b.min || b.max < a.min ? 'false' : 'unknown';
+    }
+  }
+  if (a.kind === 'constants' && b.kind === 'constants' && op === '==') {
+    if (a.values.length === 1 && b.values.length === 1 && a.values[0] === b.values[0]) return 'true';
+    return a.values.some(v => b.values.includes(v)) ? 'unknown' : 'false';
+  }
+  // A number never equals a string or None
+  return op === '==' ? 'false' : 'unknown';
+}
+
+const FLIPPED: Record<CompareOp, CompareOp> = { '<': '>', '<=': '>=', '>': '<', '>=': '<=', '==': '==', '!=': '!=' };
+const NEGATED: Record<CompareOp, CompareOp> = { '<': '>=', '<=': '>', '>': '<=', '>=': '<', '==': '!=', '!=': '==' };
+
+/** Narrows `current` to the values for which `current op other` holds; `null` if none do. */
+function narrowValue(current: AbstractValue, op: CompareOp, other: AbstractValue): AbstractValue | null {
+  if (other.kind === 'number' && current.kind !== 'constants') {
+    const base: Extract<AbstractValue, { kind: 'number' }> = current.kind === 'number'
+      ? current
+      : { kind: 'number', min: -Infinity, max: Infinity, integer: other.integer && op === '==' };
+    const integer = base.integer && other.integer;
+    let { min, max } = base;
+    switch (op) {
+      case '<': max = Math.min(max, integer ? other.max - 1 : other.max); break;
+      case '<=': max = Math.min(max, other.max); break;
+      case '>': min = Math.max(min, integer ? other.min + 1 : other.min); break;
+      case '>=': min = Math.max(min, other.min); break;
+      case '==': min = Math.max(min, other.min); max = Math.min(max, other.max); break;
+      case '!=':
+        if (other.min !== other.max || !base.integer) break;
+        if (min === other.min) min++;
+        if (max === other.max) max--;
+        break;
+    }
+    return min > max ? null : numberValue(min, max, base.integer);
+  }
+  if (other.kind === 'constants' && current.kind !== 'number') {
+    if (op === '==') {
+      const values = current.kind === 'constants' ? current.values.filter(v => other.values.includes(v)) : other.values;
+      return values.length === 0 ? null : { kind: 'constants', values };
+    }
+    if (op === '!=' && current.kind === 'constants' && other.values.length === 1) {
+      const values = current.values.filter(v => v !== other.values[0]);
+      return values.length === 0 ? null : { kind: 'constants', values };
+    }
+  }
+  return current;
+}
+
+interface Refinement {
+  state: MaybeState;
+  /** The condition could not be decided from the tracked values */
+  opaque: boolean;
+}
+
+/**
+ * Narrows a state to the executions where `expr` has the given truth value.
+ * The returned state is `null` when the condition can never have that value.
+ */
+function refine(state: MaybeState, expr: Expr, truth: boolean): Refinement {
+  if (!state) return { state: null, opaque: false };
+  switch (expr.type) {
+    case 'not': return refine(state, expr.operand, !truth);
+    case 'logic': {
+      const left = refine(state, expr.left, expr.op === 'and');
+      // `a and b` is false when `a` is false or when `a` is true and `b` is false (dually for `or`)
+      const right = refine(left.state, expr.right, truth);
+      if (truth === (expr.op === 'and')) return { state: right.state, opaque: left.opaque || right.opaque };
+      const shortCircuit = refine(state, expr.left, truth);
+      return { state: joinStates(shortCircuit.state, right.state), opaque: left.opaque || right.opaque || shortCircuit.opaque };
+    }
+    case 'compare': {
+      const a = evaluate(expr.left, state);
+      const b = evaluate(expr.right, state);
+      const result = compareValues(expr.op, a, b);
+      if (result !== 'unknown') return { state: (result === 'true') === truth ? state : null, opaque: false };
+      const op = truth ? expr.op : NEGATED[expr.op];
+      let narrowed: MaybeState = state;
+      if (expr.left.type === 'name' && b.kind !== 'top') narrowed = narrowVariable(narrowed, expr.left.name, op, b);
+      if (expr.right.type === 'name' && a.kind !== 'top') narrowed = narrowVariable(narrowed, expr.right.name, FLIPPED[op], a);
+      return { state: narrowed, opaque: a.kind === 'top' || b.kind === 'top' };
+    }
+    case 'opaque': return { state, opaque: true };
+    default: {
+      const value = evaluate(expr, state);
+      const result = truthiness(value);
+      if (result !== 'unknown') return { state: (result === 'true') === truth ? state : null, opaque: false };
+      if (expr.type !== 'name' || value.kind === 'top') return { state, opaque: value.kind === 'top' };
+      const falsy: AbstractValue = value.kind === 'number'
+        ? numberValue(0, 0, true)
+        : { kind: 'constants', values: value.values.filter(v => !v) };
+      return { state: narrowVariable(state, expr.name, truth ? '!=' : '==', falsy), opaque: false };
+    }
+  }
+}
+
+function narrowVariable(state: MaybeState, name: string, op: CompareOp, other: AbstractValue): MaybeState {
+  if (!state) return null;
+  if (op === '!=' && other.kind === 'constants' && other.values.length > 1) {
+    return other.values.reduce<MaybeState>((s, v) => narrowVariable(s, name, '!=', { kind: 'constants', values: [v] }), state);
+  }
+  const narrowed = narrowValue(state.vars.get(name) ?? TOP, op, other);
+  return narrowed ? setVariable(state, name, narrowed) : null;
+}
+
+// ── Statements ───────────────────────────────────────────────────────────────
+
+interface StatementNode {
+  /** 1-based line of the statement */
+  line: number;
+  /** Statement text without comments; continuation lines are kept */
+  text: string;
+  indent: number;
+  children: StatementNode[];
+}
+
+const IF_RE = /^if\s+([\s\S]+?)\s*:$/;
+const ELIF_RE = /^elif\s+([\s\S]+?)\s*:$/;
+const ELSE_RE = /^else\s*:$/;
+const WHILE_RE = /^while\s+([\s\S]+?)\s*:$/;
+const MENU_RE = /^menu(?:\s+[\w.]+)?\s*(?:\(.*\))?\s*:$/;
+const CHOICE_RE = /^(?:[rRuU]?(?:"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'))(?:\s*\([^)]*\))?(?:\s+if\s+([\s\S]+?))?\s*:$/;
+const JUMP_RE = /^jump\b/;
+const RETURN_RE = /^return\b/;
+const CALL_RE = /^call\s+(?!screen\b)(?:(expression)\b|([\w.]+))/;
+const PYTHON_BLOCK_RE = /^python(?:\s+(?:early|hide|in\s+[\w.]+))*\s*:$/;
+const ASSIGN_RE = /^((?:[a-zA-Z_]\w*\.)*[a-zA-Z_]\w*)\s*([-+*]?)=(?!=)\s*([\s\S]+)$/;
+const TUPLE_ASSIGN_RE = /^([\w.]+(?:\s*,\s*[\w.]+)+)\s*=(?!=)/;
+const VOLATILE_ACTION_RE = /\b(?:SetVariable|ToggleVariable|IncrementVariable|VariableValue|VariableInputValue)\(\s*["']([\w.]+)["']/g;
+const GLOBAL_RE = /^\s*global\s+([\w\s,]+)$/;
+const STORE_ASSIGN_RE = /\b(?:renpy\.)?store\.([a-zA-Z_]\w*)\s*[-+*]?=(?!=)/g;
+const DEF_RE = /^(\s*)def\s+\w+/;
+const NAME_RE = /\b[a-zA-Z_]\w*(?:\.[a-zA-Z_]\w*)*/g;
+
+/** Builds the statement tree of a label body from its logical lines. */
+function buildStatementTree(
+  physicalLines: string[],
+  logicalLines: { startLine: number; endLine: number }[],
+  tripleQuotedLineMask: boolean[],
+): StatementNode[] {
+  const roots: StatementNode[] = [];
+  const stack: StatementNode[] = [];
+  for (const logical of logicalLines) {
+    const first = physicalLines[logical.startLine - 1];
+    if (!first.trim() || first.trim().startsWith('#') || tripleQuotedLineMask[logical.startLine - 1]) continue;
+    const indent = first.match(/^\s*/)![0].length;
+    const text = physicalLines.slice(logical.startLine - 1, logical.endLine).map(stripTrailingComment).join('\n').trim();
+    const node: StatementNode = { line: logical.startLine, text, indent, children: [] };
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) stack.pop();
+    (stack.length > 0 ? stack[stack.length - 1].children : roots).push(node);
+    stack.push(node);
+  }
+  return roots;
+}
+
+/** Names assigned by a Python statement, for havocking. */
+function assignedNames(code: string): string[] {
+  const assign = code.match(ASSIGN_RE);
+  if (assign) return [normalizeName(assign[1])];
+  const tuple = code.match(TUPLE_ASSIGN_RE);
+  return tuple ? tuple[1].split(',').map(name => normalizeName(name.trim())) : [];
+}
+
+interface SimulationContext {
+  /** Variables changed where the simulator cannot follow (screen actions, functions, persistent data) */
+  isVolatile: (name: string) => boolean;
+  /** Variables a `call` to the label may change before returning */
+  changedByCall: (label: string | null) => Set<string>;
+}
+
+interface LabelRun {
+  /** State on reaching each statement line; `null` when the line is visited but cannot be reached */
+  lineStates: Map<number, MaybeState>;
+  /** State when execution falls off the end of the label */
+  exit: MaybeState;
+}
+
+function applyPython(state: MaybeState, code: string, ctx: SimulationContext): MaybeState {
+  if (!state) return null;
+  const assign = code.trim().match(ASSIGN_RE);
+  if (assign) {
+    const name = normalizeName(assign[1]);
+    if (ctx.isVolatile(name)) return state;
+    const rhs = parseExpression(assign[3]);
+    const value = assign[2]
+      ? evaluate({ type: 'arith', op: assign[2] as '+' | '-' | '*', left: { type: 'name', name }, right: rhs }, state)
+      : evaluate(rhs, state);
+    return setVariable(state, name, value);
+  }
+  return havoc(state, assignedNames(code.trim()));
+}
+
+function havoc(state: MaybeState, names: Iterable<string>): MaybeState {
+  if (!state) return null;
+  let result = state;
+  for (const name of names) if (result.vars.has(name)) result = setVariable(result, name, TOP);
+  return result;
+}
+
+/** Runs the statements of a block; `marked` makes every recorded state uncertain. */
+function runBlock(nodes: StatementNode[], state: MaybeState, run: LabelRun, ctx: SimulationContext, marked: boolean): MaybeState {
+  let current = state;
+  const record = (line: number, s: MaybeState) => {
+    const value = marked ? markUncertain(s) : s;
+    run.lineStates.set(line, run.lineStates.has(line) ? joinStates(run.lineStates.get(line)!, value) : value);
+  };
+
+  for (let i = 0; i < nodes.length; i++) {
+    const node = nodes[i];
+    record(node.line, current);
+    const { text } = node;
+
+    const ifMatch = text.match(IF_RE);
+    if (ifMatch) {
+      // Walk the if / elif / else chain; `rest` holds the executions no branch has taken yet
+      let rest = current;
+      let restMarked = marked;
+      let anyOpaque = false;
+      const outcomes: { input: MaybeState; output: MaybeState }[] = [];
+      let branch: StatementNode = node;
+      let condition: string | null = ifMatch[1];
+      for (;;) {
+        let input = rest;
+        if (condition !== null) {
+          const taken = refine(rest, parseExpression(condition), true);
+          const skipped = refine(rest, parseExpression(condition), false);
+          anyOpaque ||= taken.opaque;
+          input = taken.state;
+          rest = skipped.state;
+        } else {
+          rest = null;
+        }
+        outcomes.push({ input, output: runBlock(branch.children, input, run, ctx, restMarked || anyOpaque) });
+        restMarked ||= anyOpaque;
+        const next = nodes[i + 1];
+        const elif = next?.text.match(ELIF_RE);
+        if (elif) condition = elif[1];
+        else if (next && ELSE_RE.test(next.text)) condition = null;
+        else break;
+        i++;
+        branch = next;
+        record(branch.line, rest);
+      }
+      if (rest) outcomes.push({ input: rest, output: rest });
+      current = outcomes.reduce<MaybeState>((acc, o) => joinStates(acc, o.output), null);
+      // With an undecidable guard, the code after the chain is only certainly
+      // reached if every branch that can run falls through to it
+      if (current && anyOpaque && !current.uncertain) {
+        current = outcomes.some(o => o.input && (!o.output || o.output.uncertain)) ? markUncertain(current) : current;
+      }
+      continue;
+    }
+
+    const whileMatch = text.match(WHILE_RE);
+    if (whileMatch) {
+      const condition = parseExpression(whileMatch[1]);
+      let head = current;
+      for (let iteration = 0; head; iteration++) {
+        const body = refine(head, condition, true);
+        const output = runBlock(node.children, body.state, run, ctx, marked || body.opaque);
+        const joined = joinStates(head, output)!;
+        const next = iteration >= 2 ? widenStates(head, joined) : joined;
+        if (stateKey(next) === stateKey(head)) break;
+        head = iteration > 20 ? { vars: new Map(), uncertain: head.uncertain } : next;
+      }
+      current = head ? refine(head, condition, false).state : null;
+      continue;
+    }
+
+    if (MENU_RE.test(text)) {
+      let output: MaybeState = null;
+      let anyChoice = false;
+      for (const child of node.children) {
+        const choice = child.text.match(CHOICE_RE);
+        if (!choice) {
+          record(child.line, current);
+          continue;
+        }
+        anyChoice = true;
+        const guard = choice[1] ? refine(current, parseExpression(choice[1]), true) : { state: current, opaque: false };
+        const input = guard.opaque ? markUncertain(guard.state) : guard.state;
+        record(child.line, input);
+        output = joinStates(output, runBlock(child.children, input, run, ctx, marked));
+      }
+      if (anyChoice) current = output;
+      continue;
+    }
+
+    if (JUMP_RE.test(text) || RETURN_RE.test(text)) {
+      current = null;
+      continue;
+    }
+
+    const call = text.match(CALL_RE);
+    if (call) {
+      current = havoc(current, ctx.changedByCall(call[1] ? null : call[2]));
+      continue;
+    }
+
+    if (text.startsWith('$')) {
+      current = applyPython(current, text.slice(1), ctx);
+      continue;
+    }
+
+    if (PYTHON_BLOCK_RE.test(text)) {
+      // Top-level statements are applied in order; anything assigned under
+      // Python control flow may or may not have run
+      for (const child of node.children) {
+        current = applyPython(current, child.text, ctx);
+        const nested = flattenStatements(child.children);
+        current = havoc(current, nested.flatMap(n => assignedNames(n.text)));
+      }
+    }
+  }
+  return current;
+}
+
+function flattenStatements(nodes: StatementNode[]): StatementNode[] {
+  return nodes.flatMap(node => [node, ...flattenStatements(node.children)]);
+}
+
+// ── Route graph ──────────────────────────────────────────────────────────────
+
+function collectVolatileNames(blocks: { content: string }[]): Set<string> {
+  const names = new Set<string>();
+  for (const block of blocks) {
+    for (const match of block.content.matchAll(VOLATILE_ACTION_RE)) names.add(normalizeName(match[1]));
+    let defIndent = -1;
+    for (const line of block.content.split('\n')) {
+      if (!line.trim()) continue;
+      const indent = line.match(/^\s*/)![0].length;
+      if (defIndent !== -1 && indent <= defIndent) defIndent = -1;
+      const def = line.match(DEF_RE);
+      if (def && defIndent === -1) {
+        defIndent = def[1].length;
+        continue;
+      }
+      if (defIndent === -1) continue;
+      const global = line.match(GLOBAL_RE);
+      if (global) global[1].split(',').forEach(name => names.add(name.trim()));
+      for (const match of line.matchAll(STORE_ASSIGN_RE)) names.add(match[1]);
+    }
+  }
+  return names;
+}
+
+/** Labels the game runs with the initial values of its variables */
+const GAME_START_LABELS = new Set(['start', 'splashscreen']);
+
+const isDebugPlaceholderFile = (filePath?: string) => !!filePath && filePath.endsWith('debug_placeholders.rpy');
+
+/**
+ * Simulates tracked variables along the route graph.
+ *
+ * @param blocks - Blocks of the project
+ * @param result - Analysis result with variables and the route graph from `performRouteAnalysis`
+ * @param previous - Simulation of the last run, whose per-route results are reused where nothing they depend on changed
+ * @returns Feasibility of labels, links and routes, and warnings for endings no path can reach
+ */
+export function performRouteSimulation(
+  blocks: { id: string; content: string; filePath?: string }[],
+  result: Pick<RenpyAnalysisResult, 'variables' | 'labelNodes' | 'routeLinks' | 'identifiedRoutes'>,
+  previous?: RouteSimulation,
+): { routeSimulation: RouteSimulation; routeDiagnostics: RouteDiagnostic[] } {
+  const { labelNodes, routeLinks, identifiedRoutes } = result;
+  const blockById = new Map(blocks.filter(b => !isDebugPlaceholderFile(b.filePath)).map(b => [b.id, b]));
+
+  // Statement trees of each label body
+  const bodies = new Map<string, StatementNode[]>();
+  const nodesByBlock = new Map<string, LabelNode[]>();
+  for (const node of labelNodes) nodesByBlock.set(node.blockId, [...(nodesByBlock.get(node.blockId) ?? []), node]);
+  for (const [blockId, nodes] of nodesByBlock) {
+    const block = blockById.get(blockId);
+    if (!block) continue;
+    const physicalLines = block.content.split('\n');
+    const logicalLines = getLogicalLines(block.content);
+    const mask = getTripleQuotedLineMask(block.content);
+    const sorted = [...nodes].sort((a, b) => a.startLine - b.startLine);
+    sorted.forEach((node, i) => {
+      const end = sorted[i + 1]?.startLine ?? Infinity;
+      bodies.set(node.id, buildStatementTree(physicalLines, logicalLines.filter(l => l.startLine > node.startLine && l.startLine < end), mask));
+    });
+  }
+
+  const outgoing = new Map<string, RouteLink[]>();
+  const incomingCount = new Map<string, number>();
+  for (const link of routeLinks) {
+    outgoing.set(link.sourceId, [...(outgoing.get(link.sourceId) ?? []), link]);
+    incomingCount.set(link.targetId, (incomingCount.get(link.targetId) ?? 0) + 1);
+  }
+
+  // Variables a call may change: everything assigned in labels reachable from the callee
+  const assignedByNode = new Map<string, Set<string>>();
+  // Names label bodies mention; defines only screens or styles read are not worth tracking
+  const mentioned = new Set<string>();
+  for (const [id, body] of bodies) {
+    const assigned = new Set<string>();
+    for (const statement of flattenStatements(body)) {
+      const code = statement.text.startsWith('$') ? statement.text.slice(1).trim() : statement.text;
+      assignedNames(code).forEach(name => assigned.add(name));
+      for (const match of code.matchAll(NAME_RE)) mentioned.add(normalizeName(match[0]));
+    }
+    assignedByNode.set(id, assigned);
+  }
+  const allAssigned = new Set([...assignedByNode.values()].flatMap(set => [...set]));
+  const nodeByLabel = new Map(labelNodes.map(node => [node.label, node]));
+  const callCache = new Map<string, Set<string>>();
+  const changedByCall = (label: string | null): Set<string> => {
+    const start = label ? nodeByLabel.get(label) : undefined;
+    if (!start) return allAssigned;
+    let changed = callCache.get(start.id);
+    if (!changed) {
+      changed = new Set<string>();
+      const seen = new Set([start.id]);
+      const queue = [start.id];
+      while (queue.length > 0) {
+        const id = queue.shift()!;
+        assignedByNode.get(id)?.forEach(name => changed!.add(name));
+        for (const link of outgoing.get(id) ?? []) {
+          if (!seen.has(link.targetId)) { seen.add(link.targetId); queue.push(link.targetId); }
+        }
+      }
+      callCache.set(start.id, changed);
+    }
+    return changed;
+  };
+
+  const volatile = collectVolatileNames([...blockById.values()]);
+  const ctx: SimulationContext = {
+    isVolatile: name => volatile.has(name) || name.startsWith('persistent.') || name.startsWith('config.') || name.startsWith('_'),
+    changedByCall,
+  };
+
+  // Values at game start
+  const initial: SimState = { vars: new Map(), uncertain: false };
+  for (const variable of result.variables.values()) {
+    if (variable.type === 'implicit' || ctx.isVolatile(variable.name) || !mentioned.has(variable.name)) continue;
+    const value = evaluate(parseExpression(variable.initialValue), initial);
+    if (value.kind !== 'top') initial.vars.set(variable.name, value);
+  }
+
+  const runCache = new Map<string, LabelRun>();
+  const runNode = (id: string, entry: SimState): LabelRun => {
+    const key = `${id}|${stateKey(entry)}`;
+    let run = runCache.get(key);
+    if (!run) {
+      run = { lineStates: new Map(), exit: null };
+      run.exit = runBlock(bodies.get(id) ?? [], entry, run, ctx, false);
+      runCache.set(key, run);
+    }
+    return run;
+  };
+  const linkState = (link: RouteLink, run: LabelRun, entry: SimState): MaybeState => {
+    if (link.type === 'implicit') return run.exit;
+    // A jump the statement walk never visited sits in a construct it does not model
+    if (link.sourceLine === undefined || !run.lineStates.has(link.sourceLine)) return markUncertain(entry);
+    return run.lineStates.get(link.sourceLine)!;
+  };
+
+  // Propagate entry states along the links until they stop changing. The game
+  // starts with the initial values; other labels nothing jumps to are reached
+  // from screens or Python, with values the simulator cannot know
+  const entryNodes = labelNodes.filter(n => !incomingCount.has(n.id) || GAME_START_LABELS.has(n.label));
+  const entryNodeIds = entryNodes.map(n => n.id);
+  const propagate = (starts: LabelNode[], allowed?: Set<string>): Map<string, SimState> => {
+    const reached = new Map<string, SimState>();
+    const updates = new Map<string, number>();
+    const queue: string[] = [];
+    for (const node of starts) {
+      reached.set(node.id, GAME_START_LABELS.has(node.label) ? initial : { vars: new Map(), uncertain: false });
+      queue.push(node.id);
+    }
+    for (let steps = 0; queue.length > 0 && steps < labelNodes.length * 50; steps++) {
+      const id = queue.shift()!;
+      const entry = reached.get(id)!;
+      const run = runNode(id, entry);
+      for (const link of outgoing.get(id) ?? []) {
+        if (allowed && !allowed.has(link.id)) continue;
+        const state = linkState(link, run, entry);
+        if (!state) continue;
+        const previous = reached.get(link.targetId);
+        let next = previous ? joinStates(previous, state)! : state;
+        const count = updates.get(link.targetId) ?? 0;
+        if (previous && count >= 3) next = widenStates(previous, next);
+        if (previous && stateKey(previous) === stateKey(next)) continue;
+        reached.set(link.targetId, next);
+        updates.set(link.targetId, count + 1);
+        if (!queue.includes(link.targetId)) queue.push(link.targetId);
+      }
+    }
+    return reached;
+  };
+  const entries = propagate(entryNodes);
+
+  // Labels some entry point reaches when conditions are ignored
+  const structurallyReachable = new Set(entryNodeIds);
+  const pending = [...entryNodeIds];
+  while (pending.length > 0) {
+    for (const link of outgoing.get(pending.pop()!) ?? []) {
+      if (!structurallyReachable.has(link.targetId)) {
+        structurallyReachable.add(link.targetId);
+        pending.push(link.targetId);
+      }
+    }
+  }
+
+  const classify = (state: MaybeState | undefined): RouteFeasibility =>
+    !state ? 'infeasible' : state.uncertain ? 'unknown' : 'feasible';
+
+  const nodes = new Map<string, RouteFeasibility>();
+  const entryStates = new Map<string, Record<string, string>>();
+  for (const node of labelNodes) {
+    if (!structurallyReachable.has(node.id)) continue;
+    const entry = entries.get(node.id);
+    nodes.set(node.id, classify(entry));
+    if (entry) {
+      entryStates.set(node.id, Object.fromEntries(
+        [...entry.vars].sort(([a], [b]) => a.localeCompare(b)).map(([name, value]) => [name, formatValue(value)]),
+      ));
+    }
+  }
+
+  const links = new Map<string, RouteFeasibility>();
+  for (const link of routeLinks) {
+    if (!structurallyReachable.has(link.sourceId)) continue;
+    const entry = entries.get(link.sourceId);
+    links.set(link.id, entry ? classify(linkState(link, runNode(link.sourceId, entry), entry)) : 'infeasible');
+  }
+
+  // A route's results depend on its links, the statements of its labels, what the calls
+  // among them may change and the values at game start
+  const contextKey = `${labelNodes.length}|${stateKey(initial)}|${[...volatile].sort().join(',')}`;
+  const nodeKeys = new Map<string, string>();
+  const nodeKey = (id: string) => {
+    let key = nodeKeys.get(id);
+    if (key === undefined) {
+      const statements = flattenStatements(bodies.get(id) ?? []).map(statement => {
+        const call = statement.text.match(CALL_RE);
+        const changed = call ? ` -> ${[...changedByCall(call[1] ? null : call[2])].sort().join(',')}` : '';
+        return `${statement.line}:${statement.text}${changed}`;
+      });
+      key = md5(`${incomingCount.has(id)}\n${statements.join('\n')}`);
+      nodeKeys.set(id, key);
+    }
+    return key;
+  };
+  const previousRouteIds = new Map([...(previous?.routeSignatures ?? [])].map(([id, signature]) => [signature, id]));
+
+  // Each route is simulated on its own links only, so values set on branches
+  // it does not take do not reach it
+  const routes = new Map<number, RouteFeasibility>();
+  const routeRanges = new Map<number, Record<string, { min: number; max: number }>>();
+  const routeSignatures = new Map<number, string>();
+  for (const route of identifiedRoutes) {
+    const ownLinks = routeLinks.filter(link => route.linkIds.has(link.id));
+    const ownNodeIds = [...new Set([route.endingNodeId, ...ownLinks.flatMap(link => [link.sourceId, link.targetId])])];
+    const signature = md5([
+      contextKey,
+      route.endingNodeId,
+      ownLinks.map(link => `${link.sourceId}>${link.targetId}:${link.type}:${link.sourceLine ?? ''}`).join('|'),
+      ownNodeIds.map(id => `${id}=${nodeKey(id)}`).join('|'),
+    ].join('\n'));
+    routeSignatures.set(route.id, signature);
+    const previousId = previousRouteIds.get(signature);
+    if (previous && previousId !== undefined && previous.routes.has(previousId)) {
+      routes.set(route.id, previous.routes.get(previousId)!);
+      const ranges = previous.routeRanges.get(previousId);
+      if (ranges) routeRanges.set(route.id, ranges);
+      continue;
+    }
+
+    const routeEntries = propagate(entryNodes.filter(node => outgoing.get(node.id)?.some(link => route.linkIds.has(link.id))), route.linkIds);
+    routes.set(route.id, classify(routeEntries.get(route.endingNodeId)));
+    let seen: MaybeState = null;
+    for (const [id, entry] of routeEntries) {
+      seen = joinStates(seen, entry);
+      for (const lineState of runNode(id, entry).lineStates.values()) seen = joinStates(seen, lineState);
+    }
+    if (seen) routeRanges.set(route.id, numericRanges(seen));
+  }
+
+  // Endings: labels with no way out that are not subroutines
+  const jumpedTo = new Set(routeLinks.filter(link => link.type !== 'call').map(link => link.targetId));
+  const routeDiagnostics: RouteDiagnostic[] = [];
+  for (const node of labelNodes) {
+    if (nodes.get(node.id) !== 'infeasible' || outgoing.has(node.id) || !jumpedTo.has(node.id)) continue;
+    const line = blockById.get(node.blockId)?.content.split('\n')[node.startLine - 1] ?? '';
+    const column = Math.max(line.search(new RegExp(`\\b${node.label.replace(/\./g, '\\.')}\\b`)), 0) + 1;
+    routeDiagnostics.push({
+      blockId: node.blockId,
+      severity: 'warning',
+      line: node.startLine,
+      column,
+      endColumn: column + node.label.length,
+      message: `Ending "${node.label}" is unreachable: every path to it fails a condition`,
+    });
+  }
+
+  return { routeSimulation: { nodes, links, routes, entryStates, routeRanges, routeSignatures }, routeDiagnostics };
+}
+
+function numericRanges(state: SimState): Record<string, { min: number; max: number }> {
+  const ranges: Record<string, { min: number; max: number }> = {};
+  for (const [name, value] of [...state.vars].sort(([a], [b]) => a.localeCompare(b))) {
+    if (value.kind === 'number') ranges[name] = { min: value.min, max: value.max };
+  }
+  return ranges;
+}
@@ -0,0 +1,142 @@
+import { performScreenAnalysis } from './renpyScreenAnalysis';
+import { performRenpyAnalysis } from '@/hooks/useRenpyAnalysis';
+
+const analyse = (content: string, extra: { id: string; content: string }[] = []) => {
+  const blocks = [{ id: 'b1', content }, ...extra];
+  return performScreenAnalysis(blocks, performRenpyAnalysis(blocks))
+    .map(d => [d.kind, d.severity, d.line, d.column, d.message]);
+};
+
+describe('performScreenAnalysis', () => {
+  it('accepts valid screen code', () => {
+    expect(analyse([
+      'screen main_menu():',
+      '    tag menu',
+      '    modal True',
+      '    default page = 1',
+      '    style_prefix "main"',
+      '    frame:',
+      '        xalign 0.5 ypos 100',
+      '        has vbox',
+      '        spacing 10',
+      '        textbutton _("Start") action Start() text_hover_color "#fff"',
+      '        textbutton "Back":',
+      '            action [SetScreenVariable("page", page - 1), Return()]',
+      '            sensitive page > 1',
+      '        if page > 1:',
+      '            text "Page [page]" size 20 substitute True',
+      '        for i, item in enumerate(items):',
+      '            add item.icon zoom 0.5 at truecenter',
+      '    viewport id "vp":',
+      '        scrollbars "vertical"',
+      '        side_yfill True',
+      '        mousewheel True',
+      '    grid 2 1:',
+      '        null width 10',
+      '        bar value VariableValue("volume", 1.0) xsize 200',
+      '    transform:',
+      '        linear 0.5 alpha 1.0',
+      '    $ total = 1',
+      '    key "K_ESCAPE" action Return()',
+      '    timer 1.0 repeat True action Notify("tick")',
+    ].join('\n'))).toEqual([]);
+  });
+
+  it('reports properties that are not valid for the displayable', () => {
+    expect(analyse([
+      'screen hud():',
+      '    zorder 10',
+      '    bogus 1',
+      '    vbox:',
+      '        xalgn 0.5',
+      '        hbox spacing 5 text_size 20',
+      '        textbutton "Go" action Return() box_wrap True',
+    ].join('\n'))).toEqual([
+      ['property', 'error', 3, 5, '"bogus" is not a screen property or screen language statement'],
+      ['property', 'error', 5, 9, '"xalgn" is not a valid property of vbox'],
+      ['property', 'error', 6, 24, '"text_size" is not a valid property of hbox'],
+      ['property', 'error', 7, 41, '"box_wrap" is not a valid property of textbutton'],
+    ]);
+  });
+
+  it('reports unknown actions but accepts project-defined ones', () => {
+    expect(analyse([
+      'init python:',
+      '    class Boost(Action):',
+      '        pass',
+      'screen shop():',
+      '    textbutton "Buy" action Jmp("buy")',
+      '    textbutton "Boost" action [Boost(), Notify("Boosted")]',
+      '    textbutton "Both" action [SetVariable("gold", 0), Refund()] hovered Tooltip("x")',
+      '    textbutton "Call" action renpy.restart_interaction()',
+    ].join('\n'))).toEqual([
+      ['action', 'warning', 5, 29, 'Unknown action "Jmp"'],
+      ['action', 'warning', 7, 55, 'Unknown action "Refund"'],
+      ['action', 'warning', 7, 73, 'Unknown action "Tooltip"'],
+    ]);
+  });
+
+  it('checks use statements against the screen parameter list', () => {
+    const screens = {
+      id: 'b2',
+      content: [
+        'screen card(title, subtitle=None):',
+        '    text title',
+        'screen panel(title, **kwargs):',
+        '    text title',
+        'screen plain:',
+        '    text "x"',
+      ].join('\n'),
+    };
+    expect(analyse([
+      'screen main():',
+      '    use card("Hi")',
+      '    use card(title="Hi", subtitle="There")',
+      '    use card()',
+      '    use card("a", "b", "c")',
+      '    use card("a", colour="red")',
+      '    use panel("a", colour="red")',
+      '    use plain',
+      '    use plain("x")',
+      '    use missing_screen',
+      '    use expression "card" pass ("Hi",)',
+    ].join('\n'), [screens])).toEqual([
+      ['use', 'error', 4, 13, 'Screen "card" is missing required argument "title"'],
+      ['use', 'error', 5, 13, 'Screen "card" takes 2 positional arguments but 3 were given'],
+      ['use', 'error', 6, 13, 'Screen "card" has no parameter "colour"'],
+      ['use', 'error', 9, 14, 'Screen "plain" does not take arguments'],
+      ['use', 'warning', 10, 9, 'Screen "missing_screen" is used but never defined'],
+    ]);
+  });
+
+  it('resolves style references through defined styles and prefix fallback', () => {
+    expect(analyse([
+      'style fancy_frame:',
+      '    background "#000"',
+      'init python:',
+      '    style.legacy = Style(style.default)',
+      'screen main():',
+      '    frame style "fancy_frame"',
+      '    frame style "my_frame"',
+      '    frame style "legacy"',
+      '    frame style "mystery"',
+      '    textbutton "x" text_style "nowhere" action Return()',
+    ].join('\n'))).toEqual([
+      ['style', 'warning', 9, 17, 'Style "mystery" is not defined'],
+      ['style', 'warning', 10, 31, 'Style "nowhere" is not defined'],
+    ]);
+  });
+
+  it('ignores Python blocks and code outside screens', () => {
+    expect(analyse([
+      'label start:',
+      '    bogus 1',
+      'screen main():',
+      '    python:',
+      '        bogus = 1',
+      '    text "ok"',
+      'label after:',
+      '    xalgn 0.5',
+    ].join('\n'))).toEqual([]);
+  });
+});
@@ -0,0 +1,516 @@
+/**
+ * @file renpyScreenAnalysis.ts
+ * @description Validation of Ren'Py screen language (`screen name(...):` blocks).
+ * `validateRenpyCode` skips most of its rules inside screens, so this pass
+ * checks screen code on its own terms:
+ *  - properties are valid for the displayable they are given to
+ *    (`vbox`, `frame`, `textbutton`, `viewport`, ...) or for the screen itself
+ *  - calls in `action` / `alternate` / `hovered` / `unhovered` clauses name a
+ *    Ren'Py action or a class/function defined by the project
+ *  - `use` statements name a known screen and pass arguments its parameter
+ *    list accepts
+ *  - `style "name"` references resolve to a defined or built-in style, using
+ *    Ren'Py's rule that `a_b` falls back to `b` when `a_b` is not defined
+ * Runs inside `renpyAnalysis.worker.ts`, after `performPythonAnalysis`.
+ */
+
+import type { RenpyAnalysisResult, RenpyScreen, RenpyStyle, ScreenDiagnostic } from '@/types';
+import { getLogicalLines, stripTrailingComment } from './renpyLogicalLines';
+import { getTripleQuotedLineMask } from './renpyTripleQuotes';
+import { skipSimpleExpression, splitOnCommas, tokenizeRenpyLine } from './renpySimpleExpressions';
+import type { RenpyToken } from './renpySimpleExpressions';
+import { styleExists } from './renpyStyles';
+
+// ── Properties ───────────────────────────────────────────────────────────────
+
+/** Properties every displayable accepts. */
+const COMMON_PROPERTIES = [
+  'at', 'id', 'style', 'style_prefix', 'style_group', 'style_suffix', 'focus', 'default_focus',
+  'tooltip', 'arguments', 'properties', 'prefer_screen_to_id', 'alt', 'group_alt', 'extra_alt',
+];
+
+/** Position and size properties. Also valid in ATL. */
+export const POSITION_PROPERTIES = [
+  'pos', 'xpos', 'ypos', 'anchor', 'xanchor', 'yanchor', 'align', 'xalign', 'yalign',
+  'xycenter', 'xcenter', 'ycenter', 'offset', 'xoffset', 'yoffset', 'maximum', 'xmaximum',
+  'ymaximum', 'minimum', 'xminimum', 'yminimum', 'xsize', 'ysize', 'xysize', 'xfill', 'yfill',
+  'area', 'mipmap', 'xfit', 'yfit',
+];
+
+const TEXT_PROPERTIES = [
+  'antialias', 'adjust_spacing', 'altruby_style', 'axis', 'black_color', 'bold', 'caret', 'color',
+  'drop_shadow', 'drop_shadow_color', 'emoji_font', 'first_indent', 'font', 'hinting',
+  'hyperlink_functions', 'instance', 'italic', 'justify', 'kerning', 'language', 'layout',
+  'line_leading', 'line_overlap_split', 'line_spacing', 'min_width', 'newline_indent', 'outlines',
+  'outline_scaling', 'prefer_emoji', 'rest_indent', 'ruby_line_leading', 'ruby_style', 'shaper',
+  'size', 'slow_abortable', 'slow_cps', 'slow_cps_multiplier', 'strikethrough', 'text_align',
+  'textalign', 'textshader', 'underline', 'vertical',
+];
+
+/** Non-style properties of displayables that show text. */
+const TEXT_DISPLAY_PROPERTIES = ['slow', 'slow_done', 'substitute', 'scope', 'tokenized'];
+
+const WINDOW_PROPERTIES = [
+  'background', 'foreground', 'left_margin', 'right_margin', 'top_margin', 'bottom_margin',
+  'xmargin', 'ymargin', 'margin', 'left_padding', 'right_padding', 'top_padding',
+  'bottom_padding', 'xpadding', 'ypadding', 'padding', 'size_group', 'modal',
+];
+
+const BUTTON_PROPERTIES = [
+  'child', 'hover_sound', 'activate_sound', 'mouse', 'focus_mask', 'keyboard_focus',
+  'keyboard_focus_insets', 'key_events', 'action', 'alternate', 'hovered', 'unhovered',
+  'selected', 'sensitive', 'keysym', 'alternate_keysym', 'clicked',
+];
+
+const BAR_PROPERTIES = [
+  'bar_vertical', 'bar_invert', 'bar_resizing', 'left_gutter', 'right_gutter', 'top_gutter',
+  'bottom_gutter', 'left_bar', 'right_bar', 'top_bar', 'bottom_bar', 'base_bar', 'thumb',
+  'thumb_shadow', 'thumb_offset', 'mouse', 'unscrollable', 'keyboard_focus', 'adjustment',
+  'range', 'value', 'changed', 'hovered', 'unhovered', 'released',
+];
+
+const BOX_PROPERTIES = [
+  'spacing', 'first_spacing', 'box_reverse', 'box_wrap', 'box_wrap_spacing', 'box_align',
+  'order_reverse', 'fit_first',
+];
+
+const GRID_PROPERTIES = ['spacing', 'xspacing', 'yspacing', 'transpose', 'allow_underfull'];
+
+const VIEWPORT_PROPERTIES = [
+  'child_size', 'mousewheel', 'draggable', 'edgescroll', 'xadjustment', 'yadjustment',
+  'xinitial', 'yinitial', 'scrollbars', 'arrowkeys', 'pagekeys',
+];
+
+/** Transform properties, accepted by `add`, `image` and `transform` in screens and by ATL. */
+export const TRANSFORM_PROPERTIES = [
+  'alpha', 'additive', 'align', 'alignaround', 'angle', 'anchor', 'anchorangle', 'anchoraround',
+  'anchorradius', 'around', 'blend', 'blur', 'corner1', 'corner2', 'crop', 'crop_relative',
+  'delay', 'events', 'fit', 'fps', 'matrixanchor', 'matrixcolor', 'matrixtransform', 'maxsize',
+  'mesh', 'mesh_pad', 'nearest', 'perspective', 'radius', 'rotate', 'rotate_pad', 'shader',
+  'show_cancels_hide', 'size', 'subpixel', 'transform_anchor', 'xaround', 'xpan', 'xtile',
+  'xzoom', 'yaround', 'ypan', 'ytile', 'yzoom', 'zoom', 'zpos', 'zzoom',
+];
+
+/** Properties of the `screen` statement itself. */
+const SCREEN_PROPERTIES = new Set([
+  'modal', 'tag', 'zorder', 'variant', 'style_prefix', 'style_group', 'layer', 'sensitive',
+  'roll_forward', 'predict',
+]);
+
+/** Prefixes that apply a style property to one state of a displayable (`hover_color`). */
+const STYLE_STATE_PREFIX_RE = /^(?:selected_)?(?:(?:idle|hover|insensitive|activate)_)?/;
+
+interface DisplayableSpec {
+  /** Number of positional arguments before the properties (`grid 2 3`, `text "..."`) */
+  positional: number;
+  properties: Set<string>;
+  /** Sub-displayable prefixes, e.g. `text_` on a textbutton styles its label */
+  prefixed?: Record<string, Set<string>>;
+  /** Accepts shader uniforms (`u_*`, `gl_*`) like a transform */
+  uniforms?: boolean;
+  /** The block holds something other than screen language (ATL) */
+  opaqueBlock?: boolean;
+}
+
+const spec = (positional: number, ...groups: string[][]): DisplayableSpec => ({
+  positional,
+  properties: new Set(groups.flat()),
+});
+
+const VIEWPORT_PREFIXES: Record<string, Set<string>> = {
+  side_: new Set([...POSITION_PROPERTIES, 'spacing']),
+  scrollbar_: new Set([...POSITION_PROPERTIES, ...BAR_PROPERTIES]),
+  vscrollbar_: new Set([...POSITION_PROPERTIES, ...BAR_PROPERTIES]),
+  viewport_: new Set(POSITION_PROPERTIES),
+};
+const TEXT_PREFIX: Record<string, Set<string>> = { text_: new Set([...POSITION_PROPERTIES, ...TEXT_PROPERTIES]) };
+
+const DISPLAYABLES: Record<string, DisplayableSpec> = {
+  add: { ...spec(1, POSITION_PROPERTIES, TRANSFORM_PROPERTIES), uniforms: true },
+  image: { ...spec(1, POSITION_PROPERTIES, TRANSFORM_PROPERTIES), uniforms: true },
+  areapicker: spec(0, POSITION_PROPERTIES, ['cols', 'rows', 'position', 'changed', 'finished', 'persist']),
+  bar: spec(0, POSITION_PROPERTIES, BAR_PROPERTIES),
+  vbar: spec(0, POSITION_PROPERTIES, BAR_PROPERTIES),
+  button: spec(0, POSITION_PROPERTIES, WINDOW_PROPERTIES, BUTTON_PROPERTIES),
+  dismiss: spec(0, POSITION_PROPERTIES, ['action', 'modal', 'keysym']),
+  drag: spec(0, POSITION_PROPERTIES, [
+    'drag_name', 'draggable', 'droppable', 'drag_raise', 'dragging', 'dragged', 'dropped',
+    'drag_handle', 'drag_joined', 'drag_offscreen', 'clicked', 'hovered', 'unhovered',
+    'focus_mask', 'mouse_drop', 'alternate', 'activated', 'snapped', 'child',
+  ]),
+  draggroup: spec(0, POSITION_PROPERTIES, ['min_overlap']),
+  fixed: spec(0, POSITION_PROPERTIES, BOX_PROPERTIES),
+  frame: spec(0, POSITION_PROPERTIES, WINDOW_PROPERTIES),
+  window: spec(0, POSITION_PROPERTIES, WINDOW_PROPERTIES),
+  grid: spec(2, POSITION_PROPERTIES, GRID_PROPERTIES),
+  hbox: spec(0, POSITION_PROPERTIES, BOX_PROPERTIES),
+  vbox: spec(0, POSITION_PROPERTIES, BOX_PROPERTIES),
+  hotbar: spec(1, POSITION_PROPERTIES, BAR_PROPERTIES),
+  hotspot: spec(1, POSITION_PROPERTIES, WINDOW_PROPERTIES, BUTTON_PROPERTIES),
+  imagebutton: spec(0, POSITION_PROPERTIES, WINDOW_PROPERTIES, BUTTON_PROPERTIES, [
+    'auto', 'idle', 'hover', 'insensitive', 'selected_idle', 'selected_hover',
+    'selected_insensitive', 'image_style',
+  ]),
+  imagemap: spec(0, POSITION_PROPERTIES, [
+    'ground', 'idle', 'hover', 'insensitive', 'selected_idle', 'selected_hover',
+    'selected_insensitive', 'auto', 'alpha', 'cache',
+  ]),
+  input: spec(0, POSITION_PROPERTIES, TEXT_PROPERTIES, [
+    'value', 'default', 'length', 'allow', 'exclude', 'copypaste', 'prefix', 'suffix', 'changed',
+    'pixel_width', 'mask', 'caret_blink', 'multiline', 'action',
+  ]),
+  key: spec(1, ['action', 'capture']),
+  label: { ...spec(1, POSITION_PROPERTIES, WINDOW_PROPERTIES, TEXT_DISPLAY_PROPERTIES), prefixed: TEXT_PREFIX },
+  mousearea: spec(0, POSITION_PROPERTIES, ['hovered', 'unhovered', 'focus_mask']),
+  nearrect: spec(0, POSITION_PROPERTIES, ['rect', 'prefer_top']),
+  null: spec(0, POSITION_PROPERTIES, ['width', 'height']),
+  on: spec(1, ['action']),
+  side: spec(1, POSITION_PROPERTIES, ['spacing']),
+  text: spec(1, POSITION_PROPERTIES, TEXT_PROPERTIES, TEXT_DISPLAY_PROPERTIES),
+  textbutton: {
+    ...spec(1, POSITION_PROPERTIES, WINDOW_PROPERTIES, BUTTON_PROPERTIES, TEXT_DISPLAY_PROPERTIES, ['text_style']),
+    prefixed: TEXT_PREFIX,
+  },
+  timer: spec(1, ['action', 'repeat', 'modal']),
+  transform: { ...spec(0, POSITION_PROPERTIES, TRANSFORM_PROPERTIES), uniforms: true, opaqueBlock: true },
+  viewport: { ...spec(0, POSITION_PROPERTIES, VIEWPORT_PROPERTIES), prefixed: VIEWPORT_PREFIXES },
+  vpgrid: {
+    ...spec(0, POSITION_PROPERTIES, VIEWPORT_PROPERTIES, GRID_PROPERTIES, ['cols', 'rows']),
+    prefixed: VIEWPORT_PREFIXES,
+  },
+};
+
+/** Screen statements that hold a block but are not displayables. */
+const CONTROL_STATEMENTS = new Set(['if', 'elif', 'else', 'for', 'while', 'showif']);
+
+/** Properties whose value is an action (or list of actions). */
+const ACTION_PROPERTIES = new Set(['action', 'alternate', 'hovered', 'unhovered']);
+
+/** Properties whose string value names a style. */
+const STYLE_REFERENCE_PROPERTIES = new Set(['style', 'text_style']);
+
+// ── Actions and styles ───────────────────────────────────────────────────────
+
+const RENPY_ACTIONS = new Set([
+  // Control
+  'Call', 'Hide', 'Jump', 'NullAction', 'Return', 'Show', 'ShowTransient', 'ToggleScreen',
+  // Data
+  'AddToSet', 'RemoveFromSet', 'ToggleSetMembership', 'SetDict', 'SetField', 'SetLocalVariable',
+  'SetScreenVariable', 'SetVariable', 'ToggleDict', 'ToggleField', 'ToggleLocalVariable',
+  'ToggleScreenVariable', 'ToggleVariable', 'CycleDict', 'CycleField', 'CycleLocalVariable',
+  'CycleScreenVariable', 'CycleVariable', 'IncrementDict', 'IncrementField',
+  'IncrementLocalVariable', 'IncrementScreenVariable', 'IncrementVariable',
+  // Menus
+  'MainMenu', 'Quit', 'ShowMenu', 'Start', 'Help', 'Continue',
+  // Files
+  'FileAction', 'FileDelete', 'FileLoad', 'FilePage', 'FilePageNext', 'FilePagePrevious',
+  'FileSave', 'FileTakeScreenshot', 'QuickLoad', 'QuickSave',
+  // Audio
+  'Play', 'Queue', 'SetMixer', 'SetMute', 'Stop', 'ToggleMute', 'PauseAudio',
+  'SetCharacterVolume', 'PlayCharacterVoice', 'ToggleVoiceMute', 'SetVoiceMute',
+  // Focus
+  'CaptureFocus', 'ClearFocus', 'ToggleFocus',
+  // Other
+  'Confirm', 'DisableAllInputValues', 'Function', 'GamepadCalibrate', 'Language', 'Notify',
+  'OpenDirectory', 'OpenURL', 'Preference', 'HideInterface', 'If', 'InvertSelected',
+  'MouseMove', 'QueueEvent', 'Replay', 'EndReplay', 'RestartStatement', 'RollForward',
+  'Rollback', 'RollbackToIdentifier', 'Screenshot', 'Scroll', 'SelectedIf', 'SensitiveIf',
+  'Skip', 'With', 'ExecJS', 'UploadSync', 'DownloadSync',
+  // Values with actions
+  'AnimatedValue', 'AudioPositionValue', 'DictValue', 'FieldValue', 'MixerValue',
+  'ScreenVariableValue', 'LocalVariableValue', 'StaticValue', 'VariableValue',
+  'XScrollValue', 'YScrollValue', 'DictInputValue', 'FieldInputValue', 'FilePageNameInputValue',
+  'ScreenVariableInputValue', 'LocalVariableInputValue', 'VariableInputValue',
+]);
+
+const SCREEN_HEADER_RE = /^(\s*)screen\s+(\w+)/;
+const CALLABLE_DEF_RE = /^\s*(?:class|def)\s+([a-zA-Z_]\w*)/;
+const REGISTERED_STATEMENT_RE = /\bregister_sl_(?:statement|displayable)\(\s*["'](\w+)["']/g;
+
+// ── Screen parameters ────────────────────────────────────────────────────────
+
+interface ScreenSignature {
+  positional: string[];
+  required: Set<string>;
+  keywords: Set<string>;
+  varargs: boolean;
+  kwargs: boolean;
+}
+
+/** Parses `RenpyScreen.parameters` (`"(title, scroll=None, **kwargs)"`); null if the screen takes none. */
+function parseScreenSignature(screen: RenpyScreen): ScreenSignature | null {
+  if (!screen.parameters.trim()) return null;
+  const inner = screen.parameters.trim().replace(/^\(/, '').replace(/\)$/, '');
+  const signature: ScreenSignature = { positional: [], required: new Set(), keywords: new Set(), varargs: false, kwargs: false };
+  let keywordOnly = false;
+  const parts = splitOnCommas(tokenizeRenpyLine(inner));
+  for (const part of parts) {
+    const text = inner.slice(part[0].start, part[part.length - 1].end).trim();
+    if (text === '/') continue;
+    if (text === '*') { keywordOnly = true; continue; }
+    if (text.startsWith('**')) { signature.kwargs = true; continue; }
+    if (text.startsWith('*')) { signature.varargs = true; keywordOnly = true; continue; }
+    const name = text.split(/[=:]/)[0].trim();
+    signature.keywords.add(name);
+    if (!keywordOnly) signature.positional.push(name);
+    if (!text.includes('=')) signature.required.add(name);
+  }
+  return signature;
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * Checks the arguments of a `use` statement against the used screen's parameters.
+ *
+ * @returns An error message, or null if the call is acceptable
+ */
+function checkUseArguments(screen: RenpyScreen, args: RenpyToken | undefined, text: string): string | null {
+  const signature = parseScreenSignature(screen);
+  const argParts = args ? splitOnCommas(tokenizeRenpyLine(text, args.start + 1, args.end - 1)) : [];
+  if (!signature) {
+    return argParts.length > 0 ? `Screen "${screen.name}" does not take arguments` : null;
+  }
+  if (argParts.some(part => part[0].type === 'op' && /^\*\*?$/.test(part[0].value))) return null;
+
+  const positional = argParts.filter(part => !(part[0].type === 'name' && part[1]?.type === 'op' && part[1].value === '='));
+  const keywords = argParts.filter(part => !positional.includes(part)).map(part => part[0].value);
+  if (positional.length > signature.positional.length && !signature.varargs) {
+    return `Screen "${screen.name}" takes ${plural(signature.positional.length, 'positional argument')} but ${positional.length} ${positional.length === 1 ? 'was' : 'were'} given`;
+  }
+  const unknown = keywords.find(keyword => !signature.keywords.has(keyword));
+  if (unknown && !signature.kwargs) return `Screen "${screen.name}" has no parameter "${unknown}"`;
+  const supplied = new Set([...signature.positional.slice(0, positional.length), ...keywords]);
+  const missing = [...signature.required].filter(name => !supplied.has(name));
+  if (missing.length > 0) {
+    return `Screen "${screen.name}" is missing required ${missing.length === 1 ? 'argument' : 'arguments'} ${missing.map(m => `"${m}"`).join(', ')}`;
+  }
+  return null;
+}
+
+// ── Validation ───────────────────────────────────────────────────────────────
+
+interface ScreenContext {
+  indent: number;
+  /** `skip` blocks (Python, ATL, unknown statements) are not screen language */
+  kind: 'screen' | 'block' | 'skip';
+  /** Displayables whose properties are accepted here; empty at screen level */
+  displayables: string[];
+}
+
+interface ProjectSymbols {
+  screens: Map<string, RenpyScreen>;
+  styles: Map<string, RenpyStyle>;
+  callables: Set<string>;
+  customStatements: Set<string>;
+}
+
+function isValidProperty(name: string, displayable: string): boolean {
+  const displayableSpec = DISPLAYABLES[displayable];
+  const base = name.replace(STYLE_STATE_PREFIX_RE, '');
+  if (COMMON_PROPERTIES.includes(name) || displayableSpec.properties.has(name) || displayableSpec.properties.has(base)) return true;
+  if (displayableSpec.uniforms && /^(?:u|gl)_/.test(name)) return true;
+  return Object.entries(displayableSpec.prefixed ?? {}).some(([prefix, properties]) =>
+    name.startsWith(prefix) && properties.has(name.slice(prefix.length).replace(STYLE_STATE_PREFIX_RE, '')));
+}
+
+/** Validates one screen-language file and appends its diagnostics. */
+function validateScreens(
+  blockId: string,
+  content: string,
+  symbols: ProjectSymbols,
+  diagnostics: ScreenDiagnostic[],
+): void {
+  const physicalLines = content.split('\n');
+  const tripleQuotedLineMask = getTripleQuotedLineMask(content);
+  const stack: ScreenContext[] = [];
+
+  for (const logical of getLogicalLines(content)) {
+    const first = physicalLines[logical.startLine - 1];
+    const trimmed = first.trim();
+    if (!trimmed || trimmed.startsWith('#') || tripleQuotedLineMask[logical.startLine - 1]) continue;
+    const indent = first.match(/^\s*/)![0].length;
+    while (stack.length > 0 && indent <= stack[stack.length - 1].indent) stack.pop();
+
+    if (stack.length === 0) {
+      if (SCREEN_HEADER_RE.test(first)) stack.push({ indent, kind: 'screen', displayables: [] });
+      continue;
+    }
+    const context = stack[stack.length - 1];
+    if (context.kind === 'skip' || trimmed.startsWith('$')) continue;
+
+    const text = physicalLines.slice(logical.startLine - 1, logical.endLine).map(stripTrailingComment).join('\n');
+    const tokens = tokenizeRenpyLine(text);
+    if (tokens.length === 0 || tokens[0].type !== 'name') continue;
+    const hasBlock = tokens[tokens.length - 1].type === 'colon';
+    const body = hasBlock ? tokens.slice(0, -1) : tokens;
+    const keyword = tokens[0].value;
+
+    const report = (kind: ScreenDiagnostic['kind'], severity: ScreenDiagnostic['severity'], token: RenpyToken, message: string) => {
+      const before = text.slice(0, token.start);
+      const column = token.start - before.lastIndexOf('\n');
+      const lineEnd = text.indexOf('\n', token.start);
+      const end = lineEnd === -1 ? token.end : Math.min(token.end, lineEnd);
+      diagnostics.push({
+        blockId, kind, severity, message,
+        line: logical.startLine + before.split('\n').length - 1,
+        column,
+        endColumn: column + Math.max(1, end - token.start),
+      });
+    };
+
+    const checkProperties = (start: number, displayables: string[]) => {
+      let i = start;
+      while (i < body.length) {
+        const property = body[i];
+        if (property.type !== 'name') return;
+        if (property.value === 'as') { i += 2; continue; }
+        const valid = displayables.length === 0
+          ? SCREEN_PROPERTIES.has(property.value)
+          : displayables.some(d => isValidProperty(property.value, d));
+        if (!valid) {
+          report('property', 'error', property, displayables.length === 0
+            ? `"${property.value}" is not a screen property or screen language statement`
+            : `"${property.value}" is not a valid property of ${displayables[displayables.length - 1]}`);
+        }
+        const valueStart = i + 1;
+        let end = skipSimpleExpression(body, valueStart);
+        while (end > valueStart && body[end]?.type === 'op' && body[end].value === ',') {
+          const next = skipSimpleExpression(body, end + 1);
+          if (next === end + 1) break;
+          end = next;
+        }
+        if (end === valueStart) return;
+        const value = body.slice(valueStart, end);
+        if (ACTION_PROPERTIES.has(property.value)) checkActions(value);
+        if (STYLE_REFERENCE_PROPERTIES.has(property.value)) checkStyle(value);
+        i = end;
+      }
+    };
+
+    const checkActions = (value: RenpyToken[]) => {
+      const elements = value.length === 1 && value[0].type === 'group' && value[0].value[0] !== '{'
+        ? splitOnCommas(tokenizeRenpyLine(text, value[0].start + 1, value[0].end - 1))
+        : [value];
+      for (const element of elements) {
+        const [callee, args] = element;
+        if (callee?.type !== 'name' || args?.type !== 'group' || args.value[0] !== '(') continue;
+        if (!/^[A-Z]/.test(callee.value) || RENPY_ACTIONS.has(callee.value) || symbols.callables.has(callee.value)) continue;
+        report('action', 'warning', callee, `Unknown action "${callee.value}"`);
+      }
+    };
+
+    const checkStyle = (value: RenpyToken[]) => {
+      if (value.length !== 1 || value[0].type !== 'string') return;
+      const name = value[0].value.slice(1, -1);
+      if (!/^[a-zA-Z_]\w*$/.test(name) || styleExists(name, symbols.styles)) return;
+      report('style', 'warning', value[0], `Style "${name}" is not defined`);
+    };
+
+    if (keyword === 'python' || (keyword === 'at' && hasBlock)) {
+      if (hasBlock) stack.push({ indent, kind: 'skip', displayables: [] });
+      continue;
+    }
+    if (keyword === 'default' || keyword === 'pass' || keyword === 'transclude') continue;
+    if (CONTROL_STATEMENTS.has(keyword)) {
+      if (hasBlock) stack.push({ indent, kind: 'block', displayables: context.displayables });
+      continue;
+    }
+    if (keyword === 'use') {
+      const target = body[1];
+      if (target?.type === 'name' && target.value !== 'expression' && !target.value.startsWith('_')) {
+        const screen = symbols.screens.get(target.value);
+        if (!screen) {
+          report('use', 'warning', target, `Screen "${target.value}" is used but never defined`);
+        } else {
+          const args = body[2]?.type === 'group' && body[2].value[0] === '(' ? body[2] : undefined;
+          const problem = checkUseArguments(screen, args, text);
+          if (problem) report('use', 'error', args ?? target, problem);
+        }
+      }
+      if (hasBlock) stack.push({ indent, kind: 'block', displayables: [] });
+      continue;
+    }
+    if (keyword === 'has') {
+      const displayable = body[1]?.value;
+      if (displayable && DISPLAYABLES[displayable]) {
+        let i = 2;
+        for (let p = 0; p < DISPLAYABLES[displayable].positional; p++) i = skipSimpleExpression(body, i);
+        checkProperties(i, [displayable]);
+        context.displayables = [...context.displayables, displayable];
+      }
+      continue;
+    }
+    const displayableSpec = DISPLAYABLES[keyword];
+    if (displayableSpec) {
+      let i = 1;
+      for (let p = 0; p < displayableSpec.positional; p++) i = skipSimpleExpression(body, i);
+      checkProperties(i, [keyword]);
+      if (hasBlock) {
+        stack.push({ indent, kind: displayableSpec.opaqueBlock ? 'skip' : 'block', displayables: [keyword] });
+      }
+      continue;
+    }
+    if (symbols.customStatements.has(keyword)) {
+      if (hasBlock) stack.push({ indent, kind: 'skip', displayables: [] });
+      continue;
+    }
+    if (hasBlock) {
+      stack.push({ indent, kind: 'skip', displayables: [] });
+      continue;
+    }
+    // A property line, or a word Ren'Py would not accept here
+    if (body.length > 1) checkProperties(0, context.displayables);
+  }
+}
+
+function isDebugPlaceholderFile(filePath?: string): boolean {
+  return !!filePath && filePath.endsWith('debug_placeholders.rpy');
+}
+
+/**
+ * Collects the project-wide names screen code can refer to: screens and styles
+ * from the analysis result, classes and functions (custom actions), and
+ * creator-defined screen language statements.
+ */
+function collectProjectSymbols(
+  blocks: { id: string; content: string; filePath?: string }[],
+  result: Pick<RenpyAnalysisResult, 'screens' | 'styles' | 'variables'>,
+): ProjectSymbols {
+  const symbols: ProjectSymbols = {
+    screens: result.screens,
+    styles: result.styles,
+    callables: new Set(result.variables.keys()),
+    customStatements: new Set(),
+  };
+  for (const block of blocks) {
+    if (isDebugPlaceholderFile(block.filePath) || !block.content) continue;
+    for (const line of block.content.split('\n')) {
+      const callable = line.match(CALLABLE_DEF_RE);
+      if (callable) symbols.callables.add(callable[1]);
+    }
+    for (const match of block.content.matchAll(REGISTERED_STATEMENT_RE)) symbols.customStatements.add(match[1]);
+  }
+  return symbols;
+}
+
+/**
+ * Runs the screen language pass over every block.
+ *
+ * @param blocks - Blocks to analyse
+ * @param result - Analysis result from `performRenpyAnalysis` (screens, styles and variables)
+ * @returns Invalid properties, unknown actions, bad `use` calls and undefined styles
+ */
+export function performScreenAnalysis(
+  blocks: { id: string; content: string; filePath?: string }[],
+  result: Pick<RenpyAnalysisResult, 'screens' | 'styles' | 'variables'>,
+): ScreenDiagnostic[] {
+  const diagnostics: ScreenDiagnostic[] = [];
+  if (!blocks.some(block => block.content && /^\s*screen\s/m.test(block.content))) return diagnostics;
+  const symbols = collectProjectSymbols(blocks, result);
+  for (const block of blocks) {
+    if (isDebugPlaceholderFile(block.filePath) || !block.content) continue;
+    validateScreens(block.id, block.content, symbols, diagnostics);
+  }
+  return diagnostics.sort((a, b) => a.blockId.localeCompare(b.blockId) || a.line - b.line || a.column - b.column);
+}
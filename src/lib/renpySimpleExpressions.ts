@@ -0,0 +1,147 @@
+/**
+ * @file renpySimpleExpressions.ts
+ * @description Tokenizer for the statement-level syntax of Ren'Py: screen
+ * language and ATL lines made of keywords, properties and Ren'Py "simple
+ * expressions". Shared by the screen and ATL validators.
+ */
+
+export type RenpyTokenType = 'name' | 'string' | 'number' | 'group' | 'colon' | 'op';
+
+export interface RenpyToken {
+  type: RenpyTokenType;
+  value: string;
+  /** Offset into the logical line */
+  start: number;
+  end: number;
+}
+
+const NAME_RE = /[\p{L}_][\p{L}\p{N}_]*/uy;
+const NUMBER_RE = /(?:\d[\d_]*(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?/y;
+const STRING_PREFIX_RE = /[rRuUbBfF]{0,2}(?='|")/y;
+const OPERATOR_RE = /\*\*|\/\/|==|!=|<=|>=|<<|>>|:=|[-+*/%@&|^~<>=.,;!]/y;
+const CLOSERS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+
+/** Returns the offset just past the string literal starting at `start` (quote or prefix). */
+function skipString(text: string, start: number): number {
+  let i = start;
+  while (text[i] !== '"' && text[i] !== "'") i++;
+  const quote = text.startsWith(text[i].repeat(3), i) ? text[i].repeat(3) : text[i];
+  i += quote.length;
+  while (i < text.length) {
+    if (text[i] === '\\') { i += 2; continue; }
+    if (text.startsWith(quote, i)) return i + quote.length;
+    if (quote.length === 1 && text[i] === '\n') return i;
+    i++;
+  }
+  return text.length;
+}
+
+/** Returns the offset just past the bracketed group opening at `start`. */
+function skipGroup(text: string, start: number): number {
+  const stack = [CLOSERS[text[start]]];
+  let i = start + 1;
+  while (i < text.length && stack.length > 0) {
+    const char = text[i];
+    if (char === '"' || char === "'") {
+      i = skipString(text, i);
+      continue;
+    }
+    if (CLOSERS[char]) stack.push(CLOSERS[char]);
+    else if (char === stack[stack.length - 1]) stack.pop();
+    i++;
+  }
+  return i;
+}
+
+/**
+ * Splits a (logical) line of Ren'Py source into tokens. Bracketed expressions
+ * are kept whole as `group` tokens, since only their outer shape matters to
+ * statement parsing; tokenize `start + 1 .. end - 1` of a group to look inside.
+ *
+ * @param text - Source text, usually one logical line
+ * @param start - Offset to start at
+ * @param end - Offset to stop at
+ * @returns Tokens with offsets into `text`
+ */
+export function tokenizeRenpyLine(text: string, start = 0, end = text.length): RenpyToken[] {
+  const tokens: RenpyToken[] = [];
+  let i = start;
+  while (i < end) {
+    const char = text[i];
+    if (/\s|\\/.test(char)) { i++; continue; }
+    const tokenStart = i;
+    let type: RenpyTokenType;
+    STRING_PREFIX_RE.lastIndex = i;
+    NAME_RE.lastIndex = i;
+    NUMBER_RE.lastIndex = i;
+    OPERATOR_RE.lastIndex = i;
+    if (STRING_PREFIX_RE.test(text)) {
+      i = skipString(text, i);
+      type = 'string';
+    } else if (NAME_RE.test(text)) {
+      i = NAME_RE.lastIndex;
+      type = 'name';
+    } else if (NUMBER_RE.test(text)) {
+      i = NUMBER_RE.lastIndex;
+      type = 'number';
+    } else if (CLOSERS[char]) {
+      i = skipGroup(text, i);
+      type = 'group';
+    } else if (char === ':' && text[i + 1] !== '=') {
+      i++;
+      type = 'colon';
+    } else {
+      i = OPERATOR_RE.test(text) ? OPERATOR_RE.lastIndex : i + 1;
+      type = 'op';
+    }
+    i = Math.min(i, end);
+    tokens.push({ type, value: text.slice(tokenStart, i), start: tokenStart, end: i });
+  }
+  return tokens;
+}
+
+const BINARY_WORD_OPERATORS = new Set(['and', 'or', 'in', 'is', 'not']);
+
+/**
+ * Skips one simple expression (Ren'Py's `simple_expression`: an atom with
+ * attribute, call and subscript trailers, joined by binary operators).
+ *
+ * @param tokens - Tokens from `tokenizeRenpyLine`
+ * @param index - Index of the first token of the expression
+ * @returns Index of the first token after the expression; `index` if none was found
+ */
+export function skipSimpleExpression(tokens: RenpyToken[], index: number): number {
+  let i = index;
+  for (;;) {
+    while (i < tokens.length && ((tokens[i].type === 'op' && /^[-+~]$/.test(tokens[i].value)) || tokens[i].value === 'not')) i++;
+    const atom = tokens[i];
+    if (!atom || atom.type === 'colon' || atom.type === 'op') return index;
+    if (atom.type === 'name' && BINARY_WORD_OPERATORS.has(atom.value)) return index;
+    i++;
+    for (;;) {
+      const next = tokens[i];
+      if (next?.type === 'op' && next.value === '.' && tokens[i + 1]?.type === 'name') i += 2;
+      else if (next?.type === 'group' && next.value[0] !== '{') i++;
+      else if (atom.type === 'string' && next?.type === 'string') i++;
+      else break;
+    }
+    const operator = tokens[i];
+    const isBinary = operator && (
+      (operator.type === 'op' && !/^[.,;=]$/.test(operator.value)) ||
+      (operator.type === 'name' && BINARY_WORD_OPERATORS.has(operator.value))
+    );
+    if (!isBinary) return i;
+    i++;
+    if (operator.value === 'is' && tokens[i]?.value === 'not') i++;
+  }
+}
+
+/** Splits tokens at top-level commas. */
+export function splitOnCommas(tokens: RenpyToken[]): RenpyToken[][] {
+  const parts: RenpyToken[][] = [[]];
+  for (const token of tokens) {
+    if (token.type === 'op' && token.value === ',') parts.push([]);
+    else parts[parts.length - 1].push(token);
+  }
+  return parts.filter(part => part.length > 0);
+}
@@ -0,0 +1,91 @@
+import { indexStyles, performStyleAnalysis, resolveStyle } from './renpyStyles';
+
+const blocksOf = (content: string) => [{ id: 'b1', content, filePath: 'game/gui.rpy' }];
+
+describe('indexStyles', () => {
+  it('indexes style statements and styles created from Python', () => {
+    const styles = indexStyles(blocksOf([
+      'style my_button is button:',
+      '    xalign 0.5 hover_color "#fff"',
+      '    take other_text',
+      'style other_text:',
+      '    size gui.text_size',
+      'style legacy is default xpos 10',
+      'init python:',
+      '    style.old = Style(style.default)',
+      '    style.create("made", "button")',
+      '    style.old.color = "#f00"',
+      'screen hud():',
+      '    style_prefix "hud"',
+      '    text "Hi" style "not_a_definition"',
+    ].join('\n')));
+
+    expect([...styles.keys()]).toEqual(['my_button', 'other_text', 'legacy', 'old', 'made']);
+    expect(styles.get('my_button')).toMatchObject({ parent: 'button', take: 'other_text', line: 1, filePath: 'game/gui.rpy' });
+    expect(styles.get('my_button')!.properties.map(p => [p.name, p.value, p.line])).toEqual([
+      ['xalign', '0.5', 2],
+      ['hover_color', '"#fff"', 2],
+    ]);
+    expect(styles.get('legacy')!.properties.map(p => p.name)).toEqual(['xpos']);
+    expect(styles.get('old')).toMatchObject({ parent: 'default', properties: [{ name: 'color', value: '"#f00"', line: 10 }] });
+    expect(styles.get('made')!.parent).toBe('button');
+  });
+});
+
+describe('resolveStyle', () => {
+  it('walks the is chain, applying take and clear', () => {
+    const styles = indexStyles(blocksOf([
+      'style base:',
+      '    size 20',
+      '    color "#000"',
+      'style base_text is base:',
+      '    color "#111"',
+      'style fancy_text is base_text:',
+      '    bold True',
+      '    take other',
+      'style other:',
+      '    font "x.ttf"',
+      '    color "#222"',
+      'style reset is base_text:',
+      '    size 10',
+      '    clear',
+      '    italic True',
+    ].join('\n')));
+
+    const fancy = resolveStyle('fancy_text', styles);
+    expect(fancy.chain).toEqual(['fancy_text', 'base_text', 'base', 'default']);
+    expect(fancy.properties.map(p => [p.name, p.value, p.style, p.line])).toEqual([
+      ['bold', 'True', 'fancy_text', 7],
+      ['color', '"#222"', 'other', 11],
+      ['font', '"x.ttf"', 'other', 10],
+      ['size', '20', 'base', 2],
+    ]);
+    expect(resolveStyle('reset', styles).properties.map(p => [p.name, p.style])).toEqual([
+      ['color', 'base_text'],
+      ['italic', 'reset'],
+      ['size', 'base'],
+    ]);
+  });
+
+  it('falls back to the implicit parent of an undefined prefixed style', () => {
+    const styles = indexStyles(blocksOf('style hud_text:\n    size 12'));
+    expect(resolveStyle('quick_hud_text', styles).chain).toEqual(['quick_hud_text', 'hud_text', 'text', 'default']);
+  });
+});
+
+describe('performStyleAnalysis', () => {
+  it('reports is and take clauses naming undefined styles', () => {
+    const blocks = blocksOf([
+      'style ok is my_base',
+      'style my_base is button_text',
+      'style broken is nothing:',
+      '    take missing_one',
+      'screen main():',
+      '    style "whatever_button"',
+    ].join('\n'));
+    expect(performStyleAnalysis(blocks, { styles: indexStyles(blocks) }).map(d => [d.line, d.column, d.endColumn, d.message])).toEqual([
+      [3, 17, 24, 'Style "nothing" is not defined'],
+      [4, 10, 21, 'Style "missing_one" is not defined'],
+    ]);
+  });
+});
@@ -0,0 +1,313 @@
+/**
+ * @file renpyStyles.ts
+ * @description Index of Ren'Py styles: `style name is parent:` statements
+ * (with their properties, `take` and `clear` clauses) and styles created from
+ * Python (`style.name = Style(style.parent)`, `style.create(...)`). Also
+ * resolves a style's full property set by walking its inheritance chain, and
+ * reports `is` / `take` clauses that name an undefined style.
+ * The index is built by `performRenpyAnalysis`; the check runs inside
+ * `renpyAnalysis.worker.ts` with the other validation passes.
+ */
+
+import type { RenpyAnalysisResult, RenpyStyle, StyleDiagnostic } from '@/types';
+import { getLogicalLines, stripTrailingComment } from './renpyLogicalLines';
+import { getTripleQuotedLineMask } from './renpyTripleQuotes';
+import { skipSimpleExpression, tokenizeRenpyLine } from './renpySimpleExpressions';
+import type { RenpyToken } from './renpySimpleExpressions';
+
+/** Styles Ren'Py defines before any project code runs. */
+export const BUILTIN_STYLES = new Set([
+  'default', 'empty', 'text', 'button', 'button_text', 'window', 'frame', 'image', 'image_button',
+  'fixed', 'hbox', 'vbox', 'grid', 'side', 'viewport', 'vpgrid', 'bar', 'vbar', 'scrollbar',
+  'vscrollbar', 'slider', 'vslider', 'input', 'hyperlink_text', 'ruby_text', 'label',
+  'label_text', 'prompt', 'prompt_text', 'imagemap', 'hotspot', 'hotbar', 'drag', 'motion',
+  'transform', 'say_label', 'say_dialogue', 'say_thought', 'say_window', 'say_vbox',
+  'say_who_window', 'say_two_window_vbox', 'menu', 'menu_window', 'menu_choice',
+  'menu_choice_button', 'menu_choice_chosen', 'menu_choice_chosen_button', 'menu_caption',
+  'centered_window', 'centered_text', 'centered_vtext', 'mm_root', 'gm_root', 'nvl_window',
+  'nvl_vbox', 'nvl_entry', 'nvl_label', 'nvl_dialogue', 'nvl_thought', 'nvl_menu_choice',
+  'nvl_menu_choice_button', 'nvl_menu_choice_chosen', 'nvl_menu_choice_chosen_button', 'tooltip',
+]);
+
+/** Style properties, for completion inside `style` statements. */
+export const STYLE_PROPERTIES = [
+  // Position
+  'pos', 'xpos', 'ypos', 'anchor', 'xanchor', 'yanchor', 'align', 'xalign', 'yalign',
+  'xycenter', 'xcenter', 'ycenter', 'offset', 'xoffset', 'yoffset', 'maximum', 'xmaximum',
+  'ymaximum', 'minimum', 'xminimum', 'yminimum', 'xsize', 'ysize', 'xysize', 'xfill', 'yfill',
+  'area', 'mipmap', 'xfit', 'yfit',
+  // Text
+  'antialias', 'adjust_spacing', 'axis', 'black_color', 'bold', 'caret', 'color', 'drop_shadow',
+  'drop_shadow_color', 'emoji_font', 'first_indent', 'font', 'hinting', 'hyperlink_functions',
+  'instance', 'italic', 'justify', 'kerning', 'language', 'layout', 'line_leading',
+  'line_overlap_split', 'line_spacing', 'min_width', 'newline_indent', 'outlines',
+  'outline_scaling', 'prefer_emoji', 'rest_indent', 'ruby_line_leading', 'ruby_style', 'shaper',
+  'size', 'slow_abortable', 'slow_cps', 'slow_cps_multiplier', 'strikethrough', 'text_align',
+  'textalign', 'textshader', 'underline', 'vertical',
+  // Window
+  'background', 'foreground', 'left_margin', 'right_margin', 'top_margin', 'bottom_margin',
+  'xmargin', 'ymargin', 'margin', 'left_padding', 'right_padding', 'top_padding',
+  'bottom_padding', 'xpadding', 'ypadding', 'padding', 'size_group', 'modal',
+  // Button
+  'child', 'hover_sound', 'activate_sound', 'mouse', 'focus_mask', 'keyboard_focus',
+  'keyboard_focus_insets', 'key_events',
+  // Bar
+  'bar_vertical', 'bar_invert', 'bar_resizing', 'left_gutter', 'right_gutter', 'top_gutter',
+  'bottom_gutter', 'left_bar', 'right_bar', 'top_bar', 'bottom_bar', 'base_bar', 'thumb',
+  'thumb_shadow', 'thumb_offset', 'unscrollable',
+  // Box and grid
+  'spacing', 'first_spacing', 'box_reverse', 'box_wrap', 'box_wrap_spacing', 'box_align',
+  'order_reverse', 'fit_first', 'xspacing', 'yspacing',
+  // Other
+  'alt', 'properties', 'focus_rect', 'altruby_style',
+];
+
+/** A style property with the style it was inherited from. */
+export interface ResolvedStyleProperty {
+  name: string;
+  value: string;
+  /** Style in the chain that set the property */
+  style: string;
+  blockId: string;
+  line: number;
+}
+
+/** A style's inheritance chain and effective properties. */
+export interface ResolvedStyle {
+  /** The style itself first, then each parent up to `default` */
+  chain: string[];
+  /** Effective properties, sorted by name */
+  properties: ResolvedStyleProperty[];
+}
+
+const STYLE_HEADER_RE = /^\s*style\s+[a-zA-Z_]\w*\b(?!\s*[.=(])/;
+const SCREEN_HEADER_RE = /^(\s*)screen\s+(\w+)/;
+const PYTHON_STYLE_RE = /\bstyle\.([a-zA-Z_]\w*)\s*=\s*Style\(\s*(?:style\.([a-zA-Z_]\w*)|["']([a-zA-Z_]\w*)["'])?/g;
+const PYTHON_STYLE_CREATE_RE = /\bstyle\.create\(\s*["']([a-zA-Z_]\w*)["']\s*(?:,\s*["']([a-zA-Z_]\w*)["'])?/g;
+const PYTHON_STYLE_PROPERTY_RE = /^\s*style\.([a-zA-Z_]\w*)\.([a-zA-Z_]\w*)\s*=\s*(.+?)\s*$/;
+
+function isDebugPlaceholderFile(filePath?: string): boolean {
+  return !!filePath && filePath.endsWith('debug_placeholders.rpy');
+}
+
+/**
+ * Checks whether a style name resolves the way Ren'Py does: a style that was
+ * never defined inherits from the style named by dropping its first `prefix_`.
+ */
+export function styleExists(name: string, styles: ReadonlyMap<string, unknown>): boolean {
+  let current = name;
+  for (;;) {
+    if (styles.has(current) || BUILTIN_STYLES.has(current)) return true;
+    const underscore = current.indexOf('_');
+    if (underscore === -1) return false;
+    current = current.slice(underscore + 1);
+  }
+}
+
+/** Parent of a style without an `is` clause: the name without its first `prefix_` that exists, else `default`. */
+function implicitParent(name: string, styles: ReadonlyMap<string, RenpyStyle>): string | null {
+  if (name === 'default') return null;
+  let current = name;
+  for (;;) {
+    const underscore = current.indexOf('_');
+    if (underscore === -1) return 'default';
+    current = current.slice(underscore + 1);
+    if (styles.has(current) || BUILTIN_STYLES.has(current)) return current;
+  }
+}
+
+/**
+ * Walks a style's inheritance chain and collects its effective properties.
+ * Properties set on the style itself win over `take`n ones, which win over
+ * inherited ones. State-prefixed properties (`hover_color`) are kept apart
+ * from their base property, and every `properties` clause in the chain is kept.
+ *
+ * @param name - Style name
+ * @param styles - Style index from the analysis result
+ * @returns The chain and the effective properties
+ */
+export function resolveStyle(name: string, styles: ReadonlyMap<string, RenpyStyle>): ResolvedStyle {
+  const chain: string[] = [];
+  const properties = new Map<string, ResolvedStyleProperty>();
+  const addProperties = (style: RenpyStyle, from: string) => {
+    for (let i = style.properties.length - 1; i >= 0; i--) {
+      const property = style.properties[i];
+      // `properties <dict>` expands to other properties, so each style's one applies
+      const key = property.name === 'properties' ? `properties:${from}` : property.name;
+      if (!properties.has(key)) properties.set(key, { ...property, style: from });
+    }
+  };
+
+  let current: string | null = name;
+  while (current && !chain.includes(current)) {
+    chain.push(current);
+    const style = styles.get(current);
+    if (style) {
+      addProperties(style, current);
+      const taken = style.take ? styles.get(style.take) : undefined;
+      if (taken) addProperties(taken, taken.name);
+    }
+    current = style?.parent ?? implicitParent(current, styles);
+  }
+  return {
+    chain,
+    properties: [...properties.values()].sort((a, b) => a.name.localeCompare(b.name)),
+  };
+}
+
+/**
+ * Builds the style index.
+ *
+ * @param blocks - Blocks to index
+ * @returns Map of style name to definition; a style defined in several places
+ *   collects the properties of all of them, in block order
+ */
+export function indexStyles(blocks: { id: string; content: string; filePath?: string }[]): Map<string, RenpyStyle> {
+  const styles = new Map<string, RenpyStyle>();
+  const getStyle = (name: string, blockId: string, filePath: string | undefined, line: number) => {
+    let style = styles.get(name);
+    if (!style) {
+      style = { name, parent: null, definedInBlockId: blockId, filePath, line, properties: [] };
+      styles.set(name, style);
+    }
+    return style;
+  };
+
+  for (const block of blocks) {
+    if (isDebugPlaceholderFile(block.filePath) || !block.content) continue;
+    const physicalLines = block.content.split('\n');
+    const tripleQuotedLineMask = getTripleQuotedLineMask(block.content);
+    let current: { style: RenpyStyle; indent: number } | null = null;
+    let screenIndent = -1;
+
+    for (const logical of getLogicalLines(block.content)) {
+      const first = physicalLines[logical.startLine - 1];
+      if (!first.trim() || first.trim().startsWith('#') || tripleQuotedLineMask[logical.startLine - 1]) continue;
+      const indent = first.match(/^\s*/)![0].length;
+      if (current && indent <= current.indent) current = null;
+      if (screenIndent !== -1 && indent <= screenIndent) screenIndent = -1;
+      if (screenIndent === -1 && SCREEN_HEADER_RE.test(first)) screenIndent = indent;
+
+      const text = physicalLines.slice(logical.startLine - 1, logical.endLine).map(stripTrailingComment).join('\n');
+      const pythonProperty = first.match(PYTHON_STYLE_PROPERTY_RE);
+      if (pythonProperty) {
+        getStyle(pythonProperty[1], block.id, block.filePath, logical.startLine).properties.push({
+          name: pythonProperty[2], value: pythonProperty[3], blockId: block.id, line: logical.startLine,
+        });
+      }
+      for (const match of text.matchAll(PYTHON_STYLE_RE)) {
+        getStyle(match[1], block.id, block.filePath, logical.startLine).parent = match[2] ?? match[3] ?? null;
+      }
+      for (const match of text.matchAll(PYTHON_STYLE_CREATE_RE)) {
+        getStyle(match[1], block.id, block.filePath, logical.startLine).parent = match[2] ?? null;
+      }
+
+      if (current) {
+        parseStyleClauses(text, tokenizeRenpyLine(text), 0, current.style, block.id, logical.startLine);
+        continue;
+      }
+      if (screenIndent !== -1 || !STYLE_HEADER_RE.test(first)) continue;
+      const tokens = tokenizeRenpyLine(text);
+      const style = getStyle(tokens[1].value, block.id, block.filePath, logical.startLine);
+      const hasBlock = tokens[tokens.length - 1].type === 'colon';
+      parseStyleClauses(text, hasBlock ? tokens.slice(0, -1) : tokens, 2, style, block.id, logical.startLine);
+      if (hasBlock) current = { style, indent };
+    }
+  }
+  return styles;
+}
+
+/**
+ * Applies the clauses of a `style` statement (or one line of its block) to the style.
+ * @returns The tokens naming other styles (`is` and `take` targets)
+ */
+function parseStyleClauses(text: string, tokens: RenpyToken[], start: number, style: RenpyStyle, blockId: string, line: number): RenpyToken[] {
+  const references: RenpyToken[] = [];
+  let i = start;
+  while (i < tokens.length) {
+    const token = tokens[i];
+    if (token.type !== 'name') break;
+    const next = tokens[i + 1];
+    switch (token.value) {
+      case 'is':
+      case 'take':
+        if (next?.type === 'name') {
+          references.push(next);
+          if (token.value === 'is') style.parent = next.value;
+          else style.take = next.value;
+        }
+        i += 2;
+        continue;
+      case 'clear':
+        style.properties = [];
+        i++;
+        continue;
+      case 'del':
+        style.properties = style.properties.filter(p => p.name !== next?.value);
+        i += 2;
+        continue;
+      case 'variant':
+        i = Math.max(i + 1, skipSimpleExpression(tokens, i + 1));
+        continue;
+    }
+    const end = skipSimpleExpression(tokens, i + 1);
+    if (end === i + 1) break;
+    style.properties.push({ name: token.value, value: text.slice(tokens[i + 1].start, tokens[end - 1].end), blockId, line });
+    i = end;
+  }
+  return references;
+}
+
+/**
+ * Reports `is` and `take` clauses that name a style which is neither defined
+ * by the project nor built into Ren'Py.
+ *
+ * @param blocks - Blocks to check
+ * @param result - Analysis result with the style index
+ * @returns Undefined-style warnings
+ */
+export function performStyleAnalysis(
+  blocks: { id: string; content: string; filePath?: string }[],
+  result: Pick<RenpyAnalysisResult, 'styles'>,
+): StyleDiagnostic[] {
+  const diagnostics: StyleDiagnostic[] = [];
+  for (const block of blocks) {
+    if (isDebugPlaceholderFile(block.filePath) || !block.content) continue;
+    const physicalLines = block.content.split('\n');
+    const tripleQuotedLineMask = getTripleQuotedLineMask(block.content);
+    let styleIndent = -1;
+    let screenIndent = -1;
+
+    for (const logical of getLogicalLines(block.content)) {
+      const first = physicalLines[logical.startLine - 1];
+      if (!first.trim() || first.trim().startsWith('#') || tripleQuotedLineMask[logical.startLine - 1]) continue;
+      const indent = first.match(/^\s*/)![0].length;
+      if (styleIndent !== -1 && indent <= styleIndent) styleIndent = -1;
+      if (screenIndent !== -1 && indent <= screenIndent) screenIndent = -1;
+      if (screenIndent === -1 && SCREEN_HEADER_RE.test(first)) screenIndent = indent;
+      const isHeader = styleIndent === -1 && screenIndent === -1 && STYLE_HEADER_RE.test(first);
+      if (!isHeader && styleIndent === -1) continue;
+
+      const text = physicalLines.slice(logical.startLine - 1, logical.endLine).map(stripTrailingComment).join('\n');
+      const tokens = tokenizeRenpyLine(text);
+      const hasBlock = tokens[tokens.length - 1]?.type === 'colon';
+      const scratch: RenpyStyle = { name: '', parent: null, definedInBlockId: block.id, line: logical.startLine, properties: [] };
+      const references = parseStyleClauses(text, hasBlock ? tokens.slice(0, -1) : tokens, isHeader ? 2 : 0, scratch, block.id, logical.startLine);
+      for (const target of references) {
+        if (styleExists(target.value, result.styles)) continue;
+        const before = text.slice(0, target.start);
+        const column = target.start - before.lastIndexOf('\n');
+        diagnostics.push({
+          blockId: block.id,
+          severity: 'warning',
+          line: logical.startLine + before.split('\n').length - 1,
+          column,
+          endColumn: column + target.value.length,
+          message: `Style "${target.value}" is not defined`,
+        });
+      }
+      if (isHeader && hasBlock) styleIndent = indent;
+    }
+  }
+  return diagnostics;
+}
@@ -2,7 +2,10 @@
  * @file renpyTranslationParser.ts
  * @description Pure functions for parsing Ren'Py translation blocks and computing
  * per-language translation coverage. Works with the existing block/analysis data
- * produced by useRenpyAnalysis.
+ * produced by useRenpyAnalysis. Dialogue lines get the translation identifier Ren'Py
+ * derives for them (label + MD5 of the statement), so translate blocks are matched by
+ * ID: a block whose ID no longer exists is orphaned, and a translation only paired by
+ * position is stale because its source line changed.
  */
 
 import type {
@@ -13,6 +16,7 @@ import type {
   TranslationAnalysisResult,
   DialogueLine,
 } from '@/types';
+import { md5 } from '@/lib/md5';
 
 // ---------------------------------------------------------------------------
 // Regex patterns
@@ -42,6 +46,15 @@ const MENU_CHOICE_REGEX = /^\s*"((?:\\.|[^"\\])*)"(?:\s+if\s+.+)?\s*:/;
 /** Label definition */
 const LABEL_REGEX = /^\s*label\s+([a-zA-Z0-9_]+):/;
 
+/** Label definition as Ren'Py scopes translation IDs: local (`.name`) labels and parameters too */
+const ID_LABEL_REGEX = /^\s*label\s+(\.?[a-zA-Z_][\w.]*)\s*(?:\(.*\))?\s*(?:hide\s*)?:/;
+
+/** Statements Ren'Py hashes together with the say statement that follows them */
+const TRANSLATABLE_STATEMENT_REGEX = /^\s*(?:voice\s|nvl\s+clear\b)/;
+
+/** `id <identifier>` clause giving a say statement an explicit translation ID */
+const SAY_ID_CLAUSE_REGEX = /\bid\s+([a-zA-Z_]\w*)/;
+
 // ---------------------------------------------------------------------------
 // Public API
 // ---------------------------------------------------------------------------
@@ -52,6 +65,48 @@ export interface AnalysisBlock {
   filePath: string;
 }
 
+/**
+ * The value Ren'Py reads from a string literal: runs of spaces collapse and escapes resolve
+ * (`{`, `[` and `%` stay escaped by doubling).
+ */
+function decodeSayString(raw: string): string {
+  return raw.replace(/[ \n]+/g, ' ').replace(/\\(u([0-9a-fA-F]{1,4})|.)/g, (_, escape: string, code?: string) => {
+    if (code) return String.fromCharCode(parseInt(code, 16));
+    if (escape === '{') return '{{';
+    if (escape === '[') return '[[';
+    if (escape === '%') return '%%';
+    return escape === 'n' ? '\n' : escape;
+  });
+}
+
+/** Ren'Py's `encode_say_string`: the canonical literal a say statement is hashed with. */
+function encodeSayString(text: string): string {
+  const escaped = text
+    .replace(/\\/g, '\\\\')
+    .replace(/\n/g, '\\n')
+    .replace(/"/g, '\\"')
+    .replace(/(?<= ) /g, '\\ ');
+  return `"${escaped}"`;
+}
+
+/**
+ * Code of a say statement as Ren'Py's `Say.get_code` prints it: speaker, the canonical
+ * string, then any trailing clauses (`nointeract`, `with`, arguments) as written.
+ */
+function sayStatementCode(speaker: string | null, rawText: string, rest: string): string {
+  const trailing = rest.replace(/\s+#.*$/, '').trim().replace(/\s+/g, ' ');
+  return [speaker, encodeSayString(decodeSayString(rawText)), trailing].filter(Boolean).join(' ');
+}
+
+/**
+ * The translation ID base Ren'Py gives a group of statements: the label (dots become
+ * underscores) and the first 8 hex digits of the MD5 of each statement's code plus `\r\n`.
+ */
+export function computeTranslationIdBase(label: string | null, statementCodes: string[]): string {
+  const digest = md5(statementCodes.map(code => `${code}\r\n`).join('')).slice(0, 8);
+  return label ? `${label.replace(/\./g, '_')}_${digest}` : digest;
+}
+
 /**
  * Returns true if the file path looks like a Ren'Py translation file
  * (i.e. it lives under a `/tl/<language>/` directory).
@@ -86,16 +141,47 @@ export function extractTranslatableStrings(
     blockLabels.set(loc.blockId, existing);
   }
 
+  // Translation ID of each dialogue/narration string before duplicates are numbered
+  const idBases = new Map<TranslatableString, { id: string; explicit: boolean }>();
+
   for (const block of blocks) {
     // Skip translation files — we only want source strings
     if (isTranslationFile(block.filePath)) continue;
 
     const lines = block.content.split('\n');
     let currentLabel: string | null = null;
+    // Ren'Py scopes translation IDs per file, by the last label not starting with `_`
+    let idLabel: string | null = null;
+    let globalLabel = '';
+    // Codes of `voice`/`nvl clear` statements hashed together with the next say statement
+    let group: string[] = [];
+    const addSayString = (entry: TranslatableString, speaker: string | null, rest: string, preceding: string[]) => {
+      strings.push(entry);
+      const explicitId = rest.match(SAY_ID_CLAUSE_REGEX)?.[1];
+      idBases.set(entry, explicitId
+        ? { id: explicitId, explicit: true }
+        : { id: computeTranslationIdBase(idLabel, [...preceding, sayStatementCode(speaker, entry.sourceText, rest)]), explicit: false });
+    };
 
     for (let i = 0; i < lines.length; i++) {
       const line = lines[i];
       const lineNum = i + 1;
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith('#')) continue;
+
+      const idLabelMatch = line.match(ID_LABEL_REGEX);
+      if (idLabelMatch) {
+        const name = idLabelMatch[1];
+        const fullName = name.startsWith('.') ? `${globalLabel}${name}` : name;
+        if (!name.startsWith('.')) globalLabel = name.split('.')[0];
+        if (!fullName.startsWith('_')) idLabel = fullName;
+      }
+      if (TRANSLATABLE_STATEMENT_REGEX.test(line)) {
+        group.push(trimmed.replace(/\s+#.*$/, ''));
+        continue;
+      }
+      const pending = group;
+      group = [];
 
       // Track label scope
       const labelMatch = line.match(LABEL_REGEX);
@@ -137,7 +223,7 @@ export function extractTranslatableStrings(
           'pause', 'image', 'transform', 'translate', 'style', 'window',
         ]);
         if (!KEYWORDS.has(tag) && text.trim()) {
-          strings.push({
+          addSayString({
             id: `${block.id}:${lineNum}`,
             sourceText: text,
             blockId: block.id,
@@ -146,7 +232,7 @@ export function extractTranslatableStrings(
             labelScope: currentLabel,
             characterTag: tag,
             type: 'dialogue',
-          });
+          }, tag, line.slice(diaMatch[0].length), pending);
         }
         continue;
       }
@@ -156,7 +242,7 @@ export function extractTranslatableStrings(
       if (narMatch) {
         const text = narMatch[1];
         if (text.trim()) {
-          strings.push({
+          addSayString({
             id: `${block.id}:${lineNum}`,
             sourceText: text,
             blockId: block.id,
@@ -165,12 +251,27 @@ export function extractTranslatableStrings(
             labelScope: currentLabel,
             characterTag: null,
             type: 'narration',
-          });
+          }, null, line.slice(narMatch[0].length), pending);
         }
       }
     }
   }
 
+  // Ren'Py numbers repeated IDs (`_1`, `_2`, ...) in load order, which follows the file paths
+  const usedIds = new Set([...idBases.values()].filter(base => base.explicit).map(base => base.id));
+  const loadOrder = [...idBases.keys()].sort((a, b) => (a.filePath < b.filePath ? -1 : a.filePath > b.filePath ? 1 : a.line - b.line));
+  for (const entry of loadOrder) {
+    const base = idBases.get(entry)!;
+    if (base.explicit) {
+      entry.translationId = base.id;
+      continue;
+    }
+    let id = base.id;
+    for (let n = 1; usedIds.has(id); n++) id = `${base.id}_${n}`;
+    usedIds.add(id);
+    entry.translationId = id;
+  }
+
   return strings;
 }
 
@@ -306,12 +407,14 @@ export function extractTranslatedStrings(
  * Build a map from source string ID to Map<language, TranslatedString> by matching
  * translations to source strings using file path derivation and text/structure matching.
  *
- * This is the core matching logic. Ren'Py translation block IDs (`label_md5hash`)
- * don't match our source string IDs (`blockId:lineNumber`), so we match by:
- * 1. Deriving the source file path from the translation file path
- * 2. Grouping source strings by file, character tag, and type
- * 3. Matching translations to sources by file + character tag + text content
- * 4. For string tables (menu choices): matching by the `old` text stored in sourceText
+ * This is the core matching logic. Source string IDs (`blockId:lineNumber`) are not
+ * Ren'Py translation block IDs (`label_md5hash`), so we match by:
+ * 1. The Ren'Py translation ID computed for the source line (`translationId`), exactly
+ * 2. Deriving the source file path from the translation file path
+ * 3. Grouping source strings by file, character tag, and type
+ * 4. Matching the remaining translations to sources by file + character tag + text content;
+ *    when the source line has a different `translationId`, the translation is stale
+ * 5. For string tables (menu choices): matching by the `old` text stored in sourceText
  */
 export function buildStringTranslationMap(
   translatableStrings: TranslatableString[],
@@ -328,11 +431,29 @@ export function buildStringTranslationMap(
     sourceByFile.get(normalized)!.push(s);
   }
 
+  const sourceByTranslationId = new Map<string, TranslatableString>();
+  for (const s of translatableStrings) {
+    if (s.translationId) sourceByTranslationId.set(s.translationId, s);
+  }
+
   for (const lang of detectedLanguages) {
     const langTranslations = translatedStrings.get(lang) || [];
     const claimed = new Set<string>(); // source string IDs already matched
 
+    // Blocks carrying the ID Ren'Py computes for a source line belong to that line
+    const matchedById = new Set<TranslatedString>();
+    for (const ts of langTranslations) {
+      const src = sourceByTranslationId.get(ts.id);
+      if (!src || claimed.has(src.id)) continue;
+      claimed.add(src.id);
+      matchedById.add(ts);
+      if (!stringTranslations.has(src.id)) stringTranslations.set(src.id, new Map());
+      stringTranslations.get(src.id)!.set(lang, ts);
+    }
+
     for (const ts of langTranslations) {
+      if (matchedById.has(ts)) continue;
+
       // String table entries (menu choices) — match by old text
       if (ts.id.startsWith('strings:') && ts.sourceText) {
         // Find a source string whose text matches the old text
@@ -400,6 +521,46 @@ export function buildStringTranslationMap(
   return stringTranslations;
 }
 
+/**
+ * True when a matched translation needs translating again: it is an untouched copy of the
+ * source, or its block ID is not the line's current translation ID because the line
+ * changed after it was translated.
+ */
+export function isTranslationStale(source: TranslatableString, translation: TranslatedString): boolean {
+  if (translation.translatedText === source.sourceText) return true;
+  return !!source.translationId && translation.sourceText === null && translation.id !== source.translationId;
+}
+
+/**
+ * Per language, the `translate` blocks whose ID matches no source line, and the source lines
+ * with no block of their ID (menu choices: no string-table entry for their text).
+ */
+export function findTranslationIdMismatches(
+  translatableStrings: TranslatableString[],
+  translatedStrings: Map<string, TranslatedString[]>,
+  detectedLanguages: Set<string>,
+): Pick<TranslationAnalysisResult, 'orphanedTranslations' | 'missingTranslations'> {
+  const sourceIds = new Set(translatableStrings.map(s => s.translationId).filter(Boolean));
+  const orphanedTranslations = new Map<string, TranslatedString[]>();
+  const missingTranslations = new Map<string, TranslatableString[]>();
+
+  for (const lang of detectedLanguages) {
+    const langTranslations = translatedStrings.get(lang) || [];
+    const blockIds = new Set<string>();
+    const tableTexts = new Set<string>();
+    for (const ts of langTranslations) {
+      if (ts.sourceText !== null) tableTexts.add(ts.sourceText);
+      else blockIds.add(ts.id);
+    }
+    orphanedTranslations.set(lang, langTranslations.filter(ts => ts.sourceText === null && !sourceIds.has(ts.id)));
+    missingTranslations.set(lang, translatableStrings.filter(s => (
+      s.type === 'menu-choice' ? !tableTexts.has(s.sourceText) : !!s.translationId && !blockIds.has(s.translationId)
+    )));
+  }
+
+  return { orphanedTranslations, missingTranslations };
+}
+
 /**
  * Compute per-language coverage statistics from the matched string translation map.
  */
@@ -428,7 +589,7 @@ export function computeLanguageCoverages(
       const t = translations?.get(lang);
       if (t) {
         translatedCount++;
-        if (t.translatedText === src.sourceText) {
+        if (isTranslationStale(src, t)) {
           staleCount++;
         }
       }
@@ -449,7 +610,7 @@ export function computeLanguageCoverages(
         const t = translations?.get(lang);
         if (t) {
           fileTranslated++;
-          if (t.translatedText === s.sourceText) {
+          if (isTranslationStale(s, t)) {
             fileStale++;
           }
         }
@@ -500,5 +661,6 @@ export function performTranslationAnalysis(
     languageCoverages,
     detectedLanguages: Array.from(detectedLanguages).sort(),
     stringTranslations,
+    ...findTranslationIdMismatches(translatableStrings, translatedStrings, detectedLanguages),
   };
 }
@@ -0,0 +1,102 @@
+import { analyzeRoutePaths, type RoutePathInput } from './routePathAnalysis';
+
+const graphOf = (edges: string[], options: { ends?: string[]; starts?: string[]; lines?: Record<string, number> } = {}): RoutePathInput => {
+  const links = edges.map((edge, i) => {
+    const [sourceId, targetId] = edge.split('>');
+    return { id: `l${i}`, sourceId, targetId };
+  });
+  const nodeIds = [...new Set(links.flatMap(l => [l.sourceId, l.targetId]))];
+  const ends = options.ends ?? nodeIds.filter(id => !links.some(l => l.sourceId === id));
+  return {
+    nodeIds,
+    links,
+    startNodes: options.starts ?? ['start'],
+    endNodes: new Set(ends),
+    lineCounts: new Map(Object.entries(options.lines ?? {})),
+  };
+};
+
+describe('analyzeRoutePaths', () => {
+  it('counts paths exactly without enumerating them', () => {
+    // 40 diamonds in a row: 2^40 routes to the one ending
+    const edges: string[] = [];
+    let previous = 'start';
+    for (let i = 0; i < 40; i++) {
+      edges.push(`${previous}>a${i}`, `${previous}>b${i}`, `a${i}>m${i}`, `b${i}>m${i}`);
+      previous = `m${i}`;
+    }
+    edges.push(`${previous}>end`);
+    const analysis = analyzeRoutePaths(graphOf(edges));
+    expect(analysis.totalPathCount).toBe(2n ** 40n);
+    expect(analysis.endings.map(e => e.nodeId)).toEqual(['end']);
+    expect(analysis.endings[0].criticalNodeIds).toEqual(['start', ...Array.from({ length: 40 }, (_, i) => `m${i}`)]);
+  });
+
+  it('spells out a few paths per ending that together take every branch', () => {
+    const edges: string[] = [];
+    let previous = 'start';
+    for (let i = 0; i < 40; i++) {
+      edges.push(`${previous}>a${i}`, `${previous}>b${i}`, `a${i}>m${i}`, `b${i}>m${i}`);
+      previous = `m${i}`;
+    }
+    edges.push(`${previous}>end`);
+    const [ending] = analyzeRoutePaths(graphOf(edges)).endings;
+    expect(ending.paths).toHaveLength(2);
+    expect(ending.paths[0].filter(id => id.startsWith('a'))).toHaveLength(40);
+    expect(ending.paths[1].filter(id => id.startsWith('b'))).toHaveLength(40);
+    expect(ending.paths.every(path => path[0] === 'start' && path[path.length - 1] === 'end')).toBe(true);
+  });
+
+  it('reports critical labels and the content unique to each ending', () => {
+    const analysis = analyzeRoutePaths(graphOf([
+      'start>intro', 'intro>hub', 'hub>alice', 'hub>bob', 'alice>alice_2', 'alice_2>good',
+      'bob>good', 'bob>bad',
+    ], { lines: { alice: 10, alice_2: 4, good: 3, bad: 2, bob: 7 } }));
+
+    const good = analysis.endings.find(e => e.nodeId === 'good')!;
+    const bad = analysis.endings.find(e => e.nodeId === 'bad')!;
+    expect(good.pathCount).toBe(2n);
+    expect(good.criticalNodeIds).toEqual(['start', 'intro', 'hub']);
+    expect(good.uniqueNodeIds).toEqual(['alice', 'alice_2', 'good']);
+    expect(good.uniqueLineCount).toBe(17);
+    expect(bad.pathCount).toBe(1n);
+    expect(bad.criticalNodeIds).toEqual(['start', 'intro', 'hub', 'bob']);
+    expect(bad.uniqueNodeIds).toEqual(['bad']);
+    expect(bad.linkIds).toEqual(['l0', 'l1', 'l3', 'l7']);
+    expect(analysis.totalPathCount).toBe(3n);
+  });
+
+  it('collapses loops and stops at endings', () => {
+    const analysis = analyzeRoutePaths(graphOf([
+      'start>day', 'day>night', 'night>day', 'night>finale', 'finale>credits', 'credits>start',
+    ], { ends: ['finale'] }));
+    expect(analysis.loops).toEqual([['night', 'day']]);
+    expect(analysis.endings.map(e => [e.nodeId, e.pathCount])).toEqual([['finale', 1n]]);
+    expect(analysis.endings[0].criticalNodeIds).toEqual(['start', 'day', 'night']);
+    expect(analysis.endings[0].paths).toEqual([['start', 'day', 'night', 'finale']]);
+  });
+
+  it('reuses the previous result while the graph is unchanged', () => {
+    const input = graphOf(['start>a', 'a>b']);
+    const first = analyzeRoutePaths(input);
+    expect(analyzeRoutePaths(graphOf(['start>a', 'a>b']), first)).toBe(first);
+    expect(analyzeRoutePaths(graphOf(['start>a', 'a>c']), first)).not.toBe(first);
+  });
+
+  it('reuses the graph analysis when only label bodies change, updating the unique line counts', () => {
+    const first = analyzeRoutePaths(graphOf(['start>a', 'start>b'], { lines: { a: 3, b: 5 } }));
+    expect(analyzeRoutePaths(graphOf(['start>a', 'start>b'], { lines: { a: 3, b: 5, start: 9 } }), first)).toBe(first);
+    const edited = analyzeRoutePaths(graphOf(['start>a', 'start>b'], { lines: { a: 4, b: 5 } }), first);
+    expect(edited.endings.map(e => [e.nodeId, e.uniqueLineCount])).toEqual([['a', 4], ['b', 5]]);
+    expect(edited.endings[1]).toBe(first.endings[1]);
+  });
+
+  it('reuses the graph analysis when link IDs are renumbered, with the new IDs', () => {
+    const nodeIds = ['start', 'a', 'end', 'x'];
+    const first = analyzeRoutePaths({ ...graphOf(['start>x', 'start>a', 'a>end']), nodeIds });
+    const renumbered = analyzeRoutePaths({ ...graphOf(['start>a', 'a>end', 'start>x']), nodeIds }, first);
+    expect(renumbered.signature).toBe(first.signature);
+    expect(first.endings.find(e => e.nodeId === 'end')!.linkIds).toEqual(['l1', 'l2']);
+    expect(renumbered.endings.find(e => e.nodeId === 'end')!.linkIds).toEqual(['l0', 'l1']);
+  });
+});
@@ -0,0 +1,351 @@
+/**
+ * @file routePathAnalysis.ts
+ * @description Scalable path analysis of the label route graph (~260 lines).
+ * Instead of enumerating routes, collapses loops into strongly connected components
+ * (Tarjan), counts start-to-ending paths over the resulting DAG by dynamic programming
+ * with exact `bigint` counts, finds the labels every path to an ending must pass through
+ * (dominators, Cooper–Harvey–Kennedy) and the labels that lead to a single ending only.
+ * Loops are counted once: a route that goes around a cycle is the same route as one that
+ * does not. Results are reused while the graph signature (labels, links, entry and ending
+ * labels) is unchanged; edits inside label bodies only refresh the unique line counts.
+ * Integration: called from `performRouteAnalysis`; the worker passes its previous result
+ * back in so edits that leave the route graph alone skip the analysis.
+ */
+
+import type { RoutePathAnalysis, RouteEnding } from '@/types';
+
+export interface RoutePathInput {
+  /** Label node IDs, in a stable order */
+  nodeIds: string[];
+  links: { id: string; sourceId: string; targetId: string }[];
+  /** Entry labels: `start`, or every label nothing jumps to */
+  startNodes: string[];
+  /** Labels where a route stops; their outgoing links are not followed */
+  endNodes: Set<string>;
+  /** Number of script lines in each label's body */
+  lineCounts: Map<string, number>;
+}
+
+/** Most concrete paths spelled out per ending */
+export const MAX_PATHS_PER_ENDING = 8;
+/** Steps one path search may take before giving up; loops can make simple paths expensive to find */
+const PATH_SEARCH_BUDGET = 20_000;
+
+/** Key of the route graph; equal keys give equal results apart from the line counts. */
+export function routePathSignature(input: RoutePathInput): string {
+  return [
+    input.nodeIds.join('|'),
+    // Link IDs are renumbered by edits elsewhere in the script; parallel links change nothing
+    [...new Set(input.links.map(l => `${l.sourceId}>${l.targetId}`))].sort().join('|'),
+    input.startNodes.join('|'),
+    [...input.endNodes].sort().join('|'),
+  ].join('\n');
+}
+
+/**
+ * Tarjan's strongly connected components, iterative so deep graphs cannot
+ * overflow the stack. Components come out in reverse topological order.
+ */
+function stronglyConnectedComponents(count: number, succ: number[][]): { comp: Int32Array; components: number[][] } {
+  const index = new Int32Array(count).fill(-1);
+  const low = new Int32Array(count);
+  const onStack = new Uint8Array(count);
+  const comp = new Int32Array(count).fill(-1);
+  const components: number[][] = [];
+  const stack: number[] = [];
+  let next = 0;
+
+  for (let root = 0; root < count; root++) {
+    if (index[root] !== -1) continue;
+    const work: [number, number][] = [[root, 0]];
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+      const v = frame[0];
+      if (frame[1] === 0) {
+        index[v] = low[v] = next++;
+        stack.push(v);
+        onStack[v] = 1;
+      }
+      const edges = succ[v];
+      if (frame[1] < edges.length) {
+        const w = edges[frame[1]++];
+        if (index[w] === -1) work.push([w, 0]);
+        else if (onStack[w]) low[v] = Math.min(low[v], index[w]);
+        continue;
+      }
+      work.pop();
+      if (work.length > 0) {
+        const parent = work[work.length - 1][0];
+        low[parent] = Math.min(low[parent], low[v]);
+      }
+      if (low[v] === index[v]) {
+        const members: number[] = [];
+        let w: number;
+        do {
+          w = stack.pop()!;
+          onStack[w] = 0;
+          comp[w] = components.length;
+          members.push(w);
+        } while (w !== v);
+        components.push(members);
+      }
+    }
+  }
+  return { comp, components };
+}
+
+/**
+ * Immediate dominators from a virtual root (index `count`) wired to every start node,
+ * by the iterative algorithm of Cooper, Harvey and Kennedy. Unreached nodes get -1.
+ */
+function immediateDominators(count: number, succ: number[][], starts: number[]): Int32Array {
+  const root = count;
+  const rootSucc = (v: number) => (v === root ? starts : succ[v]);
+  const order: number[] = [];
+  const seen = new Uint8Array(count + 1);
+  const work: [number, number][] = [[root, 0]];
+  seen[root] = 1;
+  while (work.length > 0) {
+    const frame = work[work.length - 1];
+    const edges = rootSucc(frame[0]);
+    if (frame[1] < edges.length) {
+      const w = edges[frame[1]++];
+      if (!seen[w]) { seen[w] = 1; work.push([w, 0]); }
+    } else {
+      order.push(work.pop()![0]);
+    }
+  }
+  const postIndex = new Int32Array(count + 1).fill(-1);
+  order.forEach((v, i) => { postIndex[v] = i; });
+
+  const preds: number[][] = Array.from({ length: count + 1 }, () => []);
+  for (const v of order) for (const w of rootSucc(v)) preds[w].push(v);
+
+  const idom = new Int32Array(count + 1).fill(-1);
+  idom[root] = root;
+  const intersect = (a: number, b: number) => {
+    while (a !== b) {
+      while (postIndex[a] < postIndex[b]) a = idom[a];
+      while (postIndex[b] < postIndex[a]) b = idom[b];
+    }
+    return a;
+  };
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (let i = order.length - 2; i >= 0; i--) {
+      const v = order[i];
+      let dom = -1;
+      for (const p of preds[v]) {
+        if (idom[p] === -1) continue;
+        dom = dom === -1 ? p : intersect(p, dom);
+      }
+      if (dom !== -1 && idom[v] !== dom) { idom[v] = dom; changed = true; }
+    }
+  }
+  return idom;
+}
+
+/**
+ * A simple path from an entry label to `end` over the labels in `onRoute`, taking links not yet
+ * in `covered` first. Null when none is found within the search budget.
+ */
+function findPath(succ: number[][], starts: number[], onRoute: Uint8Array, end: number, covered: Set<string>): number[] | null {
+  const onPath = new Uint8Array(onRoute.length);
+  let budget = PATH_SEARCH_BUDGET;
+  const order = (v: number) => succ[v]
+    .filter(w => onRoute[w] && !onPath[w])
+    .sort((a, b) => Number(covered.has(`${v}>${a}`)) - Number(covered.has(`${v}>${b}`)));
+  for (const start of starts) {
+    // Routes take at least one link
+    if (!onRoute[start] || start === end) continue;
+    const path = [start];
+    const work = [order(start)];
+    onPath[start] = 1;
+    while (work.length > 0 && budget-- > 0) {
+      const v = path[path.length - 1];
+      if (v === end) return path;
+      const next = work[work.length - 1].shift();
+      if (next === undefined) {
+        work.pop();
+        onPath[path.pop()!] = 0;
+        continue;
+      }
+      if (onPath[next]) continue;
+      onPath[next] = 1;
+      path.push(next);
+      work.push(order(next));
+    }
+    path.forEach(v => { onPath[v] = 0; });
+    if (budget <= 0) break;
+  }
+  return null;
+}
+
+/**
+ * Up to `MAX_PATHS_PER_ENDING` simple paths to `end`, each taking at least one link the
+ * earlier ones did not, so branches that lead here are shown before variations of them.
+ */
+function representativePaths(succ: number[][], starts: number[], onRoute: Uint8Array, end: number): number[][] {
+  const paths: number[][] = [];
+  const covered = new Set<string>();
+  while (paths.length < MAX_PATHS_PER_ENDING) {
+    const path = findPath(succ, starts, onRoute, end, covered);
+    if (!path) break;
+    const steps = path.slice(1).map((w, i) => `${path[i]}>${w}`);
+    if (steps.every(step => covered.has(step))) break;
+    steps.forEach(step => covered.add(step));
+    paths.push(path);
+  }
+  return paths;
+}
+
+/** Links between labels on the way to an ending; routes stop at endings, so their links are left out. */
+function endingLinkIds(nodeIds: string[], links: RoutePathInput['links'], endNodes: Set<string>): string[] {
+  const onRoute = new Set(nodeIds);
+  return links
+    .filter(link => onRoute.has(link.sourceId) && onRoute.has(link.targetId) && !endNodes.has(link.sourceId))
+    .map(link => link.id);
+}
+
+/**
+ * The previous result with the link IDs and unique line counts of the current input; the same
+ * object when neither changed.
+ */
+function withCurrentInput(analysis: RoutePathAnalysis, input: RoutePathInput): RoutePathAnalysis {
+  let changed = false;
+  const endings = analysis.endings.map(ending => {
+    const uniqueLineCount = ending.uniqueNodeIds.reduce((sum, id) => sum + (input.lineCounts.get(id) ?? 0), 0);
+    const linkIds = endingLinkIds(ending.nodeIds, input.links, input.endNodes);
+    if (uniqueLineCount === ending.uniqueLineCount && linkIds.join('|') === ending.linkIds.join('|')) return ending;
+    changed = true;
+    return { ...ending, uniqueLineCount, linkIds };
+  });
+  return changed ? { ...analysis, endings } : analysis;
+}
+
+/**
+ * Counts, per ending, the routes from the entry labels, the labels every one of those
+ * routes passes through and the labels that lead to that ending alone.
+ *
+ * @param input - Route graph with its entry and ending labels
+ * @param previous - Result of the last run; reused when the graph is unchanged
+ * @complexity O(V + E) for components, counts and ending classes; dominators are near-linear
+ *   in practice; collecting each ending's links is O(E) per ending, and its paths are searched
+ *   within a fixed step budget
+ */
+export function analyzeRoutePaths(input: RoutePathInput, previous?: RoutePathAnalysis): RoutePathAnalysis {
+  const signature = routePathSignature(input);
+  if (previous && previous.signature === signature) return withCurrentInput(previous, input);
+
+  const { nodeIds, links, endNodes, lineCounts } = input;
+  const count = nodeIds.length;
+  const indexOf = new Map(nodeIds.map((id, i) => [id, i]));
+  const isEnd = nodeIds.map(id => endNodes.has(id));
+
+  // Node-level successors, one entry per distinct target; routes stop at endings
+  const succ: number[][] = Array.from({ length: count }, () => []);
+  const succSets: Set<number>[] = Array.from({ length: count }, () => new Set());
+  for (const link of links) {
+    const s = indexOf.get(link.sourceId);
+    const t = indexOf.get(link.targetId);
+    if (s === undefined || t === undefined || isEnd[s] || succSets[s].has(t)) continue;
+    succSets[s].add(t);
+    succ[s].push(t);
+  }
+  const starts = [...new Set(input.startNodes.map(id => indexOf.get(id)).filter((i): i is number => i !== undefined))];
+
+  const { comp, components } = stronglyConnectedComponents(count, succ);
+  const loops = components
+    .filter(members => members.length > 1)
+    .map(members => members.map(i => nodeIds[i]));
+
+  // Components in topological order (Tarjan emits them reversed)
+  const topo = components.map((_, c) => components.length - 1 - c);
+  const seed = new Array<bigint>(components.length).fill(0n);
+  for (const s of starts) seed[comp[s]] = 1n;
+  const reachable = new Uint8Array(components.length);
+  for (const s of starts) reachable[comp[s]] = 1;
+
+  // arrive[c]: routes of at least one link that enter component c
+  const arrive = new Array<bigint>(components.length).fill(0n);
+  for (const c of topo) {
+    if (!reachable[c]) continue;
+    const leaving = seed[c] + arrive[c];
+    for (const v of components[c]) {
+      for (const w of succ[v]) {
+        const d = comp[w];
+        if (d === c) continue;
+        reachable[d] = 1;
+        arrive[d] += leaving;
+      }
+    }
+  }
+
+  // Ending each component leads to: -1 none, -2 several, else the ending's node index
+  const NONE = -1;
+  const MANY = -2;
+  const endingOf = new Int32Array(components.length).fill(NONE);
+  for (let c = 0; c < components.length; c++) {
+    let cls = NONE;
+    const merge = (other: number) => {
+      if (other === NONE || cls === MANY) return;
+      cls = cls === NONE || cls === other ? other : MANY;
+    };
+    for (const v of components[c]) {
+      if (isEnd[v]) merge(v);
+      for (const w of succ[v]) if (comp[w] !== c) merge(endingOf[comp[w]]);
+    }
+    endingOf[c] = cls;
+  }
+
+  const idom = immediateDominators(count, succ, starts);
+  const preds: number[][] = Array.from({ length: count }, () => []);
+  for (let v = 0; v < count; v++) for (const w of succ[v]) preds[w].push(v);
+
+  const endings: RouteEnding[] = [];
+  let totalPathCount = 0n;
+  for (let e = 0; e < count; e++) {
+    if (!isEnd[e] || arrive[comp[e]] === 0n) continue;
+    const pathCount = arrive[comp[e]];
+    totalPathCount += pathCount;
+
+    const criticalNodeIds: string[] = [];
+    for (let d = idom[e]; d !== -1 && d !== count; d = idom[d]) criticalNodeIds.unshift(nodeIds[d]);
+
+    const uniqueNodeIds: string[] = [];
+    let uniqueLineCount = 0;
+    for (let v = 0; v < count; v++) {
+      if (reachable[comp[v]] && endingOf[comp[v]] === e) {
+        uniqueNodeIds.push(nodeIds[v]);
+        uniqueLineCount += lineCounts.get(nodeIds[v]) ?? 0;
+      }
+    }
+
+    // Labels on some route to this ending: reachable, and able to reach it
+    const leadsHere = new Uint8Array(count);
+    leadsHere[e] = 1;
+    const queue = [e];
+    while (queue.length > 0) {
+      const w = queue.pop()!;
+      for (const v of preds[w]) {
+        if (!leadsHere[v] && reachable[comp[v]]) { leadsHere[v] = 1; queue.push(v); }
+      }
+    }
+    const routeNodeIds = nodeIds.filter((_, v) => leadsHere[v]);
+    const paths = representativePaths(succ, starts, leadsHere, e).map(path => path.map(v => nodeIds[v]));
+
+    endings.push({
+      nodeId: nodeIds[e],
+      pathCount,
+      criticalNodeIds,
+      uniqueNodeIds,
+      uniqueLineCount,
+      nodeIds: routeNodeIds,
+      linkIds: endingLinkIds(routeNodeIds, links, endNodes),
+      paths,
+    });
+  }
+
+  return { totalPathCount, endings, loops, signature };
+}
@@ -0,0 +1,195 @@
+import {
+  buildFileStoryGraph,
+  buildLabelStoryGraph,
+  parseStoryOutline,
+  scaffoldStoryOutline,
+  toDot,
+  toGraphML,
+  toMermaid,
+  toIdentifier,
+} from './storyGraphFormats';
+import type { LabelNode, RouteLink } from '@/types';
+
+const labelNode = (blockId: string, label: string, containerName: string): LabelNode => ({
+  id: `${blockId}:${label}`, label, blockId, containerName, startLine: 1, position: { x: 0, y: 0 }, width: 120, height: 60,
+});
+
+const labelNodes = [
+  labelNode('b1', 'start', 'script.rpy'),
+  labelNode('b1', 'help', 'script.rpy'),
+  labelNode('b2', 'ending', 'end "good".rpy'),
+];
+const routeLinks: RouteLink[] = [
+  { id: 'l1', sourceId: 'b1:start', targetId: 'b1:help', type: 'jump', choiceText: 'Help "her"', choiceCondition: 'trust > 2' },
+  { id: 'l2', sourceId: 'b1:help', targetId: 'b2:ending', type: 'call' },
+  { id: 'l3', sourceId: 'b1:start', targetId: 'b2:ending', type: 'implicit' },
+];
+
+describe('story graph export', () => {
+  it('writes DOT with file clusters and choice captions', () => {
+    const dot = toDot(buildLabelStoryGraph(labelNodes, routeLinks));
+    expect(dot).toContain('subgraph cluster_0 {\n    label="script.rpy";\n    "b1:start" [label="start"];');
+    expect(dot).toContain('label="end \\"good\\".rpy";');
+    expect(dot).toContain('"b1:start" -> "b1:help" [label="Help \\"her\\" if trust > 2"];');
+    expect(dot).toContain('"b1:help" -> "b2:ending" [style=bold];');
+    expect(dot).toContain('"b1:start" -> "b2:ending" [style=dashed];');
+  });
+
+  it('writes Mermaid with generated ids and escaped text', () => {
+    const mermaid = toMermaid(buildLabelStoryGraph(labelNodes, routeLinks));
+    expect(mermaid.split('\n').slice(0, 5)).toEqual([
+      'flowchart LR',
+      '  subgraph f0["script.rpy"]',
+      '    n0["start"]',
+      '    n1["help"]',
+      '  end',
+    ]);
+    expect(mermaid).toContain('n0 -->|"Help #quot;her#quot; if trust > 2"| n1');
+    expect(mermaid).toContain('n1 ==> n2');
+    expect(mermaid).toContain('n0 -.-> n2');
+  });
+
+  it('writes GraphML for the file graph', () => {
+    const graphml = toGraphML(buildFileStoryGraph(labelNodes, routeLinks));
+    expect(graphml).toContain('<node id="b1">');
+    expect(graphml).toContain('<y:NodeLabel>end &quot;good&quot;.rpy</y:NodeLabel>');
+    // Only the first link between two files is kept
+    expect(graphml.match(/<edge /g)).toHaveLength(1);
+    expect(graphml).toContain('<edge id="e0" source="b1" target="b2">');
+  });
+});
+
+describe('parseStoryOutline', () => {
+  it('reads Mermaid nodes, edges, subgraphs and edge styles', () => {
+    const outline = parseStoryOutline([
+      'graph TD',
+      '  %% chapter one',
+      '  subgraph ch1 [Chapter One]',
+      '    A([Wake up]) --> B{Answer the door?}',
+      '    B -->|Yes| C[Meet "Alice"]; B -- No if brave --> D',
+      '  end',
+      '  C & D ==> E((Credits))',
+      '  classDef x fill:#f00',
+      '  ??? nonsense',
+    ].join('\n'));
+    expect(outline.format).toBe('mermaid');
+    expect(outline.nodes.map(n => [n.id, n.text, n.group])).toEqual([
+      ['A', 'Wake up', 'Chapter One'],
+      ['B', 'Answer the door?', 'Chapter One'],
+      ['C', 'Meet "Alice"', 'Chapter One'],
+      ['D', 'D', 'Chapter One'],
+      ['E', 'Credits', undefined],
+    ]);
+    expect(outline.edges.map(e => `${e.sourceId}>${e.targetId}:${e.kind}:${e.label ?? ''}`)).toEqual([
+      'A>B:jump:', 'B>C:jump:Yes', 'B>D:jump:No if brave', 'C>E:call:', 'D>E:call:',
+    ]);
+    expect(outline.warnings).toEqual(['Line 9: skipped "??? nonsense"']);
+  });
+
+  it('reads DOT clusters, labels and edge chains', () => {
+    const outline = parseStoryOutline([
+      '// drafted in Graphviz',
+      'digraph G {',
+      '  rankdir=LR; node [shape=box];',
+      '  subgraph cluster_a {',
+      '    start -> hub -> { left right } [label="Pick"];',
+      '    label = "Act 1";',
+      '  }',
+      '  left [label=<Go <b>left</b>>];',
+      '  right -> finale [style="bold"];',
+      '  "finale" [label="The " + "End"]',
+      '}',
+    ].join('\n'));
+    expect(outline.format).toBe('dot');
+    expect(outline.nodes.map(n => [n.id, n.text, n.group])).toEqual([
+      ['start', 'start', 'Act 1'],
+      ['hub', 'hub', 'Act 1'],
+      ['left', 'Go left', 'Act 1'],
+      ['right', 'right', 'Act 1'],
+      ['finale', 'The End', undefined],
+    ]);
+    expect(outline.edges.map(e => `${e.sourceId}>${e.targetId}:${e.kind}:${e.label ?? ''}`)).toEqual([
+      'start>hub:jump:Pick', 'hub>left:jump:Pick', 'hub>right:jump:Pick', 'right>finale:call:',
+    ]);
+  });
+
+  it('reads back its own exports', () => {
+    const graph = buildLabelStoryGraph(labelNodes, routeLinks);
+    for (const text of [toDot(graph), toMermaid(graph)]) {
+      const outline = parseStoryOutline(text);
+      expect(outline.nodes.map(n => [n.text, n.group])).toEqual([
+        ['start', 'script.rpy'], ['help', 'script.rpy'], ['ending', 'end "good".rpy'],
+      ]);
+      expect(outline.edges.map(e => [e.kind, e.label])).toEqual([
+        ['jump', 'Help "her" if trust > 2'], ['call', undefined], ['jump', undefined],
+      ]);
+    }
+  });
+
+  it('rejects text in neither format', () => {
+    expect(() => parseStoryOutline('label start:\n    return')).toThrow('Expected a Mermaid "flowchart" or a DOT "digraph" outline');
+  });
+});
+
+describe('scaffoldStoryOutline', () => {
+  it('writes stub labels with menus, jumps and calls, one file per group', () => {
+    const outline = parseStoryOutline([
+      'flowchart LR',
+      '  subgraph Chapter 1',
+      '    intro[Wake up] --> door{Answer the door?}',
+      '    door -->|"Yes if brave"| alice[Meet Alice]',
+      '    door --> hide',
+      '  end',
+      '  alice ==> Start',
+      '  hide --> credits',
+      '  alice --> credits',
+    ].join('\n'));
+    const { files, existingLabels } = scaffoldStoryOutline(outline, {
+      existingLabels: ['start', 'credits'],
+      existingFileNames: ['chapter_1.rpy'],
+      defaultFileName: 'outline.rpy',
+    });
+    expect(existingLabels).toEqual(['start', 'credits']);
+    expect(files.map(f => [f.fileName, f.labels])).toEqual([
+      ['chapter_1_2.rpy', ['wake_up', 'answer_the_door', 'meet_alice', 'hide']],
+    ]);
+    expect(files[0].content).toBe([
+      'label wake_up:',
+      '    # TODO: Wake up',
+      '    jump answer_the_door',
+      '',
+      'label answer_the_door:',
+      '    # TODO: Answer the door?',
+      '    menu:',
+      '        "Yes" if brave:',
+      '            jump meet_alice',
+      '        "hide":',
+      '            jump hide',
+      '',
+      'label meet_alice:',
+      '    # TODO: Meet Alice',
+      '    call start',
+      '    jump credits',
+      '',
+      'label hide:',
+      '    # TODO: write this scene',
+      '    jump credits',
+      '',
+    ].join('\n'));
+  });
+
+  it('keeps label and file names unique and valid', () => {
+    expect(toIdentifier('Épilogue: 2 years later!')).toBe('epilogue_2_years_later');
+    expect(toIdentifier('3rd act')).toBe('label_3rd_act');
+    expect(toIdentifier('???')).toBe('label');
+    const { files } = scaffoldStoryOutline(parseStoryOutline('graph LR\n  a[End] --> b[end]\n  c[The end]'), {
+      existingLabels: [],
+      existingFileNames: [],
+      defaultFileName: 'outline.rpy',
+    });
+    expect(files).toHaveLength(1);
+    expect(files[0].fileName).toBe('outline.rpy');
+    expect(files[0].labels).toEqual(['end', 'end_2', 'the_end']);
+    expect(files[0].content).toContain('label end_2:\n    # TODO: end\n    return');
+  });
+});
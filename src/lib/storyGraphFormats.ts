@@ -0,0 +1,740 @@
+/**
+ * @file storyGraphFormats.ts
+ * @description Story structure as Graphviz DOT, Mermaid and GraphML, and outlines back into stub labels (~740 lines).
+ * Export: the label graph (labels grouped by file, links carrying menu choice text and
+ * conditions) or the file graph (one node per file) is written in a format external diagram
+ * tools can open. Import: a Mermaid `flowchart` or DOT `digraph` drafted elsewhere is parsed
+ * into an outline and scaffolded as stub `label` blocks, one `.rpy` file per subgraph or
+ * cluster. Edges with a label, or several edges from one node, become `menu` choices; a single
+ * plain edge becomes a `jump`; thick (Mermaid `==>`) or bold (DOT) edges become `call`s.
+ * Integration: `buildFileGraph` also backs the file view of `RouteCanvas`; export is offered
+ * by `CanvasExportModal` on the Flow Canvas and import by `StoryOutlineImportModal`.
+ */
+
+import type { LabelNode, RouteLink } from '@/types';
+
+export type StoryGraphFormat = 'dot' | 'mermaid' | 'graphml';
+/** Which graph to export: labels grouped by file, or one node per file */
+export type StoryGraphScope = 'labels' | 'files';
+
+export interface StoryGraphNode {
+  id: string;
+  label: string;
+  /** File the node belongs to; drawn as a cluster or subgraph */
+  group?: string;
+}
+
+export type StoryGraphLink = Pick<RouteLink, 'sourceId' | 'targetId' | 'type' | 'choiceText' | 'choiceCondition'>;
+
+export interface StoryGraph {
+  nodes: StoryGraphNode[];
+  links: StoryGraphLink[];
+}
+
+// --- Building graphs ---
+
+/**
+ * One node per file and one link per pair of files with a transition between them.
+ * Nodes are returned unpositioned; the caller lays them out.
+ */
+export function buildFileGraph(labelNodes: LabelNode[], routeLinks: RouteLink[]): { nodes: LabelNode[]; links: RouteLink[]; labelCountByFile: Map<string, number> } {
+  const fileGroups = new Map<string, LabelNode[]>();
+  labelNodes.forEach(node => {
+    const group = fileGroups.get(node.blockId) ?? [];
+    group.push(node);
+    fileGroups.set(node.blockId, group);
+  });
+  const nodes: LabelNode[] = Array.from(fileGroups.entries()).map(([blockId, groupNodes]) => ({
+    id: blockId,
+    label: (groupNodes[0].containerName ?? blockId).replace(/\.[^.]+$/, ''),
+    blockId,
+    containerName: groupNodes[0].containerName,
+    startLine: 1,
+    position: { x: 0, y: 0 },
+    width: 240,
+    height: 80,
+  }));
+  const labelNodeMap = new Map(labelNodes.map(node => [node.id, node]));
+  const fileLinkMap = new Map<string, RouteLink>();
+  routeLinks.forEach(link => {
+    const src = labelNodeMap.get(link.sourceId);
+    const tgt = labelNodeMap.get(link.targetId);
+    if (!src || !tgt || src.blockId === tgt.blockId) return;
+    const key = `${src.blockId}->${tgt.blockId}`;
+    if (!fileLinkMap.has(key)) {
+      fileLinkMap.set(key, { id: key, sourceId: src.blockId, targetId: tgt.blockId, type: link.type });
+    }
+  });
+  const labelCountByFile = new Map<string, number>(Array.from(fileGroups.entries()).map(([id, g]) => [id, g.length]));
+  return { nodes, links: Array.from(fileLinkMap.values()), labelCountByFile };
+}
+
+/** Labels grouped by file, with every route link */
+export function buildLabelStoryGraph(labelNodes: LabelNode[], routeLinks: RouteLink[]): StoryGraph {
+  const ids = new Set(labelNodes.map(node => node.id));
+  return {
+    nodes: labelNodes.map(node => ({ id: node.id, label: node.label, group: node.containerName ?? node.blockId })),
+    links: routeLinks.filter(link => ids.has(link.sourceId) && ids.has(link.targetId)),
+  };
+}
+
+/** Files as nodes, with one link per cross-file transition */
+export function buildFileStoryGraph(labelNodes: LabelNode[], routeLinks: RouteLink[]): StoryGraph {
+  const { nodes, links } = buildFileGraph(labelNodes, routeLinks);
+  return { nodes: nodes.map(node => ({ id: node.id, label: node.containerName ?? node.label })), links };
+}
+
+// --- Serializing ---
+
+/** Edge caption: the menu choice and its guard, e.g. `Help her if trust > 2` */
+function linkCaption(link: StoryGraphLink): string | undefined {
+  if (!link.choiceText) return undefined;
+  return link.choiceCondition ? `${link.choiceText} if ${link.choiceCondition}` : link.choiceText;
+}
+
+/** Groups in first-appearance order, with ungrouped nodes under the empty key */
+function groupNodes(nodes: StoryGraphNode[]): Map<string, StoryGraphNode[]> {
+  const groups = new Map<string, StoryGraphNode[]>();
+  for (const node of nodes) {
+    const key = node.group ?? '';
+    groups.set(key, [...(groups.get(key) ?? []), node]);
+  }
+  return groups;
+}
+
+const dotString = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, '\\n')}"`;
+
+export function toDot(graph: StoryGraph, name = 'story'): string {
+  const lines = [`digraph ${dotString(name)} {`, '  rankdir=LR;', '  node [shape=box, style=rounded, fontname="Helvetica"];', '  edge [fontname="Helvetica", fontsize=10];'];
+  let clusterIndex = 0;
+  for (const [group, nodes] of groupNodes(graph.nodes)) {
+    const indent = group ? '    ' : '  ';
+    if (group) lines.push(`  subgraph cluster_${clusterIndex++} {`, `    label=${dotString(group)};`);
+    for (const node of nodes) lines.push(`${indent}${dotString(node.id)} [label=${dotString(node.label)}];`);
+    if (group) lines.push('  }');
+  }
+  for (const link of graph.links) {
+    const attrs: string[] = [];
+    const caption = linkCaption(link);
+    if (caption) attrs.push(`label=${dotString(caption)}`);
+    if (link.type === 'call') attrs.push('style=bold');
+    if (link.type === 'implicit') attrs.push('style=dashed');
+    lines.push(`  ${dotString(link.sourceId)} -> ${dotString(link.targetId)}${attrs.length > 0 ? ` [${attrs.join(', ')}]` : ''};`);
+  }
+  lines.push('}');
+  return `${lines.join('\n')}\n`;
+}
+
+/** Mermaid has no escapes inside quoted text, only its own entity codes */
+const mermaidText = (value: string) => `"${value.replace(/"/g, '#quot;').replace(/\|/g, '#124;').replace(/\r?\n/g, ' ')}"`;
+
+export function toMermaid(graph: StoryGraph): string {
+  // Mermaid ids are bare words, so nodes get short generated ids and keep their name as text
+  const mermaidIds = new Map(graph.nodes.map((node, i) => [node.id, `n${i}`]));
+  const lines = ['flowchart LR'];
+  let groupIndex = 0;
+  for (const [group, nodes] of groupNodes(graph.nodes)) {
+    const indent = group ? '    ' : '  ';
+    if (group) lines.push(`  subgraph f${groupIndex++}[${mermaidText(group)}]`);
+    for (const node of nodes) lines.push(`${indent}${mermaidIds.get(node.id)}[${mermaidText(node.label)}]`);
+    if (group) lines.push('  end');
+  }
+  for (const link of graph.links) {
+    const source = mermaidIds.get(link.sourceId);
+    const target = mermaidIds.get(link.targetId);
+    if (!source || !target) continue;
+    const arrow = link.type === 'call' ? '==>' : link.type === 'implicit' ? '-.->' : '-->';
+    const caption = linkCaption(link);
+    lines.push(`  ${source} ${arrow}${caption ? `|${mermaidText(caption)}|` : ''} ${target}`);
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+const xmlText = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+/** GraphML with plain data keys, plus yFiles label graphics so yEd shows the names */
+export function toGraphML(graph: StoryGraph): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xmlns:y="http://www.yworks.com/xml/graphml" xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://www.yworks.com/xml/schema/graphml/1.1/ygraphml.xsd">',
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    '  <key id="file" for="node" attr.name="file" attr.type="string"/>',
+    '  <key id="nodegraphics" for="node" yfiles.type="nodegraphics"/>',
+    '  <key id="type" for="edge" attr.name="type" attr.type="string"/>',
+    '  <key id="choice" for="edge" attr.name="choice" attr.type="string"/>',
+    '  <key id="condition" for="edge" attr.name="condition" attr.type="string"/>',
+    '  <key id="edgegraphics" for="edge" yfiles.type="edgegraphics"/>',
+    '  <graph id="story" edgedefault="directed">',
+  ];
+  for (const node of graph.nodes) {
+    lines.push(`    <node id="${xmlText(node.id)}">`);
+    lines.push(`      <data key="label">${xmlText(node.label)}</data>`);
+    if (node.group) lines.push(`      <data key="file">${xmlText(node.group)}</data>`);
+    lines.push(`      <data key="nodegraphics"><y:ShapeNode><y:Shape type="roundrectangle"/><y:NodeLabel>${xmlText(node.label)}</y:NodeLabel></y:ShapeNode></data>`);
+    lines.push('    </node>');
+  }
+  graph.links.forEach((link, i) => {
+    lines.push(`    <edge id="e${i}" source="${xmlText(link.sourceId)}" target="${xmlText(link.targetId)}">`);
+    lines.push(`      <data key="type">${link.type}</data>`);
+    if (link.choiceText) lines.push(`      <data key="choice">${xmlText(link.choiceText)}</data>`);
+    if (link.choiceCondition) lines.push(`      <data key="condition">${xmlText(link.choiceCondition)}</data>`);
+    const caption = linkCaption(link);
+    const lineType = link.type === 'implicit' ? 'dashed' : 'line';
+    const width = link.type === 'call' ? '3.0' : '1.0';
+    lines.push(`      <data key="edgegraphics"><y:PolyLineEdge><y:LineStyle type="${lineType}" width="${width}"/><y:Arrows source="none" target="standard"/>${caption ? `<y:EdgeLabel>${xmlText(caption)}</y:EdgeLabel>` : ''}</y:PolyLineEdge></data>`);
+    lines.push('    </edge>');
+  });
+  lines.push('  </graph>', '</graphml>');
+  return `${lines.join('\n')}\n`;
+}
+
+export const STORY_GRAPH_FILE_TYPES: Record<StoryGraphFormat, { extension: string; filter: { name: string; extensions: string[] }; mimeType: string }> = {
+  dot: { extension: 'dot', filter: { name: 'Graphviz DOT', extensions: ['dot', 'gv'] }, mimeType: 'text/vnd.graphviz' },
+  mermaid: { extension: 'mmd', filter: { name: 'Mermaid', extensions: ['mmd', 'mermaid'] }, mimeType: 'text/plain' },
+  graphml: { extension: 'graphml', filter: { name: 'GraphML', extensions: ['graphml', 'xml'] }, mimeType: 'application/xml' },
+};
+
+export function serializeStoryGraph(graph: StoryGraph, format: StoryGraphFormat): string {
+  switch (format) {
+    case 'dot': return toDot(graph);
+    case 'mermaid': return toMermaid(graph);
+    case 'graphml': return toGraphML(graph);
+  }
+}
+
+// --- Parsing outlines ---
+
+export interface StoryOutlineNode {
+  id: string;
+  text: string;
+  /** Title of the innermost subgraph or cluster the node was declared in */
+  group?: string;
+}
+
+export interface StoryOutlineEdge {
+  sourceId: string;
+  targetId: string;
+  label?: string;
+  kind: 'jump' | 'call';
+}
+
+export interface StoryOutline {
+  format: 'mermaid' | 'dot';
+  nodes: StoryOutlineNode[];
+  edges: StoryOutlineEdge[];
+  /** Statements that were not understood and were skipped */
+  warnings: string[];
+}
+
+class OutlineBuilder {
+  nodes = new Map<string, StoryOutlineNode>();
+  edges: StoryOutlineEdge[] = [];
+  warnings: string[] = [];
+
+  /** Registers a node; the first explicit text and the first group win */
+  node(id: string, text?: string, group?: string) {
+    const existing = this.nodes.get(id);
+    if (!existing) {
+      this.nodes.set(id, { id, text: text || id, group });
+      return;
+    }
+    if (text && existing.text === id) existing.text = text;
+    if (group && !existing.group) existing.group = group;
+  }
+
+  build(format: StoryOutline['format']): StoryOutline {
+    return { format, nodes: Array.from(this.nodes.values()), edges: this.edges, warnings: this.warnings };
+  }
+}
+
+/** Splits a line at `;` outside quotes and brackets */
+function splitStatements(line: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let start = 0;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') quoted = !quoted;
+    else if (quoted) continue;
+    else if ('[({'.includes(ch)) depth++;
+    else if (')]}'.includes(ch)) depth = Math.max(0, depth - 1);
+    else if (ch === ';' && depth === 0) {
+      parts.push(line.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(line.slice(start));
+  return parts.map(part => part.trim()).filter(Boolean);
+}
+
+const decodeMermaidText = (value: string) => value
+  .trim()
+  .replace(/^"([^]*)"$/, '$1')
+  .replace(/#quot;/g, '"')
+  .replace(/#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+  .replace(/&quot;/g, '"')
+  .replace(/&amp;/g, '&')
+  .replace(/<br\s*\/?>/gi, ' ')
+  .trim();
+
+const MERMAID_ID = /\s*([\p{L}\p{N}_]+)(?::::[\w-]+)?/uy;
+const MERMAID_SHAPE_OPEN = /[[({>]/;
+// `-->|text|`, `---`, `-.->`, `==>`, `--o`, `<-->` and the inline-text forms `-- text -->`, `== text ==>`
+const MERMAID_EDGE = /\s*<?(-{2,}|={2,}|-\.+-)[>ox]?\s*(?:\|([^|]*)\|)?\s*/y;
+const MERMAID_TEXT_EDGE = /\s*<?(--|==|-\.)\s*(?![->.=|])(.+?)\s*(-{2,}|={2,}|\.-+)[>ox]?\s*/y;
+const MERMAID_IGNORED = /^(?:direction|classDef|class|style|linkStyle|click|accTitle|accDescr|title)\b/;
+
+/** Reads `id`, `id[text]`, `id(text)`, `id{text}`, `id([text])`, `id>text]`… at `pos` */
+function readMermaidNode(stmt: string, pos: number): { id: string; text?: string; end: number } | null {
+  MERMAID_ID.lastIndex = pos;
+  const match = MERMAID_ID.exec(stmt);
+  if (!match) return null;
+  let end = MERMAID_ID.lastIndex;
+  if (!MERMAID_SHAPE_OPEN.test(stmt[end] ?? '')) return { id: match[1], end };
+  // Opening run such as `[`, `([`, `[[`, `((`, `{{`, `[/`
+  while (end < stmt.length && '[({>/\\'.includes(stmt[end])) end++;
+  let text: string;
+  if (stmt[end] === '"') {
+    const close = stmt.indexOf('"', end + 1);
+    if (close === -1) return null;
+    text = stmt.slice(end, close + 1);
+    end = close + 1;
+  } else {
+    const close = stmt.slice(end).search(/[\])}]/);
+    if (close === -1) return null;
+    text = stmt.slice(end, end + close).replace(/[/\\]+$/, '');
+    end += close;
+  }
+  while (end < stmt.length && '])}/\\'.includes(stmt[end])) end++;
+  return { id: match[1], text: decodeMermaidText(text), end };
+}
+
+function readMermaidEdge(stmt: string, pos: number): { label?: string; kind: StoryOutlineEdge['kind']; end: number } | null {
+  MERMAID_TEXT_EDGE.lastIndex = pos;
+  const inline = MERMAID_TEXT_EDGE.exec(stmt);
+  if (inline) return { label: decodeMermaidText(inline[2]), kind: inline[1] === '==' ? 'call' : 'jump', end: MERMAID_TEXT_EDGE.lastIndex };
+  MERMAID_EDGE.lastIndex = pos;
+  const plain = MERMAID_EDGE.exec(stmt);
+  if (!plain) return null;
+  const label = plain[2] !== undefined ? decodeMermaidText(plain[2]) : undefined;
+  return { label: label || undefined, kind: plain[1].startsWith('=') ? 'call' : 'jump', end: MERMAID_EDGE.lastIndex };
+}
+
+function parseMermaid(lines: string[]): StoryOutline {
+  const builder = new OutlineBuilder();
+  const groups: string[] = [];
+  for (const [index, rawLine] of lines.entries()) {
+    for (const stmt of splitStatements(rawLine.replace(/%%.*$/, ''))) {
+      if (/^(?:flowchart|graph)\b/.test(stmt)) continue;
+      if (stmt === 'end') {
+        groups.pop();
+        continue;
+      }
+      const subgraph = stmt.match(/^subgraph\s+(.*)$/);
+      if (subgraph) {
+        // `subgraph id [Title]`, `subgraph id["Title"]` or `subgraph Title`
+        const titled = subgraph[1].match(/^[\p{L}\p{N}_-]+\s*\[(.*)\]$/u);
+        groups.push(decodeMermaidText(titled ? titled[1] : subgraph[1]));
+        continue;
+      }
+      if (MERMAID_IGNORED.test(stmt)) continue;
+
+      // A chain of node groups joined by edges: `a & b --> c -->|x| d`
+      const group = groups[groups.length - 1];
+      let pos = 0;
+      let previous: string[] = [];
+      let pendingEdge: { label?: string; kind: StoryOutlineEdge['kind'] } | null = null;
+      let failed = false;
+      while (pos < stmt.length) {
+        const ids: string[] = [];
+        for (;;) {
+          const node = readMermaidNode(stmt, pos);
+          if (!node) break;
+          builder.node(node.id, node.text, group);
+          ids.push(node.id);
+          pos = node.end;
+          const amp = /\s*&\s*/y;
+          amp.lastIndex = pos;
+          if (!amp.exec(stmt)) break;
+          pos = amp.lastIndex;
+        }
+        if (ids.length === 0) {
+          failed = true;
+          break;
+        }
+        if (pendingEdge) {
+          for (const sourceId of previous) {
+            for (const targetId of ids) builder.edges.push({ sourceId, targetId, ...pendingEdge });
+          }
+        }
+        previous = ids;
+        if (pos >= stmt.trimEnd().length) break;
+        const edge = readMermaidEdge(stmt, pos);
+        if (!edge) {
+          failed = true;
+          break;
+        }
+        pendingEdge = { label: edge.label, kind: edge.kind };
+        pos = edge.end;
+      }
+      if (failed) builder.warnings.push(`Line ${index + 1}: skipped "${stmt}"`);
+    }
+  }
+  return builder.build('mermaid');
+}
+
+interface DotToken {
+  value: string;
+  /** Quoted strings and HTML labels are never keywords or punctuation */
+  literal: boolean;
+  line: number;
+}
+
+function tokenizeDot(text: string): DotToken[] {
+  const tokens: DotToken[] = [];
+  let line = 1;
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === '\n') {
+      line++;
+      i++;
+    } else if (/\s/.test(ch)) {
+      i++;
+    } else if (text.startsWith('//', i) || ch === '#') {
+      while (i < text.length && text[i] !== '\n') i++;
+    } else if (text.startsWith('/*', i)) {
+      const close = text.indexOf('*/', i + 2);
+      const end = close === -1 ? text.length : close + 2;
+      line += (text.slice(i, end).match(/\n/g) ?? []).length;
+      i = end;
+    } else if (ch === '"') {
+      let value = '';
+      i++;
+      while (i < text.length && text[i] !== '"') {
+        if (text[i] === '\\' && i + 1 < text.length) {
+          const next = text[i + 1];
+          value += next === 'n' || next === 'l' || next === 'r' ? ' ' : next === '"' || next === '\\' ? next : `\\${next}`;
+          i += 2;
+        } else {
+          if (text[i] === '\n') line++;
+          value += text[i++];
+        }
+      }
+      i++;
+      // `"a" + "b"` concatenation
+      const last = tokens[tokens.length - 1];
+      if (last?.value === '+' && !last.literal && tokens[tokens.length - 2]?.literal) {
+        tokens.pop();
+        tokens[tokens.length - 1].value += value;
+      } else {
+        tokens.push({ value, literal: true, line });
+      }
+    } else if (ch === '<') {
+      let depth = 0;
+      const start = i;
+      do {
+        if (text[i] === '<') depth++;
+        else if (text[i] === '>') depth--;
+        else if (text[i] === '\n') line++;
+        i++;
+      } while (i < text.length && depth > 0);
+      const html = text.slice(start + 1, i - 1);
+      tokens.push({ value: html.replace(/<br\s*\/?>/gi, ' ').replace(/<[^>]*>/g, '').replace(/\s+/g, ' ').trim(), literal: true, line });
+    } else if (text.startsWith('->', i) || text.startsWith('--', i)) {
+      tokens.push({ value: text.slice(i, i + 2), literal: false, line });
+      i += 2;
+    } else if ('{}[]=;,:+'.includes(ch)) {
+      tokens.push({ value: ch, literal: false, line });
+      i++;
+    } else {
+      const match = /^(?:-?(?:\.\d+|\d+(?:\.\d*)?)|[\p{L}_][\p{L}\p{N}_]*)/u.exec(text.slice(i));
+      if (!match) {
+        tokens.push({ value: ch, literal: false, line });
+        i++;
+      } else {
+        tokens.push({ value: match[0], literal: false, line });
+        i += match[0].length;
+      }
+    }
+  }
+  return tokens;
+}
+
+interface DotSubgraph {
+  name?: string;
+  label?: string;
+  nodeIds: string[];
+}
+
+function parseDot(text: string): StoryOutline {
+  const builder = new OutlineBuilder();
+  const tokens = tokenizeDot(text);
+  let pos = 0;
+  const peek = (offset = 0) => tokens[pos + offset];
+  const isPunct = (token: DotToken | undefined, value: string) => token !== undefined && !token.literal && token.value === value;
+  const isKeyword = (token: DotToken | undefined, value: string) => token !== undefined && !token.literal && token.value.toLowerCase() === value;
+  const isId = (token: DotToken | undefined) => token !== undefined && (token.literal || /^[\p{L}\p{N}_.-]/u.test(token.value)) && !isPunct(token, '->') && !isPunct(token, '--');
+  // Node groups resolve after parsing, because a cluster's label may follow its nodes
+  const nodeStacks = new Map<string, DotSubgraph[]>();
+  const groupTitle = (subgraph: DotSubgraph) => subgraph.label ?? subgraph.name?.replace(/^cluster_?/, '');
+  const isGroup = (subgraph: DotSubgraph) => subgraph.label !== undefined || /^cluster/.test(subgraph.name ?? '');
+
+  const readAttrs = (): Record<string, string> => {
+    const attrs: Record<string, string> = {};
+    while (isPunct(peek(), '[')) {
+      pos++;
+      while (peek() && !isPunct(peek(), ']')) {
+        const key = tokens[pos++];
+        if (isPunct(peek(), '=')) {
+          pos++;
+          attrs[key.value] = tokens[pos++]?.value ?? '';
+        }
+        if (isPunct(peek(), ',') || isPunct(peek(), ';')) pos++;
+      }
+      pos++;
+    }
+    return attrs;
+  };
+
+  const readNodeId = (stack: DotSubgraph[]): string => {
+    const id = tokens[pos++].value;
+    // Ports: `node:port:compass`
+    while (isPunct(peek(), ':') && isId(peek(1))) pos += 2;
+    for (const subgraph of stack) {
+      if (!subgraph.nodeIds.includes(id)) subgraph.nodeIds.push(id);
+    }
+    if (!nodeStacks.has(id) && stack.length > 1) nodeStacks.set(id, [...stack]);
+    builder.node(id);
+    return id;
+  };
+
+  // Returns the ids an edge operand stands for: a node or every node of a subgraph
+  const readOperand = (stack: DotSubgraph[]): string[] | null => {
+    if (isKeyword(peek(), 'subgraph') || isPunct(peek(), '{')) return readSubgraph(stack).nodeIds;
+    if (isId(peek())) return [readNodeId(stack)];
+    return null;
+  };
+
+  const readStatements = (stack: DotSubgraph[]) => {
+    while (peek() && !isPunct(peek(), '}')) {
+      const start = pos;
+      const token = peek();
+      if (isPunct(token, ';') || isPunct(token, ',')) {
+        pos++;
+        continue;
+      }
+      if ((isKeyword(token, 'graph') || isKeyword(token, 'node') || isKeyword(token, 'edge')) && isPunct(peek(1), '[')) {
+        pos++;
+        const attrs = readAttrs();
+        if (token.value.toLowerCase() === 'graph' && attrs.label !== undefined) stack[stack.length - 1].label = attrs.label;
+        continue;
+      }
+      if (isId(token) && isPunct(peek(1), '=')) {
+        pos += 2;
+        const value = tokens[pos++]?.value ?? '';
+        if (token.value === 'label') stack[stack.length - 1].label = value;
+        continue;
+      }
+      const operands: string[][] = [];
+      const first = readOperand(stack);
+      if (!first) {
+        builder.warnings.push(`Line ${token.line}: skipped "${token.value}"`);
+        pos = start + 1;
+        continue;
+      }
+      operands.push(first);
+      while (isPunct(peek(), '->') || isPunct(peek(), '--')) {
+        pos++;
+        const next = readOperand(stack);
+        if (!next) break;
+        operands.push(next);
+      }
+      const attrs = readAttrs();
+      if (operands.length === 1) {
+        if (attrs.label !== undefined && first.length === 1 && !isPunct(tokens[start], '{') && !isKeyword(tokens[start], 'subgraph')) {
+          builder.node(first[0], attrs.label);
+        }
+        continue;
+      }
+      const kind: StoryOutlineEdge['kind'] = /\bbold\b/.test(attrs.style ?? '') ? 'call' : 'jump';
+      const label = (attrs.label ?? attrs.xlabel)?.trim() || undefined;
+      for (let i = 1; i < operands.length; i++) {
+        for (const sourceId of operands[i - 1]) {
+          for (const targetId of operands[i]) builder.edges.push({ sourceId, targetId, label, kind });
+        }
+      }
+    }
+  };
+
+  const readSubgraph = (stack: DotSubgraph[]): DotSubgraph => {
+    const subgraph: DotSubgraph = { nodeIds: [] };
+    if (isKeyword(peek(), 'subgraph')) {
+      pos++;
+      if (isId(peek()) && !isPunct(peek(), '{')) subgraph.name = tokens[pos++].value;
+    }
+    if (isPunct(peek(), '{')) {
+      pos++;
+      readStatements([...stack, subgraph]);
+      pos++;
+    }
+    return subgraph;
+  };
+
+  if (isKeyword(peek(), 'strict')) pos++;
+  if (!isKeyword(peek(), 'digraph') && !isKeyword(peek(), 'graph')) throw new Error('Expected a DOT "digraph" or "graph"');
+  pos++;
+  if (isId(peek()) && !isPunct(peek(), '{')) pos++;
+  if (!isPunct(peek(), '{')) throw new Error('Expected "{" after the DOT graph header');
+  pos++;
+  const root: DotSubgraph = { nodeIds: [] };
+  readStatements([root]);
+
+  for (const [id, stack] of nodeStacks) {
+    const innermost = [...stack].reverse().find(isGroup);
+    const node = builder.nodes.get(id);
+    if (node && innermost) node.group = groupTitle(innermost);
+  }
+  return builder.build('dot');
+}
+
+/**
+ * Parses a Mermaid `flowchart`/`graph` or a DOT `digraph` outline.
+ *
+ * @throws When the text is neither format
+ */
+export function parseStoryOutline(text: string): StoryOutline {
+  const lines = text.split(/\r?\n/);
+  const header = lines.map(line => line.replace(/%%.*$/, '').trim()).find(Boolean) ?? '';
+  // Mermaid's `graph TD` has a direction and no braces; DOT's `graph name {` has braces
+  if (/^flowchart\b/.test(header) || /^graph(?:\s+(?:TB|TD|BT|RL|LR))?\s*;?$/.test(header)) return parseMermaid(lines);
+  if (/^(?:\/\/|\/\*|#|(?:strict\s+)?(?:di)?graph\b)/i.test(header)) return parseDot(text);
+  throw new Error('Expected a Mermaid "flowchart" or a DOT "digraph" outline');
+}
+
+// --- Scaffolding ---
+
+export interface ScaffoldFile {
+  fileName: string;
+  /** New labels defined in the file, in outline order */
+  labels: string[];
+  content: string;
+}
+
+export interface StoryScaffold {
+  files: ScaffoldFile[];
+  /** Outline nodes that name labels the project already has; they are jumped to, not recreated */
+  existingLabels: string[];
+}
+
+export interface ScaffoldOptions {
+  /** Labels defined anywhere in the project */
+  existingLabels: Iterable<string>;
+  /** File names already in the target folder */
+  existingFileNames: Iterable<string>;
+  /** File for nodes outside any subgraph or cluster */
+  defaultFileName: string;
+}
+
+const MAX_NAME_LENGTH = 40;
+
+/** Turns outline text into a Ren'Py identifier: `Meet Alice!` → `meet_alice` */
+export function toIdentifier(text: string): string {
+  let name = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9_]+/g, '_')
+    .replace(/_+/g, '_')
+    .replace(/^_|_$/g, '');
+  if (name.length > MAX_NAME_LENGTH) {
+    const cut = name.lastIndexOf('_', MAX_NAME_LENGTH);
+    name = name.slice(0, cut > MAX_NAME_LENGTH / 2 ? cut : MAX_NAME_LENGTH).replace(/_$/, '');
+  }
+  if (!name) return 'label';
+  return /^\d/.test(name) ? `label_${name}` : name;
+}
+
+const uniqueName = (base: string, taken: Set<string>) => {
+  let name = base;
+  for (let n = 2; taken.has(name); n++) name = `${base}_${n}`;
+  taken.add(name);
+  return name;
+};
+
+const renpyString = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+/** `Help her if trust > 2` → choice `Help her` guarded by `trust > 2` */
+function splitChoice(label: string): { text: string; condition?: string } {
+  const match = label.match(/^(.+?)\s+if\s+(.+)$/);
+  return match ? { text: match[1].trim(), condition: match[2].trim() } : { text: label };
+}
+
+/**
+ * Lays an outline out as stub labels, one `.rpy` file per group.
+ * Nodes whose id, text or derived name matches an existing label link to it instead of
+ * getting a stub; edges leaving such nodes are left out, since existing scripts are not edited.
+ */
+export function scaffoldStoryOutline(outline: StoryOutline, options: ScaffoldOptions): StoryScaffold {
+  const projectLabels = new Set(options.existingLabels);
+  const takenLabels = new Set(projectLabels);
+  const takenFiles = new Set(Array.from(options.existingFileNames, name => name.toLowerCase().replace(/\.rpy$/, '')));
+  const names = new Map<string, string>();
+  const existing: string[] = [];
+  const newNodes: StoryOutlineNode[] = [];
+
+  for (const node of outline.nodes) {
+    const match = [node.id, node.text, toIdentifier(node.text)].find(candidate => projectLabels.has(candidate));
+    if (match) {
+      names.set(node.id, match);
+      if (!existing.includes(match)) existing.push(match);
+    } else {
+      names.set(node.id, uniqueName(toIdentifier(node.text), takenLabels));
+      newNodes.push(node);
+    }
+  }
+
+  const textById = new Map(outline.nodes.map(node => [node.id, node.text]));
+  const edgesBySource = new Map<string, StoryOutlineEdge[]>();
+  for (const edge of outline.edges) edgesBySource.set(edge.sourceId, [...(edgesBySource.get(edge.sourceId) ?? []), edge]);
+
+  const renderLabel = (node: StoryOutlineNode): string[] => {
+    const name = names.get(node.id)!;
+    const lines = [`label ${name}:`, `    # TODO: ${node.text === name ? 'write this scene' : node.text.replace(/\s+/g, ' ')}`];
+    const edges = edgesBySource.get(node.id) ?? [];
+    for (const edge of edges.filter(e => e.kind === 'call')) lines.push(`    call ${names.get(edge.targetId)}`);
+    const jumps = edges.filter(e => e.kind === 'jump');
+    if (jumps.length === 1 && !jumps[0].label) {
+      lines.push(`    jump ${names.get(jumps[0].targetId)}`);
+    } else if (jumps.length > 0) {
+      lines.push('    menu:');
+      for (const edge of jumps) {
+        const choice = edge.label ? splitChoice(edge.label) : { text: textById.get(edge.targetId) ?? edge.targetId };
+        lines.push(`        ${renpyString(choice.text)}${choice.condition ? ` if ${choice.condition}` : ''}:`);
+        lines.push(`            jump ${names.get(edge.targetId)}`);
+      }
+    } else {
+      lines.push('    return');
+    }
+    return lines;
+  };
+
+  const byFile = new Map<string, StoryOutlineNode[]>();
+  for (const node of newNodes) {
+    const key = node.group ?? '';
+    byFile.set(key, [...(byFile.get(key) ?? []), node]);
+  }
+  const defaultBase = options.defaultFileName.replace(/\.rpy$/i, '');
+  const files = Array.from(byFile.entries()).map(([group, nodes]) => {
+    const base = group ? toIdentifier(group.replace(/\.rpy$/i, '')) : defaultBase;
+    const fileName = `${uniqueName(base, takenFiles)}.rpy`;
+    const content = nodes.map(node => renderLabel(node).join('\n')).join('\n\n');
+    return { fileName, labels: nodes.map(node => names.get(node.id)!), content: `${content}\n` };
+  });
+  return { files, existingLabels: existing };
+}
@@ -0,0 +1,115 @@
+import { buildStoryboard, checkStoryboardMove, computeLabelStats, planStoryboardMove, type StoryboardEntry } from './storyboardOutline';
+import { applyQuickFixEdits } from './renpyQuickFixes';
+import { performRenpyAnalysis, performRouteAnalysis } from '@/hooks/useRenpyAnalysis';
+
+const analyze = (content: string) => {
+  const blocks = [{ id: 'b1', content }];
+  const result = performRenpyAnalysis(blocks);
+  Object.assign(result, performRouteAnalysis(blocks, result.labels, result.jumps));
+  return { blocks, result, nodeId: (name: string) => `b1:${name}` };
+};
+
+// `start > intro [help | leave] > finale`
+const describeOutline = (entries: StoryboardEntry[]): string => entries
+  .map(entry => entry.nodeId.replace('b1:', '') +
+    (entry.branches.length > 0 ? ` [${entry.branches.map(describeOutline).join(' | ')}]` : '') +
+    (entry.loopsBackTo.length > 0 ? ` ↩ ${entry.loopsBackTo.map(id => id.replace('b1:', '')).join(', ')}` : ''))
+  .join(' > ');
+
+const SCRIPT = [
+  'define e = Character("Eileen")',
+  'define l = Character("Lucy")',
+  'label start:',
+  '    e "Hello there, friend."',
+  '    jump intro',
+  'label intro:',
+  '    "It is a quiet morning."',
+  '    menu:',
+  '        "Help her" if trust > 2:',
+  '            jump help',
+  '        "Walk away":',
+  '            jump leave',
+  'label help:',
+  '    l "Thank you!"',
+  '    e "Any time."',
+  '    jump finale',
+  'label leave:',
+  '    jump finale',
+  'label finale:',
+  '    "The end."',
+  '    return',
+  'label epilogue:',
+  '    return',
+].join('\n');
+
+describe('buildStoryboard', () => {
+  it('lists labels in play order with branches nested until they meet again', () => {
+    const { result } = analyze(SCRIPT);
+    const sections = buildStoryboard(result.labelNodes, result.routeLinks);
+    expect(sections.map(describeOutline)).toEqual(['start > intro [help | leave] > finale', 'epilogue']);
+  });
+
+  it('sets loops aside and keeps optional detours inside the outer list', () => {
+    const { result } = analyze([
+      'label start:',
+      '    jump day',
+      'label day:',
+      '    if tired:',
+      '        jump nap',
+      '    jump night',
+      'label nap:',
+      '    jump night',
+      'label night:',
+      '    menu:',
+      '        "Again":',
+      '            jump day',
+      '        "Sleep":',
+      '            jump ending',
+      'label ending:',
+      '    return',
+    ].join('\n'));
+    expect(buildStoryboard(result.labelNodes, result.routeLinks).map(describeOutline)).toEqual([
+      'start > day [nap] > night ↩ day > ending',
+    ]);
+  });
+});
+
+describe('computeLabelStats', () => {
+  it('counts words, speakers and choices per label body', () => {
+    const { blocks, result, nodeId } = analyze(SCRIPT);
+    const stats = computeLabelStats(result.labelNodes, blocks, result.dialogueLines);
+    expect(stats.get(nodeId('start'))).toEqual({ endLine: 5, wordCount: 3, speakers: ['e'], choices: [] });
+    expect(stats.get(nodeId('intro'))).toEqual({
+      endLine: 12,
+      wordCount: 5,
+      speakers: [],
+      choices: [{ text: 'Help her', condition: 'trust > 2', line: 9 }, { text: 'Walk away', condition: undefined, line: 11 }],
+    });
+    expect(stats.get(nodeId('help'))!.speakers).toEqual(['l', 'e']);
+  });
+});
+
+describe('planStoryboardMove', () => {
+  it('splices a label out of its chain and in after another', () => {
+    const { blocks, result, nodeId } = analyze(SCRIPT);
+    const plan = planStoryboardMove(nodeId('help'), nodeId('leave'), result.labelNodes, result.routeLinks, blocks);
+    if ('error' in plan) throw new Error(plan.error);
+    const moved = analyze(applyQuickFixEdits(SCRIPT, plan.edits));
+    const lines = moved.blocks[0].content.split('\n');
+    expect(lines[9]).toBe('            jump finale');
+    expect(lines[17]).toBe('    jump help');
+    // `help` still follows the menu in the file, so the analysis keeps its fall-through link from `intro`
+    expect(buildStoryboard(moved.result.labelNodes, moved.result.routeLinks).map(describeOutline)).toEqual([
+      'start > intro [leave] > help > finale', 'epilogue',
+    ]);
+  });
+
+  it('refuses moves that cannot be expressed as jump rewrites', () => {
+    const { result, nodeId } = analyze(SCRIPT);
+    expect(checkStoryboardMove(nodeId('intro'), nodeId('leave'), result.labelNodes, result.routeLinks))
+      .toBe('"intro" can only be moved when it ends in a single jump');
+    expect(checkStoryboardMove(nodeId('help'), nodeId('finale'), result.labelNodes, result.routeLinks))
+      .toBe('Labels can only be placed after a label that ends in a single jump; "finale" does not');
+    expect(checkStoryboardMove(nodeId('help'), nodeId('start'), result.labelNodes, result.routeLinks)).toBeNull();
+  });
+});
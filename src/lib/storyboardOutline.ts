@@ -0,0 +1,273 @@
+/**
+ * @file storyboardOutline.ts
+ * @description Reading-order outline of the label graph and the jump rewrites behind reordering it (~300 lines).
+ * Labels are listed in play order: a depth-first reverse postorder of the route graph with
+ * loop-back links set aside, starting at `start`. Nesting follows the dominator tree of that
+ * graph: the labels a branch point leads to directly (and only from there) open indented
+ * branches, and the label where the branches meet again continues the outer list. Every
+ * label appears once; labels nothing reaches from `start` get their own top-level sections.
+ * Reordering splices a label out of its chain and in after another one, like moving a node
+ * in a linked list, by rewriting the targets of the `jump` statements involved.
+ * Integration: `StoryboardView` renders the outline; App applies the planned edits through
+ * the same path as quick fixes.
+ */
+
+import type { Block, DialogueLine, LabelNode, RouteLink } from '@/types';
+import type { QuickFixTextEdit } from '@/lib/renpyQuickFixes';
+
+export interface StoryboardEntry {
+  nodeId: string;
+  /** Sequences that branch off here, in the order their links appear in the script */
+  branches: StoryboardEntry[][];
+  /** Labels earlier in play order that this label jumps back to */
+  loopsBackTo: string[];
+}
+
+export interface LabelStats {
+  /** Last line of the label's body (1-based, inclusive) */
+  endLine: number;
+  wordCount: number;
+  /** Character tags that speak in the label, in order of first line */
+  speakers: string[];
+  choices: { text: string; condition?: string; line: number }[];
+}
+
+const ROOT = '\u0000root';
+
+/**
+ * Builds the outline. The result is a list of top-level sections, the first starting at
+ * `start` (or the first label nothing jumps to).
+ */
+export function buildStoryboard(labelNodes: LabelNode[], routeLinks: RouteLink[]): StoryboardEntry[][] {
+  if (labelNodes.length === 0) return [];
+  const ids = new Set(labelNodes.map(node => node.id));
+  const successors = new Map<string, string[]>();
+  const hasIncoming = new Set<string>();
+  for (const node of labelNodes) successors.set(node.id, []);
+  for (const link of routeLinks) {
+    if (link.sourceId === link.targetId || !ids.has(link.sourceId) || !ids.has(link.targetId)) continue;
+    const list = successors.get(link.sourceId)!;
+    if (!list.includes(link.targetId)) list.push(link.targetId);
+    hasIncoming.add(link.targetId);
+  }
+
+  // Depth-first search from a virtual root, adding entry points until every label is reached
+  const entry = labelNodes.find(node => node.label === 'start') ?? labelNodes.find(node => !hasIncoming.has(node.id)) ?? labelNodes[0];
+  const postorder: string[] = [];
+  const state = new Map<string, 'open' | 'done'>();
+  const backLinks = new Map<string, string[]>();
+  const forwardPreds = new Map<string, string[]>();
+  const addForward = (from: string, to: string) => forwardPreds.set(to, [...(forwardPreds.get(to) ?? []), from]);
+  const visitIndex = new Map<string, number>();
+  let visits = 0;
+  const visit = (start: string) => {
+    addForward(ROOT, start);
+    state.set(start, 'open');
+    visitIndex.set(start, visits);
+    const stack: { id: string; next: number }[] = [{ id: start, next: 0 }];
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      // Successors are taken last to first so the reverse postorder lists them in script order
+      const list = successors.get(frame.id)!;
+      const next = list[list.length - 1 - frame.next++];
+      if (next === undefined) {
+        state.set(frame.id, 'done');
+        postorder.push(frame.id);
+        stack.pop();
+      } else if (state.get(next) === 'open') {
+        backLinks.set(frame.id, [...(backLinks.get(frame.id) ?? []), next]);
+      } else {
+        addForward(frame.id, next);
+        if (!state.has(next)) {
+          state.set(next, 'open');
+          visitIndex.set(next, visits);
+          stack.push({ id: next, next: 0 });
+        }
+      }
+    }
+    visits++;
+  };
+  visit(entry.id);
+  for (const node of labelNodes) if (!hasIncoming.has(node.id) && !state.has(node.id)) visit(node.id);
+  for (const node of labelNodes) if (!state.has(node.id)) visit(node.id);
+
+  // Dominators over the loop-free graph; processing in topological order needs one pass
+  const order = [ROOT, ...postorder.reverse()];
+  const rank = new Map(order.map((id, i) => [id, i]));
+  const idom = new Map<string, string>([[ROOT, ROOT]]);
+  const intersect = (a: string, b: string) => {
+    while (a !== b) {
+      while (rank.get(a)! > rank.get(b)!) a = idom.get(a)!;
+      while (rank.get(b)! > rank.get(a)!) b = idom.get(b)!;
+    }
+    return a;
+  };
+  for (const id of order.slice(1)) {
+    const preds = forwardPreds.get(id) ?? [];
+    idom.set(id, preds.reduce((acc, pred) => intersect(acc, pred)));
+  }
+
+  const forwardSuccessors = (id: string) => (successors.get(id) ?? []).filter(next => (forwardPreds.get(next) ?? []).includes(id));
+  const entries = new Map<string, StoryboardEntry>();
+  const containers = new Map<string, StoryboardEntry[]>();
+  const sections: StoryboardEntry[][] = [];
+  for (const id of order.slice(1)) {
+    const entryOf: StoryboardEntry = { nodeId: id, branches: [], loopsBackTo: backLinks.get(id) ?? [] };
+    entries.set(id, entryOf);
+    const dominator = idom.get(id)!;
+    const preds = forwardPreds.get(id)!;
+    let container: StoryboardEntry[];
+    if (dominator === ROOT) {
+      container = [];
+      sections.push(container);
+    } else if (forwardSuccessors(dominator).length > 1 && preds.length === 1 && preds[0] === dominator) {
+      container = [];
+      entries.get(dominator)!.branches.push(container);
+    } else {
+      container = containers.get(dominator)!;
+    }
+    container.push(entryOf);
+    containers.set(id, container);
+  }
+  // Topological order puts later entry points first; list sections in the order they were found
+  return sections.sort((a, b) => visitIndex.get(a[0].nodeId)! - visitIndex.get(b[0].nodeId)!);
+}
+
+const SAY_REGEX = /^(?:[A-Za-z_]\w*\s+)*"((?:\\.|[^"\\])*)"/;
+const CHOICE_REGEX = /^"((?:\\.|[^"\\])*)"(?:\s+if\s+(.+?))?\s*:\s*(?:#.*)?$/;
+const LABEL_LINE_REGEX = /^label\s+[\w.]+/;
+
+/**
+ * Word count, speaking characters and menu choices of each label's body, which runs to the
+ * line before the next label in the same file.
+ */
+export function computeLabelStats(
+  labelNodes: LabelNode[],
+  blocks: Pick<Block, 'id' | 'content'>[],
+  dialogueLines: Map<string, DialogueLine[]>,
+): Map<string, LabelStats> {
+  const stats = new Map<string, LabelStats>();
+  const contentById = new Map(blocks.map(block => [block.id, block.content.split('\n')]));
+  const nodesByBlock = new Map<string, LabelNode[]>();
+  for (const node of labelNodes) nodesByBlock.set(node.blockId, [...(nodesByBlock.get(node.blockId) ?? []), node]);
+
+  nodesByBlock.forEach((nodes, blockId) => {
+    const lines = contentById.get(blockId) ?? [];
+    const sorted = [...nodes].sort((a, b) => a.startLine - b.startLine);
+    sorted.forEach((node, i) => {
+      let endLine = sorted[i + 1] ? sorted[i + 1].startLine - 1 : lines.length;
+      // Labels the analysis skips (menu labels, debug stubs) still end the body
+      for (let line = node.startLine + 1; line <= endLine; line++) {
+        if (LABEL_LINE_REGEX.test(lines[line - 1] ?? '')) {
+          endLine = line - 1;
+          break;
+        }
+      }
+      let wordCount = 0;
+      const choices: LabelStats['choices'] = [];
+      for (let line = node.startLine + 1; line <= endLine; line++) {
+        const text = (lines[line - 1] ?? '').trim();
+        const choice = text.match(CHOICE_REGEX);
+        if (choice) {
+          choices.push({ text: choice[1], condition: choice[2], line });
+          continue;
+        }
+        const say = text.match(SAY_REGEX);
+        if (say && !/^(?:define|default|image|scene|show|play|queue|voice|jump|call)\b/.test(text)) {
+          wordCount += say[1].trim().split(/\s+/).filter(Boolean).length;
+        }
+      }
+      const speakers: string[] = [];
+      for (const dialogue of dialogueLines.get(blockId) ?? []) {
+        if (dialogue.line > node.startLine && dialogue.line <= endLine && !speakers.includes(dialogue.tag)) speakers.push(dialogue.tag);
+      }
+      stats.set(node.id, { endLine, wordCount, speakers, choices });
+    });
+  });
+  return stats;
+}
+
+const outgoing = (nodeId: string, routeLinks: RouteLink[]) => routeLinks.filter(l => l.sourceId === nodeId && l.targetId !== nodeId);
+
+/**
+ * Checks whether a label can be picked up: it must end in a single `jump` and be entered by
+ * `jump`s. Falling through from a label that also jumps (typically past a menu whose choices
+ * all jump away) does not block the move and is left as it is.
+ *
+ * @returns Why the label cannot be moved, or null when it can
+ */
+export function checkStoryboardMovable(nodeId: string, labelNodes: LabelNode[], routeLinks: RouteLink[]): string | null {
+  const name = labelNodes.find(node => node.id === nodeId)?.label ?? nodeId;
+  const out = outgoing(nodeId, routeLinks);
+  if (out.length !== 1 || out[0].type !== 'jump') return `"${name}" can only be moved when it ends in a single jump`;
+  const incoming = routeLinks.filter(l => l.targetId === nodeId && l.sourceId !== nodeId);
+  const jumpsFrom = (id: string) => routeLinks.some(l => l.sourceId === id && l.type === 'jump');
+  if (incoming.some(l => l.type === 'call' || (l.type === 'implicit' && !jumpsFrom(l.sourceId)))) {
+    return `"${name}" is reached by a call or by falling through from the label above it`;
+  }
+  return null;
+}
+
+/**
+ * Checks whether `nodeId` can be moved to follow `afterId`, which must end in a single
+ * `jump` itself.
+ *
+ * @returns Why the move is not possible, or null when it is
+ */
+export function checkStoryboardMove(nodeId: string, afterId: string, labelNodes: LabelNode[], routeLinks: RouteLink[]): string | null {
+  const movable = checkStoryboardMovable(nodeId, labelNodes, routeLinks);
+  if (movable) return movable;
+  if (nodeId === afterId) return 'A label cannot follow itself';
+  const after = outgoing(afterId, routeLinks);
+  if (after.length !== 1 || after[0].type !== 'jump') {
+    const name = labelNodes.find(node => node.id === afterId)?.label ?? afterId;
+    return `Labels can only be placed after a label that ends in a single jump; "${name}" does not`;
+  }
+  return null;
+}
+
+/**
+ * Plans the edits that move `nodeId` to follow `afterId`: whatever jumped to the label now
+ * jumps to its successor, `afterId` jumps to the label, and the label jumps to where
+ * `afterId` used to go.
+ *
+ * @returns The text edits, or an error when the move is not possible
+ */
+export function planStoryboardMove(
+  nodeId: string,
+  afterId: string,
+  labelNodes: LabelNode[],
+  routeLinks: RouteLink[],
+  blocks: Pick<Block, 'id' | 'content'>[],
+): { edits: QuickFixTextEdit[] } | { error: string } {
+  const error = checkStoryboardMove(nodeId, afterId, labelNodes, routeLinks);
+  if (error) return { error };
+  const nodes = new Map(labelNodes.map(node => [node.id, node]));
+  const [leave] = outgoing(nodeId, routeLinks);
+  const [insertAt] = outgoing(afterId, routeLinks);
+  if (insertAt.targetId === nodeId) return { edits: [] };
+
+  const retarget = new Map<RouteLink, string>();
+  for (const link of routeLinks) {
+    if (link.targetId === nodeId && link.sourceId !== nodeId && link.type === 'jump') retarget.set(link, leave.targetId);
+  }
+  retarget.set(insertAt, nodeId);
+  retarget.set(leave, insertAt.targetId);
+
+  const contentById = new Map(blocks.map(block => [block.id, block.content.split('\n')]));
+  const edits: QuickFixTextEdit[] = [];
+  for (const [link, targetId] of retarget) {
+    const source = nodes.get(link.sourceId);
+    const oldName = nodes.get(link.targetId)?.label;
+    const newName = nodes.get(targetId)?.label;
+    if (!source || !oldName || !newName || link.sourceLine === undefined) return { error: 'The route graph is out of date; try again after the analysis finishes' };
+    if (oldName === newName) continue;
+    const text = contentById.get(source.blockId)?.[link.sourceLine - 1] ?? '';
+    const escaped = oldName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const match = new RegExp(`(\\bjump\\s+)(${escaped})(?![\\w.])`).exec(text);
+    if (!match) return { error: `Could not find "jump ${oldName}" on line ${link.sourceLine} of "${source.containerName ?? source.blockId}"` };
+    const column = match.index + match[1].length + 1;
+    edits.push({ blockId: source.blockId, startLine: link.sourceLine, startColumn: column, endLine: link.sourceLine, endColumn: column + oldName.length, text: newName });
+  }
+  return { edits };
+}
@@ -0,0 +1,131 @@
+import {
+  buildTranslationExchange,
+  parseTranslationExchange,
+  planTranslationImport,
+  serializeTranslationExchange,
+  type TranslationExchangeEntry,
+} from './translationExchange';
+import { applyQuickFixEdits } from './renpyQuickFixes';
+import { performTranslationAnalysis } from './renpyTranslationParser';
+
+const SOURCE = [
+  'label start:',
+  '    e "Say \\"hi\\"."',
+  '    "The wind blows."',
+  '    menu:',
+  '        "Stay":',
+  '            pass',
+  '        "Leave":',
+  '            return',
+].join('\n');
+
+const FRENCH = [
+  'translate french start_131f56d3:',
+  '    e "Dis \\"salut\\"."',
+  '',
+  'translate french start_9c0d0787:',
+  '    "The wind blows."',
+  '',
+  'translate french strings:',
+  '',
+  '    old "Stay"',
+  '    new "Rester"',
+].join('\n');
+
+const makeBlocks = (french = FRENCH) => [
+  { id: 'src', content: SOURCE, filePath: 'game/script.rpy' },
+  { id: 'fr', content: french, filePath: 'game/tl/french/script.rpy' },
+];
+
+const analyze = (blocks = makeBlocks()) => performTranslationAnalysis(blocks, new Map(), { start: { blockId: 'src' } });
+
+const importEntries = (entries: TranslationExchangeEntry[], overwrite = false) => {
+  const blocks = makeBlocks();
+  const plan = planTranslationImport(entries, 'french', analyze(blocks), blocks, { overwrite });
+  return { plan, french: plan.edits.length > 0 ? applyQuickFixEdits(FRENCH, plan.edits) : FRENCH };
+};
+
+describe('translation exchange', () => {
+  it('exports one unit per string with plain text, stable IDs and context', () => {
+    const entries = buildTranslationExchange(analyze(), 'french');
+    expect(entries.map(e => [e.id, e.source, e.target])).toEqual([
+      ['start_131f56d3', 'Say "hi".', 'Dis "salut".'],
+      ['start_9c0d0787', 'The wind blows.', ''],
+      ['strings:Stay', 'Stay', 'Rester'],
+      ['strings:Leave', 'Leave', ''],
+    ]);
+    expect(entries[0].context).toEqual({ label: 'start', speaker: 'e', filePath: 'game/script.rpy', line: 2, type: 'dialogue' });
+  });
+
+  it.each(['xliff12', 'xliff20', 'po', 'csv'] as const)('round-trips %s', format => {
+    const entries = buildTranslationExchange(analyze(), 'french');
+    entries[1].target = 'Le vent "souffle",\nfort.';
+    const text = serializeTranslationExchange(entries, format, 'french');
+    const parsed = parseTranslationExchange(text, `french.${format === 'po' || format === 'csv' ? format : 'xlf'}`);
+    expect(parsed.format).toBe(format);
+    expect(parsed.language).toBe(format === 'csv' ? null : 'french');
+    expect(parsed.entries).toEqual(entries);
+  });
+
+  it('keeps the exported translation of a PO file when a CAT tool drops its #| fields', () => {
+    const blocks = makeBlocks();
+    const data = analyze(blocks);
+    const po = serializeTranslationExchange(buildTranslationExchange(data, 'french'), 'po', 'french')
+      .replace('msgstr "Rester"', 'msgstr "Demeurer"')
+      .split('\n').filter(line => !line.startsWith('#|')).join('\n');
+    const parsed = parseTranslationExchange(po, 'french.po');
+    expect(parsed.entries.find(entry => entry.id === 'strings:Stay')?.exportedTarget).toBe('Rester');
+    const plan = planTranslationImport(parsed.entries, 'french', data, blocks);
+    expect(plan).toMatchObject({ updatedCount: 1, conflicts: [] });
+    expect(applyQuickFixEdits(FRENCH, plan.edits)).toBe(FRENCH.replace('new "Rester"', 'new "Demeurer"'));
+  });
+
+  it('merges translations into existing blocks and the string table', () => {
+    const { plan, french } = importEntries([
+      { id: 'start_9c0d0787', source: 'The wind blows.', target: 'Le vent souffle.' },
+      { id: 'strings:Leave', source: 'Leave', target: 'Partir' },
+      { id: 'strings:Stay', source: 'Stay', target: 'Rester' },
+    ]);
+    expect(plan).toMatchObject({ updatedCount: 2, unchangedCount: 1, conflicts: [], missingIds: [], sourceChanged: [], failed: [] });
+    expect(french).toBe(`${FRENCH.replace('    "The wind blows."', '    "Le vent souffle."')}\n\n    old "Leave"\n    new "Partir"`);
+  });
+
+  it('lists the translations written for the translation memory', () => {
+    const { plan } = importEntries([
+      { id: 'start_9c0d0787', source: 'The wind blows.', target: 'Le vent "souffle".' },
+      { id: 'strings:Leave', source: 'Leave', target: 'Partir' },
+      { id: 'strings:Stay', source: 'Stay', target: 'Rester' },
+    ]);
+    expect(plan.written.map(({ source, text }) => [source.sourceText, text])).toEqual([
+      ['The wind blows.', 'Le vent \\"souffle\\".'],
+      ['Leave', 'Partir'],
+    ]);
+  });
+
+  it.each(['xliff12', 'po', 'csv'] as const)('reports a line whose source changed after a %s export', format => {
+    const entries = buildTranslationExchange(analyze(), 'french');
+    entries[1].target = 'Le vent souffle.';
+    const text = serializeTranslationExchange(entries, format, 'french');
+    const blocks = [
+      { id: 'src', content: SOURCE.replace('"The wind blows."', '"The wind howls."'), filePath: 'game/script.rpy' },
+      { id: 'fr', content: FRENCH, filePath: 'game/tl/french/script.rpy' },
+    ];
+    const plan = planTranslationImport(parseTranslationExchange(text, `french.${format === 'xliff12' ? 'xlf' : format}`).entries, 'french', analyze(blocks), blocks);
+    expect(plan.missingIds).toEqual([]);
+    expect(plan.sourceChanged).toEqual([{ id: 'start_9c0d0787', source: 'The wind blows.', message: 'Source is now "The wind howls."' }]);
+    expect(plan.edits).toEqual([]);
+  });
+
+  it('reports missing IDs and conflicting edits', () => {
+    const entries = [
+      { id: 'start_9', source: 'Gone.', target: 'Parti.' },
+      { id: 'strings:Stay', source: 'Stay', target: 'Demeurer', exportedTarget: 'Rester' },
+      { id: 'start_131f56d3', source: 'Say "hi".', target: 'Dis "bonjour".', exportedTarget: 'Dis "coucou".' },
+    ];
+    const { plan, french } = importEntries(entries);
+    expect(plan.missingIds).toEqual(['start_9']);
+    expect(plan.conflicts).toEqual([{ id: 'start_131f56d3', source: 'Say "hi".', message: 'Translated as "Dis "salut"." in game/tl/french/script.rpy:2' }]);
+    expect(french).toBe(FRENCH.replace('new "Rester"', 'new "Demeurer"'));
+    expect(importEntries(entries, true).french).toContain('e "Dis \\"bonjour\\"."');
+  });
+});
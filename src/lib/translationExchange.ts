@@ -0,0 +1,533 @@
+/**
+ * @file translationExchange.ts
+ * @description Translation round-trip through CAT tools: XLIFF 1.2/2.0, gettext PO and CSV (~530 lines).
+ * Export: every translatable string becomes one unit with a stable ID (the Ren'Py translation
+ * ID, or `strings:<text>` for string-table entries), its text with Ren'Py escapes resolved,
+ * the current translation when there is one, and label, speaker and file:line as context
+ * notes. The translation at export time travels along (an XLIFF note, a PO extracted comment,
+ * which CAT tools keep unlike `#|` fields, a CSV column) so an import can tell edits made in the
+ * `tl/` files since then.
+ * Import: parsed units are merged back into `tl/<lang>/*.rpy` with the workbench save
+ * planner; IDs that no longer exist, units whose source text changed since export (found by
+ * their label, speaker and file:line, as dialogue IDs hash the old text) and translations
+ * that were edited on both sides are reported instead of written.
+ * Integration: `TranslationExchangeModal` on the Translation Dashboard; App plans the import
+ * on the live editor contents and applies it like a quick fix.
+ */
+
+import type { TranslatableString, TranslationAnalysisResult } from '@/types';
+import { applyQuickFixEdits, type QuickFixTextEdit } from '@/lib/renpyQuickFixes';
+import { findTranslationEntry, planTranslationSave } from '@/lib/translationWorkbench';
+import { isTranslationStale } from '@/lib/renpyTranslationParser';
+
+export type TranslationExchangeFormat = 'xliff12' | 'xliff20' | 'po' | 'csv';
+
+export interface TranslationExchangeEntry {
+  id: string;
+  /** Source text with Ren'Py escapes resolved */
+  source: string;
+  /** Translation with Ren'Py escapes resolved; empty when untranslated */
+  target: string;
+  /** The translation when the file was exported, when the file carries it */
+  exportedTarget?: string;
+  context?: { label: string | null; speaker: string | null; filePath: string; line: number; type: TranslatableString['type'] };
+}
+
+export interface ParsedTranslationExchange {
+  format: TranslationExchangeFormat;
+  /** Target language named in the file (XLIFF and PO only) */
+  language: string | null;
+  entries: TranslationExchangeEntry[];
+}
+
+export interface TranslationImportIssue {
+  id: string;
+  source: string;
+  message: string;
+}
+
+export interface TranslationImportPlan {
+  edits: QuickFixTextEdit[];
+  /** Units whose translation is written */
+  updatedCount: number;
+  /** Those units with the Ren'Py text written, for the translation memory */
+  written: { source: TranslatableString; text: string }[];
+  /** Units already translated exactly like this, or left empty in the file */
+  unchangedCount: number;
+  /** Units translated differently in the `tl/` files since the export */
+  conflicts: TranslationImportIssue[];
+  /** IDs that no longer match a translatable string */
+  missingIds: string[];
+  /** Units whose source text changed since the export */
+  sourceChanged: TranslationImportIssue[];
+  /** Units the planner could not write, e.g. dialogue without a translate block */
+  failed: TranslationImportIssue[];
+}
+
+type TranslationData = Pick<TranslationAnalysisResult, 'translatableStrings' | 'stringTranslations' | 'translatedStrings'>;
+interface ExchangeBlock {
+  id: string;
+  content: string;
+  filePath?: string;
+}
+
+export const TRANSLATION_EXCHANGE_FILE_TYPES: Record<TranslationExchangeFormat, { label: string; extension: string; filter: { name: string; extensions: string[] }; mimeType: string }> = {
+  xliff12: { label: 'XLIFF 1.2', extension: 'xlf', filter: { name: 'XLIFF', extensions: ['xlf', 'xliff'] }, mimeType: 'application/xliff+xml' },
+  xliff20: { label: 'XLIFF 2.0', extension: 'xlf', filter: { name: 'XLIFF', extensions: ['xlf', 'xliff'] }, mimeType: 'application/xliff+xml' },
+  po: { label: 'gettext PO', extension: 'po', filter: { name: 'gettext PO', extensions: ['po', 'pot'] }, mimeType: 'text/x-gettext-translation' },
+  csv: { label: 'CSV', extension: 'csv', filter: { name: 'CSV', extensions: ['csv'] }, mimeType: 'text/csv' },
+};
+
+/** Resolves the escapes of a Ren'Py string literal (`\"`, `\\`, `\n`). */
+export function fromRenpyString(text: string): string {
+  return text.replace(/\\(.)/g, (_, char: string) => (char === 'n' ? '\n' : char));
+}
+
+/** Escapes plain text for a Ren'Py string literal; the inverse of `fromRenpyString`. */
+export function toRenpyString(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, '\\n');
+}
+
+/** The ID a string is exchanged under for `language`. */
+export function getExchangeId(source: TranslatableString, language: string, translationData: Pick<TranslationAnalysisResult, 'stringTranslations' | 'translatedStrings'>): string {
+  if (source.type === 'menu-choice') return `strings:${source.sourceText}`;
+  return source.translationId ?? findTranslationEntry(source, language, translationData)?.id ?? `${source.filePath}:${source.line}`;
+}
+
+/** One unit per translatable string (identical menu choices share one). */
+export function buildTranslationExchange(translationData: TranslationData, language: string): TranslationExchangeEntry[] {
+  const entries = new Map<string, TranslationExchangeEntry>();
+  for (const source of translationData.translatableStrings) {
+    const id = getExchangeId(source, language, translationData);
+    if (entries.has(id)) continue;
+    const translated = findTranslationEntry(source, language, translationData);
+    // Stale translations (untouched stubs, or written for an earlier source) are left for the translator
+    const target = translated && !isTranslationStale(source, translated) ? fromRenpyString(translated.translatedText) : '';
+    entries.set(id, {
+      id,
+      source: fromRenpyString(source.sourceText),
+      target,
+      ...(target ? { exportedTarget: target } : {}),
+      context: { label: source.labelScope, speaker: source.characterTag, filePath: source.filePath, line: source.line, type: source.type },
+    });
+  }
+  return [...entries.values()];
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+const xmlText = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+function contextNotes(entry: TranslationExchangeEntry): string[] {
+  const context = entry.context;
+  if (!context) return [];
+  return [
+    ...(context.label ? [`Label: ${context.label}`] : []),
+    ...(context.speaker ? [`Speaker: ${context.speaker}`] : []),
+    `Location: ${context.filePath}:${context.line}`,
+    `Type: ${context.type}`,
+  ];
+}
+
+/** Reads back the notes written by `contextNotes`; undefined without a location. */
+function parseContextNotes(notes: string[]): TranslationExchangeEntry['context'] {
+  const values = new Map<string, string>();
+  for (const note of notes) {
+    const match = /^(Label|Speaker|Location|Type):\s*(.*)$/.exec(note.trim());
+    if (match) values.set(match[1], match[2]);
+  }
+  const location = /^(.*):(\d+)$/.exec(values.get('Location') ?? '');
+  if (!location) return undefined;
+  const type = values.get('Type');
+  return {
+    label: values.get('Label') || null,
+    speaker: values.get('Speaker') || null,
+    filePath: location[1],
+    line: Number(location[2]),
+    type: type === 'narration' || type === 'menu-choice' ? type : 'dialogue',
+  };
+}
+
+function groupByFile(entries: TranslationExchangeEntry[]): Map<string, TranslationExchangeEntry[]> {
+  const groups = new Map<string, TranslationExchangeEntry[]>();
+  for (const entry of entries) {
+    const file = entry.context?.filePath ?? 'strings';
+    groups.set(file, [...(groups.get(file) ?? []), entry]);
+  }
+  return groups;
+}
+
+function toXliff12(entries: TranslationExchangeEntry[], sourceLanguage: string, language: string): string {
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>', '<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">'];
+  for (const [file, units] of groupByFile(entries)) {
+    lines.push(`  <file original="${xmlText(file)}" source-language="${xmlText(sourceLanguage)}" target-language="${xmlText(language)}" datatype="plaintext">`, '    <body>');
+    for (const entry of units) {
+      lines.push(`      <trans-unit id="${xmlText(entry.id)}" xml:space="preserve">`);
+      lines.push(`        <source>${xmlText(entry.source)}</source>`);
+      lines.push(`        <target state="${entry.target ? 'translated' : 'needs-translation'}">${xmlText(entry.target)}</target>`);
+      for (const note of contextNotes(entry)) lines.push(`        <note from="context">${xmlText(note)}</note>`);
+      if (entry.exportedTarget !== undefined) lines.push(`        <note from="exported-target">${xmlText(entry.exportedTarget)}</note>`);
+      lines.push('      </trans-unit>');
+    }
+    lines.push('    </body>', '  </file>');
+  }
+  lines.push('</xliff>');
+  return `${lines.join('\n')}\n`;
+}
+
+function toXliff20(entries: TranslationExchangeEntry[], sourceLanguage: string, language: string): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<xliff version="2.0" xmlns="urn:oasis:names:tc:xliff:document:2.0" srcLang="${xmlText(sourceLanguage)}" trgLang="${xmlText(language)}">`,
+  ];
+  [...groupByFile(entries)].forEach(([file, units], i) => {
+    lines.push(`  <file id="f${i + 1}" original="${xmlText(file)}">`);
+    for (const entry of units) {
+      lines.push(`    <unit id="${xmlText(entry.id)}">`);
+      const notes = contextNotes(entry).map(note => `<note category="context">${xmlText(note)}</note>`);
+      if (entry.exportedTarget !== undefined) notes.push(`<note category="exported-target">${xmlText(entry.exportedTarget)}</note>`);
+      if (notes.length > 0) lines.push('      <notes>', ...notes.map(note => `        ${note}`), '      </notes>');
+      lines.push(`      <segment state="${entry.target ? 'translated' : 'initial'}">`);
+      lines.push(`        <source xml:space="preserve">${xmlText(entry.source)}</source>`);
+      if (entry.target) lines.push(`        <target xml:space="preserve">${xmlText(entry.target)}</target>`);
+      lines.push('      </segment>', '    </unit>');
+    }
+    lines.push('  </file>');
+  });
+  lines.push('</xliff>');
+  return `${lines.join('\n')}\n`;
+}
+
+const poString = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\t/g, '\\t').replace(/\r?\n/g, '\\n')}"`;
+
+function toPo(entries: TranslationExchangeEntry[], sourceLanguage: string, language: string): string {
+  const lines = [
+    `# ${language} translation exported from ${sourceLanguage}`,
+    'msgid ""',
+    'msgstr ""',
+    '"Content-Type: text/plain; charset=UTF-8\\n"',
+    `"Language: ${language}\\n"`,
+  ];
+  for (const entry of entries) {
+    lines.push('');
+    for (const note of contextNotes(entry).filter(note => !note.startsWith('Location:'))) lines.push(`#. ${note}`);
+    if (entry.context) lines.push(`#: ${entry.context.filePath.replace(/\s/g, '_')}:${entry.context.line}`);
+    if (entry.exportedTarget !== undefined) lines.push(`#. Exported translation: ${poString(entry.exportedTarget)}`);
+    lines.push(`msgctxt ${poString(entry.id)}`, `msgid ${poString(entry.source)}`, `msgstr ${poString(entry.target)}`);
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+const csvField = (text: string) => (/[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text);
+const CSV_COLUMNS = ['id', 'source', 'target', 'exported_target', 'label', 'speaker', 'file', 'line', 'type'];
+
+function toCsv(entries: TranslationExchangeEntry[]): string {
+  const rows = [CSV_COLUMNS.join(',')];
+  for (const entry of entries) {
+    const context = entry.context;
+    rows.push([
+      entry.id, entry.source, entry.target, entry.exportedTarget ?? '',
+      context?.label ?? '', context?.speaker ?? '', context?.filePath ?? '', context ? String(context.line) : '', context?.type ?? '',
+    ].map(csvField).join(','));
+  }
+  return `${rows.join('\r\n')}\r\n`;
+}
+
+export function serializeTranslationExchange(
+  entries: TranslationExchangeEntry[],
+  format: TranslationExchangeFormat,
+  language: string,
+  sourceLanguage = 'en',
+): string {
+  switch (format) {
+    case 'xliff12': return toXliff12(entries, sourceLanguage, language);
+    case 'xliff20': return toXliff20(entries, sourceLanguage, language);
+    case 'po': return toPo(entries, sourceLanguage, language);
+    case 'csv': return toCsv(entries);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+function parseXliff(text: string): ParsedTranslationExchange {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  const root = doc.documentElement;
+  if (doc.getElementsByTagName('parsererror').length > 0 || root.localName !== 'xliff') {
+    throw new Error('Not a valid XLIFF file');
+  }
+  const children = (el: Element, name: string) => Array.from(el.children).filter(child => child.localName === name);
+  const notes = (el: Element, kind: string) => Array.from(el.getElementsByTagNameNS('*', 'note'))
+    .filter(note => note.getAttribute('from') === kind || note.getAttribute('category') === kind);
+  const context = (el: Element) => {
+    const parsed = parseContextNotes(notes(el, 'context').map(note => note.textContent ?? ''));
+    return parsed ? { context: parsed } : {};
+  };
+
+  if (root.getAttribute('version')?.startsWith('2')) {
+    const entries = Array.from(root.getElementsByTagNameNS('*', 'unit')).map(unit => {
+      const segments = children(unit, 'segment');
+      const exported = notes(unit, 'exported-target')[0];
+      return {
+        id: unit.getAttribute('id') ?? '',
+        source: segments.map(segment => children(segment, 'source')[0]?.textContent ?? '').join(''),
+        target: segments.map(segment => children(segment, 'target')[0]?.textContent ?? '').join(''),
+        ...(exported ? { exportedTarget: exported.textContent ?? '' } : {}),
+        ...context(unit),
+      };
+    });
+    return { format: 'xliff20', language: root.getAttribute('trgLang'), entries };
+  }
+
+  const file = root.getElementsByTagNameNS('*', 'file')[0];
+  const entries = Array.from(root.getElementsByTagNameNS('*', 'trans-unit')).map(unit => {
+    const exported = notes(unit, 'exported-target')[0];
+    return {
+      id: unit.getAttribute('id') ?? '',
+      source: children(unit, 'source')[0]?.textContent ?? '',
+      target: children(unit, 'target')[0]?.textContent ?? '',
+      ...(exported ? { exportedTarget: exported.textContent ?? '' } : {}),
+      ...context(unit),
+    };
+  });
+  return { format: 'xliff12', language: file?.getAttribute('target-language') ?? null, entries };
+}
+
+const PO_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r' };
+const unquotePo = (text: string) => text.trim().replace(/^"|"$/g, '').replace(/\\(.)/g, (_, char: string) => PO_ESCAPES[char] ?? char);
+
+function parsePo(text: string): ParsedTranslationExchange {
+  const entries: TranslationExchangeEntry[] = [];
+  let language: string | null = null;
+  let fields: Record<string, string> = {};
+  let notes: string[] = [];
+  let current: string | null = null;
+
+  const flush = () => {
+    if (fields.msgid === '' && fields.msgctxt === undefined) {
+      language = /(?:^|\n)Language:\s*([^\n]+)/.exec(fields.msgstr ?? '')?.[1].trim() || language;
+    } else if (fields.msgid !== undefined) {
+      const context = parseContextNotes(notes);
+      entries.push({
+        id: fields.msgctxt ?? '',
+        source: fields.msgid,
+        target: fields.msgstr ?? '',
+        ...(fields.previous !== undefined ? { exportedTarget: fields.previous } : {}),
+        ...(context ? { context } : {}),
+      });
+    }
+    fields = {};
+    notes = [];
+    current = null;
+  };
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (line === '') { flush(); continue; }
+    // Files exported before the extracted comment carry the translation as a `#|` field
+    const previous = /^#(?:\.\s*Exported translation:|\|\s*msgstr)\s+(".*")$/.exec(line);
+    if (previous) {
+      if (fields.msgid !== undefined) flush();
+      fields.previous = unquotePo(previous[1]);
+      current = 'previous';
+      continue;
+    }
+    const previousContinued = /^#\|\s*(".*")$/.exec(line);
+    if (previousContinued && current === 'previous') { fields.previous += unquotePo(previousContinued[1]); continue; }
+    const comment = /^#([.:])\s*(.*)$/.exec(line);
+    if (comment) {
+      if (fields.msgid !== undefined) flush();
+      notes.push(comment[1] === ':' ? `Location: ${comment[2]}` : comment[2]);
+      continue;
+    }
+    if (line.startsWith('#')) continue;
+    const keyword = /^(msgctxt|msgid|msgstr(?:\[0\])?|msgid_plural|msgstr\[\d+\])\s+(".*")$/.exec(line);
+    if (keyword) {
+      const key = keyword[1].replace('[0]', '');
+      // A new msgctxt or msgid without a blank line in between starts the next entry
+      if ((key === 'msgctxt' && fields.msgid !== undefined) || (key === 'msgid' && fields.msgid !== undefined)) flush();
+      current = key;
+      fields[key] = unquotePo(keyword[2]);
+    } else if (line.startsWith('"') && current) {
+      fields[current] += unquotePo(line);
+    } else {
+      throw new Error(`Unexpected line in PO file: ${line}`);
+    }
+  }
+  flush();
+  return { format: 'po', language, entries };
+}
+
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) rows.push([...row, field]);
+  return rows.filter(cells => cells.some(cell => cell !== ''));
+}
+
+function parseCsv(text: string): ParsedTranslationExchange {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  const column = (name: string) => header?.findIndex(cell => cell.trim().toLowerCase() === name) ?? -1;
+  const [id, source, target, exported, label, speaker, file, line, type] = CSV_COLUMNS.map(column);
+  if (target === -1 || (id === -1 && source === -1)) {
+    throw new Error('The CSV needs a header row with a "target" column and an "id" or "source" column');
+  }
+  const entries = rows.map(cells => ({
+    id: id === -1 ? '' : cells[id] ?? '',
+    source: source === -1 ? '' : cells[source] ?? '',
+    target: cells[target] ?? '',
+    ...(exported !== -1 && cells[exported] ? { exportedTarget: cells[exported] } : {}),
+    ...(file !== -1 && line !== -1 && cells[file] && cells[line] ? {
+      context: parseContextNotes([
+        `Label: ${cells[label] ?? ''}`, `Speaker: ${cells[speaker] ?? ''}`, `Location: ${cells[file]}:${cells[line]}`, `Type: ${cells[type] ?? ''}`,
+      ]),
+    } : {}),
+  }));
+  return { format: 'csv', language: null, entries };
+}
+
+/**
+ * Parses an exported file, picking the format from the file name and contents.
+ *
+ * @throws When the file is not valid XLIFF, PO or CSV
+ */
+export function parseTranslationExchange(text: string, fileName = ''): ParsedTranslationExchange {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'xlf' || extension === 'xliff' || text.trimStart().startsWith('<')) return parseXliff(text);
+  if (extension === 'po' || extension === 'pot' || /^\s*msgid\s+"/m.test(text)) return parsePo(text);
+  return parseCsv(text);
+}
+
+/**
+ * Plans merging imported units into the `language` translation files. In-place rewrites are
+ * planned first so line numbers hold; new string-table entries are then added one by one on
+ * the updated contents, and each changed file is replaced as a whole.
+ */
+export function planTranslationImport(
+  entries: TranslationExchangeEntry[],
+  language: string,
+  translationData: TranslationData,
+  blocks: ExchangeBlock[],
+  options: { overwrite?: boolean } = {},
+): TranslationImportPlan {
+  const plan: TranslationImportPlan = { edits: [], updatedCount: 0, written: [], unchangedCount: 0, conflicts: [], missingIds: [], sourceChanged: [], failed: [] };
+  const byId = new Map<string, TranslatableString>();
+  const bySource = new Map<string, TranslatableString | null>();
+  for (const source of translationData.translatableStrings) {
+    const id = getExchangeId(source, language, translationData);
+    if (!byId.has(id)) byId.set(id, source);
+    const text = fromRenpyString(source.sourceText);
+    bySource.set(text, bySource.has(text) ? null : source);
+  }
+
+  // IDs hash the source text, so a unit whose source changed since the export is found by its context
+  const importedIds = new Set(entries.map(entry => entry.id));
+  const findByContext = (context: TranslationExchangeEntry['context']) => {
+    if (!context) return undefined;
+    const candidates = translationData.translatableStrings.filter(source => (
+      source.filePath.replace(/\s/g, '_') === context.filePath.replace(/\s/g, '_') &&
+      source.labelScope === context.label &&
+      source.characterTag === context.speaker &&
+      (source.type === 'menu-choice') === (context.type === 'menu-choice') &&
+      !importedIds.has(getExchangeId(source, language, translationData))
+    ));
+    return candidates.sort((a, b) => Math.abs(a.line - context.line) - Math.abs(b.line - context.line))[0];
+  };
+
+  const rewrites: QuickFixTextEdit[] = [];
+  const additions: { source: TranslatableString; entry: TranslationExchangeEntry }[] = [];
+  for (const entry of entries) {
+    const issue = (message: string) => ({ id: entry.id, source: entry.source, message });
+    // Units without an ID (CSV files with only a source column) match by unique source text
+    const source = entry.id ? byId.get(entry.id) : bySource.get(entry.source);
+    if (!source) {
+      const moved = entry.id ? findByContext(entry.context) : undefined;
+      if (moved) plan.sourceChanged.push(issue(`Source is now "${fromRenpyString(moved.sourceText)}"`));
+      else plan.missingIds.push(entry.id || entry.source);
+      continue;
+    }
+    const currentSource = fromRenpyString(source.sourceText);
+    if (entry.source && entry.source !== currentSource) {
+      plan.sourceChanged.push(issue(`Source is now "${currentSource}"`));
+      continue;
+    }
+    const current = findTranslationEntry(source, language, translationData);
+    const text = toRenpyString(entry.target);
+    if (!entry.target || current?.translatedText === text) {
+      plan.unchangedCount++;
+      continue;
+    }
+    const isTranslated = !!current && !isTranslationStale(source, current);
+    const changedSinceExport = entry.exportedTarget === undefined || current?.translatedText !== toRenpyString(entry.exportedTarget);
+    if (isTranslated && changedSinceExport) {
+      plan.conflicts.push(issue(`Translated as "${fromRenpyString(current!.translatedText)}" in ${current!.filePath}:${current!.line}`));
+      if (!options.overwrite) continue;
+    }
+    if (!current) {
+      additions.push({ source, entry });
+      continue;
+    }
+    const saved = planTranslationSave(source, language, entry.target, translationData, blocks);
+    if ('error' in saved) plan.failed.push(issue(saved.error));
+    else {
+      rewrites.push(...saved.edits);
+      plan.updatedCount++;
+      plan.written.push({ source, text });
+    }
+  }
+
+  const contents = new Map(blocks.map(block => [block.id, block.content]));
+  const rewritesByBlock = new Map<string, QuickFixTextEdit[]>();
+  for (const edit of rewrites) rewritesByBlock.set(edit.blockId, [...(rewritesByBlock.get(edit.blockId) ?? []), edit]);
+  rewritesByBlock.forEach((edits, blockId) => contents.set(blockId, applyQuickFixEdits(contents.get(blockId)!, edits)));
+
+  for (const { source, entry } of additions) {
+    const current = blocks.map(block => ({ ...block, content: contents.get(block.id)! }));
+    const saved = planTranslationSave(source, language, entry.target, translationData, current);
+    if ('error' in saved) {
+      plan.failed.push({ id: entry.id, source: entry.source, message: saved.error });
+      continue;
+    }
+    for (const edit of saved.edits) contents.set(edit.blockId, applyQuickFixEdits(contents.get(edit.blockId)!, [edit]));
+    plan.updatedCount++;
+    plan.written.push({ source, text: toRenpyString(entry.target) });
+  }
+
+  for (const block of blocks) {
+    const content = contents.get(block.id)!;
+    if (content === block.content) continue;
+    const lines = block.content.split('\n');
+    plan.edits.push({ blockId: block.id, startLine: 1, startColumn: 1, endLine: lines.length, endColumn: lines[lines.length - 1].length + 1, text: content });
+  }
+  return plan;
+}
@@ -0,0 +1,81 @@
+import {
+  addTranslationMemoryEntry,
+  collectProjectTranslations,
+  findGlossaryTerms,
+  findMissingGlossaryTerms,
+  findTranslationSuggestions,
+  getCurrentTranslation,
+  normalizeTranslationResources,
+  saveTranslationResources,
+} from './translationMemory';
+import { performTranslationAnalysis } from './renpyTranslationParser';
+
+describe('translation memory', () => {
+  it('keeps one entry per source, the latest translation winning', () => {
+    const entries = addTranslationMemoryEntry([{ source: 'Hello', target: 'Salut' }, { source: 'Bye', target: 'Ciao' }], 'Hello', 'Bonjour');
+    expect(entries).toEqual([{ source: 'Bye', target: 'Ciao' }, { source: 'Hello', target: 'Bonjour' }]);
+  });
+
+  it('suggests exact matches first, then fuzzy ones above the threshold', () => {
+    const suggestions = findTranslationSuggestions('Where is the castle?', [
+      { source: 'Where is the cattle?', target: 'Où est le bétail ?' },
+      { source: 'where is the  castle?', target: 'Où est le château ?' },
+      { source: 'Where is the castle', target: 'Où est le château ?' },
+      { source: 'Good morning', target: 'Bonjour' },
+    ]);
+    expect(suggestions.map(s => [s.target, Math.round(s.score * 100)])).toEqual([
+      ['Où est le château ?', 100],
+      ['Où est le bétail ?', 95],
+    ]);
+  });
+
+  it('collects current translations that are not stale, except the string being edited', () => {
+    const blocks = [
+      { id: 'src', content: 'label start:\n    e "Hello."\n    e "Bye."\n    e "Later."\n', filePath: 'game/script.rpy' },
+      { id: 'fr', content: 'translate french start_4e73b00f:\n    e "Salut."\n\ntranslate french start_0:\n    e "Bye."\n', filePath: 'game/tl/french/script.rpy' },
+    ];
+    const data = performTranslationAnalysis(blocks, new Map(), { start: { blockId: 'src' } });
+    expect(collectProjectTranslations(data, 'french')).toEqual([{ source: 'Hello.', target: 'Salut.' }]);
+    expect(collectProjectTranslations(data, 'french', data.translatableStrings[0].id)).toEqual([]);
+  });
+
+  it('gives the current translation of a string, for confirming it when its review flag is cleared', () => {
+    const blocks = [
+      { id: 'src', content: 'label start:\n    e "Hello."\n    e "Bye."\n    e "Later."\n', filePath: 'game/script.rpy' },
+      { id: 'fr', content: 'translate french start_4e73b00f:\n    e "Salut."\n\ntranslate french start_0:\n    e "Bye."\n', filePath: 'game/tl/french/script.rpy' },
+    ];
+    const data = performTranslationAnalysis(blocks, new Map(), { start: { blockId: 'src' } });
+    const [hello, bye, later] = data.translatableStrings;
+    expect(getCurrentTranslation(hello, 'french', data)).toEqual({ source: 'Hello.', target: 'Salut.' });
+    expect(getCurrentTranslation(bye, 'french', data)).toBeNull();
+    expect(getCurrentTranslation(later, 'french', data)).toBeNull();
+  });
+
+  it('matches glossary terms as whole words and checks their agreed translation', () => {
+    const glossary = [{ term: 'Eileen', translation: 'Eileen' }, { term: 'castle', translation: 'château' }, { term: 'cast', translation: 'distribution' }];
+    expect(findGlossaryTerms('Eileen walks to the Castle.', glossary).map(e => e.term)).toEqual(['Eileen', 'castle']);
+    expect(findMissingGlossaryTerms('Eileen walks to the Castle.', 'Eileen marche vers le fort.', glossary).map(e => e.term)).toEqual(['castle']);
+    expect(findMissingGlossaryTerms('Eileen walks to the Castle.', 'Eileen marche vers le Château.', glossary)).toEqual([]);
+  });
+
+  it('rewrites the translations file when the glossary is cleared, and creates none for an unused one', async () => {
+    const writeFile = vi.fn(async () => {});
+    const resources = { memory: {}, glossary: { french: [{ term: 'castle', translation: 'château' }] } };
+    expect(await saveTranslationResources(resources, false, writeFile)).toBe(true);
+
+    expect(await saveTranslationResources({ memory: {}, glossary: {} }, true, writeFile)).toBe(true);
+    expect(writeFile).toHaveBeenLastCalledWith('game/project.translations.json', JSON.stringify({ memory: {}, glossary: {} }, null, 2));
+
+    writeFile.mockClear();
+    expect(await saveTranslationResources({ memory: {}, glossary: {} }, false, writeFile)).toBe(false);
+    expect(writeFile).not.toHaveBeenCalled();
+  });
+
+  it('drops malformed entries when loading', () => {
+    expect(normalizeTranslationResources({
+      memory: { french: [{ source: 'Hi', target: 'Salut' }, { source: 'Hi' }] } as never,
+      glossary: { french: 'oops' } as never,
+    })).toEqual({ memory: { french: [{ source: 'Hi', target: 'Salut' }] }, glossary: { french: [] } });
+    expect(normalizeTranslationResources(null)).toEqual({ memory: {}, glossary: {} });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * @file translationMemory.ts
+ * @description Per-project translation memory and glossary (~150 lines).
+ * Every translation saved from the workbench, confirmed by clearing its "Needs review" flag or
+ * written by an import becomes a memory entry for its language; the
+ * workbench suggests exact and fuzzy matches for the string being translated from those
+ * entries and the project's current translations. The glossary holds the agreed translation
+ * of character names and key terms per language, shown next to the source and enforced by
+ * the `translation-glossary` QA check.
+ * Integration: App loads and saves both in `game/project.translations.json`, next to
+ * `project.ide.json`, so they can be committed with the game.
+ */
+
+import type {
+  GlossaryEntry,
+  ProjectTranslationResources,
+  TranslatableString,
+  TranslationAnalysisResult,
+  TranslationMemoryEntry,
+} from '@/types';
+import { isTranslationStale } from '@/lib/renpyTranslationParser';
+
+export const PROJECT_TRANSLATIONS_FILE = 'game/project.translations.json';
+
+/** Matches below this similarity (0–1) are not suggested */
+export const FUZZY_MATCH_THRESHOLD = 0.7;
+
+export interface TranslationSuggestion extends TranslationMemoryEntry {
+  /** Similarity of the sources, 1 for an exact match */
+  score: number;
+}
+
+export function createEmptyTranslationResources(): ProjectTranslationResources {
+  return { memory: {}, glossary: {} };
+}
+
+const hasStringFields = (value: unknown, ...keys: string[]) => (
+  !!value && typeof value === 'object' && keys.every(key => typeof (value as Record<string, unknown>)[key] === 'string')
+);
+
+/**
+ * Writes `project.translations.json` unless the project never had one and has nothing to store,
+ * so emptying the memory or glossary overwrites the file instead of leaving old entries on disk.
+ * Returns whether the file exists afterwards.
+ */
+export async function saveTranslationResources(
+  resources: ProjectTranslationResources,
+  fileExists: boolean,
+  writeFile: (relativePath: string, content: string) => Promise<unknown>,
+): Promise<boolean> {
+  const isEmpty = Object.keys(resources.memory).length === 0 && Object.keys(resources.glossary).length === 0;
+  if (!fileExists && isEmpty) return false;
+  await writeFile(PROJECT_TRANSLATIONS_FILE, JSON.stringify(resources, null, 2));
+  return true;
+}
+
+/** Reads `project.translations.json` contents, dropping malformed entries. */
+export function normalizeTranslationResources(raw: Partial<ProjectTranslationResources> | null | undefined): ProjectTranslationResources {
+  const perLanguage = <T>(value: unknown, isEntry: (entry: unknown) => entry is T): Record<string, T[]> => (
+    value && typeof value === 'object'
+      ? Object.fromEntries(Object.entries(value).map(([language, entries]) => [language, Array.isArray(entries) ? entries.filter(isEntry) : []]))
+      : {}
+  );
+  return {
+    memory: perLanguage(raw?.memory, (e): e is TranslationMemoryEntry => hasStringFields(e, 'source', 'target')),
+    glossary: perLanguage(raw?.glossary, (e): e is GlossaryEntry => hasStringFields(e, 'term', 'translation')),
+  };
+}
+
+/** Adds a confirmed translation, replacing the earlier one of the same source. */
+export function addTranslationMemoryEntry(entries: TranslationMemoryEntry[] | undefined, source: string, target: string): TranslationMemoryEntry[] {
+  return [...(entries ?? []).filter(entry => entry.source !== source), { source, target }];
+}
+
+/** The current translation of `source` in `language`, or null when it has none or a stale one. */
+export function getCurrentTranslation(
+  source: TranslatableString,
+  language: string,
+  translationData: Pick<TranslationAnalysisResult, 'stringTranslations'>,
+): TranslationMemoryEntry | null {
+  const translation = translationData.stringTranslations.get(source.id)?.get(language);
+  if (!translation || isTranslationStale(source, translation)) return null;
+  return { source: source.sourceText, target: translation.translatedText };
+}
+
+/** The project's current translations in `language`, except those of the string `excludeId`. */
+export function collectProjectTranslations(
+  translationData: Pick<TranslationAnalysisResult, 'translatableStrings' | 'stringTranslations'>,
+  language: string,
+  excludeId?: string,
+): TranslationMemoryEntry[] {
+  const entries: TranslationMemoryEntry[] = [];
+  for (const source of translationData.translatableStrings) {
+    const entry = source.id === excludeId ? null : getCurrentTranslation(source, language, translationData);
+    if (entry) entries.push(entry);
+  }
+  return entries;
+}
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** Similarity of two sources from 0 to 1, ignoring case and runs of whitespace. */
+export function getSourceSimilarity(a: string, b: string): number {
+  const left = normalize(a);
+  const right = normalize(b);
+  if (left === right) return 1;
+  const longest = Math.max(left.length, right.length);
+  // The edit distance is at least the length difference, so skip pairs that cannot match
+  if (Math.min(left.length, right.length) / longest < FUZZY_MATCH_THRESHOLD) return 0;
+  return 1 - levenshtein(left, right) / longest;
+}
+
+/** The best distinct translations of sources similar to `sourceText`, exact matches first. */
+export function findTranslationSuggestions(sourceText: string, candidates: TranslationMemoryEntry[], limit = 3): TranslationSuggestion[] {
+  const best = new Map<string, TranslationSuggestion>();
+  for (const candidate of candidates) {
+    const score = getSourceSimilarity(sourceText, candidate.source);
+    if (score < FUZZY_MATCH_THRESHOLD) continue;
+    const existing = best.get(candidate.target);
+    if (!existing || existing.score < score) best.set(candidate.target, { ...candidate, score });
+  }
+  return [...best.values()].sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Glossary terms that appear in `sourceText` as whole words, ignoring case. */
+export function findGlossaryTerms(sourceText: string, glossary: GlossaryEntry[] | undefined): GlossaryEntry[] {
+  return (glossary ?? []).filter(entry => (
+    entry.term.trim() !== '' &&
+    new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegExp(entry.term.trim())}(?![\\p{L}\\p{N}_])`, 'iu').test(sourceText)
+  ));
+}
+
+/** Glossary terms of the source whose agreed translation is not in `translatedText`. */
+export function findMissingGlossaryTerms(sourceText: string, translatedText: string, glossary: GlossaryEntry[] | undefined): GlossaryEntry[] {
+  const translated = translatedText.toLowerCase();
+  return findGlossaryTerms(sourceText, glossary).filter(entry => !translated.includes(entry.translation.trim().toLowerCase()));
+}
@@ -0,0 +1,58 @@
+import { checkTranslationText, findTranslationQaIssues } from './translationQa';
+import { performTranslationAnalysis } from './renpyTranslationParser';
+
+const messages = (source: string, translation: string, maxLengthPercent?: number) =>
+  checkTranslationText(source, translation, maxLengthPercent).map(issue => [issue.kind, issue.severity, issue.message]);
+
+describe('translation QA', () => {
+  it('accepts translations that keep the markup of the source', () => {
+    expect(messages('{b}Hi{/b} [player], {{wait}{w=0.5} for {color=#f00}me{/color}.', '{b}Salut{/b} [player], {{attends}{w=0.5} {color=#0f0}moi{/color}.')).toEqual([]);
+  });
+
+  it('flags unbalanced and mismatched text tags', () => {
+    expect(messages('{b}Hi{/b} {i}there{/i}', '{b}Salut {i}toi{/b}')).toEqual([
+      ['tags', 'error', 'Text tags differ from the source: {/b} closes {i}, {i} is never closed'],
+    ]);
+    expect(messages('{b}Hello there{/b}', 'Salut {u}toi{/u}')).toEqual([
+      ['tags', 'warning', 'Text tags differ from the source: missing {b}, extra {u}'],
+    ]);
+  });
+
+  it('flags interpolations, pauses and whitespace that differ', () => {
+    expect(messages(' Hi [player]{w} [[not a var].', 'Salut [name]{p}{p} [[pas].  ')).toEqual([
+      ['interpolation', 'warning', 'Interpolations differ from the source: missing [player], extra [name]'],
+      ['pause', 'warning', 'Pauses differ from the source: missing {w}, extra {p} ×2'],
+      ['whitespace', 'info', 'Leading and trailing whitespace differs from the source'],
+    ]);
+  });
+
+  it('flags translations longer than the limit, ignoring tags', () => {
+    expect(messages('{b}Yes{/b}', '{b}Oui{/b}')).toEqual([]);
+    expect(messages('Yes', 'Oui, oui', 200)).toEqual([['length', 'info', 'Translation is 267% of the source length (limit 200%)']]);
+    expect(messages('Yes', 'Oui, oui', 300)).toEqual([]);
+  });
+
+  it('flags glossary terms not rendered with their agreed translation', () => {
+    const blocks = [
+      { id: 'src', content: 'label start:\n    e "The castle is cold."\n', filePath: 'game/script.rpy' },
+      { id: 'fr', content: 'translate french start_0:\n    e "Le fort est froid."\n', filePath: 'game/tl/french/script.rpy' },
+    ];
+    const data = performTranslationAnalysis(blocks, new Map(), { start: { blockId: 'src' } });
+    const glossary = { french: [{ term: 'castle', translation: 'château' }], german: [{ term: 'cold', translation: 'kalt' }] };
+    expect(findTranslationQaIssues(data, undefined, glossary)).toEqual([
+      { kind: 'glossary', severity: 'warning', blockId: 'fr', line: 2, message: 'Glossary terms not translated as agreed: "castle" → "château"' },
+    ]);
+  });
+
+  it('checks each translated line once, at the translation', () => {
+    const blocks = [
+      { id: 'src', content: 'label start:\n    e "Hi [player]."\n    menu:\n        "Go":\n            pass\n    menu:\n        "Go":\n            pass\n', filePath: 'game/script.rpy' },
+      { id: 'fr', content: 'translate french start_3bb6eae5:\n    e "Salut."\n\ntranslate french strings:\n    old "Go"\n    new "Allons-y, vite !"\n', filePath: 'game/tl/french/script.rpy' },
+    ];
+    const data = performTranslationAnalysis(blocks, new Map(), { start: { blockId: 'src' } });
+    expect(findTranslationQaIssues(data).map(issue => [issue.kind, issue.blockId, issue.line])).toEqual([
+      ['interpolation', 'fr', 2],
+      ['length', 'fr', 6],
+    ]);
+  });
+});
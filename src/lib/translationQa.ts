@@ -0,0 +1,179 @@
+/**
+ * @file translationQa.ts
+ * @description QA checks comparing each translation with its source line (~180 lines).
+ * Flags text tags that are unbalanced or differ from the source, missing or extra `[var]`
+ * interpolations, a different number of `{w}`/`{p}` pauses, leading/trailing whitespace that
+ * was not carried over, translations longer than a configurable share of the source, and
+ * glossary terms of the source not rendered with their agreed translation.
+ * Integration: `useDiagnostics` reports the results under `translation-<kind>` categories at
+ * the translated line, so they can be ignored like any other diagnostic.
+ */
+
+import type { DiagnosticSeverity, GlossaryEntry, TranslationAnalysisResult } from '@/types';
+import { findMissingGlossaryTerms } from '@/lib/translationMemory';
+
+export type TranslationQaKind = 'tags' | 'interpolation' | 'pause' | 'whitespace' | 'length' | 'glossary';
+
+export interface TranslationQaIssue {
+  kind: TranslationQaKind;
+  severity: DiagnosticSeverity;
+  /** The translation's block and line */
+  blockId: string;
+  line: number;
+  message: string;
+}
+
+/** Translations longer than this percentage of the source length are flagged by default */
+export const DEFAULT_TRANSLATION_MAX_LENGTH_PERCENT = 150;
+
+// Tags that stand alone instead of wrapping text
+const SELF_CLOSING_TAGS = new Set(['w', 'p', 'nw', 'fast', 'done', 'clear', 'image', 'space', 'vspace']);
+const PAUSE_TAGS = new Set(['w', 'p']);
+// `{{` and `[[` are escapes; a tag is `{name}`, `{name=value}` or `{/name}`
+const MARKUP_REGEX = /\{\{|\[\[|\{(\/?)([^}=\s]*)[^}]*\}|\[([^\]]*)\]/g;
+
+interface Markup {
+  tags: { name: string; closing: boolean }[];
+  interpolations: string[];
+  /** The text as displayed, without tags */
+  visibleLength: number;
+}
+
+function scanMarkup(text: string): Markup {
+  const markup: Markup = { tags: [], interpolations: [], visibleLength: 0 };
+  let visible = text.length;
+  for (const match of text.matchAll(MARKUP_REGEX)) {
+    if (match[0] === '{{' || match[0] === '[[') {
+      visible--;
+    } else if (match[0].startsWith('{')) {
+      visible -= match[0].length;
+      if (!match[2].startsWith('#')) markup.tags.push({ name: match[2], closing: match[1] === '/' });
+    } else {
+      markup.interpolations.push(match[3]);
+    }
+  }
+  markup.visibleLength = visible;
+  return markup;
+}
+
+const countBy = (items: string[]) => {
+  const counts = new Map<string, number>();
+  for (const item of items) counts.set(item, (counts.get(item) ?? 0) + 1);
+  return counts;
+};
+
+/** `missing {b}` / `extra {u}` for each item whose count differs from the source. */
+function describeCountDifferences(source: string[], translation: string[], format: (item: string) => string): string[] {
+  const sourceCounts = countBy(source);
+  const translationCounts = countBy(translation);
+  const differences: string[] = [];
+  for (const item of new Set([...source, ...translation])) {
+    const missing = (sourceCounts.get(item) ?? 0) - (translationCounts.get(item) ?? 0);
+    if (missing > 0) differences.push(`missing ${format(item)}${missing > 1 ? ` ×${missing}` : ''}`);
+    else if (missing < 0) differences.push(`extra ${format(item)}${missing < -1 ? ` ×${-missing}` : ''}`);
+  }
+  return differences;
+}
+
+/** Open tags closed out of order, stray closing tags and tags never closed. */
+function findUnbalancedTags(tags: Markup['tags']): string[] {
+  const problems: string[] = [];
+  const open: string[] = [];
+  for (const tag of tags) {
+    if (SELF_CLOSING_TAGS.has(tag.name)) continue;
+    if (!tag.closing) {
+      open.push(tag.name);
+    } else if (open[open.length - 1] === tag.name) {
+      open.pop();
+    } else {
+      problems.push(open.length > 0 ? `{/${tag.name}} closes {${open[open.length - 1]}}` : `{/${tag.name}} has no opening tag`);
+      const index = open.lastIndexOf(tag.name);
+      if (index !== -1) open.splice(index, 1);
+    }
+  }
+  for (const name of open) problems.push(`{${name}} is never closed`);
+  return problems;
+}
+
+const leadingWhitespace = (text: string) => /^\s*/.exec(text)![0];
+const trailingWhitespace = (text: string) => /\s*$/.exec(text)![0];
+
+/** Checks one translation against its source text. */
+export function checkTranslationText(
+  sourceText: string,
+  translatedText: string,
+  maxLengthPercent = DEFAULT_TRANSLATION_MAX_LENGTH_PERCENT,
+): Omit<TranslationQaIssue, 'blockId' | 'line'>[] {
+  const issues: Omit<TranslationQaIssue, 'blockId' | 'line'>[] = [];
+  const source = scanMarkup(sourceText);
+  const translation = scanMarkup(translatedText);
+
+  const pairedTagNames = (markup: Markup) => markup.tags.filter(t => !t.closing && !SELF_CLOSING_TAGS.has(t.name)).map(t => t.name);
+  const unbalanced = findUnbalancedTags(translation.tags);
+  const tagDifferences = describeCountDifferences(pairedTagNames(source), pairedTagNames(translation), name => `{${name}}`);
+  if (unbalanced.length > 0 || tagDifferences.length > 0) {
+    issues.push({
+      kind: 'tags',
+      severity: unbalanced.length > 0 ? 'error' : 'warning',
+      message: `Text tags differ from the source: ${[...unbalanced, ...tagDifferences].join(', ')}`,
+    });
+  }
+
+  const interpolationDifferences = describeCountDifferences(source.interpolations, translation.interpolations, name => `[${name}]`);
+  if (interpolationDifferences.length > 0) {
+    issues.push({ kind: 'interpolation', severity: 'warning', message: `Interpolations differ from the source: ${interpolationDifferences.join(', ')}` });
+  }
+
+  const pauses = (markup: Markup) => markup.tags.filter(t => PAUSE_TAGS.has(t.name)).map(t => t.name);
+  const pauseDifferences = describeCountDifferences(pauses(source), pauses(translation), name => `{${name}}`);
+  if (pauseDifferences.length > 0) {
+    issues.push({ kind: 'pause', severity: 'warning', message: `Pauses differ from the source: ${pauseDifferences.join(', ')}` });
+  }
+
+  const leading = leadingWhitespace(sourceText) !== leadingWhitespace(translatedText);
+  const trailing = trailingWhitespace(sourceText) !== trailingWhitespace(translatedText);
+  if (leading || trailing) {
+    const where = leading && trailing ? 'Leading and trailing' : leading ? 'Leading' : 'Trailing';
+    issues.push({ kind: 'whitespace', severity: 'info', message: `${where} whitespace differs from the source` });
+  }
+
+  if (source.visibleLength > 0) {
+    const percent = Math.round((translation.visibleLength / source.visibleLength) * 100);
+    if (percent > maxLengthPercent) {
+      issues.push({ kind: 'length', severity: 'info', message: `Translation is ${percent}% of the source length (limit ${maxLengthPercent}%)` });
+    }
+  }
+  return issues;
+}
+
+/** Runs the QA checks over every translated string, once per translated line. */
+export function findTranslationQaIssues(
+  translationData: Pick<TranslationAnalysisResult, 'translatableStrings' | 'stringTranslations'>,
+  maxLengthPercent = DEFAULT_TRANSLATION_MAX_LENGTH_PERCENT,
+  glossary: Record<string, GlossaryEntry[]> = {},
+): TranslationQaIssue[] {
+  const issues: TranslationQaIssue[] = [];
+  const checked = new Set<string>();
+  for (const source of translationData.translatableStrings) {
+    for (const translation of translationData.stringTranslations.get(source.id)?.values() ?? []) {
+      const key = `${translation.blockId}:${translation.line}`;
+      // String-table entries are shared by every choice with the same text
+      if (checked.has(key) || translation.translatedText === source.sourceText) continue;
+      checked.add(key);
+      for (const issue of checkTranslationText(source.sourceText, translation.translatedText, maxLengthPercent)) {
+        issues.push({ ...issue, blockId: translation.blockId, line: translation.line });
+      }
+      const missingTerms = findMissingGlossaryTerms(source.sourceText, translation.translatedText, glossary[translation.language]);
+      if (missingTerms.length > 0) {
+        issues.push({
+          kind: 'glossary',
+          severity: 'warning',
+          blockId: translation.blockId,
+          line: translation.line,
+          message: `Glossary terms not translated as agreed: ${missingTerms.map(entry => `"${entry.term}" → "${entry.translation}"`).join(', ')}`,
+        });
+      }
+    }
+  }
+  return issues;
+}
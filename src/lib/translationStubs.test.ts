@@ -0,0 +1,93 @@
+import { getTranslationFilePath, planMissingTranslationStubs } from './translationStubs';
+import { applyQuickFixEdits } from './renpyQuickFixes';
+import { performTranslationAnalysis } from './renpyTranslationParser';
+
+const SOURCE = [
+  'label start:',
+  '    e "Hello"',
+  '    "The wind blows."',
+  '    menu:',
+  '        "Stay":',
+  '            pass',
+  '        "Leave":',
+  '            return',
+].join('\n');
+
+const plan = (blocks: { id: string; content: string; filePath: string }[]) => {
+  const data = performTranslationAnalysis(blocks, new Map(), { start: { blockId: 'src' } });
+  return planMissingTranslationStubs('french', data, blocks);
+};
+
+describe('translation stubs', () => {
+  it('maps source files into the tl folder', () => {
+    expect(getTranslationFilePath('game/chapters/one.rpy', 'french')).toBe('game/tl/french/chapters/one.rpy');
+    expect(getTranslationFilePath('script.rpy', 'french')).toBe('tl/french/script.rpy');
+  });
+
+  it('adds stubs and string-table entries to an existing translation file', () => {
+    const french = 'translate french start_8d695913:\n    e "Bonjour"\n\ntranslate french strings:\n\n    old "Stay"\n    new "Rester"\n';
+    const blocks = [
+      { id: 'src', content: SOURCE, filePath: 'game/script.rpy' },
+      { id: 'fr', content: french, filePath: 'game/tl/french/script.rpy' },
+    ];
+    const result = plan(blocks);
+    expect(result.stubCount).toBe(2);
+    expect(result.newFiles).toEqual([]);
+    expect(applyQuickFixEdits(french, result.edits)).toBe([
+      'translate french start_8d695913:',
+      '    e "Bonjour"',
+      '',
+      'translate french strings:',
+      '',
+      '    old "Stay"',
+      '    new "Rester"',
+      '',
+      '    # game/script.rpy:7',
+      '    old "Leave"',
+      '    new "Leave"',
+      '',
+      '# game/script.rpy:3',
+      'translate french start_9c0d0787:',
+      '',
+      '    # "The wind blows."',
+      '    "The wind blows."',
+      '',
+    ].join('\n'));
+  });
+
+  it('creates the translation file when there is none', () => {
+    const blocks = [
+      { id: 'src', content: SOURCE, filePath: 'game/script.rpy' },
+      { id: 'other', content: 'translate french start_0:\n    e "Salut"\n', filePath: 'game/tl/french/other.rpy' },
+    ];
+    const result = plan(blocks);
+    expect(result.edits).toEqual([]);
+    expect(result.newFiles).toEqual([{
+      filePath: 'game/tl/french/script.rpy',
+      content: [
+        '# game/script.rpy:2',
+        'translate french start_8d695913:',
+        '',
+        '    # e "Hello"',
+        '    e "Hello"',
+        '',
+        '# game/script.rpy:3',
+        'translate french start_9c0d0787:',
+        '',
+        '    # "The wind blows."',
+        '    "The wind blows."',
+        '',
+        'translate french strings:',
+        '',
+        '    # game/script.rpy:5',
+        '    old "Stay"',
+        '    new "Stay"',
+        '',
+        '    # game/script.rpy:7',
+        '    old "Leave"',
+        '    new "Leave"',
+        '',
+      ].join('\n'),
+    }]);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * @file translationStubs.ts
+ * @description Adds missing translation stubs for a language without the Ren'Py SDK (~90 lines).
+ * Every source line with no `translate` block of its ID gets a stub laid out like Ren'Py's
+ * "Generate Translations" output (a `# file:line` comment, then the original line commented
+ * out and repeated as the translation); every menu choice with no string-table entry gets an
+ * `old`/`new` pair. Stubs go to the `tl/<lang>/` file mirroring the source file, which is
+ * created when it does not exist yet. Orphaned blocks are left for the translator.
+ * Integration: "Add Missing Stubs" on the Translation Dashboard; App plans on the live editor
+ * contents, applies the edits like quick fixes and creates new files like new scripts.
+ */
+
+import type { TranslationAnalysisResult } from '@/types';
+import type { QuickFixTextEdit } from '@/lib/renpyQuickFixes';
+import { deriveSourceFilePath, extractLanguageFromPath } from '@/lib/renpyTranslationParser';
+import { findStringTable } from '@/lib/translationWorkbench';
+
+export interface TranslationStubPlan {
+  edits: QuickFixTextEdit[];
+  /** `tl/<lang>/` files to create, by project-relative path */
+  newFiles: { filePath: string; content: string }[];
+  stubCount: number;
+}
+
+interface StubBlock {
+  id: string;
+  content: string;
+  filePath?: string;
+}
+
+/** The `tl/<language>/` file mirroring a source file: `game/a/b.rpy` → `game/tl/<language>/a/b.rpy`. */
+export function getTranslationFilePath(sourceFilePath: string, language: string): string {
+  const normalized = sourceFilePath.replace(/\\/g, '/');
+  const game = /(?:^|\/)game\//.exec(normalized);
+  if (!game) return `tl/${language}/${normalized}`;
+  const end = game.index + game[0].length;
+  return `${normalized.slice(0, end)}tl/${language}/${normalized.slice(end)}`;
+}
+
+const appendSeparator = (content: string) => (content.trim() === '' ? '' : content.endsWith('\n') ? '\n' : '\n\n');
+
+/** Plans stubs for every line `language` has no translate block or string-table entry for. */
+export function planMissingTranslationStubs(
+  language: string,
+  translationData: Pick<TranslationAnalysisResult, 'missingTranslations'>,
+  blocks: StubBlock[],
+): TranslationStubPlan {
+  const plan: TranslationStubPlan = { edits: [], newFiles: [], stubCount: 0 };
+  const sourceLines = new Map(blocks.map(block => [block.id, block.content.split('\n')]));
+  const files = new Map<string, { stubs: string[]; pairs: string[] }>();
+  const seenChoices = new Set<string>();
+
+  for (const source of translationData.missingTranslations.get(language) ?? []) {
+    const sourcePath = source.filePath.replace(/\\/g, '/');
+    if (!files.has(sourcePath)) files.set(sourcePath, { stubs: [], pairs: [] });
+    const file = files.get(sourcePath)!;
+    if (source.type === 'menu-choice') {
+      // String tables are shared by the whole game, so a repeated choice needs one entry
+      if (seenChoices.has(source.sourceText)) continue;
+      seenChoices.add(source.sourceText);
+      file.pairs.push(`# ${sourcePath}:${source.line}`, `old "${source.sourceText}"`, `new "${source.sourceText}"`, '');
+    } else {
+      const code = sourceLines.get(source.blockId)?.[source.line - 1]?.trim();
+      if (!code || !source.translationId) continue;
+      file.stubs.push(`# ${sourcePath}:${source.line}\ntranslate ${language} ${source.translationId}:\n\n    # ${code}\n    ${code}\n`);
+    }
+    plan.stubCount++;
+  }
+
+  for (const [sourcePath, { stubs, pairs }] of files) {
+    const block = blocks.find(b => b.filePath && extractLanguageFromPath(b.filePath) === language && deriveSourceFilePath(b.filePath, language) === sourcePath);
+    let content = block?.content ?? '';
+    const lines = content.split('\n');
+    const table = pairs.length > 0 ? findStringTable(lines, language) : null;
+    const appended = [...stubs];
+    if (table) {
+      lines.splice(table.lastLine + 1, 0, '', ...pairs.slice(0, -1).map(line => (line ? `${table.indent}${line}` : '')));
+      content = lines.join('\n');
+    } else if (pairs.length > 0) {
+      appended.push(`translate ${language} strings:\n\n${pairs.map(line => (line ? `    ${line}` : '')).join('\n')}`);
+    }
+    if (appended.length > 0) content += `${appendSeparator(content)}${appended.join('\n')}`;
+
+    if (!block) {
+      plan.newFiles.push({ filePath: getTranslationFilePath(sourcePath, language), content });
+    } else if (content !== block.content) {
+      const original = block.content.split('\n');
+      plan.edits.push({ blockId: block.id, startLine: 1, startColumn: 1, endLine: original.length, endColumn: original[original.length - 1].length + 1, text: content });
+    }
+  }
+  return plan;
+}
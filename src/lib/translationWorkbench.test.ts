@@ -0,0 +1,67 @@
+import { findAdjacentUntranslated, planTranslationSave, toRenpyStringContent } from './translationWorkbench';
+import { applyQuickFixEdits } from './renpyQuickFixes';
+import { performTranslationAnalysis } from './renpyTranslationParser';
+
+const SOURCE = [
+  'label start:',
+  '    e "Hello there."',
+  '    "The wind blows."',
+  '    menu:',
+  '        "Stay":',
+  '            pass',
+  '        "Leave":',
+  '            return',
+].join('\n');
+
+const FRENCH = [
+  'translate french start_496d9b91:',
+  '    e "Bonjour."',
+  '',
+  'translate french strings:',
+  '',
+  '    old "Stay"',
+  '    new "Rester"',
+].join('\n');
+
+const makeBlocks = (french = FRENCH) => [
+  { id: 'src', content: SOURCE, filePath: 'game/script.rpy' },
+  { id: 'fr', content: french, filePath: 'game/tl/french/script.rpy' },
+];
+
+const analyze = (blocks = makeBlocks()) => performTranslationAnalysis(blocks, new Map(), { start: { blockId: 'src' } });
+
+const save = (sourceLine: number, text: string, blocks = makeBlocks()) => {
+  const data = analyze(blocks);
+  const source = data.translatableStrings.find(s => s.line === sourceLine)!;
+  const plan = planTranslationSave(source, 'french', text, data, blocks);
+  if ('error' in plan) return plan;
+  return applyQuickFixEdits(blocks[1].content, plan.edits);
+};
+
+describe('translation workbench', () => {
+  it('escapes quotes and line breaks but keeps escapes that were typed', () => {
+    expect(toRenpyStringContent('Il a dit "oui"\net \\"non\\" \\n \\')).toBe('Il a dit \\"oui\\"\\net \\"non\\" \\n \\\\');
+  });
+
+  it('rewrites existing block and string-table translations in place', () => {
+    expect(save(2, 'Salut "toi".')).toBe(FRENCH.replace('e "Bonjour."', 'e "Salut \\"toi\\"."'));
+    expect(save(5, 'Rester ici')).toBe(FRENCH.replace('new "Rester"', 'new "Rester ici"'));
+    // A block written before the line changed gets the line's current ID
+    expect(save(2, 'Salut.', makeBlocks(FRENCH.replace('start_496d9b91', 'start_0ld')))).toBe(FRENCH.replace('e "Bonjour."', 'e "Salut."'));
+  });
+
+  it('adds untranslated choices to the string table of the matching file', () => {
+    expect(save(7, 'Partir')).toBe(`${FRENCH}\n\n    old "Leave"\n    new "Partir"`);
+    const withoutTable = makeBlocks('translate french start_496d9b91:\n    e "Bonjour."\n');
+    expect(save(7, 'Partir', withoutTable)).toBe('translate french start_496d9b91:\n    e "Bonjour."\n\ntranslate french strings:\n\n    old "Leave"\n    new "Partir"\n');
+    expect(save(3, 'Le vent souffle.')).toEqual({ error: 'This line has no "translate french" block yet; generate translations for french first' });
+  });
+
+  it('steps between untranslated strings', () => {
+    const data = analyze();
+    const lines = (i: number) => data.translatableStrings[i]?.line;
+    expect(lines(findAdjacentUntranslated(data.translatableStrings, 0, 1, 'french', data.stringTranslations))).toBe(3);
+    expect(lines(findAdjacentUntranslated(data.translatableStrings, 1, 1, 'french', data.stringTranslations))).toBe(7);
+    expect(findAdjacentUntranslated(data.translatableStrings, 1, -1, 'french', data.stringTranslations)).toBe(-1);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * @file translationWorkbench.ts
+ * @description Script edits and navigation behind the translation workbench (~165 lines).
+ * Saving rewrites the quoted text of an existing `translate <lang> <id>:` block line or
+ * string-table `new` entry (a stale block written for an earlier version of the line also
+ * gets the line's current ID); an untranslated menu choice gets a new `old`/`new` pair in the
+ * `translate <lang> strings:` table of the matching `tl/<lang>/` file. Dialogue without a
+ * translate block needs its block generated first.
+ * Integration: `TranslationDashboard` drives the workbench; App plans saves here on the live
+ * editor contents and applies them like quick fixes, so they can be undone and the coverage
+ * re-computes. Review flags are stored per language in `ProjectSettings.translationReviewFlags`.
+ */
+
+import type { TranslatableString, TranslatedString, TranslationAnalysisResult } from '@/types';
+import type { QuickFixTextEdit } from '@/lib/renpyQuickFixes';
+import { deriveSourceFilePath, extractLanguageFromPath, isTranslationStale } from '@/lib/renpyTranslationParser';
+
+type PlannedEdits = { edits: QuickFixTextEdit[] } | { error: string };
+interface WorkbenchBlock {
+  id: string;
+  content: string;
+  filePath?: string;
+}
+
+const QUOTED_STRING_REGEX = /"((?:\\.|[^"\\])*)"/;
+const STRINGS_TABLE_REGEX = /^\s*translate\s+([a-zA-Z0-9_]+)\s+strings\s*:/;
+const TRANSLATE_BLOCK_REGEX = /^\s*translate\s+([a-zA-Z0-9_]+)\s+([a-zA-Z0-9_]+)\s*:/;
+
+/**
+ * Turns editor text into the contents of a Ren'Py string literal: bare quotes are escaped
+ * and line breaks become `\n`. Existing escapes such as `\"` or `\n` are kept as typed.
+ */
+export function toRenpyStringContent(text: string): string {
+  return text.replace(/\\[^\r\n]|\\|"|\r?\n/g, match => {
+    if (match === '"') return '\\"';
+    if (match === '\\') return '\\\\';
+    return match.startsWith('\\') ? match : '\\n';
+  });
+}
+
+/**
+ * Key for the "needs review" flag of a source string. Source string IDs embed per-session
+ * block IDs, so the flag is keyed by file, label and text instead.
+ */
+export function getTranslationReviewKey(source: TranslatableString): string {
+  return `${source.filePath}|${source.labelScope ?? ''}|${source.sourceText}`;
+}
+
+/** True when `language` has no translation of the string, or only a stale one. */
+export function isStringUntranslated(
+  source: TranslatableString,
+  language: string,
+  stringTranslations: TranslationAnalysisResult['stringTranslations'],
+): boolean {
+  const translation = stringTranslations.get(source.id)?.get(language);
+  return !translation || isTranslationStale(source, translation);
+}
+
+/** Index of the next (or previous) untranslated string after `fromIndex`, or -1. */
+export function findAdjacentUntranslated(
+  strings: TranslatableString[],
+  fromIndex: number,
+  direction: 1 | -1,
+  language: string,
+  stringTranslations: TranslationAnalysisResult['stringTranslations'],
+): number {
+  for (let i = fromIndex + direction; i >= 0 && i < strings.length; i += direction) {
+    if (isStringUntranslated(strings[i], language, stringTranslations)) return i;
+  }
+  return -1;
+}
+
+/** The translation entry a save should rewrite, if there is one. */
+export function findTranslationEntry(
+  source: TranslatableString,
+  language: string,
+  translationData: Pick<TranslationAnalysisResult, 'stringTranslations' | 'translatedStrings'>,
+): TranslatedString | null {
+  const matched = translationData.stringTranslations.get(source.id)?.get(language);
+  if (matched) return matched;
+  // A string table entry covers every identical choice, even those it was not matched to
+  if (source.type !== 'menu-choice') return null;
+  return translationData.translatedStrings.get(language)?.find(entry => entry.id === `strings:${source.sourceText}`) ?? null;
+}
+
+/**
+ * The `translate <language> strings:` table in `lines`: the 0-based index of its last
+ * indented line, where new entries go, and the indentation of its entries.
+ */
+export function findStringTable(lines: string[], language: string): { lastLine: number; indent: string } | null {
+  const header = lines.findIndex(line => STRINGS_TABLE_REGEX.exec(line)?.[1] === language);
+  if (header === -1) return null;
+  let last = header;
+  let indent = '    ';
+  for (let i = header + 1; i < lines.length; i++) {
+    if (lines[i].trim() === '') continue;
+    if (!/^\s/.test(lines[i])) break;
+    if (last === header) indent = lines[i].match(/^\s*/)![0];
+    last = i;
+  }
+  return { lastLine: last, indent };
+}
+
+/** Plans writing `text` as the `language` translation of `source`. */
+export function planTranslationSave(
+  source: TranslatableString,
+  language: string,
+  text: string,
+  translationData: Pick<TranslationAnalysisResult, 'stringTranslations' | 'translatedStrings'>,
+  blocks: WorkbenchBlock[],
+): PlannedEdits {
+  const content = toRenpyStringContent(text);
+  const entry = findTranslationEntry(source, language, translationData);
+  if (entry) {
+    const line = blocks.find(block => block.id === entry.blockId)?.content.split('\n')[entry.line - 1];
+    const match = line?.match(QUOTED_STRING_REGEX);
+    if (!match || match.index === undefined) {
+      return { error: `Line ${entry.line} of ${entry.filePath} no longer holds this translation; wait for the analysis to catch up` };
+    }
+    const startColumn = match.index + 2;
+    const edits = [{ blockId: entry.blockId, startLine: entry.line, startColumn, endLine: entry.line, endColumn: startColumn + match[1].length, text: content }];
+    // A block paired by position still carries the ID of the line before it changed
+    if (entry.sourceText === null && source.translationId && entry.id !== source.translationId) {
+      const lines = blocks.find(block => block.id === entry.blockId)!.content.split('\n');
+      for (let i = entry.line - 2; i >= 0; i--) {
+        const header = TRANSLATE_BLOCK_REGEX.exec(lines[i]);
+        if (!header) continue;
+        if (header[2] === entry.id) {
+          const idColumn = header[0].lastIndexOf(entry.id) + 1;
+          edits.push({ blockId: entry.blockId, startLine: i + 1, startColumn: idColumn, endLine: i + 1, endColumn: idColumn + entry.id.length, text: source.translationId });
+        }
+        break;
+      }
+    }
+    return { edits };
+  }
+
+  if (source.type !== 'menu-choice') {
+    return { error: `This line has no "translate ${language}" block yet; generate translations for ${language} first` };
+  }
+  const sourcePath = source.filePath.replace(/\\/g, '/');
+  const tlBlock = blocks.find(block =>
+    block.filePath
+    && extractLanguageFromPath(block.filePath) === language
+    && deriveSourceFilePath(block.filePath, language) === sourcePath,
+  );
+  if (!tlBlock) {
+    return { error: `No ${language} translation file for ${source.filePath}; generate translations for ${language} first` };
+  }
+
+  const lines = tlBlock.content.split('\n');
+  const table = findStringTable(lines, language);
+  if (!table) {
+    const lastLine = lines.length;
+    const column = lines[lastLine - 1].length + 1;
+    const separator = tlBlock.content.trim() === '' ? '' : tlBlock.content.endsWith('\n') ? '\n' : '\n\n';
+    const text = `${separator}translate ${language} strings:\n\n    old "${source.sourceText}"\n    new "${content}"\n`;
+    return { edits: [{ blockId: tlBlock.id, startLine: lastLine, startColumn: column, endLine: lastLine, endColumn: column, text }] };
+  }
+
+  const column = lines[table.lastLine].length + 1;
+  const pair = `\n\n${table.indent}old "${source.sourceText}"\n${table.indent}new "${content}"`;
+  return { edits: [{ blockId: tlBlock.id, startLine: table.lastLine + 1, startColumn: column, endLine: table.lastLine + 1, endColumn: column, text: pair }] };
+}
@@ -4,8 +4,10 @@
  */
 import React from 'react';
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { render, cleanup, waitFor } from '@testing-library/react';
+import { render, cleanup, waitFor, fireEvent, screen } from '@testing-library/react';
 import CanvasNodeContextMenu from '@/components/CanvasNodeContextMenu';
+import RouteCanvas from '@/components/RouteCanvas';
+import type { LabelNode, RouteLink } from '@/types';
 import { installElectronAPI, uninstallElectronAPI } from './mocks/electronAPI';
 
 describe('Memory Leak Prevention', () => {
@@ -143,6 +145,106 @@ describe('Memory Leak Prevention', () => {
     });
   });
 
+  describe('RouteCanvas with 5k labels', () => {
+    const labelNodes: LabelNode[] = Array.from({ length: 5000 }, (_, i) => ({
+      id: `f${i % 50}:n${i}`,
+      label: i === 0 ? 'start' : `label_${i}`,
+      blockId: `f${i % 50}`,
+      containerName: `file_${i % 50}.rpy`,
+      startLine: 1,
+      position: { x: (i % 100) * 260, y: Math.floor(i / 100) * 160 },
+      width: 200,
+      height: 100,
+    }));
+    const routeLinks: RouteLink[] = labelNodes.slice(1).map((node, i) => ({
+      id: `l${i}`, sourceId: labelNodes[i].id, targetId: node.id, type: 'jump',
+    }));
+
+    const renderCanvas = (transform: { x: number; y: number; scale: number }) => {
+      const props = {
+        labelNodes,
+        routeLinks,
+        identifiedRoutes: [],
+        stickyNotes: [],
+        projectImages: new Map(),
+        updateLabelNodePositions: vi.fn(),
+        onAddStickyNote: vi.fn(),
+        updateStickyNote: vi.fn(),
+        deleteStickyNote: vi.fn(),
+        onOpenEditor: vi.fn(),
+        onTransformChange: vi.fn(),
+        layoutMode: 'flow-lr' as const,
+        groupingMode: 'none' as const,
+        onChangeLayoutMode: vi.fn(),
+        onChangeGroupingMode: vi.fn(),
+        onWarpToLabel: vi.fn(),
+      };
+      const view = render(<RouteCanvas {...props} transform={transform} />);
+      return { ...view, rerenderWith: (next: typeof transform) => view.rerender(<RouteCanvas {...props} transform={next} />) };
+    };
+
+    beforeEach(() => {
+      // jsdom has no layout: report a 1200×800 viewport and no 2D context
+      vi.stubGlobal('ResizeObserver', class {
+        constructor(private callback: ResizeObserverCallback) {}
+        observe() {
+          this.callback([{ contentRect: { width: 1200, height: 800 } } as ResizeObserverEntry], this as unknown as ResizeObserver);
+        }
+        unobserve() {}
+        disconnect() {}
+      });
+      vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(null);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+      vi.unstubAllGlobals();
+    });
+
+    it('renders only the labels in view as DOM nodes', () => {
+      const { container, rerenderWith } = renderCanvas({ x: 0, y: 0, scale: 1 });
+      const domCount = container.querySelectorAll('.label-block-wrapper').length;
+      expect(domCount).toBeGreaterThan(0);
+      expect(domCount).toBeLessThan(100);
+      expect(container.querySelector('[aria-label^="Label: start, entry point"]')).not.toBeNull();
+
+      // Zoomed far out, everything moves to the 2D canvas
+      rerenderWith({ x: 0, y: 0, scale: 0.05 });
+      expect(container.querySelectorAll('.label-block-wrapper')).toHaveLength(0);
+      expect(screen.getByRole('img', { name: /Overview of \d+ labels/ })).toBeTruthy();
+    });
+
+    it('keeps keyboard navigation working when zoomed out', async () => {
+      const { container } = renderCanvas({ x: 0, y: 0, scale: 0.05 });
+      fireEvent.keyDown(screen.getByRole('application', { name: 'Route canvas' }), { key: 'ArrowRight' });
+      await waitFor(() => {
+        expect(document.activeElement?.getAttribute('aria-label')).toBe('Label: start, entry point, selected');
+      });
+      expect(container.querySelectorAll('.label-block-wrapper')).toHaveLength(1);
+
+      fireEvent.keyDown(document.activeElement!, { key: 'ArrowRight' });
+      await waitFor(() => {
+        expect(document.activeElement?.getAttribute('aria-label')).toBe('Label: label_1, selected');
+      });
+    });
+
+    it('removes its wheel listener on unmount', () => {
+      const addSpy = vi.spyOn(HTMLElement.prototype, 'addEventListener');
+      const removeSpy = vi.spyOn(HTMLElement.prototype, 'removeEventListener');
+      const { unmount } = renderCanvas({ x: 0, y: 0, scale: 0.05 });
+      // React registers its own delegated listeners on the container; only look at the canvas element
+      const canvasEl = screen.getByRole('application', { name: 'Route canvas' });
+      const wheelHandlers = (spy: typeof addSpy) => spy.mock.calls
+        .filter(([type], i) => type === 'wheel' && spy.mock.contexts[i] === canvasEl)
+        .map(([, handler]) => handler);
+      expect(wheelHandlers(addSpy)).toHaveLength(1);
+      unmount();
+      expect(wheelHandlers(removeSpy)).toEqual(wheelHandlers(addSpy));
+      addSpy.mockRestore();
+      removeSpy.mockRestore();
+    });
+  });
+
   describe('Event Listener Cleanup Pattern', () => {
     it('should demonstrate proper cleanup pattern', () => {
       let cleanupCalled = false;
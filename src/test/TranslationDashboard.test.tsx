@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeAll } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import TranslationDashboard from '@/components/TranslationDashboard';
 import type { TranslationAnalysisResult, Block } from '@/types';
 
@@ -29,6 +29,8 @@ function makeEmptyTranslationData(): TranslationAnalysisResult {
     languageCoverages: [],
     detectedLanguages: [],
     stringTranslations: new Map(),
+    orphanedTranslations: new Map(),
+    missingTranslations: new Map(),
   };
 }
 
@@ -63,6 +65,8 @@ function makeSampleTranslationData(): TranslationAnalysisResult {
     ],
     detectedLanguages: ['french', 'german'],
     stringTranslations,
+    orphanedTranslations: new Map(),
+    missingTranslations: new Map(),
   };
 }
 
@@ -136,6 +140,8 @@ describe('TranslationDashboard', () => {
       ],
       detectedLanguages: ['french'],
       stringTranslations: new Map(),
+      orphanedTranslations: new Map(),
+      missingTranslations: new Map(),
     };
 
     const { container } = render(
@@ -293,4 +299,116 @@ describe('TranslationDashboard', () => {
 
     expect(onGenerate).toHaveBeenCalledWith('japanese');
   });
+
+  it('edits translations in the workbench and steps to the next untranslated string', () => {
+    const onSave = vi.fn().mockReturnValue(true);
+    const onToggleReview = vi.fn();
+    render(
+      <TranslationDashboard
+        translationData={makeSampleTranslationData()}
+        blocks={makeSampleBlocks()}
+        onOpenBlock={vi.fn()}
+        {...defaultGenerateProps}
+        onSaveTranslation={onSave}
+        reviewFlags={{ french: ['game/script.rpy|start|Goodbye'] }}
+        onToggleReview={onToggleReview}
+      />,
+    );
+    expect(screen.getByText('1 to review')).toBeInTheDocument();
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'Translate to french' })[0]);
+    expect(screen.getByTestId('workbench-source')).toHaveTextContent('Hello');
+    const input = screen.getByLabelText('french translation');
+    expect(input).toHaveValue('Bonjour');
+
+    fireEvent.change(input, { target: { value: 'Salut' } });
+    fireEvent.keyDown(input, { key: 'Enter', ctrlKey: true });
+    expect(onSave).toHaveBeenCalledWith(expect.objectContaining({ id: 'id1' }), 'french', 'Salut');
+    expect(screen.getByTestId('workbench-source')).toHaveTextContent('Goodbye');
+    expect(screen.getByLabelText('Needs review')).toBeChecked();
+
+    fireEvent.click(screen.getByLabelText('Needs review'));
+    expect(onToggleReview).toHaveBeenCalledWith('french', 'game/script.rpy|start|Goodbye', false);
+    fireEvent.keyDown(screen.getByLabelText('french translation'), { key: 'Escape' });
+    expect(screen.queryByTestId('translation-workbench')).not.toBeInTheDocument();
+  });
+
+  it('previews and applies an imported translation file', async () => {
+    const plan = { edits: [{ blockId: 'tl1', startLine: 1, startColumn: 1, endLine: 1, endColumn: 1, text: '' }], updatedCount: 1, written: [], unchangedCount: 0, conflicts: [], missingIds: ['start_9'], sourceChanged: [], failed: [] };
+    const onPlan = vi.fn().mockReturnValue(plan);
+    const onApply = vi.fn();
+    render(
+      <TranslationDashboard
+        translationData={makeSampleTranslationData()}
+        blocks={makeSampleBlocks()}
+        onOpenBlock={vi.fn()}
+        {...defaultGenerateProps}
+        onPlanTranslationImport={onPlan}
+        onApplyTranslationImport={onApply}
+      />,
+    );
+    fireEvent.click(screen.getByRole('button', { name: 'Import…' }));
+    const file = new File(['id,source,target\nid1,Hello,Salut\n'], 'french.csv', { type: 'text/csv' });
+    fireEvent.change(screen.getByLabelText('Translation file'), { target: { files: [file] } });
+
+    await waitFor(() => expect(screen.getByTestId('translation-import-preview')).toHaveTextContent('1 to write'));
+    expect(onPlan).toHaveBeenCalledWith([{ id: 'id1', source: 'Hello', target: 'Salut' }], 'french', false);
+    expect(screen.getByText('start_9')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Import 1 Translation' }));
+    expect(onApply).toHaveBeenCalledWith(plan, 'french');
+  });
+
+  it('lists orphaned translations and adds missing stubs for the active language', () => {
+    const data = makeSampleTranslationData();
+    const orphan = { id: 'start_0ld', translatedText: 'Adieu', blockId: 'tl1', filePath: 'game/tl/french/script.rpy', line: 5, language: 'french', characterTag: 'e', sourceText: null };
+    data.orphanedTranslations = new Map([['french', [orphan]]]);
+    data.missingTranslations = new Map([['french', [data.translatableStrings[1]]]]);
+    const onOpenBlock = vi.fn();
+    const onAddMissingStubs = vi.fn();
+    render(
+      <TranslationDashboard
+        translationData={data}
+        blocks={makeSampleBlocks()}
+        onOpenBlock={onOpenBlock}
+        {...defaultGenerateProps}
+        onAddMissingStubs={onAddMissingStubs}
+      />,
+    );
+    expect(screen.getByText('1 orphaned')).toBeInTheDocument();
+    fireEvent.click(screen.getByText('start_0ld'));
+    expect(onOpenBlock).toHaveBeenCalledWith('tl1', 5);
+    fireEvent.click(screen.getByRole('button', { name: 'Add 1 Missing Stub' }));
+    expect(onAddMissingStubs).toHaveBeenCalledWith('french');
+  });
+
+  it('suggests translation memory matches and glossary terms, and edits the glossary', () => {
+    const onUpdateGlossary = vi.fn();
+    render(
+      <TranslationDashboard
+        translationData={makeSampleTranslationData()}
+        blocks={makeSampleBlocks()}
+        onOpenBlock={vi.fn()}
+        {...defaultGenerateProps}
+        onSaveTranslation={vi.fn().mockReturnValue(true)}
+        translationMemory={{ french: [{ source: 'Goodbye!', target: 'Au revoir !' }] }}
+        glossary={{ french: [{ term: 'goodbye', translation: 'au revoir' }] }}
+        onUpdateGlossary={onUpdateGlossary}
+      />,
+    );
+    fireEvent.click(screen.getAllByRole('button', { name: 'Translate to french' })[1]);
+    expect(screen.getByTestId('workbench-glossary')).toHaveTextContent('goodbye → au revoir');
+    expect(screen.getByTestId('workbench-suggestions')).toHaveTextContent('87%');
+    fireEvent.click(screen.getByRole('button', { name: 'Use suggestion: Au revoir !' }));
+    expect(screen.getByLabelText('french translation')).toHaveValue('Au revoir !');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Glossary…' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Add Term' }));
+    fireEvent.change(screen.getByLabelText('Term 2'), { target: { value: ' Eileen ' } });
+    fireEvent.change(screen.getByLabelText('Translation 2'), { target: { value: 'Eileen' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save Glossary' }));
+    expect(onUpdateGlossary).toHaveBeenCalledWith('french', [
+      { term: 'goodbye', translation: 'au revoir' },
+      { term: 'Eileen', translation: 'Eileen' },
+    ]);
+  });
 });
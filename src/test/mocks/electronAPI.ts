@@ -107,6 +107,7 @@ export interface MockElectronAPI {
   // Search & dialogs
   searchInProject: Mock<(args: SearchInProjectArgs) => Promise<SearchResult[]>>;
   showSaveDialog: Mock<(options: SaveDialogOptions) => Promise<string | null>>;
+  exportPdf: Mock<(html: string, filePath: string) => Promise<{ success: boolean; error?: string }>>;
   path: {
     join: Mock<(...paths: string[]) => Promise<string>>;
   };
@@ -175,6 +176,7 @@ export function createMockElectronAPI(): MockElectronAPI {
     // Search & dialogs
     searchInProject: vi.fn().mockResolvedValue([]),
     showSaveDialog: vi.fn().mockResolvedValue(null),
+    exportPdf: vi.fn().mockResolvedValue({ success: true }),
     path: {
       join: vi.fn().mockImplementation((...paths: string[]) => Promise.resolve(paths.join('/'))),
     },
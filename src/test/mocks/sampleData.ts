@@ -12,6 +12,8 @@ import type {
   Character,
   Variable,
   RenpyScreen,
+  RenpyTransform,
+  RenpyStyle,
   RenpyAnalysisResult,
   LabelLocation,
   JumpLocation,
@@ -145,20 +147,32 @@ export function createEmptyAnalysisResult(overrides: Partial<RenpyAnalysisResult
     characterUsage: new Map<string, number>(),
     variables: new Map<string, Variable>(),
     variableUsages: new Map(),
+    choiceEffects: [],
     screens: new Map<string, RenpyScreen>(),
+    transforms: new Map<string, RenpyTransform>(),
+    styles: new Map<string, RenpyStyle>(),
+    guiDefines: new Map<string, Variable>(),
     definedImages: new Set<string>(),
     blockTypes: new Map(),
     labelNodes: [],
     routeLinks: [],
     identifiedRoutes: [],
-    routesTruncated: false,
+    pathAnalysis: { totalPathCount: 0n, endings: [], loops: [], signature: '' },
+    routeSimulation: { nodes: new Map(), links: new Map(), routes: new Map(), entryStates: new Map(), routeRanges: new Map(), routeSignatures: new Map() },
     translationData: {
       translatableStrings: [],
       translatedStrings: new Map(),
       languageCoverages: [],
       detectedLanguages: [],
       stringTranslations: new Map(),
+      orphanedTranslations: new Map(),
+      missingTranslations: new Map(),
     },
+    pythonDiagnostics: [],
+    screenDiagnostics: [],
+    atlDiagnostics: [],
+    styleDiagnostics: [],
+    routeDiagnostics: [],
     ...overrides,
   };
 }
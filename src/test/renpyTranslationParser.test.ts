@@ -8,6 +8,7 @@ import {
   buildStringTranslationMap,
   computeLanguageCoverages,
   performTranslationAnalysis,
+  isTranslationStale,
 } from '@/lib/renpyTranslationParser';
 import type { AnalysisBlock } from '@/lib/renpyTranslationParser';
 
@@ -394,7 +395,7 @@ describe('performTranslationAnalysis', () => {
       makeBlock({
         id: 'tl-fr',
         filePath: 'game/tl/french/script.rpy',
-        content: 'translate french start_abc:\n    e "Bonjour le monde"\n\ntranslate french start_def:\n    "Narration ici"\n',
+        content: 'translate french start_5d9e3d06:\n    e "Bonjour le monde"\n\ntranslate french start_a50049d7:\n    "Narration ici"\n',
       }),
     ];
     const labels = { start: { blockId: 'src' } };
@@ -510,3 +511,60 @@ describe('performTranslationAnalysis', () => {
     expect(result.languageCoverages[0].completionPercent).toBe(100);
   });
 });
+
+// ---------------------------------------------------------------------------
+// Translation IDs
+// ---------------------------------------------------------------------------
+
+describe('translation IDs', () => {
+  it('computes the identifiers Ren\'Py gives dialogue lines', () => {
+    const content = [
+      'label start:',
+      '    e "Thank you for taking a look at the Ren\'Py translation framework."',
+      '    voice "e01.ogg"',
+      '    e "Hi   there." with vpunch',
+      '    "Again."',
+      '    "Again."',
+      'label .local:',
+      '    "Local."',
+      'label _hidden:',
+      '    "Hidden."',
+      '    e "Custom." id my_line',
+    ].join('\n');
+    const strings = extractTranslatableStrings([makeBlock({ content })], new Map(), {});
+    expect(strings.map(s => s.translationId)).toEqual([
+      // The example from the Ren'Py translation documentation
+      'start_636ae3f5',
+      // A voice statement is hashed with the line it voices
+      'start_a28ff930',
+      'start_f63e8d35',
+      'start_f63e8d35_1',
+      'start_local_f540cb92',
+      // Labels starting with an underscore keep the previous scope
+      'start_local_564733ec',
+      'my_line',
+    ]);
+  });
+
+  it('treats translations written for an earlier version of a line as stale', () => {
+    const blocks: AnalysisBlock[] = [
+      makeBlock({ id: 'src', content: 'label start:\n    e "Hello"\n    e "Goodbye!"\n    menu:\n        "Go":\n            pass\n' }),
+      makeBlock({
+        id: 'tl-fr',
+        filePath: 'game/tl/french/script.rpy',
+        content: 'translate french start_8d695913:\n    e "Bonjour"\n\ntranslate french start_3fb925f9:\n    e "Au revoir"\n\ntranslate french old_line:\n    "Vieux"\n',
+      }),
+    ];
+    const result = performTranslationAnalysis(blocks, new Map(), { start: { blockId: 'src' } });
+    const [hello, goodbye] = result.translatableStrings;
+    // "Goodbye" became "Goodbye!" after translation, so its block no longer has the right ID
+    const oldGoodbye = result.stringTranslations.get(goodbye.id)!.get('french')!;
+    expect(oldGoodbye.id).toBe('start_3fb925f9');
+    expect(isTranslationStale(goodbye, oldGoodbye)).toBe(true);
+    expect(isTranslationStale(hello, result.stringTranslations.get(hello.id)!.get('french')!)).toBe(false);
+    expect(result.languageCoverages[0].staleCount).toBe(1);
+
+    expect(result.orphanedTranslations.get('french')!.map(t => t.id)).toEqual(['start_3fb925f9', 'old_line']);
+    expect(result.missingTranslations.get('french')!.map(s => s.sourceText)).toEqual(['Goodbye!', 'Go']);
+  });
+});
@@ -115,6 +115,13 @@ export interface DiagnosticIssue {
   category: string;         // "invalid-jump" | "syntax" | "missing-image" | "missing-audio"
                             // | "undefined-character" | "undefined-screen"
                             // | "unused-character" | "unreachable-label"
+                            // | "python-syntax" | "undefined-name"
+                            // | "screen-property" | "screen-action" | "screen-use"
+                            // | "atl-syntax" | "undefined-transform" | "undefined-style"
+                            // | "unreachable-ending" | "translation-tags"
+                            // | "translation-interpolation" | "translation-pause"
+                            // | "translation-whitespace" | "translation-length"
+                            // | "translation-glossary"
   message: string;
   blockId?: string;
   filePath?: string;
@@ -144,6 +151,20 @@ export interface SavedRouteNodeLayout {
   position: Position;
 }
 
+/** One card or choice on the Choices Canvas, keyed by `lib/choiceCanvasLayout` item keys */
+export interface SavedChoiceItemLayout {
+  /** Pinned top-left position; unpinned items are stacked automatically */
+  position?: Position;
+  hidden?: boolean;
+}
+
+/** Manual Choices Canvas layout for one label, saved under the label name */
+export interface SavedChoiceNodeLayout {
+  items?: Record<string, SavedChoiceItemLayout>;
+  /** Menu keys (`menu:<n>`) folded into a single summary pill */
+  collapsedMenus?: string[];
+}
+
 export interface DiagnosticsTask {
   id: string;               // crypto.randomUUID()
   title: string;
@@ -268,6 +289,59 @@ export interface RenpyScreen {
   line: number;
 }
 
+/**
+ * Represents a Ren'Py `transform name(...):` definition extracted from code.
+ * @interface RenpyTransform
+ * @property {string} name - Name of the transform as defined in code
+ * @property {string} parameters - Parameter list string (e.g., "(delay=0.5)"), empty if none
+ * @property {string} definedInBlockId - ID of the block containing this transform
+ * @property {string} [filePath] - Project-relative path of the defining file, if known
+ * @property {number} line - Line number where the transform is defined
+ */
+export interface RenpyTransform {
+  name: string;
+  parameters: string;
+  definedInBlockId: string;
+  filePath?: string;
+  line: number;
+}
+
+/**
+ * A property set on a style by a `style` statement or by Python (`style.name.prop = value`).
+ * @interface RenpyStyleProperty
+ * @property {string} name - Property name, including any state prefix (e.g., "hover_color")
+ * @property {string} value - Value expression as written
+ * @property {string} blockId - ID of the block that sets the property
+ * @property {number} line - Line number where the property is set
+ */
+export interface RenpyStyleProperty {
+  name: string;
+  value: string;
+  blockId: string;
+  line: number;
+}
+
+/**
+ * Represents a Ren'Py style, merged from every `style name:` statement that touches it.
+ * @interface RenpyStyle
+ * @property {string} name - Style name
+ * @property {string | null} parent - Parent named by `is`, or null to inherit by name prefix
+ * @property {string} [take] - Style named by `take`, whose properties are copied
+ * @property {string} definedInBlockId - ID of the block containing the first definition
+ * @property {string} [filePath] - Project-relative path of that block, if known
+ * @property {number} line - Line number of the first definition
+ * @property {RenpyStyleProperty[]} properties - Properties in the order they are set
+ */
+export interface RenpyStyle {
+  name: string;
+  parent: string | null;
+  take?: string;
+  definedInBlockId: string;
+  filePath?: string;
+  line: number;
+  properties: RenpyStyleProperty[];
+}
+
 /**
  * A component within a visual screen editor layout.
  * Used by the Screen Editor (post-1.0 feature).
@@ -378,6 +452,112 @@ export interface VariableUsage {
   line: number;
 }
 
+/**
+ * An assignment to a known variable inside the body of a menu choice.
+ * @interface ChoiceVariableEffect
+ * @property {string} blockId - ID of the block containing the menu
+ * @property {number} menuLine - 1-based line of the `menu:` keyword (groups choices in the same menu)
+ * @property {string} choiceText - Caption of the choice
+ * @property {string} [choiceCondition] - The `if <expr>` guard on the choice, if any
+ * @property {string} variable - Assigned variable name, without a `store.` prefix
+ * @property {string} delta - The change for display: `+3` / `-1` for `+=` / `-=`, otherwise the operator and value (e.g. `= True`)
+ * @property {number} line - 1-based line of the assignment
+ */
+export interface ChoiceVariableEffect {
+  blockId: string;
+  menuLine: number;
+  choiceText: string;
+  choiceCondition?: string;
+  variable: string;
+  delta: string;
+  line: number;
+}
+
+/**
+ * A problem found in embedded Python (`$` lines, `python:` and `init python` blocks)
+ * by the Python pass of the analysis worker.
+ * @interface PythonDiagnostic
+ * @property {string} blockId - ID of the block containing the Python code
+ * @property {'syntax' | 'undefined-name'} kind - Syntax error, or a name that is read but never defined
+ * @property {'error' | 'warning'} severity - Errors for syntax, warnings for undefined names
+ * @property {number} line - 1-based line number
+ * @property {number} column - 1-based start column
+ * @property {number} endColumn - 1-based exclusive end column
+ * @property {string} message - Human-readable description
+ */
+export interface PythonDiagnostic {
+  blockId: string;
+  kind: 'syntax' | 'undefined-name';
+  severity: 'error' | 'warning';
+  line: number;
+  column: number;
+  endColumn: number;
+  message: string;
+}
+
+/**
+ * A problem found in screen language by the screen pass of the analysis worker.
+ * @interface ScreenDiagnostic
+ * @property {string} blockId - ID of the block containing the screen
+ * @property {'property' | 'action' | 'use' | 'style'} kind - Invalid property, unknown action,
+ *   bad `use` statement, or undefined style
+ * @property {'error' | 'warning'} severity - Errors for code Ren'Py rejects, warnings for unresolved names
+ * @property {number} line - 1-based line number
+ * @property {number} column - 1-based start column
+ * @property {number} endColumn - 1-based exclusive end column
+ * @property {string} message - Human-readable description
+ */
+export interface ScreenDiagnostic {
+  blockId: string;
+  kind: 'property' | 'action' | 'use' | 'style';
+  severity: 'error' | 'warning';
+  line: number;
+  column: number;
+  endColumn: number;
+  message: string;
+}
+
+/**
+ * A problem found by the ATL pass of the analysis worker.
+ * @interface AtlDiagnostic
+ * @property {string} blockId - ID of the block containing the problem
+ * @property {'syntax' | 'undefined-transform'} kind - Malformed ATL statement, or an `at`
+ *   clause naming a transform that is not defined
+ * @property {'error' | 'warning'} severity - Errors for ATL Ren'Py rejects, warnings for unresolved names
+ * @property {number} line - 1-based line number
+ * @property {number} column - 1-based start column
+ * @property {number} endColumn - 1-based exclusive end column
+ * @property {string} message - Human-readable description
+ */
+export interface AtlDiagnostic {
+  blockId: string;
+  kind: 'syntax' | 'undefined-transform';
+  severity: 'error' | 'warning';
+  line: number;
+  column: number;
+  endColumn: number;
+  message: string;
+}
+
+/**
+ * A style statement whose `is` or `take` clause names an undefined style.
+ * @interface StyleDiagnostic
+ * @property {string} blockId - ID of the block containing the style statement
+ * @property {'warning'} severity - Always a warning: the style may come from code the IDE cannot see
+ * @property {number} line - 1-based line number
+ * @property {number} column - 1-based start column
+ * @property {number} endColumn - 1-based exclusive end column
+ * @property {string} message - Human-readable description
+ */
+export interface StyleDiagnostic {
+  blockId: string;
+  severity: 'warning';
+  line: number;
+  column: number;
+  endColumn: number;
+  message: string;
+}
+
 /**
  * Represents a connection between two story blocks in the narrative flow.
  * @interface Link
@@ -494,15 +674,110 @@ export interface RouteLink {
 /**
  * Represents one identified route (path) through the entire label graph.
  * Used to color-code different narrative paths in the Flow Canvas.
+ * Endings with many paths get a few representative ones (see `RouteEnding.paths`);
+ * exact counts per ending are in `RoutePathAnalysis`.
  * @interface IdentifiedRoute
  * @property {number} id - Unique route identifier
  * @property {string} color - Hex color code for visual representation
- * @property {Set<string>} linkIds - Set of route link IDs that comprise this route
+ * @property {Set<string>} linkIds - Set of route link IDs between consecutive labels of the path
+ * @property {string[]} nodeIds - Label node IDs in the order the route visits them, entry first, ending last
+ * @property {string} endingNodeId - Label node ID of the ending this route leads to
  */
 export interface IdentifiedRoute {
   id: number;
   color: string;
   linkIds: Set<string>;
+  nodeIds: string[];
+  endingNodeId: string;
+}
+
+/**
+ * One ending of the route graph as seen by the path analysis.
+ * @interface RouteEnding
+ * @property {string} nodeId - Label node ID of the ending
+ * @property {bigint} pathCount - Number of distinct paths from the entry labels, loops counted once
+ * @property {string[]} criticalNodeIds - Labels every path to the ending passes through, entry first
+ * @property {string[]} uniqueNodeIds - Labels from which this is the only ending that can be reached
+ * @property {number} uniqueLineCount - Script lines in those labels
+ * @property {string[]} nodeIds - Label node IDs on any path to the ending, the ending included
+ * @property {string[]} linkIds - Route link IDs on any path to the ending
+ * @property {string[][]} paths - A few loop-free paths to the ending, as label node IDs from an entry label,
+ *   that together take as many of its links as possible
+ */
+export interface RouteEnding {
+  nodeId: string;
+  pathCount: bigint;
+  criticalNodeIds: string[];
+  uniqueNodeIds: string[];
+  uniqueLineCount: number;
+  nodeIds: string[];
+  linkIds: string[];
+  paths: string[][];
+}
+
+/**
+ * Whole-graph path analysis: loops collapsed into strongly connected components,
+ * paths counted exactly over the remaining DAG.
+ * @interface RoutePathAnalysis
+ * @property {bigint} totalPathCount - Number of distinct routes across all endings
+ * @property {RouteEnding[]} endings - Endings reachable from an entry label
+ * @property {string[][]} loops - Label node IDs of each cycle (strongly connected component of two or more labels)
+ * @property {string} signature - Key of the route graph this was computed from, for reuse
+ */
+export interface RoutePathAnalysis {
+  totalPathCount: bigint;
+  endings: RouteEnding[];
+  loops: string[][];
+  signature: string;
+}
+
+/**
+ * Whether the tracked variable values allow a label, link or route to be taken:
+ * `unknown` when it depends on a condition the route simulator cannot evaluate.
+ */
+export type RouteFeasibility = 'feasible' | 'infeasible' | 'unknown';
+
+/**
+ * Result of simulating variable values along the route graph.
+ * Labels that no entry point reaches at all are left out of `nodes`.
+ * @interface RouteSimulation
+ * @property {Map<string, RouteFeasibility>} nodes - Label node ID to feasibility
+ * @property {Map<string, RouteFeasibility>} links - Route link ID to feasibility
+ * @property {Map<number, RouteFeasibility>} routes - Identified route ID to feasibility, simulated on the route's own links
+ * @property {Map<string, Record<string, string>>} entryStates - Label node ID to the possible values of each
+ *   tracked variable on entry, formatted for display (e.g. `"0–10"`, `"≥ 3"`, `"alice" | None`)
+ * @property {Map<number, Record<string, { min: number; max: number }>>} routeRanges - Identified route ID to the
+ *   lowest and highest value each numeric variable can take anywhere along the route
+ * @property {Map<number, string>} routeSignatures - Identified route ID to a hash of everything its simulation
+ *   depends on, so the next run can reuse the route's results
+ */
+export interface RouteSimulation {
+  nodes: Map<string, RouteFeasibility>;
+  links: Map<string, RouteFeasibility>;
+  routes: Map<number, RouteFeasibility>;
+  entryStates: Map<string, Record<string, string>>;
+  routeRanges: Map<number, Record<string, { min: number; max: number }>>;
+  routeSignatures: Map<number, string>;
+}
+
+/**
+ * An ending label that every path reaches only through a condition that
+ * cannot hold, according to the route simulator.
+ * @interface RouteDiagnostic
+ * @property {string} blockId - ID of the block containing the label
+ * @property {'warning'} severity - Always a warning: the simulator over-approximates values
+ * @property {number} line - 1-based line of the label statement
+ * @property {number} column - 1-based start column of the label name
+ * @property {number} endColumn - 1-based exclusive end column
+ * @property {string} message - Human-readable description
+ */
+export interface RouteDiagnostic {
+  blockId: string;
+  severity: 'warning';
+  line: number;
+  column: number;
+  endColumn: number;
+  message: string;
 }
 
 /**
@@ -525,14 +800,24 @@ export interface IdentifiedRoute {
  * @property {Map<string, number>} characterUsage - Map of character tag to appearance count
  * @property {Map<string, Variable>} variables - Map of variable name to definition
  * @property {Map<string, VariableUsage[]>} variableUsages - Map of variable name to usage locations
+ * @property {ChoiceVariableEffect[]} choiceEffects - Assignments to known variables made by menu choices
  * @property {Map<string, RenpyScreen>} screens - Map of screen name to definition
+ * @property {Map<string, RenpyTransform>} transforms - Map of transform name to definition
+ * @property {Map<string, RenpyStyle>} styles - Map of style name to merged definition
+ * @property {Map<string, Variable>} guiDefines - `define gui.*` variables, keyed by full name
  * @property {Set<string>} definedImages - Set of image tags defined in code
  * @property {Map<string, Set<string>>} blockTypes - Map of block ID to content types found
  * @property {LabelNode[]} labelNodes - All nodes in Flow Canvas visualization
  * @property {RouteLink[]} routeLinks - All connections in Flow Canvas
- * @property {IdentifiedRoute[]} identifiedRoutes - Identified narrative paths
- * @property {boolean} routesTruncated - True when route enumeration hit the hard cap
+ * @property {IdentifiedRoute[]} identifiedRoutes - Narrative routes, a few representative paths per reachable ending
+ * @property {RoutePathAnalysis} pathAnalysis - Exact route counts, critical and unique labels per ending
+ * @property {RouteSimulation} routeSimulation - Feasibility of labels, links and routes given the tracked variables
  * @property {TranslationAnalysisResult} translationData - Translation coverage data
+ * @property {PythonDiagnostic[]} pythonDiagnostics - Syntax errors and undefined names in embedded Python
+ * @property {ScreenDiagnostic[]} screenDiagnostics - Invalid properties, actions, `use` calls and styles in screens
+ * @property {AtlDiagnostic[]} atlDiagnostics - ATL syntax errors and `at` clauses naming undefined transforms
+ * @property {StyleDiagnostic[]} styleDiagnostics - `is` / `take` clauses naming undefined styles
+ * @property {RouteDiagnostic[]} routeDiagnostics - Endings no path can reach with the conditions as written
  */
 
 /** A source string that can be translated (dialogue, narration, or menu choice). */
@@ -545,6 +830,12 @@ export interface TranslatableString {
   labelScope: string | null;
   characterTag: string | null;
   type: 'dialogue' | 'narration' | 'menu-choice';
+  /**
+   * Identifier of the `translate <lang> <id>:` block Ren'Py expects for this line (label +
+   * hash of the statement, or its `id` clause). Unset for menu choices, which are translated
+   * through `translate <lang> strings:` tables.
+   */
+  translationId?: string;
 }
 
 /** A translated string extracted from a `translate` block. */
@@ -588,6 +879,29 @@ export interface TranslationAnalysisResult {
   languageCoverages: LanguageCoverage[];
   detectedLanguages: string[];
   stringTranslations: Map<string, Map<string, TranslatedString>>;
+  /** Per language: `translate` blocks whose ID no longer matches any source line */
+  orphanedTranslations: Map<string, TranslatedString[]>;
+  /** Per language: source lines with no `translate` block (or string-table entry) of their ID */
+  missingTranslations: Map<string, TranslatableString[]>;
+}
+
+/** A confirmed translation, offered as a suggestion for similar strings. */
+export interface TranslationMemoryEntry {
+  source: string;
+  target: string;
+}
+
+/** The agreed translation of a character name or key term. */
+export interface GlossaryEntry {
+  term: string;
+  translation: string;
+  note?: string;
+}
+
+/** Translation memory and glossary per language, stored in `game/project.translations.json`. */
+export interface ProjectTranslationResources {
+  memory: Record<string, TranslationMemoryEntry[]>;
+  glossary: Record<string, GlossaryEntry[]>;
 }
 
 export interface RenpyAnalysisResult {
@@ -607,14 +921,24 @@ export interface RenpyAnalysisResult {
   characterUsage: Map<string, number>;
   variables: Map<string, Variable>;
   variableUsages: Map<string, VariableUsage[]>;
+  choiceEffects: ChoiceVariableEffect[];
   screens: Map<string, RenpyScreen>;
+  transforms: Map<string, RenpyTransform>;
+  styles: Map<string, RenpyStyle>;
+  guiDefines: Map<string, Variable>;
   definedImages: Set<string>;
   blockTypes: Map<string, Set<string>>;
   labelNodes: LabelNode[];
   routeLinks: RouteLink[];
   identifiedRoutes: IdentifiedRoute[];
-  routesTruncated: boolean;
+  pathAnalysis: RoutePathAnalysis;
+  routeSimulation: RouteSimulation;
   translationData: TranslationAnalysisResult;
+  pythonDiagnostics: PythonDiagnostic[];
+  screenDiagnostics: ScreenDiagnostic[];
+  atlDiagnostics: AtlDiagnostic[];
+  styleDiagnostics: StyleDiagnostic[];
+  routeDiagnostics: RouteDiagnostic[];
 }
 
 
@@ -631,10 +955,11 @@ export interface RenpyAnalysisResult {
  * @property {Object} [scrollRequest] - Request to scroll editor to specific line
  * @property {number} scrollRequest.line - Target line number
  * @property {number} scrollRequest.key - Unique key to trigger scroll event
+ * @property {number[]} [foldedLines] - Header lines of collapsed folding regions (editor tabs)
  */
 export interface EditorTab {
   id: string;
-  type: 'canvas' | 'route-canvas' | 'choice-canvas' | 'punchlist' | 'diagnostics' | 'editor' | 'image' | 'audio' | 'character' | 'scene-composer' | 'imagemap-composer' | 'screen-layout-composer' | 'stats' | 'markdown' | 'translations';
+  type: 'canvas' | 'route-canvas' | 'choice-canvas' | 'punchlist' | 'diagnostics' | 'editor' | 'image' | 'audio' | 'character' | 'scene-composer' | 'imagemap-composer' | 'screen-layout-composer' | 'stats' | 'markdown' | 'translations' | 'variable-impact' | 'storyboard' | 'character-timeline';
   blockId?: string;
   filePath?: string;
   characterTag?: string;
@@ -642,6 +967,7 @@ export interface EditorTab {
   imagemapId?: string;
   layoutId?: string;
   scrollRequest?: { line: number; key: number };
+  foldedLines?: number[];
 }
 
 /**
@@ -951,6 +1277,12 @@ export interface ProjectSettings {
   choiceCanvasLayoutMode?: StoryCanvasLayoutMode;
   choiceCanvasGroupingMode?: StoryCanvasGroupingMode;
   choiceCanvasHasAutocentered?: boolean;
+  choiceCanvasLayoutFingerprint?: string;
+  choiceNodeLayouts?: Record<string, SavedChoiceNodeLayout>;
+  /** Strings flagged "needs review" in the translation workbench, per language */
+  translationReviewFlags?: Record<string, string[]>;
+  /** Translation QA flags translations longer than this percentage of the source */
+  translationMaxLengthPercent?: number;
   openTabs: EditorTab[];
   activeTabId: string;
   splitLayout?: 'none' | 'right' | 'bottom';
@@ -972,7 +1304,7 @@ export interface ProjectSettings {
   scannedAudioPaths?: string[];
   storyElementsTabState?: {
     activeTab: 'storyData' | 'assets' | 'composers' | 'tools';
-    activeSubTab?: 'characters' | 'variables' | 'screens' | 'images' | 'audio' | 'scenes' | 'imagemaps' | 'screenLayouts' | 'snippets' | 'menuTemplates' | 'colorPalette';
+    activeSubTab?: 'outline' | 'characters' | 'variables' | 'screens' | 'transforms' | 'styles' | 'images' | 'audio' | 'scenes' | 'imagemaps' | 'screenLayouts' | 'snippets' | 'menuTemplates' | 'colorPalette';
   };
   dismissedImplicitVariableHint?: boolean;
 }
@@ -1054,6 +1386,8 @@ export interface ProjectLoadResult {
   images: ScannedImageAsset[];
   audios: ScannedAudioAsset[];
   settings: ProjectSettings | null;
+  /** Contents of `game/project.translations.json`, null when there is none */
+  translations: Partial<ProjectTranslationResources> | null;
   tree: FileSystemTreeNode;
 }
 
@@ -1173,6 +1507,7 @@ declare global {
               buttonLabel?: string;
               filters?: { name: string; extensions: string[] }[];
           }) => Promise<string | null>;
+          exportPdf?: (html: string, filePath: string) => Promise<{ success: boolean; error?: string }>;
           onUpdateAvailable?: (callback: (version: string) => void) => () => void;
           onUpdateNotAvailable?: (callback: () => void) => () => void;
           onUpdateError?: (callback: () => void) => () => void;
@@ -13,6 +13,11 @@ import type { AnalysisBlock } from '@/hooks/useRenpyAnalysis';
 import type { RenpyAnalysisResult } from '@/types';
 import { formatErrorMessage } from '@/lib/formatErrorMessage';
 import { performTranslationAnalysis } from '@/lib/renpyTranslationParser';
+import { performPythonAnalysis } from '@/lib/renpyPythonAnalysis';
+import { performScreenAnalysis } from '@/lib/renpyScreenAnalysis';
+import { performAtlAnalysis } from '@/lib/renpyAtl';
+import { performStyleAnalysis } from '@/lib/renpyStyles';
+import { performRouteSimulation } from '@/lib/renpyRouteSimulation';
 
 interface WorkerRequest {
   id: number;
@@ -84,23 +89,39 @@ let cachedResult: RenpyAnalysisResult | null = null;
 /**
  * Web Worker message handler for Ren'Py analysis requests.
  *
- * Receives `WorkerRequest` messages with block content, performs full analysis in three phases:
- * 1. **Parsing**: Extract labels, characters, images, screens, etc. via `performRenpyAnalysis()`
- * 2. **Route graph**: Build label nodes and route links via `performRouteAnalysis()`
- * 3. **Translation**: Analyze dialogue strings via `performTranslationAnalysis()`
+ * Receives `WorkerRequest` messages with block content, performs full analysis in six phases:
+ * 1. **Parsing**: Extract labels, characters, images, screens, styles, etc. via `performRenpyAnalysis()`
+ * 2. **Python**: Parse `$`/`python:` code, add implicit variables and report Python
+ *    syntax errors and undefined names via `performPythonAnalysis()`
+ * 3. **Screens, ATL and styles**: Validate screen language properties, actions, `use` statements
+ *    and style references via `performScreenAnalysis()`, ATL blocks and `at` clauses via
+ *    `performAtlAnalysis()`, and style parents via `performStyleAnalysis()`
+ * 4. **Route graph**: Build label nodes and route links, then count routes per ending, find
+ *    critical and unique labels and pick a few representative paths per ending via
+ *    `performRouteAnalysis()`; the previous path analysis is passed
+ *    back in so it is reused when the route graph itself did not change
+ * 5. **Route conditions**: Simulate variable values along the route graph and classify
+ *    labels, links and routes as feasible, infeasible or unknown via `performRouteSimulation()`;
+ *    per-route results are reused for routes whose links and label bodies did not change
+ * 6. **Translation**: Analyze dialogue strings via `performTranslationAnalysis()`
  *
  * **Content-hash caching**: Before running analysis, computes djb2 hashes of all block content.
  * If hashes match the previous run, returns the cached result immediately without re-parsing.
  * This optimization handles the common case where the user drags blocks on the canvas (changing
  * positions but not content).
  *
- * Posts progress updates at 10%, 60%, 80%, and 95% completion.
+ * Posts progress updates at 10%, 40%, 50%, 60%, 70%, 80%, and 95% completion.
  *
  * @param e - MessageEvent with WorkerRequest containing request ID and blocks
  *
  * @complexity O(n·m) where n=block count, m=average block length (dominated by parsing)
  * @see performRenpyAnalysis for main parsing logic
+ * @see performPythonAnalysis for the embedded Python pass
+ * @see performScreenAnalysis for the screen language pass
+ * @see performAtlAnalysis for the ATL and transform reference pass
+ * @see performStyleAnalysis for the style inheritance check
  * @see performRouteAnalysis for route graph construction
+ * @see performRouteSimulation for the variable-aware feasibility pass
  * @see performTranslationAnalysis for translation string extraction
  */
 self.onmessage = (e: MessageEvent<WorkerRequest>) => {
@@ -118,13 +139,26 @@ self.onmessage = (e: MessageEvent<WorkerRequest>) => {
 
     const result = performRenpyAnalysis(blocks);
 
+    self.postMessage({ id, type: 'progress', phase: 'Analyzing Python', percent: 40 });
+    result.pythonDiagnostics = performPythonAnalysis(blocks, result);
+
+    self.postMessage({ id, type: 'progress', phase: 'Validating screens and transforms', percent: 50 });
+    result.screenDiagnostics = performScreenAnalysis(blocks, result);
+    result.atlDiagnostics = performAtlAnalysis(blocks, result);
+    result.styleDiagnostics = performStyleAnalysis(blocks, result);
+
     self.postMessage({ id, type: 'progress', phase: 'Building route graph', percent: 60 });
 
-    const routeData = performRouteAnalysis(blocks, result.labels, result.jumps);
+    const routeData = performRouteAnalysis(blocks, result.labels, result.jumps, cachedResult?.pathAnalysis);
     result.labelNodes = routeData.labelNodes;
     result.routeLinks = routeData.routeLinks;
     result.identifiedRoutes = routeData.identifiedRoutes;
-    result.routesTruncated = routeData.routesTruncated;
+    result.pathAnalysis = routeData.pathAnalysis;
+
+    self.postMessage({ id, type: 'progress', phase: 'Simulating route conditions', percent: 70 });
+    const simulation = performRouteSimulation(blocks, result, cachedResult?.routeSimulation);
+    result.routeSimulation = simulation.routeSimulation;
+    result.routeDiagnostics = simulation.routeDiagnostics;
 
     self.postMessage({ id, type: 'progress', phase: 'Analyzing translations', percent: 80 });
     const translationData = performTranslationAnalysis(blocks, result.dialogueLines, result.labels);